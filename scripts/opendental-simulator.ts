@@ -0,0 +1,60 @@
+/**
+ * Local OpenDental Simulator
+ *
+ * Runs a stateful stand-in for the OpenDental API seeded with the same sample
+ * practice as seed-booking-data.ts. To use it from the app, set the
+ * organization's OpenDental integration to:
+ *   API Base URL  http://localhost:4020/api/v1
+ *   Developer Key simulator-developer-key
+ *   Customer Key  simulator-customer-key
+ *
+ * Usage:
+ *   npm run opendental:simulator
+ *   npm run opendental:simulator -- --port 4020 --latency 300 --failure-rate 0.1
+ *   npm run opendental:simulator -- --no-break-types
+ *
+ * Faults can be injected while it runs, e.g. fail the next two bookings:
+ *   curl -X POST localhost:4020/_simulator/faults \
+ *     -d '{"method":"POST","path":"/appointments","status":500,"times":2}'
+ */
+
+function flag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const { startOpenDentalSimulator, SIMULATOR_CUSTOMER_KEY, SIMULATOR_DEVELOPER_KEY } = await import(
+    '../src/app/lib/opendentalSimulator/server'
+  );
+
+  const simulator = await startOpenDentalSimulator({
+    port: parseInt(flag('port') || '4020', 10),
+    host: flag('host') || '127.0.0.1',
+    latencyMs: parseInt(flag('latency') || '0', 10),
+    failureRate: parseFloat(flag('failure-rate') || '0'),
+    breakTypesEnabled: !process.argv.includes('--no-break-types'),
+  });
+
+  const counts = simulator.store.snapshot();
+  console.log(`🦷 OpenDental simulator listening on ${simulator.baseUrl}`);
+  console.log(`   Authorization: ODFHIR ${SIMULATOR_DEVELOPER_KEY}/${SIMULATOR_CUSTOMER_KEY}`);
+  console.log(
+    `   ${counts.patients.length} patients, ${counts.providers.length} providers, ` +
+    `${counts.operatories.length} operatories, ${counts.appointments.length} appointments, ` +
+    `${counts.schedules.length} schedules`
+  );
+  console.log(`   Control: ${simulator.url}/_simulator/state`);
+
+  const shutdown = async () => {
+    await simulator.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Simulator failed to start:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
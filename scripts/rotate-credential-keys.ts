@@ -0,0 +1,45 @@
+/**
+ * Rotate Credential Encryption Keys
+ *
+ * Gives every organization a new data key wrapped by the current master key
+ * and re-encrypts all api_credentials rows with it (legacy plaintext rows are
+ * encrypted on the way).
+ *
+ * Rotating the master key:
+ *   1. Move the current key into CREDENTIALS_PREVIOUS_MASTER_KEYS ("k1:<base64>")
+ *   2. Set CREDENTIALS_MASTER_KEY / CREDENTIALS_MASTER_KEY_ID to the new key ("k2")
+ *   3. Run this script; afterwards the previous key can be removed
+ *
+ * Usage:
+ *   npm run credentials:rotate
+ *   npm run credentials:rotate -- --org <organization uuid>
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+config({ path: resolve(process.cwd(), '.env') });
+
+async function main() {
+  const orgFlag = process.argv.indexOf('--org');
+  const organizationId = orgFlag !== -1 ? process.argv[orgFlag + 1] : undefined;
+
+  if (!process.env.CREDENTIALS_MASTER_KEY) {
+    console.error('❌ CREDENTIALS_MASTER_KEY is not set');
+    process.exit(1);
+  }
+
+  const { rotateCredentialKeys } = await import('../src/app/lib/credentials/vault');
+
+  console.log(`🔄 Rotating credential keys${organizationId ? ` for org ${organizationId}` : ' for all organizations'}...`);
+  const summary = await rotateCredentialKeys({ organizationId });
+  console.log(
+    `✅ Re-encrypted ${summary.credentials} credential(s) across ${summary.organizations} organization(s); ` +
+    `deleted ${summary.retiredKeys} retired data key(s)`
+  );
+}
+
+main().catch((error) => {
+  console.error('❌ Rotation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -3,6 +3,7 @@
  * Seed Data Script for Embedded Booking System
  * 
  * Creates sample data: providers, operatories, schedules, patients, and appointments
+ * (defined in src/app/lib/bookingSeedData.ts, shared with the OpenDental simulator)
  * 
  * Usage:
  *   npx tsx scripts/seed-booking-data.ts
@@ -40,6 +41,15 @@ async function seedBookingData() {
 
   // Dynamically import db module after env vars are loaded
   const { getSupabaseClient } = await import('../src/app/lib/db');
+  const {
+    SEED_PROVIDERS,
+    SEED_OPERATORIES,
+    SEED_PROVIDER_OPERATORIES,
+    SEED_WORKING_HOURS,
+    SEED_PATIENTS,
+    SEED_APPOINTMENTS,
+    seedAppointmentStart,
+  } = await import('../src/app/lib/bookingSeedData');
   const db = getSupabaseClient();
 
   try {
@@ -47,32 +57,7 @@ async function seedBookingData() {
     console.log('📋 Creating providers...');
     const { data: providers, error: providersError } = await db
       .from('providers')
-      .insert([
-        {
-          first_name: 'Sarah',
-          last_name: 'Pearl',
-          specialty_tags: ['General', 'Cosmetic'],
-          is_active: true,
-        },
-        {
-          first_name: 'Michael',
-          last_name: 'Chen',
-          specialty_tags: ['Orthodontics'],
-          is_active: true,
-        },
-        {
-          first_name: 'Emily',
-          last_name: 'Rodriguez',
-          specialty_tags: ['General', 'Hygiene'],
-          is_active: true,
-        },
-        {
-          first_name: 'David',
-          last_name: 'Johnson',
-          specialty_tags: ['Oral Surgery'],
-          is_active: true,
-        },
-      ])
+      .insert(SEED_PROVIDERS.map(provider => ({ ...provider, is_active: true })))
       .select();
 
     if (providersError) {
@@ -85,38 +70,7 @@ async function seedBookingData() {
     console.log('🏥 Creating operatories...');
     const { data: operatories, error: operatoriesError } = await db
       .from('operatories')
-      .insert([
-        {
-          name: 'Room 1',
-          tags: ['General', 'Hygiene'],
-          is_active: true,
-        },
-        {
-          name: 'Room 2',
-          tags: ['General'],
-          is_active: true,
-        },
-        {
-          name: 'Room 3',
-          tags: ['Hygiene'],
-          is_active: true,
-        },
-        {
-          name: 'Room 4',
-          tags: ['General', 'Surgical'],
-          is_active: true,
-        },
-        {
-          name: 'Ortho Room',
-          tags: ['Orthodontics'],
-          is_active: true,
-        },
-        {
-          name: 'Room 5',
-          tags: ['General', 'Hygiene'],
-          is_active: true,
-        },
-      ])
+      .insert(SEED_OPERATORIES.map(operatory => ({ ...operatory, is_active: true })))
       .select();
 
     if (operatoriesError) {
@@ -130,13 +84,7 @@ async function seedBookingData() {
     
     // Helper to create schedules for a provider
     const createScheduleForProvider = async (providerId: number, operatoryIds: number[]) => {
-      const schedules = [
-        { day_of_week: 1, start_time: '09:00:00', end_time: '17:00:00' }, // Monday
-        { day_of_week: 2, start_time: '09:00:00', end_time: '17:00:00' }, // Tuesday
-        { day_of_week: 3, start_time: '09:00:00', end_time: '17:00:00' }, // Wednesday
-        { day_of_week: 4, start_time: '09:00:00', end_time: '17:00:00' }, // Thursday
-        { day_of_week: 5, start_time: '09:00:00', end_time: '17:00:00' }, // Friday
-      ];
+      const schedules = SEED_WORKING_HOURS;
 
       const scheduleData = schedules.map(schedule => ({
         provider_id: providerId,
@@ -153,10 +101,9 @@ async function seedBookingData() {
 
     // Create schedules for each provider
     if (providers && providers.length > 0 && operatories && operatories.length > 0) {
-      await createScheduleForProvider(providers[0].id, [operatories[0].id, operatories[1].id]); // Dr. Pearl - Rooms 1, 2
-      await createScheduleForProvider(providers[1].id, [operatories[4].id]); // Dr. Chen - Ortho Room
-      await createScheduleForProvider(providers[2].id, [operatories[2].id, operatories[5].id]); // Dr. Rodriguez - Rooms 3, 5
-      await createScheduleForProvider(providers[3].id, [operatories[3].id]); // Dr. Johnson - Room 4
+      for (const [index, operatoryIndexes] of SEED_PROVIDER_OPERATORIES.entries()) {
+        await createScheduleForProvider(providers[index].id, operatoryIndexes.map(i => operatories[i].id));
+      }
     }
 
     console.log(`✅ Created provider schedules\n`);
@@ -165,36 +112,7 @@ async function seedBookingData() {
     console.log('👥 Creating patients...');
     const { data: patients, error: patientsError } = await db
       .from('patients')
-      .insert([
-        {
-          first_name: 'John',
-          last_name: 'Smith',
-          phone: '5551234567',
-          email: 'john.smith@example.com',
-          date_of_birth: '1985-05-15',
-        },
-        {
-          first_name: 'Jane',
-          last_name: 'Doe',
-          phone: '5552345678',
-          email: 'jane.doe@example.com',
-          date_of_birth: '1990-08-22',
-        },
-        {
-          first_name: 'Robert',
-          last_name: 'Johnson',
-          phone: '5553456789',
-          email: 'robert.j@example.com',
-          date_of_birth: '1978-12-03',
-        },
-        {
-          first_name: 'Maria',
-          last_name: 'Garcia',
-          phone: '5554567890',
-          email: 'maria.garcia@example.com',
-          date_of_birth: '1992-03-18',
-        },
-      ])
+      .insert(SEED_PATIENTS)
       .select();
 
     if (patientsError) {
@@ -207,50 +125,16 @@ async function seedBookingData() {
     console.log('📆 Creating sample appointments...');
     
     if (providers && providers.length > 0 && patients && patients.length > 0 && operatories && operatories.length > 0) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(10, 0, 0, 0);
-
-      const dayAfterTomorrow = new Date();
-      dayAfterTomorrow.setDate(dayAfterTomorrow.getDate() + 2);
-      dayAfterTomorrow.setHours(14, 30, 0, 0);
-
-      const nextWeek = new Date();
-      nextWeek.setDate(nextWeek.getDate() + 7);
-      nextWeek.setHours(9, 0, 0, 0);
-
-      const appointments = [
-        {
-          patient_id: patients[0].id,
-          provider_id: providers[0].id,
-          operatory_id: operatories[0].id,
-          appointment_datetime: tomorrow.toISOString().slice(0, 19).replace('T', ' '),
-          duration_minutes: 30,
-          appointment_type: 'Cleaning',
-          status: 'Scheduled' as const,
-          notes: 'Regular cleaning appointment',
-        },
-        {
-          patient_id: patients[1].id,
-          provider_id: providers[0].id,
-          operatory_id: operatories[1].id,
-          appointment_datetime: dayAfterTomorrow.toISOString().slice(0, 19).replace('T', ' '),
-          duration_minutes: 30,
-          appointment_type: 'Checkup',
-          status: 'Scheduled' as const,
-          notes: 'Annual checkup',
-        },
-        {
-          patient_id: patients[2].id,
-          provider_id: providers[1].id,
-          operatory_id: operatories[4].id,
-          appointment_datetime: nextWeek.toISOString().slice(0, 19).replace('T', ' '),
-          duration_minutes: 30,
-          appointment_type: 'Consultation',
-          status: 'Scheduled' as const,
-          notes: 'Braces consultation',
-        },
-      ];
+      const appointments = SEED_APPOINTMENTS.map(appointment => ({
+        patient_id: patients[appointment.patient].id,
+        provider_id: providers[appointment.provider].id,
+        operatory_id: operatories[appointment.operatory].id,
+        appointment_datetime: seedAppointmentStart(appointment).toISOString().slice(0, 19).replace('T', ' '),
+        duration_minutes: appointment.duration_minutes,
+        appointment_type: appointment.appointment_type,
+        status: 'Scheduled' as const,
+        notes: appointment.notes,
+      }));
 
       const { data: createdAppointments, error: appointmentsError } = await db
         .from('appointments')
@@ -33,6 +33,7 @@ interface Appointment {
   AptDateTime: string;
   AptStatus: string;
   Note: string;
+  Resources?: Array<{ Type: string; ProvNum: number | null; OpNum: number | null }>;
 }
 
 interface Provider {
@@ -431,7 +432,12 @@ export default function WeekCalendarPage() {
                         <div className="flex items-center gap-1 mt-1">
                           <div className={`w-2 h-2 rounded-full ${color.dot}`} />
                           <span className={`text-xs ${color.text} opacity-75 truncate`}>
-                            {getProviderShortName(apt.ProvNum)} • {getOperatoryName(apt.Op)}
+                            {getProviderShortName(apt.ProvNum)}
+                            {(apt.Resources || [])
+                              .filter(r => r.Type === 'assistant' && r.ProvNum)
+                              .map(r => ` + ${getProviderShortName(r.ProvNum as number)}`)
+                              .join('')}
+                            {' • '}{getOperatoryName(apt.Op)}
                           </span>
                         </div>
                         {apt.AptStatus !== 'Scheduled' && (
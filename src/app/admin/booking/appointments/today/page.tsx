@@ -38,6 +38,22 @@ interface Appointment {
   AptStatus: string;
   Note: string;
   Pattern?: string;
+  LengthMinutes?: number;
+  Resources?: AppointmentResource[];
+}
+
+interface AppointmentResource {
+  Type: 'provider' | 'assistant' | 'operatory';
+  ProvNum: number | null;
+  OpNum: number | null;
+  OffsetMinutes: number;
+  LengthMinutes: number;
+}
+
+// One appointment's piece of a lane (a multi-resource visit shows up in several lanes)
+interface LaneBlock {
+  apt: Appointment;
+  resource: AppointmentResource;
 }
 
 interface Provider {
@@ -91,6 +107,7 @@ export default function TodayGanttPage() {
   const [filterProvider, setFilterProvider] = useState<string>('all');
   const [filterOperatory, setFilterOperatory] = useState<string>('all');
   const [viewMode, setViewMode] = useState<'operatory' | 'provider'>('operatory');
+  const [hoveredAptNum, setHoveredAptNum] = useState<number | null>(null);
   
   // Detail dialog
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
@@ -171,15 +188,31 @@ export default function TodayGanttPage() {
     return PROVIDER_COLORS[index % PROVIDER_COLORS.length];
   };
 
-  // Filter appointments
+  // Provider/assistant/operatory assignments; older appointments hold provider + room for the whole visit
+  const getResources = (apt: Appointment): AppointmentResource[] => {
+    if (apt.Resources && apt.Resources.length > 0) return apt.Resources;
+    const length = apt.LengthMinutes || (apt.Pattern ? apt.Pattern.length * 5 : 30);
+    return [
+      { Type: 'provider', ProvNum: apt.ProvNum, OpNum: null, OffsetMinutes: 0, LengthMinutes: length },
+      { Type: 'operatory', ProvNum: null, OpNum: apt.Op, OffsetMinutes: 0, LengthMinutes: length },
+    ];
+  };
+
+  // Filter appointments (a provider also matches visits they assist on, a room any chair used)
   const filteredAppointments = useMemo(() => {
     return appointments.filter(apt => {
-      if (filterProvider !== 'all' && apt.ProvNum !== parseInt(filterProvider)) return false;
-      if (filterOperatory !== 'all' && apt.Op !== parseInt(filterOperatory)) return false;
+      const resources = getResources(apt);
+      if (filterProvider !== 'all' && !resources.some(r => r.Type !== 'operatory' && r.ProvNum === parseInt(filterProvider))) return false;
+      if (filterOperatory !== 'all' && !resources.some(r => r.Type === 'operatory' && r.OpNum === parseInt(filterOperatory))) return false;
       return true;
     });
   }, [appointments, filterProvider, filterOperatory]);
 
+  const laneBlocks = (matches: (resource: AppointmentResource) => boolean): LaneBlock[] =>
+    filteredAppointments.flatMap(apt =>
+      getResources(apt).filter(matches).map(resource => ({ apt, resource }))
+    );
+
   // Get rows based on view mode
   const rows = useMemo(() => {
     if (viewMode === 'operatory') {
@@ -190,7 +223,7 @@ export default function TodayGanttPage() {
       return ops.map(op => ({
         id: op.OperatoryNum,
         label: op.OpName,
-        appointments: filteredAppointments.filter(apt => apt.Op === op.OperatoryNum),
+        blocks: laneBlocks(r => r.Type === 'operatory' && r.OpNum === op.OperatoryNum),
       }));
     } else {
       let provs = providers;
@@ -200,25 +233,23 @@ export default function TodayGanttPage() {
       return provs.map(prov => ({
         id: prov.ProvNum,
         label: `Dr. ${prov.FName} ${prov.LName}`,
-        appointments: filteredAppointments.filter(apt => apt.ProvNum === prov.ProvNum),
+        blocks: laneBlocks(r => r.Type !== 'operatory' && r.ProvNum === prov.ProvNum),
       }));
     }
   }, [viewMode, operatories, providers, filteredAppointments, filterOperatory, filterProvider]);
 
-  // Calculate appointment position and width
-  const getAppointmentStyle = (apt: Appointment) => {
+  // Calculate block position and width from the visit start plus the resource's offset/length
+  const getBlockStyle = ({ apt, resource }: LaneBlock) => {
     const aptDate = new Date(apt.AptDateTime);
     const hours = aptDate.getHours();
     const minutes = aptDate.getMinutes();
     
     // Calculate left position (percentage)
-    const startMinutes = (hours - START_HOUR) * 60 + minutes;
+    const startMinutes = (hours - START_HOUR) * 60 + minutes + resource.OffsetMinutes;
     const totalMinutes = (END_HOUR - START_HOUR) * 60;
     const left = (startMinutes / totalMinutes) * 100;
     
-    // Estimate duration (30 min default, or parse from Pattern if available)
-    const duration = apt.Pattern ? apt.Pattern.length * 5 : 30; // Each X in pattern = 5 min
-    const width = (duration / totalMinutes) * 100;
+    const width = (resource.LengthMinutes / totalMinutes) * 100;
     
     return {
       left: `${Math.max(0, left)}%`,
@@ -427,28 +458,36 @@ export default function TodayGanttPage() {
                 
                 {/* Appointments */}
                 <div className="relative h-full py-1 px-1">
-                  {row.appointments.map(apt => {
-                    const style = getAppointmentStyle(apt);
+                  {row.blocks.map((block, blockIndex) => {
+                    const { apt, resource } = block;
+                    const style = getBlockStyle(block);
                     const color = getProviderColor(apt.ProvNum);
-                    const statusColor = STATUS_COLORS[apt.AptStatus] || STATUS_COLORS.Scheduled;
-                    const aptTime = new Date(apt.AptDateTime);
+                    const blockTime = new Date(new Date(apt.AptDateTime).getTime() + resource.OffsetMinutes * 60000);
+                    const isShared = getResources(apt).length > 2;
+                    const isHovered = hoveredAptNum === apt.AptNum;
                     
                     return (
                       <div
-                        key={apt.AptNum}
-                        className={`absolute top-1 bottom-1 ${color.bg} ${color.border} border-l-4 rounded-r cursor-pointer hover:opacity-90 transition-opacity shadow-sm overflow-hidden`}
+                        key={`${apt.AptNum}-${blockIndex}`}
+                        className={`absolute top-1 bottom-1 ${color.bg} ${color.border} border-l-4 rounded-r cursor-pointer hover:opacity-90 transition-opacity shadow-sm overflow-hidden ${
+                          resource.Type === 'assistant' ? 'opacity-75 border-dashed' : ''
+                        } ${isHovered ? 'ring-2 ring-offset-1 ring-gray-900' : ''}`}
                         style={style}
                         onClick={() => setSelectedAppointment(apt)}
-                        title={`${getPatientName(apt.PatNum)} - ${aptTime.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`}
+                        onMouseEnter={() => setHoveredAptNum(apt.AptNum)}
+                        onMouseLeave={() => setHoveredAptNum(null)}
+                        title={`${getPatientName(apt.PatNum)} - ${blockTime.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`}
                       >
                         <div className={`px-2 py-1 h-full flex flex-col justify-center ${color.text}`}>
                           <div className="text-xs font-semibold truncate">
+                            {resource.Type === 'assistant' && 'Assist: '}
                             {getPatientName(apt.PatNum)}
                           </div>
                           <div className="text-[10px] opacity-80 truncate">
-                            {aptTime.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                            {blockTime.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
                             {viewMode === 'operatory' && ` • ${getProviderName(apt.ProvNum)}`}
                             {viewMode === 'provider' && ` • ${getOperatoryName(apt.Op)}`}
+                            {isShared && ` • ${getResources(apt).length} resources`}
                           </div>
                         </div>
                       </div>
@@ -536,6 +575,30 @@ export default function TodayGanttPage() {
                   <div className="font-medium">{getOperatoryName(selectedAppointment.Op)}</div>
                 </div>
               </div>
+              {getResources(selectedAppointment).length > 2 && (
+                <div>
+                  <Label className="text-gray-500">Resources</Label>
+                  <div className="mt-1 space-y-1">
+                    {getResources(selectedAppointment).map((resource, i) => {
+                      const from = new Date(new Date(selectedAppointment.AptDateTime).getTime() + resource.OffsetMinutes * 60000);
+                      const to = new Date(from.getTime() + resource.LengthMinutes * 60000);
+                      return (
+                        <div key={i} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                          <span>
+                            <Badge variant="outline" className="mr-2 capitalize">{resource.Type}</Badge>
+                            {resource.Type === 'operatory'
+                              ? getOperatoryName(resource.OpNum as number)
+                              : getProviderName(resource.ProvNum as number)}
+                          </span>
+                          <span className="text-gray-500">
+                            {from.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} - {to.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
               {selectedAppointment.Note && (
                 <div>
                   <Label className="text-gray-500">{tCommon('notes')}</Label>
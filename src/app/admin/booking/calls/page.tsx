@@ -3,6 +3,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from '@/lib/i18n/TranslationProvider';
+import { useAuth } from '@/app/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import {
   Table,
@@ -21,8 +22,9 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { List, BarChart3, UserPlus, CalendarPlus, CalendarClock, CheckCircle2, XCircle, AlertCircle, Calendar } from 'lucide-react';
+import { List, BarChart3, ClipboardCheck, UserPlus, CalendarPlus, CalendarClock, CheckCircle2, XCircle, AlertCircle, Calendar, ThumbsUp, ThumbsDown, Star } from 'lucide-react';
 
 // Human-readable action formatter
 function formatAction(fc: FunctionCall): { icon: React.ReactNode; text: string; success: boolean } {
@@ -155,12 +157,14 @@ function formatDateTime(dateTimeStr: string): string {
 }
 
 interface ConversationMessage {
+  id?: string;
   role: string;
   content: string;
   timestamp: string;
 }
 
 interface FunctionCall {
+  id?: string;
   timestamp: string;
   functionName: string;
   parameters: Record<string, any>;
@@ -170,6 +174,7 @@ interface FunctionCall {
 
 interface Conversation {
   sessionId: string;
+  conversationId?: string;
   channel?: 'retell' | 'twilio' | 'voice' | 'sms' | 'whatsapp' | 'web';
   createdAt: string;
   updatedAt: string;
@@ -199,6 +204,37 @@ interface Conversation {
   disconnectionReason?: string;  // Why call ended
 }
 
+interface Review {
+  id: string;
+  message_id: string | null;
+  function_call_id: string | null;
+  rating: number | null;
+  thumbs_up: boolean | null;
+  feedback_text: string | null;
+  feedback_source: string | null;
+  failure_tags: string[];
+  expected_response: string | null;
+  submitted_by: string | null;
+}
+
+/** What a staff review is about: the whole call, one assistant turn or one function call */
+interface ReviewTarget {
+  messageId?: string;
+  functionCallId?: string;
+  label: string;
+}
+
+interface ReviewDraft {
+  rating: number | null;
+  thumbsUp: boolean | null;
+  tags: string[];
+  notes: string;
+  expected: string;
+}
+
+const WHOLE_CALL: ReviewTarget = { label: 'Whole call' };
+const EMPTY_DRAFT: ReviewDraft = { rating: null, thumbsUp: null, tags: [], notes: '', expected: '' };
+
 export default function CallsPage() {
   const t = useTranslations('calls');
   const tCommon = useTranslations('common');
@@ -210,6 +246,13 @@ export default function CallsPage() {
   });
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [failureTags, setFailureTags] = useState<Record<string, string>>({});
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget>(WHOLE_CALL);
+  const [draft, setDraft] = useState<ReviewDraft>(EMPTY_DRAFT);
+  const [savingReview, setSavingReview] = useState(false);
+  const [reviewMessage, setReviewMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   const fetchConversations = useCallback(async () => {
     setLoading(true);
@@ -368,6 +411,141 @@ export default function CallsPage() {
   const viewConversation = (conv: Conversation) => {
     setSelectedConversation(conv);
     setIsDialogOpen(true);
+    setReviews([]);
+    setReviewTarget(WHOLE_CALL);
+    setDraft(EMPTY_DRAFT);
+    setReviewMessage(null);
+    if (conv.conversationId) {
+      fetchReviews(conv.conversationId, WHOLE_CALL);
+    }
+  };
+
+  /** The signed-in staff member's review of a target */
+  const findMyReview = (list: Review[], target: ReviewTarget) =>
+    list.find(review =>
+      review.feedback_source === 'staff' &&
+      review.submitted_by === user?.id &&
+      review.message_id === (target.messageId || null) &&
+      review.function_call_id === (target.functionCallId || null)
+    );
+
+  const draftFromReview = (review?: Review): ReviewDraft =>
+    review
+      ? {
+          rating: review.rating,
+          thumbsUp: review.thumbs_up,
+          tags: review.failure_tags || [],
+          notes: review.feedback_text || '',
+          expected: review.expected_response || '',
+        }
+      : EMPTY_DRAFT;
+
+  const fetchReviews = async (conversationId: string, target: ReviewTarget) => {
+    try {
+      const response = await fetch(`/api/feedback?conversationId=${conversationId}`);
+      const data = await response.json();
+      if (data.success) {
+        setReviews(data.feedback || []);
+        setFailureTags(data.failureTags || {});
+        setDraft(draftFromReview(findMyReview(data.feedback || [], target)));
+      }
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    }
+  };
+
+  const selectReviewTarget = (target: ReviewTarget, changes: Partial<ReviewDraft> = {}) => {
+    setReviewTarget(target);
+    setReviewMessage(null);
+    setDraft({ ...draftFromReview(findMyReview(reviews, target)), ...changes });
+  };
+
+  /** Thumbs state shown next to a turn or action (your review, else anyone's latest) */
+  const getTurnRating = (target: ReviewTarget): boolean | null => {
+    const forTarget = reviews.filter(review =>
+      review.message_id === (target.messageId || null) &&
+      review.function_call_id === (target.functionCallId || null)
+    );
+    const review = findMyReview(reviews, target) || forTarget[forTarget.length - 1];
+    if (!review) return null;
+    if (review.failure_tags?.length) return false;
+    return review.thumbs_up;
+  };
+
+  const saveReview = async (target: ReviewTarget = reviewTarget, values: ReviewDraft = draft) => {
+    if (!selectedConversation?.conversationId) return;
+
+    setSavingReview(true);
+    setReviewMessage(null);
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          conversationId: selectedConversation.conversationId,
+          messageId: target.messageId,
+          functionCallId: target.functionCallId,
+          rating: values.rating,
+          thumbsUp: values.thumbsUp,
+          failureTags: values.tags,
+          feedbackText: values.notes,
+          expectedResponse: values.expected,
+          source: 'staff',
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save review');
+      }
+      setReviewMessage({ type: 'success', text: 'Review saved' });
+      await fetchReviews(selectedConversation.conversationId, target);
+    } catch (error: any) {
+      setReviewMessage({ type: 'error', text: error.message });
+    } finally {
+      setSavingReview(false);
+    }
+  };
+
+  const rateTurn = (target: ReviewTarget, thumbsUp: boolean) => {
+    if (thumbsUp) {
+      // A thumbs up needs no detail; save straight away
+      selectReviewTarget(target, { thumbsUp: true, tags: [] });
+      saveReview(target, { ...draftFromReview(findMyReview(reviews, target)), thumbsUp: true, tags: [] });
+    } else {
+      selectReviewTarget(target, { thumbsUp: false });
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setDraft(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag],
+    }));
+  };
+
+  const renderTurnRating = (target: ReviewTarget) => {
+    const rating = getTurnRating(target);
+    const selected = reviewTarget.messageId === target.messageId && reviewTarget.functionCallId === target.functionCallId;
+    return (
+      <div className={`flex items-center gap-1 ${selected ? 'opacity-100' : 'opacity-60 hover:opacity-100'}`}>
+        <button
+          type="button"
+          title="Good"
+          onClick={() => rateTurn(target, true)}
+          className={`p-1 rounded ${rating === true ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}`}
+        >
+          <ThumbsUp className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          title="Needs work"
+          onClick={() => rateTurn(target, false)}
+          className={`p-1 rounded ${rating === false ? 'text-red-600' : 'text-gray-400 hover:text-red-600'}`}
+        >
+          <ThumbsDown className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    );
   };
 
   if (loading) {
@@ -409,6 +587,14 @@ export default function CallsPage() {
             <BarChart3 className="h-4 w-4 mr-1" />
             Statistics
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => router.push('/admin/booking/calls/reviews')}
+          >
+            <ClipboardCheck className="h-4 w-4 mr-1" />
+            Reviews
+          </Button>
         </div>
       </div>
 
@@ -767,11 +953,13 @@ export default function CallsPage() {
                         >
                           <div className="text-sm">{msg.content}</div>
                           <div
-                            className={`text-xs mt-1 ${
+                            className={`text-xs mt-1 flex items-center justify-between gap-2 ${
                               msg.role === 'user' ? 'text-blue-100' : 'text-gray-500'
                             }`}
                           >
                             {formatTime(msg.timestamp)}
+                            {msg.role === 'assistant' && msg.id && selectedConversation.conversationId &&
+                              renderTurnRating({ messageId: msg.id, label: `Reply at ${formatTime(msg.timestamp)}` })}
                           </div>
                         </div>
                       </div>
@@ -804,6 +992,8 @@ export default function CallsPage() {
                             </div>
                             <div className="text-xs text-gray-400">{formatTime(fc.timestamp)}</div>
                           </div>
+                          {fc.id && selectedConversation.conversationId &&
+                            renderTurnRating({ functionCallId: fc.id, label: `${fc.functionName} at ${formatTime(fc.timestamp)}` })}
                         </div>
                       );
                     })}
@@ -811,6 +1001,101 @@ export default function CallsPage() {
                 </div>
               )}
 
+              {/* Staff Review */}
+              {selectedConversation.conversationId && (
+                <div className="space-y-3 p-4 border rounded-lg bg-white">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-semibold text-gray-700">
+                      Review: {reviewTarget.label}
+                    </div>
+                    {reviewTarget !== WHOLE_CALL && (
+                      <Button variant="ghost" size="sm" onClick={() => selectReviewTarget(WHOLE_CALL)}>
+                        Review whole call
+                      </Button>
+                    )}
+                  </div>
+
+                  {reviewTarget === WHOLE_CALL ? (
+                    <div className="flex items-center gap-1">
+                      {[1, 2, 3, 4, 5].map(star => (
+                        <button
+                          key={star}
+                          type="button"
+                          onClick={() => setDraft(prev => ({ ...prev, rating: prev.rating === star ? null : star }))}
+                          aria-label={`${star} star${star > 1 ? 's' : ''}`}
+                        >
+                          <Star
+                            className={`h-5 w-5 ${
+                              draft.rating && star <= draft.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                            }`}
+                          />
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Button
+                        variant={draft.thumbsUp === true ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setDraft(prev => ({ ...prev, thumbsUp: true }))}
+                      >
+                        <ThumbsUp className="h-4 w-4 mr-1" />
+                        Good
+                      </Button>
+                      <Button
+                        variant={draft.thumbsUp === false ? 'destructive' : 'outline'}
+                        size="sm"
+                        onClick={() => setDraft(prev => ({ ...prev, thumbsUp: false }))}
+                      >
+                        <ThumbsDown className="h-4 w-4 mr-1" />
+                        Needs work
+                      </Button>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(failureTags).map(([tag, label]) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleTag(tag)}
+                        className={`px-2 py-1 text-xs rounded-full border ${
+                          draft.tags.includes(tag)
+                            ? 'bg-red-50 border-red-300 text-red-700'
+                            : 'bg-white border-gray-300 text-gray-600'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {reviewTarget !== WHOLE_CALL && (
+                    <Textarea
+                      className="text-sm"
+                      placeholder="What should the agent have said or done?"
+                      value={draft.expected}
+                      onChange={(e) => setDraft(prev => ({ ...prev, expected: e.target.value }))}
+                    />
+                  )}
+                  <Textarea
+                    className="text-sm"
+                    placeholder="Notes (optional)"
+                    value={draft.notes}
+                    onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+                  />
+
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`text-xs ${reviewMessage?.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+                      {reviewMessage?.text}
+                    </span>
+                    <Button size="sm" onClick={() => saveReview()} disabled={savingReview}>
+                      {savingReview ? 'Saving...' : 'Save Review'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {/* Session Info */}
               <div className="text-xs text-gray-400 pt-2">
                 Session ID: {selectedConversation.sessionId}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { List, BarChart3, ClipboardCheck, Download } from 'lucide-react';
+
+type FeedbackLabel = 'good' | 'bad' | 'neutral';
+
+interface ReviewRow {
+  id: string;
+  session_id: string;
+  conversation_id: string | null;
+  message_id: string | null;
+  function_call_id: string | null;
+  rating: number | null;
+  label: FeedbackLabel;
+  feedback_text: string | null;
+  feedback_source: string | null;
+  failure_tags: string[];
+  expected_response: string | null;
+  submitted_by_email: string | null;
+  created_at: string;
+  conversations: {
+    session_id: string;
+    channel: string | null;
+    created_at: string;
+    patient_info: { firstName?: string; lastName?: string } | null;
+  } | null;
+}
+
+interface ReviewSummary {
+  total: number;
+  good: number;
+  bad: number;
+  neutral: number;
+  tags: Record<string, number>;
+}
+
+const ALL = 'all';
+
+const LABEL_COLORS: Record<FeedbackLabel, string> = {
+  good: 'bg-green-100 text-green-800',
+  bad: 'bg-red-100 text-red-800',
+  neutral: 'bg-gray-100 text-gray-800',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  staff: 'Staff',
+  ui: 'Agent UI',
+  voice: 'Caller',
+  both: 'Caller',
+};
+
+/**
+ * Call reviews: staff ratings and failure tags across calls, and the labeled dataset export
+ */
+export default function CallReviewsPage() {
+  const router = useRouter();
+  const [reviews, setReviews] = useState<ReviewRow[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary>({ total: 0, good: 0, bad: 0, neutral: 0, tags: {} });
+  const [failureTags, setFailureTags] = useState<Record<string, string>>({});
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [label, setLabel] = useState<string>(ALL);
+  const [tag, setTag] = useState<string>(ALL);
+  const [source, setSource] = useState<string>(ALL);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const filterQuery = useCallback(() => {
+    const params = new URLSearchParams();
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (label !== ALL) params.set('label', label);
+    if (tag !== ALL) params.set('tag', tag);
+    if (source !== ALL) params.set('source', source);
+    return params.toString();
+  }, [from, to, label, tag, source]);
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/feedback?${filterQuery()}`);
+      const data = await response.json();
+      if (data.success) {
+        setReviews(data.feedback || []);
+        setSummary(data.summary);
+        setFailureTags(data.failureTags || {});
+        setError(null);
+      } else {
+        setError(data.error || 'Failed to load reviews');
+      }
+    } catch (err) {
+      console.error('Error fetching reviews:', err);
+      setReviews([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [filterQuery]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const exportUrl = (format: 'jsonl' | 'json') => {
+    const query = filterQuery();
+    return `/api/admin/feedback/export?format=${format}${query ? `&${query}` : ''}`;
+  };
+
+  const describeTarget = (review: ReviewRow) =>
+    review.message_id ? 'Reply' : review.function_call_id ? 'Action' : 'Call';
+
+  const patientName = (review: ReviewRow) => {
+    const info = review.conversations?.patient_info;
+    return [info?.firstName, info?.lastName].filter(Boolean).join(' ') || 'Unknown';
+  };
+
+  const topTags = Object.entries(summary.tags).sort((a, b) => b[1] - a[1]).slice(0, 5);
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Call Reviews</h1>
+          <p className="text-sm md:text-base text-gray-600 mt-1 md:mt-2">
+            Ratings and failure reasons from staff and callers. Rate calls from the call list.
+          </p>
+        </div>
+
+        {/* View Switcher */}
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => router.push('/admin/booking/calls')}>
+            <List className="h-4 w-4 mr-1" />
+            Call List
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => router.push('/admin/booking/calls/statistics')}>
+            <BarChart3 className="h-4 w-4 mr-1" />
+            Statistics
+          </Button>
+          <Button variant="default" size="sm">
+            <ClipboardCheck className="h-4 w-4 mr-1" />
+            Reviews
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-3 md:items-end bg-white p-4 rounded-lg border">
+        <div>
+          <Label htmlFor="from">From</Label>
+          <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full md:w-40" />
+        </div>
+        <div>
+          <Label htmlFor="to">To</Label>
+          <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-full md:w-40" />
+        </div>
+        <div>
+          <Label>Label</Label>
+          <Select value={label} onValueChange={setLabel}>
+            <SelectTrigger className="w-full md:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All</SelectItem>
+              <SelectItem value="good">Good</SelectItem>
+              <SelectItem value="bad">Bad</SelectItem>
+              <SelectItem value="neutral">Neutral</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Failure reason</Label>
+          <Select value={tag} onValueChange={setTag}>
+            <SelectTrigger className="w-full md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any</SelectItem>
+              {Object.entries(failureTags).map(([key, text]) => (
+                <SelectItem key={key} value={key}>{text}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Source</Label>
+          <Select value={source} onValueChange={setSource}>
+            <SelectTrigger className="w-full md:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All</SelectItem>
+              <SelectItem value="staff">Staff</SelectItem>
+              <SelectItem value="ui">Agent UI</SelectItem>
+              <SelectItem value="voice">Caller</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2 md:ml-auto">
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportUrl('jsonl')}>
+              <Download className="h-4 w-4 mr-1" />
+              Export JSONL
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportUrl('json')}>
+              <Download className="h-4 w-4 mr-1" />
+              JSON
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg border bg-red-50 border-red-200 text-red-800 text-sm">{error}</div>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg border p-4">
+          <div className="text-2xl font-bold text-blue-600">{summary.total}</div>
+          <div className="text-sm text-gray-600">Ratings</div>
+        </div>
+        <div className="bg-white rounded-lg border p-4">
+          <div className="text-2xl font-bold text-green-600">{summary.good}</div>
+          <div className="text-sm text-gray-600">Good</div>
+        </div>
+        <div className="bg-white rounded-lg border p-4">
+          <div className="text-2xl font-bold text-red-600">{summary.bad}</div>
+          <div className="text-sm text-gray-600">Bad</div>
+        </div>
+        <div className="bg-white rounded-lg border p-4">
+          <div className="text-sm font-medium text-gray-700 mb-1">Top failure reasons</div>
+          {topTags.length === 0 ? (
+            <div className="text-sm text-gray-500">None</div>
+          ) : (
+            topTags.map(([key, count]) => (
+              <div key={key} className="flex justify-between text-xs text-gray-600">
+                <span className="truncate">{failureTags[key] || key}</span>
+                <span className="ml-2 font-medium">{count}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Reviews Table */}
+      <div className="border rounded-lg overflow-x-auto bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rated</TableHead>
+              <TableHead>Call</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Label</TableHead>
+              <TableHead>Failure reasons</TableHead>
+              <TableHead>Notes / expected</TableHead>
+              <TableHead>By</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500 py-8">Loading reviews...</TableCell>
+              </TableRow>
+            ) : reviews.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500 py-8">No reviews match these filters</TableCell>
+              </TableRow>
+            ) : (
+              reviews.map(review => (
+                <TableRow key={review.id} className="align-top">
+                  <TableCell className="whitespace-nowrap text-sm">{new Date(review.created_at).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>{patientName(review)}</div>
+                    <div className="text-xs text-gray-500">
+                      {review.conversations
+                        ? `${review.conversations.channel || 'voice'} • ${new Date(review.conversations.created_at).toLocaleString()}`
+                        : review.session_id}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{describeTarget(review)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={LABEL_COLORS[review.label]}>
+                      {review.label}{review.rating ? ` (${review.rating}★)` : ''}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {(review.failure_tags || []).map(failureTag => (
+                        <Badge key={failureTag} variant="outline" className="text-xs">
+                          {failureTags[failureTag] || failureTag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm max-w-xs">
+                    {review.feedback_text && <div>{review.feedback_text}</div>}
+                    {review.expected_response && (
+                      <div className="text-xs text-gray-500 mt-1">Expected: {review.expected_response}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-500">
+                    {review.submitted_by_email || SOURCE_LABELS[review.feedback_source || ''] || '—'}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
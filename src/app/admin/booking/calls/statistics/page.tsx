@@ -2,10 +2,9 @@
 
 import { useTranslations } from '@/lib/i18n/TranslationProvider';
 
-import { useEffect, useState, useMemo, useCallback } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
@@ -16,230 +15,116 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import {
-  Sheet,
-  SheetContent,
-  SheetDescription,
-  SheetHeader,
-  SheetTitle,
-} from '@/components/ui/sheet';
-import { 
-  Phone, 
-  Users, 
-  Calendar, 
-  Clock, 
-  MessageSquare,
+  Phone,
+  Clock,
   TrendingUp,
-  UserPlus,
   CalendarPlus,
-  CalendarClock,
   XCircle,
   CheckCircle2,
-  AlertCircle,
-  ChevronRight,
+  AlertTriangle,
+  DollarSign,
+  PhoneForwarded,
   BarChart3,
+  ClipboardCheck,
   List
 } from 'lucide-react';
 
-interface ConversationMessage {
-  role: string;
-  content: string;
-  timestamp: string;
+interface AnalyticsMetrics {
+  conversations: number;
+  completed: number;
+  abandoned: number;
+  inProgress: number;
+  transferred: number;
+  bookedConversations: number;
+  bookings: number;
+  conversionRate: number;
+  avgHandleTimeSeconds: number;
+  toolCalls: number;
+  toolErrors: number;
+  toolErrorRate: number;
+  costCents: number;
+  costedConversations: number;
+  costPerBookingCents: number | null;
 }
 
-interface FunctionCall {
-  timestamp: string;
-  functionName: string;
-  parameters: Record<string, any>;
-  result?: any;
-  error?: string;
+interface AnalyticsGroup extends AnalyticsMetrics {
+  key: string;
 }
 
-interface Conversation {
-  sessionId: string;
-  createdAt: string;
-  updatedAt: string;
-  intent: string;
-  stage: string;
-  patientName: string;
-  patientPhone: string;
-  patientId: number | null;
-  appointmentType: string;
-  appointmentDate: string;
-  messageCount: number;
-  messages: ConversationMessage[];
-  functionCallCount: number;
-  functionCalls: FunctionCall[];
-  outcome: 'completed' | 'in_progress' | 'abandoned';
+interface CallAnalyticsReport {
+  range: { from: string; to: string; timezone: string };
+  totals: AnalyticsMetrics;
+  previous?: AnalyticsMetrics;
+  byDay: AnalyticsGroup[];
+  byChannel: AnalyticsGroup[];
+  byPhoneNumber: AnalyticsGroup[];
+  byAgentMode: AnalyticsGroup[];
+  byIntent: AnalyticsGroup[];
+  topToolErrors: Array<{ functionName: string; errors: number; calls: number }>;
 }
 
-// Human-readable action formatter
-function formatAction(fc: FunctionCall): { icon: React.ReactNode; text: string; success: boolean } {
-  const params = fc.parameters || {};
-  const result = fc.result;
-  const hasError = !!fc.error;
-  
-  switch (fc.functionName) {
-    case 'CreatePatient': {
-      if (hasError) {
-        return { 
-          icon: <XCircle className="h-4 w-4 text-red-500" />, 
-          text: `Failed to create patient: ${fc.error}`,
-          success: false 
-        };
-      }
-      const name = `${params.FName || ''} ${params.LName || ''}`.trim() || 'Unknown';
-      const phone = params.WirelessPhone ? formatPhone(params.WirelessPhone) : '';
-      return { 
-        icon: <UserPlus className="h-4 w-4 text-green-500" />, 
-        text: `Patient Created: ${name}${phone ? ` (${phone})` : ''}`,
-        success: true 
-      };
-    }
-    
-    case 'CreateAppointment': {
-      if (hasError) {
-        return { 
-          icon: <XCircle className="h-4 w-4 text-red-500" />, 
-          text: `Failed to book appointment: ${fc.error}`,
-          success: false 
-        };
-      }
-      const dateTime = params.AptDateTime ? formatDateTime(params.AptDateTime) : 'Unknown time';
-      return { 
-        icon: <CalendarPlus className="h-4 w-4 text-green-500" />, 
-        text: `Appointment Booked: ${dateTime}`,
-        success: true 
-      };
-    }
-    
-    case 'UpdateAppointment': {
-      if (hasError) {
-        return { 
-          icon: <XCircle className="h-4 w-4 text-red-500" />, 
-          text: `Failed to reschedule: ${fc.error}`,
-          success: false 
-        };
-      }
-      const newDateTime = params.AptDateTime ? formatDateTime(params.AptDateTime) : '';
-      return { 
-        icon: <CalendarClock className="h-4 w-4 text-blue-500" />, 
-        text: `Appointment Rescheduled${newDateTime ? `: ${newDateTime}` : ''}`,
-        success: true 
-      };
-    }
-    
-    case 'GetMultiplePatients': {
-      if (hasError) {
-        return { 
-          icon: <XCircle className="h-4 w-4 text-red-500" />, 
-          text: `Patient lookup failed`,
-          success: false 
-        };
-      }
-      const found = Array.isArray(result) && result.length > 0;
-      if (found) {
-        const patient = result[0];
-        const name = `${patient.FName || ''} ${patient.LName || ''}`.trim();
-        return { 
-          icon: <CheckCircle2 className="h-4 w-4 text-green-500" />, 
-          text: `Patient Found: ${name} (#${patient.PatNum})`,
-          success: true 
-        };
-      }
-      return { 
-        icon: <AlertCircle className="h-4 w-4 text-yellow-500" />, 
-        text: `Patient Not Found`,
-        success: false 
-      };
-    }
-    
-    case 'GetAvailableSlots': {
-      const dateStart = params.dateStart || '';
-      const dateEnd = params.dateEnd || '';
-      const slotsFound = Array.isArray(result) ? result.length : 0;
-      return { 
-        icon: <Calendar className="h-4 w-4 text-blue-500" />, 
-        text: `Searched Slots: ${dateStart}${dateEnd !== dateStart ? ` - ${dateEnd}` : ''} (${slotsFound} found)`,
-        success: slotsFound > 0 
-      };
-    }
-    
-    case 'GetAppointments': {
-      const count = Array.isArray(result) ? result.length : 0;
-      return { 
-        icon: <Calendar className="h-4 w-4 text-blue-500" />, 
-        text: `Checked Appointments: ${count} found`,
-        success: true 
-      };
-    }
-    
-    default:
-      return { 
-        icon: hasError ? <XCircle className="h-4 w-4 text-red-500" /> : <CheckCircle2 className="h-4 w-4 text-gray-400" />, 
-        text: fc.functionName,
-        success: !hasError 
-      };
-  }
+const ALL = 'all';
+
+const CHANNEL_LABELS: Record<string, string> = {
+  retell: 'Retell',
+  twilio: 'Twilio',
+  voice: 'Voice',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+  web: 'Web',
+};
+
+const AGENT_MODE_LABELS: Record<string, string> = {
+  premium: 'Premium (realtime)',
+  standard: 'Standard',
+  retell: 'Retell',
+  text: 'SMS / WhatsApp',
+  web: 'Web',
+};
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
 }
 
-function formatPhone(phone: string): string {
-  if (!phone || phone.length !== 10) return phone;
-  return `(${phone.slice(0, 3)}) ${phone.slice(3, 6)}-${phone.slice(6)}`;
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 10}%`;
 }
 
-function formatDateTime(dateTimeStr: string): string {
-  try {
-    const date = new Date(dateTimeStr);
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric',
-      year: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit'
-    });
-  } catch {
-    return dateTimeStr;
-  }
+function formatCents(cents: number | null): string {
+  return cents === null ? '—' : `$${(cents / 100).toFixed(2)}`;
 }
 
-function formatDuration(createdAt: string, updatedAt: string): string {
-  try {
-    const start = new Date(createdAt);
-    const end = new Date(updatedAt);
-    const durationMs = end.getTime() - start.getTime();
-    const minutes = Math.floor(durationMs / 1000 / 60);
-    const seconds = Math.floor((durationMs / 1000) % 60);
-    if (minutes === 0) return `${seconds}s`;
-    return `${minutes}m ${seconds}s`;
-  } catch {
-    return '-';
-  }
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
 }
 
-function formatTime(timestamp: string): string {
-  try {
-    const date = new Date(timestamp);
-    return date.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
-    });
-  } catch {
-    return timestamp;
+/**
+ * Change against the previous period, e.g. "+12% vs previous"
+ */
+function describeChange(current: number, previous: number | null | undefined, unit: 'relative' | 'points' = 'relative'): string | undefined {
+  if (previous === null || previous === undefined) return undefined;
+  if (unit === 'points') {
+    const points = Math.round((current - previous) * 1000) / 10;
+    return `${points >= 0 ? '+' : ''}${points} pts vs previous`;
   }
+  if (previous === 0) return current === 0 ? 'No change vs previous' : 'New vs previous';
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change >= 0 ? '+' : ''}${change}% vs previous`;
 }
 
 // Stat Card Component
-function StatCard({ 
-  icon, 
-  value, 
-  label, 
+function StatCard({
+  icon,
+  value,
+  label,
   color = 'blue',
-  subValue 
-}: { 
-  icon: React.ReactNode; 
-  value: string | number; 
-  label: string; 
+  subValue
+}: {
+  icon: React.ReactNode;
+  value: string | number;
+  label: string;
   color?: 'blue' | 'green' | 'yellow' | 'red' | 'purple' | 'gray';
   subValue?: string;
 }) {
@@ -251,7 +136,7 @@ function StatCard({
     purple: 'bg-purple-50 text-purple-600 border-purple-200',
     gray: 'bg-gray-50 text-gray-600 border-gray-200',
   };
-  
+
   return (
     <div className={`rounded-xl border p-4 ${colorClasses[color]}`}>
       <div className="flex items-center gap-2 mb-2">
@@ -264,53 +149,109 @@ function StatCard({
   );
 }
 
+// Breakdown table for one grouping (channel, agent mode, phone number)
+function BreakdownTable({
+  title,
+  rows,
+  labels = {},
+}: {
+  title: string;
+  rows: AnalyticsGroup[];
+  labels?: Record<string, string>;
+}) {
+  return (
+    <div className="bg-white rounded-lg border p-4">
+      <h3 className="font-semibold text-gray-900 mb-3">{title}</h3>
+      {rows.length === 0 ? (
+        <div className="text-sm text-gray-500">No conversations</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-3 font-medium"></th>
+                <th className="py-2 pr-3 font-medium text-right">Conversations</th>
+                <th className="py-2 pr-3 font-medium text-right">Conversion</th>
+                <th className="py-2 pr-3 font-medium text-right">Booked</th>
+                <th className="py-2 pr-3 font-medium text-right">Avg handle</th>
+                <th className="py-2 pr-3 font-medium text-right">Tool errors</th>
+                <th className="py-2 font-medium text-right">Cost / booking</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b last:border-0">
+                  <td className="py-2 pr-3 font-medium">{labels[row.key] || row.key}</td>
+                  <td className="py-2 pr-3 text-right">{row.conversations}</td>
+                  <td className="py-2 pr-3 text-right">{formatPercent(row.conversionRate)}</td>
+                  <td className="py-2 pr-3 text-right">{row.bookings}</td>
+                  <td className="py-2 pr-3 text-right">{formatSeconds(row.avgHandleTimeSeconds)}</td>
+                  <td className={`py-2 pr-3 text-right ${row.toolErrorRate > 0.1 ? 'text-red-600' : ''}`}>
+                    {formatPercent(row.toolErrorRate)}
+                  </td>
+                  <td className="py-2 text-right">{formatCents(row.costPerBookingCents)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function CallStatisticsPage() {
   const tCommon = useTranslations('common');
   const router = useRouter();
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [report, setReport] = useState<CallAnalyticsReport | null>(null);
   const [loading, setLoading] = useState(true);
-  const [selectedCall, setSelectedCall] = useState<Conversation | null>(null);
-  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
-  
+  const [error, setError] = useState<string | null>(null);
+
   // Date range state
-  const [datePreset, setDatePreset] = useState('today');
+  const [datePreset, setDatePreset] = useState('week');
   const [dateStart, setDateStart] = useState(() => {
-    return new Date().toISOString().split('T')[0];
+    const weekAgo = new Date();
+    weekAgo.setDate(weekAgo.getDate() - 6);
+    return isoDate(weekAgo);
   });
-  const [dateEnd, setDateEnd] = useState(() => {
-    return new Date().toISOString().split('T')[0];
-  });
-  
-  // Tab state for call groups
-  const [activeTab, setActiveTab] = useState<'successful' | 'failed' | 'incomplete'>('successful');
+  const [dateEnd, setDateEnd] = useState(() => isoDate(new Date()));
+
+  // Filters
+  const [channel, setChannel] = useState(ALL);
+  const [agentMode, setAgentMode] = useState(ALL);
+  const [phoneNumber, setPhoneNumber] = useState(ALL);
+  const [knownNumbers, setKnownNumbers] = useState<string[]>([]);
 
   // Handle preset changes
   const handlePresetChange = (preset: string) => {
     setDatePreset(preset);
     const today = new Date();
-    
+    const daysAgo = (days: number) => {
+      const date = new Date(today);
+      date.setDate(date.getDate() - days);
+      return isoDate(date);
+    };
+
     switch (preset) {
       case 'today':
-        setDateStart(today.toISOString().split('T')[0]);
-        setDateEnd(today.toISOString().split('T')[0]);
+        setDateStart(isoDate(today));
+        setDateEnd(isoDate(today));
         break;
       case 'yesterday':
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
-        setDateStart(yesterday.toISOString().split('T')[0]);
-        setDateEnd(yesterday.toISOString().split('T')[0]);
+        setDateStart(daysAgo(1));
+        setDateEnd(daysAgo(1));
         break;
       case 'week':
-        const weekAgo = new Date(today);
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        setDateStart(weekAgo.toISOString().split('T')[0]);
-        setDateEnd(today.toISOString().split('T')[0]);
+        setDateStart(daysAgo(6));
+        setDateEnd(isoDate(today));
         break;
       case 'month':
-        const monthAgo = new Date(today);
-        monthAgo.setDate(monthAgo.getDate() - 30);
-        setDateStart(monthAgo.toISOString().split('T')[0]);
-        setDateEnd(today.toISOString().split('T')[0]);
+        setDateStart(daysAgo(29));
+        setDateEnd(isoDate(today));
+        break;
+      case 'quarter':
+        setDateStart(daysAgo(89));
+        setDateEnd(isoDate(today));
         break;
       case 'custom':
         // Keep current dates
@@ -318,184 +259,39 @@ export default function CallStatisticsPage() {
     }
   };
 
-  const fetchConversations = useCallback(async () => {
+  const fetchAnalytics = useCallback(async () => {
     setLoading(true);
     try {
-      // Fetch all conversations in date range
-      const allConversations: Conversation[] = [];
-      const start = new Date(dateStart);
-      const end = new Date(dateEnd);
-      
-      // Iterate through each day in range
-      for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-        const dateStr = d.toISOString().split('T')[0];
-        const response = await fetch(`/api/conversations?date=${dateStr}`);
-        const data = await response.json();
-        if (Array.isArray(data)) {
-          allConversations.push(...data);
-        }
+      const params = new URLSearchParams({ from: dateStart, to: dateEnd, compare: '1' });
+      if (channel !== ALL) params.set('channel', channel);
+      if (agentMode !== ALL) params.set('agentMode', agentMode);
+      if (phoneNumber !== ALL) params.set('phoneNumber', phoneNumber);
+
+      const response = await fetch(`/api/admin/analytics/calls?${params}`);
+      const data = await response.json();
+      if (data.success) {
+        setReport(data);
+        setError(null);
+        // Remember numbers seen so the filter keeps its options once one is picked
+        setKnownNumbers(prev => [...new Set([...prev, ...data.byPhoneNumber.map((row: AnalyticsGroup) => row.key)])].sort());
+      } else {
+        setError(data.error || 'Failed to load call analytics');
       }
-      
-      // Sort by date descending
-      allConversations.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-      setConversations(allConversations);
-    } catch (error) {
-      console.error('Error fetching conversations:', error);
-      setConversations([]);
+    } catch (err) {
+      console.error('Error fetching call analytics:', err);
+      setError('Failed to load call analytics');
     } finally {
       setLoading(false);
     }
-  }, [dateStart, dateEnd]);
+  }, [dateStart, dateEnd, channel, agentMode, phoneNumber]);
 
   useEffect(() => {
-    fetchConversations();
-  }, [fetchConversations]);
-
-  // Calculate statistics
-  const stats = useMemo(() => {
-    const total = conversations.length;
-    const completed = conversations.filter(c => c.outcome === 'completed').length;
-    const abandoned = conversations.filter(c => c.outcome === 'abandoned').length;
-    const inProgress = conversations.filter(c => c.outcome === 'in_progress').length;
-    
-    // Count successful function calls
-    let newPatients = 0;
-    let appointmentsBooked = 0;
-    let appointmentsRescheduled = 0;
-    let returningPatients = 0;
-    let totalDuration = 0;
-    let totalMessages = 0;
-    
-    const intentCounts: Record<string, number> = {
-      book: 0,
-      reschedule: 0,
-      cancel: 0,
-      check: 0,
-      unknown: 0,
-    };
-    
-    // Daily counts for chart
-    const dailyCounts: Record<string, number> = {};
-    
-    conversations.forEach(conv => {
-      // Intent counts
-      intentCounts[conv.intent] = (intentCounts[conv.intent] || 0) + 1;
-      
-      // Daily counts
-      const dateKey = conv.createdAt.split('T')[0];
-      dailyCounts[dateKey] = (dailyCounts[dateKey] || 0) + 1;
-      
-      // Duration
-      const start = new Date(conv.createdAt);
-      const end = new Date(conv.updatedAt);
-      totalDuration += end.getTime() - start.getTime();
-      
-      // Messages
-      totalMessages += conv.messageCount;
-      
-      // Function call analysis
-      conv.functionCalls.forEach(fc => {
-        if (fc.error) return;
-        
-        switch (fc.functionName) {
-          case 'CreatePatient':
-            if (fc.result?.PatNum) newPatients++;
-            break;
-          case 'CreateAppointment':
-            if (fc.result?.AptNum) appointmentsBooked++;
-            break;
-          case 'UpdateAppointment':
-            appointmentsRescheduled++;
-            break;
-          case 'GetMultiplePatients':
-            if (Array.isArray(fc.result) && fc.result.length > 0) {
-              returningPatients++;
-            }
-            break;
-        }
-      });
-    });
-    
-    const avgDuration = total > 0 ? totalDuration / total : 0;
-    const avgMessages = total > 0 ? totalMessages / total : 0;
-    const successRate = total > 0 ? Math.round((completed / total) * 100) : 0;
-    
-    // Format average duration
-    const avgMinutes = Math.floor(avgDuration / 1000 / 60);
-    const avgSeconds = Math.floor((avgDuration / 1000) % 60);
-    const avgDurationStr = avgMinutes > 0 ? `${avgMinutes}m ${avgSeconds}s` : `${avgSeconds}s`;
-    
-    return {
-      total,
-      completed,
-      abandoned,
-      inProgress,
-      newPatients,
-      appointmentsBooked,
-      appointmentsRescheduled,
-      returningPatients,
-      avgDuration: avgDurationStr,
-      avgMessages: avgMessages.toFixed(1),
-      successRate,
-      intentCounts,
-      dailyCounts,
-    };
-  }, [conversations]);
-
-  // Group conversations by status
-  const groupedCalls = useMemo(() => {
-    const successful: Conversation[] = [];
-    const failed: Conversation[] = [];
-    const incomplete: Conversation[] = [];
-    
-    conversations.forEach(conv => {
-      // Check for successful key actions
-      const hasSuccessfulAction = conv.functionCalls.some(fc => 
-        !fc.error && ['CreatePatient', 'CreateAppointment', 'UpdateAppointment'].includes(fc.functionName)
-      );
-      
-      if (conv.outcome === 'completed' || hasSuccessfulAction) {
-        successful.push(conv);
-      } else if (conv.outcome === 'abandoned' || conv.functionCalls.some(fc => fc.error)) {
-        failed.push(conv);
-      } else {
-        incomplete.push(conv);
-      }
-    });
-    
-    return { successful, failed, incomplete };
-  }, [conversations]);
-
-  const currentCalls = activeTab === 'successful' ? groupedCalls.successful :
-                       activeTab === 'failed' ? groupedCalls.failed :
-                       groupedCalls.incomplete;
-
-  const viewCallDetails = (conv: Conversation) => {
-    setSelectedCall(conv);
-    setIsDrawerOpen(true);
-  };
-
-  // Get key actions for a call (for display in list)
-  const getKeyActions = (conv: Conversation) => {
-    return conv.functionCalls
-      .filter(fc => ['CreatePatient', 'CreateAppointment', 'UpdateAppointment', 'GetMultiplePatients'].includes(fc.functionName))
-      .map(fc => formatAction(fc))
-      .slice(0, 2); // Show max 2 actions
-  };
+    fetchAnalytics();
+  }, [fetchAnalytics]);
 
-  if (loading) {
-    return (
-      <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">{tCommon('call_statistics')}</h1>
-          <p className="text-gray-600 mt-2">{tCommon('analyzing_call_data')}</p>
-        </div>
-        <div className="flex items-center justify-center py-12">
-          <div className="animate-pulse text-gray-400">{tCommon('loading_statistics')}</div>
-        </div>
-      </div>
-    );
-  }
+  const totals = report?.totals;
+  const previous = report?.previous;
+  const maxDaily = Math.max(1, ...(report?.byDay || []).map(day => day.conversations));
 
   return (
     <div className="space-y-6">
@@ -505,7 +301,7 @@ export default function CallStatisticsPage() {
           <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{tCommon('call_statistics')}</h1>
           <p className="text-sm text-gray-600 mt-1">{tCommon('performance_metrics_and_call_a')}</p>
         </div>
-        
+
         {/* View Switcher */}
         <div className="flex items-center gap-2">
           <Button
@@ -520,15 +316,23 @@ export default function CallStatisticsPage() {
             <BarChart3 className="h-4 w-4 mr-1" />
             Statistics
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => router.push('/admin/booking/calls/reviews')}
+          >
+            <ClipboardCheck className="h-4 w-4 mr-1" />
+            Reviews
+          </Button>
         </div>
       </div>
 
-      {/* Date Range Picker */}
-      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end bg-white p-4 rounded-lg border">
-        <div className="flex items-center gap-2">
-          <Label className="text-sm text-gray-600">{tCommon('period')}</Label>
+      {/* Date Range and Filters */}
+      <div className="flex flex-col lg:flex-row flex-wrap gap-4 items-start lg:items-end bg-white p-4 rounded-lg border">
+        <div>
+          <Label className="text-xs text-gray-500">{tCommon('period')}</Label>
           <Select value={datePreset} onValueChange={handlePresetChange}>
-            <SelectTrigger className="w-36">
+            <SelectTrigger className="w-40">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
@@ -536,11 +340,12 @@ export default function CallStatisticsPage() {
               <SelectItem value="yesterday">{tCommon('yesterday')}</SelectItem>
               <SelectItem value="week">{tCommon('last_7_days')}</SelectItem>
               <SelectItem value="month">{tCommon('last_30_days')}</SelectItem>
+              <SelectItem value="quarter">Last 90 days</SelectItem>
               <SelectItem value="custom">{tCommon('custom_range')}</SelectItem>
             </SelectContent>
           </Select>
         </div>
-        
+
         {datePreset === 'custom' && (
           <>
             <div>
@@ -565,307 +370,210 @@ export default function CallStatisticsPage() {
             </div>
           </>
         )}
-        
-        <Button onClick={fetchConversations} variant="outline" size="sm">
-          Refresh
-        </Button>
-      </div>
 
-      {/* Stats Grid */}
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
-        <StatCard
-          icon={<Phone className="h-5 w-5" />}
-          value={stats.total}
-          label={tCommon('total_calls')}
-          color="blue"
-        />
-        <StatCard
-          icon={<TrendingUp className="h-5 w-5" />}
-          value={`${stats.successRate}%`}
-          label={tCommon('success_rate')}
-          color={stats.successRate >= 80 ? 'green' : stats.successRate >= 50 ? 'yellow' : 'red'}
-          subValue={`${stats.completed} completed`}
-        />
-        <StatCard
-          icon={<UserPlus className="h-5 w-5" />}
-          value={stats.newPatients}
-          label={tCommon('new_patients')}
-          color="green"
-        />
-        <StatCard
-          icon={<CalendarPlus className="h-5 w-5" />}
-          value={stats.appointmentsBooked}
-          label={tCommon('appointments_booked')}
-          color="green"
-        />
-        <StatCard
-          icon={<CalendarClock className="h-5 w-5" />}
-          value={stats.appointmentsRescheduled}
-          label={tCommon('rescheduled')}
-          color="blue"
-        />
-      </div>
+        <div>
+          <Label className="text-xs text-gray-500">{tCommon('channel')}</Label>
+          <Select value={channel} onValueChange={setChannel}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All channels</SelectItem>
+              {Object.entries(CHANNEL_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
-      {/* Secondary Stats */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <StatCard
-          icon={<Users className="h-5 w-5" />}
-          value={stats.returningPatients}
-          label={tCommon('returning_patients')}
-          color="purple"
-        />
-        <StatCard
-          icon={<Clock className="h-5 w-5" />}
-          value={stats.avgDuration}
-          label={tCommon('avg_duration')}
-          color="gray"
-        />
-        <StatCard
-          icon={<MessageSquare className="h-5 w-5" />}
-          value={stats.avgMessages}
-          label={tCommon('avg_messages')}
-          color="gray"
-        />
-        <StatCard
-          icon={<XCircle className="h-5 w-5" />}
-          value={stats.abandoned}
-          label={tCommon('abandoned')}
-          color="red"
-        />
-      </div>
+        <div>
+          <Label className="text-xs text-gray-500">Agent mode</Label>
+          <Select value={agentMode} onValueChange={setAgentMode}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All modes</SelectItem>
+              {Object.entries(AGENT_MODE_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
-      {/* Intent Breakdown */}
-      <div className="bg-white rounded-lg border p-4">
-        <h3 className="font-semibold text-gray-900 mb-4">{tCommon('calls_by_intent')}</h3>
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-          {Object.entries(stats.intentCounts).map(([intent, count]) => (
-            <div key={intent} className="flex items-center gap-3">
-              <div className={`w-3 h-3 rounded-full ${
-                intent === 'book' ? 'bg-blue-500' :
-                intent === 'reschedule' ? 'bg-yellow-500' :
-                intent === 'cancel' ? 'bg-red-500' :
-                intent === 'check' ? 'bg-purple-500' :
-                'bg-gray-400'
-              }`} />
-              <div>
-                <div className="text-sm font-medium capitalize">{intent}</div>
-                <div className="text-lg font-bold text-gray-900">{count}</div>
-              </div>
-            </div>
-          ))}
+        <div>
+          <Label className="text-xs text-gray-500">{tCommon('phone')}</Label>
+          <Select value={phoneNumber} onValueChange={setPhoneNumber}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All numbers</SelectItem>
+              {knownNumbers.map(number => (
+                <SelectItem key={number} value={number}>{number}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
+
+        <Button onClick={fetchAnalytics} variant="outline" size="sm" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </Button>
       </div>
 
-      {/* Grouped Calls */}
-      <div className="bg-white rounded-lg border overflow-hidden">
-        {/* Tabs */}
-        <div className="flex border-b">
-          <button
-            onClick={() => setActiveTab('successful')}
-            className={`flex-1 px-4 py-3 text-sm font-medium flex items-center justify-center gap-2 ${
-              activeTab === 'successful' 
-                ? 'bg-green-50 text-green-700 border-b-2 border-green-500' 
-                : 'text-gray-600 hover:bg-gray-50'
-            }`}
-          >
-            <CheckCircle2 className="h-4 w-4" />
-            Successful ({groupedCalls.successful.length})
-          </button>
-          <button
-            onClick={() => setActiveTab('failed')}
-            className={`flex-1 px-4 py-3 text-sm font-medium flex items-center justify-center gap-2 ${
-              activeTab === 'failed' 
-                ? 'bg-red-50 text-red-700 border-b-2 border-red-500' 
-                : 'text-gray-600 hover:bg-gray-50'
-            }`}
-          >
-            <XCircle className="h-4 w-4" />
-            Failed ({groupedCalls.failed.length})
-          </button>
-          <button
-            onClick={() => setActiveTab('incomplete')}
-            className={`flex-1 px-4 py-3 text-sm font-medium flex items-center justify-center gap-2 ${
-              activeTab === 'incomplete' 
-                ? 'bg-yellow-50 text-yellow-700 border-b-2 border-yellow-500' 
-                : 'text-gray-600 hover:bg-gray-50'
-            }`}
-          >
-            <AlertCircle className="h-4 w-4" />
-            Incomplete ({groupedCalls.incomplete.length})
-          </button>
-        </div>
+      {error && (
+        <div className="p-4 rounded-lg border bg-red-50 border-red-200 text-red-800 text-sm">{error}</div>
+      )}
 
-        {/* Call List */}
-        <div className="divide-y max-h-[500px] overflow-y-auto">
-          {currentCalls.length === 0 ? (
-            <div className="text-center py-12 text-gray-500">
-              No calls in this category
+      {!totals ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-pulse text-gray-400">{tCommon('loading_statistics')}</div>
+        </div>
+      ) : (
+        <>
+          {/* Stats Grid */}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <StatCard
+              icon={<Phone className="h-5 w-5" />}
+              value={totals.conversations}
+              label="Conversations"
+              color="blue"
+              subValue={describeChange(totals.conversations, previous?.conversations)}
+            />
+            <StatCard
+              icon={<TrendingUp className="h-5 w-5" />}
+              value={formatPercent(totals.conversionRate)}
+              label="Booking conversion"
+              color={totals.conversionRate >= 0.3 ? 'green' : totals.conversionRate >= 0.15 ? 'yellow' : 'red'}
+              subValue={describeChange(totals.conversionRate, previous?.conversionRate, 'points')}
+            />
+            <StatCard
+              icon={<CalendarPlus className="h-5 w-5" />}
+              value={totals.bookings}
+              label={tCommon('appointments_booked')}
+              color="green"
+              subValue={describeChange(totals.bookings, previous?.bookings)}
+            />
+            <StatCard
+              icon={<Clock className="h-5 w-5" />}
+              value={formatSeconds(totals.avgHandleTimeSeconds)}
+              label="Avg handle time"
+              color="gray"
+              subValue={describeChange(totals.avgHandleTimeSeconds, previous?.avgHandleTimeSeconds)}
+            />
+            <StatCard
+              icon={<AlertTriangle className="h-5 w-5" />}
+              value={formatPercent(totals.toolErrorRate)}
+              label="Tool error rate"
+              color={totals.toolErrorRate > 0.1 ? 'red' : totals.toolErrorRate > 0.03 ? 'yellow' : 'green'}
+              subValue={`${totals.toolErrors} of ${totals.toolCalls} calls`}
+            />
+            <StatCard
+              icon={<DollarSign className="h-5 w-5" />}
+              value={formatCents(totals.costPerBookingCents)}
+              label="Cost per booking"
+              color="purple"
+              subValue={totals.costedConversations > 0
+                ? `${formatCents(totals.costCents)} across ${totals.costedConversations} priced calls`
+                : 'No provider cost reported'}
+            />
+          </div>
+
+          {/* Secondary Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard
+              icon={<CheckCircle2 className="h-5 w-5" />}
+              value={totals.completed}
+              label={tCommon('completed')}
+              color="green"
+            />
+            <StatCard
+              icon={<XCircle className="h-5 w-5" />}
+              value={totals.abandoned}
+              label={tCommon('abandoned')}
+              color="red"
+            />
+            <StatCard
+              icon={<Clock className="h-5 w-5" />}
+              value={totals.inProgress}
+              label={tCommon('in_progress')}
+              color="blue"
+            />
+            <StatCard
+              icon={<PhoneForwarded className="h-5 w-5" />}
+              value={totals.transferred}
+              label="Transferred to staff"
+              color="gray"
+            />
+          </div>
+
+          {/* Daily Trend */}
+          <div className="bg-white rounded-lg border p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-gray-900">Daily trend</h3>
+              <div className="flex items-center gap-4 text-xs text-gray-500">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-200" /> Conversations</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-500" /> Booked</span>
+                <span>Times in {report.range.timezone}</span>
+              </div>
             </div>
-          ) : (
-            currentCalls.map(conv => {
-              const actions = getKeyActions(conv);
-              const dateStr = new Date(conv.createdAt).toLocaleDateString('en-US', {
-                month: 'short',
-                day: 'numeric'
-              });
-              
-              return (
+            <div className="flex items-end gap-1 h-40">
+              {report.byDay.map(day => (
                 <div
-                  key={conv.sessionId}
-                  className="p-4 hover:bg-gray-50 cursor-pointer transition-colors"
-                  onClick={() => viewCallDetails(conv)}
+                  key={day.key}
+                  className="flex-1 h-full flex flex-col justify-end"
+                  title={`${day.key}: ${day.conversations} conversations, ${day.bookedConversations} booked (${formatPercent(day.conversionRate)}), ${formatPercent(day.toolErrorRate)} tool errors`}
                 >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-xs text-gray-500">{dateStr}</span>
-                        <span className="text-sm font-medium">{formatTime(conv.createdAt)}</span>
-                        <Badge variant="outline" className="text-xs">
-                          {conv.intent}
-                        </Badge>
-                      </div>
-                      <div className="font-medium text-gray-900">
-                        {conv.patientName || 'Unknown Patient'}
-                      </div>
-                      {conv.patientPhone && (
-                        <div className="text-sm text-gray-500">{formatPhone(conv.patientPhone)}</div>
-                      )}
-                      {/* Key Actions */}
-                      {actions.length > 0 && (
-                        <div className="mt-2 space-y-1">
-                          {actions.map((action, idx) => (
-                            <div key={idx} className="flex items-center gap-2 text-sm">
-                              {action.icon}
-                              <span className={action.success ? 'text-gray-700' : 'text-red-600'}>
-                                {action.text}
-                              </span>
-                            </div>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-2 text-gray-400">
-                      <span className="text-sm">{formatDuration(conv.createdAt, conv.updatedAt)}</span>
-                      <ChevronRight className="h-4 w-4" />
-                    </div>
+                  <div
+                    className="w-full bg-blue-200 rounded-t flex flex-col justify-end overflow-hidden"
+                    style={{ height: `${(day.conversations / maxDaily) * 100}%` }}
+                  >
+                    <div
+                      className="w-full bg-green-500"
+                      style={{ height: `${day.conversations > 0 ? (day.bookedConversations / day.conversations) * 100 : 0}%` }}
+                    />
                   </div>
                 </div>
-              );
-            })
-          )}
-        </div>
-      </div>
-
-      {/* Call Detail Drawer */}
-      <Sheet open={isDrawerOpen} onOpenChange={setIsDrawerOpen}>
-        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
-          <SheetHeader>
-            <SheetTitle>{tCommon('call_details')}</SheetTitle>
-            <SheetDescription>
-              {selectedCall && (
-                <span>
-                  {new Date(selectedCall.createdAt).toLocaleDateString('en-US', {
-                    weekday: 'long',
-                    month: 'long',
-                    day: 'numeric',
-                    year: 'numeric'
-                  })} at {formatTime(selectedCall.createdAt)}
-                </span>
-              )}
-            </SheetDescription>
-          </SheetHeader>
-          
-          {selectedCall && (
-            <div className="mt-6 space-y-6">
-              {/* Call Info */}
-              <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
-                <div>
-                  <div className="text-xs text-gray-500">Patient</div>
-                  <div className="font-medium">{selectedCall.patientName || 'Unknown'}</div>
-                </div>
-                <div>
-                  <div className="text-xs text-gray-500">{tCommon('phone')}</div>
-                  <div className="font-medium">{formatPhone(selectedCall.patientPhone) || '-'}</div>
-                </div>
-                <div>
-                  <div className="text-xs text-gray-500">{tCommon('intent')}</div>
-                  <Badge variant="outline" className="mt-1">{selectedCall.intent}</Badge>
-                </div>
-                <div>
-                  <div className="text-xs text-gray-500">{tCommon('duration')}</div>
-                  <div className="font-medium">{formatDuration(selectedCall.createdAt, selectedCall.updatedAt)}</div>
-                </div>
-              </div>
-
-              {/* Actions Taken */}
-              <div>
-                <h4 className="font-semibold text-gray-900 mb-3">{tCommon('actions')}</h4>
-                <div className="space-y-2">
-                  {selectedCall.functionCalls.length === 0 ? (
-                    <div className="text-gray-500 text-sm">{tCommon('no_actions_recorded')}</div>
-                  ) : (
-                    selectedCall.functionCalls.map((fc, idx) => {
-                      const action = formatAction(fc);
-                      return (
-                        <div 
-                          key={idx} 
-                          className={`flex items-start gap-2 p-2 rounded ${
-                            action.success ? 'bg-green-50' : 'bg-red-50'
-                          }`}
-                        >
-                          {action.icon}
-                          <div className="flex-1">
-                            <div className={`text-sm ${action.success ? 'text-gray-700' : 'text-red-700'}`}>
-                              {action.text}
-                            </div>
-                            <div className="text-xs text-gray-400">{formatTime(fc.timestamp)}</div>
-                          </div>
-                        </div>
-                      );
-                    })
-                  )}
-                </div>
-              </div>
-
-              {/* Transcript */}
-              <div>
-                <h4 className="font-semibold text-gray-900 mb-3">{tCommon('conversation')}</h4>
-                <div className="space-y-3 max-h-80 overflow-y-auto p-3 bg-gray-50 rounded-lg">
-                  {selectedCall.messages.length === 0 ? (
-                    <div className="text-gray-400 text-sm text-center py-4">
-                      <p>{tCommon('no_transcript_available')}</p>
-                      <p className="text-xs mt-1">{tCommon('transcripts_are_recorded_for_c')}</p>
-                    </div>
-                  ) : (
-                    selectedCall.messages.map((msg, idx) => (
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-400 mt-2">
+              <span>{report.byDay[0]?.key}</span>
+              <span>{report.byDay[report.byDay.length - 1]?.key}</span>
+            </div>
+          </div>
+
+          {/* Breakdowns */}
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <BreakdownTable title="By channel" rows={report.byChannel} labels={CHANNEL_LABELS} />
+            <BreakdownTable title="By agent mode" rows={report.byAgentMode} labels={AGENT_MODE_LABELS} />
+            <BreakdownTable title="By phone number" rows={report.byPhoneNumber} />
+            <BreakdownTable title={tCommon('calls_by_intent')} rows={report.byIntent} />
+          </div>
+
+          {/* Tool Errors */}
+          <div className="bg-white rounded-lg border p-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Failing tools</h3>
+            {report.topToolErrors.length === 0 ? (
+              <div className="text-sm text-gray-500">No tool errors in this period</div>
+            ) : (
+              <div className="space-y-2">
+                {report.topToolErrors.map(tool => (
+                  <div key={tool.functionName} className="flex items-center gap-3 text-sm">
+                    <span className="w-48 truncate font-mono text-gray-700">{tool.functionName}</span>
+                    <div className="flex-1 h-2 bg-gray-100 rounded">
                       <div
-                        key={idx}
-                        className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                      >
-                        <div
-                          className={`max-w-[85%] rounded-lg px-3 py-2 ${
-                            msg.role === 'user'
-                              ? 'bg-blue-500 text-white'
-                              : 'bg-white border text-gray-900'
-                          }`}
-                        >
-                          <div className="text-sm">{msg.content}</div>
-                          <div className={`text-xs mt-1 ${
-                            msg.role === 'user' ? 'text-blue-100' : 'text-gray-400'
-                          }`}>
-                            {formatTime(msg.timestamp)}
-                          </div>
-                        </div>
-                      </div>
-                    ))
-                  )}
-                </div>
+                        className="h-2 bg-red-400 rounded"
+                        style={{ width: `${(tool.errors / tool.calls) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-28 text-right text-gray-600">{tool.errors} / {tool.calls} failed</span>
+                  </div>
+                ))}
               </div>
-            </div>
-          )}
-        </SheetContent>
-      </Sheet>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 }
-
@@ -30,6 +30,7 @@ export default function AdminLayout({
   const navItems = [
     { href: `/admin/booking`, key: 'dashboard' },
     { href: `/admin/booking/appointments`, key: 'appointments' },
+    { href: `/admin/booking/waitlist`, key: 'waitlist', label: 'Waitlist' },
     { href: `/admin/booking/providers`, key: 'providers' },
     { href: `/admin/booking/schedules`, key: 'schedules' },
     { href: `/admin/booking/operatories`, key: 'operatories' },
@@ -1,8 +1,16 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useState, useCallback, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -11,61 +19,110 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { MessageSquare, Phone, Clock, User, RefreshCw } from 'lucide-react';
+import {
+  MessageSquare,
+  Phone,
+  Clock,
+  User,
+  RefreshCw,
+  Mic,
+  Image as ImageIcon,
+  AlertTriangle,
+  Hand,
+  Bot,
+  Send,
+} from 'lucide-react';
+
+type Channel = 'sms' | 'whatsapp';
+type ThreadStatus = 'open' | 'pending' | 'resolved';
+type StatusFilter = ThreadStatus | 'escalated' | 'all';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'open', label: 'Open' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'escalated', label: 'Needs staff' },
+];
+
+interface Attachment {
+  id: string;
+  media_type: 'audio' | 'image';
+  mime_type: string | null;
+  caption: string | null;
+  transcript: string | null;
+  url?: string | null;
+}
 
 interface Message {
+  id: string;
   role: string;
   content: string;
   timestamp: string;
+  type?: string;
+  sent_by?: string | null;
+  attachments?: Attachment[];
 }
 
-interface SMSConversation {
+interface Thread {
   id: string;
-  session_id: string;
-  from_number: string;
-  to_number: string;
-  start_timestamp: number;
+  session_id: string | null;
+  contact: string;
+  contact_name: string | null;
+  business_number: string;
+  created_at: string;
   updated_at: string;
-  call_status: string;
-  messageCount: number;
-  lastMessage: string;
-  lastMessageTime: string;
+  thread_status: ThreadStatus;
+  ai_paused: boolean;
+  assigned_to_email: string | null;
+  escalated_at: string | null;
+  escalation_reason: string | null;
   messages: Message[];
 }
 
-export default function MessagesPage() {
-  const router = useRouter();
-  const [conversations, setConversations] = useState<SMSConversation[]>([]);
+function MessagesContent() {
+  const searchParams = useSearchParams();
+  const linkedConversationId = useRef(searchParams.get('conversation'));
+  const [conversations, setConversations] = useState<Thread[]>([]);
+  const [counts, setCounts] = useState({ open: 0, escalated: 0 });
   const [loading, setLoading] = useState(true);
-  const [selectedConversation, setSelectedConversation] = useState<SMSConversation | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [channel, setChannel] = useState<Channel>(searchParams.get('channel') === 'whatsapp' ? 'whatsapp' : 'sms');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [reply, setReply] = useState('');
+  const [acting, setActing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Kept in sync with the auto-refresh
+  const selectedConversation = conversations.find(c => c.id === selectedId) || null;
 
   const fetchConversations = useCallback(async () => {
-    setLoading(true);
     try {
-      // Fetch all SMS conversations (no date filter)
-      const response = await fetch('/api/conversations?channel=sms');
+      const response = await fetch(`/api/admin/inbox?channel=${channel}&status=${statusFilter}`);
       const data = await response.json();
-      
-      // Sort by most recent first
-      const sorted = (Array.isArray(data) ? data : []).sort((a: any, b: any) => {
-        const aTime = new Date(a.updated_at || a.createdAt).getTime();
-        const bTime = new Date(b.updated_at || b.createdAt).getTime();
-        return bTime - aTime;
-      });
-      
-      setConversations(sorted);
+      const threads: Thread[] = data.threads || [];
+      setConversations(threads);
+      setCounts(data.counts || { open: 0, escalated: 0 });
+
+      // Opened from a handoff email link
+      if (linkedConversationId.current && threads.some(t => t.id === linkedConversationId.current)) {
+        setSelectedId(linkedConversationId.current);
+        setIsDialogOpen(true);
+        linkedConversationId.current = null;
+      }
     } catch (error) {
-      console.error('Error fetching SMS conversations:', error);
+      console.error(`Error fetching ${channel} conversations:`, error);
       setConversations([]);
     } finally {
       setLoading(false);
       setRefreshing(false);
     }
-  }, []);
+  }, [channel, statusFilter]);
 
   useEffect(() => {
+    setLoading(true);
     fetchConversations();
     
     // Auto-refresh every 10 seconds
@@ -78,11 +135,45 @@ export default function MessagesPage() {
     await fetchConversations();
   };
 
-  const openConversationDialog = (conversation: SMSConversation) => {
-    setSelectedConversation(conversation);
+  const openConversationDialog = (conversation: Thread) => {
+    setSelectedId(conversation.id);
+    setReply('');
+    setActionError(null);
     setIsDialogOpen(true);
   };
 
+  const threadAction = async (body: Record<string, string>): Promise<boolean> => {
+    if (!selectedConversation) return false;
+    setActing(true);
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/admin/inbox/${selectedConversation.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setActionError(data.error || 'Something went wrong');
+        return false;
+      }
+      await fetchConversations();
+      return true;
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Something went wrong');
+      return false;
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const handleSendReply = async () => {
+    if (!reply.trim()) return;
+    if (await threadAction({ action: 'reply', text: reply })) {
+      setReply('');
+    }
+  };
+
   const formatTime = (timestamp: string | number): string => {
     try {
       const date = new Date(typeof timestamp === 'number' ? timestamp : timestamp);
@@ -138,21 +229,37 @@ export default function MessagesPage() {
         <div>
           <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
             <MessageSquare className="h-8 w-8 text-blue-600" />
-            SMS Messages
+            {channel === 'sms' ? 'SMS Messages' : 'WhatsApp Messages'}
           </h1>
           <p className="text-gray-600 mt-1">
-            All text message conversations
+            {channel === 'sms'
+              ? 'Text message conversations - claim a thread to reply yourself'
+              : 'WhatsApp conversations, including voice note transcripts and photos - claim a thread to reply yourself'}
           </p>
         </div>
-        <Button
-          onClick={handleRefresh}
-          disabled={refreshing}
-          variant="outline"
-          className="flex items-center gap-2"
-        >
-          <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant={channel === 'sms' ? 'default' : 'outline'}
+            onClick={() => setChannel('sms')}
+          >
+            SMS
+          </Button>
+          <Button
+            variant={channel === 'whatsapp' ? 'default' : 'outline'}
+            onClick={() => setChannel('whatsapp')}
+          >
+            WhatsApp
+          </Button>
+          <Button
+            onClick={handleRefresh}
+            disabled={refreshing}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Stats */}
@@ -170,14 +277,8 @@ export default function MessagesPage() {
         <div className="bg-white p-6 rounded-lg border border-gray-200">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Active Today</p>
-              <p className="text-3xl font-bold text-gray-900">
-                {conversations.filter(c => {
-                  const today = new Date().setHours(0, 0, 0, 0);
-                  const convDate = new Date(c.updated_at).setHours(0, 0, 0, 0);
-                  return convDate === today;
-                }).length}
-              </p>
+              <p className="text-sm text-gray-600">Open</p>
+              <p className="text-3xl font-bold text-gray-900">{counts.open}</p>
             </div>
             <Clock className="h-10 w-10 text-green-500 opacity-20" />
           </div>
@@ -186,20 +287,30 @@ export default function MessagesPage() {
         <div className="bg-white p-6 rounded-lg border border-gray-200">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Total Messages</p>
-              <p className="text-3xl font-bold text-gray-900">
-                {conversations.reduce((sum, c) => sum + (c.messageCount || 0), 0)}
-              </p>
+              <p className="text-sm text-gray-600">Needs Staff</p>
+              <p className="text-3xl font-bold text-gray-900">{counts.escalated}</p>
             </div>
-            <MessageSquare className="h-10 w-10 text-purple-500 opacity-20" />
+            <AlertTriangle className="h-10 w-10 text-orange-500 opacity-20" />
           </div>
         </div>
       </div>
 
       {/* Conversations List */}
       <div className="bg-white rounded-lg border border-gray-200">
-        <div className="p-4 border-b border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
           <h2 className="text-lg font-semibold text-gray-900">Recent Conversations</h2>
+          <div className="flex items-center gap-1">
+            {STATUS_FILTERS.map(filter => (
+              <Button
+                key={filter.value}
+                size="sm"
+                variant={statusFilter === filter.value ? 'default' : 'ghost'}
+                onClick={() => setStatusFilter(filter.value)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
         </div>
         
         {loading ? (
@@ -210,9 +321,15 @@ export default function MessagesPage() {
         ) : conversations.length === 0 ? (
           <div className="p-12 text-center">
             <MessageSquare className="h-16 w-16 text-gray-300 mx-auto mb-4" />
-            <p className="text-gray-600 text-lg mb-2">No SMS conversations yet</p>
+            <p className="text-gray-600 text-lg mb-2">
+              {statusFilter === 'all'
+                ? `No ${channel === 'sms' ? 'SMS' : 'WhatsApp'} conversations yet`
+                : 'No conversations match this filter'}
+            </p>
             <p className="text-gray-500 text-sm">
-              Text messages will appear here when customers text your number
+              {channel === 'sms'
+                ? 'Text messages will appear here when customers text your number'
+                : 'Messages will appear here when customers write to your WhatsApp number'}
             </p>
           </div>
         ) : (
@@ -232,17 +349,24 @@ export default function MessagesPage() {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
                         <p className="font-semibold text-gray-900">
-                          {formatPhoneNumber(conversation.from_number)}
+                          {conversation.contact_name || formatPhoneNumber(conversation.contact)}
                         </p>
                         <Badge variant="outline" className="text-xs">
-                          {conversation.messageCount} messages
+                          {conversation.messages.length} messages
                         </Badge>
+                        {conversation.escalated_at && (
+                          <Badge className="text-xs bg-orange-100 text-orange-800 hover:bg-orange-100">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Needs staff
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-sm text-gray-600 truncate">
-                        {conversation.lastMessage || 'No messages yet'}
+                        {conversation.messages[conversation.messages.length - 1]?.content || 'No messages yet'}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
-                        To: {formatPhoneNumber(conversation.to_number)}
+                        To: {formatPhoneNumber(conversation.business_number)}
+                        {conversation.assigned_to_email && ` · Claimed by ${conversation.assigned_to_email}`}
                       </p>
                     </div>
                   </div>
@@ -252,12 +376,20 @@ export default function MessagesPage() {
                     <p className="text-xs text-gray-500">
                       {getRelativeTime(conversation.updated_at)}
                     </p>
-                    <Badge 
-                      variant={conversation.call_status === 'ongoing' ? 'default' : 'secondary'}
-                      className="text-xs"
-                    >
-                      {conversation.call_status || 'active'}
-                    </Badge>
+                    <div className="flex items-center gap-1">
+                      {conversation.ai_paused && (
+                        <Badge variant="outline" className="text-xs">
+                          <Hand className="h-3 w-3 mr-1" />
+                          AI paused
+                        </Badge>
+                      )}
+                      <Badge
+                        variant={conversation.thread_status === 'open' ? 'default' : 'secondary'}
+                        className="text-xs capitalize"
+                      >
+                        {conversation.thread_status}
+                      </Badge>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -272,7 +404,7 @@ export default function MessagesPage() {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <MessageSquare className="h-5 w-5 text-blue-600" />
-              SMS Conversation
+              {channel === 'sms' ? 'SMS Conversation' : 'WhatsApp Conversation'}
             </DialogTitle>
             <DialogDescription>
               {selectedConversation && (
@@ -280,17 +412,20 @@ export default function MessagesPage() {
                   <div className="flex items-center gap-2 text-sm">
                     <Phone className="h-4 w-4" />
                     <span className="font-medium">From:</span>
-                    <span>{formatPhoneNumber(selectedConversation.from_number)}</span>
+                    <span>
+                      {formatPhoneNumber(selectedConversation.contact)}
+                      {selectedConversation.contact_name && ` (${selectedConversation.contact_name})`}
+                    </span>
                   </div>
                   <div className="flex items-center gap-2 text-sm">
                     <Phone className="h-4 w-4" />
                     <span className="font-medium">To:</span>
-                    <span>{formatPhoneNumber(selectedConversation.to_number)}</span>
+                    <span>{formatPhoneNumber(selectedConversation.business_number)}</span>
                   </div>
                   <div className="flex items-center gap-2 text-sm">
                     <Clock className="h-4 w-4" />
                     <span className="font-medium">Started:</span>
-                    <span>{formatTime(selectedConversation.start_timestamp)}</span>
+                    <span>{formatTime(selectedConversation.created_at)}</span>
                   </div>
                 </div>
               )}
@@ -299,12 +434,71 @@ export default function MessagesPage() {
 
           {selectedConversation && (
             <div className="space-y-4 mt-4">
+              {/* Takeover */}
+              {selectedConversation.escalated_at && (
+                <div className="flex items-start gap-2 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-900">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">The assistant handed this conversation to staff</p>
+                    {selectedConversation.escalation_reason && <p>{selectedConversation.escalation_reason}</p>}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 p-3">
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  {selectedConversation.ai_paused ? (
+                    <>
+                      <Hand className="h-4 w-4 text-orange-600" />
+                      {selectedConversation.assigned_to_email
+                        ? `Claimed by ${selectedConversation.assigned_to_email} - the assistant is paused`
+                        : 'The assistant is paused until someone claims this thread'}
+                    </>
+                  ) : (
+                    <>
+                      <Bot className="h-4 w-4 text-blue-600" />
+                      The assistant is answering this thread
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {selectedConversation.assigned_to_email ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={acting}
+                      onClick={() => threadAction({ action: 'release' })}
+                    >
+                      Hand back to assistant
+                    </Button>
+                  ) : (
+                    <Button size="sm" disabled={acting} onClick={() => threadAction({ action: 'claim' })}>
+                      Claim
+                    </Button>
+                  )}
+                  <Select
+                    value={selectedConversation.thread_status}
+                    onValueChange={(status) => threadAction({ action: 'status', status })}
+                    disabled={acting}
+                  >
+                    <SelectTrigger className="w-32 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="open">Open</SelectItem>
+                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="resolved">Resolved</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
               {/* Messages */}
               <div className="space-y-3">
                 {selectedConversation.messages && selectedConversation.messages.length > 0 ? (
-                  selectedConversation.messages.map((msg, idx) => (
+                  selectedConversation.messages.map((msg) => (
                     <div
-                      key={idx}
+                      key={msg.id}
                       className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
                     >
                       <div
@@ -314,6 +508,41 @@ export default function MessagesPage() {
                             : 'bg-gray-100 text-gray-900'
                         }`}
                       >
+                        {msg.attachments?.map((attachment) => (
+                          <div key={attachment.id} className="mb-2">
+                            {attachment.media_type === 'audio' ? (
+                              <>
+                                <p className="text-xs font-medium flex items-center gap-1 mb-1">
+                                  <Mic className="h-3 w-3" />
+                                  Voice note (transcript below)
+                                </p>
+                                {attachment.url && (
+                                  <audio controls src={attachment.url} className="max-w-full" />
+                                )}
+                              </>
+                            ) : attachment.url ? (
+                              <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                                {/* eslint-disable-next-line @next/next/no-img-element -- signed storage URL */}
+                                <img
+                                  src={attachment.url}
+                                  alt={attachment.caption || 'Photo from patient'}
+                                  className="max-h-64 rounded border border-gray-200"
+                                />
+                              </a>
+                            ) : (
+                              <p className="text-xs flex items-center gap-1">
+                                <ImageIcon className="h-3 w-3" />
+                                Photo (unavailable)
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                        {msg.type === 'audio' && !msg.attachments?.length && (
+                          <p className="text-xs font-medium flex items-center gap-1 mb-1">
+                            <Mic className="h-3 w-3" />
+                            Voice note
+                          </p>
+                        )}
                         <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
                         <p
                           className={`text-xs mt-1 ${
@@ -321,6 +550,7 @@ export default function MessagesPage() {
                           }`}
                         >
                           {formatTime(msg.timestamp)}
+                          {msg.sent_by && ` · ${msg.sent_by}`}
                         </p>
                       </div>
                     </div>
@@ -333,10 +563,32 @@ export default function MessagesPage() {
                 )}
               </div>
 
+              {/* Manual reply */}
+              <div className="space-y-2">
+                <Textarea
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder={`Reply by ${channel === 'sms' ? 'SMS' : 'WhatsApp'} - sending claims the thread`}
+                  rows={3}
+                  disabled={acting}
+                />
+                {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+                <div className="flex justify-end">
+                  <Button
+                    onClick={handleSendReply}
+                    disabled={acting || !reply.trim()}
+                    className="flex items-center gap-2"
+                  >
+                    <Send className="h-4 w-4" />
+                    Send
+                  </Button>
+                </div>
+              </div>
+
               {/* Session Info */}
               <div className="mt-6 pt-4 border-t border-gray-200">
                 <p className="text-xs text-gray-500 font-mono">
-                  Session ID: {selectedConversation.session_id}
+                  Session ID: {selectedConversation.session_id || selectedConversation.id}
                 </p>
               </div>
             </div>
@@ -346,3 +598,13 @@ export default function MessagesPage() {
     </div>
   );
 }
+
+export default function MessagesPage() {
+  return (
+    <Suspense fallback={<div className="flex items-center justify-center h-64">
+      <div className="text-gray-500">Loading...</div>
+    </div>}>
+      <MessagesContent />
+    </Suspense>
+  );
+}
@@ -28,8 +28,14 @@ interface Operatory {
   OperatoryNum: number;
   OpName: string;
   IsHygiene: number;
+  Tags?: string[];
 }
 
+// Capability tags matched against treatments_catalog.required_operatory_tags
+const CAPABILITY_SUGGESTIONS = ['Surgical', 'Sedation', 'X-Ray', 'Pediatric', 'Ortho'];
+
+const capabilityTags = (op: Operatory) => (op.Tags || []).filter((tag) => tag !== 'Hygiene');
+
 export default function OperatoriesPage() {
   const t = useTranslations('operatories');
   const tCommon = useTranslations('common');
@@ -66,6 +72,7 @@ export default function OperatoriesPage() {
       id: operatory.OperatoryNum,
       name: operatory.OpName,
       isHygiene: operatory.IsHygiene === 1,
+      capabilities: capabilityTags(operatory).join(', '),
     });
     setIsDialogOpen(true);
   };
@@ -97,9 +104,14 @@ export default function OperatoriesPage() {
 
   const handleSave = async (formData: FormData) => {
     try {
+      const capabilities = String(formData.get('capabilities') || '')
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter((tag) => tag && tag !== 'Hygiene');
       const params: any = {
         name: formData.get('name'),
         isHygiene: formData.get('isHygiene') === 'on',
+        tags: formData.get('isHygiene') === 'on' ? ['Hygiene', ...capabilities] : capabilities,
       };
       
       // Add ID if editing
@@ -160,13 +172,14 @@ export default function OperatoriesPage() {
             <TableRow>
               <TableHead>{tCommon('name')}</TableHead>
               <TableHead>{tCommon('type')}</TableHead>
+              <TableHead>Capabilities</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {operatories.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={3} className="text-center text-gray-500 py-8">
+                <TableCell colSpan={4} className="text-center text-gray-500 py-8">
                   No operatories found. Create one to get started.
                 </TableCell>
               </TableRow>
@@ -177,6 +190,17 @@ export default function OperatoriesPage() {
                   <TableCell>
                     <Badge>{op.IsHygiene === 1 ? 'Hygiene' : 'General'}</Badge>
                   </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {capabilityTags(op).length === 0 ? (
+                        <span className="text-sm text-gray-400">—</span>
+                      ) : (
+                        capabilityTags(op).map((tag) => (
+                          <Badge key={tag} variant="outline">{tag}</Badge>
+                        ))
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell>
                     <div className="flex gap-2">
                       <Button
@@ -216,8 +240,11 @@ export default function OperatoriesPage() {
                   <div className="text-lg font-semibold text-gray-900">
                     {op.OpName}
                   </div>
-                  <div className="mt-1">
+                  <div className="mt-1 flex flex-wrap gap-1">
                     <Badge>{op.IsHygiene === 1 ? 'Hygiene' : 'General'}</Badge>
+                    {capabilityTags(op).map((tag) => (
+                      <Badge key={tag} variant="outline">{tag}</Badge>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -271,6 +298,18 @@ export default function OperatoriesPage() {
                 <Checkbox id="isHygiene" name="isHygiene" defaultChecked={editingOperatory?.isHygiene} />
                 <Label htmlFor="isHygiene" className="cursor-pointer">{tCommon('hygiene_operatory')}</Label>
               </div>
+              <div>
+                <Label htmlFor="capabilities">Capabilities</Label>
+                <Input
+                  id="capabilities"
+                  name="capabilities"
+                  defaultValue={editingOperatory?.capabilities || ''}
+                  placeholder={CAPABILITY_SUGGESTIONS.join(', ')}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Comma-separated. Treatments that require a capability are only booked into rooms that have it.
+                </p>
+              </div>
             </div>
             <DialogFooter>
               <Button
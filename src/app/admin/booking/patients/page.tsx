@@ -33,6 +33,58 @@ interface Patient {
   DateTStamp?: string;
 }
 
+interface DuplicatePatient {
+  id: number;
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+  email: string | null;
+  date_of_birth: string | null;
+  created_at?: string;
+}
+
+interface DuplicateCandidate {
+  id: string;
+  patient_id: number;
+  duplicate_patient_id: number;
+  score: number;
+  reasons: string[];
+  source: 'agent' | 'scan';
+  patient: DuplicatePatient | null;
+  duplicate: DuplicatePatient | null;
+}
+
+interface PatientMerge {
+  id: string;
+  surviving_patient_id: number;
+  merged_patient_id: number;
+  merged_patient: { first_name?: string; last_name?: string };
+  merged_by_email: string | null;
+  undone_at: string | null;
+  created_at: string;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  same_phone: 'Same phone',
+  same_email: 'Same email',
+  same_birthdate: 'Same birthdate',
+  birthdate_day_month_swapped: 'Birthdate day/month swapped',
+  different_birthdate: 'Different birthdate',
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  nickname: 'Nickname',
+  swapped_names: 'First/last swapped',
+};
+
+interface PatientAttachment {
+  id: string;
+  media_type: 'audio' | 'image';
+  caption: string | null;
+  transcript: string | null;
+  created_at: string;
+  url?: string | null;
+}
+
 export default function PatientsPage() {
   const t = useTranslations('patients');
   const tCommon = useTranslations('common');
@@ -41,10 +93,17 @@ export default function PatientsPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPatient, setEditingPatient] = useState<Patient | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [attachments, setAttachments] = useState<PatientAttachment[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([]);
+  const [merges, setMerges] = useState<PatientMerge[]>([]);
+  const [survivors, setSurvivors] = useState<Record<string, number>>({});
+  const [scanning, setScanning] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
 
   useEffect(() => {
     // Load all patients by default on mount
     fetchAllPatients();
+    fetchDuplicates();
   }, []);
 
   useEffect(() => {
@@ -57,6 +116,17 @@ export default function PatientsPage() {
     }
   }, [searchQuery]);
 
+  useEffect(() => {
+    // Voice notes and photos the patient sent over WhatsApp
+    setAttachments([]);
+    if (!editingPatient?.PatNum) return;
+
+    fetch(`/api/admin/message-attachments?patientId=${editingPatient.PatNum}`)
+      .then(res => res.json())
+      .then(data => setAttachments(data.attachments || []))
+      .catch(error => console.error('Error fetching attachments:', error));
+  }, [editingPatient]);
+
   const fetchAllPatients = async () => {
     try {
       setLoading(true);
@@ -93,6 +163,89 @@ export default function PatientsPage() {
     }
   };
 
+  const fetchDuplicates = async () => {
+    try {
+      const res = await fetch('/api/admin/patient-duplicates');
+      const data = await res.json();
+      if (data.success) {
+        setDuplicates(data.candidates || []);
+        setMerges(data.merges || []);
+      }
+    } catch (error) {
+      console.error('Error fetching duplicates:', error);
+    }
+  };
+
+  const reloadPatients = () => {
+    if (searchQuery) {
+      fetchPatients();
+    } else {
+      fetchAllPatients();
+    }
+  };
+
+  const handleScan = async () => {
+    try {
+      setScanning(true);
+      const res = await fetch('/api/admin/patient-duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'scan' }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      await fetchDuplicates();
+    } catch (error: any) {
+      console.error('Error scanning for duplicates:', error);
+      alert(error.message || 'Error scanning for duplicates');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleResolve = async (candidate: DuplicateCandidate, action: 'merge' | 'dismiss') => {
+    // Keep the older record unless staff picked the other one
+    const survivingPatientId = survivors[candidate.id] ?? candidate.patient_id;
+    if (action === 'merge' && !confirm(`Merge these records into #${survivingPatientId}? Appointments, treatment plans and conversations move to it. You can undo this below.`)) return;
+
+    try {
+      setResolvingId(candidate.id);
+      const res = await fetch(`/api/admin/patient-duplicates/${candidate.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, survivingPatientId }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      await fetchDuplicates();
+      if (action === 'merge') reloadPatients();
+    } catch (error: any) {
+      console.error('Error resolving duplicate:', error);
+      alert(error.message || 'Error resolving duplicate');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleUndoMerge = async (merge: PatientMerge) => {
+    if (!confirm(`Restore patient #${merge.merged_patient_id} and move their records back?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/patient-merges/${merge.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'undo' }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      await fetchDuplicates();
+      reloadPatients();
+    } catch (error: any) {
+      console.error('Error undoing merge:', error);
+      alert(error.message || 'Error undoing merge');
+    }
+  };
+
   const handleEdit = (patient: Patient) => {
     setEditingPatient(patient);
     setIsDialogOpen(true);
@@ -123,17 +276,16 @@ export default function PatientsPage() {
         WirelessPhone: formData.get('phone'),
         Birthdate: formData.get('birthdate'),
         Email: formData.get('email'),
+        // Staff create records deliberately; possible duplicates still reach the review queue
+        AllowDuplicate: !editingPatient,
       };
 
       await bookingRequest(editingPatient ? 'UpdatePatient' : 'CreatePatient', params);
       setIsDialogOpen(false);
       setEditingPatient(null);
       // Reload patients after save
-      if (searchQuery) {
-        fetchPatients();
-      } else {
-        fetchAllPatients();
-      }
+      reloadPatients();
+      fetchDuplicates();
     } catch (error: any) {
       console.error('Error saving patient:', error);
       alert(error.message || 'Error saving patient');
@@ -187,8 +339,103 @@ export default function PatientsPage() {
           className="flex-1 sm:max-w-md"
         />
         <Button onClick={fetchPatients} className="w-full sm:w-auto">{t('search')}</Button>
+        <Button variant="outline" onClick={handleScan} disabled={scanning} className="w-full sm:w-auto">
+          {scanning ? 'Scanning...' : 'Find duplicates'}
+        </Button>
       </div>
 
+      {/* Duplicate review queue */}
+      {duplicates.length > 0 && (
+        <div className="border rounded-lg p-4 bg-amber-50 border-amber-200 space-y-3">
+          <div>
+            <h2 className="font-semibold text-gray-900">Possible duplicates ({duplicates.length})</h2>
+            <p className="text-sm text-gray-600">Choose the record to keep, then merge, or dismiss if they are different people.</p>
+          </div>
+          {duplicates.map((candidate) => {
+            const survivorId = survivors[candidate.id] ?? candidate.patient_id;
+            return (
+              <div key={candidate.id} className="bg-white border rounded-lg p-3 space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="font-medium text-gray-900">{Math.round(Number(candidate.score) * 100)}% match</span>
+                  {candidate.reasons.map((reason) => (
+                    <span key={reason} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                      {REASON_LABELS[reason] || reason}
+                    </span>
+                  ))}
+                  {candidate.source === 'agent' && (
+                    <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-700">Created by agent</span>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {[candidate.patient, candidate.duplicate].map((record) => record && (
+                    <label
+                      key={record.id}
+                      className={`flex gap-2 border rounded p-2 text-sm cursor-pointer ${survivorId === record.id ? 'border-blue-500 bg-blue-50' : ''}`}
+                    >
+                      <input
+                        type="radio"
+                        name={`survivor-${candidate.id}`}
+                        checked={survivorId === record.id}
+                        onChange={() => setSurvivors({ ...survivors, [candidate.id]: record.id })}
+                      />
+                      <div>
+                        <div className="font-medium">{record.first_name} {record.last_name} <span className="text-xs text-gray-500">#{record.id}</span></div>
+                        <div className="text-gray-600">{record.phone || '-'} · {record.date_of_birth || '-'}</div>
+                        <div className="text-gray-600">{record.email || '-'}</div>
+                        {record.created_at && (
+                          <div className="text-xs text-gray-500">Created {new Date(record.created_at).toLocaleDateString()}</div>
+                        )}
+                      </div>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={resolvingId === candidate.id}
+                    onClick={() => handleResolve(candidate, 'merge')}
+                  >
+                    Merge into #{survivorId}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolvingId === candidate.id}
+                    onClick={() => handleResolve(candidate, 'dismiss')}
+                  >
+                    Not a duplicate
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Merge history */}
+      {merges.length > 0 && (
+        <details className="border rounded-lg p-4">
+          <summary className="font-semibold text-gray-900 cursor-pointer">Recent merges</summary>
+          <div className="mt-3 space-y-2">
+            {merges.map((merge) => (
+              <div key={merge.id} className="flex flex-wrap items-center justify-between gap-2 text-sm border-b pb-2 last:border-b-0">
+                <span>
+                  #{merge.merged_patient_id} {merge.merged_patient?.first_name} {merge.merged_patient?.last_name} → #{merge.surviving_patient_id}
+                  <span className="text-xs text-gray-500 ml-2">
+                    {new Date(merge.created_at).toLocaleString()}{merge.merged_by_email ? ` · ${merge.merged_by_email}` : ''}
+                  </span>
+                </span>
+                {merge.undone_at ? (
+                  <span className="text-xs text-gray-500">Undone {new Date(merge.undone_at).toLocaleDateString()}</span>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => handleUndoMerge(merge)}>Undo</Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+
       {/* Desktop Table View */}
       <div className="hidden md:block border rounded-lg overflow-x-auto">
         <Table>
@@ -386,6 +633,39 @@ export default function PatientsPage() {
                   defaultValue={(editingPatient as any)?.Email || ''}
                 />
               </div>
+              {attachments.length > 0 && (
+                <div>
+                  <Label>Attachments</Label>
+                  <div className="mt-2 space-y-3">
+                    {attachments.map((attachment) => (
+                      <div key={attachment.id} className="rounded border border-gray-200 p-3 text-sm">
+                        <p className="text-xs text-gray-500 mb-2">
+                          {attachment.media_type === 'audio' ? 'Voice note' : 'Photo'} ·{' '}
+                          {new Date(attachment.created_at).toLocaleString()}
+                        </p>
+                        {attachment.media_type === 'audio' ? (
+                          <>
+                            {attachment.url && <audio controls src={attachment.url} className="w-full" />}
+                            {attachment.transcript && (
+                              <p className="mt-2 whitespace-pre-wrap">{attachment.transcript}</p>
+                            )}
+                          </>
+                        ) : attachment.url ? (
+                          <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                            {/* eslint-disable-next-line @next/next/no-img-element -- signed storage URL */}
+                            <img
+                              src={attachment.url}
+                              alt={attachment.caption || 'Photo from patient'}
+                              className="max-h-48 rounded"
+                            />
+                          </a>
+                        ) : null}
+                        {attachment.caption && <p className="mt-2 text-gray-600">{attachment.caption}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { useTranslations } from '@/lib/i18n/TranslationProvider';
 import { Button } from '@/components/ui/button';
 import {
@@ -41,6 +42,42 @@ interface Schedule {
   StartTime: string;
   EndTime: string;
   IsActive: boolean;
+  TemplateNum: number | null;
+}
+
+interface ScheduleException {
+  ExceptionNum: number;
+  Scope: 'organization' | 'provider' | 'operatory';
+  ProvNum: number | null;
+  ProviderName: string | null;
+  OpNum: number | null;
+  OperatoryName: string | null;
+  ExceptionType: string;
+  Title: string;
+  StartDate: string;
+  EndDate: string | null;
+  StartTime: string | null;
+  EndTime: string | null;
+  AllDay: boolean;
+  Recurrence: string;
+  RecurrenceInterval: number;
+  RecurrenceDays: number[];
+  RecurrenceUntil: string | null;
+  Notes: string | null;
+  IsActive: boolean;
+}
+
+interface BlockedTime {
+  ExceptionNum: number;
+  Date: string;
+  DateTimeStart: string;
+  DateTimeEnd: string;
+  AllDay: boolean;
+  Scope: 'organization' | 'provider' | 'operatory';
+  ProvNum: number | null;
+  OpNum: number | null;
+  ExceptionType: string;
+  Title: string;
 }
 
 interface Provider {
@@ -62,6 +99,24 @@ const TIME_OPTIONS = [
   '18:00:00', '18:30:00', '19:00:00', '19:30:00', '20:00:00',
 ];
 
+const EXCEPTION_TYPE_OPTIONS = [
+  { value: 'holiday', label: 'Holiday' },
+  { value: 'vacation', label: 'Vacation' },
+  { value: 'lunch', label: 'Lunch Break' },
+  { value: 'blocked', label: 'Blocked Time' },
+  { value: 'maintenance', label: 'Maintenance' },
+];
+
+const RECURRENCE_OPTIONS = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 function formatTime(time: string): string {
   if (!time) return '';
   const [hours, minutes] = time.split(':');
@@ -77,6 +132,60 @@ function formatDate(dateStr: string): string {
   return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+function describeRecurrence(exception: ScheduleException): string {
+  if (!exception.Recurrence || exception.Recurrence === 'none') {
+    return exception.EndDate && exception.EndDate !== exception.StartDate
+      ? `${formatDate(exception.StartDate)} – ${formatDate(exception.EndDate)}`
+      : formatDate(exception.StartDate);
+  }
+
+  const every = exception.RecurrenceInterval > 1 ? `Every ${exception.RecurrenceInterval} ` : 'Every ';
+  let text = '';
+  switch (exception.Recurrence) {
+    case 'daily':
+      text = exception.RecurrenceInterval > 1 ? `${every}days` : 'Daily';
+      break;
+    case 'weekly': {
+      const days = exception.RecurrenceDays.length > 0
+        ? exception.RecurrenceDays.map(d => WEEKDAY_LABELS[d]).join(', ')
+        : WEEKDAY_LABELS[new Date(exception.StartDate + 'T00:00:00').getDay()];
+      text = `${exception.RecurrenceInterval > 1 ? `${every}weeks` : 'Weekly'} on ${days}`;
+      break;
+    }
+    case 'monthly':
+      text = exception.RecurrenceInterval > 1 ? `${every}months` : 'Monthly';
+      break;
+    case 'yearly':
+      text = exception.RecurrenceInterval > 1 ? `${every}years` : 'Yearly';
+      break;
+  }
+  text += ` from ${formatDate(exception.StartDate)}`;
+  if (exception.RecurrenceUntil) {
+    text += ` until ${formatDate(exception.RecurrenceUntil)}`;
+  }
+  return text;
+}
+
+function describeScope(exception: ScheduleException): string {
+  if (exception.Scope === 'provider') return exception.ProviderName || `Provider ${exception.ProvNum}`;
+  if (exception.Scope === 'operatory') return exception.OperatoryName || `Room ${exception.OpNum}`;
+  return 'Whole clinic';
+}
+
+/**
+ * Blocked periods that overlap a schedule (clinic-wide, same provider or same room)
+ */
+function blocksForSchedule(schedule: Schedule, blockedTimes: BlockedTime[]): BlockedTime[] {
+  const scheduleStart = `${schedule.ScheduleDate} ${schedule.StartTime}`;
+  const scheduleEnd = `${schedule.ScheduleDate} ${schedule.EndTime}`;
+  return blockedTimes.filter(block => {
+    if (block.Date !== schedule.ScheduleDate) return false;
+    if (block.Scope === 'provider' && block.ProvNum !== schedule.ProvNum) return false;
+    if (block.Scope === 'operatory' && block.OpNum !== schedule.OpNum) return false;
+    return block.DateTimeStart < scheduleEnd && scheduleStart < block.DateTimeEnd;
+  });
+}
+
 function getTodayDate(): string {
   const today = new Date();
   return today.toISOString().split('T')[0];
@@ -89,6 +198,7 @@ function getEndOfWeekDate(): string {
 }
 
 export default function SchedulesPage() {
+  const router = useRouter();
   const t = useTranslations('schedules');
   const tCommon = useTranslations('common');
   const [schedules, setSchedules] = useState<Schedule[]>([]);
@@ -124,14 +234,41 @@ export default function SchedulesPage() {
   const [bulkIncludeWeekends, setBulkIncludeWeekends] = useState(false);
   const [bulkError, setBulkError] = useState<string>('');
 
+  // Schedule exceptions (holidays, vacations, lunch breaks, blocked time)
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
+  const [blockedTimes, setBlockedTimes] = useState<BlockedTime[]>([]);
+  const [isExceptionDialogOpen, setIsExceptionDialogOpen] = useState(false);
+  const [editingException, setEditingException] = useState<ScheduleException | null>(null);
+  const [excTitle, setExcTitle] = useState<string>('');
+  const [excType, setExcType] = useState<string>('holiday');
+  const [excScope, setExcScope] = useState<string>('organization');
+  const [excProvider, setExcProvider] = useState<string>('');
+  const [excOperatory, setExcOperatory] = useState<string>('');
+  const [excStartDate, setExcStartDate] = useState<string>(getTodayDate());
+  const [excEndDate, setExcEndDate] = useState<string>('');
+  const [excAllDay, setExcAllDay] = useState(true);
+  const [excStartTime, setExcStartTime] = useState<string>('12:00:00');
+  const [excEndTime, setExcEndTime] = useState<string>('13:00:00');
+  const [excRecurrence, setExcRecurrence] = useState<string>('none');
+  const [excInterval, setExcInterval] = useState<string>('1');
+  const [excDays, setExcDays] = useState<number[]>([]);
+  const [excUntil, setExcUntil] = useState<string>('');
+  const [excNotes, setExcNotes] = useState<string>('');
+  const [excError, setExcError] = useState<string>('');
+
   useEffect(() => {
     fetchBaseData();
   }, []);
 
   useEffect(() => {
     fetchSchedules();
+    fetchBlockedTimes();
   }, [filterDateStart, filterDateEnd, filterProvider, filterOperatory]);
 
+  useEffect(() => {
+    fetchExceptions();
+  }, []);
+
   const fetchBaseData = async () => {
     try {
       const [providersRes, operatoriesRes] = await Promise.all([
@@ -183,6 +320,183 @@ export default function SchedulesPage() {
     }
   };
 
+  const fetchExceptions = async () => {
+    try {
+      const response = await fetch('/api/booking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ functionName: 'GetScheduleExceptions', parameters: {} }),
+      });
+
+      const data = await response.json();
+      setExceptions(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Error fetching schedule exceptions:', error);
+    }
+  };
+
+  const fetchBlockedTimes = async () => {
+    if (!filterDateStart || !filterDateEnd) {
+      setBlockedTimes([]);
+      return;
+    }
+    try {
+      const params: Record<string, any> = { DateStart: filterDateStart, DateEnd: filterDateEnd };
+      if (filterProvider !== 'all') params.ProvNum = parseInt(filterProvider);
+      if (filterOperatory !== 'all') params.OpNum = parseInt(filterOperatory);
+
+      const response = await fetch('/api/booking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ functionName: 'GetBlockedTimes', parameters: params }),
+      });
+
+      const data = await response.json();
+      setBlockedTimes(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Error fetching blocked times:', error);
+    }
+  };
+
+  const resetExceptionForm = () => {
+    setEditingException(null);
+    setExcTitle('');
+    setExcType('holiday');
+    setExcScope('organization');
+    setExcProvider('');
+    setExcOperatory('');
+    setExcStartDate(getTodayDate());
+    setExcEndDate('');
+    setExcAllDay(true);
+    setExcStartTime('12:00:00');
+    setExcEndTime('13:00:00');
+    setExcRecurrence('none');
+    setExcInterval('1');
+    setExcDays([]);
+    setExcUntil('');
+    setExcNotes('');
+    setExcError('');
+  };
+
+  const handleEditException = (exception: ScheduleException) => {
+    setEditingException(exception);
+    setExcTitle(exception.Title);
+    setExcType(exception.ExceptionType);
+    setExcScope(exception.Scope);
+    setExcProvider(exception.ProvNum ? exception.ProvNum.toString() : '');
+    setExcOperatory(exception.OpNum ? exception.OpNum.toString() : '');
+    setExcStartDate(exception.StartDate);
+    setExcEndDate(exception.EndDate || '');
+    setExcAllDay(exception.AllDay);
+    setExcStartTime(exception.StartTime || '12:00:00');
+    setExcEndTime(exception.EndTime || '13:00:00');
+    setExcRecurrence(exception.Recurrence || 'none');
+    setExcInterval(String(exception.RecurrenceInterval || 1));
+    setExcDays(exception.RecurrenceDays || []);
+    setExcUntil(exception.RecurrenceUntil || '');
+    setExcNotes(exception.Notes || '');
+    setExcError('');
+    setIsExceptionDialogOpen(true);
+  };
+
+  const handleDeleteException = async (exceptionNum: number) => {
+    if (!confirm('Are you sure you want to delete this blocked time?')) return;
+
+    try {
+      const response = await fetch('/api/booking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          functionName: 'DeleteScheduleException',
+          parameters: { ExceptionNum: exceptionNum },
+        }),
+      });
+
+      if (response.ok) {
+        fetchExceptions();
+        fetchBlockedTimes();
+      } else {
+        const error = await response.json();
+        alert(error.message || 'Failed to delete blocked time');
+      }
+    } catch (error) {
+      console.error('Error deleting schedule exception:', error);
+      alert('Error deleting blocked time');
+    }
+  };
+
+  const toggleExcDay = (day: number) => {
+    setExcDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
+  const handleSaveException = async () => {
+    setExcError('');
+
+    if (!excTitle.trim()) {
+      setExcError('Please enter a title');
+      return;
+    }
+    if (excScope === 'provider' && !excProvider) {
+      setExcError('Please select a provider');
+      return;
+    }
+    if (excScope === 'operatory' && !excOperatory) {
+      setExcError('Please select an operatory (room)');
+      return;
+    }
+    if (!excStartDate) {
+      setExcError('Please select a start date');
+      return;
+    }
+
+    const params: Record<string, any> = {
+      Title: excTitle.trim(),
+      ExceptionType: excType,
+      Scope: excScope,
+      ProvNum: excScope === 'provider' ? parseInt(excProvider) : null,
+      OpNum: excScope === 'operatory' ? parseInt(excOperatory) : null,
+      StartDate: excStartDate,
+      EndDate: excEndDate || null,
+      AllDay: excAllDay,
+      StartTime: excAllDay ? null : excStartTime,
+      EndTime: excAllDay ? null : excEndTime,
+      Recurrence: excRecurrence,
+      RecurrenceInterval: parseInt(excInterval) || 1,
+      RecurrenceDays: excRecurrence === 'weekly' ? excDays : [],
+      RecurrenceUntil: excRecurrence !== 'none' && excUntil ? excUntil : null,
+      Notes: excNotes || null,
+    };
+
+    if (editingException) {
+      params.ExceptionNum = editingException.ExceptionNum;
+    }
+
+    try {
+      const response = await fetch('/api/booking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          functionName: editingException ? 'UpdateScheduleException' : 'CreateScheduleException',
+          parameters: params,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && !result.error) {
+        setIsExceptionDialogOpen(false);
+        resetExceptionForm();
+        fetchExceptions();
+        fetchBlockedTimes();
+      } else {
+        setExcError(result.message || 'Failed to save blocked time');
+      }
+    } catch (error) {
+      console.error('Error saving schedule exception:', error);
+      setExcError('Error saving blocked time');
+    }
+  };
+
   const handleEdit = (schedule: Schedule) => {
     setEditingSchedule(schedule);
     setFormProvider(schedule.ProvNum.toString());
@@ -388,6 +702,13 @@ export default function SchedulesPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push('/admin/booking/schedules/templates')}
+            className="w-full sm:w-auto"
+          >
+            Weekly Templates
+          </Button>
           <Button
             variant="outline"
             onClick={() => {
@@ -398,6 +719,16 @@ export default function SchedulesPage() {
           >
             + Bulk {tCommon('create')}
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              resetExceptionForm();
+              setIsExceptionDialogOpen(true);
+            }}
+            className="w-full sm:w-auto"
+          >
+            + Block Time
+          </Button>
           <Button
             onClick={() => {
               resetForm();
@@ -517,9 +848,23 @@ export default function SchedulesPage() {
                   <TableCell>{schedule.ProviderName}</TableCell>
                   <TableCell>
                     <Badge variant="outline">{schedule.OperatoryName}</Badge>
+                    {schedule.TemplateNum && (
+                      <Badge variant="secondary" className="ml-1">Template</Badge>
+                    )}
                   </TableCell>
                   <TableCell>
-                    {formatTime(schedule.StartTime)} - {formatTime(schedule.EndTime)}
+                    <div>{formatTime(schedule.StartTime)} - {formatTime(schedule.EndTime)}</div>
+                    {blocksForSchedule(schedule, blockedTimes).map((block) => (
+                      <Badge
+                        key={`${block.ExceptionNum}-${block.DateTimeStart}`}
+                        variant="destructive"
+                        className="mt-1 mr-1"
+                      >
+                        {block.AllDay
+                          ? `${block.Title} (all day)`
+                          : `${block.Title} ${formatTime(block.DateTimeStart.split(' ')[1])}-${formatTime(block.DateTimeEnd.split(' ')[1])}`}
+                      </Badge>
+                    ))}
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
@@ -581,6 +926,17 @@ export default function SchedulesPage() {
                   {formatTime(schedule.StartTime)} - {formatTime(schedule.EndTime)}
                 </Badge>
               </div>
+              {blocksForSchedule(schedule, blockedTimes).length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {blocksForSchedule(schedule, blockedTimes).map((block) => (
+                    <Badge key={`${block.ExceptionNum}-${block.DateTimeStart}`} variant="destructive">
+                      {block.AllDay
+                        ? `${block.Title} (all day)`
+                        : `${block.Title} ${formatTime(block.DateTimeStart.split(' ')[1])}-${formatTime(block.DateTimeEnd.split(' ')[1])}`}
+                    </Badge>
+                  ))}
+                </div>
+              )}
               <div className="flex gap-2 pt-2 border-t">
                 <Button variant="outline" size="sm" onClick={() => handleEdit(schedule)} className="flex-1">
                   Edit
@@ -599,6 +955,59 @@ export default function SchedulesPage() {
         )}
       </div>
 
+      {/* Blocked Time (schedule exceptions) */}
+      <div className="border rounded-lg p-4 space-y-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Holidays &amp; Blocked Time</h2>
+          <p className="text-sm text-gray-600">
+            These periods are never offered as available slots and can&apos;t be booked.
+          </p>
+        </div>
+        {exceptions.length === 0 ? (
+          <div className="text-center text-gray-500 py-4">
+            No holidays or blocked time configured.
+          </div>
+        ) : (
+          <div className="divide-y">
+            {exceptions.map((exception) => (
+              <div
+                key={exception.ExceptionNum}
+                className={`flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3 ${!exception.IsActive ? 'opacity-50' : ''}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{exception.Title}</span>
+                    <Badge variant="secondary">
+                      {EXCEPTION_TYPE_OPTIONS.find(o => o.value === exception.ExceptionType)?.label || exception.ExceptionType}
+                    </Badge>
+                    <Badge variant="outline">{describeScope(exception)}</Badge>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {describeRecurrence(exception)}
+                    {' · '}
+                    {exception.AllDay
+                      ? 'All day'
+                      : `${formatTime(exception.StartTime || '')} - ${formatTime(exception.EndTime || '')}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleEditException(exception)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDeleteException(exception.ExceptionNum)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Create/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
         <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
@@ -814,7 +1223,7 @@ export default function SchedulesPage() {
             </div>
             <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-800 text-sm">
               This will create one schedule per day for the selected provider and room.
-              Days with conflicts will be skipped.
+              Days with conflicts or all-day blocked time will be skipped.
             </div>
           </div>
           <DialogFooter>
@@ -825,6 +1234,241 @@ export default function SchedulesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Block Time Dialog */}
+      <Dialog
+        open={isExceptionDialogOpen}
+        onOpenChange={(open) => { setIsExceptionDialogOpen(open); if (!open) resetExceptionForm(); }}
+      >
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingException ? 'Edit Blocked Time' : 'Block Time'}</DialogTitle>
+            <DialogDescription>
+              Holidays, vacations, lunch breaks or a room that is out of service
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            {excError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {excError}
+              </div>
+            )}
+            <div>
+              <Label>Title</Label>
+              <Input
+                value={excTitle}
+                onChange={(e) => setExcTitle(e.target.value)}
+                placeholder="e.g. Thanksgiving, Lunch, Dr. Smith vacation"
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Type</Label>
+                <Select value={excType} onValueChange={setExcType}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXCEPTION_TYPE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Applies to</Label>
+                <Select value={excScope} onValueChange={setExcScope}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="organization">Whole clinic</SelectItem>
+                    <SelectItem value="provider">One provider</SelectItem>
+                    <SelectItem value="operatory">One room</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {excScope === 'provider' && (
+              <div>
+                <Label>{tCommon('provider')}</Label>
+                <Select value={excProvider} onValueChange={setExcProvider}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder={tCommon('select_provider')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {providers.map((p) => (
+                      <SelectItem key={p.ProvNum} value={p.ProvNum.toString()}>
+                        Dr. {p.FName} {p.LName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {excScope === 'operatory' && (
+              <div>
+                <Label>{tCommon('room_operatory')}</Label>
+                <Select value={excOperatory} onValueChange={setExcOperatory}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder={tCommon('select_room')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operatories.map((op) => (
+                      <SelectItem key={op.OperatoryNum} value={op.OperatoryNum.toString()}>
+                        {op.OpName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>{tCommon('start_date')}</Label>
+                <Input
+                  type="date"
+                  value={excStartDate}
+                  onChange={(e) => setExcStartDate(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>{tCommon('end_date')}</Label>
+                <Input
+                  type="date"
+                  value={excEndDate}
+                  onChange={(e) => setExcEndDate(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="exception-all-day"
+                checked={excAllDay}
+                onCheckedChange={(checked) => setExcAllDay(checked === true)}
+              />
+              <Label htmlFor="exception-all-day" className="cursor-pointer">
+                All day
+              </Label>
+            </div>
+            {!excAllDay && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>{tCommon('start_time')}</Label>
+                  <Select value={excStartTime} onValueChange={setExcStartTime}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_OPTIONS.map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {formatTime(t)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>{tCommon('end_time')}</Label>
+                  <Select value={excEndTime} onValueChange={setExcEndTime}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_OPTIONS.map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {formatTime(t)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Repeats</Label>
+                <Select value={excRecurrence} onValueChange={setExcRecurrence}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRENCE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {excRecurrence !== 'none' && (
+                <div>
+                  <Label>Every</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={excInterval}
+                    onChange={(e) => setExcInterval(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              )}
+            </div>
+            {excRecurrence === 'weekly' && (
+              <div>
+                <Label>On days</Label>
+                <div className="flex flex-wrap gap-3 mt-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <div key={label} className="flex items-center gap-1">
+                      <Checkbox
+                        id={`exception-day-${day}`}
+                        checked={excDays.includes(day)}
+                        onCheckedChange={() => toggleExcDay(day)}
+                      />
+                      <Label htmlFor={`exception-day-${day}`} className="cursor-pointer">
+                        {label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {excRecurrence !== 'none' && (
+              <div>
+                <Label>Repeat until (optional)</Label>
+                <Input
+                  type="date"
+                  value={excUntil}
+                  onChange={(e) => setExcUntil(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <Label>Notes</Label>
+              <Input
+                value={excNotes}
+                onChange={(e) => setExcNotes(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-800 text-sm">
+              Existing appointments are not cancelled. New bookings are blocked for this period.
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setIsExceptionDialogOpen(false); resetExceptionForm(); }}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveException}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
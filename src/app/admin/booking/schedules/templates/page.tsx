@@ -0,0 +1,672 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from '@/lib/i18n/TranslationProvider';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ChevronLeft, RefreshCw } from 'lucide-react';
+
+interface TemplateBlock {
+  BlockNum?: number;
+  WeekIndex: number;
+  DayOfWeek: number;
+  OpNum: number;
+  OperatoryName?: string;
+  StartTime: string;
+  EndTime: string;
+}
+
+interface ScheduleTemplate {
+  TemplateNum: number;
+  ProvNum: number;
+  ProviderName: string;
+  Name: string;
+  WeekCycle: number;
+  CycleAnchorDate: string;
+  EffectiveFrom: string;
+  EffectiveUntil: string | null;
+  HorizonDays: number;
+  LastMaterializedThrough: string | null;
+  Notes: string | null;
+  IsActive: boolean;
+  Blocks: TemplateBlock[];
+}
+
+interface TemplateConflict {
+  type: string;
+  date: string;
+  message: string;
+}
+
+interface Materialization {
+  templateName: string;
+  rangeStart: string;
+  rangeEnd: string;
+  created: number;
+  removed: number;
+  unchanged: number;
+  skippedExceptionDays: string[];
+  conflicts: TemplateConflict[];
+}
+
+interface Provider {
+  ProvNum: number;
+  FName: string;
+  LName: string;
+}
+
+interface Operatory {
+  OperatoryNum: number;
+  OpName: string;
+}
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const WEEK_LABELS = ['Week A', 'Week B', 'Week C', 'Week D'];
+
+const TIME_OPTIONS = [
+  '06:00:00', '06:30:00', '07:00:00', '07:30:00', '08:00:00', '08:30:00',
+  '09:00:00', '09:30:00', '10:00:00', '10:30:00', '11:00:00', '11:30:00',
+  '12:00:00', '12:30:00', '13:00:00', '13:30:00', '14:00:00', '14:30:00',
+  '15:00:00', '15:30:00', '16:00:00', '16:30:00', '17:00:00', '17:30:00',
+  '18:00:00', '18:30:00', '19:00:00', '19:30:00', '20:00:00',
+];
+
+function formatTime(time: string): string {
+  if (!time) return '';
+  const [hours, minutes] = time.split(':');
+  const h = parseInt(hours);
+  const ampm = h >= 12 ? 'PM' : 'AM';
+  const displayHour = h === 0 ? 12 : h > 12 ? h - 12 : h;
+  return `${displayHour}:${minutes} ${ampm}`;
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return '';
+  const date = new Date(dateStr + 'T00:00:00');
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function getTodayDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+export default function ScheduleTemplatesPage() {
+  const router = useRouter();
+  const tCommon = useTranslations('common');
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [operatories, setOperatories] = useState<Operatory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ScheduleTemplate | null>(null);
+  const [lastResults, setLastResults] = useState<Materialization[]>([]);
+  const [regenerating, setRegenerating] = useState(false);
+
+  // Form state
+  const [formName, setFormName] = useState('');
+  const [formProvider, setFormProvider] = useState('');
+  const [formWeekCycle, setFormWeekCycle] = useState('1');
+  const [formAnchorDate, setFormAnchorDate] = useState(getTodayDate());
+  const [formEffectiveFrom, setFormEffectiveFrom] = useState(getTodayDate());
+  const [formEffectiveUntil, setFormEffectiveUntil] = useState('');
+  const [formHorizonDays, setFormHorizonDays] = useState('28');
+  const [formIsActive, setFormIsActive] = useState(true);
+  const [formBlocks, setFormBlocks] = useState<TemplateBlock[]>([]);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    fetchBaseData();
+    fetchTemplates();
+  }, []);
+
+  const callBooking = async (functionName: string, parameters: Record<string, any>) => {
+    const response = await fetch('/api/booking', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ functionName, parameters }),
+    });
+    const data = await response.json();
+    if (!response.ok || data?.error) {
+      throw new Error(data?.message || `${functionName} failed`);
+    }
+    return data;
+  };
+
+  const fetchBaseData = async () => {
+    try {
+      const [providersData, operatoriesData] = await Promise.all([
+        callBooking('GetProviders', {}),
+        callBooking('GetOperatories', {}),
+      ]);
+      setProviders(Array.isArray(providersData) ? providersData : []);
+      setOperatories(Array.isArray(operatoriesData) ? operatoriesData : []);
+    } catch (error) {
+      console.error('Error fetching base data:', error);
+    }
+  };
+
+  const fetchTemplates = async () => {
+    setLoading(true);
+    try {
+      const data = await callBooking('GetScheduleTemplates', {});
+      setTemplates(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Error fetching schedule templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingTemplate(null);
+    setFormName('');
+    setFormProvider('');
+    setFormWeekCycle('1');
+    setFormAnchorDate(getTodayDate());
+    setFormEffectiveFrom(getTodayDate());
+    setFormEffectiveUntil('');
+    setFormHorizonDays('28');
+    setFormIsActive(true);
+    setFormBlocks([1, 2, 3, 4, 5].map(day => ({
+      WeekIndex: 0,
+      DayOfWeek: day,
+      OpNum: operatories[0]?.OperatoryNum || 0,
+      StartTime: '09:00:00',
+      EndTime: '17:00:00',
+    })));
+    setFormError('');
+  };
+
+  const handleEdit = (template: ScheduleTemplate) => {
+    setEditingTemplate(template);
+    setFormName(template.Name);
+    setFormProvider(template.ProvNum.toString());
+    setFormWeekCycle(String(template.WeekCycle || 1));
+    setFormAnchorDate(template.CycleAnchorDate);
+    setFormEffectiveFrom(template.EffectiveFrom);
+    setFormEffectiveUntil(template.EffectiveUntil || '');
+    setFormHorizonDays(String(template.HorizonDays));
+    setFormIsActive(template.IsActive);
+    setFormBlocks(template.Blocks.map(block => ({ ...block })));
+    setFormError('');
+    setIsDialogOpen(true);
+  };
+
+  const updateBlock = (index: number, changes: Partial<TemplateBlock>) => {
+    setFormBlocks(prev => prev.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+  };
+
+  const addBlock = () => {
+    setFormBlocks(prev => [
+      ...prev,
+      {
+        WeekIndex: 0,
+        DayOfWeek: 1,
+        OpNum: operatories[0]?.OperatoryNum || 0,
+        StartTime: '09:00:00',
+        EndTime: '17:00:00',
+      },
+    ]);
+  };
+
+  const removeBlock = (index: number) => {
+    setFormBlocks(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setFormError('');
+
+    if (!formName.trim()) {
+      setFormError('Please enter a template name');
+      return;
+    }
+    if (!formProvider) {
+      setFormError('Please select a provider');
+      return;
+    }
+    if (formBlocks.some(block => !block.OpNum)) {
+      setFormError('Please select a room for every block');
+      return;
+    }
+
+    const weekCycle = parseInt(formWeekCycle);
+    const params: Record<string, any> = {
+      Name: formName.trim(),
+      ProvNum: parseInt(formProvider),
+      WeekCycle: weekCycle,
+      CycleAnchorDate: formAnchorDate,
+      EffectiveFrom: formEffectiveFrom,
+      EffectiveUntil: formEffectiveUntil || null,
+      HorizonDays: parseInt(formHorizonDays) || 28,
+      IsActive: formIsActive,
+      Blocks: formBlocks
+        .filter(block => block.WeekIndex < weekCycle)
+        .map(block => ({
+          WeekIndex: block.WeekIndex,
+          DayOfWeek: block.DayOfWeek,
+          OpNum: block.OpNum,
+          StartTime: block.StartTime,
+          EndTime: block.EndTime,
+        })),
+    };
+
+    if (editingTemplate) {
+      params.TemplateNum = editingTemplate.TemplateNum;
+    }
+
+    try {
+      const result = await callBooking(
+        editingTemplate ? 'UpdateScheduleTemplate' : 'CreateScheduleTemplate',
+        params
+      );
+      setIsDialogOpen(false);
+      resetForm();
+      setLastResults(result.Materialization ? [result.Materialization] : []);
+      fetchTemplates();
+    } catch (error: any) {
+      setFormError(error.message || 'Failed to save template');
+    }
+  };
+
+  const handleDelete = async (template: ScheduleTemplate) => {
+    if (!confirm(`Delete "${template.Name}"? Future unbooked schedules from this template will be removed.`)) return;
+
+    try {
+      const result = await callBooking('DeleteScheduleTemplate', { TemplateNum: template.TemplateNum });
+      setLastResults(result.Materialization ? [result.Materialization] : []);
+      fetchTemplates();
+    } catch (error: any) {
+      alert(error.message || 'Failed to delete template');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    try {
+      const results = await callBooking('MaterializeScheduleTemplates', {});
+      setLastResults(Array.isArray(results) ? results : []);
+      fetchTemplates();
+    } catch (error: any) {
+      alert(error.message || 'Failed to regenerate schedules');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const weekCycle = parseInt(formWeekCycle) || 1;
+
+  if (loading && templates.length === 0) {
+    return <div className="text-center py-8">{tCommon('loading')}</div>;
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push('/admin/booking/schedules')}
+            className="mb-2 -ml-2"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Schedules
+          </Button>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Weekly Templates</h1>
+          <p className="text-sm md:text-base text-gray-600 mt-1 md:mt-2">
+            Repeating working weeks per provider. Dated schedules are generated automatically ahead of time.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRegenerate} disabled={regenerating} className="w-full sm:w-auto">
+            <RefreshCw className={`h-4 w-4 mr-1 ${regenerating ? 'animate-spin' : ''}`} />
+            Regenerate
+          </Button>
+          <Button
+            onClick={() => {
+              resetForm();
+              setIsDialogOpen(true);
+            }}
+            className="w-full sm:w-auto"
+          >
+            + New Template
+          </Button>
+        </div>
+      </div>
+
+      {/* Last materialization results */}
+      {lastResults.length > 0 && (
+        <div className="space-y-2">
+          {lastResults.map((result, index) => (
+            <div
+              key={`${result.templateName}-${index}`}
+              className={`p-3 rounded-lg border text-sm ${
+                result.conflicts.length > 0
+                  ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                  : 'bg-green-50 border-green-200 text-green-800'
+              }`}
+            >
+              <div className="font-medium">
+                {result.templateName}: {result.created} created, {result.removed} removed, {result.unchanged} unchanged
+                ({formatDate(result.rangeStart)} – {formatDate(result.rangeEnd)})
+              </div>
+              {result.skippedExceptionDays.length > 0 && (
+                <div className="mt-1">
+                  Skipped blocked days: {result.skippedExceptionDays.map(formatDate).join(', ')}
+                </div>
+              )}
+              {result.conflicts.length > 0 && (
+                <ul className="mt-1 list-disc list-inside">
+                  {result.conflicts.map((conflict, i) => (
+                    <li key={i}>{conflict.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Template list */}
+      {templates.length === 0 ? (
+        <div className="text-center text-gray-500 py-8 border rounded-lg">
+          No weekly templates yet. Create one to keep schedules filled automatically.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {templates.map((template) => (
+            <div
+              key={template.TemplateNum}
+              className={`border rounded-lg p-4 space-y-3 bg-white ${!template.IsActive ? 'opacity-50' : ''}`}
+            >
+              <div className="flex justify-between items-start gap-2">
+                <div>
+                  <div className="text-lg font-semibold text-gray-900">{template.Name}</div>
+                  <div className="text-sm text-gray-600">{template.ProviderName}</div>
+                </div>
+                <div className="flex flex-wrap gap-1 justify-end">
+                  {template.WeekCycle > 1 && (
+                    <Badge variant="secondary">{template.WeekCycle}-week cycle</Badge>
+                  )}
+                  <Badge variant={template.IsActive ? 'default' : 'secondary'}>
+                    {template.IsActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+              </div>
+              <div className="space-y-1 text-sm">
+                {template.Blocks.length === 0 ? (
+                  <div className="text-gray-500">No working blocks</div>
+                ) : (
+                  template.Blocks.map((block) => (
+                    <div key={block.BlockNum} className="flex gap-2">
+                      {template.WeekCycle > 1 && (
+                        <span className="text-gray-500 w-16">{WEEK_LABELS[block.WeekIndex]}</span>
+                      )}
+                      <span className="w-24">{DAY_LABELS[block.DayOfWeek]}</span>
+                      <span>{formatTime(block.StartTime)} - {formatTime(block.EndTime)}</span>
+                      <Badge variant="outline">{block.OperatoryName}</Badge>
+                    </div>
+                  ))
+                )}
+              </div>
+              <div className="text-xs text-gray-500">
+                Effective {formatDate(template.EffectiveFrom)}
+                {template.EffectiveUntil ? ` – ${formatDate(template.EffectiveUntil)}` : ''}
+                {' · '}
+                {template.HorizonDays} days ahead
+                {template.LastMaterializedThrough && ` · generated through ${formatDate(template.LastMaterializedThrough)}`}
+              </div>
+              <div className="flex gap-2 pt-2 border-t">
+                <Button variant="outline" size="sm" onClick={() => handleEdit(template)}>
+                  Edit
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => handleDelete(template)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? 'Edit Template' : 'New Weekly Template'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to future dates without appointments. Booked dates are kept and reported.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            {formError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {formError}
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={formName}
+                  onChange={(e) => setFormName(e.target.value)}
+                  placeholder="e.g. Standard Week"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>{tCommon('provider')}</Label>
+                <Select value={formProvider} onValueChange={setFormProvider} disabled={!!editingTemplate}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder={tCommon('select_provider')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {providers.map((p) => (
+                      <SelectItem key={p.ProvNum} value={p.ProvNum.toString()}>
+                        Dr. {p.FName} {p.LName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <Label>Repeats</Label>
+                <Select value={formWeekCycle} onValueChange={setFormWeekCycle}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">Every week</SelectItem>
+                    <SelectItem value="2">Alternating weeks (A/B)</SelectItem>
+                    <SelectItem value="3">3-week cycle</SelectItem>
+                    <SelectItem value="4">4-week cycle</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {weekCycle > 1 && (
+                <div>
+                  <Label>Week A starts the week of</Label>
+                  <Input
+                    type="date"
+                    value={formAnchorDate}
+                    onChange={(e) => setFormAnchorDate(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              )}
+              <div>
+                <Label>Generate days ahead</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={180}
+                  value={formHorizonDays}
+                  onChange={(e) => setFormHorizonDays(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Effective from</Label>
+                <Input
+                  type="date"
+                  value={formEffectiveFrom}
+                  onChange={(e) => setFormEffectiveFrom(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Effective until (optional)</Label>
+                <Input
+                  type="date"
+                  value={formEffectiveUntil}
+                  onChange={(e) => setFormEffectiveUntil(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label>Working blocks</Label>
+                <Button variant="outline" size="sm" onClick={addBlock}>
+                  + Add Block
+                </Button>
+              </div>
+              {formBlocks.length === 0 && (
+                <div className="text-sm text-gray-500">No blocks — the provider won&apos;t be scheduled.</div>
+              )}
+              {formBlocks.map((block, index) => (
+                <div
+                  key={index}
+                  className={`grid grid-cols-2 sm:grid-cols-6 gap-2 items-center ${block.WeekIndex >= weekCycle ? 'opacity-50' : ''}`}
+                >
+                  {weekCycle > 1 ? (
+                    <Select
+                      value={String(block.WeekIndex)}
+                      onValueChange={(value) => updateBlock(index, { WeekIndex: parseInt(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEK_LABELS.slice(0, weekCycle).map((label, week) => (
+                          <SelectItem key={label} value={String(week)}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="hidden sm:block" />
+                  )}
+                  <Select
+                    value={String(block.DayOfWeek)}
+                    onValueChange={(value) => updateBlock(index, { DayOfWeek: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAY_LABELS.map((label, day) => (
+                        <SelectItem key={label} value={String(day)}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={block.OpNum ? String(block.OpNum) : ''}
+                    onValueChange={(value) => updateBlock(index, { OpNum: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={tCommon('select_room')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {operatories.map((op) => (
+                        <SelectItem key={op.OperatoryNum} value={op.OperatoryNum.toString()}>
+                          {op.OpName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={block.StartTime} onValueChange={(value) => updateBlock(index, { StartTime: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_OPTIONS.map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {formatTime(t)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={block.EndTime} onValueChange={(value) => updateBlock(index, { EndTime: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_OPTIONS.map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {formatTime(t)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" onClick={() => removeBlock(index)}>
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="template-active"
+                checked={formIsActive}
+                onCheckedChange={(checked) => setFormIsActive(checked === true)}
+              />
+              <Label htmlFor="template-active" className="cursor-pointer">
+                {tCommon('active')}
+              </Label>
+            </div>
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-800 text-sm">
+              Holidays and all-day blocked time are skipped automatically.
+              Schedules that would overlap another provider in the same room are reported, not overwritten.
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setIsDialogOpen(false); resetForm(); }}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
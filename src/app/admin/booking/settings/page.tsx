@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -37,6 +38,18 @@ export default function SettingsPage() {
   const [dentalMode, setDentalMode] = useState(true);
   const [orgSettingsLoading, setOrgSettingsLoading] = useState(false);
   
+  // Slot granularity (minutes between bookable start times)
+  const [slotGranularity, setSlotGranularity] = useState<string>('30');
+  const [slotSettingsSaving, setSlotSettingsSaving] = useState(false);
+  
+  // Patient portal (magic-link sign-in, online reschedule/cancel windows)
+  const [organizationSlug, setOrganizationSlug] = useState('');
+  const [portalEnabled, setPortalEnabled] = useState(false);
+  const [portalRescheduleHours, setPortalRescheduleHours] = useState('24');
+  const [portalCancelHours, setPortalCancelHours] = useState('24');
+  const [portalHorizonDays, setPortalHorizonDays] = useState('90');
+  const [portalSaving, setPortalSaving] = useState(false);
+  
   // API credentials status
   const [credentialsStatus, setCredentialsStatus] = useState<Record<string, boolean>>({});
   
@@ -90,6 +103,16 @@ export default function SettingsPage() {
       if (data.success && data.settings) {
         setDentalMode(data.settings.dental_mode ?? true);
       }
+      if (data.slot_granularity_minutes) {
+        setSlotGranularity(String(data.slot_granularity_minutes));
+      }
+      if (data.slug) {
+        setOrganizationSlug(data.slug);
+        setPortalEnabled(!!data.portal_enabled);
+        setPortalRescheduleHours(String(data.portal_reschedule_cutoff_hours ?? 24));
+        setPortalCancelHours(String(data.portal_cancel_cutoff_hours ?? 24));
+        setPortalHorizonDays(String(data.portal_reschedule_horizon_days ?? 90));
+      }
     } catch (error) {
       console.error('Error fetching organization settings:', error);
     }
@@ -131,6 +154,65 @@ export default function SettingsPage() {
     }
   };
 
+  const handleSaveSlotSettings = async () => {
+    setSlotSettingsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/admin/organization-settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slot_granularity_minutes: parseInt(slotGranularity),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && !data.error) {
+        setMessage({ type: 'success', text: '✅ Appointment slot settings saved' });
+      } else {
+        setMessage({ type: 'error', text: `❌ Failed to save: ${data.error}` });
+      }
+    } catch (error) {
+      console.error('Error saving slot settings:', error);
+      setMessage({ type: 'error', text: '❌ Failed to save appointment slot settings' });
+    } finally {
+      setSlotSettingsSaving(false);
+    }
+  };
+
+  const handleSavePortalSettings = async () => {
+    setPortalSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/admin/organization-settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          portal_enabled: portalEnabled,
+          portal_reschedule_cutoff_hours: parseInt(portalRescheduleHours),
+          portal_cancel_cutoff_hours: parseInt(portalCancelHours),
+          portal_reschedule_horizon_days: parseInt(portalHorizonDays),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && !data.error) {
+        setMessage({ type: 'success', text: '✅ Patient portal settings saved' });
+      } else {
+        setMessage({ type: 'error', text: `❌ Failed to save: ${data.error}` });
+      }
+    } catch (error) {
+      console.error('Error saving portal settings:', error);
+      setMessage({ type: 'error', text: '❌ Failed to save patient portal settings' });
+    } finally {
+      setPortalSaving(false);
+    }
+  };
+
   const fetchCurrentMode = async () => {
     setLoading(true);
     try {
@@ -369,6 +451,109 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Appointment Slots Card */}
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle>Appointment Slots</CardTitle>
+          <CardDescription>
+            How often a bookable slot can start. Appointment length comes from the treatment catalog.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between p-4 border rounded-lg">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Slot granularity</Label>
+              <p className="text-sm text-gray-600">
+                e.g. 15 minutes offers 10:00, 10:15, 10:30… A 45-minute filling can start at 10:15.
+              </p>
+            </div>
+            <Select value={slotGranularity} onValueChange={setSlotGranularity}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {['5', '10', '15', '20', '30'].map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value} min
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button onClick={handleSaveSlotSettings} disabled={slotSettingsSaving}>
+            {slotSettingsSaving ? 'Saving...' : 'Save Slot Settings'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Patient Portal Card */}
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle>Patient Portal</CardTitle>
+          <CardDescription>
+            Patients sign in with a one-time link sent to the phone or email on their record, then view
+            appointments and treatment plans, reschedule or cancel, and update their contact details.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between p-4 border rounded-lg">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Enable patient portal</Label>
+              {organizationSlug && (
+                <p className="text-sm text-gray-600">
+                  Portal address: <code className="text-xs">{`${typeof window !== 'undefined' ? window.location.origin : ''}/portal/${organizationSlug}`}</code>
+                </p>
+              )}
+            </div>
+            <Switch checked={portalEnabled} onCheckedChange={setPortalEnabled} />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="portalRescheduleHours">Reschedule up to (hours before)</Label>
+              <Input
+                id="portalRescheduleHours"
+                type="number"
+                min={0}
+                max={720}
+                value={portalRescheduleHours}
+                onChange={(e) => setPortalRescheduleHours(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="portalCancelHours">Cancel up to (hours before)</Label>
+              <Input
+                id="portalCancelHours"
+                type="number"
+                min={0}
+                max={720}
+                value={portalCancelHours}
+                onChange={(e) => setPortalCancelHours(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="portalHorizonDays">Move up to (days ahead)</Label>
+              <Input
+                id="portalHorizonDays"
+                type="number"
+                min={1}
+                max={365}
+                value={portalHorizonDays}
+                onChange={(e) => setPortalHorizonDays(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            Closer to the appointment, patients are asked to call the office instead.
+          </p>
+
+          <Button onClick={handleSavePortalSettings} disabled={portalSaving}>
+            {portalSaving ? 'Saving...' : 'Save Portal Settings'}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Agent Mode Card */}
       <Card className="max-w-2xl">
         <CardHeader>
@@ -22,6 +22,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Plus, Pencil, Trash2, Search } from 'lucide-react';
 
 interface Treatment {
@@ -34,8 +35,13 @@ interface Treatment {
   requires_surface: boolean;
   is_active: boolean;
   description?: string;
+  required_specialties?: string[];
+  required_operatory_tags?: string[];
 }
 
+// Same options as providers.specialty_tags on the providers page
+const SPECIALTY_OPTIONS = ['General', 'Orthodontics', 'Oral Surgery', 'Periodontics', 'Endodontics'];
+
 const CATEGORIES = [
   { value: 'restorative', label: 'Restorative' },
   { value: 'endodontic', label: 'Endodontic' },
@@ -55,6 +61,8 @@ const emptyTreatment: Partial<Treatment> = {
   requires_surface: false,
   is_active: true,
   description: '',
+  required_specialties: [],
+  required_operatory_tags: [],
 };
 
 export default function TreatmentsConfigPage() {
@@ -66,6 +74,7 @@ export default function TreatmentsConfigPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingTreatment, setEditingTreatment] = useState<Partial<Treatment> | null>(null);
   const [saving, setSaving] = useState(false);
+  const [roomTagsInput, setRoomTagsInput] = useState('');
 
   useEffect(() => {
     fetchTreatments();
@@ -86,11 +95,13 @@ export default function TreatmentsConfigPage() {
 
   const handleCreate = () => {
     setEditingTreatment({ ...emptyTreatment });
+    setRoomTagsInput('');
     setIsDialogOpen(true);
   };
 
   const handleEdit = (treatment: Treatment) => {
     setEditingTreatment({ ...treatment });
+    setRoomTagsInput((treatment.required_operatory_tags || []).join(', '));
     setIsDialogOpen(true);
   };
 
@@ -129,7 +140,10 @@ export default function TreatmentsConfigPage() {
       const response = await fetch('/api/treatments-catalog', {
         method: isNew ? 'POST' : 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(editingTreatment),
+        body: JSON.stringify({
+          ...editingTreatment,
+          required_operatory_tags: roomTagsInput.split(',').map(tag => tag.trim()).filter(Boolean),
+        }),
       });
 
       if (response.ok) {
@@ -264,6 +278,16 @@ export default function TreatmentsConfigPage() {
                             Surface
                           </span>
                         )}
+                        {(treatment.required_specialties || []).length > 0 && (
+                          <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded">
+                            {treatment.required_specialties!.join(' / ')}
+                          </span>
+                        )}
+                        {(treatment.required_operatory_tags || []).length > 0 && (
+                          <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded">
+                            Room: {treatment.required_operatory_tags!.join(', ')}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-6">
@@ -393,6 +417,51 @@ export default function TreatmentsConfigPage() {
                 />
               </div>
 
+              <div>
+                <Label>Required provider specialty</Label>
+                <div className="flex flex-wrap gap-3 mt-2">
+                  {SPECIALTY_OPTIONS.map((specialty) => {
+                    const selected = (editingTreatment.required_specialties || []).includes(specialty);
+                    return (
+                      <div key={specialty} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`specialty-${specialty}`}
+                          checked={selected}
+                          onCheckedChange={(checked) => {
+                            const current = editingTreatment.required_specialties || [];
+                            setEditingTreatment({
+                              ...editingTreatment,
+                              required_specialties: checked
+                                ? [...current, specialty]
+                                : current.filter(s => s !== specialty),
+                            });
+                          }}
+                        />
+                        <Label htmlFor={`specialty-${specialty}`} className="font-normal cursor-pointer">
+                          {specialty}
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Providers need at least one of the selected specialties. Leave empty for any provider.
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="required_operatory_tags">Required room capabilities</Label>
+                <Input
+                  id="required_operatory_tags"
+                  value={roomTagsInput}
+                  onChange={(e) => setRoomTagsInput(e.target.value)}
+                  placeholder="e.g. Surgical, Sedation"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Comma-separated operatory tags. The room must have all of them.
+                </p>
+              </div>
+
               <div className="flex items-center justify-between pt-2">
                 <div className="flex items-center gap-2">
                   <Switch
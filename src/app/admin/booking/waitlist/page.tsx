@@ -0,0 +1,485 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from '@/lib/i18n/TranslationProvider';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface WaitlistOffer {
+  OfferNum: number;
+  WaitlistNum: number;
+  PatientName?: string;
+  ProvNum: number;
+  Op: number;
+  AptDateTime: string;
+  LengthMinutes: number;
+  Channel: 'sms' | 'whatsapp';
+  Status: string;
+  ExpiresAt: string;
+  SentAt: string | null;
+  RespondedAt: string | null;
+  AptNum: number | null;
+  Error: string | null;
+}
+
+interface WaitlistEntry {
+  WaitlistNum: number;
+  PatNum: number;
+  PatientName: string;
+  Phone: string;
+  Channel: 'sms' | 'whatsapp';
+  PreferredProviders: number[];
+  PreferredDays: number[];
+  EarliestTime: string | null;
+  LatestTime: string | null;
+  DateFrom: string | null;
+  DateUntil: string | null;
+  LengthMinutes: number | null;
+  TreatmentCode: string | null;
+  AppointmentType: string | null;
+  Priority: number;
+  Status: string;
+  Source: 'agent' | 'staff' | 'unscheduled';
+  AutoOffer: boolean;
+  OriginalAptNum: number | null;
+  Notes: string | null;
+  DateCreated: string;
+  LastOffer: WaitlistOffer | null;
+}
+
+interface Provider {
+  ProvNum: number;
+  FName: string;
+  LName: string;
+}
+
+interface Patient {
+  PatNum: number;
+  FName: string;
+  LName: string;
+  WirelessPhone: string;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_STYLES: Record<string, string> = {
+  waiting: 'bg-blue-100 text-blue-800',
+  offered: 'bg-amber-100 text-amber-800',
+  pending: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-green-100 text-green-800',
+  booked: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-700',
+  expired: 'bg-gray-100 text-gray-700',
+  unavailable: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const EMPTY_FORM = {
+  patNum: '',
+  providers: [] as number[],
+  days: [] as number[],
+  earliestTime: '',
+  latestTime: '',
+  dateUntil: '',
+  appointmentType: '',
+  lengthMinutes: '',
+  channel: 'sms',
+  phone: '',
+  priority: '0',
+  notes: '',
+};
+
+async function callBooking(functionName: string, parameters: Record<string, any> = {}) {
+  const response = await fetch('/api/booking', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ functionName, parameters }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `${functionName} failed`);
+  }
+  return data;
+}
+
+export default function WaitlistPage() {
+  const tCommon = useTranslations('common');
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [offers, setOffers] = useState<WaitlistOffer[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const fetchAll = async () => {
+    try {
+      const [entryData, offerData, providerData, patientData] = await Promise.all([
+        callBooking('GetWaitlist'),
+        callBooking('GetWaitlistOffers', { limit: 50 }),
+        callBooking('GetProviders'),
+        callBooking('GetAllPatients'),
+      ]);
+      setEntries(Array.isArray(entryData) ? entryData : []);
+      setOffers(Array.isArray(offerData) ? offerData : []);
+      setProviders(Array.isArray(providerData) ? providerData : []);
+      setPatients(Array.isArray(patientData) ? patientData : []);
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const providerName = (provNum: number) => {
+    const provider = providers.find(p => p.ProvNum === provNum);
+    return provider ? `Dr. ${provider.LName}` : `Provider ${provNum}`;
+  };
+
+  const describePreferences = (entry: WaitlistEntry) => {
+    const parts: string[] = [];
+    if (entry.PreferredProviders.length > 0) parts.push(entry.PreferredProviders.map(providerName).join(', '));
+    if (entry.PreferredDays.length > 0) parts.push(entry.PreferredDays.map(d => DAY_LABELS[d]).join(', '));
+    if (entry.EarliestTime || entry.LatestTime) {
+      parts.push(`${entry.EarliestTime?.substring(0, 5) || 'open'}–${entry.LatestTime?.substring(0, 5) || 'close'}`);
+    }
+    if (entry.DateUntil) parts.push(`until ${entry.DateUntil}`);
+    return parts.length > 0 ? parts.join(' · ') : 'Any time';
+  };
+
+  const toggleAutoOffer = async (entry: WaitlistEntry) => {
+    try {
+      await callBooking('UpdateWaitlistEntry', { WaitlistNum: entry.WaitlistNum, AutoOffer: !entry.AutoOffer });
+      fetchAll();
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    if (!confirm(`Remove ${entry.PatientName} from the waitlist?`)) return;
+    try {
+      await callBooking('RemoveFromWaitlist', { WaitlistNum: entry.WaitlistNum });
+      fetchAll();
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const toggleInList = (key: 'providers' | 'days', value: number) => {
+    setForm(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.patNum) {
+      alert('Select a patient');
+      return;
+    }
+    setSaving(true);
+    try {
+      await callBooking('AddToWaitlist', {
+        PatNum: parseInt(form.patNum),
+        PreferredProviders: form.providers,
+        PreferredDays: form.days,
+        EarliestTime: form.earliestTime || undefined,
+        LatestTime: form.latestTime || undefined,
+        DateUntil: form.dateUntil || undefined,
+        AppointmentType: form.appointmentType || undefined,
+        lengthMinutes: form.lengthMinutes || undefined,
+        Channel: form.channel,
+        Phone: form.phone || undefined,
+        Priority: parseInt(form.priority) || 0,
+        Notes: form.notes || undefined,
+      });
+      setIsDialogOpen(false);
+      setForm(EMPTY_FORM);
+      fetchAll();
+    } catch (error: any) {
+      alert(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEntryTable = (rows: WaitlistEntry[], emptyText: string) => (
+    <div className="border rounded-lg overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Patient</TableHead>
+            <TableHead>Wants</TableHead>
+            <TableHead>Preferences</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Auto-offer</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-gray-500 py-8">{emptyText}</TableCell>
+            </TableRow>
+          ) : (
+            rows.map(entry => (
+              <TableRow key={entry.WaitlistNum}>
+                <TableCell>
+                  <div className="font-medium">{entry.PatientName}</div>
+                  <div className="text-xs text-gray-500">
+                    {entry.Phone || 'No phone'} · {entry.Channel === 'whatsapp' ? 'WhatsApp' : 'SMS'}
+                    {entry.Priority > 0 && ` · Priority ${entry.Priority}`}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {entry.AppointmentType || entry.TreatmentCode || 'Appointment'}
+                  {entry.LengthMinutes ? <span className="text-gray-500"> · {entry.LengthMinutes} min</span> : null}
+                </TableCell>
+                <TableCell className="text-sm text-gray-600">{describePreferences(entry)}</TableCell>
+                <TableCell>
+                  <Badge className={STATUS_STYLES[entry.Status] || ''}>{entry.Status}</Badge>
+                  {entry.Status === 'offered' && entry.LastOffer && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {entry.LastOffer.AptDateTime.substring(0, 16)} · until{' '}
+                      {new Date(entry.LastOffer.ExpiresAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Checkbox checked={entry.AutoOffer} onCheckedChange={() => toggleAutoOffer(entry)} />
+                </TableCell>
+                <TableCell>
+                  <Button variant="destructive" size="sm" onClick={() => handleRemove(entry)}>
+                    Remove
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  if (loading) {
+    return <div className="text-center py-8">{tCommon('loading')}</div>;
+  }
+
+  const waitlist = entries.filter(entry => entry.Source !== 'unscheduled');
+  const unscheduled = entries.filter(entry => entry.Source === 'unscheduled');
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Waitlist</h1>
+          <p className="text-sm md:text-base text-gray-600 mt-1 md:mt-2">
+            Patients who want an earlier slot. Cancelled slots are offered to them automatically by SMS or WhatsApp.
+          </p>
+        </div>
+        <Button onClick={() => { setForm(EMPTY_FORM); setIsDialogOpen(true); }} className="w-full sm:w-auto">
+          + Add to Waitlist
+        </Button>
+      </div>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">Waiting ({waitlist.length})</h2>
+        {renderEntryTable(waitlist, 'Nobody is on the waitlist.')}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">Unscheduled list ({unscheduled.length})</h2>
+        <p className="text-sm text-gray-500">
+          Broken appointments waiting to be rebooked. Turn on auto-offer to include them in slot offers.
+        </p>
+        {renderEntryTable(unscheduled, 'No broken appointments to rebook.')}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">Recent offers</h2>
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Patient</TableHead>
+                <TableHead>Slot</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Sent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {offers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500 py-8">No offers sent yet.</TableCell>
+                </TableRow>
+              ) : (
+                offers.map(offer => (
+                  <TableRow key={offer.OfferNum}>
+                    <TableCell>{offer.PatientName || `Entry ${offer.WaitlistNum}`}</TableCell>
+                    <TableCell className="text-sm">
+                      {offer.AptDateTime.substring(0, 16)} · {providerName(offer.ProvNum)} · {offer.LengthMinutes} min
+                    </TableCell>
+                    <TableCell>{offer.Channel === 'whatsapp' ? 'WhatsApp' : 'SMS'}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[offer.Status] || ''}>{offer.Status}</Badge>
+                      {offer.AptNum && <span className="text-xs text-gray-500 ml-2">Apt #{offer.AptNum}</span>}
+                      {offer.Error && <div className="text-xs text-red-600 mt-1">{offer.Error}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {offer.SentAt ? new Date(offer.SentAt).toLocaleString() : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add to Waitlist</DialogTitle>
+            <DialogDescription>
+              The patient is offered the first cancelled slot that matches these preferences.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div>
+              <Label>Patient</Label>
+              <Select value={form.patNum} onValueChange={value => setForm({ ...form, patNum: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients.map(patient => (
+                    <SelectItem key={patient.PatNum} value={String(patient.PatNum)}>
+                      {patient.FName} {patient.LName}{patient.WirelessPhone ? ` · ${patient.WirelessPhone}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Preferred providers</Label>
+              <div className="flex flex-wrap gap-3 mt-1">
+                {providers.map(provider => (
+                  <label key={provider.ProvNum} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={form.providers.includes(provider.ProvNum)}
+                      onCheckedChange={() => toggleInList('providers', provider.ProvNum)}
+                    />
+                    Dr. {provider.LName}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Leave empty for any provider.</p>
+            </div>
+            <div>
+              <Label>Preferred days</Label>
+              <div className="flex flex-wrap gap-3 mt-1">
+                {DAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox checked={form.days.includes(day)} onCheckedChange={() => toggleInList('days', day)} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="earliestTime">Earliest</Label>
+                <Input id="earliestTime" type="time" value={form.earliestTime} onChange={e => setForm({ ...form, earliestTime: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="latestTime">Latest</Label>
+                <Input id="latestTime" type="time" value={form.latestTime} onChange={e => setForm({ ...form, latestTime: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="dateUntil">Until</Label>
+                <Input id="dateUntil" type="date" value={form.dateUntil} onChange={e => setForm({ ...form, dateUntil: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="appointmentType">Appointment type</Label>
+                <Input id="appointmentType" value={form.appointmentType} placeholder="Cleaning" onChange={e => setForm({ ...form, appointmentType: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="lengthMinutes">Length (min)</Label>
+                <Input id="lengthMinutes" type="number" min={5} value={form.lengthMinutes} placeholder="From treatment" onChange={e => setForm({ ...form, lengthMinutes: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label>Channel</Label>
+                <Select value={form.channel} onValueChange={value => setForm({ ...form, channel: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sms">SMS</SelectItem>
+                    <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="phone">Phone</Label>
+                <Input id="phone" value={form.phone} placeholder="Patient's phone" onChange={e => setForm({ ...form, phone: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="priority">Priority</Label>
+                <Input id="priority" type="number" value={form.priority} onChange={e => setForm({ ...form, priority: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="notes">Notes</Label>
+              <Input id="notes" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : tCommon('save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  PhoneForwarded,
+  Save,
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  CheckCircle2,
+  AlertCircle,
+} from 'lucide-react';
+
+type TransferRole = 'front_desk' | 'on_call' | 'other';
+type TargetAvailability = 'always' | 'on_duty' | 'off_duty';
+
+interface TransferTarget {
+  id?: string;
+  name: string;
+  role: TransferRole;
+  phone_number: string;
+  availability: TargetAvailability;
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+  ring_timeout_seconds: number;
+  is_active: boolean;
+}
+
+interface RecentTransfer {
+  id: string;
+  provider: 'twilio' | 'retell';
+  reason: string | null;
+  summary: string | null;
+  destination: TransferRole | null;
+  status: string;
+  connected_number: string | null;
+  voicemail_url: string | null;
+  voicemail_duration_seconds: number | null;
+  created_at: string;
+}
+
+const ROLE_LABELS: Record<TransferRole, string> = {
+  front_desk: 'Front desk',
+  on_call: 'On-call',
+  other: 'Other',
+};
+
+const AVAILABILITY_LABELS: Record<TargetAvailability, string> = {
+  always: 'Always',
+  on_duty: 'During hours',
+  off_duty: 'Outside hours',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  initiated: 'Started',
+  ringing: 'Ringing',
+  connected: 'Connected',
+  no_answer: 'No answer',
+  voicemail: 'Voicemail',
+  failed: 'Failed',
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Live call transfer settings: who the voice agent can hand callers to, and when
+ */
+export default function CallTransfersSettingsPage() {
+  const [targets, setTargets] = useState<TransferTarget[]>([]);
+  const [recent, setRecent] = useState<RecentTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/call-transfers');
+      const data = await response.json();
+      if (data.success) {
+        setTargets((data.targets || []).map((target: TransferTarget) => ({
+          ...target,
+          start_time: String(target.start_time).substring(0, 5),
+          end_time: String(target.end_time).substring(0, 5),
+        })));
+        setRecent(data.recent || []);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to load call transfer settings' });
+      }
+    } catch (error) {
+      console.error('Error fetching call transfer settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTarget = (index: number, changes: Partial<TransferTarget>) => {
+    setTargets(prev => prev.map((target, i) => (i === index ? { ...target, ...changes } : target)));
+  };
+
+  const addTarget = () => {
+    setTargets(prev => [...prev, {
+      name: '',
+      role: 'front_desk',
+      phone_number: '',
+      availability: 'on_duty',
+      days_of_week: [1, 2, 3, 4, 5],
+      start_time: '09:00',
+      end_time: '17:00',
+      ring_timeout_seconds: 20,
+      is_active: true,
+    }]);
+  };
+
+  const removeTarget = (index: number) => {
+    setTargets(prev => prev.filter((_, i) => i !== index));
+  };
+
+  /** Ring order is the list order */
+  const moveTarget = (index: number, direction: -1 | 1) => {
+    setTargets(prev => {
+      const next = [...prev];
+      const swap = index + direction;
+      if (swap < 0 || swap >= next.length) return prev;
+      [next[index], next[swap]] = [next[swap], next[index]];
+      return next;
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = targets[index].days_of_week;
+    updateTarget(index, {
+      days_of_week: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort(),
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/call-transfers', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targets }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setMessage({ type: 'success', text: 'Call transfer settings saved' });
+        await fetchData();
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to save call transfer settings' });
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold mb-6">Call Transfers</h1>
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-48 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Call Transfers</h1>
+        <p className="text-gray-600 mt-1">
+          Let the voice agent hand a caller to a person. Staff hear a short summary and press 1 to accept; if nobody answers, the caller can leave a voicemail.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg border flex items-center gap-3 ${
+          message.type === 'success'
+            ? 'bg-green-50 border-green-200 text-green-800'
+            : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle2 className="w-5 h-5" />
+          ) : (
+            <AlertCircle className="w-5 h-5" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PhoneForwarded className="w-5 h-5" />
+            Transfer targets
+          </CardTitle>
+          <CardDescription>
+            Numbers are tried top to bottom, starting with the role the agent asked for (e.g. on-call for an emergency). Hours use the organization&apos;s timezone; a window ending before it starts runs overnight. Retell calls go to the first available number without a summary or voicemail.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {targets.length === 0 && (
+            <p className="text-sm text-gray-500">No transfer targets. Callers asking for a person are offered to leave a message instead.</p>
+          )}
+          {targets.map((target, index) => (
+            <div key={target.id || index} className="p-3 border rounded-lg space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <Input
+                  className="w-44"
+                  placeholder="Name"
+                  value={target.name}
+                  onChange={(e) => updateTarget(index, { name: e.target.value })}
+                />
+                <Input
+                  className="w-44"
+                  placeholder="+15551234567"
+                  value={target.phone_number}
+                  onChange={(e) => updateTarget(index, { phone_number: e.target.value.trim() })}
+                />
+                <Select value={target.role} onValueChange={(value) => updateTarget(index, { role: value as TransferRole })}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROLE_LABELS) as TransferRole[]).map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`active-${index}`}
+                    checked={target.is_active}
+                    onCheckedChange={(checked) => updateTarget(index, { is_active: checked })}
+                  />
+                  <Label htmlFor={`active-${index}`} className="text-sm text-gray-600">Active</Label>
+                </div>
+                <div className="ml-auto flex items-center">
+                  <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveTarget(index, -1)}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={index === targets.length - 1} onClick={() => moveTarget(index, 1)}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-red-600" onClick={() => removeTarget(index)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={target.availability}
+                  onValueChange={(value) => updateTarget(index, { availability: value as TargetAvailability })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AVAILABILITY_LABELS) as TargetAvailability[]).map(availability => (
+                      <SelectItem key={availability} value={availability}>{AVAILABILITY_LABELS[availability]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {target.availability !== 'always' && (
+                  <>
+                    <div className="flex gap-1">
+                      {DAY_LABELS.map((label, day) => (
+                        <button
+                          key={day}
+                          type="button"
+                          onClick={() => toggleDay(index, day)}
+                          className={`px-2 py-1 text-xs rounded border ${
+                            target.days_of_week.includes(day)
+                              ? 'bg-blue-600 border-blue-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-600'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        className="w-28"
+                        value={target.start_time}
+                        onChange={(e) => updateTarget(index, { start_time: e.target.value })}
+                      />
+                      <span className="text-sm text-gray-600">to</span>
+                      <Input
+                        type="time"
+                        className="w-28"
+                        value={target.end_time}
+                        onChange={(e) => updateTarget(index, { end_time: e.target.value })}
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={5}
+                    max={60}
+                    className="w-20"
+                    value={target.ring_timeout_seconds}
+                    onChange={(e) => updateTarget(index, { ring_timeout_seconds: parseInt(e.target.value || '0', 10) })}
+                  />
+                  <span className="text-sm text-gray-600">sec ring</span>
+                </div>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addTarget}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add number
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent transfers</CardTitle>
+          <CardDescription>The last 50 transfers the agent started and how they ended</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <p className="text-sm text-gray-500">No transfers yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-3 font-medium">When</th>
+                    <th className="py-2 pr-3 font-medium">Reason</th>
+                    <th className="py-2 pr-3 font-medium">Status</th>
+                    <th className="py-2 font-medium">Answered by</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map(transfer => (
+                    <tr key={transfer.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-3 whitespace-nowrap">{new Date(transfer.created_at).toLocaleString()}</td>
+                      <td className="py-2 pr-3">
+                        <div>{transfer.reason || '—'}</div>
+                        {transfer.summary && <div className="text-xs text-gray-500">{transfer.summary}</div>}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <span className={
+                          transfer.status === 'connected' ? 'text-green-700'
+                            : transfer.status === 'failed' ? 'text-red-600'
+                            : 'text-gray-600'
+                        }>
+                          {STATUS_LABELS[transfer.status] || transfer.status}
+                        </span>
+                        {transfer.voicemail_url && (
+                          <a
+                            href={transfer.voicemail_url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="ml-2 text-blue-600 hover:underline"
+                          >
+                            Listen{transfer.voicemail_duration_seconds ? ` (${transfer.voicemail_duration_seconds}s)` : ''}
+                          </a>
+                        )}
+                      </td>
+                      <td className="py-2">{transfer.connected_number || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
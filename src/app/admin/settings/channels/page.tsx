@@ -55,6 +55,8 @@ const CHANNEL_CONFIGS = {
     supportsAgentMode: true, // Supports one/two agent modes
     settings: [
       { key: 'voice', label: 'Voice Preference', type: 'select', options: ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'], helpText: 'OpenAI voice personality (optional)' },
+      { key: 'text_ai_backend', label: 'Text Model (SMS & Supervisor)', type: 'select', options: ['openai_gpt4o', 'openai_gpt4o_mini', 'anthropic_claude'], helpText: 'Backend for SMS replies and the two-agent supervisor (default: openai_gpt4o)' },
+      { key: 'fallback_ai_backend', label: 'Fallback Text Model', type: 'select', options: ['none', 'openai_gpt4o', 'openai_gpt4o_mini', 'anthropic_claude'], helpText: 'Tried when the text model errors or times out' },
     ],
   },
   retell: {
@@ -87,7 +89,9 @@ const CHANNEL_CONFIGS = {
     defaultBackend: 'openai_gpt4o',
     requiresCredential: 'evolution_api',
     supportsAgentMode: false, // WhatsApp is always single agent
-    settings: [],
+    settings: [
+      { key: 'fallback_ai_backend', label: 'Fallback AI Backend', type: 'select', options: ['none', 'openai_gpt4o', 'openai_gpt4o_mini', 'anthropic_claude'], helpText: 'Tried when the AI backend errors or times out' },
+    ],
   },
   web: {
     name: 'Web',
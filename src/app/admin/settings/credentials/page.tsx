@@ -16,8 +16,6 @@ import {
 import { 
   Key, 
   Plus, 
-  Eye, 
-  EyeOff, 
   Trash2, 
   Check, 
   X, 
@@ -30,7 +28,8 @@ import {
   Mic,
   Settings,
   RefreshCw,
-  Pencil
+  Pencil,
+  History
 } from 'lucide-react';
 
 type CredentialType = 'openai' | 'anthropic' | 'twilio' | 'evolution_api' | 'opendental' | 'retell' | 'google_calendar' | 'other';
@@ -40,7 +39,9 @@ interface Credential {
   credential_type: CredentialType;
   credential_name: string;
   description?: string;
+  /** Secret values arrive masked (••••1234) */
   credentials: Record<string, string>;
+  encrypted?: boolean;
   is_active: boolean;
   is_default: boolean;
   last_used_at?: string;
@@ -49,6 +50,15 @@ interface Credential {
   updated_at: string;
 }
 
+interface AccessLogEntry {
+  id: string;
+  credential_id: string | null;
+  credential_type: string;
+  action: 'decrypt' | 'rotate';
+  accessed_by: string;
+  created_at: string;
+}
+
 interface CredentialField {
   key: string;
   label: string;
@@ -110,7 +120,9 @@ const credentialTemplates: Record<CredentialType, CredentialTemplate> = {
   opendental: {
     fields: [
       { key: 'api_url', label: 'API URL', type: 'url', placeholder: 'https://api.opendental.com/api/v1', required: true },
-      { key: 'api_key', label: 'API Key', type: 'password', placeholder: 'Your OpenDental key', required: true, helpText: 'ODFHIR format' },
+      { key: 'developer_key', label: 'Developer Key', type: 'password', placeholder: 'Your ODFHIR developer key', required: true },
+      { key: 'customer_key', label: 'Customer Key', type: 'password', placeholder: 'The practice\'s ODFHIR customer key', required: true },
+      { key: 'mock_mode', label: 'Mock Mode', type: 'text', placeholder: 'false', required: false, helpText: 'true to return sample data instead of calling OpenDental' },
     ],
     icon: Database,
     label: 'OpenDental',
@@ -158,7 +170,7 @@ export default function CredentialsPage() {
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
-  const [visibleSecrets, setVisibleSecrets] = useState<Record<string, boolean>>({});
+  const [accessLog, setAccessLog] = useState<AccessLogEntry[]>([]);
   const [testingId, setTestingId] = useState<string | null>(null);
   const [testResults, setTestResults] = useState<Record<string, { success: boolean; message: string }>>({});
 
@@ -172,8 +184,21 @@ export default function CredentialsPage() {
 
   useEffect(() => {
     fetchCredentials();
+    fetchAccessLog();
   }, []);
 
+  const fetchAccessLog = async () => {
+    try {
+      const response = await fetch('/api/admin/api-credentials/access-log?limit=20');
+      const data = await response.json();
+      if (data.success) {
+        setAccessLog(data.entries || []);
+      }
+    } catch (error) {
+      console.error('Error fetching credential access log:', error);
+    }
+  };
+
   const fetchCredentials = async () => {
     setLoading(true);
     try {
@@ -351,17 +376,6 @@ export default function CredentialsPage() {
     setShowForm(false);
   };
 
-  const toggleSecretVisibility = (credId: string, field: string) => {
-    const key = `${credId}-${field}`;
-    setVisibleSecrets(prev => ({ ...prev, [key]: !prev[key] }));
-  };
-
-  const maskSecret = (value: string) => {
-    if (!value) return '';
-    if (value.length <= 8) return '***';
-    return `${value.substring(0, 4)}${'*'.repeat(Math.min(value.length - 8, 20))}${value.substring(value.length - 4)}`;
-  };
-
   const isSecretField = (field: string) => {
     return field.includes('key') || field.includes('token') || field.includes('secret') || field.includes('password');
   };
@@ -416,7 +430,8 @@ export default function CredentialsPage() {
           <div className="flex gap-3">
             <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
             <div className="text-sm text-yellow-800">
-              <strong>Security Notice:</strong> API credentials are stored securely with encryption. 
+              <strong>Security Notice:</strong> API credentials are encrypted at rest and secrets are never
+              shown again after saving. Every use is recorded in the access log below.
               Rotate keys regularly and never share credentials publicly.
             </div>
           </div>
@@ -488,6 +503,11 @@ export default function CredentialsPage() {
             {credentialTemplates[formType].fields.length > 0 && (
               <div className="border-t pt-4 space-y-4">
                 <h3 className="font-medium">Required Fields</h3>
+                {editingId && (
+                  <p className="text-xs text-gray-500">
+                    Secrets are shown masked. Leave them as they are to keep the stored value, or enter a new one.
+                  </p>
+                )}
                 {credentialTemplates[formType].fields.map(field => (
                   <div key={field.key} className="space-y-2">
                     <Label>
@@ -655,10 +675,6 @@ export default function CredentialsPage() {
                         {/* Credential Fields */}
                         <div className="grid gap-2 text-sm">
                           {Object.entries(cred.credentials).map(([field, value]) => {
-                            const isSecret = isSecretField(field);
-                            const key = `${cred.id}-${field}`;
-                            const isVisible = visibleSecrets[key];
-                            
                             return (
                               <div key={field} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                                 <div className="flex-1 min-w-0">
@@ -666,19 +682,9 @@ export default function CredentialsPage() {
                                     {field.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}:
                                   </span>
                                   <span className="text-gray-900 ml-2 font-mono truncate">
-                                    {isSecret && !isVisible ? maskSecret(value) : value}
+                                    {value}
                                   </span>
                                 </div>
-                                {isSecret && (
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => toggleSecretVisibility(cred.id, field)}
-                                    className="ml-2"
-                                  >
-                                    {isVisible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                                  </Button>
-                                )}
                               </div>
                             );
                           })}
@@ -717,6 +723,42 @@ export default function CredentialsPage() {
           })}
         </div>
       )}
+
+      {/* Access Log */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Access Log
+          </CardTitle>
+          <CardDescription>Recent decryptions and which part of the system used the credential</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {accessLog.length === 0 ? (
+            <p className="text-sm text-gray-500">No credential access recorded yet.</p>
+          ) : (
+            <div className="divide-y text-sm">
+              {accessLog.map(entry => {
+                const credential = credentials.find(c => c.id === entry.credential_id);
+                return (
+                  <div key={entry.id} className="flex items-center justify-between py-2 gap-4">
+                    <div className="min-w-0">
+                      <span className="font-medium text-gray-900">
+                        {credential?.credential_name || credentialTemplates[entry.credential_type as CredentialType]?.label || entry.credential_type}
+                      </span>
+                      <span className="text-gray-500 ml-2 font-mono text-xs truncate">{entry.accessed_by}</span>
+                    </div>
+                    <div className="flex items-center gap-3 flex-shrink-0 text-xs text-gray-500">
+                      <span className={entry.action === 'rotate' ? 'text-purple-600' : ''}>{entry.action}</span>
+                      <span>{new Date(entry.created_at).toLocaleString()}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { 
   Select,
   SelectContent,
@@ -33,7 +34,10 @@ import {
   CheckCircle2,
   AlertTriangle,
   Trash2,
-  Plus
+  Plus,
+  RotateCcw,
+  Inbox,
+  Play
 } from 'lucide-react';
 
 // System vs org: Platform credentials are one-time, shared across all orgs. Org credentials are per-tenant.
@@ -95,8 +99,9 @@ const INTEGRATION_CONFIGS: Record<string, IntegrationConfig> = {
     level: 'org',
     hasSyncConfig: true,
     fields: [
-      { key: 'api_url', label: 'API Base URL', type: 'url', placeholder: 'https://api.opendental.com/api/v1/', required: true },
-      { key: 'api_key', label: 'API Key', type: 'password', placeholder: 'ODFHIR your-key-here', required: true, helpText: 'ODFHIR format from OpenDental' },
+      { key: 'api_url', label: 'API Base URL', type: 'url', placeholder: 'https://api.opendental.com/api/v1/', required: true, helpText: 'This practice\'s OpenDental API server' },
+      { key: 'developer_key', label: 'Developer Key', type: 'password', placeholder: 'ODFHIR developer key', required: true },
+      { key: 'customer_key', label: 'Customer Key', type: 'password', placeholder: 'ODFHIR customer key', required: true, helpText: 'Issued per practice by OpenDental' },
       { key: 'mock_mode', label: 'Mock Mode', type: 'select', options: ['false', 'true'], required: false, helpText: 'Use mock data instead of real API' },
     ],
     testEndpoint: '/api/admin/api-credentials/test',
@@ -134,6 +139,78 @@ const INTEGRATION_CONFIGS: Record<string, IntegrationConfig> = {
 
 type IntegrationType = keyof typeof INTEGRATION_CONFIGS;
 
+interface OutboxItem {
+  id: string;
+  integration_key: string;
+  entity_type: string;
+  entity_id: number;
+  operation: string;
+  status: 'pending' | 'processing' | 'succeeded' | 'dead_letter' | 'cancelled';
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+}
+
+type OutboxSummary = Record<OutboxItem['status'], number>;
+
+interface OpenDentalHealth {
+  status: 'connected' | 'mock' | 'not_configured' | 'error';
+  message: string;
+  baseUrl?: string;
+  latencyMs?: number;
+  checkedAt: string;
+}
+
+const OPENDENTAL_HEALTH_LABELS: Record<OpenDentalHealth['status'], { label: string; className: string }> = {
+  connected: { label: 'Connected', className: 'bg-green-100 text-green-700' },
+  mock: { label: 'Mock mode', className: 'bg-blue-100 text-blue-700' },
+  not_configured: { label: 'Keys missing', className: 'bg-gray-100 text-gray-600' },
+  error: { label: 'Unreachable', className: 'bg-red-100 text-red-700' },
+};
+
+interface ConflictFields {
+  appointment_datetime: string;
+  duration_minutes: number;
+  notes: string | null;
+  status: string;
+}
+
+interface SyncConflictItem {
+  id: string;
+  integration_key: string;
+  entity_type: string;
+  entity_id: number;
+  local_snapshot: ConflictFields & { updated_at?: string };
+  external_snapshot: ConflictFields;
+  external_updated_at: string | null;
+  created_at: string;
+}
+
+interface MappingEndpoint {
+  id: string;
+  function_name: string;
+  category: string | null;
+  response_transform: Record<string, any> | null;
+}
+
+interface MappingTestResult {
+  output: any;
+  errors: string[];
+}
+
+const EXAMPLE_RESPONSE_MAPPING = {
+  root: '$.data',
+  fields: {
+    AptNum: { path: '$.id', type: 'integer' },
+    PatNum: '$.patient.id',
+    AptDateTime: { path: '$.start', date: { to: 'YYYY-MM-DD HH:mm:ss', timezone: 'America/New_York' } },
+    AptStatus: { path: '$.status', lookup: { booked: 'Scheduled', completed: 'Complete', cancelled: 'Broken' } },
+    Length: { compute: 'duration_minutes', args: ['$.start', '$.end'] },
+  },
+};
+
 interface CredentialData {
   id?: string;
   credential_type: string;
@@ -168,6 +245,18 @@ export default function IntegrationsPage() {
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [testResults, setTestResults] = useState<Record<string, { success: boolean; message: string }>>({});
   const [hasGoogleOAuthAppConfigured, setHasGoogleOAuthAppConfigured] = useState(false);
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [outboxSummary, setOutboxSummary] = useState<OutboxSummary | null>(null);
+  const [outboxBusy, setOutboxBusy] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflictItem[]>([]);
+  const [openDentalHealth, setOpenDentalHealth] = useState<OpenDentalHealth | null>(null);
+  const [checkingHealth, setCheckingHealth] = useState(false);
+  const [mappingEndpoints, setMappingEndpoints] = useState<MappingEndpoint[]>([]);
+  const [mappingEndpointId, setMappingEndpointId] = useState<string>('');
+  const [mappingText, setMappingText] = useState(JSON.stringify(EXAMPLE_RESPONSE_MAPPING, null, 2));
+  const [mappingSample, setMappingSample] = useState('');
+  const [mappingResult, setMappingResult] = useState<MappingTestResult | null>(null);
+  const [mappingBusy, setMappingBusy] = useState<'test' | 'save' | null>(null);
 
   useEffect(() => {
     fetchData();
@@ -193,7 +282,11 @@ export default function IntegrationsPage() {
       const [credResponse, syncResponse, oauthStatusResponse] = await Promise.all([
         fetch('/api/admin/api-credentials'),
         fetch('/api/admin/integration-settings'),
-        fetch('/api/integrations/google-calendar/oauth-status')
+        fetch('/api/integrations/google-calendar/oauth-status'),
+        fetchOutbox(),
+        fetchConflicts(),
+        fetchMappingEndpoints(),
+        fetchOpenDentalHealth()
       ]);
 
       const [credData, syncData, oauthStatusData] = await Promise.all([
@@ -251,6 +344,190 @@ export default function IntegrationsPage() {
     }
   };
 
+  const fetchOutbox = async () => {
+    try {
+      const response = await fetch('/api/admin/sync-outbox?status=pending,processing,dead_letter');
+      const data = await response.json();
+      if (data.success) {
+        setOutboxItems(data.items || []);
+        setOutboxSummary(data.summary);
+      }
+    } catch (error) {
+      console.error('Error fetching sync outbox:', error);
+    }
+  };
+
+  const fetchOpenDentalHealth = async () => {
+    setCheckingHealth(true);
+    try {
+      const response = await fetch('/api/admin/opendental-health');
+      const data = await response.json();
+      if (data.success) {
+        setOpenDentalHealth(data.health);
+      }
+    } catch (error) {
+      console.error('Error checking OpenDental connection:', error);
+    } finally {
+      setCheckingHealth(false);
+    }
+  };
+
+  const fetchConflicts = async () => {
+    try {
+      const response = await fetch('/api/admin/sync-conflicts?status=open');
+      const data = await response.json();
+      if (data.success) {
+        setConflicts(data.conflicts || []);
+      }
+    } catch (error) {
+      console.error('Error fetching sync conflicts:', error);
+    }
+  };
+
+  const handleResolveConflict = async (conflictId: string, action: 'keep_local' | 'keep_external' | 'dismiss') => {
+    setOutboxBusy(conflictId);
+    try {
+      const response = await fetch(`/api/admin/sync-conflicts/${conflictId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setMessage({ type: 'success', text: 'Conflict resolved' });
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to resolve conflict' });
+      }
+      await Promise.all([fetchConflicts(), fetchOutbox()]);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setOutboxBusy(null);
+    }
+  };
+
+  const describeConflictFields = (fields: ConflictFields) => {
+    const when = String(fields.appointment_datetime || '').replace('T', ' ').substring(0, 16);
+    return `${when} · ${fields.duration_minutes} min · ${fields.status}${fields.notes ? ` · ${fields.notes}` : ''}`;
+  };
+
+  const fetchMappingEndpoints = async () => {
+    try {
+      const response = await fetch('/api/admin/integration-mappings?provider=opendental');
+      const data = await response.json();
+      if (data.success) {
+        setMappingEndpoints(data.endpoints || []);
+      }
+    } catch (error) {
+      console.error('Error fetching integration mappings:', error);
+    }
+  };
+
+  const handleSelectMappingEndpoint = (endpointId: string) => {
+    setMappingEndpointId(endpointId);
+    setMappingResult(null);
+    const endpoint = mappingEndpoints.find(e => e.id === endpointId);
+    if (endpoint?.response_transform) {
+      setMappingText(JSON.stringify(endpoint.response_transform, null, 2));
+    }
+  };
+
+  /** Parse the console's JSON boxes; reports parse errors in the result panel */
+  const parseMappingInputs = (): { mapping: any; sample: any } | null => {
+    try {
+      const mapping = JSON.parse(mappingText);
+      const sample = mappingSample.trim() ? JSON.parse(mappingSample) : null;
+      return { mapping, sample };
+    } catch (error: any) {
+      setMappingResult({ output: null, errors: [`Invalid JSON: ${error.message}`] });
+      return null;
+    }
+  };
+
+  const handleTestMapping = async () => {
+    const inputs = parseMappingInputs();
+    if (!inputs) return;
+
+    setMappingBusy('test');
+    try {
+      const response = await fetch('/api/admin/integration-mappings/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(inputs),
+      });
+      const data = await response.json();
+      setMappingResult({ output: data.output ?? null, errors: data.errors || (data.error ? [data.error] : []) });
+    } catch (error: any) {
+      setMappingResult({ output: null, errors: [error.message] });
+    } finally {
+      setMappingBusy(null);
+    }
+  };
+
+  const handleSaveMapping = async () => {
+    const inputs = parseMappingInputs();
+    if (!inputs || !mappingEndpointId) return;
+
+    setMappingBusy('save');
+    try {
+      const response = await fetch(`/api/admin/integration-mappings/${mappingEndpointId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response_transform: inputs.mapping }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setMessage({ type: 'success', text: `Response mapping saved for ${data.endpoint.function_name}` });
+        await fetchMappingEndpoints();
+      } else {
+        setMappingResult({ output: null, errors: data.errors || [data.error || 'Failed to save mapping'] });
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setMappingBusy(null);
+    }
+  };
+
+  const handleOutboxAction = async (itemId: string, action: 'replay' | 'cancel') => {
+    setOutboxBusy(itemId);
+    try {
+      const response = await fetch(`/api/admin/sync-outbox/${itemId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setMessage({ type: 'error', text: data.error || `Failed to ${action} sync item` });
+      }
+      await fetchOutbox();
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setOutboxBusy(null);
+    }
+  };
+
+  const handleProcessOutbox = async () => {
+    setOutboxBusy('all');
+    try {
+      const response = await fetch('/api/admin/sync-outbox/process', { method: 'POST' });
+      const data = await response.json();
+      if (data.success) {
+        const { processed, succeeded } = data.result;
+        setMessage({ type: 'success', text: `Retried ${processed} sync item(s), ${succeeded} succeeded` });
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to process sync queue' });
+      }
+      await fetchOutbox();
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setOutboxBusy(null);
+    }
+  };
+
   const toggleExpand = (type: string) => {
     if (expandedIntegration === type) {
       setExpandedIntegration(null);
@@ -512,6 +789,14 @@ export default function IntegrationsPage() {
                       </div>
                       
                       <div className="flex items-center gap-3">
+                        {integration.key === 'opendental' && openDentalHealth && (
+                          <span
+                            className={`text-xs px-1.5 py-0.5 rounded ${OPENDENTAL_HEALTH_LABELS[openDentalHealth.status].className}`}
+                            title={openDentalHealth.message}
+                          >
+                            {OPENDENTAL_HEALTH_LABELS[openDentalHealth.status].label}
+                          </span>
+                        )}
                         {isConfigured ? (
                           <span className="flex items-center gap-1.5 text-sm text-green-600">
                             <CheckCircle2 className="w-4 h-4" />
@@ -634,6 +919,29 @@ export default function IntegrationsPage() {
                                 </Select>
                               </div>
 
+                              {(syncConfig.sync_direction === 'from_external' || syncConfig.sync_direction === 'bidirectional') && (
+                                <div className="space-y-1.5">
+                                  <Label>When both sides changed</Label>
+                                  <Select
+                                    value={syncConfig.conflict_resolution}
+                                    onValueChange={(v) => updateSyncConfig(integration.key, { conflict_resolution: v })}
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="external_wins">External wins</SelectItem>
+                                      <SelectItem value="local_wins">Local wins</SelectItem>
+                                      <SelectItem value="latest_timestamp">Most recent change wins</SelectItem>
+                                      <SelectItem value="manual">Manual review</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-xs text-gray-500">
+                                    Applies when a record was edited here and in {integration.name} since the last sync. Manual review queues it below.
+                                  </p>
+                                </div>
+                              )}
+
                               {syncConfig.last_sync_at && (
                                 <p className="text-xs text-gray-500">
                                   Last sync: {new Date(syncConfig.last_sync_at).toLocaleString()}
@@ -649,6 +957,26 @@ export default function IntegrationsPage() {
                         </div>
                       )}
 
+                      {/* OpenDental Connection Health */}
+                      {integration.key === 'opendental' && openDentalHealth && (
+                        <div className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+                          <div className="space-y-0.5">
+                            <p className="text-sm font-medium text-gray-900">
+                              Connection: {OPENDENTAL_HEALTH_LABELS[openDentalHealth.status].label}
+                            </p>
+                            <p className="text-xs text-gray-500">{openDentalHealth.message}</p>
+                            <p className="text-xs text-gray-500">
+                              {openDentalHealth.baseUrl && <>{openDentalHealth.baseUrl} · </>}
+                              {openDentalHealth.latencyMs !== undefined && <>{openDentalHealth.latencyMs} ms · </>}
+                              Checked {new Date(openDentalHealth.checkedAt).toLocaleTimeString()}
+                            </p>
+                          </div>
+                          <Button variant="ghost" size="sm" onClick={fetchOpenDentalHealth} disabled={checkingHealth}>
+                            <RefreshCw className={`w-4 h-4 ${checkingHealth ? 'animate-spin' : ''}`} />
+                          </Button>
+                        </div>
+                      )}
+
                       {/* Test Result */}
                       {testResults[integration.key] && (
                         <div className={`p-3 rounded-lg border ${
@@ -717,7 +1045,7 @@ export default function IntegrationsPage() {
                                   });
                                   const data = await res.json();
                                   if (data.success) {
-                                    setMessage({ type: 'success', text: `Synced: ${data.created} created, ${data.updated} updated, ${data.cancelled} cancelled` });
+                                    setMessage({ type: 'success', text: `Synced: ${data.created} created, ${data.updated} updated, ${data.cancelled} cancelled${data.conflicts ? `, ${data.conflicts} conflict(s) to review` : ''}` });
                                     fetchData();
                                   } else {
                                     setMessage({ type: 'error', text: data.error || 'Sync failed' });
@@ -781,6 +1109,232 @@ export default function IntegrationsPage() {
         </div>
       ))}
 
+      {/* Sync Queue - external writes waiting for retry or in dead letter */}
+      <div className="space-y-3">
+        <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Sync Queue</h2>
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Inbox className="w-5 h-5" />
+                  Pending &amp; failed syncs
+                </CardTitle>
+                <CardDescription>
+                  Writes to OpenDental and Google Calendar are retried with backoff. Items that exhaust their attempts land in dead letter until replayed.
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleProcessOutbox}
+                disabled={outboxBusy !== null || !outboxSummary?.pending}
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${outboxBusy === 'all' ? 'animate-spin' : ''}`} />
+                Retry due now
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {outboxSummary && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                <span className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">Pending: {outboxSummary.pending + outboxSummary.processing}</span>
+                <span className="px-2 py-1 rounded bg-red-100 text-red-800">Dead letter: {outboxSummary.dead_letter}</span>
+                <span className="px-2 py-1 rounded bg-green-100 text-green-800">Succeeded: {outboxSummary.succeeded}</span>
+                <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">Cancelled: {outboxSummary.cancelled}</span>
+              </div>
+            )}
+
+            {outboxItems.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing waiting – all external syncs are up to date.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-3 font-medium">Integration</th>
+                      <th className="py-2 pr-3 font-medium">Operation</th>
+                      <th className="py-2 pr-3 font-medium">Status</th>
+                      <th className="py-2 pr-3 font-medium">Attempts</th>
+                      <th className="py-2 pr-3 font-medium">Last error</th>
+                      <th className="py-2 font-medium"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {outboxItems.map(item => (
+                      <tr key={item.id} className="border-b last:border-0 align-top">
+                        <td className="py-2 pr-3">{INTEGRATION_CONFIGS[item.integration_key]?.name || item.integration_key}</td>
+                        <td className="py-2 pr-3 whitespace-nowrap">
+                          {item.operation} {item.entity_type} #{item.entity_id}
+                        </td>
+                        <td className="py-2 pr-3 whitespace-nowrap">
+                          {item.status === 'dead_letter' ? (
+                            <span className="text-red-600 font-medium">Dead letter</span>
+                          ) : (
+                            <span className="text-yellow-700">
+                              {item.status === 'processing' ? 'Processing' : `Next ${new Date(item.next_attempt_at).toLocaleString()}`}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">{item.attempts}/{item.max_attempts}</td>
+                        <td className="py-2 pr-3 text-xs text-gray-600 max-w-xs break-words">{item.last_error || '—'}</td>
+                        <td className="py-2 whitespace-nowrap text-right">
+                          {item.status !== 'processing' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleOutboxAction(item.id, 'replay')}
+                                disabled={outboxBusy !== null}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Replay
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600"
+                                onClick={() => handleOutboxAction(item.id, 'cancel')}
+                                disabled={outboxBusy !== null}
+                              >
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Sync Conflicts - records changed on both sides (manual resolution) */}
+      {conflicts.length > 0 && (
+        <Card className="border-amber-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-amber-600" />
+              Sync conflicts ({conflicts.length})
+            </CardTitle>
+            <CardDescription>
+              These records were changed here and in the external calendar since the last sync. Choose which version to keep.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {conflicts.map(conflict => (
+              <div key={conflict.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">
+                    {INTEGRATION_CONFIGS[conflict.integration_key]?.name || conflict.integration_key} · {conflict.entity_type} #{conflict.entity_id}
+                  </p>
+                  <span className="text-xs text-gray-500">{new Date(conflict.created_at).toLocaleString()}</span>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                  <div className="p-2 bg-gray-50 rounded">
+                    <p className="font-medium text-gray-700">Local</p>
+                    <p className="text-gray-600">{describeConflictFields(conflict.local_snapshot)}</p>
+                  </div>
+                  <div className="p-2 bg-blue-50 rounded">
+                    <p className="font-medium text-blue-800">External</p>
+                    <p className="text-blue-700">{describeConflictFields(conflict.external_snapshot)}</p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" disabled={outboxBusy !== null} onClick={() => handleResolveConflict(conflict.id, 'keep_local')}>
+                    Keep local
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={outboxBusy !== null} onClick={() => handleResolveConflict(conflict.id, 'keep_external')}>
+                    Keep external
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={outboxBusy !== null} onClick={() => handleResolveConflict(conflict.id, 'dismiss')}>
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Response Mapping - normalize vendor responses into OpenDental-shaped records */}
+      <div className="space-y-3">
+        <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Response Mapping</h2>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="w-5 h-5" />
+              Mapping test console
+            </CardTitle>
+            <CardDescription>
+              Map a vendor response to our format (AptNum, PatNum, ...) with paths like <code>$.data[*].id</code>, lookups, date/timezone conversion and computed fields. Paste a sample response and run the mapping before saving it to an endpoint.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Endpoint</Label>
+              <Select value={mappingEndpointId} onValueChange={handleSelectMappingEndpoint}>
+                <SelectTrigger className="max-w-sm">
+                  <SelectValue placeholder={mappingEndpoints.length ? 'Select an endpoint to edit' : 'No OpenDental endpoints configured'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {mappingEndpoints.map(endpoint => (
+                    <SelectItem key={endpoint.id} value={endpoint.id}>
+                      {endpoint.function_name}{endpoint.response_transform ? ' (mapped)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Mapping (JSON)</Label>
+                <Textarea
+                  className="font-mono text-xs min-h-[260px]"
+                  value={mappingText}
+                  onChange={(e) => setMappingText(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Sample vendor response (JSON)</Label>
+                <Textarea
+                  className="font-mono text-xs min-h-[260px]"
+                  placeholder='{ "data": [{ "id": "42", "patient": { "id": 7 }, "start": "2026-03-10T14:00:00Z", "end": "2026-03-10T14:30:00Z", "status": "booked" }] }'
+                  value={mappingSample}
+                  onChange={(e) => setMappingSample(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleTestMapping} disabled={mappingBusy !== null}>
+                <Play className="w-4 h-4 mr-2" />
+                {mappingBusy === 'test' ? 'Running...' : 'Run mapping'}
+              </Button>
+              <Button size="sm" onClick={handleSaveMapping} disabled={mappingBusy !== null || !mappingEndpointId}>
+                <Save className="w-4 h-4 mr-2" />
+                {mappingBusy === 'save' ? 'Saving...' : 'Save to endpoint'}
+              </Button>
+            </div>
+            {mappingResult && (
+              mappingResult.errors.length > 0 ? (
+                <div className="p-3 rounded-lg bg-red-50 text-red-800 text-xs space-y-1">
+                  {mappingResult.errors.map((error, i) => (
+                    <p key={i}>{error}</p>
+                  ))}
+                </div>
+              ) : (
+                <pre className="p-3 rounded-lg bg-gray-50 text-xs overflow-x-auto max-h-80">
+                  {JSON.stringify(mappingResult.output, null, 2)}
+                </pre>
+              )
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Help Section */}
       <Card className="bg-blue-50 border-blue-200">
         <CardContent className="pt-6">
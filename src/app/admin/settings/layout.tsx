@@ -17,8 +17,11 @@ import {
   Globe,
   FlaskConical,
   Bell,
+  BellRing,
   Phone,
-  Shield
+  PhoneForwarded,
+  Shield,
+  Gauge
 } from 'lucide-react';
 import { useAuth } from '@/app/contexts/AuthContext';
 import { useOrganization } from '@/app/contexts/OrganizationContext';
@@ -47,6 +50,12 @@ export default function SettingsLayout({
       icon: Building2,
       description: 'Business info, branding, industry type'
     },
+    { 
+      href: '/admin/settings/usage', 
+      label: 'Usage & Limits', 
+      icon: Gauge,
+      description: 'Plan seats, monthly usage & quotas'
+    },
     { 
       href: '/admin/settings/phone-numbers', 
       label: 'Phone Numbers', 
@@ -78,6 +87,18 @@ export default function SettingsLayout({
       icon: Bell,
       description: 'Email alerts, call ended notifications'
     },
+    { 
+      href: '/admin/settings/reminders', 
+      label: 'Reminders', 
+      icon: BellRing,
+      description: 'Patient reminders & confirmations'
+    },
+    { 
+      href: '/admin/settings/call-transfers', 
+      label: 'Call Transfers', 
+      icon: PhoneForwarded,
+      description: 'Front desk, on-call & voicemail'
+    },
     // { 
     //   href: '/admin/settings/whatsapp', 
     //   label: 'WhatsApp', 
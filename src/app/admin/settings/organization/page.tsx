@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
@@ -487,7 +488,9 @@ export default function OrganizationSettingsPage() {
             </Button>
           </div>
           <p className="text-xs text-gray-500 mt-2">
-            Contact support to upgrade or modify your subscription.
+            Contact support to upgrade or modify your subscription. See{' '}
+            <Link href="/admin/settings/usage" className="text-blue-600 hover:underline">Usage &amp; Limits</Link>
+            {' '}for seats and this month&apos;s usage.
           </p>
         </CardContent>
       </Card>
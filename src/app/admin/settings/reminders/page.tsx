@@ -0,0 +1,417 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BellRing,
+  Save,
+  Plus,
+  Trash2,
+  CheckCircle2,
+  AlertCircle,
+  MessageSquare,
+} from 'lucide-react';
+
+type ReminderChannel = 'sms' | 'whatsapp' | 'email';
+
+interface ReminderRule {
+  offset_minutes: number;
+  channel: ReminderChannel;
+  request_confirmation: boolean;
+  is_active: boolean;
+}
+
+interface TemplateOverride {
+  template_key: string;
+  channel: ReminderChannel | null;
+  language: string;
+  subject: string | null;
+  body: string;
+}
+
+interface RecentReminder {
+  id: number;
+  channel: ReminderChannel;
+  recipient: string | null;
+  status: string;
+  error: string | null;
+  response: string | null;
+  sent_at: string | null;
+  created_at: string;
+  appointments: {
+    appointment_datetime: string;
+    status: string;
+    confirmation_status: string;
+    patients: { first_name: string; last_name: string } | null;
+  } | null;
+}
+
+const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  sms: 'SMS',
+  whatsapp: 'WhatsApp (buttons)',
+  email: 'Email',
+};
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  appointment_reminder: 'Reminder',
+  reminder_confirmed: 'Reply: confirmed',
+  reminder_reschedule: 'Reply: reschedule',
+  reminder_cancelled: 'Reply: cancelled',
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+};
+
+const RESPONSE_LABELS: Record<string, string> = {
+  confirmed: 'Confirmed',
+  reschedule: 'Wants to reschedule',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Appointment reminder settings: schedule, channels and message texts
+ */
+export default function RemindersSettingsPage() {
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const [templates, setTemplates] = useState<TemplateOverride[]>([]);
+  const [defaults, setDefaults] = useState<Record<string, Record<string, { subject?: string; body: string }>>>({});
+  const [languages, setLanguages] = useState<string[]>(['en']);
+  const [defaultLanguage, setDefaultLanguage] = useState('en');
+  const [editLanguage, setEditLanguage] = useState('en');
+  const [recent, setRecent] = useState<RecentReminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/reminders');
+      const data = await response.json();
+      if (data.success) {
+        setRules(data.rules || []);
+        setTemplates(data.templates || []);
+        setDefaults(data.defaults || {});
+        setLanguages(data.languages || ['en']);
+        setDefaultLanguage(data.defaultLanguage || 'en');
+        setEditLanguage(data.defaultLanguage || 'en');
+        setRecent(data.recent || []);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to load reminder settings' });
+      }
+    } catch (error) {
+      console.error('Error fetching reminder settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRule = (index: number, changes: Partial<ReminderRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    setRules(prev => [...prev, { offset_minutes: 24 * 60, channel: 'sms', request_confirmation: true, is_active: true }]);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index));
+  };
+
+  /** Channel-less override for the language being edited (channel-specific ones are API-only) */
+  const getOverride = (key: string) =>
+    templates.find(t => t.template_key === key && !t.channel && t.language === editLanguage);
+
+  const setOverride = (key: string, changes: Partial<TemplateOverride>) => {
+    setTemplates(prev => {
+      const existing = prev.find(t => t.template_key === key && !t.channel && t.language === editLanguage);
+      const next = existing
+        ? prev.map(t => (t === existing ? { ...t, ...changes } : t))
+        : [...prev, { template_key: key, channel: null, language: editLanguage, subject: null, body: '', ...changes }];
+      // An empty body means "use the built-in text"
+      return next.filter(t => t.body.trim() !== '' || (t.subject || '').trim() !== '');
+    });
+  };
+
+  const handleSave = async () => {
+    const duplicate = rules.find((rule, i) =>
+      rules.findIndex(other => other.offset_minutes === rule.offset_minutes && other.channel === rule.channel) !== i
+    );
+    if (duplicate) {
+      setMessage({ type: 'error', text: 'Each reminder time can only be used once per channel' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/admin/reminders', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rules,
+          templates: templates.map(t => ({ ...t, body: t.body.trim() || defaults[t.language]?.[t.template_key]?.body || '' })),
+          default_language: defaultLanguage,
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setMessage({ type: 'success', text: 'Reminder settings saved' });
+        await fetchData();
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to save reminder settings' });
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold mb-6">Appointment Reminders</h1>
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-48 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Appointment Reminders</h1>
+        <p className="text-gray-600 mt-1">
+          Remind patients of upcoming appointments and let them confirm, reschedule or cancel by replying
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg border flex items-center gap-3 ${
+          message.type === 'success'
+            ? 'bg-green-50 border-green-200 text-green-800'
+            : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle2 className="w-5 h-5" />
+          ) : (
+            <AlertCircle className="w-5 h-5" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      {/* Schedule */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="w-5 h-5" />
+            Schedule
+          </CardTitle>
+          <CardDescription>
+            Each reminder is sent once per appointment. If a booking is made after a reminder time has passed, only the closest reminder is sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500">No reminders configured. Patients receive no messages before their appointment.</p>
+          )}
+          {rules.map((rule, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3 p-3 border rounded-lg">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  className="w-24"
+                  value={rule.offset_minutes / 60}
+                  onChange={(e) => updateRule(index, { offset_minutes: Math.round(parseFloat(e.target.value || '0') * 60) })}
+                />
+                <span className="text-sm text-gray-600">hours before</span>
+              </div>
+              <Select value={rule.channel} onValueChange={(value) => updateRule(index, { channel: value as ReminderChannel })}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHANNEL_LABELS) as ReminderChannel[]).map(channel => (
+                    <SelectItem key={channel} value={channel}>{CHANNEL_LABELS[channel]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`confirm-${index}`}
+                  checked={rule.request_confirmation}
+                  onCheckedChange={(checked) => updateRule(index, { request_confirmation: checked })}
+                />
+                <Label htmlFor={`confirm-${index}`} className="text-sm text-gray-600">Ask to confirm</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`active-${index}`}
+                  checked={rule.is_active}
+                  onCheckedChange={(checked) => updateRule(index, { is_active: checked })}
+                />
+                <Label htmlFor={`active-${index}`} className="text-sm text-gray-600">Active</Label>
+              </div>
+              <Button variant="ghost" size="sm" className="ml-auto text-red-600" onClick={() => removeRule(index)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addRule}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add reminder
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Templates */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5" />
+            Messages
+          </CardTitle>
+          <CardDescription>
+            Leave a field empty to use the built-in text. Placeholders: {'{{patient_first_name}}'}, {'{{organization_name}}'}, {'{{date}}'}, {'{{time}}'}, {'{{provider_name}}'}, {'{{reply_instructions}}'}, {'{{link}}'}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Default language</Label>
+              <Select value={defaultLanguage} onValueChange={setDefaultLanguage}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {languages.map(language => (
+                    <SelectItem key={language} value={language}>{LANGUAGE_LABELS[language] || language}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">Used when the patient has no preferred language</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Editing texts for</Label>
+              <Select value={editLanguage} onValueChange={setEditLanguage}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {languages.map(language => (
+                    <SelectItem key={language} value={language}>{LANGUAGE_LABELS[language] || language}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {Object.keys(TEMPLATE_LABELS).map(key => {
+            const override = getOverride(key);
+            const builtIn = defaults[editLanguage]?.[key];
+            return (
+              <div key={key} className="space-y-2">
+                <Label>{TEMPLATE_LABELS[key]}</Label>
+                {key === 'appointment_reminder' && (
+                  <Input
+                    placeholder={builtIn?.subject || 'Email subject'}
+                    value={override?.subject || ''}
+                    onChange={(e) => setOverride(key, { subject: e.target.value })}
+                  />
+                )}
+                <Textarea
+                  className="text-sm"
+                  placeholder={builtIn?.body}
+                  value={override?.body || ''}
+                  onChange={(e) => setOverride(key, { body: e.target.value })}
+                />
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </div>
+
+      {/* Recent reminders */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent reminders</CardTitle>
+          <CardDescription>The last 50 reminders sent and how patients answered</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <p className="text-sm text-gray-500">No reminders sent yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-3 font-medium">Patient</th>
+                    <th className="py-2 pr-3 font-medium">Appointment</th>
+                    <th className="py-2 pr-3 font-medium">Channel</th>
+                    <th className="py-2 pr-3 font-medium">Status</th>
+                    <th className="py-2 font-medium">Answer</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map(reminder => (
+                    <tr key={reminder.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-3">
+                        {reminder.appointments?.patients
+                          ? `${reminder.appointments.patients.first_name} ${reminder.appointments.patients.last_name}`
+                          : '—'}
+                      </td>
+                      <td className="py-2 pr-3 whitespace-nowrap">
+                        {String(reminder.appointments?.appointment_datetime || '').replace('T', ' ').substring(0, 16)}
+                      </td>
+                      <td className="py-2 pr-3">{CHANNEL_LABELS[reminder.channel]}</td>
+                      <td className="py-2 pr-3">
+                        {reminder.status === 'failed' ? (
+                          <span className="text-red-600" title={reminder.error || ''}>Failed</span>
+                        ) : reminder.status === 'sent' ? (
+                          <span className="text-green-700">Sent {reminder.sent_at ? new Date(reminder.sent_at).toLocaleString() : ''}</span>
+                        ) : (
+                          <span className="text-gray-600">{reminder.status}</span>
+                        )}
+                      </td>
+                      <td className="py-2">{reminder.response ? RESPONSE_LABELS[reminder.response] : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Gauge,
+  Users,
+  RefreshCw,
+  CheckCircle2,
+  AlertCircle,
+  AlertTriangle,
+  Clock,
+} from 'lucide-react';
+import { useOrganization } from '@/app/contexts/OrganizationContext';
+
+type SeatResource = 'users' | 'providers' | 'whatsapp_instances';
+type UsageMetric = 'call_minutes' | 'messages' | 'llm_tokens';
+type LimitState = 'ok' | 'soft' | 'hard';
+type AccountState = 'active' | 'trial' | 'trial_expired' | 'suspended' | 'cancelled';
+
+interface LimitStatus {
+  used: number;
+  limit: number | null;
+  ratio: number | null;
+  state: LimitState;
+  overage: number;
+}
+
+interface PlanDefinition {
+  id: string;
+  label: string;
+  quotas: Record<UsageMetric, number | null>;
+  overageAllowed: boolean;
+}
+
+interface UsageData {
+  entitlements: {
+    plan: PlanDefinition;
+    accountState: AccountState;
+    trialEndsAt: string | null;
+  };
+  period: { start: string; end: string };
+  seats: Record<SeatResource, LimitStatus>;
+  usage: Record<UsageMetric, LimitStatus>;
+  estimatedTokens: number;
+  lastMeteredAt: string | null;
+  plans: PlanDefinition[];
+  softLimitRatio: number;
+}
+
+const SEAT_LABELS: Record<SeatResource, string> = {
+  users: 'Team members',
+  providers: 'Active providers',
+  whatsapp_instances: 'WhatsApp numbers',
+};
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  call_minutes: 'Call minutes',
+  messages: 'Text messages',
+  llm_tokens: 'AI tokens',
+};
+
+const BAR_COLORS: Record<LimitState, string> = {
+  ok: 'bg-blue-600',
+  soft: 'bg-amber-500',
+  hard: 'bg-red-600',
+};
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const formatDate = (value: string) =>
+  new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Plan usage & limits: seats, metered usage this month and what happens at the limit
+ */
+export default function UsageSettingsPage() {
+  const { currentOrganization } = useOrganization();
+  const [data, setData] = useState<UsageData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [metering, setMetering] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const canRecalculate = ['owner', 'admin'].includes(currentOrganization?.role || '');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/usage');
+      const result = await response.json();
+      if (result.success) {
+        setData(result);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to load usage' });
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    setMetering(true);
+    try {
+      const response = await fetch('/api/admin/usage', { method: 'POST' });
+      const result = await response.json();
+      if (result.success) {
+        setData(result);
+        setMessage({ type: 'success', text: 'Usage recalculated for this billing period' });
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to recalculate usage' });
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setMetering(false);
+    }
+  };
+
+  const renderLimit = (label: string, status: LimitStatus, hardText: string) => (
+    <div key={label} className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900">{label}</span>
+        <span className="text-gray-600">
+          {formatNumber(status.used)} / {status.limit === null ? 'Unlimited' : formatNumber(status.limit)}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className={`h-full ${BAR_COLORS[status.state]}`}
+          style={{ width: `${status.ratio === null ? 0 : Math.min(100, Math.round(status.ratio * 100))}%` }}
+        />
+      </div>
+      {status.state === 'hard' && (
+        <p className="text-xs text-red-600">{hardText}</p>
+      )}
+      {status.state === 'soft' && status.overage > 0 && (
+        <p className="text-xs text-amber-600">{formatNumber(status.overage)} over the included amount, billed as overage</p>
+      )}
+      {status.state === 'soft' && status.overage === 0 && (
+        <p className="text-xs text-amber-600">Approaching the limit</p>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold mb-6">Usage & Limits</h1>
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-48 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const plan = data?.entitlements.plan;
+  const accountState = data?.entitlements.accountState;
+  const softPercent = Math.round((data?.softLimitRatio || 0.8) * 100);
+
+  return (
+    <div className="p-6 space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Usage & Limits</h1>
+        <p className="text-gray-600 mt-1">
+          What your plan includes and how much of it this organization has used
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg border flex items-center gap-3 ${
+          message.type === 'success'
+            ? 'bg-green-50 border-green-200 text-green-800'
+            : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle2 className="w-5 h-5" />
+          ) : (
+            <AlertCircle className="w-5 h-5" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      {data && plan && (
+        <>
+          {/* Account */}
+          {accountState === 'trial' && data.entitlements.trialEndsAt && (
+            <div className="p-4 rounded-lg border flex items-center gap-3 bg-blue-50 border-blue-200 text-blue-800">
+              <Clock className="w-5 h-5" />
+              Your trial ends on {formatDate(data.entitlements.trialEndsAt)}. Usage past the plan&apos;s quotas is blocked until you upgrade.
+            </div>
+          )}
+          {(accountState === 'trial_expired' || accountState === 'suspended' || accountState === 'cancelled') && (
+            <div className="p-4 rounded-lg border flex items-center gap-3 bg-red-50 border-red-200 text-red-800">
+              <AlertTriangle className="w-5 h-5" />
+              {accountState === 'trial_expired'
+                ? 'Your trial has ended.'
+                : `This organization is ${accountState}.`}
+              {' '}No members, providers or WhatsApp numbers can be added, and SMS and WhatsApp messages go to staff instead of the AI agent.
+            </div>
+          )}
+
+          {/* Seats */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Seats
+                <Badge variant="outline" className="ml-2">{plan.label} plan</Badge>
+              </CardTitle>
+              <CardDescription>
+                Invited members count toward team members. Adding more than the limit is blocked.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {(Object.keys(SEAT_LABELS) as SeatResource[]).map(resource =>
+                renderLimit(SEAT_LABELS[resource], data.seats[resource], 'Limit reached. Remove one or upgrade your plan to add more.')
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Metered usage */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Gauge className="w-5 h-5" />
+                    This Month
+                  </CardTitle>
+                  <CardDescription className="mt-1.5">
+                    {formatDate(data.period.start)} to {formatDate(data.period.end)} (UTC).
+                    {data.lastMeteredAt
+                      ? ` Last updated ${new Date(data.lastMeteredAt).toLocaleString()}.`
+                      : ' Not metered yet.'}
+                  </CardDescription>
+                </div>
+                {canRecalculate && (
+                  <Button variant="outline" size="sm" onClick={handleRecalculate} disabled={metering}>
+                    <RefreshCw className={`w-4 h-4 mr-2 ${metering ? 'animate-spin' : ''}`} />
+                    Recalculate
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {(Object.keys(METRIC_LABELS) as UsageMetric[]).map(metric =>
+                renderLimit(METRIC_LABELS[metric], data.usage[metric], 'Monthly limit reached. SMS and WhatsApp messages go to staff instead of the AI agent until next month or an upgrade.')
+              )}
+              {data.estimatedTokens > 0 && (
+                <p className="text-xs text-gray-500">
+                  {formatNumber(data.estimatedTokens)} AI tokens are estimated from transcripts for channels that don&apos;t report token usage.
+                </p>
+              )}
+              <p className="text-xs text-gray-500">
+                You&apos;ll see a warning from {softPercent}% of a limit.{' '}
+                {plan.overageAllowed && accountState === 'active'
+                  ? 'Past a monthly limit the agents keep working and the extra usage is billed as overage.'
+                  : 'Past a monthly limit the AI agent stops answering text channels.'}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Plans */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Plans</CardTitle>
+              <CardDescription>Monthly amounts included in each plan. Contact support to upgrade.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 font-medium">Plan</th>
+                    {(Object.keys(METRIC_LABELS) as UsageMetric[]).map(metric => (
+                      <th key={metric} className="py-2 font-medium">{METRIC_LABELS[metric]}</th>
+                    ))}
+                    <th className="py-2 font-medium">Over the limit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.plans.map(option => (
+                    <tr key={option.id} className={`border-b last:border-0 ${option.id === plan.id ? 'bg-blue-50 font-medium' : ''}`}>
+                      <td className="py-2">{option.label}</td>
+                      {(Object.keys(METRIC_LABELS) as UsageMetric[]).map(metric => (
+                        <td key={metric} className="py-2">
+                          {option.quotas[metric] === null ? 'Unlimited' : formatNumber(option.quotas[metric] as number)}
+                        </td>
+                      ))}
+                      <td className="py-2">{option.overageAllowed ? 'Billed as overage' : 'Blocked'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useOrganization } from '@/app/contexts/OrganizationContext';
+import Link from 'next/link';
 
 interface WhatsAppInstance {
   id: string;
@@ -35,6 +36,7 @@ export default function WhatsAppAdminPage() {
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [autoCreateAttempted, setAutoCreateAttempted] = useState(false);
+  const [inboxCounts, setInboxCounts] = useState({ open: 0, escalated: 0 });
   const { toast } = useToast();
   const { currentOrganization } = useOrganization();
   
@@ -65,6 +67,12 @@ export default function WhatsAppAdminPage() {
       console.log('📦 All instances:', allInstances);
       console.log('📊 Found instances:', allInstances.length, 'for org:', currentOrgId);
 
+      const inboxRes = await fetch('/api/admin/inbox?channel=whatsapp&summary=1');
+      const inboxData = await inboxRes.json();
+      if (inboxData.counts) {
+        setInboxCounts(inboxData.counts);
+      }
+
       // Auto-create instance if current org doesn't have one (only on first load)
       if (!skipAutoCreate && !autoCreateAttempted) {
         const orgHasInstance = allInstances.some((inst: WhatsAppInstance) => 
@@ -331,6 +339,27 @@ export default function WhatsAppAdminPage() {
         </Card>
       </div>
 
+      {/* Shared Inbox */}
+      <Card className="mb-8">
+        <CardContent className="py-4 flex items-center justify-between gap-4">
+          <div>
+            <p className="font-medium">Conversations</p>
+            <p className="text-sm text-muted-foreground">
+              {inboxCounts.open} open
+              {inboxCounts.escalated > 0 && ` · ${inboxCounts.escalated} handed to staff by the assistant`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {inboxCounts.escalated > 0 && (
+              <Badge variant="destructive">{inboxCounts.escalated} need staff</Badge>
+            )}
+            <Link href="/admin/booking/messages?channel=whatsapp">
+              <Button variant="outline">Open inbox</Button>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Action Buttons */}
       <div className="mb-6 flex gap-4">
         <Button onClick={() => loadData(true)} disabled={loading || creating}>
@@ -49,8 +49,8 @@ export default function FeedbackPanel({
 
       const data = await response.json();
       
-      if (data.error) {
-        throw new Error(data.message || 'Failed to submit feedback');
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to submit feedback');
       }
 
       setSubmitted(true);
@@ -2,6 +2,7 @@ import { fetchEmbeddedBookingContext } from '@/app/lib/embeddedBookingContext';
 import { dentalOfficeInfo } from '../openDental/dentalOfficeData';
 import { loadOrgInstructions } from '@/app/lib/agentConfigLoader';
 import { executeOrchestrator } from './orchestratorAgent';
+import { requestCallTransfer, transferToolOutput, TRANSFER_TOOL_NAME } from '@/app/lib/transfers/callTransfer';
 
 // ============================================
 // PER-ORGANIZATION INSTRUCTION CACHE
@@ -370,6 +371,22 @@ async function executeGreetingAgentTool(
       return result;
     }
 
+    case TRANSFER_TOOL_NAME: {
+      // Only offered on Retell calls (session id "retell_<call_id>")
+      if (!organizationId || !sessionId?.startsWith('retell_')) {
+        throw new Error('Call transfer is only available on phone calls');
+      }
+      const plan = await requestCallTransfer({
+        organizationId,
+        provider: 'retell',
+        callId: sessionId.slice('retell_'.length),
+        reason: args.reason,
+        summary: args.summary,
+        destination: args.destination,
+      });
+      return { ...transferToolOutput(plan), transferNumber: plan.targets[0]?.phone_number || null };
+    }
+
     default:
       throw new Error(`Unknown tool: ${toolName}`);
   }
@@ -542,6 +559,7 @@ async function handleGreetingAgentIterations(
 
 /**
  * Call greeting agent with user message (for STT/TTS mode)
+ * extraTools: channel-specific tools, e.g. transferCall on Retell calls
  */
 export async function callGreetingAgent(
   userMessage: string,
@@ -549,7 +567,8 @@ export async function callGreetingAgent(
   isFirstMessage: boolean = false,
   playOneMomentAudio?: () => Promise<void>,
   organizationId?: string,
-  sessionId?: string
+  sessionId?: string,
+  extraTools: any[] = []
 ): Promise<string> {
   console.log('[Embedded Booking Greeting Agent] INVOKED - User Message:', userMessage);
   if (organizationId) {
@@ -570,7 +589,7 @@ export async function callGreetingAgent(
     const body: any = {
       model: 'gpt-4o-mini',
       instructions: instructions,
-      tools: greetingAgentTools,
+      tools: [...greetingAgentTools, ...extraTools],
       input: cleanInput,
       // NOTE: Do NOT pass organizationId here - Responses API forwards to OpenAI which rejects it
     };
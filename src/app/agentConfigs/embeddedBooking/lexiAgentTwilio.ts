@@ -7,6 +7,7 @@
 
 import { fetchEmbeddedBookingContext } from '@/app/lib/embeddedBookingContext';
 import { dentalOfficeInfo } from '../openDental/dentalOfficeData';
+import type { LLMRouting } from '@/app/lib/llm/types';
 
 // ============================================
 // TWILIO AGENT - NO DATABASE DEPENDENCY
@@ -227,6 +228,7 @@ When patient is not found in system:
 4. CREATE PATIENT
    - Call CreatePatient with verified info
    - "Great, I've got you set up in our system."
+   - If the result has ExistingPatient: true → "Looks like you're already in our system, [FName]." Use the returned PatNum
 
 5. PROCEED TO BOOKING
    - "Now let's get you scheduled. What type of appointment do you need?"
@@ -548,6 +550,46 @@ export const lexiTools = [
   },
 ];
 
+/**
+ * Voice channels only (Twilio / Retell): hand the caller to a person.
+ * The call handler rings the organization's on-duty staff, then voicemail.
+ */
+export const lexiTransferTool = {
+  type: 'function',
+  name: 'transferCall',
+  description: 'Transfer the caller to a staff member. Use when the caller asks for a person, has a dental emergency, or needs something you cannot help with. The result tells you what to say; say it and then stop talking.',
+  parameters: {
+    type: 'object',
+    properties: {
+      reason: { type: 'string', description: 'Short reason, e.g. "Dental emergency - severe swelling"' },
+      summary: { type: 'string', description: 'One or two sentences for the staff member: who is calling (name if known) and what they need' },
+      destination: {
+        type: 'string',
+        enum: ['front_desk', 'on_call'],
+        description: 'front_desk for general questions, on_call for dental emergencies',
+      },
+    },
+    required: ['reason', 'summary'],
+  },
+};
+
+/**
+ * Text channels only (SMS / WhatsApp): hand the conversation to front-desk staff.
+ * The channel handler sees the result, pauses the AI and notifies staff.
+ */
+export const lexiHandoffTool = {
+  type: 'function',
+  name: 'escalate_to_human',
+  description: 'Hand the conversation to a staff member. Use when the patient asks for a person, is upset, has a billing/insurance/clinical question you cannot answer, or you are stuck. After calling it, tell the patient a team member will reply here shortly and stop.',
+  parameters: {
+    type: 'object',
+    properties: {
+      reason: { type: 'string', description: 'Short reason for staff, e.g. "Upset about a billing charge"' },
+    },
+    required: ['reason'],
+  },
+};
+
 /**
  * Channel context for tool execution
  * Used to pass channel-specific settings to the booking API
@@ -685,6 +727,15 @@ export async function executeLexiTool(
       return JSON.stringify(result);
     }
 
+    case 'escalate_to_human': {
+      console.log(`[Lexi Twilio] 🙋 Escalating to staff: ${args.reason || 'no reason given'}`);
+      return JSON.stringify({
+        escalated: true,
+        reason: args.reason || '',
+        message: 'Staff have been notified and will reply in this conversation.',
+      });
+    }
+
     default:
       throw new Error(`Unknown tool: ${toolName}`);
   }
@@ -835,13 +886,16 @@ export async function handleLexiIterations(
 /**
  * Call Lexi (main entry point for SMS mode)
  * Exported for use in SMS endpoint
+ *
+ * @param routing - Channel text backend and fallback (defaults to gpt-4o)
  */
 export async function callLexi(
   userMessage: string,
   conversationHistory: any[] = [],
   isFirstMessage: boolean = false,
   playOneMomentAudio?: () => Promise<void>,
-  channelContext?: ToolChannelContext
+  channelContext?: ToolChannelContext,
+  routing?: LLMRouting
 ): Promise<string> {
   console.log('[Lexi Twilio] User Message:', userMessage);
   if (channelContext) {
@@ -863,8 +917,9 @@ export async function callLexi(
     const body: any = {
       model: 'gpt-4o', // Smarter model for better logic
       instructions: instructions,
-      tools: lexiTools,
+      tools: [...lexiTools, lexiHandoffTool],
       input: cleanInput,
+      ...routing, // Backend + fallback, resolved by the LLM gateway
     };
 
     if (isFirstMessage) {
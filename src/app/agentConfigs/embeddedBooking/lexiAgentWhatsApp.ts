@@ -8,10 +8,12 @@
 import { 
   generateLexiInstructions, 
   lexiTools, 
+  lexiHandoffTool,
   executeLexiTool,
   callLexi,
   type ToolChannelContext
 } from './lexiAgentTwilio';
+import type { LLMRouting } from '@/app/lib/llm/types';
 
 // ============================================
 // RE-EXPORT TWILIO AGENT LOGIC
@@ -30,6 +32,7 @@ export { generateLexiInstructions, lexiTools, executeLexiTool, type ToolChannelC
  * @param customInstructions - Optional custom instructions (uses default if not provided)
  * @param model - AI model to use (from channel config, defaults to gpt-4o)
  * @param dataIntegrations - Enabled data integrations for this channel
+ * @param routing - Channel backend and fallback backend (from channel config)
  * @returns AI response text
  */
 export async function callLexiWhatsApp(
@@ -38,10 +41,11 @@ export async function callLexiWhatsApp(
   isFirstMessage: boolean = false,
   customInstructions?: string,
   model: string = 'gpt-4o',
-  dataIntegrations: string[] = []
+  dataIntegrations: string[] = [],
+  routing?: LLMRouting
 ): Promise<string> {
   console.log('[Lexi WhatsApp] User Message:', userMessage);
-  console.log('[Lexi WhatsApp] Using model:', model);
+  console.log('[Lexi WhatsApp] Using model:', model, routing?.fallbackBackend ? `(fallback: ${routing.fallbackBackend})` : '');
   console.log('[Lexi WhatsApp] Data integrations:', dataIntegrations.join(', ') || 'none');
 
   try {
@@ -60,8 +64,9 @@ export async function callLexiWhatsApp(
     const body: any = {
       model: model, // Use configured model
       instructions: instructions,
-      tools: lexiTools,
+      tools: [...lexiTools, lexiHandoffTool],
       input: cleanInput,
+      ...routing, // Backend + fallback, resolved by the LLM gateway
     };
 
     if (isFirstMessage) {
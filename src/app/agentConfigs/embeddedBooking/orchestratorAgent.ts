@@ -95,6 +95,7 @@ PATIENTS (3 functions):
    - Create new patient record
    - All fields except Email are required
    - Returns created patient with PatNum
+   - ExistingPatient: true means they were already registered: use that PatNum, don't create again
 
 PROVIDERS (2 functions):
 4. GetProviders()
@@ -138,12 +139,26 @@ APPOINTMENTS (6 functions):
 11. BreakAppointment(AptNum, sendToUnscheduledList?)
     - Cancel/break appointment
     - REQUIRED: AptNum
-    - Sets status to 'Broken' or 'UnschedList'
+    - Sets status to 'Broken' (sendToUnscheduledList, the default, also adds the
+      patient to the unscheduled list) or 'Cancelled'
+    - The freed slot is offered to matching waitlist patients automatically
 
 12. DeleteAppointment(AptNum)
     - Permanently delete appointment (soft delete)
     - REQUIRED: AptNum
     - Returns confirmation
+
+WAITLIST (3 functions):
+13. AddToWaitlist(PatNum, PreferredProviders?, PreferredDays?, EarliestTime?, LatestTime?, DateUntil?, AppointmentType?)
+    - Use when no slot suits the patient or they want something sooner
+    - PreferredDays: day names or 0-6 (0 = Sunday); times HH:MM
+    - The patient gets a text with a claim link when a matching slot opens
+
+14. GetWaitlist(PatNum?)
+    - Check whether a patient is already on the waitlist
+
+15. RemoveFromWaitlist(WaitlistNum)
+    - Take a patient off the waitlist
 `;
 }
 
@@ -1245,8 +1260,8 @@ async function handleResponseIterations(
         
         // Also check conversation state for stored AptNum
         if (!existingAptNum && sessionId) {
-          const { getOrCreateState } = await import('@/app/lib/conversationState');
-          const state = getOrCreateState(sessionId);
+          const { loadState } = await import('@/app/lib/conversationState');
+          const state = await loadState(sessionId);
           existingAptNum = state.appointment.existingAptNum || null;
           console.log('[Orchestrator] Got AptNum from conversation state:', existingAptNum);
         }
@@ -1767,7 +1782,7 @@ export async function executeOrchestrator(
 
   try {
     // Get or create session state
-    const sessionState = getOrCreateSession(effectiveSessionId, organizationId);
+    const sessionState = await getOrCreateSession(effectiveSessionId, organizationId);
     console.log(`[Orchestrator] 📦 Session state retrieved: ${effectiveSessionId}`);
     
     // Use provided office context or try to extract from history
@@ -1865,7 +1880,7 @@ export async function executeOrchestrator(
   const dynamicInstructions = generateOrchestratorInstructions(finalOfficeContext);
   
   // Get session context to include in system prompt
-  const sessionContext = getSessionContext(effectiveSessionId);
+  const sessionContext = await getSessionContext(effectiveSessionId);
   const sessionContextMessage = sessionContext !== 'No active booking state.' 
     ? `\n\n## CURRENT SESSION STATE\n\n${sessionContext}\n\n**IMPORTANT:** Use this session state to avoid re-asking for information you already have.`
     : '';
@@ -13,6 +13,7 @@
 
 import { dentalOfficeInfo } from '../openDental/dentalOfficeData';
 import { fetchEmbeddedBookingContext } from '@/app/lib/embeddedBookingContext';
+import type { LLMRouting } from '@/app/lib/llm/types';
 
 // ============================================
 // SUPERVISOR INSTRUCTIONS
@@ -337,6 +338,7 @@ export const supervisorTools = [
         dateEnd: { type: 'string', description: 'End date (YYYY-MM-DD)' },
         ProvNum: { type: 'number', description: 'Provider ID (default: 1)' },
         OpNum: { type: 'number', description: 'Operatory ID (default: 1)' },
+        AppointmentType: { type: 'string', description: 'Visit type, e.g. "Cleaning" or "Filling" (sets slot length)' },
       },
       required: ['dateStart', 'dateEnd'],
     },
@@ -353,6 +355,7 @@ export const supervisorTools = [
         ProvNum: { type: 'number', description: 'Provider ID' },
         Op: { type: 'number', description: 'Operatory ID' },
         Note: { type: 'string', description: 'Appointment type/note' },
+        AppointmentType: { type: 'string', description: 'Visit type used for GetAvailableSlots (sets appointment length)' },
       },
       required: ['PatNum', 'AptDateTime', 'ProvNum', 'Op'],
     },
@@ -511,6 +514,7 @@ interface SupervisorResult {
  * @param sessionId - Session ID for tracking
  * @param customSupervisorInstructions - Optional custom instructions from DB
  * @param organizationId - Organization ID for multi-tenancy (passed to booking API)
+ * @param routing - Channel text backend and fallback (defaults to gpt-4o)
  * @returns Response to speak to the user
  */
 export async function callSupervisor(
@@ -518,7 +522,8 @@ export async function callSupervisor(
   contextFromLastMessage: string,
   sessionId: string,
   customSupervisorInstructions?: string,
-  organizationId?: string
+  organizationId?: string,
+  routing?: LLMRouting
 ): Promise<SupervisorResult> {
   console.log('[Supervisor] Processing request');
   if (organizationId) {
@@ -550,7 +555,7 @@ export async function callSupervisor(
       }>;
       tools: typeof supervisorTools;
       parallel_tool_calls: boolean;
-    } = {
+    } & LLMRouting = {
       model: 'gpt-4o',
       input: [
         {
@@ -572,9 +577,10 @@ Based on this conversation, determine what action to take and provide a response
       ],
       tools: supervisorTools,
       parallel_tool_calls: false, // Sequential for deterministic behavior
+      ...routing, // Backend + fallback, resolved by the LLM gateway
     };
 
-    // Call OpenAI Responses API
+    // Call the Responses API (LLM gateway)
     const baseUrl = process.env.BASE_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
     let currentResponse = await fetchResponsesAPI(baseUrl, body);
 
@@ -0,0 +1,59 @@
+/**
+ * Call Analytics API
+ * GET: ?from=YYYY-MM-DD&to=YYYY-MM-DD&channel&phoneNumber&agentMode&compare=1
+ *      totals and breakdowns by day, channel, phone number, agent mode and intent
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getCallAnalytics, type AgentModeGroup } from '@/app/lib/analytics/callAnalytics';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const AGENT_MODES: AgentModeGroup[] = ['premium', 'standard', 'retell', 'text', 'web'];
+const MAX_RANGE_DAYS = 366;
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { searchParams } = new URL(request.url);
+    const today = new Date().toISOString().split('T')[0];
+    const from = searchParams.get('from') || today;
+    const to = searchParams.get('to') || from;
+    const agentMode = searchParams.get('agentMode') || undefined;
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD', success: false }, { status: 400 });
+    }
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / 86400000 + 1;
+    if (!(days >= 1 && days <= MAX_RANGE_DAYS)) {
+      return NextResponse.json(
+        { error: `Range must be between 1 and ${MAX_RANGE_DAYS} days`, success: false },
+        { status: 400 }
+      );
+    }
+    if (agentMode && !(AGENT_MODES as string[]).includes(agentMode)) {
+      return NextResponse.json(
+        { error: `agentMode must be one of: ${AGENT_MODES.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const report = await getCallAnalytics(context.organizationId, {
+      from,
+      to,
+      channel: searchParams.get('channel') || undefined,
+      phoneNumber: searchParams.get('phoneNumber') || undefined,
+      agentMode: agentMode as AgentModeGroup | undefined,
+      compare: searchParams.get('compare') === '1',
+    });
+
+    return NextResponse.json({ ...report, success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Call Analytics] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -1,13 +1,22 @@
 /**
  * API Credentials Management - Single Credential Operations
- * GET: Get single credential
- * PUT: Update credential
+ * GET: Get single credential (secrets masked)
+ * PUT: Update credential - masked values left unchanged keep the stored secret
  * DELETE: Delete credential
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentOrganization } from '@/app/lib/apiHelpers';
 import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import {
+  CREDENTIAL_COLUMNS,
+  openCredentials,
+  resolveMaskedValues,
+  sealCredentials,
+  toMaskedCredential,
+  type CredentialRow,
+} from '@/app/lib/credentials/vault';
+import { clearCredentialCache } from '@/app/lib/credentialLoader';
 
 export async function GET(
   request: NextRequest,
@@ -37,7 +46,7 @@ export async function GET(
     }
 
     return NextResponse.json({
-      credential: data,
+      credential: toMaskedCredential(data),
       success: true,
     });
   } catch (error: unknown) {
@@ -79,7 +88,7 @@ export async function PUT(
     // Verify credential belongs to user's org or is system cred (system only for system org owner)
     const { data: existing, error: checkError } = await supabase
       .from('api_credentials')
-      .select('id, organization_id')
+      .select(CREDENTIAL_COLUMNS)
       .eq('id', params.id)
       .or(filter)
       .single();
@@ -111,13 +120,24 @@ export async function PUT(
       await unsetQuery;
     }
 
+    // The edit form sends back the masked values it was given for secrets it didn't change
+    const stored = await openCredentials(existing as CredentialRow, {
+      accessedBy: 'api.admin.api-credentials.update',
+      userId: context.user?.id,
+    });
+    const sealed = await sealCredentials(
+      existing.organization_id,
+      credential_type,
+      resolveMaskedValues(credentials || {}, stored)
+    );
+
     const { data, error } = await supabase
       .from('api_credentials')
       .update({
         credential_type,
         credential_name,
         description,
-        credentials,
+        ...sealed,
         is_default: is_default || false,
         updated_at: new Date().toISOString(),
       })
@@ -134,9 +154,10 @@ export async function PUT(
     }
 
     console.log('[API Credentials] Updated credential:', params.id);
+    clearCredentialCache(data.organization_id ?? undefined);
 
     return NextResponse.json({
-      credential: data,
+      credential: toMaskedCredential(data),
       success: true,
     });
   } catch (error: unknown) {
@@ -202,6 +223,8 @@ export async function DELETE(
       }, { status: 500 });
     }
 
+    clearCredentialCache(isSystemCred ? undefined : context.organizationId);
+
     return NextResponse.json({
       success: true,
     });
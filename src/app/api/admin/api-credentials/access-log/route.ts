@@ -0,0 +1,56 @@
+/**
+ * API Credentials Access Log
+ * GET: Recent decryptions of the organization's credentials and which code path did them
+ *      ?credentialId=<uuid> to narrow to one credential, ?limit=N (max 200)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const credentialId = searchParams.get('credentialId');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    let query = getSupabaseAdmin()
+      .from('credential_access_log')
+      .select('id, credential_id, credential_type, action, accessed_by, user_id, created_at')
+      .eq('organization_id', context.organizationId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (credentialId) query = query.eq('credential_id', credentialId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[Credential Access Log] Error fetching log:', error);
+      return NextResponse.json({
+        error: error.message,
+        success: false,
+      }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      entries: data || [],
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Credential Access Log] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
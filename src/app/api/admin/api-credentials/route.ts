@@ -1,12 +1,14 @@
 /**
  * API Credentials Management API
- * GET: List all credentials for current organization
- * POST: Create new credential
+ * GET: List all credentials for current organization (secrets masked)
+ * POST: Create new credential (stored encrypted)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentOrganization } from '@/app/lib/apiHelpers';
 import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { sealCredentials, toMaskedCredential } from '@/app/lib/credentials/vault';
+import { clearCredentialCache } from '@/app/lib/credentialLoader';
 
 export async function GET(request: NextRequest) {
   try {
@@ -37,7 +39,7 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      credentials: data || [],
+      credentials: (data || []).map(toMaskedCredential),
       success: true,
     });
   } catch (error: unknown) {
@@ -97,6 +99,8 @@ export async function POST(request: NextRequest) {
       await unsetQuery;
     }
 
+    const sealed = await sealCredentials(organizationId, credential_type, credentials);
+
     const { data, error } = await supabase
       .from('api_credentials')
       .insert({
@@ -104,7 +108,7 @@ export async function POST(request: NextRequest) {
         credential_type,
         credential_name,
         description,
-        credentials,
+        ...sealed,
         is_default: is_default || false,
         created_by: context.user?.id ?? null,
       })
@@ -120,8 +124,10 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('[API Credentials] ✅ Credential created:', credential_name);
+    // System credentials are every org's fallback
+    clearCredentialCache(data.organization_id ?? undefined);
     return NextResponse.json({
-      credential: data,
+      credential: toMaskedCredential(data),
       success: true,
     });
   } catch (error: unknown) {
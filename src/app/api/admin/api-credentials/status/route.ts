@@ -60,8 +60,8 @@ export async function GET(request: NextRequest) {
         keys: ['api_url', 'api_key']
       },
       opendental: { 
-        available: !!process.env.OPENDENTAL_API_URL,
-        keys: ['api_url', 'api_key']
+        available: !!(process.env.OPENDENTAL_API_BASE_URL || process.env.OPENDENTAL_API_URL),
+        keys: ['api_url', 'api_key', 'mock_mode']
       },
       retell: { 
         available: !!process.env.RETELL_API_KEY,
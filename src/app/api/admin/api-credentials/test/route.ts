@@ -8,6 +8,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentOrganization } from '@/app/lib/apiHelpers';
 import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { openCredentials, type CredentialRow } from '@/app/lib/credentials/vault';
+import { checkOpenDentalConnection } from '@/app/lib/opendentalUtils';
 
 export async function POST(req: NextRequest) {
   try {
@@ -51,32 +53,37 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const secrets = await openCredentials(credential as CredentialRow, {
+      accessedBy: 'api.admin.api-credentials.test',
+      userId: context.user?.id,
+    });
+
     // Test based on credential type
     let testResult;
     
     switch (credential.credential_type) {
       case 'openai':
-        testResult = await testOpenAI(credential.credentials);
+        testResult = await testOpenAI(secrets);
         break;
 
       case 'anthropic':
-        testResult = await testAnthropic(credential.credentials);
+        testResult = await testAnthropic(secrets);
         break;
 
       case 'twilio':
-        testResult = await testTwilio(credential.credentials);
+        testResult = await testTwilio(secrets);
         break;
 
       case 'opendental':
-        testResult = await testOpenDental(credential.credentials);
+        testResult = await testOpenDental(secrets);
         break;
 
       case 'evolution_api':
-        testResult = await testEvolutionAPI(credential.credentials);
+        testResult = await testEvolutionAPI(secrets);
         break;
 
       case 'retell':
-        testResult = await testRetell(credential.credentials);
+        testResult = await testRetell(secrets);
         break;
 
       case 'google_calendar':
@@ -287,57 +294,19 @@ async function testOpenDental(credentials: Record<string, string>): Promise<{
   message: string;
   details?: any;
 }> {
-  try {
-    const { api_url, api_key } = credentials;
-    
-    if (!api_url || !api_key) {
-      return {
-        success: false,
-        message: 'API URL or API key not found in credentials',
-      };
-    }
-
-    // Try to get preferences (simple endpoint that doesn't modify data)
-    const baseUrl = api_url.replace(/\/$/, '');
-    const response = await fetch(`${baseUrl}/preferences`, {
-      headers: {
-        'Authorization': api_key.startsWith('ODFHIR') || api_key.startsWith('Bearer') 
-          ? api_key 
-          : `Bearer ${api_key}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      return {
-        success: false,
-        message: `OpenDental API returned ${response.status}: ${response.statusText}`,
-        details: errorData,
-      };
-    }
-
-    return {
-      success: true,
-      message: 'Connected successfully to OpenDental API.',
-    };
-
-  } catch (error: any) {
-    // Check for connection errors
-    const errorMessage = (error.message || '').toLowerCase();
-    const isConnectionError =
-      error.code === 'ECONNREFUSED' ||
-      error.code === 'ETIMEDOUT' ||
-      errorMessage.includes('fetch failed') ||
-      errorMessage.includes('connection refused');
-
-    return {
-      success: false,
-      message: isConnectionError 
-        ? 'Cannot connect to OpenDental API. Please check the API URL and ensure the service is running.'
-        : error.message || 'Failed to connect to OpenDental',
-    };
-  }
+  const health = await checkOpenDentalConnection({
+    apiUrl: credentials.api_url || '',
+    apiKey: credentials.api_key || '',
+    developerKey: credentials.developer_key || '',
+    customerKey: credentials.customer_key || '',
+    mockMode: credentials.mock_mode === 'true',
+  });
+
+  return {
+    success: health.status === 'connected' || health.status === 'mock',
+    message: health.message,
+    details: health,
+  };
 }
 
 /**
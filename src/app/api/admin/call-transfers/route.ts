@@ -0,0 +1,152 @@
+/**
+ * Call Transfer Targets API
+ * GET: Transfer targets and recent transfers
+ * PUT: { targets } - replace transfer targets (owner/admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { TRANSFER_ROLES } from '@/app/lib/transfers/targets';
+
+const AVAILABILITY = ['always', 'on_duty', 'off_duty'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const supabase = getSupabaseAdmin();
+
+    const [targetsResult, recentResult] = await Promise.all([
+      supabase.from('call_transfer_targets').select('*')
+        .eq('organization_id', context.organizationId)
+        .order('priority'),
+      supabase.from('call_transfers')
+        .select('id, provider, call_id, reason, summary, destination, status, connected_number, voicemail_url, voicemail_duration_seconds, conversation_id, created_at, completed_at')
+        .eq('organization_id', context.organizationId)
+        .order('created_at', { ascending: false })
+        .limit(50),
+    ]);
+
+    const error = targetsResult.error || recentResult.error;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({
+      targets: targetsResult.data || [],
+      recent: recentResult.data || [],
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Call Transfers] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
+
+function validateRequest(body: any): string | null {
+  if (!Array.isArray(body.targets)) return 'targets must be an array';
+  for (const target of body.targets) {
+    if (!target.name || typeof target.name !== 'string') {
+      return 'target name is required';
+    }
+    if (!PHONE_PATTERN.test(String(target.phone_number || ''))) {
+      return `${target.name}: phone_number must be in E.164 format (e.g. +15551234567)`;
+    }
+    if (!(TRANSFER_ROLES as string[]).includes(target.role)) {
+      return `${target.name}: role must be one of: ${TRANSFER_ROLES.join(', ')}`;
+    }
+    if (!AVAILABILITY.includes(target.availability)) {
+      return `${target.name}: availability must be one of: ${AVAILABILITY.join(', ')}`;
+    }
+    if (!Array.isArray(target.days_of_week) || target.days_of_week.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return `${target.name}: days_of_week must be numbers from 0 (Sunday) to 6`;
+    }
+    if (!TIME_PATTERN.test(String(target.start_time)) || !TIME_PATTERN.test(String(target.end_time))) {
+      return `${target.name}: start_time and end_time must be HH:MM`;
+    }
+    if (!Number.isInteger(target.ring_timeout_seconds) || target.ring_timeout_seconds < 5 || target.ring_timeout_seconds > 60) {
+      return `${target.name}: ring_timeout_seconds must be between 5 and 60`;
+    }
+  }
+  return null;
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can change where patient calls are sent
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateRequest(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError, success: false }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const organizationId = context.organizationId;
+
+    // Keep target ids stable (transfers reference them): update existing, insert new, delete the rest
+    const { data: existing } = await supabase
+      .from('call_transfer_targets')
+      .select('id')
+      .eq('organization_id', organizationId);
+    const existingIds = new Set<string>((existing || []).map((target: any) => target.id));
+
+    const rows = body.targets.map((target: any, index: number) => ({
+      id: existingIds.has(target.id) ? target.id as string : null,
+      values: {
+        organization_id: organizationId,
+        name: target.name.trim(),
+        role: target.role,
+        phone_number: target.phone_number,
+        availability: target.availability,
+        days_of_week: target.days_of_week,
+        start_time: target.start_time,
+        end_time: target.end_time,
+        priority: index,                  // list order is ring order
+        ring_timeout_seconds: target.ring_timeout_seconds,
+        is_active: target.is_active !== false,
+      },
+    }));
+
+    const updates = rows.filter((row: any) => row.id).map((row: any) => ({ id: row.id, ...row.values }));
+    const inserts = rows.filter((row: any) => !row.id).map((row: any) => row.values);
+    const keep = new Set(updates.map((row: any) => row.id));
+    const removed = [...existingIds].filter(id => !keep.has(id));
+
+    if (removed.length > 0) {
+      const { error } = await supabase.from('call_transfer_targets').delete().in('id', removed);
+      if (error) throw new Error(`Failed to remove transfer targets: ${error.message}`);
+    }
+    if (updates.length > 0) {
+      const { error } = await supabase.from('call_transfer_targets').upsert(updates);
+      if (error) throw new Error(`Failed to save transfer targets: ${error.message}`);
+    }
+    if (inserts.length > 0) {
+      const { error } = await supabase.from('call_transfer_targets').insert(inserts);
+      if (error) throw new Error(`Failed to save transfer targets: ${error.message}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Call Transfers] Save error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
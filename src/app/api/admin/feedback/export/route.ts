@@ -0,0 +1,53 @@
+/**
+ * Feedback Dataset Export
+ * GET: ?format=jsonl|json&from&to&label&tag&source - labeled examples as a download (owner/admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { exportFeedbackDataset, toJsonl, type FeedbackLabel } from '@/app/lib/feedback/dataset';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Examples include full transcripts
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'jsonl';
+    if (!['jsonl', 'json'].includes(format)) {
+      return NextResponse.json({ error: 'format must be jsonl or json', success: false }, { status: 400 });
+    }
+
+    const examples = await exportFeedbackDataset(context.organizationId, {
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      label: (searchParams.get('label') as FeedbackLabel) || undefined,
+      tag: searchParams.get('tag') || undefined,
+      source: searchParams.get('source') || undefined,
+    });
+
+    const filename = `feedback-dataset-${new Date().toISOString().split('T')[0]}.${format}`;
+    const body = format === 'json' ? JSON.stringify(examples, null, 2) : toJsonl(examples);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Feedback Export] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
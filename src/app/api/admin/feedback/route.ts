@@ -0,0 +1,73 @@
+/**
+ * Call Reviews API
+ * GET: ?from&to&label&tag&source - rated conversations with their feedback, and label / tag counts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { FAILURE_TAGS, type ConversationFeedback } from '@/app/lib/feedback/feedback';
+import { feedbackLabel } from '@/app/lib/feedback/dataset';
+
+const REVIEW_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const label = searchParams.get('label');
+    const tag = searchParams.get('tag');
+    const source = searchParams.get('source');
+
+    let query = getSupabaseAdmin()
+      .from('conversation_feedback')
+      .select('*, conversations(session_id, channel, created_at, patient_info)')
+      .eq('organization_id', context.organizationId);
+
+    if (from) query = query.gte('created_at', `${from}T00:00:00.000Z`);
+    if (to) query = query.lte('created_at', `${to}T23:59:59.999Z`);
+    if (tag) query = query.contains('failure_tags', [tag]);
+    if (source) query = query.eq('feedback_source', source);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(REVIEW_LIMIT);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const feedback = (data || [])
+      .map((row: ConversationFeedback) => ({ ...row, label: feedbackLabel(row) }))
+      .filter(row => !label || row.label === label);
+
+    const tagCounts: Record<string, number> = {};
+    for (const row of feedback) {
+      for (const failureTag of row.failure_tags || []) {
+        tagCounts[failureTag] = (tagCounts[failureTag] || 0) + 1;
+      }
+    }
+
+    return NextResponse.json({
+      feedback,
+      summary: {
+        total: feedback.length,
+        good: feedback.filter(row => row.label === 'good').length,
+        bad: feedback.filter(row => row.label === 'bad').length,
+        neutral: feedback.filter(row => row.label === 'neutral').length,
+        tags: tagCounts,
+      },
+      failureTags: FAILURE_TAGS,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Call Reviews] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Shared Inbox - Individual Thread
+ * POST: { action: 'claim' }                 take over the thread (Lexi stops replying)
+ *       { action: 'release' }               hand it back to Lexi
+ *       { action: 'status', status }        open | pending | resolved
+ *       { action: 'reply', text }           send a manual reply over SMS / WhatsApp
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import {
+  claimThread,
+  releaseThread,
+  sendStaffReply,
+  setThreadStatus,
+  THREAD_STATUSES,
+} from '@/app/lib/inbox/handoff';
+
+const VALID_ACTIONS = ['claim', 'release', 'status', 'reply'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { conversationId } = await params;
+    const { action, status, text } = await request.json();
+
+    if (!VALID_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${VALID_ACTIONS.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+    if (action === 'status' && !THREAD_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${THREAD_STATUSES.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+    if (action === 'reply' && !String(text || '').trim()) {
+      return NextResponse.json(
+        { error: 'text is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const orgId = context.organizationId;
+    const thread = action === 'claim' ? await claimThread(orgId, conversationId, context.user)
+      : action === 'release' ? await releaseThread(orgId, conversationId)
+      : action === 'status' ? await setThreadStatus(orgId, conversationId, status)
+      : await sendStaffReply(orgId, conversationId, String(text).trim(), context.user);
+
+    return NextResponse.json({ thread, success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Inbox] Thread action error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: errorMessage === 'Conversation not found' ? 404 : 500 });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Shared Inbox API
+ * GET: SMS or WhatsApp threads with their messages and takeover state
+ *      ?channel=sms|whatsapp&status=all|open|pending|resolved|escalated
+ *      &summary=1 returns the open / escalated counts only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { countThreads, listThreads, type InboxChannel, type InboxFilter } from '@/app/lib/inbox/threads';
+
+const VALID_FILTERS: InboxFilter[] = ['all', 'open', 'pending', 'resolved', 'escalated'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { searchParams } = new URL(request.url);
+
+    const channel: InboxChannel = searchParams.get('channel') === 'whatsapp' ? 'whatsapp' : 'sms';
+    const status = (searchParams.get('status') || 'all') as InboxFilter;
+
+    if (!VALID_FILTERS.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${VALID_FILTERS.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    if (searchParams.get('summary') === '1') {
+      const counts = await countThreads(context.organizationId, channel);
+      return NextResponse.json({ counts, success: true });
+    }
+
+    const [threads, counts] = await Promise.all([
+      listThreads(context.organizationId, channel, status),
+      countThreads(context.organizationId, channel),
+    ]);
+
+    return NextResponse.json({ threads, counts, success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Inbox] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Integration Response Mappings - Individual Endpoint
+ * PUT: { response_transform: ResponseMapping | null } - validate and save
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { validateResponseMapping } from '@/app/lib/integrations/ResponseMapping';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can change integration mappings
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { endpointId } = await params;
+    const { response_transform } = await request.json();
+
+    if (response_transform !== null) {
+      const errors = validateResponseMapping(response_transform);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid response mapping', errors, success: false },
+          { status: 400 }
+        );
+      }
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Endpoints have no organization_id; scope through the owning integration
+    const { data: endpoint } = await supabase
+      .from('integration_endpoints')
+      .select('id, external_integrations!inner(organization_id)')
+      .eq('id', endpointId)
+      .eq('external_integrations.organization_id', context.organizationId)
+      .maybeSingle();
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Endpoint not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('integration_endpoints')
+      .update({ response_transform })
+      .eq('id', endpointId)
+      .select('id, function_name, response_transform')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ endpoint: data, success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Integration Mappings] Save error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Integration Response Mappings API
+ * GET: List endpoints of an integration with their response_transform and
+ *      response parameter maps (?provider=opendental, default opendental)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { searchParams } = new URL(request.url);
+    const provider = searchParams.get('provider') || 'opendental';
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: integration, error: integrationError } = await supabase
+      .from('external_integrations')
+      .select('id, provider_key, provider_name')
+      .eq('organization_id', context.organizationId)
+      .eq('provider_key', provider)
+      .maybeSingle();
+
+    if (integrationError) {
+      throw new Error(integrationError.message);
+    }
+    if (!integration) {
+      return NextResponse.json({ integration: null, endpoints: [], success: true });
+    }
+
+    const { data: endpoints, error } = await supabase
+      .from('integration_endpoints')
+      .select(`
+        id, function_name, category, description, http_method, response_transform,
+        integration_parameter_maps(id, internal_name, external_name, transform_type, transform_config, direction)
+      `)
+      .eq('integration_id', integration.id)
+      .eq('is_active', true)
+      .order('category')
+      .order('function_name');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({
+      integration,
+      endpoints: (endpoints || []).map((endpoint: any) => ({
+        ...endpoint,
+        integration_parameter_maps: (endpoint.integration_parameter_maps || []).filter(
+          (m: any) => m.direction === 'response' || m.direction === 'both'
+        ),
+      })),
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Integration Mappings] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
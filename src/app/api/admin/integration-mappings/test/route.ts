@@ -0,0 +1,37 @@
+/**
+ * Integration Response Mappings - Test Console
+ * POST: { mapping: ResponseMapping, sample: any } - run a mapping against a
+ *       sample vendor response without saving or calling the vendor
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { applyResponseMapping, validateResponseMapping } from '@/app/lib/integrations/ResponseMapping';
+
+export async function POST(request: NextRequest) {
+  try {
+    await getCurrentOrganization(request);
+
+    const { mapping, sample } = await request.json();
+
+    const errors = validateResponseMapping(mapping);
+    if (errors.length > 0) {
+      return NextResponse.json({ output: null, errors, success: false }, { status: 400 });
+    }
+
+    try {
+      const output = applyResponseMapping(mapping, sample);
+      return NextResponse.json({ output, errors: [], success: true });
+    } catch (mappingError: unknown) {
+      const message = mappingError instanceof Error ? mappingError.message : 'Mapping failed';
+      return NextResponse.json({ output: null, errors: [message], success: false }, { status: 400 });
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Integration Mappings] Test error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
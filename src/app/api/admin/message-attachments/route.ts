@@ -0,0 +1,45 @@
+/**
+ * Message Attachments API
+ * GET: ?patientId= - voice notes and images a patient sent (signed download URLs)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { withSignedUrls, type MessageAttachment } from '@/app/lib/whatsapp/media';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const patientId = Number(request.nextUrl.searchParams.get('patientId'));
+
+    if (!Number.isInteger(patientId) || patientId <= 0) {
+      return NextResponse.json({
+        error: 'patientId is required',
+        success: false,
+      }, { status: 400 });
+    }
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('message_attachments')
+      .select('*')
+      .eq('organization_id', context.organizationId)
+      .eq('patient_id', patientId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const attachments = await withSignedUrls((data || []) as MessageAttachment[]);
+    return NextResponse.json({ attachments, success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Message Attachments] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
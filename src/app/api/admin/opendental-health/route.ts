@@ -0,0 +1,38 @@
+/**
+ * OpenDental Connection Health
+ * GET: Checks the current organization's OpenDental connection (base URL,
+ *      developer/customer keys, mock mode) with a read-only API call
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getOpenDentalCredentials } from '@/app/lib/credentialLoader';
+import { checkOpenDentalConnection } from '@/app/lib/opendentalUtils';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const credentials = await getOpenDentalCredentials(context.organizationId);
+    const health = await checkOpenDentalConnection(credentials);
+
+    return NextResponse.json({
+      health,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[OpenDental Health] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
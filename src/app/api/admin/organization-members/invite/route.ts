@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentOrganization } from '@/app/lib/apiHelpers';
 import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { assertCanAddSeat } from '@/app/lib/billing/entitlements';
+import { EntitlementError } from '@/app/lib/billing/types';
 
 /**
  * POST /api/admin/organization-members/invite
@@ -38,6 +40,19 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Plan limit on team members (max_users)
+    try {
+      await assertCanAddSeat(context.organizationId, 'users');
+    } catch (limitError) {
+      if (limitError instanceof EntitlementError) {
+        return NextResponse.json(
+          { success: false, error: limitError.message, limit: limitError.resource },
+          { status: 403 }
+        );
+      }
+      throw limitError;
+    }
+
     // Check if user already exists in auth
     const { data: existingAuthUsers } = await supabase.auth.admin.listUsers();
     const existingAuthUser = existingAuthUsers?.users.find(u => u.email === email);
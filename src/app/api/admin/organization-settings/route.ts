@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
 import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { SLOT_GRANULARITIES } from '@/app/lib/scheduling/intervals';
+
+// Patient portal policy columns and their allowed ranges (migration 080)
+const PORTAL_LIMITS = [
+  { field: 'portal_reschedule_cutoff_hours', min: 0, max: 720 },
+  { field: 'portal_cancel_cutoff_hours', min: 0, max: 720 },
+  { field: 'portal_reschedule_horizon_days', min: 1, max: 365 },
+];
 
 /**
  * GET /api/admin/organization-settings
- * Fetch organization settings including notification_settings
+ * Fetch organization settings including notification_settings, slot granularity
+ * and patient portal policy
  */
 export async function GET(req: NextRequest) {
   try {
@@ -15,7 +24,7 @@ export async function GET(req: NextRequest) {
     
     const { data: org, error } = await supabase
       .from('organizations')
-      .select('id, name, email, notification_settings')
+      .select('id, name, slug, email, timezone, notification_settings, slot_granularity_minutes, portal_enabled, portal_reschedule_cutoff_hours, portal_cancel_cutoff_hours, portal_reschedule_horizon_days')
       .eq('id', orgId)
       .single();
 
@@ -47,24 +56,56 @@ export async function PATCH(req: NextRequest) {
     const orgId = context.organizationId;
 
     const body = await req.json();
-    const { notification_settings } = body;
+    const { notification_settings, slot_granularity_minutes, portal_enabled } = body;
+    const portalLimits = PORTAL_LIMITS.filter(({ field }) => body[field] !== undefined);
 
-    if (!notification_settings) {
+    if (!notification_settings && slot_granularity_minutes === undefined && portal_enabled === undefined && portalLimits.length === 0) {
       return NextResponse.json(
-        { error: 'notification_settings is required' },
+        { error: 'notification_settings, slot_granularity_minutes or a portal setting is required' },
         { status: 400 }
       );
     }
 
+    const updates: Record<string, any> = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (notification_settings) {
+      updates.notification_settings = notification_settings;
+    }
+
+    if (slot_granularity_minutes !== undefined) {
+      const granularity = Number(slot_granularity_minutes);
+      if (!(SLOT_GRANULARITIES as readonly number[]).includes(granularity)) {
+        return NextResponse.json(
+          { error: `slot_granularity_minutes must be one of ${SLOT_GRANULARITIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updates.slot_granularity_minutes = granularity;
+    }
+
+    if (portal_enabled !== undefined) {
+      updates.portal_enabled = !!portal_enabled;
+    }
+
+    for (const { field, min, max } of portalLimits) {
+      const value = Number(body[field]);
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return NextResponse.json(
+          { error: `${field} must be a whole number between ${min} and ${max}` },
+          { status: 400 }
+        );
+      }
+      updates[field] = value;
+    }
+
     const supabase = getSupabaseAdmin();
 
     // Update organization settings
     const { data, error } = await supabase
       .from('organizations')
-      .update({
-        notification_settings,
-        updated_at: new Date().toISOString()
-      })
+      .update(updates)
       .eq('id', orgId)
       .select()
       .single();
@@ -0,0 +1,80 @@
+/**
+ * Patient Duplicates - Individual Pair
+ * POST: { action: 'merge', survivingPatientId } | { action: 'dismiss' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { dismissDuplicateCandidate, getDuplicateCandidate } from '@/app/lib/patients/duplicates';
+import { mergePatients } from '@/app/lib/patients/merge';
+
+const VALID_ACTIONS = ['merge', 'dismiss'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ candidateId: string }> }
+) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can merge or dismiss duplicates
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { candidateId } = await params;
+    const { action, survivingPatientId } = await request.json();
+
+    if (!VALID_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${VALID_ACTIONS.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'dismiss') {
+      await dismissDuplicateCandidate(context.organizationId, candidateId, context.user.id);
+      return NextResponse.json({ success: true });
+    }
+
+    const candidate = await getDuplicateCandidate(context.organizationId, candidateId);
+    if (!candidate || candidate.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Duplicate pair not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const survivorId = Number(survivingPatientId);
+    if (survivorId !== candidate.patient_id && survivorId !== candidate.duplicate_patient_id) {
+      return NextResponse.json(
+        { error: 'survivingPatientId must be one of the two patients in the pair', success: false },
+        { status: 400 }
+      );
+    }
+    const duplicateId = survivorId === candidate.patient_id ? candidate.duplicate_patient_id : candidate.patient_id;
+
+    const merge = await mergePatients(
+      context.organizationId,
+      survivorId,
+      duplicateId,
+      { id: context.user.id, email: context.user.email },
+      Number(candidate.score)
+    );
+
+    return NextResponse.json({
+      merge,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Patient Duplicates] Resolve error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Patient Duplicates API
+ * GET: Pending duplicate pairs (with both patient records) and recent merges
+ * POST: { action: 'scan' } - compare all patients and queue new possible duplicates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { listDuplicateCandidates, scanForDuplicates } from '@/app/lib/patients/duplicates';
+import { listMerges } from '@/app/lib/patients/merge';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    const [candidates, merges] = await Promise.all([
+      listDuplicateCandidates(context.organizationId),
+      listMerges(context.organizationId),
+    ]);
+
+    return NextResponse.json({
+      candidates,
+      merges,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Patient Duplicates] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can scan for duplicates
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { action } = await request.json();
+    if (action !== 'scan') {
+      return NextResponse.json(
+        { error: 'action must be: scan', success: false },
+        { status: 400 }
+      );
+    }
+
+    const result = await scanForDuplicates(context.organizationId);
+
+    return NextResponse.json({
+      ...result,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Patient Duplicates] Scan error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Patient Merges - Individual Merge
+ * POST: { action: 'undo' } - restore the merged patient and move its records back
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { undoMerge } from '@/app/lib/patients/merge';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ mergeId: string }> }
+) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can undo merges
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { mergeId } = await params;
+    const { action } = await request.json();
+
+    if (action !== 'undo') {
+      return NextResponse.json(
+        { error: 'action must be: undo', success: false },
+        { status: 400 }
+      );
+    }
+
+    const merge = await undoMerge(context.organizationId, mergeId, {
+      id: context.user.id,
+      email: context.user.email,
+    });
+
+    return NextResponse.json({
+      merge,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Patient Merges] Undo error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Appointment Reminders API
+ * GET: Reminder rules, template overrides, built-in templates and recent reminders
+ * PUT: { rules?, templates?, default_language? } - replace rules / templates (owner/admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import {
+  DEFAULT_TEMPLATES,
+  REMINDER_CHANNELS,
+  SUPPORTED_LANGUAGES,
+  TEMPLATE_KEYS,
+} from '@/app/lib/reminders/templates';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const supabase = getSupabaseAdmin();
+
+    const [rulesResult, templatesResult, recentResult, orgResult] = await Promise.all([
+      supabase.from('reminder_rules').select('*')
+        .eq('organization_id', context.organizationId)
+        .order('offset_minutes', { ascending: false }),
+      supabase.from('message_templates').select('*')
+        .eq('organization_id', context.organizationId)
+        .order('template_key'),
+      supabase.from('appointment_reminders')
+        .select('*, appointments(appointment_datetime, status, confirmation_status, patients(first_name, last_name))')
+        .eq('organization_id', context.organizationId)
+        .neq('status', 'skipped')
+        .order('created_at', { ascending: false })
+        .limit(50),
+      supabase.from('organizations').select('default_language')
+        .eq('id', context.organizationId)
+        .maybeSingle(),
+    ]);
+
+    const error = rulesResult.error || templatesResult.error || recentResult.error;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({
+      rules: rulesResult.data || [],
+      templates: templatesResult.data || [],
+      recent: recentResult.data || [],
+      defaultLanguage: orgResult.data?.default_language || 'en',
+      defaults: DEFAULT_TEMPLATES,
+      languages: SUPPORTED_LANGUAGES,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Reminders] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
+
+function validateRequest(body: any): string | null {
+  if (body.rules !== undefined) {
+    if (!Array.isArray(body.rules)) return 'rules must be an array';
+    for (const rule of body.rules) {
+      if (!REMINDER_CHANNELS.includes(rule.channel)) {
+        return `rule channel must be one of: ${REMINDER_CHANNELS.join(', ')}`;
+      }
+      if (!Number.isInteger(rule.offset_minutes) || rule.offset_minutes < 15 || rule.offset_minutes > 20160) {
+        return 'rule offset_minutes must be between 15 minutes and 14 days';
+      }
+    }
+  }
+  if (body.templates !== undefined) {
+    if (!Array.isArray(body.templates)) return 'templates must be an array';
+    for (const template of body.templates) {
+      if (!(TEMPLATE_KEYS as readonly string[]).includes(template.template_key)) {
+        return `template_key must be one of: ${TEMPLATE_KEYS.join(', ')}`;
+      }
+      if (template.channel && !REMINDER_CHANNELS.includes(template.channel)) {
+        return `template channel must be one of: ${REMINDER_CHANNELS.join(', ')}`;
+      }
+      if (!(SUPPORTED_LANGUAGES as readonly string[]).includes(template.language)) {
+        return `template language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`;
+      }
+      if (!template.body || typeof template.body !== 'string') {
+        return 'template body is required';
+      }
+    }
+  }
+  if (body.default_language !== undefined && !(SUPPORTED_LANGUAGES as readonly string[]).includes(body.default_language)) {
+    return `default_language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`;
+  }
+  return null;
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can change patient messaging
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationError = validateRequest(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError, success: false }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const organizationId = context.organizationId;
+
+    if (body.rules !== undefined) {
+      // Keep rule ids stable (reminders reference them) by upserting on offset + channel
+      const rows = body.rules.map((rule: any) => ({
+        organization_id: organizationId,
+        offset_minutes: rule.offset_minutes,
+        channel: rule.channel,
+        request_confirmation: rule.request_confirmation !== false,
+        is_active: rule.is_active !== false,
+      }));
+
+      if (rows.length > 0) {
+        const { error } = await supabase
+          .from('reminder_rules')
+          .upsert(rows, { onConflict: 'organization_id,offset_minutes,channel' });
+        if (error) throw new Error(`Failed to save reminder rules: ${error.message}`);
+      }
+
+      const keep = new Set(rows.map((row: any) => `${row.offset_minutes}:${row.channel}`));
+      const { data: existing } = await supabase
+        .from('reminder_rules')
+        .select('id, offset_minutes, channel')
+        .eq('organization_id', organizationId);
+      const removed = (existing || []).filter((rule: any) => !keep.has(`${rule.offset_minutes}:${rule.channel}`));
+      if (removed.length > 0) {
+        await supabase.from('reminder_rules').delete().in('id', removed.map((rule: any) => rule.id));
+      }
+    }
+
+    if (body.templates !== undefined) {
+      await supabase.from('message_templates').delete().eq('organization_id', organizationId);
+      if (body.templates.length > 0) {
+        const { error } = await supabase
+          .from('message_templates')
+          .insert(body.templates.map((template: any) => ({
+            organization_id: organizationId,
+            template_key: template.template_key,
+            channel: template.channel || null,
+            language: template.language,
+            subject: template.subject || null,
+            body: template.body,
+          })));
+        if (error) throw new Error(`Failed to save message templates: ${error.message}`);
+      }
+    }
+
+    if (body.default_language !== undefined) {
+      await supabase
+        .from('organizations')
+        .update({ default_language: body.default_language })
+        .eq('id', organizationId);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Reminders] Save error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Sync Conflicts - Individual Conflict
+ * POST: { action: 'keep_local' | 'keep_external' | 'dismiss' }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { SyncManager } from '@/app/lib/integrations/SyncManager';
+import type { ConflictAction } from '@/app/lib/integrations/SyncConflicts';
+
+const VALID_ACTIONS: ConflictAction[] = ['keep_local', 'keep_external', 'dismiss'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ conflictId: string }> }
+) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can resolve sync conflicts
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { conflictId } = await params;
+    const { action } = await request.json();
+
+    if (!VALID_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${VALID_ACTIONS.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    await new SyncManager(context.organizationId).resolveConflict(conflictId, action, context.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Sync Conflicts] Resolve error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
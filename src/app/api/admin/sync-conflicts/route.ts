@@ -0,0 +1,39 @@
+/**
+ * Sync Conflicts API
+ * GET: List sync conflicts for current organization (?status=open|resolved|dismissed, default open)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { listConflicts, type ConflictStatus } from '@/app/lib/integrations/SyncConflicts';
+
+const VALID_STATUSES: ConflictStatus[] = ['open', 'resolved', 'dismissed'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { searchParams } = new URL(request.url);
+
+    const status = (searchParams.get('status') || 'open') as ConflictStatus;
+    if (!VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${VALID_STATUSES.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const conflicts = await listConflicts(context.organizationId, { status });
+
+    return NextResponse.json({
+      conflicts,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Sync Conflicts] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
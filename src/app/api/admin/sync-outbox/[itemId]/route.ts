@@ -0,0 +1,58 @@
+/**
+ * Sync Outbox - Individual Item
+ * POST: { action: 'replay' | 'cancel' }
+ *   replay: reset attempts and retry now (dead-lettered, pending or cancelled items)
+ *   cancel: stop retrying
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { SyncManager } from '@/app/lib/integrations/SyncManager';
+import { cancelItem, replayItem } from '@/app/lib/integrations/SyncOutbox';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can replay or cancel sync items
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const { itemId } = await params;
+    const { action } = await request.json();
+
+    if (action === 'cancel') {
+      await cancelItem(context.organizationId, itemId);
+      return NextResponse.json({ success: true });
+    }
+
+    if (action !== 'replay') {
+      return NextResponse.json(
+        { error: 'action must be replay or cancel', success: false },
+        { status: 400 }
+      );
+    }
+
+    await replayItem(context.organizationId, itemId);
+    const result = await new SyncManager(context.organizationId).processOutbox();
+
+    return NextResponse.json({
+      result,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Sync Outbox] Item error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Sync Outbox - Process
+ * POST: Retry all due outbox items for current organization now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { SyncManager } from '@/app/lib/integrations/SyncManager';
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    // Only owners and admins can trigger external writes
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const result = await new SyncManager(context.organizationId).processOutbox();
+
+    return NextResponse.json({
+      result,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Sync Outbox] Process error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Sync Outbox API
+ * GET: List outbox items and status counts for current organization
+ *      ?status=pending,dead_letter to filter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import {
+  getOutboxSummary,
+  listOutboxItems,
+  OUTBOX_STATUSES,
+  type OutboxStatus,
+} from '@/app/lib/integrations/SyncOutbox';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { searchParams } = new URL(request.url);
+
+    const status = (searchParams.get('status') || '')
+      .split(',')
+      .filter((s): s is OutboxStatus => OUTBOX_STATUSES.includes(s as OutboxStatus));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+    const [items, summary] = await Promise.all([
+      listOutboxItems(context.organizationId, { status, limit }),
+      getOutboxSummary(context.organizationId),
+    ]);
+
+    return NextResponse.json({
+      items,
+      summary,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Sync Outbox] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
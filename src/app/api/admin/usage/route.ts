@@ -0,0 +1,62 @@
+/**
+ * Plan Usage & Limits
+ * GET:  Seat limits, metered usage for the current billing period and the
+ *       plan's quotas for the current organization
+ * POST: Re-meter the whole current billing period from the conversation
+ *       tables (owner/admin), then return the same as GET
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { PLAN_DEFINITIONS, SOFT_LIMIT_RATIO, getUsageLimits } from '@/app/lib/billing/entitlements';
+import { getBillingPeriod, meterUsage } from '@/app/lib/billing/usageMetering';
+
+async function usageResponse(organizationId: string) {
+  const limits = await getUsageLimits(organizationId);
+  return NextResponse.json({
+    ...limits,
+    plans: Object.values(PLAN_DEFINITIONS),
+    softLimitRatio: SOFT_LIMIT_RATIO,
+    success: true,
+  });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    return await usageResponse(context.organizationId);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Usage] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', success: false },
+        { status: 403 }
+      );
+    }
+
+    const period = getBillingPeriod();
+    const today = new Date().toISOString().slice(0, 10);
+    await meterUsage(context.organizationId, { from: period.start, to: today });
+
+    return await usageResponse(context.organizationId);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Usage] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -7,6 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
 import { getEvolutionClient } from '@/app/lib/evolution/EvolutionClient';
+import { assertCanAddSeat } from '@/app/lib/billing/entitlements';
+import { EntitlementError } from '@/app/lib/billing/types';
 
 export async function POST(request: NextRequest) {
   try {
@@ -37,23 +39,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate unique instance name
-    const instanceName = `${org.slug || org.id.substring(0, 8)}-whatsapp`;
+    // Plan limit on WhatsApp numbers (max_whatsapp_instances)
+    try {
+      await assertCanAddSeat(organizationId, 'whatsapp_instances');
+    } catch (limitError) {
+      if (limitError instanceof EntitlementError) {
+        return NextResponse.json(
+          { error: limitError.message, limit: limitError.resource },
+          { status: 403 }
+        );
+      }
+      throw limitError;
+    }
 
-    // Check if instance already exists
-    const { data: existing } = await supabase
+    // Generate unique instance name (names stay taken by inactive instances too)
+    const { count: instanceCount } = await supabase
       .from('whatsapp_instances')
-      .select('id')
-      .eq('organization_id', organizationId)
-      .eq('is_active', true)
-      .single();
-
-    if (existing) {
-      return NextResponse.json(
-        { error: 'Organization already has an active WhatsApp instance' },
-        { status: 409 }
-      );
-    }
+      .select('id', { count: 'exact', head: true })
+      .eq('organization_id', organizationId);
+    const baseName = `${org.slug || org.id.substring(0, 8)}-whatsapp`;
+    const instanceName = instanceCount ? `${baseName}-${Date.now().toString(36)}` : baseName;
 
     // Get webhook URL
     const webhookUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/webhooks/whatsapp`;
@@ -8,6 +8,53 @@ import { openDentalConfig } from '@/app/agentConfigs/openDental/config';
 import type { SyncContext } from '@/app/lib/integrations/SyncManager';
 import { isGoogleCalendarConfigured } from '@/app/lib/credentialLoader';
 import { GoogleCalendarService } from '@/app/lib/integrations/GoogleCalendarService';
+import { getCachedBusyIntervals } from '@/app/lib/integrations/GoogleCalendarSync';
+import {
+  DEFAULT_APPOINTMENT_MINUTES,
+  coversInterval,
+  findOverlap,
+  formatLocalDate,
+  formatLocalDateTime,
+  generateSlotStarts,
+  instantToLocalMinutes,
+  mergeIntervals,
+  parseLocalDateAndTime,
+  parseLocalDateTime,
+  type TimeInterval,
+} from '@/app/lib/scheduling/intervals';
+import { getOrganizationSlotSettings, resolveAppointmentDuration } from '@/app/lib/scheduling/slotSettings';
+import {
+  blockedIntervalsFor,
+  findBlockingException,
+  loadScheduleExceptionBlocks,
+} from '@/app/lib/scheduling/exceptions';
+import { ensureTemplatesMaterialized } from '@/app/lib/scheduling/templates';
+import {
+  describeRequirements,
+  filterQualifiedSchedules,
+  hasRequirements,
+  operatoryQualifies,
+  providerQualifies,
+  type TreatmentRequirements,
+} from '@/app/lib/scheduling/capabilities';
+import {
+  buildResourceBusy,
+  buildResourcePlan,
+  defaultResourcePlan,
+  describeSegment,
+  findResourceConflict,
+  formatResources,
+  isDefaultResourcePlan,
+  loadAppointmentResources,
+  parseResourceRequests,
+  resourcePlanLength,
+  rowToSegment,
+  segmentInterval,
+  segmentToRow,
+  segmentsForAppointment,
+  type ResourceSegment,
+} from '@/app/lib/scheduling/resources';
+import { releaseSlotToWaitlist } from '@/app/lib/waitlist/offers';
 
 /**
  * Get appointments with filters
@@ -60,6 +107,13 @@ export async function GetAppointments(parameters: Record<string, any>, db: any =
     throw new Error(`Failed to fetch appointments: ${error.message}`);
   }
   
+  // Assistants and extra chairs for multi-resource appointments
+  const resourcesByAppointment = await loadAppointmentResources(
+    db,
+    organizationId,
+    (data || []).map((apt: any) => apt.id)
+  );
+  
   // Transform to OpenDental format with patient/provider/operatory details
   return (data || []).map((apt: any) => {
     const patient = apt.patients || {};
@@ -84,6 +138,8 @@ export async function GetAppointments(parameters: Record<string, any>, db: any =
       AptStatus: apt.status,
       Note: apt.notes || apt.appointment_type || '',
       Pattern: generatePattern(apt.duration_minutes || 30),
+      LengthMinutes: apt.duration_minutes || 30,
+      Resources: formatResources(segmentsForAppointment(apt, resourcesByAppointment)),
       IsNewPatient: false,
       DateCreated: apt.created_at,
       DateTStamp: apt.updated_at
@@ -95,11 +151,17 @@ export async function GetAppointments(parameters: Record<string, any>, db: any =
  * Calculate available time slots
  * Complex function that:
  * 1. Gets provider schedules for the date range
- * 2. Gets existing appointments
- * 3. Calculates available 30-minute slots
+ * 2. Gets existing appointments, Google busy times and schedule exceptions
+ *    (holidays, lunch breaks, blocked time) as intervals
+ * 3. Walks each schedule on the org's slot grid (5/10/15/20/30 min) and keeps
+ *    every slot whose full length does not overlap a busy interval
+ * Schedules whose provider/operatory can't perform the treatment (required
+ * specialties / operatory tags in treatments_catalog) are skipped.
+ * Optional Resources (assistant, extra chair, provider part of the visit, each
+ * with OffsetMinutes/LengthMinutes) must all be free together for a slot.
  */
 export async function GetAvailableSlots(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any[]> {
-  const { dateStart, dateEnd, ProvNum, OpNum, lengthMinutes = 30, searchAll = false } = parameters || {};
+  const { dateStart, dateEnd, ProvNum, OpNum, lengthMinutes, TreatmentCode, AppointmentType, Resources, searchAll = false } = parameters || {};
   
   // Only dateStart and dateEnd are truly required
   if (!dateStart || !dateEnd) {
@@ -121,6 +183,24 @@ export async function GetAvailableSlots(parameters: Record<string, any>, db: any
     throw new Error('Invalid date format. Use YYYY-MM-DD');
   }
   
+  const resourceRequests = parseResourceRequests(Resources);
+  const assistantIds = new Set<number>(
+    resourceRequests.filter(r => r.Type === 'assistant' && r.ProvNum).map(r => r.ProvNum as number)
+  );
+  
+  // Keep template-driven schedules generated through the rolling horizon
+  await ensureTemplatesMaterialized(db, organizationId);
+  
+  // Slot grid and appointment length (treatment/appointment-type aware)
+  const slotSettings = await getOrganizationSlotSettings(db, organizationId);
+  const duration = await resolveAppointmentDuration(db, { lengthMinutes, TreatmentCode, AppointmentType }, organizationId);
+  const slotLength = duration.minutes;
+  const requirements = duration.requirements;
+  console.log(`[GetAvailableSlots] Slot length ${slotLength} min (${duration.source}), granularity ${slotSettings.granularity} min`);
+  if (hasRequirements(requirements)) {
+    console.log(`[GetAvailableSlots] ${duration.treatmentName || duration.treatmentCode} requires ${describeRequirements(requirements)}`);
+  }
+  
   // SMART SCHEDULING: If no specific provider/operatory, search ALL available schedules
   // This finds slots across any provider/operatory that has availability
   let schedules: any[] = [];
@@ -137,7 +217,7 @@ export async function GetAvailableSlots(parameters: Record<string, any>, db: any
     
     let query = db
       .from('provider_schedules')
-      .select('*, providers(id, first_name, last_name)')
+      .select('*, providers(id, first_name, last_name, specialty_tags), operatories(id, name, tags)')
       .eq('provider_id', providerId)
       .eq('operatory_id', operatoryId)
       .eq('is_active', true)
@@ -160,6 +240,13 @@ export async function GetAvailableSlots(parameters: Record<string, any>, db: any
     
     console.log(`[GetAvailableSlots] Found ${schedules.length} schedules for Provider ${providerId}, Operatory ${operatoryId}`);
     
+    if (schedules.length > 0 && hasRequirements(requirements)) {
+      schedules = filterQualifiedSchedules(schedules, requirements);
+      if (schedules.length === 0) {
+        console.log(`[GetAvailableSlots] Provider ${providerId} / Operatory ${operatoryId} can't perform ${duration.treatmentCode}. Searching qualified schedules...`);
+      }
+    }
+    
     // If no schedules found for specific provider/operatory, search ALL
     if (schedules.length === 0) {
       console.log(`[GetAvailableSlots] No schedules for Provider ${providerId}, Operatory ${operatoryId}. Searching ALL available schedules...`);
@@ -170,7 +257,7 @@ export async function GetAvailableSlots(parameters: Record<string, any>, db: any
   if (schedules.length === 0) {
     let query = db
       .from('provider_schedules')
-      .select('*, providers(id, first_name, last_name)')
+      .select('*, providers(id, first_name, last_name, specialty_tags), operatories(id, name, tags)')
       .eq('is_active', true)
       .gte('schedule_date', dateStart)
       .lte('schedule_date', dateEnd);
@@ -190,12 +277,30 @@ export async function GetAvailableSlots(parameters: Record<string, any>, db: any
     scheduleError = result.error;
     
     console.log(`[GetAvailableSlots] Found ${schedules.length} total active schedules for date range`);
+    
+    if (!scheduleError && schedules.length > 0 && hasRequirements(requirements)) {
+      const qualified = filterQualifiedSchedules(schedules, requirements);
+      if (qualified.length === 0) {
+        throw new Error(
+          `No provider/room combination can perform ${duration.treatmentName || duration.treatmentCode} ` +
+          `between ${dateStart} and ${dateEnd}: it requires ${describeRequirements(requirements)}. ` +
+          `Update provider specialties or operatory tags, or the treatment's requirements in the treatments catalog.`
+        );
+      }
+      console.log(`[GetAvailableSlots] ${qualified.length} of ${schedules.length} schedules qualify for ${duration.treatmentCode}`);
+      schedules = qualified;
+    }
   }
   
   if (scheduleError) {
     throw new Error(`Failed to fetch schedules: ${scheduleError.message}`);
   }
   
+  // Requested assistants support the visit; they don't lead it from their own schedule
+  if (assistantIds.size > 0) {
+    schedules = schedules.filter((s: any) => !assistantIds.has(s.provider_id));
+  }
+  
   if (schedules.length === 0) {
     console.log(`[GetAvailableSlots] No schedules configured for ${dateStart} to ${dateEnd}. Please configure provider schedules first.`);
     return [];
@@ -213,9 +318,6 @@ export async function GetAvailableSlots(parameters: Record<string, any>, db: any
   const startDateStr = `${startYear}-${String(startMonth).padStart(2, '0')}-${String(startDay).padStart(2, '0')} 00:00:00`;
   const endDateStr = `${endYear}-${String(endMonth).padStart(2, '0')}-${String(endDay).padStart(2, '0')} 23:59:59`;
   
-  // Build a map of booked times per provider/operatory
-  const bookedTimesMap = new Map<string, Set<string>>();
-  
   // Fetch all appointments in date range (we'll filter by provider/operatory in processing)
   let aptQuery = db
     .from('appointments')
@@ -237,240 +339,274 @@ export async function GetAvailableSlots(parameters: Record<string, any>, db: any
   
   console.log(`[GetAvailableSlots] Found ${(allAppointments || []).length} existing appointments in date range`);
   
+  // Busy intervals per provider (incl. assistants) and per operatory: a person can't
+  // be in two rooms and a room can't hold two patients. Multi-resource appointments
+  // only hold each resource for its own part of the visit.
+  const resourcesByAppointment = await loadAppointmentResources(
+    db,
+    organizationId,
+    (allAppointments || []).map((apt: any) => apt.id)
+  );
+  const { providerBusy, operatoryBusy } = buildResourceBusy(allAppointments || [], resourcesByAppointment);
+  
+  // Working hours of requested assistants/other providers, keyed by provider then date
+  const resourceWindows = await loadProviderWindows(
+    db,
+    organizationId,
+    resourceRequests.filter(r => r.Type !== 'operatory' && r.ProvNum).map(r => r.ProvNum as number),
+    dateStart,
+    dateEnd
+  );
+  
+  // Google Calendar: busy intervals apply to every provider/operatory
+  const googleBusy = organizationId
+    ? await getGoogleBusyIntervals(organizationId, dateStart, dateEnd, slotSettings.timezone)
+    : [];
+  
+  // Holidays, vacations, lunch breaks and blocked time (org/provider/operatory level)
+  const exceptionBlocks = await loadScheduleExceptionBlocks(db, organizationId, dateStart, dateEnd);
+  
   // Generate available slots
   const availableSlots: any[] = [];
+  let excludedLocal = 0;
+  let excludedGoogle = 0;
+  let excludedExceptions = 0;
+  let excludedResources = 0;
   
-  // Google Calendar: fetch busy times when configured (excludes slots busy in Google)
-  const googleBusySlotKeys = new Set<string>();
-  if (organizationId) {
-    try {
-      const googleConfigured = await isGoogleCalendarConfigured(organizationId);
-      if (googleConfigured) {
-        const calendarService = new GoogleCalendarService(organizationId);
-        const { getGoogleCalendarCredentials } = await import('@/app/lib/credentialLoader');
-        const { getSupabaseAdmin } = await import('@/app/lib/supabaseClient');
-        const creds = await getGoogleCalendarCredentials(organizationId);
-        const calendarId = creds.calendarId || 'primary';
-
-        // Get org timezone so we can correctly interpret Google Calendar busy times
-        const supabaseForTz = getSupabaseAdmin();
-        const { data: orgTzData } = await supabaseForTz
-          .from('organizations')
-          .select('timezone')
-          .eq('id', organizationId)
-          .single();
-        const orgTimezone = orgTzData?.timezone || 'America/New_York';
-
-        // Send timezone-aware request to Google freeBusy API
-        const timeMin = `${dateStart}T00:00:00`;
-        const timeMax = `${dateEnd}T23:59:59`;
-        const freeBusy = await calendarService.getFreeBusy({
-          timeMin,
-          timeMax,
-          timeZone: orgTimezone,
-          items: [{ id: calendarId }],
-        });
-        const busyTimes = freeBusy.calendars?.[calendarId]?.busy || [];
-
-        // Helper: convert a UTC Date to org's local time components
-        // Google freeBusy returns UTC times, but our slot keys are in org local time
-        const toLocalComponents = (utcDate: Date): { y: string; m: string; d: string; h: number; min: number } => {
-          const formatter = new Intl.DateTimeFormat('en-US', {
-            timeZone: orgTimezone,
-            year: 'numeric', month: '2-digit', day: '2-digit',
-            hour: '2-digit', minute: '2-digit', hour12: false,
-          });
-          const parts = formatter.formatToParts(utcDate);
-          const get = (type: string): string => parts.find(p => p.type === type)?.value || '0';
-          // Intl month/day are already zero-padded with '2-digit', year is 4-digit
-          // Note: Intl uses MM/DD/YYYY order for en-US, but formatToParts gives named parts
-          return {
-            y: get('year'),
-            m: get('month'),
-            d: get('day'),
-            h: parseInt(get('hour'), 10),
-            min: parseInt(get('minute'), 10),
-          };
-        };
-
-        busyTimes.forEach((b: { start: string; end: string }) => {
-          const busyStart = new Date(b.start);
-          const busyEnd = new Date(b.end);
-
-          // Round busyStart down to nearest 30-min boundary in org local time
-          const startLocal = toLocalComponents(busyStart);
-          const roundedMin = Math.floor(startLocal.min / 30) * 30;
-          // Rebuild a Date representing the rounded slot in org local time
-          // We iterate in 30-min increments until we pass busyEnd
-          let slotMs = busyStart.getTime() - ((startLocal.min - roundedMin) * 60000);
-          while (slotMs < busyEnd.getTime()) {
-            const lc = toLocalComponents(new Date(slotMs));
-            const key = `${lc.y}-${lc.m}-${lc.d} ${String(lc.h).padStart(2, '0')}:${String(lc.min).padStart(2, '0')}:00`;
-            googleBusySlotKeys.add(key);
-            slotMs += 30 * 60000;
-          }
-        });
-        console.log(`[GetAvailableSlots] Google Calendar: ${googleBusySlotKeys.size} busy slot keys excluded (tz: ${orgTimezone})`);
-      }
-    } catch (err) {
-      console.warn('[GetAvailableSlots] Google free/busy fetch failed, using local only:', err);
-    }
-  }
-
-  // Build booked times per provider/operatory combo
-  (allAppointments || []).forEach((apt: any) => {
-    // Skip if no datetime
-    if (!apt.appointment_datetime) return;
-    
-    const provOpKey = `${apt.provider_id}-${apt.operatory_id}`;
-    if (!bookedTimesMap.has(provOpKey)) {
-      bookedTimesMap.set(provOpKey, new Set<string>());
-    }
-    const bookedTimes = bookedTimesMap.get(provOpKey)!;
-    
-    // Handle both space and T separator for datetime
-    const dateTimeStr = String(apt.appointment_datetime);
-    let datePart: string;
-    let timePart: string;
+  const sortedSchedules = [...schedules].sort((a: any, b: any) =>
+    `${a.schedule_date} ${a.start_time}`.localeCompare(`${b.schedule_date} ${b.start_time}`)
+  );
+  
+  for (const schedule of sortedSchedules) {
+    const scheduleProvId = schedule.provider_id;
+    const scheduleOpId = schedule.operatory_id;
     
-    if (dateTimeStr.includes('T')) {
-      [datePart, timePart] = dateTimeStr.split('T');
-      // Handle timezone suffix if present (e.g., "+00:00" or "Z")
-      timePart = timePart.split('+')[0].split('Z')[0];
-    } else if (dateTimeStr.includes(' ')) {
-      [datePart, timePart] = dateTimeStr.split(' ');
-    } else {
-      // Just a date, no time - skip
-      console.log(`[GetAvailableSlots] Skipping appointment with no time: ${dateTimeStr}`);
-      return;
+    const windowStart = parseLocalDateAndTime(schedule.schedule_date, schedule.start_time);
+    const windowEnd = parseLocalDateAndTime(schedule.schedule_date, schedule.end_time);
+    if (windowStart === null || windowEnd === null || windowEnd <= windowStart) {
+      console.log(`[GetAvailableSlots] Skipping schedule ${schedule.id} with invalid window`);
+      continue;
     }
     
-    if (!timePart) return;
-    
-    const [hour, minute] = timePart.split(':').map(Number);
-    if (isNaN(hour) || isNaN(minute)) {
-      console.log(`[GetAvailableSlots] Invalid time format: ${timePart}`);
-      return;
+    let plan: ResourceSegment[];
+    try {
+      plan = buildResourcePlan(scheduleProvId, scheduleOpId, slotLength, resourceRequests);
+    } catch (planError: any) {
+      throw new Error(`Invalid Resources: ${planError.message}`);
     }
+    const visitLength = Math.max(slotLength, resourcePlanLength(plan));
     
-    const slotKey = `${datePart} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}:00`;
-    bookedTimes.add(slotKey);
-    console.log(`[GetAvailableSlots] Marked as booked: ${slotKey} for Provider ${apt.provider_id}, Operatory ${apt.operatory_id}`);
-    
-    // Also mark the slot as booked for the duration
-    const duration = apt.duration_minutes || 30;
-    for (let i = 30; i < duration; i += 30) {
-      const totalMinutes = minute + i;
-      const additionalHours = Math.floor(totalMinutes / 60);
-      const finalMinutes = totalMinutes % 60;
-      const finalHour = hour + additionalHours;
-      const slotKey2 = `${datePart} ${String(finalHour).padStart(2, '0')}:${String(finalMinutes).padStart(2, '0')}:00`;
-      bookedTimes.add(slotKey2);
-    }
-  });
-  
-  // Iterate through each day in the range
-  // Use milliseconds for incrementing to avoid Feb 28/29 bugs
-  const currentDate = new Date(startDate);
-  while (currentDate <= endDate) {
-    // Format current date as YYYY-MM-DD for comparison
-    const currentDateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
+    // Per-segment busy/blocked intervals; other providers must also be on shift
+    const checks = plan.map(segment => ({
+      segment,
+      busy: segment.type === 'operatory'
+        ? operatoryBusy.get(segment.operatoryId as number) || []
+        : providerBusy.get(segment.providerId as number) || [],
+      blocked: blockedIntervalsFor(
+        exceptionBlocks,
+        segment.type === 'operatory' ? null : segment.providerId,
+        segment.type === 'operatory' ? segment.operatoryId : null
+      ),
+      checkShift: segment.type !== 'operatory' && segment.providerId !== scheduleProvId,
+      windows: segment.type !== 'operatory'
+        ? resourceWindows.get(segment.providerId as number)?.get(schedule.schedule_date)
+        : undefined,
+    }));
     
-    // Find schedules for this specific date (new date-based system)
-    const daySchedules = (schedules || []).filter((s: any) => s.schedule_date === currentDateStr);
+    // Get provider name from schedule if available, otherwise use a default
+    const providerName = schedule.provider_name || schedule.providers?.name || `Dr. Provider ${scheduleProvId}`;
     
-    daySchedules.forEach((schedule: any) => {
-      const scheduleProvId = schedule.provider_id;
-      const scheduleOpId = schedule.operatory_id;
-      const provOpKey = `${scheduleProvId}-${scheduleOpId}`;
-      
-      // Get booked times for this provider/operatory combo
-      const bookedTimes = bookedTimesMap.get(provOpKey) || new Set<string>();
-      
-      // Parse schedule times
-      const [schedStartHour, schedStartMin] = schedule.start_time.split(':').map(Number);
-      const [schedEndHour, schedEndMin] = schedule.end_time.split(':').map(Number);
+    for (const start of generateSlotStarts({ start: windowStart, end: windowEnd }, visitLength, slotSettings.granularity)) {
+      const candidate: TimeInterval = { start, end: start + visitLength };
       
-      // Generate 30-minute slots within schedule
-      // Use local time consistently (don't convert to UTC)
-      const year = currentDate.getFullYear();
-      const month = currentDate.getMonth();
-      const day = currentDate.getDate();
+      let excludedBy: 'exception' | 'local' | 'resource' | null = null;
+      for (const check of checks) {
+        const needed = segmentInterval(start, check.segment);
+        if (findOverlap(needed, check.blocked)) {
+          excludedBy = 'exception';
+          break;
+        }
+        if (findOverlap(needed, check.busy)) {
+          excludedBy = 'local';
+          break;
+        }
+        if (check.checkShift && !coversInterval(check.windows, needed)) {
+          excludedBy = 'resource';
+          break;
+        }
+      }
       
-      const slotStart = new Date(year, month, day, schedStartHour, schedStartMin, 0, 0);
-      const scheduleEnd = new Date(year, month, day, schedEndHour, schedEndMin, 0, 0);
+      if (excludedBy === 'exception') {
+        excludedExceptions++;
+        continue;
+      }
+      if (excludedBy === 'local') {
+        excludedLocal++;
+        continue;
+      }
+      if (excludedBy === 'resource') {
+        excludedResources++;
+        continue;
+      }
+      if (findOverlap(candidate, googleBusy)) {
+        excludedGoogle++;
+        continue;
+      }
       
-      while (slotStart < scheduleEnd) {
-        const slotEnd = new Date(slotStart.getTime() + lengthMinutes * 60000);
-        
-        // Check if slot fits within schedule
-        if (slotEnd <= scheduleEnd) {
-          // Format as local time string (YYYY-MM-DD HH:mm:ss) without timezone conversion
-          const slotStartYear = slotStart.getFullYear();
-          const slotStartMonth = slotStart.getMonth();
-          const slotStartDay = slotStart.getDate();
-          const slotEndYear = slotEnd.getFullYear();
-          const slotEndMonth = slotEnd.getMonth();
-          const slotEndDay = slotEnd.getDate();
-          
-          const slotStartDateStr = `${slotStartYear}-${String(slotStartMonth + 1).padStart(2, '0')}-${String(slotStartDay).padStart(2, '0')}`;
-          const slotEndDateStr = `${slotEndYear}-${String(slotEndMonth + 1).padStart(2, '0')}-${String(slotEndDay).padStart(2, '0')}`;
-          
-          const slotStartTimeStr = `${String(slotStart.getHours()).padStart(2, '0')}:${String(slotStart.getMinutes()).padStart(2, '0')}:00`;
-          const slotEndTimeStr = `${String(slotEnd.getHours()).padStart(2, '0')}:${String(slotEnd.getMinutes()).padStart(2, '0')}:00`;
-          
-          const slotKey = `${slotStartDateStr} ${slotStartTimeStr}`;
-          
-          // Check if slot is not booked (local) and not busy in Google Calendar
-          const isLocallyBooked = bookedTimes.has(slotKey);
-          const isGoogleBusy = googleBusySlotKeys.has(slotKey);
-          if (!isLocallyBooked && !isGoogleBusy) {
-            // Get provider name from schedule if available, otherwise use a default
-            const providerName = schedule.provider_name || schedule.providers?.name || `Dr. Provider ${scheduleProvId}`;
-            
-            availableSlots.push({
-              DateTimeStart: `${slotStartDateStr} ${slotStartTimeStr}`,
-              DateTimeEnd: `${slotEndDateStr} ${slotEndTimeStr}`,
-              ProvNum: scheduleProvId,
-              OpNum: scheduleOpId,
-              LengthMinutes: lengthMinutes,
-              ProviderName: providerName
-            });
-          } else {
-            const reason = isGoogleBusy ? 'Google Calendar busy' : 'locally booked';
-            console.log(`[GetAvailableSlots] Slot ${slotKey} excluded (${reason}) for Provider ${scheduleProvId}, Operatory ${scheduleOpId}`);
-          }
-        }
-        
-        // Move to next 30-minute slot
-        slotStart.setMinutes(slotStart.getMinutes() + 30);
+      const slot: any = {
+        DateTimeStart: formatLocalDateTime(candidate.start),
+        DateTimeEnd: formatLocalDateTime(candidate.end),
+        ProvNum: scheduleProvId,
+        OpNum: scheduleOpId,
+        LengthMinutes: visitLength,
+        ProviderName: providerName
+      };
+      if (resourceRequests.length > 0) {
+        slot.Resources = formatResources(plan);
       }
-    });
-    
-    // Move to next day using milliseconds to avoid Feb 28/29 bugs
-    currentDate.setTime(currentDate.getTime() + 24 * 60 * 60 * 1000);
+      availableSlots.push(slot);
+    }
   }
   
-  // Sort by datetime
-  availableSlots.sort((a, b) => 
-    new Date(a.DateTimeStart).getTime() - new Date(b.DateTimeStart).getTime()
-  );
+  // Sort by datetime (string compare is safe for YYYY-MM-DD HH:mm:ss)
+  availableSlots.sort((a, b) => a.DateTimeStart.localeCompare(b.DateTimeStart));
   
-  // Summarize booked times for logging
-  const allBookedTimes: string[] = [];
-  bookedTimesMap.forEach((times, provOp) => {
-    times.forEach(t => allBookedTimes.push(`${provOp}@${t}`));
-  });
-  console.log(`[GetAvailableSlots] Returning ${availableSlots.length} available slots. Booked times: ${allBookedTimes.join(', ') || 'none'}`);
+  console.log(
+    `[GetAvailableSlots] Returning ${availableSlots.length} available slots ` +
+    `(excluded: ${excludedExceptions} schedule exceptions, ${excludedLocal} locally booked, ` +
+    `${excludedResources} resource off shift, ${excludedGoogle} Google Calendar busy)`
+  );
   
   return availableSlots;
 }
 
+/**
+ * Schedule windows for the given providers, keyed by provider id then date.
+ * Providers with no schedule on a date have no entry there and are off shift.
+ */
+async function loadProviderWindows(
+  db: any,
+  organizationId: string | undefined,
+  providerIds: number[],
+  dateStart: string,
+  dateEnd: string
+): Promise<Map<number, Map<string, TimeInterval[]>>> {
+  const windows = new Map<number, Map<string, TimeInterval[]>>();
+  if (providerIds.length === 0) return windows;
+  
+  let query = db
+    .from('provider_schedules')
+    .select('provider_id, schedule_date, start_time, end_time')
+    .in('provider_id', Array.from(new Set(providerIds)))
+    .eq('is_active', true)
+    .gte('schedule_date', dateStart)
+    .lte('schedule_date', dateEnd);
+  
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+  
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch resource schedules: ${error.message}`);
+  }
+  
+  for (const row of data || []) {
+    const start = parseLocalDateAndTime(row.schedule_date, row.start_time);
+    const end = parseLocalDateAndTime(row.schedule_date, row.end_time);
+    if (start === null || end === null || end <= start) continue;
+    
+    if (!windows.has(row.provider_id)) windows.set(row.provider_id, new Map());
+    const byDate = windows.get(row.provider_id)!;
+    if (!byDate.has(row.schedule_date)) byDate.set(row.schedule_date, []);
+    byDate.get(row.schedule_date)!.push({ start, end });
+  }
+  
+  // Back-to-back shifts (e.g. split by operatory) count as one window
+  for (const byDate of windows.values()) {
+    for (const [date, intervals] of byDate) {
+      byDate.set(date, mergeIntervals(intervals));
+    }
+  }
+  
+  return windows;
+}
+
+/**
+ * Fetch Google Calendar busy periods as wall-clock intervals in the org timezone.
+ * Reads the busy cache kept warm by incremental sync; only when it's cold does
+ * this call freeBusy live (and start warming the cache in the background).
+ * Returns an empty list when Google isn't configured or the call fails.
+ */
+async function getGoogleBusyIntervals(
+  organizationId: string,
+  dateStart: string,
+  dateEnd: string,
+  orgTimezone: string
+): Promise<TimeInterval[]> {
+  try {
+    const googleConfigured = await isGoogleCalendarConfigured(organizationId);
+    if (!googleConfigured) return [];
+    
+    const cached = await getCachedBusyIntervals(organizationId, dateStart, dateEnd);
+    if (cached) {
+      console.log(`[GetAvailableSlots] Google Calendar (cached): ${cached.length} busy intervals`);
+      return cached;
+    }
+    
+    const { SyncManager } = await import('@/app/lib/integrations/SyncManager');
+    new SyncManager(organizationId).syncGoogleCalendarChanges().catch(err => {
+      console.warn('[GetAvailableSlots] Google Calendar cache warm-up failed:', err);
+    });
+    
+    const calendarService = new GoogleCalendarService(organizationId);
+    const { getGoogleCalendarCredentials } = await import('@/app/lib/credentialLoader');
+    const creds = await getGoogleCalendarCredentials(organizationId);
+    const calendarId = creds.calendarId || 'primary';
+    
+    // Send timezone-aware request to Google freeBusy API
+    const freeBusy = await calendarService.getFreeBusy({
+      timeMin: `${dateStart}T00:00:00`,
+      timeMax: `${dateEnd}T23:59:59`,
+      timeZone: orgTimezone,
+      items: [{ id: calendarId }],
+    });
+    const busyTimes = freeBusy.calendars?.[calendarId]?.busy || [];
+    
+    // Google returns real instants (UTC); our intervals are org-local wall clock
+    const intervals = mergeIntervals(busyTimes.map((b: { start: string; end: string }) => ({
+      start: instantToLocalMinutes(new Date(b.start), orgTimezone),
+      end: instantToLocalMinutes(new Date(b.end), orgTimezone),
+    })));
+    
+    console.log(`[GetAvailableSlots] Google Calendar: ${intervals.length} busy intervals (tz: ${orgTimezone})`);
+    return intervals;
+  } catch (err) {
+    console.warn('[GetAvailableSlots] Google free/busy fetch failed, using local only:', err);
+    return [];
+  }
+}
+
 /**
  * Create new appointment
  */
 export async function CreateAppointment(parameters: Record<string, any>, db: any = defaultDb): Promise<any> {
-  const { PatNum, AptDateTime, Op, ProvNum, Note, Pattern, IsHygiene, AptStatus = 'Scheduled', organization_id } = parameters;
+  const {
+    PatNum,
+    AptDateTime,
+    Op,
+    ProvNum,
+    Note,
+    Pattern,
+    IsHygiene,
+    AptStatus = 'Scheduled',
+    organization_id,
+    lengthMinutes,
+    TreatmentCode,
+    AppointmentType,
+    Resources
+  } = parameters;
   
   // Validate required fields
   if (!PatNum) {
@@ -502,6 +638,8 @@ export async function CreateAppointment(parameters: Record<string, any>, db: any
   await validateProvider(providerId, db);
   await validateOperatory(operatoryId, db);
   
+  const resourceRequests = parseResourceRequests(Resources);
+  
   // Parse datetime
   let appointmentDateTime: string;
   if (AptDateTime.includes('T')) {
@@ -510,11 +648,24 @@ export async function CreateAppointment(parameters: Record<string, any>, db: any
     appointmentDateTime = AptDateTime.substring(0, 19);
   }
   
-  // Calculate duration from pattern or use default
-  const duration = Pattern ? calculateDurationFromPattern(Pattern) : 30;
+  // Duration: explicit OpenDental pattern first, then length / treatment / appointment type
+  const resolved = await resolveAppointmentDuration(db, {
+    lengthMinutes,
+    TreatmentCode,
+    AppointmentType
+  }, organization_id);
+  const requestedLength = Pattern ? calculateDurationFromPattern(Pattern) : resolved.minutes;
   
-  // Check for conflicts
-  const conflictCheck = await checkConflict(providerId, operatoryId, appointmentDateTime, duration, db);
+  // The provider and room must be able to perform the treatment
+  await validateCapabilities(providerId, operatoryId, resolved.requirements, resolved.treatmentName || resolved.treatmentCode, db);
+  
+  // Assistants / extra chairs, each for their part of the visit
+  const plan = buildResourcePlan(providerId, operatoryId, requestedLength, resourceRequests);
+  await validateResourcePlan(plan, providerId, operatoryId, db);
+  const duration = Math.max(requestedLength, resourcePlanLength(plan));
+  
+  // Check for conflicts across every resource in the plan
+  const conflictCheck = await checkConflict(providerId, operatoryId, appointmentDateTime, duration, db, undefined, organization_id, plan);
   if (conflictCheck.hasConflict) {
     throw new Error(conflictCheck.message || 'Time slot conflict detected');
   }
@@ -533,7 +684,8 @@ export async function CreateAppointment(parameters: Record<string, any>, db: any
     operatory_id: operatoryId,
     appointment_datetime: appointmentDateTime,
     duration_minutes: duration,
-    appointment_type: Note || 'General',
+    appointment_type: AppointmentType || Note || 'General',
+    treatment_code: resolved.treatmentCode || (TreatmentCode ? String(TreatmentCode).toUpperCase() : null),
     status: AptStatus,
     notes: Note || ''
   };
@@ -541,6 +693,17 @@ export async function CreateAppointment(parameters: Record<string, any>, db: any
   // Pass sync context to SyncManager for channel-aware syncing
   const data = await syncManager.createAppointment(appointmentData, syncContext);
   
+  if (!isDefaultResourcePlan(plan, duration)) {
+    try {
+      await saveAppointmentResources(db, data.id, organization_id, plan, duration);
+    } catch (resourceError: any) {
+      throw new Error(
+        `Appointment ${data.id} was booked but its resources could not be saved: ${resourceError.message}. ` +
+        `Retry with UpdateAppointment and the same Resources.`
+      );
+    }
+  }
+  
   return {
     AptNum: data.id,
     PatNum: data.patient_id,
@@ -548,7 +711,9 @@ export async function CreateAppointment(parameters: Record<string, any>, db: any
     Op: data.operatory_id,
     AptDateTime: data.appointment_datetime,
     AptStatus: data.status,
-    Note: data.notes || data.appointment_type || ''
+    Note: data.notes || data.appointment_type || '',
+    LengthMinutes: duration,
+    Resources: formatResources(plan)
   };
 }
 
@@ -556,7 +721,7 @@ export async function CreateAppointment(parameters: Record<string, any>, db: any
  * Update appointment
  */
 export async function UpdateAppointment(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
-  const { AptNum, AppointmentId, AptDateTime, Op, ProvNum, AptStatus, Note } = parameters;
+  const { AptNum, AppointmentId, AptDateTime, Op, ProvNum, AptStatus, Note, Resources } = parameters;
   const appointmentId = AptNum || AppointmentId;
   
   if (!appointmentId) {
@@ -591,26 +756,63 @@ export async function UpdateAppointment(parameters: Record<string, any>, db: any
   if (AptStatus) updateData.status = AptStatus;
   if (Note !== undefined) updateData.notes = Note;
   
-  // Check for conflicts if datetime changed
-  if (updateData.appointment_datetime) {
+  const resourcesChanged = Resources !== undefined;
+  let plan: ResourceSegment[] | null = null;
+  
+  // Moving the visit or swapping people/rooms re-checks every resource it holds
+  if (updateData.appointment_datetime || updateData.provider_id || updateData.operatory_id || resourcesChanged) {
     const { data: existing } = await db
       .from('appointments')
-      .select('duration_minutes, provider_id, operatory_id')
+      .select('id, appointment_datetime, duration_minutes, provider_id, operatory_id, treatment_code')
       .eq('id', appointmentId)
       .single();
     
     if (existing) {
-      const duration = existing.duration_minutes || 30;
       const provId = updateData.provider_id || existing.provider_id;
       const opId = updateData.operatory_id || existing.operatory_id;
+      let duration = existing.duration_minutes || 30;
+      
+      // A new provider or room must still be able to perform the booked treatment
+      if ((updateData.provider_id || updateData.operatory_id) && existing.treatment_code) {
+        const treatment = await resolveAppointmentDuration(db, { TreatmentCode: existing.treatment_code }, organizationId);
+        await validateCapabilities(
+          provId,
+          opId,
+          treatment.requirements,
+          treatment.treatmentName || existing.treatment_code,
+          db
+        );
+      }
+      
+      if (resourcesChanged) {
+        plan = buildResourcePlan(provId, opId, duration, parseResourceRequests(Resources));
+      } else {
+        // Keep the stored plan, following the primary provider/room if they changed
+        const stored = await loadAppointmentResources(db, organizationId, [existing.id]);
+        plan = stored.has(existing.id)
+          ? stored.get(existing.id)!.map(row => {
+              const segment = rowToSegment(row);
+              if (segment.type === 'provider' && segment.providerId === existing.provider_id) segment.providerId = provId;
+              if (segment.type === 'operatory' && segment.operatoryId === existing.operatory_id) segment.operatoryId = opId;
+              return segment;
+            })
+          : defaultResourcePlan(provId, opId, duration);
+      }
+      await validateResourcePlan(plan, provId, opId, db);
+      duration = Math.max(duration, resourcePlanLength(plan));
+      if (duration !== existing.duration_minutes) {
+        updateData.duration_minutes = duration;
+      }
       
       const conflictCheck = await checkConflict(
         provId, 
         opId, 
-        updateData.appointment_datetime, 
+        updateData.appointment_datetime || existing.appointment_datetime, 
         duration,
         db,
-        appointmentId // Exclude current appointment
+        appointmentId, // Exclude current appointment
+        organizationId,
+        plan
       );
       
       if (conflictCheck.hasConflict) {
@@ -640,6 +842,10 @@ export async function UpdateAppointment(parameters: Record<string, any>, db: any
     throw new Error(`Failed to update appointment: ${error?.message || 'No data returned'}`);
   }
   
+  if (plan && (resourcesChanged || updateData.provider_id || updateData.operatory_id)) {
+    await saveAppointmentResources(db, data.id, data.organization_id, plan, data.duration_minutes || 30);
+  }
+  
   return {
     AptNum: data.id,
     PatNum: data.patient_id,
@@ -669,7 +875,7 @@ export async function BreakAppointment(parameters: Record<string, any>, db: any
   // Check appointment status
   let fetchQuery = db
     .from('appointments')
-    .select('status')
+    .select('*')
     .eq('id', appointmentId);
   
   // CRITICAL: Filter by organization for multi-tenancy
@@ -707,10 +913,13 @@ export async function BreakAppointment(parameters: Record<string, any>, db: any
     throw new Error(`Failed to break appointment: ${error?.message || 'No data returned'}`);
   }
   
+  const waitlist = await handleFreedSlot(db, appointment, sendToUnscheduledList);
+  
   return {
     AptNum: data.id,
     AptStatus: data.status,
-    success: true
+    success: true,
+    ...waitlist
   };
 }
 
@@ -729,6 +938,18 @@ export async function DeleteAppointment(parameters: Record<string, any>, db: any
   // Validate appointment exists (with org filtering)
   await validateAppointment(appointmentId, db, organizationId);
   
+  let fetchQuery = db
+    .from('appointments')
+    .select('*')
+    .eq('id', appointmentId);
+  
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    fetchQuery = fetchQuery.eq('organization_id', organizationId);
+  }
+  
+  const { data: appointment } = await fetchQuery.single();
+  
   let deleteQuery = db
     .from('appointments')
     .delete()
@@ -745,11 +966,70 @@ export async function DeleteAppointment(parameters: Record<string, any>, db: any
     throw new Error(`Failed to delete appointment: ${error.message}`);
   }
   
-  return { success: true, AptNum: appointmentId };
+  const waitlist = appointment?.status === 'Scheduled'
+    ? await handleFreedSlot(db, { ...appointment, id: null }, false)
+    : {};
+  
+  return { success: true, AptNum: appointmentId, ...waitlist };
 }
 
 // Helper functions
 
+/**
+ * A scheduled appointment was broken or deleted: optionally put the patient on
+ * the unscheduled list, then offer the freed time to the waitlist.
+ * Never fails the cancellation itself.
+ */
+async function handleFreedSlot(db: any, appointment: any, sendToUnscheduledList: boolean): Promise<Record<string, any>> {
+  const result: Record<string, any> = {};
+  const organizationId = appointment.organization_id;
+  
+  if (sendToUnscheduledList) {
+    const { data: entry, error } = await db
+      .from('waitlist_entries')
+      .insert({
+        organization_id: organizationId,
+        patient_id: appointment.patient_id,
+        preferred_provider_ids: [appointment.provider_id],
+        length_minutes: appointment.duration_minutes || null,
+        treatment_code: appointment.treatment_code || null,
+        appointment_type: appointment.appointment_type || null,
+        source: 'unscheduled',
+        auto_offer: false,
+        original_appointment_id: appointment.id,
+        notes: `Broken appointment from ${appointment.appointment_datetime}`
+      })
+      .select('id')
+      .single();
+    
+    if (error) {
+      console.warn('[BreakAppointment] Failed to add to unscheduled list:', error.message);
+    } else {
+      result.UnscheduledListNum = entry.id;
+    }
+  }
+  
+  const start = parseLocalDateTime(appointment.appointment_datetime);
+  if (start === null || !organizationId) return result;
+  
+  try {
+    const offer = await releaseSlotToWaitlist(db, organizationId, {
+      providerId: appointment.provider_id,
+      operatoryId: appointment.operatory_id,
+      start,
+      lengthMinutes: appointment.duration_minutes || DEFAULT_APPOINTMENT_MINUTES,
+      sourceAppointmentId: appointment.id || undefined,
+      releasedByPatientId: appointment.patient_id
+    });
+    result.WaitlistOfferSent = !!offer;
+  } catch (waitlistError: any) {
+    console.warn('[Waitlist] Failed to offer freed slot:', waitlistError.message);
+    result.WaitlistOfferSent = false;
+  }
+  
+  return result;
+}
+
 /**
  * Validate that a patient exists
  */
@@ -803,6 +1083,126 @@ async function validateOperatory(operatoryId: number, db: any): Promise<void> {
   }
 }
 
+/**
+ * Validate that the provider has a required specialty and the operatory
+ * has every required tag for the treatment being booked
+ */
+async function validateCapabilities(
+  providerId: number,
+  operatoryId: number,
+  requirements: TreatmentRequirements,
+  treatmentLabel: string | undefined,
+  db: any
+): Promise<void> {
+  if (!hasRequirements(requirements)) return;
+  
+  const label = treatmentLabel || 'this treatment';
+  
+  if (requirements.specialties.length > 0) {
+    const { data: provider } = await db
+      .from('providers')
+      .select('id, first_name, last_name, specialty_tags')
+      .eq('id', providerId)
+      .single();
+    
+    if (!provider || !providerQualifies(provider.specialty_tags, requirements)) {
+      const name = provider ? `Dr. ${provider.first_name} ${provider.last_name}` : `Provider ${providerId}`;
+      throw new Error(
+        `${name} cannot perform ${label}: it requires ${describeRequirements({ ...requirements, operatoryTags: [] })}. ` +
+        `Use GetAvailableSlots with the TreatmentCode to find a qualified provider.`
+      );
+    }
+  }
+  
+  if (requirements.operatoryTags.length > 0) {
+    const { data: operatory } = await db
+      .from('operatories')
+      .select('id, name, tags')
+      .eq('id', operatoryId)
+      .single();
+    
+    if (!operatory || !operatoryQualifies(operatory.tags, requirements)) {
+      const name = operatory?.name || `Operatory ${operatoryId}`;
+      throw new Error(
+        `${name} is not equipped for ${label}: it requires ${describeRequirements({ ...requirements, specialties: [] })}. ` +
+        `Use GetAvailableSlots with the TreatmentCode to find a suitable room.`
+      );
+    }
+  }
+}
+
+/**
+ * Validate the extra providers/operatories in a resource plan and make sure
+ * no resource is booked twice at once within the same visit
+ */
+async function validateResourcePlan(
+  plan: ResourceSegment[],
+  providerId: number,
+  operatoryId: number,
+  db: any
+): Promise<void> {
+  const providerIds = new Set<number>();
+  const operatoryIds = new Set<number>();
+  
+  plan.forEach((segment, index) => {
+    if (segment.type === 'operatory') {
+      if (segment.operatoryId !== operatoryId) operatoryIds.add(segment.operatoryId as number);
+    } else if (segment.providerId !== providerId) {
+      providerIds.add(segment.providerId as number);
+    }
+    
+    const sameResource = plan.slice(index + 1).find(other =>
+      (segment.type === 'operatory') === (other.type === 'operatory') &&
+      (segment.type === 'operatory'
+        ? other.operatoryId === segment.operatoryId
+        : other.providerId === segment.providerId) &&
+      findOverlap(segmentInterval(0, segment), [segmentInterval(0, other)])
+    );
+    if (sameResource) {
+      throw new Error(`${describeSegment(segment)} is assigned twice at overlapping times in Resources`);
+    }
+  });
+  
+  for (const id of providerIds) {
+    await validateProvider(id, db);
+  }
+  for (const id of operatoryIds) {
+    await validateOperatory(id, db);
+  }
+}
+
+/**
+ * Replace the stored resource rows of an appointment.
+ * Plain provider + operatory bookings keep no rows.
+ */
+async function saveAppointmentResources(
+  db: any,
+  appointmentId: number,
+  organizationId: string,
+  plan: ResourceSegment[],
+  durationMinutes: number
+): Promise<void> {
+  const { error: deleteError } = await db
+    .from('appointment_resources')
+    .delete()
+    .eq('appointment_id', appointmentId)
+    .eq('organization_id', organizationId);
+  
+  if (deleteError) {
+    throw new Error(`Failed to update appointment resources: ${deleteError.message}`);
+  }
+  
+  if (isDefaultResourcePlan(plan, durationMinutes)) return;
+  
+  const { error } = await db
+    .from('appointment_resources')
+    .insert(plan.map(segment => segmentToRow(segment, appointmentId, organizationId)));
+  
+  if (error) {
+    throw new Error(`Failed to save appointment resources: ${error.message}`);
+  }
+}
+
 /**
  * Validate that an appointment exists
  */
@@ -844,6 +1244,11 @@ function calculateDurationFromPattern(pattern: string): number {
 
 /**
  * Check for scheduling conflicts
+ * Uses the same interval overlap logic as GetAvailableSlots: the requested
+ * [start, start + duration) must not overlap any scheduled appointment for the
+ * same provider (in any room) or the same operatory (with any provider).
+ * With a resource plan each segment (assistant, extra chair, ...) is checked
+ * for its own offset and length.
  */
 async function checkConflict(
   providerId: number,
@@ -851,10 +1256,21 @@ async function checkConflict(
   datetime: string,
   durationMinutes: number,
   db: any,
-  excludeAptId?: number
+  excludeAptId?: number,
+  organizationId?: string,
+  resources?: ResourceSegment[]
 ): Promise<{ hasConflict: boolean; message?: string }> {
-  const appointmentStart = new Date(datetime);
-  const appointmentEnd = new Date(appointmentStart.getTime() + durationMinutes * 60000);
+  const requestedStart = parseLocalDateTime(datetime);
+  if (requestedStart === null) {
+    throw new Error(`Invalid appointment datetime: ${datetime}. Use YYYY-MM-DD HH:mm:ss`);
+  }
+  const plan = resources && resources.length > 0
+    ? resources
+    : defaultResourcePlan(providerId, operatoryId, durationMinutes);
+  const requested: TimeInterval = {
+    start: requestedStart,
+    end: requestedStart + Math.max(durationMinutes, resourcePlanLength(plan))
+  };
   
   // Use consistent date formatting (local time, no UTC conversion)
   // Extract date from the datetime string directly instead of using toISOString()
@@ -862,41 +1278,92 @@ async function checkConflict(
     ? datetime.split('T')[0] 
     : datetime.split(' ')[0];
   
+  // Holidays, lunch breaks and blocked time win over any open schedule
+  const exceptionBlocks = await loadScheduleExceptionBlocks(
+    db,
+    organizationId,
+    datePart,
+    formatLocalDate(requested.end - 1)
+  );
+  for (const segment of plan) {
+    const blockedBy = findBlockingException(
+      exceptionBlocks,
+      segment.type === 'operatory' ? null : segment.providerId,
+      segment.type === 'operatory' ? segment.operatoryId : null,
+      segmentInterval(requestedStart, segment)
+    );
+    if (blockedBy) {
+      const when = blockedBy.allDay
+        ? `all day on ${blockedBy.date}`
+        : `from ${formatLocalDateTime(blockedBy.interval.start)} to ${formatLocalDateTime(blockedBy.interval.end)}`;
+      return {
+        hasConflict: true,
+        message: `Time slot unavailable: ${blockedBy.title} (${blockedBy.type}) ${when}`
+      };
+    }
+  }
+  
+  const providerIds = Array.from(new Set(plan.filter(s => s.type !== 'operatory').map(s => s.providerId)));
+  const operatoryIds = Array.from(new Set(plan.filter(s => s.type === 'operatory').map(s => s.operatoryId)));
+  const resourceFilter = [
+    providerIds.length > 0 ? `provider_id.in.(${providerIds.join(',')})` : null,
+    operatoryIds.length > 0 ? `operatory_id.in.(${operatoryIds.join(',')})` : null,
+  ].filter(Boolean).join(',');
+  
+  // Appointments that day holding one of our resources as a secondary assignment
+  let resourceQuery = db
+    .from('appointment_resources')
+    .select('appointment_id, appointments!inner(appointment_datetime, status)')
+    .or(resourceFilter)
+    .eq('appointments.status', 'Scheduled')
+    .gte('appointments.appointment_datetime', datePart + ' 00:00:00')
+    .lte('appointments.appointment_datetime', datePart + ' 23:59:59');
+  
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    resourceQuery = resourceQuery.eq('organization_id', organizationId);
+  }
+  
+  const { data: resourceRows } = await resourceQuery;
+  const secondaryIds = Array.from(new Set((resourceRows || []).map((r: any) => r.appointment_id)));
+  
   let query = db
     .from('appointments')
     .select('*')
-    .eq('provider_id', providerId)
-    .eq('operatory_id', operatoryId)
+    .or(secondaryIds.length > 0 ? `${resourceFilter},id.in.(${secondaryIds.join(',')})` : resourceFilter)
     .in('status', ['Scheduled'])
     .gte('appointment_datetime', datePart + ' 00:00:00')
     .lte('appointment_datetime', datePart + ' 23:59:59');
   
-  console.log(`[checkConflict] Checking for conflicts on ${datePart} for Provider ${providerId}, Operatory ${operatoryId}`);
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+  
+  console.log(`[checkConflict] Checking for conflicts on ${datePart} for ${plan.map(describeSegment).join(', ')}`);
   
   if (excludeAptId) {
     query = query.neq('id', excludeAptId);
   }
   
-  const { data: conflicting } = await query;
+  const { data: existing } = await query;
   
-  if (!conflicting || conflicting.length === 0) {
+  if (!existing || existing.length === 0) {
     return { hasConflict: false };
   }
   
-  // Check for time overlap
-  for (const apt of conflicting) {
-    const aptStart = new Date(apt.appointment_datetime);
-    const aptEnd = new Date(aptStart.getTime() + (apt.duration_minutes || 30) * 60000);
-    
-    // Check if appointments overlap
-    if (appointmentStart < aptEnd && appointmentEnd > aptStart) {
-      return {
-        hasConflict: true,
-        message: `Time slot conflict: Provider ${providerId} and Operatory ${operatoryId} already have an appointment at ${apt.appointment_datetime}`
-      };
-    }
+  const resourcesByAppointment = await loadAppointmentResources(
+    db,
+    organizationId,
+    existing.map((apt: any) => apt.id)
+  );
+  const conflict = findResourceConflict(requestedStart, plan, existing, resourcesByAppointment);
+  if (conflict) {
+    return {
+      hasConflict: true,
+      message: `Time slot conflict: ${describeSegment(conflict.segment)} already has an appointment from ${formatLocalDateTime(conflict.interval.start)} to ${formatLocalDateTime(conflict.interval.end)}`
+    };
   }
   
   return { hasConflict: false };
 }
-
@@ -38,4 +38,24 @@ export { CreateSchedule } from './schedules';
 export { UpdateSchedule } from './schedules';
 export { DeleteSchedule } from './schedules';
 export { CreateDefaultSchedules } from './schedules';
-export { CheckScheduleConflicts } from './schedules';
\ No newline at end of file
+export { CheckScheduleConflicts } from './schedules';
+export { GetScheduleExceptions } from './scheduleExceptions';
+export { CreateScheduleException } from './scheduleExceptions';
+export { UpdateScheduleException } from './scheduleExceptions';
+export { DeleteScheduleException } from './scheduleExceptions';
+export { GetBlockedTimes } from './scheduleExceptions';
+
+export { GetScheduleTemplates } from './scheduleTemplates';
+export { GetScheduleTemplate } from './scheduleTemplates';
+export { CreateScheduleTemplate } from './scheduleTemplates';
+export { UpdateScheduleTemplate } from './scheduleTemplates';
+export { DeleteScheduleTemplate } from './scheduleTemplates';
+export { MaterializeScheduleTemplates } from './scheduleTemplates';
+
+export { GetWaitlist } from './waitlist';
+export { AddToWaitlist } from './waitlist';
+export { UpdateWaitlistEntry } from './waitlist';
+export { RemoveFromWaitlist } from './waitlist';
+export { GetWaitlistOffers } from './waitlist';
+export { OfferSlotToWaitlist } from './waitlist';
+export { ProcessWaitlist } from './waitlist';
@@ -32,6 +32,7 @@ export async function GetOperatories(parameters: Record<string, any> = {}, db: a
     OpName: op.name,
     Abbrev: op.name.substring(0, 10),
     IsHygiene: op.tags?.includes('Hygiene') ? 1 : 0,
+    Tags: op.tags || [],
     IsHidden: op.is_active ? 0 : 1,
     ProvDentist: null,
     ProvHygienist: null,
@@ -71,6 +72,7 @@ export async function GetOperatory(parameters: Record<string, any>, db: any = de
     OpName: data.name,
     Abbrev: data.name.substring(0, 10),
     IsHygiene: data.tags?.includes('Hygiene') ? 1 : 0,
+    Tags: data.tags || [],
     IsHidden: data.is_active ? 0 : 1,
     ProvDentist: null,
     ProvHygienist: null,
@@ -100,7 +102,7 @@ export async function CreateOperatory(parameters: Record<string, any>, db: any =
   // Handle tags - can be array or determined from IsHygiene flag
   let tagsArray: string[] = [];
   if (tags) {
-    tagsArray = Array.isArray(tags) ? tags : tags.split(',').map((t: string) => t.trim());
+    tagsArray = Array.isArray(tags) ? tags : tags.split(',').map((t: string) => t.trim()).filter(Boolean);
   } else {
     // If IsHygiene or isHygiene is true, add Hygiene tag
     if (IsHygiene === 1 || IsHygiene === true || isHygiene === true) {
@@ -128,6 +130,7 @@ export async function CreateOperatory(parameters: Record<string, any>, db: any =
     OpName: data.name,
     Abbrev: data.name.substring(0, 10),
     IsHygiene: data.tags?.includes('Hygiene') ? 1 : 0,
+    Tags: data.tags || [],
     IsHidden: data.is_active ? 0 : 1,
     ProvDentist: null,
     ProvHygienist: null,
@@ -174,7 +177,7 @@ export async function UpdateOperatory(parameters: Record<string, any>, db: any =
   if (tags !== undefined) {
     updateData.tags = Array.isArray(tags) 
       ? tags 
-      : tags.split(',').map((t: string) => t.trim());
+      : tags.split(',').map((t: string) => t.trim()).filter(Boolean);
   } else if (IsHygiene !== undefined || isHygiene !== undefined) {
     // Update tags based on Hygiene flag
     const isHygieneFlag = IsHygiene === 1 || IsHygiene === true || isHygiene === true;
@@ -217,6 +220,7 @@ export async function UpdateOperatory(parameters: Record<string, any>, db: any =
     OpName: data.name,
     Abbrev: data.name.substring(0, 10),
     IsHygiene: data.tags?.includes('Hygiene') ? 1 : 0,
+    Tags: data.tags || [],
     IsHidden: data.is_active ? 0 : 1,
     ProvDentist: null,
     ProvHygienist: null,
@@ -5,6 +5,7 @@
  */
 
 import { db as defaultDb } from '@/app/lib/db';
+import { findPatientMatches, recordDuplicateCandidate } from '@/app/lib/patients/duplicates';
 
 /**
  * Get all patients (for admin/dashboard use)
@@ -136,7 +137,7 @@ export async function GetPatient(parameters: Record<string, any>, db: any = defa
  * Required: FName, LName, Birthdate, WirelessPhone
  */
 export async function CreatePatient(parameters: Record<string, any>, db: any = defaultDb): Promise<any> {
-  const { FName, LName, Birthdate, WirelessPhone, Email, organization_id } = parameters || {};
+  const { FName, LName, Birthdate, WirelessPhone, Email, AllowDuplicate, organization_id } = parameters || {};
   
   // Collect all missing required parameters
   const missing: string[] = [];
@@ -186,6 +187,38 @@ export async function CreatePatient(parameters: Record<string, any>, db: any = d
     ? Birthdate.split('T')[0] 
     : Birthdate.split(' ')[0];
   
+  // Reuse the existing record when this is clearly a patient we already have
+  // (callers often don't find themselves by phone, e.g. calling from work)
+  let possibleMatches = [];
+  if (organization_id) {
+    try {
+      const matches = await findPatientMatches(organization_id, {
+        firstName: FName,
+        lastName: LName,
+        phone: cleanedPhone,
+        email: Email,
+        birthdate: birthdateFormatted,
+      });
+      const existing = matches.find(match => match.confidence === 'high');
+      if (existing && !AllowDuplicate) {
+        console.log(`[CreatePatient] Matched existing patient ${existing.patient.id} (score ${existing.score}: ${existing.reasons.join(', ')})`);
+        return {
+          PatNum: existing.patient.id,
+          FName: existing.patient.first_name,
+          LName: existing.patient.last_name,
+          WirelessPhone: existing.patient.phone || '',
+          Birthdate: existing.patient.date_of_birth || '',
+          ExistingPatient: true,
+          message: 'This patient already has a record, so no new record was created. Use this PatNum.'
+        };
+      }
+      possibleMatches = matches;
+    } catch (matchError) {
+      // Duplicate detection must never block registering a patient
+      console.error('[CreatePatient] Duplicate check failed:', matchError);
+    }
+  }
+  
   const { data, error } = await db
     .from('patients')
     .insert({
@@ -203,6 +236,15 @@ export async function CreatePatient(parameters: Record<string, any>, db: any = d
     throw new Error(`Failed to create patient: ${error?.message || 'No data returned'}`);
   }
   
+  // Possible (not certain) matches go to the review queue on the patients page
+  for (const match of possibleMatches) {
+    try {
+      await recordDuplicateCandidate(organization_id, data.id, match.patient.id, match, 'agent');
+    } catch (queueError) {
+      console.error('[CreatePatient] Failed to queue duplicate candidate:', queueError);
+    }
+  }
+  
   return {
     PatNum: data.id,
     FName: data.first_name,
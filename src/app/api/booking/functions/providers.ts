@@ -5,6 +5,7 @@
  */
 
 import { db as defaultDb } from '@/app/lib/db';
+import { assertCanAddSeat } from '@/app/lib/billing/entitlements';
 
 /**
  * Get all active providers with their schedules
@@ -98,6 +99,11 @@ export async function CreateProvider(parameters: Record<string, any>, db: any =
   if (!orgId) {
     throw new Error('organization_id is required');
   }
+
+  // Plan limit on active providers (max_providers)
+  if (is_active !== false) {
+    await assertCanAddSeat(orgId, 'providers');
+  }
   
   // Handle specialty tags - can be array or comma-separated string
   let tagsArray: string[] = [];
@@ -182,6 +188,10 @@ export async function UpdateProvider(parameters: Record<string, any>, db: any =
   }
   
   if (is_active !== undefined) {
+    // Reactivating takes a provider seat again
+    if (is_active && !existing.is_active) {
+      await assertCanAddSeat(existing.organization_id, 'providers');
+    }
     updateData.is_active = is_active;
   }
   
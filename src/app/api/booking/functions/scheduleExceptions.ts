@@ -0,0 +1,395 @@
+/**
+ * Schedule Exception Functions
+ *
+ * Holidays, vacations, lunch breaks, blocked time and operatory maintenance.
+ * Exceptions REMOVE availability from provider_schedules:
+ * - scope 'organization' blocks the whole clinic
+ * - scope 'provider' blocks one provider in every operatory
+ * - scope 'operatory' blocks one operatory for every provider
+ *
+ * GetAvailableSlots and appointment conflict checks honor these automatically.
+ */
+
+import { db as defaultDb } from '@/app/lib/db';
+import {
+  EXCEPTION_SCOPES,
+  EXCEPTION_TYPES,
+  EXCEPTION_RECURRENCES,
+  loadScheduleExceptionBlocks,
+  exceptionAppliesTo,
+} from '@/app/lib/scheduling/exceptions';
+import { formatLocalDateTime } from '@/app/lib/scheduling/intervals';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Normalize "9:00" / "09:00" / "09:00:00" to "09:00:00" (invalid input is returned as-is)
+ */
+function normalizeTime(value: any): string | null {
+  if (!value) return null;
+  const text = String(value).trim();
+  if (!TIME_PATTERN.test(text)) return text;
+  const [h, m, sec = '00'] = text.split(':');
+  return `${h.padStart(2, '0')}:${m}:${sec}`;
+}
+
+/**
+ * Map a schedule_exceptions row to the API response format
+ */
+function formatException(row: any): any {
+  return {
+    ExceptionNum: row.id,
+    Scope: row.scope,
+    ProvNum: row.provider_id,
+    ProviderName: row.providers
+      ? `Dr. ${row.providers.first_name} ${row.providers.last_name}`
+      : null,
+    OpNum: row.operatory_id,
+    OperatoryName: row.operatories?.name || null,
+    ExceptionType: row.exception_type,
+    Title: row.title,
+    StartDate: row.start_date,
+    EndDate: row.end_date,
+    StartTime: row.start_time,
+    EndTime: row.end_time,
+    AllDay: !row.start_time || !row.end_time,
+    Recurrence: row.recurrence,
+    RecurrenceInterval: row.recurrence_interval,
+    RecurrenceDays: row.recurrence_days || [],
+    RecurrenceUntil: row.recurrence_until,
+    Notes: row.notes,
+    IsActive: row.is_active
+  };
+}
+
+/**
+ * Normalize and validate exception fields from either OpenDental-style
+ * (Scope, ProvNum, StartDate...) or snake_case parameters.
+ * Only fields present in `parameters` are returned, so this also serves updates.
+ */
+function buildExceptionData(parameters: Record<string, any>, existing?: any): Record<string, any> {
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      if (parameters[key] !== undefined) return { found: true, value: parameters[key] };
+    }
+    return { found: false, value: undefined };
+  };
+
+  const data: Record<string, any> = {};
+
+  const scope = pick('Scope', 'scope');
+  if (scope.found) data.scope = scope.value;
+
+  const providerId = pick('ProvNum', 'provider_id');
+  if (providerId.found) data.provider_id = providerId.value ? parseInt(providerId.value.toString()) : null;
+
+  const operatoryId = pick('OpNum', 'operatory_id');
+  if (operatoryId.found) data.operatory_id = operatoryId.value ? parseInt(operatoryId.value.toString()) : null;
+
+  const type = pick('ExceptionType', 'exception_type');
+  if (type.found) data.exception_type = type.value;
+
+  const title = pick('Title', 'title');
+  if (title.found) data.title = title.value ? String(title.value).trim() : title.value;
+
+  const startDate = pick('StartDate', 'start_date');
+  if (startDate.found) data.start_date = startDate.value;
+
+  const endDate = pick('EndDate', 'end_date');
+  if (endDate.found) data.end_date = endDate.value || null;
+
+  const startTime = pick('StartTime', 'start_time');
+  if (startTime.found) data.start_time = normalizeTime(startTime.value);
+
+  const endTime = pick('EndTime', 'end_time');
+  if (endTime.found) data.end_time = normalizeTime(endTime.value);
+
+  const allDay = pick('AllDay', 'all_day');
+  if (allDay.found && (allDay.value === true || allDay.value === 'true')) {
+    data.start_time = null;
+    data.end_time = null;
+  }
+
+  const recurrence = pick('Recurrence', 'recurrence');
+  if (recurrence.found) data.recurrence = recurrence.value || 'none';
+
+  const interval = pick('RecurrenceInterval', 'recurrence_interval');
+  if (interval.found) data.recurrence_interval = interval.value ? parseInt(interval.value.toString()) : 1;
+
+  const days = pick('RecurrenceDays', 'recurrence_days');
+  if (days.found) {
+    const list = Array.isArray(days.value)
+      ? days.value
+      : String(days.value || '').split(',').filter(Boolean);
+    data.recurrence_days = list.map((d: any) => parseInt(d.toString()));
+  }
+
+  const until = pick('RecurrenceUntil', 'recurrence_until');
+  if (until.found) data.recurrence_until = until.value || null;
+
+  const notes = pick('Notes', 'notes');
+  if (notes.found) data.notes = notes.value || null;
+
+  const isActive = pick('IsActive', 'is_active');
+  if (isActive.found) data.is_active = isActive.value !== false && isActive.value !== 'false';
+
+  // Validate the merged record (existing row + changes)
+  const merged = { ...(existing || {}), ...data };
+
+  if (!EXCEPTION_SCOPES.includes(merged.scope)) {
+    throw new Error(`Scope must be one of: ${EXCEPTION_SCOPES.join(', ')}`);
+  }
+  if (merged.scope === 'provider' && !merged.provider_id) {
+    throw new Error('ProvNum is required for provider-level exceptions');
+  }
+  if (merged.scope === 'operatory' && !merged.operatory_id) {
+    throw new Error('OpNum is required for operatory-level exceptions');
+  }
+  if (!EXCEPTION_TYPES.includes(merged.exception_type)) {
+    throw new Error(`ExceptionType must be one of: ${EXCEPTION_TYPES.join(', ')}`);
+  }
+  if (!merged.title) {
+    throw new Error('Title is required');
+  }
+  if (!merged.start_date || !DATE_PATTERN.test(merged.start_date)) {
+    throw new Error('StartDate is required (format: YYYY-MM-DD)');
+  }
+  if (merged.end_date) {
+    if (!DATE_PATTERN.test(merged.end_date)) {
+      throw new Error('Invalid EndDate format. Use YYYY-MM-DD');
+    }
+    if (merged.end_date < merged.start_date) {
+      throw new Error('EndDate must be on or after StartDate');
+    }
+  }
+  if (!!merged.start_time !== !!merged.end_time) {
+    throw new Error('StartTime and EndTime must both be set, or both omitted for an all-day exception');
+  }
+  if (merged.start_time) {
+    if (!TIME_PATTERN.test(merged.start_time) || !TIME_PATTERN.test(merged.end_time)) {
+      throw new Error('Invalid time format. Use HH:mm or HH:mm:ss');
+    }
+    if ((normalizeTime(merged.start_time) as string) >= (normalizeTime(merged.end_time) as string)) {
+      throw new Error('EndTime must be after StartTime');
+    }
+  }
+  if (merged.recurrence && !EXCEPTION_RECURRENCES.includes(merged.recurrence)) {
+    throw new Error(`Recurrence must be one of: ${EXCEPTION_RECURRENCES.join(', ')}`);
+  }
+  if (merged.recurrence_interval !== undefined && (isNaN(merged.recurrence_interval) || merged.recurrence_interval < 1)) {
+    throw new Error('RecurrenceInterval must be 1 or greater');
+  }
+  if ((merged.recurrence_days || []).some((d: number) => isNaN(d) || d < 0 || d > 6)) {
+    throw new Error('RecurrenceDays must be weekday numbers 0 (Sunday) to 6 (Saturday)');
+  }
+  if (merged.recurrence_until && !DATE_PATTERN.test(merged.recurrence_until)) {
+    throw new Error('Invalid RecurrenceUntil format. Use YYYY-MM-DD');
+  }
+
+  // Keep only the id that matches the scope
+  if (data.scope !== undefined || !existing) {
+    if (merged.scope !== 'provider') data.provider_id = null;
+    if (merged.scope !== 'operatory') data.operatory_id = null;
+    if (merged.scope === 'provider') data.provider_id = merged.provider_id;
+    if (merged.scope === 'operatory') data.operatory_id = merged.operatory_id;
+  }
+
+  return data;
+}
+
+/**
+ * Get schedule exceptions with optional filters
+ */
+export async function GetScheduleExceptions(parameters: Record<string, any> = {}, db: any = defaultDb, organizationId?: string): Promise<any[]> {
+  let query = (db as any)
+    .from('schedule_exceptions')
+    .select('*, providers(id, first_name, last_name), operatories(id, name)');
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  if (parameters.Scope || parameters.scope) {
+    query = query.eq('scope', parameters.Scope || parameters.scope);
+  }
+
+  if (parameters.ProvNum || parameters.provider_id) {
+    query = query.eq('provider_id', parameters.ProvNum || parameters.provider_id);
+  }
+
+  if (parameters.OpNum || parameters.operatory_id) {
+    query = query.eq('operatory_id', parameters.OpNum || parameters.operatory_id);
+  }
+
+  if (parameters.is_active !== undefined) {
+    query = query.eq('is_active', parameters.is_active);
+  }
+
+  const { data, error } = await query.order('start_date').order('start_time');
+
+  if (error) {
+    throw new Error(`Failed to fetch schedule exceptions: ${error.message}`);
+  }
+
+  return (data || []).map(formatException);
+}
+
+/**
+ * Create a schedule exception
+ */
+export async function CreateScheduleException(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  // CRITICAL: Get organization ID from parameter or function argument
+  const orgId = parameters.organization_id || organizationId;
+  if (!orgId) {
+    throw new Error('organization_id is required');
+  }
+
+  const data = buildExceptionData(
+    {
+      ...parameters,
+      Scope: parameters.Scope || parameters.scope || 'organization',
+      ExceptionType: parameters.ExceptionType || parameters.exception_type || 'blocked',
+    }
+  );
+
+  const { data: created, error } = await (db as any)
+    .from('schedule_exceptions')
+    .insert({
+      organization_id: orgId,
+      recurrence: 'none',
+      recurrence_interval: 1,
+      is_active: true,
+      ...data
+    })
+    .select('*, providers(id, first_name, last_name), operatories(id, name)')
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to create schedule exception: ${error?.message || 'No data returned'}`);
+  }
+
+  return formatException(created);
+}
+
+/**
+ * Update a schedule exception
+ */
+export async function UpdateScheduleException(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const { ExceptionNum, id } = parameters;
+  const exceptionId = ExceptionNum || id;
+
+  if (!exceptionId) {
+    throw new Error('ExceptionNum or id is required');
+  }
+
+  let existQuery = (db as any)
+    .from('schedule_exceptions')
+    .select('*')
+    .eq('id', exceptionId);
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    existQuery = existQuery.eq('organization_id', organizationId);
+  }
+
+  const { data: existing, error: fetchError } = await existQuery.single();
+
+  if (fetchError || !existing) {
+    throw new Error(`Schedule exception ${exceptionId} not found`);
+  }
+
+  const updateData = buildExceptionData(parameters, existing);
+
+  let updateQuery = (db as any)
+    .from('schedule_exceptions')
+    .update(updateData)
+    .eq('id', exceptionId);
+
+  // CRITICAL: Only update within organization
+  if (organizationId) {
+    updateQuery = updateQuery.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await updateQuery
+    .select('*, providers(id, first_name, last_name), operatories(id, name)')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update schedule exception: ${error?.message || 'No data returned'}`);
+  }
+
+  return formatException(data);
+}
+
+/**
+ * Delete a schedule exception
+ */
+export async function DeleteScheduleException(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<{ success: boolean; message: string }> {
+  const { ExceptionNum, id } = parameters;
+  const exceptionId = ExceptionNum || id;
+
+  if (!exceptionId) {
+    throw new Error('ExceptionNum or id is required');
+  }
+
+  let query = (db as any)
+    .from('schedule_exceptions')
+    .delete()
+    .eq('id', exceptionId);
+
+  // CRITICAL: Filter by organization for multi-tenancy (prevents deleting other org's data)
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to delete schedule exception: ${error.message}`);
+  }
+
+  return {
+    success: true,
+    message: `Schedule exception ${exceptionId} deleted successfully`
+  };
+}
+
+/**
+ * Expand exceptions (including recurrences) into concrete blocked periods
+ * for a date range. Optionally limited to what affects ProvNum and/or OpNum.
+ */
+export async function GetBlockedTimes(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any[]> {
+  const { DateStart, DateEnd, ProvNum, OpNum } = parameters;
+
+  if (!DateStart || !DateEnd || !DATE_PATTERN.test(DateStart) || !DATE_PATTERN.test(DateEnd)) {
+    throw new Error('DateStart and DateEnd are required (format: YYYY-MM-DD)');
+  }
+
+  if (DateEnd < DateStart) {
+    throw new Error('DateEnd must be after DateStart');
+  }
+
+  const blocks = await loadScheduleExceptionBlocks(db, organizationId, DateStart, DateEnd);
+
+  return blocks
+    .filter(block => {
+      if (!ProvNum && !OpNum) return true;
+      if (block.scope === 'organization') return true;
+      return (ProvNum && exceptionAppliesTo(block, ProvNum, null)) ||
+        (OpNum && exceptionAppliesTo(block, null, OpNum));
+    })
+    .map(block => ({
+      ExceptionNum: block.exceptionId,
+      Date: block.date,
+      DateTimeStart: formatLocalDateTime(block.interval.start),
+      DateTimeEnd: formatLocalDateTime(block.interval.end),
+      AllDay: block.allDay,
+      Scope: block.scope,
+      ProvNum: block.providerId,
+      OpNum: block.operatoryId,
+      ExceptionType: block.type,
+      Title: block.title
+    }));
+}
@@ -0,0 +1,420 @@
+/**
+ * Weekly Schedule Template Functions
+ *
+ * Named weekly working patterns per provider (e.g. "Dr. Pearl - Standard Week"),
+ * optionally alternating between A/B weeks. Templates are materialized into
+ * dated provider_schedules rows on a rolling horizon, so the agent never runs
+ * out of bookable days.
+ *
+ * Every create/update re-materializes the template: future unbooked dates are
+ * replaced, booked dates are kept and reported as conflicts.
+ */
+
+import { db as defaultDb } from '@/app/lib/db';
+import {
+  materializeScheduleTemplate,
+  normalizeTemplateTime,
+} from '@/app/lib/scheduling/templates';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Map template + blocks to the API response format
+ */
+function formatTemplate(row: any): any {
+  const blocks = (row.schedule_template_blocks || [])
+    .slice()
+    .sort((a: any, b: any) =>
+      a.week_index - b.week_index ||
+      a.day_of_week - b.day_of_week ||
+      String(a.start_time).localeCompare(String(b.start_time))
+    );
+
+  return {
+    TemplateNum: row.id,
+    ProvNum: row.provider_id,
+    ProviderName: row.providers
+      ? `Dr. ${row.providers.first_name} ${row.providers.last_name}`
+      : `Provider ${row.provider_id}`,
+    Name: row.name,
+    WeekCycle: row.week_cycle,
+    CycleAnchorDate: row.cycle_anchor_date,
+    EffectiveFrom: row.effective_from,
+    EffectiveUntil: row.effective_until,
+    HorizonDays: row.horizon_days,
+    LastMaterializedThrough: row.last_materialized_through,
+    Notes: row.notes,
+    IsActive: row.is_active,
+    Blocks: blocks.map((block: any) => ({
+      BlockNum: block.id,
+      WeekIndex: block.week_index,
+      DayOfWeek: block.day_of_week,
+      OpNum: block.operatory_id,
+      OperatoryName: block.operatories?.name || `Operatory ${block.operatory_id}`,
+      StartTime: block.start_time,
+      EndTime: block.end_time
+    }))
+  };
+}
+
+const TEMPLATE_SELECT = '*, providers(id, first_name, last_name), schedule_template_blocks(*, operatories(id, name))';
+
+/**
+ * Validate and normalize the Blocks parameter
+ */
+function parseBlocks(blocks: any, weekCycle: number): any[] {
+  if (!Array.isArray(blocks)) {
+    throw new Error('Blocks must be an array of { DayOfWeek, OpNum, StartTime, EndTime, WeekIndex? }');
+  }
+
+  const parsed = blocks.map((block: any, index: number) => {
+    const dayOfWeek = parseInt(String(block.DayOfWeek ?? block.day_of_week));
+    const weekIndex = parseInt(String(block.WeekIndex ?? block.week_index ?? 0));
+    const operatoryId = parseInt(String(block.OpNum ?? block.operatory_id));
+    const startTime = block.StartTime ?? block.start_time;
+    const endTime = block.EndTime ?? block.end_time;
+
+    if (isNaN(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      throw new Error(`Block ${index + 1}: DayOfWeek must be 0 (Sunday) to 6 (Saturday)`);
+    }
+    if (isNaN(weekIndex) || weekIndex < 0 || weekIndex >= weekCycle) {
+      throw new Error(`Block ${index + 1}: WeekIndex must be between 0 and ${weekCycle - 1}`);
+    }
+    if (isNaN(operatoryId)) {
+      throw new Error(`Block ${index + 1}: OpNum (operatory ID) is required`);
+    }
+    if (!startTime || !endTime || !TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+      throw new Error(`Block ${index + 1}: StartTime and EndTime are required (format: HH:MM or HH:MM:SS)`);
+    }
+
+    const start = normalizeTemplateTime(startTime);
+    const end = normalizeTemplateTime(endTime);
+    if (start >= end) {
+      throw new Error(`Block ${index + 1}: EndTime must be after StartTime`);
+    }
+
+    return { week_index: weekIndex, day_of_week: dayOfWeek, operatory_id: operatoryId, start_time: start, end_time: end };
+  });
+
+  // A provider can't be in two places at once within the same template day
+  for (let i = 0; i < parsed.length; i++) {
+    for (let j = i + 1; j < parsed.length; j++) {
+      const a = parsed[i];
+      const b = parsed[j];
+      if (a.week_index === b.week_index && a.day_of_week === b.day_of_week &&
+          a.start_time < b.end_time && b.start_time < a.end_time) {
+        throw new Error(`Blocks ${i + 1} and ${j + 1} overlap on the same day`);
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Template-level fields from either OpenDental-style or snake_case parameters
+ */
+function buildTemplateData(parameters: Record<string, any>): Record<string, any> {
+  const data: Record<string, any> = {};
+
+  const name = parameters.Name ?? parameters.name;
+  if (name !== undefined) data.name = String(name).trim();
+
+  const providerId = parameters.ProvNum ?? parameters.provider_id;
+  if (providerId !== undefined) data.provider_id = parseInt(String(providerId));
+
+  const weekCycle = parameters.WeekCycle ?? parameters.week_cycle;
+  if (weekCycle !== undefined) data.week_cycle = parseInt(String(weekCycle));
+
+  const dates: Array<[string, string, string]> = [
+    ['CycleAnchorDate', 'cycle_anchor_date', 'cycle_anchor_date'],
+    ['EffectiveFrom', 'effective_from', 'effective_from'],
+    ['EffectiveUntil', 'effective_until', 'effective_until'],
+  ];
+  for (const [pascal, snake, column] of dates) {
+    const value = parameters[pascal] ?? parameters[snake];
+    if (value === undefined) continue;
+    if (value && !DATE_PATTERN.test(value)) {
+      throw new Error(`Invalid ${pascal} format. Use YYYY-MM-DD`);
+    }
+    data[column] = value || null;
+  }
+
+  const horizon = parameters.HorizonDays ?? parameters.horizon_days;
+  if (horizon !== undefined) data.horizon_days = parseInt(String(horizon));
+
+  const notes = parameters.Notes ?? parameters.notes;
+  if (notes !== undefined) data.notes = notes || null;
+
+  const isActive = parameters.IsActive ?? parameters.is_active;
+  if (isActive !== undefined) data.is_active = isActive !== false && isActive !== 'false';
+
+  if (data.name !== undefined && !data.name) {
+    throw new Error('Name is required');
+  }
+  if (data.week_cycle !== undefined && (isNaN(data.week_cycle) || data.week_cycle < 1 || data.week_cycle > 4)) {
+    throw new Error('WeekCycle must be 1 (every week) to 4');
+  }
+  if (data.horizon_days !== undefined && (isNaN(data.horizon_days) || data.horizon_days < 1 || data.horizon_days > 180)) {
+    throw new Error('HorizonDays must be between 1 and 180');
+  }
+
+  return data;
+}
+
+async function fetchTemplate(db: any, templateId: number, organizationId?: string): Promise<any> {
+  let query = db
+    .from('schedule_templates')
+    .select(TEMPLATE_SELECT)
+    .eq('id', templateId);
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query.single();
+
+  if (error || !data) {
+    throw new Error(`Schedule template ${templateId} not found`);
+  }
+
+  return data;
+}
+
+async function replaceBlocks(db: any, templateId: number, orgId: string, blocks: any[]): Promise<void> {
+  const { error: deleteError } = await db
+    .from('schedule_template_blocks')
+    .delete()
+    .eq('template_id', templateId)
+    .eq('organization_id', orgId);
+
+  if (deleteError) {
+    throw new Error(`Failed to update template blocks: ${deleteError.message}`);
+  }
+
+  if (blocks.length === 0) return;
+
+  const { error } = await db
+    .from('schedule_template_blocks')
+    .insert(blocks.map(block => ({ ...block, template_id: templateId, organization_id: orgId })));
+
+  if (error) {
+    throw new Error(`Failed to save template blocks: ${error.message}`);
+  }
+}
+
+/**
+ * List weekly schedule templates
+ */
+export async function GetScheduleTemplates(parameters: Record<string, any> = {}, db: any = defaultDb, organizationId?: string): Promise<any[]> {
+  let query = db.from('schedule_templates').select(TEMPLATE_SELECT);
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  if (parameters.ProvNum || parameters.provider_id) {
+    query = query.eq('provider_id', parameters.ProvNum || parameters.provider_id);
+  }
+
+  if (parameters.is_active !== undefined) {
+    query = query.eq('is_active', parameters.is_active);
+  }
+
+  const { data, error } = await query.order('name');
+
+  if (error) {
+    throw new Error(`Failed to fetch schedule templates: ${error.message}`);
+  }
+
+  return (data || []).map(formatTemplate);
+}
+
+/**
+ * Get a single template with its blocks
+ */
+export async function GetScheduleTemplate(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const templateId = parameters.TemplateNum || parameters.id;
+
+  if (!templateId) {
+    throw new Error('TemplateNum or id is required');
+  }
+
+  return formatTemplate(await fetchTemplate(db, templateId, organizationId));
+}
+
+/**
+ * Create a template and materialize it for the rolling horizon
+ */
+export async function CreateScheduleTemplate(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  // CRITICAL: Get organization ID from parameter or function argument
+  const orgId = parameters.organization_id || organizationId;
+  if (!orgId) {
+    throw new Error('organization_id is required');
+  }
+
+  const data = buildTemplateData(parameters);
+
+  if (!data.provider_id || isNaN(data.provider_id)) {
+    throw new Error('ProvNum (provider ID) is required');
+  }
+  if (!data.name) {
+    throw new Error('Name is required');
+  }
+
+  const blocks = parseBlocks(parameters.Blocks ?? parameters.blocks ?? [], data.week_cycle || 1);
+
+  const { data: provider, error: providerError } = await db
+    .from('providers')
+    .select('id')
+    .eq('id', data.provider_id)
+    .eq('organization_id', orgId)
+    .single();
+
+  if (providerError || !provider) {
+    throw new Error(`Provider with ID ${data.provider_id} not found`);
+  }
+
+  const { data: created, error } = await db
+    .from('schedule_templates')
+    .insert({ organization_id: orgId, ...data })
+    .select('id')
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to create schedule template: ${error?.message || 'No data returned'}`);
+  }
+
+  await replaceBlocks(db, created.id, orgId, blocks);
+
+  const materialization = await materializeScheduleTemplate(db, orgId, created.id);
+
+  return {
+    ...formatTemplate(await fetchTemplate(db, created.id, orgId)),
+    Materialization: materialization
+  };
+}
+
+/**
+ * Update a template (and optionally replace its blocks), then propagate the
+ * change to future unbooked dates
+ */
+export async function UpdateScheduleTemplate(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const templateId = parameters.TemplateNum || parameters.id;
+
+  if (!templateId) {
+    throw new Error('TemplateNum or id is required');
+  }
+
+  const existing = await fetchTemplate(db, templateId, organizationId);
+  const orgId = existing.organization_id;
+  const updateData = buildTemplateData(parameters);
+  // Blocks are always sent by the admin UI; template provider is fixed once created
+  delete updateData.provider_id;
+
+  const weekCycle = updateData.week_cycle || existing.week_cycle || 1;
+  const blocksParam = parameters.Blocks ?? parameters.blocks;
+
+  if (blocksParam !== undefined) {
+    await replaceBlocks(db, templateId, orgId, parseBlocks(blocksParam, weekCycle));
+  } else if (updateData.week_cycle !== undefined &&
+    (existing.schedule_template_blocks || []).some((b: any) => b.week_index >= weekCycle)) {
+    throw new Error(`Template has blocks for week ${weekCycle + 1} or later; update Blocks together with WeekCycle`);
+  }
+
+  if (Object.keys(updateData).length > 0) {
+    const { error } = await db
+      .from('schedule_templates')
+      .update(updateData)
+      .eq('id', templateId)
+      .eq('organization_id', orgId);
+
+    if (error) {
+      throw new Error(`Failed to update schedule template: ${error.message}`);
+    }
+  }
+
+  const materialization = await materializeScheduleTemplate(db, orgId, templateId);
+
+  return {
+    ...formatTemplate(await fetchTemplate(db, templateId, orgId)),
+    Materialization: materialization
+  };
+}
+
+/**
+ * Delete a template. Future unbooked schedules it generated are removed;
+ * booked ones are kept as regular schedules and reported.
+ */
+export async function DeleteScheduleTemplate(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const templateId = parameters.TemplateNum || parameters.id;
+
+  if (!templateId) {
+    throw new Error('TemplateNum or id is required');
+  }
+
+  const existing = await fetchTemplate(db, templateId, organizationId);
+  const orgId = existing.organization_id;
+
+  await db
+    .from('schedule_templates')
+    .update({ is_active: false })
+    .eq('id', templateId)
+    .eq('organization_id', orgId);
+
+  const materialization = await materializeScheduleTemplate(db, orgId, templateId);
+
+  const { error } = await db
+    .from('schedule_templates')
+    .delete()
+    .eq('id', templateId)
+    .eq('organization_id', orgId);
+
+  if (error) {
+    throw new Error(`Failed to delete schedule template: ${error.message}`);
+  }
+
+  return {
+    success: true,
+    message: `Schedule template ${templateId} deleted successfully`,
+    Materialization: materialization
+  };
+}
+
+/**
+ * Materialize one template (TemplateNum) or every active template for the org
+ */
+export async function MaterializeScheduleTemplates(parameters: Record<string, any> = {}, db: any = defaultDb, organizationId?: string): Promise<any[]> {
+  const orgId = parameters.organization_id || organizationId;
+  if (!orgId) {
+    throw new Error('organization_id is required');
+  }
+
+  const horizonDays = parameters.HorizonDays ? parseInt(String(parameters.HorizonDays)) : undefined;
+  const templateId = parameters.TemplateNum || parameters.id;
+
+  let templateIds: number[] = [];
+  if (templateId) {
+    templateIds = [templateId];
+  } else {
+    const { data, error } = await db
+      .from('schedule_templates')
+      .select('id')
+      .eq('organization_id', orgId)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Failed to fetch schedule templates: ${error.message}`);
+    }
+    templateIds = (data || []).map((t: any) => t.id);
+  }
+
+  const results = [];
+  for (const id of templateIds) {
+    results.push(await materializeScheduleTemplate(db, orgId, id, { horizonDays }));
+  }
+  return results;
+}
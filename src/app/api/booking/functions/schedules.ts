@@ -11,6 +11,12 @@
  */
 
 import { db as defaultDb } from '@/app/lib/db';
+import {
+  loadScheduleExceptionBlocks,
+  isWholeDayBlocked,
+  findBlockingException,
+} from '@/app/lib/scheduling/exceptions';
+import { parseLocalDateAndTime, formatLocalDateTime } from '@/app/lib/scheduling/intervals';
 
 /**
  * Check for schedule conflicts
@@ -163,7 +169,8 @@ export async function GetSchedules(parameters: Record<string, any> = {}, db: any
     ScheduleDate: schedule.schedule_date,
     StartTime: schedule.start_time,
     EndTime: schedule.end_time,
-    IsActive: schedule.is_active
+    IsActive: schedule.is_active,
+    TemplateNum: schedule.template_id ?? null
   }));
 }
 
@@ -487,7 +494,8 @@ export async function GetProviderSchedules(parameters: Record<string, any>, db:
 
 /**
  * Bulk create schedules for a date range (Mon-Fri or all days)
- * Creates schedules for each day in the range
+ * Creates schedules for each day in the range, skipping days blocked all day
+ * by a schedule exception (holiday, vacation, operatory closed)
  */
 export async function CreateDefaultSchedules(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any[]> {
   const { 
@@ -517,6 +525,7 @@ export async function CreateDefaultSchedules(parameters: Record<string, any>, db
   
   const created: any[] = [];
   const errors: string[] = [];
+  const skipped: string[] = [];
   
   // Parse dates
   const start = new Date(DateStart);
@@ -536,6 +545,9 @@ export async function CreateDefaultSchedules(parameters: Record<string, any>, db
     throw new Error('Date range cannot exceed 31 days');
   }
   
+  // Don't generate working blocks on holidays / all-day vacations / room closures
+  const exceptionBlocks = await loadScheduleExceptionBlocks(db, organizationId, DateStart, DateEnd);
+  
   const currentDate = new Date(start);
   while (currentDate <= end) {
     const dayOfWeek = currentDate.getDay();
@@ -549,6 +561,12 @@ export async function CreateDefaultSchedules(parameters: Record<string, any>, db
     
     const dateStr = currentDate.toISOString().split('T')[0];
     
+    if (isWholeDayBlocked(exceptionBlocks, providerId, operatoryId, dateStr)) {
+      skipped.push(dateStr);
+      currentDate.setTime(currentDate.getTime() + 24 * 60 * 60 * 1000);
+      continue;
+    }
+    
     try {
       const schedule = await CreateSchedule({
         ProvNum: providerId,
@@ -573,6 +591,10 @@ export async function CreateDefaultSchedules(parameters: Record<string, any>, db
     currentDate.setTime(currentDate.getTime() + 24 * 60 * 60 * 1000);
   }
   
+  if (skipped.length > 0) {
+    console.log(`[CreateDefaultSchedules] Skipped ${skipped.length} day(s) blocked by schedule exceptions: ${skipped.join(', ')}`);
+  }
+  
   if (errors.length > 0 && created.length === 0) {
     throw new Error(`All schedules had conflicts: ${errors.join('; ')}`);
   }
@@ -582,6 +604,7 @@ export async function CreateDefaultSchedules(parameters: Record<string, any>, db
 
 /**
  * Check for conflicts without creating
+ * Also reports a schedule exception overlapping the window (informational)
  */
 export async function CheckScheduleConflicts(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
   const { 
@@ -619,8 +642,28 @@ export async function CheckScheduleConflicts(parameters: Record<string, any>, db
     organizationId
   );
   
+  // Exceptions don't make a schedule invalid, but the time won't be bookable
+  let exception = null;
+  const windowStart = parseLocalDateAndTime(scheduleDate, startTime);
+  const windowEnd = parseLocalDateAndTime(scheduleDate, endTime);
+  if (windowStart !== null && windowEnd !== null) {
+    const blocks = await loadScheduleExceptionBlocks(db, organizationId, scheduleDate, scheduleDate);
+    const block = findBlockingException(blocks, providerId, operatoryId, { start: windowStart, end: windowEnd });
+    if (block) {
+      exception = {
+        ExceptionNum: block.exceptionId,
+        Title: block.title,
+        ExceptionType: block.type,
+        AllDay: block.allDay,
+        DateTimeStart: formatLocalDateTime(block.interval.start),
+        DateTimeEnd: formatLocalDateTime(block.interval.end)
+      };
+    }
+  }
+  
   return {
     hasConflict: conflict !== null,
-    conflict
+    conflict,
+    exception
   };
 }
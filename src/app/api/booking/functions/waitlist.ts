@@ -0,0 +1,525 @@
+/**
+ * Waitlist Functions
+ *
+ * Patients waiting for an earlier slot, with preferred providers, weekdays and
+ * a time window. When BreakAppointment / DeleteAppointment frees a slot the
+ * best match is offered it over SMS or WhatsApp (see lib/waitlist/offers.ts).
+ *
+ * Broken appointments sent to the unscheduled list appear here with
+ * Source 'unscheduled' and AutoOffer off until staff turn it on.
+ */
+
+import { db as defaultDb } from '@/app/lib/db';
+import { MESSAGE_CHANNELS, type MessageChannel } from '@/app/lib/messaging/outbound';
+import { parseLocalDateTime } from '@/app/lib/scheduling/intervals';
+import { resolveAppointmentDuration } from '@/app/lib/scheduling/slotSettings';
+import { WAITLIST_STATUSES } from '@/app/lib/waitlist/matching';
+import {
+  closeOffer,
+  offerSlotToNextEntry,
+  processWaitlist,
+} from '@/app/lib/waitlist/offers';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?$/;
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const ENTRY_SELECT = '*, patients(id, first_name, last_name, phone)';
+
+/**
+ * Map a waitlist entry to the API response format
+ */
+function formatEntry(row: any, lastOffer?: any): any {
+  return {
+    WaitlistNum: row.id,
+    PatNum: row.patient_id,
+    PatientName: row.patients
+      ? `${row.patients.first_name} ${row.patients.last_name}`
+      : `Patient ${row.patient_id}`,
+    Phone: row.contact_phone || row.patients?.phone || '',
+    Channel: row.channel,
+    PreferredProviders: row.preferred_provider_ids || [],
+    PreferredDays: row.preferred_days || [],
+    EarliestTime: row.earliest_time,
+    LatestTime: row.latest_time,
+    DateFrom: row.date_from,
+    DateUntil: row.date_until,
+    LengthMinutes: row.length_minutes,
+    TreatmentCode: row.treatment_code,
+    AppointmentType: row.appointment_type,
+    Priority: row.priority,
+    Status: row.status,
+    Source: row.source,
+    AutoOffer: row.auto_offer,
+    OriginalAptNum: row.original_appointment_id,
+    BookedAptNum: row.booked_appointment_id,
+    Notes: row.notes,
+    DateCreated: row.created_at,
+    LastOffer: lastOffer ? formatOffer(lastOffer) : null
+  };
+}
+
+function formatOffer(row: any): any {
+  return {
+    OfferNum: row.id,
+    WaitlistNum: row.entry_id,
+    PatientName: row.waitlist_entries?.patients
+      ? `${row.waitlist_entries.patients.first_name} ${row.waitlist_entries.patients.last_name}`
+      : undefined,
+    ProvNum: row.provider_id,
+    Op: row.operatory_id,
+    AptDateTime: String(row.slot_datetime).replace('T', ' ').substring(0, 19),
+    LengthMinutes: row.duration_minutes,
+    Channel: row.channel,
+    Status: row.status,
+    ExpiresAt: row.expires_at,
+    SentAt: row.sent_at,
+    RespondedAt: row.responded_at,
+    AptNum: row.appointment_id,
+    Error: row.error
+  };
+}
+
+/**
+ * Accept [1, 2], "1,2" or a single number
+ */
+function parseIdList(value: any, label: string): number[] {
+  if (value === undefined || value === null || value === '') return [];
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map((item: any) => {
+    const id = parseInt(String(item).trim());
+    if (isNaN(id)) {
+      throw new Error(`${label} must be a list of numbers`);
+    }
+    return id;
+  });
+}
+
+/**
+ * Accept 0-6 (0 = Sunday) or day names ("Mon", "tuesday")
+ */
+function parseDays(value: any): number[] {
+  if (value === undefined || value === null || value === '') return [];
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  const days = list.map((item: any) => {
+    const text = String(item).trim().toLowerCase();
+    const named = DAY_NAMES.indexOf(text.substring(0, 3));
+    const day = /^\d$/.test(text) ? parseInt(text) : named;
+    if (day < 0 || day > 6) {
+      throw new Error(`Invalid PreferredDays value "${item}". Use 0 (Sunday) to 6 (Saturday) or day names`);
+    }
+    return day;
+  });
+  return Array.from(new Set<number>(days)).sort();
+}
+
+/**
+ * Entry fields from either OpenDental-style or snake_case parameters
+ */
+function buildEntryData(parameters: Record<string, any>): Record<string, any> {
+  const data: Record<string, any> = {};
+
+  const providers = parameters.PreferredProviders ?? parameters.ProvNum ?? parameters.preferred_provider_ids;
+  if (providers !== undefined) data.preferred_provider_ids = parseIdList(providers, 'PreferredProviders');
+
+  const days = parameters.PreferredDays ?? parameters.preferred_days;
+  if (days !== undefined) data.preferred_days = parseDays(days);
+
+  const times: Array<[string, string]> = [['EarliestTime', 'earliest_time'], ['LatestTime', 'latest_time']];
+  for (const [pascal, column] of times) {
+    const value = parameters[pascal] ?? parameters[column];
+    if (value === undefined) continue;
+    if (value && !TIME_PATTERN.test(value)) {
+      throw new Error(`Invalid ${pascal} format. Use HH:MM`);
+    }
+    data[column] = value || null;
+  }
+
+  const dates: Array<[string, string]> = [['DateFrom', 'date_from'], ['DateUntil', 'date_until']];
+  for (const [pascal, column] of dates) {
+    const value = parameters[pascal] ?? parameters[column];
+    if (value === undefined) continue;
+    if (value && !DATE_PATTERN.test(value)) {
+      throw new Error(`Invalid ${pascal} format. Use YYYY-MM-DD`);
+    }
+    data[column] = value || null;
+  }
+
+  const length = parameters.lengthMinutes ?? parameters.LengthMinutes ?? parameters.length_minutes;
+  if (length !== undefined) {
+    data.length_minutes = length ? parseInt(String(length)) : null;
+    if (data.length_minutes !== null && (isNaN(data.length_minutes) || data.length_minutes <= 0)) {
+      throw new Error('lengthMinutes must be a positive number');
+    }
+  }
+
+  const treatmentCode = parameters.TreatmentCode ?? parameters.treatment_code;
+  if (treatmentCode !== undefined) data.treatment_code = treatmentCode ? String(treatmentCode).toUpperCase() : null;
+
+  const appointmentType = parameters.AppointmentType ?? parameters.appointment_type;
+  if (appointmentType !== undefined) data.appointment_type = appointmentType || null;
+
+  const channel = parameters.Channel ?? parameters.channel;
+  if (channel !== undefined) {
+    const normalized = String(channel).toLowerCase() as MessageChannel;
+    if (!MESSAGE_CHANNELS.includes(normalized)) {
+      throw new Error(`Channel must be one of: ${MESSAGE_CHANNELS.join(', ')}`);
+    }
+    data.channel = normalized;
+  }
+
+  const phone = parameters.Phone ?? parameters.contact_phone;
+  if (phone !== undefined) data.contact_phone = phone || null;
+
+  const priority = parameters.Priority ?? parameters.priority;
+  if (priority !== undefined) {
+    data.priority = parseInt(String(priority)) || 0;
+  }
+
+  const autoOffer = parameters.AutoOffer ?? parameters.auto_offer;
+  if (autoOffer !== undefined) data.auto_offer = autoOffer !== false && autoOffer !== 'false';
+
+  const notes = parameters.Notes ?? parameters.notes;
+  if (notes !== undefined) data.notes = notes || null;
+
+  const earliest = data.earliest_time ?? parameters.__existing?.earliest_time;
+  const latest = data.latest_time ?? parameters.__existing?.latest_time;
+  if (earliest && latest && earliest.padStart(5, '0') >= latest.padStart(5, '0')) {
+    throw new Error('LatestTime must be after EarliestTime');
+  }
+  const from = data.date_from ?? parameters.__existing?.date_from;
+  const until = data.date_until ?? parameters.__existing?.date_until;
+  if (from && until && from > until) {
+    throw new Error('DateUntil must be on or after DateFrom');
+  }
+
+  return data;
+}
+
+async function fetchEntry(db: any, entryId: number, organizationId?: string): Promise<any> {
+  let query = db
+    .from('waitlist_entries')
+    .select(ENTRY_SELECT)
+    .eq('id', entryId);
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query.single();
+
+  if (error || !data) {
+    throw new Error(`Waitlist entry ${entryId} not found`);
+  }
+
+  return data;
+}
+
+/**
+ * Close the entry's open offer (its slot moves on to the next patient)
+ */
+async function withdrawPendingOffers(db: any, entryId: number): Promise<void> {
+  const { data: pending } = await db
+    .from('waitlist_offers')
+    .select('*')
+    .eq('entry_id', entryId)
+    .eq('status', 'pending');
+
+  for (const offer of pending || []) {
+    await closeOffer(db, offer, 'expired');
+  }
+}
+
+/**
+ * List waitlist entries (expires overdue offers first)
+ * Supports: PatNum, Status, Source
+ */
+export async function GetWaitlist(parameters: Record<string, any> = {}, db: any = defaultDb, organizationId?: string): Promise<any[]> {
+  if (organizationId) {
+    try {
+      await processWaitlist(db, organizationId);
+    } catch (error: any) {
+      console.warn('[Waitlist] Failed to process overdue offers:', error.message);
+    }
+  }
+
+  let query = db.from('waitlist_entries').select(ENTRY_SELECT);
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  if (parameters.PatNum) {
+    query = query.eq('patient_id', parameters.PatNum);
+  }
+
+  const status = parameters.Status ?? parameters.status;
+  if (status) {
+    query = query.in('status', String(status).split(',').map(s => s.trim()));
+  } else {
+    query = query.in('status', ['waiting', 'offered']);
+  }
+
+  if (parameters.Source) {
+    query = query.eq('source', parameters.Source);
+  }
+
+  const { data, error } = await query
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch waitlist: ${error.message}`);
+  }
+
+  const entries = data || [];
+  const lastOffers = new Map<number, any>();
+  if (entries.length > 0) {
+    const { data: offers } = await db
+      .from('waitlist_offers')
+      .select('*')
+      .in('entry_id', entries.map((entry: any) => entry.id))
+      .order('created_at', { ascending: false });
+    for (const offer of offers || []) {
+      if (!lastOffers.has(offer.entry_id)) lastOffers.set(offer.entry_id, offer);
+    }
+  }
+
+  return entries.map((entry: any) => formatEntry(entry, lastOffers.get(entry.id)));
+}
+
+/**
+ * Put a patient on the waitlist
+ */
+export async function AddToWaitlist(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  // CRITICAL: Get organization ID from parameter or function argument
+  const orgId = parameters.organization_id || organizationId;
+  if (!orgId) {
+    throw new Error('organization_id is required');
+  }
+
+  const patientId = parseInt(String(parameters.PatNum ?? parameters.patient_id));
+  if (isNaN(patientId)) {
+    throw new Error('PatNum is required');
+  }
+
+  const { data: patient, error: patientError } = await db
+    .from('patients')
+    .select('id, phone')
+    .eq('id', patientId)
+    .eq('organization_id', orgId)
+    .single();
+
+  if (patientError || !patient) {
+    throw new Error(`Patient with ID ${patientId} not found`);
+  }
+
+  const data = buildEntryData(parameters);
+
+  // The agent talks to patients over WhatsApp or SMS; default to the same channel
+  const channel = parameters.__syncContext?.channel;
+  if (!data.channel) {
+    data.channel = channel === 'whatsapp' ? 'whatsapp' : 'sms';
+  }
+  if (!data.contact_phone && !patient.phone) {
+    throw new Error('Patient has no phone number on file. Provide Phone so offers can be sent');
+  }
+
+  const source = parameters.Source ?? (channel ? 'agent' : 'staff');
+  if (!['agent', 'staff', 'unscheduled'].includes(source)) {
+    throw new Error('Source must be one of: agent, staff, unscheduled');
+  }
+
+  if (data.treatment_code || data.appointment_type) {
+    const resolved = await resolveAppointmentDuration(db, {
+      lengthMinutes: data.length_minutes ?? undefined,
+      TreatmentCode: data.treatment_code ?? undefined,
+      AppointmentType: data.appointment_type ?? undefined
+    }, orgId);
+    if (data.treatment_code && !resolved.treatmentCode) {
+      throw new Error(`Treatment code ${data.treatment_code} not found`);
+    }
+    data.length_minutes = data.length_minutes ?? resolved.minutes;
+  }
+
+  const { data: created, error } = await db
+    .from('waitlist_entries')
+    .insert({
+      organization_id: orgId,
+      patient_id: patientId,
+      source,
+      ...data
+    })
+    .select('id')
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to add to waitlist: ${error?.message || 'No data returned'}`);
+  }
+
+  return formatEntry(await fetchEntry(db, created.id, orgId));
+}
+
+/**
+ * Update preferences, priority, AutoOffer or Status of a waitlist entry
+ */
+export async function UpdateWaitlistEntry(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const entryId = parameters.WaitlistNum || parameters.id;
+
+  if (!entryId) {
+    throw new Error('WaitlistNum or id is required');
+  }
+
+  const existing = await fetchEntry(db, entryId, organizationId);
+  const updateData = buildEntryData({ ...parameters, __existing: existing });
+
+  const status = parameters.Status ?? parameters.status;
+  if (status !== undefined) {
+    if (!(WAITLIST_STATUSES as readonly string[]).includes(status)) {
+      throw new Error(`Status must be one of: ${WAITLIST_STATUSES.join(', ')}`);
+    }
+    if (status === 'offered') {
+      throw new Error("Status 'offered' is set automatically when a slot is offered");
+    }
+    updateData.status = status;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    throw new Error('No fields to update');
+  }
+
+  if (existing.status === 'offered' && updateData.status && updateData.status !== 'offered') {
+    await withdrawPendingOffers(db, existing.id);
+  }
+
+  const { error } = await db
+    .from('waitlist_entries')
+    .update(updateData)
+    .eq('id', existing.id)
+    .eq('organization_id', existing.organization_id);
+
+  if (error) {
+    throw new Error(`Failed to update waitlist entry: ${error.message}`);
+  }
+
+  return formatEntry(await fetchEntry(db, existing.id, existing.organization_id));
+}
+
+/**
+ * Take a patient off the waitlist (any open offer moves to the next patient)
+ */
+export async function RemoveFromWaitlist(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const entryId = parameters.WaitlistNum || parameters.id;
+
+  if (!entryId) {
+    throw new Error('WaitlistNum or id is required');
+  }
+
+  const existing = await fetchEntry(db, entryId, organizationId);
+
+  const { error } = await db
+    .from('waitlist_entries')
+    .update({ status: 'cancelled' })
+    .eq('id', existing.id)
+    .eq('organization_id', existing.organization_id);
+
+  if (error) {
+    throw new Error(`Failed to remove from waitlist: ${error.message}`);
+  }
+
+  await withdrawPendingOffers(db, existing.id);
+
+  return { success: true, WaitlistNum: existing.id };
+}
+
+/**
+ * Offer history
+ * Supports: WaitlistNum, Status
+ */
+export async function GetWaitlistOffers(parameters: Record<string, any> = {}, db: any = defaultDb, organizationId?: string): Promise<any[]> {
+  let query = db
+    .from('waitlist_offers')
+    .select('*, waitlist_entries(patient_id, patients(first_name, last_name))');
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  if (parameters.WaitlistNum) {
+    query = query.eq('entry_id', parameters.WaitlistNum);
+  }
+
+  if (parameters.Status) {
+    query = query.eq('status', parameters.Status);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(parseInt(String(parameters.limit || 100)));
+
+  if (error) {
+    throw new Error(`Failed to fetch waitlist offers: ${error.message}`);
+  }
+
+  return (data || []).map(formatOffer);
+}
+
+/**
+ * Offer an open slot to the waitlist by hand (e.g. a gap staff noticed)
+ */
+export async function OfferSlotToWaitlist(parameters: Record<string, any>, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const orgId = parameters.organization_id || organizationId;
+  if (!orgId) {
+    throw new Error('organization_id is required');
+  }
+
+  const { AptDateTime, ProvNum, Op } = parameters;
+  const start = parseLocalDateTime(AptDateTime);
+  if (start === null) {
+    throw new Error('AptDateTime is required (format: YYYY-MM-DD HH:mm:ss)');
+  }
+  if (!ProvNum || !Op) {
+    throw new Error('ProvNum and Op are required');
+  }
+
+  const length = parseInt(String(parameters.lengthMinutes ?? parameters.LengthMinutes ?? ''));
+  if (isNaN(length) || length <= 0) {
+    throw new Error('lengthMinutes is required (how long the slot is open)');
+  }
+
+  const offer = await offerSlotToNextEntry(db, orgId, {
+    providerId: parseInt(String(ProvNum)),
+    operatoryId: parseInt(String(Op)),
+    start,
+    lengthMinutes: length
+  });
+
+  return {
+    success: !!offer,
+    message: offer
+      ? 'Slot offered to the next matching patient on the waitlist'
+      : 'No patient on the waitlist matches this slot',
+    Offer: offer ? formatOffer(offer) : null
+  };
+}
+
+/**
+ * Expire overdue offers and pass their slots on. Safe to call from a scheduler.
+ */
+export async function ProcessWaitlist(parameters: Record<string, any> = {}, db: any = defaultDb, organizationId?: string): Promise<any> {
+  const orgId = parameters.organization_id || organizationId;
+  if (!orgId) {
+    throw new Error('organization_id is required');
+  }
+
+  const result = await processWaitlist(db, orgId);
+
+  return {
+    ExpiredOffers: result.expiredOffers,
+    ExpiredEntries: result.expiredEntries,
+    NewOffers: result.newOffers
+  };
+}
@@ -21,6 +21,8 @@ import {
   getAutoFilledParameters, 
   recordFunctionCall,
   getOrCreateState,
+  loadState,
+  flushState,
   addMessage,
   processMessage,
   ConversationState
@@ -200,9 +202,9 @@ const FUNCTION_SCHEMAS: Record<string, {
   },
   CreatePatient: {
     required: ['FName', 'LName', 'Birthdate', 'WirelessPhone'],
-    optional: ['Email'],
+    optional: ['Email', 'AllowDuplicate'],
     example: { FName: 'John', LName: 'Smith', Birthdate: '1990-01-15', WirelessPhone: '6195551234' },
-    description: 'Create new patient. Birthdate must be YYYY-MM-DD, phone must be 10 digits'
+    description: 'Create new patient. Birthdate must be YYYY-MM-DD, phone must be 10 digits. Returns ExistingPatient: true instead of creating when the patient already has a record'
   },
   GetAppointments: {
     required: ['DateStart', 'DateEnd'],
@@ -212,22 +214,22 @@ const FUNCTION_SCHEMAS: Record<string, {
   },
   GetAvailableSlots: {
     required: ['dateStart', 'dateEnd'],
-    optional: ['ProvNum', 'OpNum', 'lengthMinutes', 'searchAll', 'DateStart', 'DateEnd'], // Accept both cases
+    optional: ['ProvNum', 'OpNum', 'lengthMinutes', 'TreatmentCode', 'AppointmentType', 'Resources', 'searchAll', 'DateStart', 'DateEnd'], // Accept both cases
     // No defaults - function now intelligently searches ALL schedules if none specified
-    example: { dateStart: '2025-12-05', dateEnd: '2025-12-05' },
-    description: 'Get available time slots. If ProvNum/OpNum not specified, searches all providers/operatories with schedules'
+    example: { dateStart: '2025-12-05', dateEnd: '2025-12-05', AppointmentType: 'Cleaning' },
+    description: 'Get available time slots. Slot length comes from lengthMinutes, TreatmentCode or AppointmentType, and only providers/operatories qualified for that treatment are returned. If ProvNum/OpNum not specified, searches all providers/operatories with schedules. Resources: [{ Type: "provider"|"assistant"|"operatory", ProvNum?, OpNum?, OffsetMinutes?, LengthMinutes? }] requires every resource to be free for its part of the visit'
   },
   CreateAppointment: {
     required: ['PatNum', 'AptDateTime', 'ProvNum', 'Op'],
-    optional: ['Note', 'AptStatus'],
+    optional: ['Note', 'AptStatus', 'Pattern', 'lengthMinutes', 'TreatmentCode', 'AppointmentType', 'Resources'],
     example: { PatNum: 1, AptDateTime: '2025-12-05 10:00:00', ProvNum: 1, Op: 1, Note: 'Cleaning' },
-    description: 'Book appointment. AptDateTime must be YYYY-MM-DD HH:mm:ss format'
+    description: 'Book appointment. AptDateTime must be YYYY-MM-DD HH:mm:ss format. Fails if the provider or operatory is not qualified for the treatment. Pass the Resources returned by GetAvailableSlots to also book assistants or extra chairs'
   },
   UpdateAppointment: {
     required: ['AptNum'],
-    optional: ['AptDateTime', 'AptStatus', 'ProvNum', 'Op', 'Note', 'PatNum'],
+    optional: ['AptDateTime', 'AptStatus', 'ProvNum', 'Op', 'Note', 'PatNum', 'Resources'],
     example: { AptNum: 1, AptDateTime: '2025-12-06 14:00:00' },
-    description: 'Update existing appointment by AptNum'
+    description: 'Update existing appointment by AptNum. Resources replaces the assistant/extra chair assignments'
   },
   GetProviders: {
     required: [],
@@ -284,6 +286,108 @@ const FUNCTION_SCHEMAS: Record<string, {
     optional: ['ExcludeScheduleNum'],
     example: { ProvNum: 1, OpNum: 1, ScheduleDate: '2025-12-02', StartTime: '09:00:00', EndTime: '17:00:00' },
     description: 'Check if a schedule would conflict with existing ones'
+  },
+  GetScheduleExceptions: {
+    required: [],
+    optional: ['Scope', 'ProvNum', 'OpNum', 'is_active'],
+    example: { Scope: 'provider', ProvNum: 1 },
+    description: 'List holidays, vacations, lunch breaks and blocked time'
+  },
+  CreateScheduleException: {
+    required: ['Title', 'StartDate'],
+    optional: ['Scope', 'ProvNum', 'OpNum', 'ExceptionType', 'EndDate', 'StartTime', 'EndTime', 'AllDay', 'Recurrence', 'RecurrenceInterval', 'RecurrenceDays', 'RecurrenceUntil', 'Notes', 'IsActive'],
+    example: { Scope: 'organization', ExceptionType: 'lunch', Title: 'Lunch', StartDate: '2025-12-01', StartTime: '12:00:00', EndTime: '13:00:00', Recurrence: 'weekly', RecurrenceDays: [1, 2, 3, 4, 5] },
+    description: 'Block time for the clinic (Scope organization), one provider (ProvNum) or one operatory (OpNum). Omit StartTime/EndTime for all day.'
+  },
+  UpdateScheduleException: {
+    required: ['ExceptionNum'],
+    optional: ['Scope', 'ProvNum', 'OpNum', 'ExceptionType', 'Title', 'StartDate', 'EndDate', 'StartTime', 'EndTime', 'AllDay', 'Recurrence', 'RecurrenceInterval', 'RecurrenceDays', 'RecurrenceUntil', 'Notes', 'IsActive'],
+    example: { ExceptionNum: 1, EndDate: '2025-12-31' },
+    description: 'Update a schedule exception'
+  },
+  DeleteScheduleException: {
+    required: ['ExceptionNum'],
+    example: { ExceptionNum: 1 },
+    description: 'Delete a schedule exception'
+  },
+  GetBlockedTimes: {
+    required: ['DateStart', 'DateEnd'],
+    optional: ['ProvNum', 'OpNum'],
+    example: { DateStart: '2025-12-01', DateEnd: '2025-12-07', ProvNum: 1 },
+    description: 'Expanded blocked periods (recurrences included) for a date range'
+  },
+  GetScheduleTemplates: {
+    required: [],
+    optional: ['ProvNum', 'is_active'],
+    example: { ProvNum: 1 },
+    description: 'List weekly schedule templates with their blocks'
+  },
+  GetScheduleTemplate: {
+    required: ['TemplateNum'],
+    example: { TemplateNum: 1 },
+    description: 'Get one weekly schedule template'
+  },
+  CreateScheduleTemplate: {
+    required: ['ProvNum', 'Name', 'Blocks'],
+    optional: ['WeekCycle', 'CycleAnchorDate', 'EffectiveFrom', 'EffectiveUntil', 'HorizonDays', 'Notes', 'IsActive'],
+    example: { ProvNum: 1, Name: 'Standard Week', Blocks: [{ DayOfWeek: 1, OpNum: 1, StartTime: '09:00:00', EndTime: '17:00:00' }] },
+    description: 'Create a weekly template (WeekCycle 2 = alternating weeks, WeekIndex 0/1 per block) and generate dated schedules'
+  },
+  UpdateScheduleTemplate: {
+    required: ['TemplateNum'],
+    optional: ['Name', 'Blocks', 'WeekCycle', 'CycleAnchorDate', 'EffectiveFrom', 'EffectiveUntil', 'HorizonDays', 'Notes', 'IsActive'],
+    example: { TemplateNum: 1, HorizonDays: 42 },
+    description: 'Update a template; future unbooked dates are regenerated and conflicts reported'
+  },
+  DeleteScheduleTemplate: {
+    required: ['TemplateNum'],
+    example: { TemplateNum: 1 },
+    description: 'Delete a template and its future unbooked schedules'
+  },
+  MaterializeScheduleTemplates: {
+    required: [],
+    optional: ['TemplateNum', 'HorizonDays'],
+    example: {},
+    description: 'Regenerate dated schedules from templates for the rolling horizon'
+  },
+  GetWaitlist: {
+    required: [],
+    optional: ['PatNum', 'Status', 'Source'],
+    example: {},
+    description: 'List waitlist entries (default: waiting and offered). Source "unscheduled" is the unscheduled list of broken appointments'
+  },
+  AddToWaitlist: {
+    required: ['PatNum'],
+    optional: ['PreferredProviders', 'PreferredDays', 'EarliestTime', 'LatestTime', 'DateFrom', 'DateUntil', 'lengthMinutes', 'TreatmentCode', 'AppointmentType', 'Channel', 'Phone', 'Priority', 'AutoOffer', 'Notes'],
+    example: { PatNum: 1, PreferredDays: ['Mon', 'Wed'], EarliestTime: '08:00', LatestTime: '12:00', AppointmentType: 'Cleaning' },
+    description: 'Put a patient on the waitlist for an earlier slot. When a matching slot frees up they get an SMS/WhatsApp offer to claim it. PreferredDays: 0-6 or day names; Channel: sms|whatsapp'
+  },
+  UpdateWaitlistEntry: {
+    required: ['WaitlistNum'],
+    optional: ['PreferredProviders', 'PreferredDays', 'EarliestTime', 'LatestTime', 'DateFrom', 'DateUntil', 'lengthMinutes', 'TreatmentCode', 'AppointmentType', 'Channel', 'Phone', 'Priority', 'AutoOffer', 'Status', 'Notes'],
+    example: { WaitlistNum: 1, Priority: 5 },
+    description: 'Update waitlist preferences, priority, AutoOffer or Status'
+  },
+  RemoveFromWaitlist: {
+    required: ['WaitlistNum'],
+    example: { WaitlistNum: 1 },
+    description: 'Take a patient off the waitlist; an open offer moves to the next patient'
+  },
+  GetWaitlistOffers: {
+    required: [],
+    optional: ['WaitlistNum', 'Status', 'limit'],
+    example: { Status: 'pending' },
+    description: 'Slot offers sent to waitlist patients and their outcome'
+  },
+  OfferSlotToWaitlist: {
+    required: ['AptDateTime', 'ProvNum', 'Op', 'lengthMinutes'],
+    example: { AptDateTime: '2025-12-05 10:00:00', ProvNum: 1, Op: 1, lengthMinutes: 60 },
+    description: 'Offer an open slot to the best matching waitlist patient'
+  },
+  ProcessWaitlist: {
+    required: [],
+    example: {},
+    description: 'Expire overdue waitlist offers and pass their slots to the next patient'
   }
 };
 
@@ -487,6 +591,11 @@ export async function POST(req: NextRequest) {
       console.log(`[Booking API] Channel: ${channel}, Allowed integrations: ${dataIntegrations?.join(', ') || 'all'}`);
     }
     
+    // Pick up state written by other instances (e.g. a slot chosen on the websocket server)
+    if (sessionId) {
+      await loadState(sessionId);
+    }
+    
     // If sessionId and conversationHistory provided, sync messages to state
     // This ensures the Calls section can display conversation history
     if (sessionId && conversationHistory && Array.isArray(conversationHistory)) {
@@ -756,6 +865,7 @@ export async function POST(req: NextRequest) {
       // Record failed call in conversation state if sessionId provided
       if (sessionId) {
         recordFunctionCall(sessionId, functionName, enhancedParameters, undefined, validation.error.message, autoFilledParams);
+        await flushState(sessionId);
       }
       
       // Return 200 with ACTIONABLE error - tell LLM exactly what to do
@@ -811,7 +921,7 @@ export async function POST(req: NextRequest) {
             case 'GetPatient':
               // Store patient info if single result
               if (result && !Array.isArray(result) && result.PatNum) {
-                updateSession(sessionId, {
+                await updateSession(sessionId, {
                   patient: {
                     patNum: result.PatNum,
                     firstName: result.FName,
@@ -828,7 +938,7 @@ export async function POST(req: NextRequest) {
             case 'CreatePatient':
               // Store newly created patient
               if (result && result.PatNum) {
-                updateSession(sessionId, {
+                await updateSession(sessionId, {
                   patient: {
                     patNum: result.PatNum,
                     firstName: result.FName,
@@ -845,7 +955,7 @@ export async function POST(req: NextRequest) {
             case 'GetAvailableSlots':
               // Store available slots
               if (result && Array.isArray(result)) {
-                updateSession(sessionId, {
+                await updateSession(sessionId, {
                   slots: { available: result },
                   workflow: { slotsQueried: true }
                 });
@@ -855,7 +965,7 @@ export async function POST(req: NextRequest) {
             case 'CreateAppointment':
               // Store created appointment
               if (result && result.AptNum) {
-                updateSession(sessionId, {
+                await updateSession(sessionId, {
                   appointment: {
                     aptNum: result.AptNum,
                     appointmentType: validatedParams.Pattern
@@ -872,6 +982,9 @@ export async function POST(req: NextRequest) {
           console.warn('[Booking API] Failed to update session state:', error);
           // Don't fail the request if session update fails
         }
+        
+        // The next turn may be handled by another instance
+        await flushState(sessionId);
       }
       
       // Return success response
@@ -881,6 +994,7 @@ export async function POST(req: NextRequest) {
       // Record error in conversation state
       if (sessionId) {
         recordFunctionCall(sessionId, functionName, validatedParams, undefined, error.message, autoFilledParams);
+        await flushState(sessionId);
       }
       
       // Enhanced logging for appointment booking failures
@@ -12,6 +12,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getOrCreateState,
+  loadState,
+  flushState,
   processMessage,
   recordFunctionCall,
   getAutoFilledParameters,
@@ -32,6 +34,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await loadState(sessionId);
+
     switch (action) {
       case 'get':
         // Get current state
@@ -51,6 +55,7 @@ export async function POST(req: NextRequest) {
           );
         }
         const updatedState = processMessage(sessionId, data.message, data.role);
+        await flushState(sessionId);
         console.log(`[Conversation] Processed message for ${sessionId}:`, getStateSummary(sessionId));
         return NextResponse.json({ 
           success: true, 
@@ -72,6 +77,7 @@ export async function POST(req: NextRequest) {
           data.result,
           data.error
         );
+        await flushState(sessionId);
         return NextResponse.json({ success: true });
 
       case 'get_auto_params':
@@ -123,7 +129,7 @@ export async function GET(req: NextRequest) {
     );
   }
   
-  const state = getOrCreateState(sessionId);
+  const state = await loadState(sessionId);
   const summary = getStateSummary(sessionId);
   
   return NextResponse.json({
@@ -0,0 +1,96 @@
+/**
+ * Conversation Feedback API
+ * GET: ?conversationId= | ?sessionId= - feedback left on a conversation, and the failure tags
+ * POST: { sessionId | conversationId, messageId?, functionCallId?, rating?, thumbsUp?,
+ *         feedbackText?, failureTags?, expectedResponse?, source? } - rate a conversation,
+ *       an assistant turn or a function call
+ * DELETE: ?id= - remove one of your own reviews
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import {
+  deleteFeedback,
+  FAILURE_TAGS,
+  listFeedback,
+  saveFeedback,
+  validateFeedback,
+  type FeedbackInput,
+} from '@/app/lib/feedback/feedback';
+
+const NOT_FOUND_ERRORS = ['Conversation not found', 'Message not found', 'Function call not found'];
+
+function errorStatus(message: string): number {
+  if (NOT_FOUND_ERRORS.includes(message)) return 404;
+  if (message === 'Only assistant messages can be rated') return 400;
+  return 500;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const { searchParams } = new URL(request.url);
+    const conversationId = searchParams.get('conversationId') || undefined;
+    const sessionId = searchParams.get('sessionId') || undefined;
+
+    if (!conversationId && !sessionId) {
+      return NextResponse.json(
+        { error: 'conversationId or sessionId is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const feedback = await listFeedback(context.organizationId, { conversationId, sessionId });
+    return NextResponse.json({ feedback, failureTags: FAILURE_TAGS, success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Feedback] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const input: FeedbackInput = await request.json();
+
+    const validationError = validateFeedback(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError, success: false }, { status: 400 });
+    }
+
+    const feedback = await saveFeedback(context.organizationId, input, context.user);
+    return NextResponse.json({ feedback, success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Feedback] Save error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: errorStatus(errorMessage) });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const context = await getCurrentOrganization(request);
+    const id = new URL(request.url).searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required', success: false }, { status: 400 });
+    }
+
+    await deleteFeedback(context.organizationId, id, context.user);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Feedback] Delete error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
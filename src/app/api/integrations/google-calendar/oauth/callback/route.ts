@@ -8,6 +8,7 @@ import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
 import { clearGoogleTokenCache } from '@/app/lib/integrations/GoogleCalendarService';
 import { clearCredentialCache, getGoogleCalendarCredentials } from '@/app/lib/credentialLoader';
 import { getPublicBaseUrl } from '@/app/lib/getPublicBaseUrl';
+import { CREDENTIAL_COLUMNS, openCredentials, sealCredentials, type CredentialRow } from '@/app/lib/credentials/vault';
 
 const TOKEN_URL = 'https://oauth2.googleapis.com/token';
 
@@ -88,7 +89,7 @@ export async function GET(request: NextRequest) {
 
     const { data: existing } = await supabase
       .from('api_credentials')
-      .select('id, credentials')
+      .select(CREDENTIAL_COLUMNS)
       .eq('organization_id', organizationId)
       .eq('credential_type', 'google_calendar')
       .eq('is_active', true)
@@ -96,19 +97,24 @@ export async function GET(request: NextRequest) {
       .limit(1)
       .maybeSingle();
 
+    const stored = existing
+      ? await openCredentials(existing as CredentialRow, { accessedBy: 'api.integrations.google-calendar.oauth.callback' })
+      : {};
     const newCredentials = {
-      ...(existing?.credentials as Record<string, string> || {}),
+      ...stored,
       client_id: credentials.clientId,
       client_secret: credentials.clientSecret,
       refresh_token: refreshToken,
       calendar_id: credentials.calendarId || 'primary',
     };
 
+    const sealed = await sealCredentials(organizationId, 'google_calendar', newCredentials);
+
     if (existing) {
       await supabase
         .from('api_credentials')
         .update({
-          credentials: newCredentials,
+          ...sealed,
           updated_at: new Date().toISOString(),
         })
         .eq('id', existing.id)
@@ -119,7 +125,7 @@ export async function GET(request: NextRequest) {
         credential_type: 'google_calendar',
         credential_name: 'Google Calendar',
         description: 'Connected via OAuth',
-        credentials: newCredentials,
+        ...sealed,
         is_active: true,
         is_default: true,
       });
@@ -244,6 +244,7 @@ export async function POST(request: NextRequest) {
           created: result.created,
           updated: result.updated,
           cancelled: result.cancelled,
+          conflicts: result.conflicts,
         });
       }
 
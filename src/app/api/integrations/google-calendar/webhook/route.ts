@@ -0,0 +1,45 @@
+/**
+ * Google Calendar Push Notifications
+ * POST: events.watch notification; runs an incremental sync for the channel's organization
+ *
+ * Google sends no body, only X-Goog-* headers. The channel token set at
+ * registration is echoed back and must match before anything is synced.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SyncManager } from '@/app/lib/integrations/SyncManager';
+import { getSyncStateByChannel, recordNotification } from '@/app/lib/integrations/GoogleCalendarSync';
+
+export async function POST(request: NextRequest) {
+  const channelId = request.headers.get('x-goog-channel-id');
+  const channelToken = request.headers.get('x-goog-channel-token');
+  const resourceId = request.headers.get('x-goog-resource-id');
+  const resourceState = request.headers.get('x-goog-resource-state');
+
+  if (!channelId) {
+    return NextResponse.json({ error: 'Missing channel id', success: false }, { status: 400 });
+  }
+
+  const state = await getSyncStateByChannel(channelId);
+  if (!state || state.channel_token !== channelToken || (resourceId && state.channel_resource_id && state.channel_resource_id !== resourceId)) {
+    // Unknown or superseded channel; 404 tells Google to stop retrying
+    console.warn(`[GoogleCalendar Webhook] Ignoring notification for unknown channel ${channelId}`);
+    return NextResponse.json({ error: 'Unknown channel', success: false }, { status: 404 });
+  }
+
+  await recordNotification(state.organization_id);
+
+  // 'sync' is the handshake sent right after the channel is created
+  if (resourceState === 'sync') {
+    return NextResponse.json({ success: true });
+  }
+
+  try {
+    const result = await new SyncManager(state.organization_id).syncGoogleCalendarChanges();
+    return NextResponse.json({ success: true, changed: result.changed });
+  } catch (error: any) {
+    console.error(`[GoogleCalendar Webhook] Sync failed for org ${state.organization_id}:`, error);
+    // Acknowledge anyway; the periodic refresh catches up
+    return NextResponse.json({ success: false, error: error?.message || 'Sync failed' });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Sync Outbox Worker
+ * POST: Retry due outbox items across all organizations
+ *
+ * Called on a timer by the WebSocket server (src/retell/server.ts) or any
+ * scheduler. Requires Authorization: Bearer <SYNC_WORKER_SECRET>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SyncManager } from '@/app/lib/integrations/SyncManager';
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.SYNC_WORKER_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', success: false },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await SyncManager.processAllDueOutboxes();
+    return NextResponse.json({
+      result,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Sync Outbox Worker] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -16,6 +16,9 @@ import {
   mapParametersToOpenDental,
   cleanPhoneNumber,
 } from '@/app/lib/opendentalUtils';
+import { getCurrentOrganization } from '@/app/lib/apiHelpers';
+import { getOrganizationIdFromPhone } from '@/app/lib/callHelpers';
+import { getOpenDentalCredentials, type OpenDentalCredentials } from '@/app/lib/credentialLoader';
 // Mock data for testing (inline)
 const mockPatientData = [
   {
@@ -53,24 +56,22 @@ const mockAppointmentSlots = [
  * 
  * Flow:
  * 1. Receive function call from orchestrator
- * 2. Look up endpoint details from registry
- * 3. Build HTTP request (URL, method, headers, body)
- * 4. Execute API call (or return mock data)
- * 5. Return response to orchestrator
+ * 2. Resolve the organization and load its OpenDental connection
+ * 3. Look up endpoint details from registry
+ * 4. Build HTTP request (URL, method, headers, body)
+ * 5. Execute API call (or return mock data)
+ * 6. Return response to orchestrator
+ *
+ * Organization: X-Organization-Id header (server-side callers), else the
+ * practice line in X-Phone-Number, else the signed-in user's organization
  */
 export async function POST(req: NextRequest) {
   try {
+    const organizationId = await resolveOrganizationId(req);
     const body = await req.json();
-    console.log('[OpenDental API] Received request:', body);
-    
-    // Log API key being used (first 20 chars only for security)
-    const apiKey = process.env.OPENDENTAL_API_KEY;
-    if (apiKey) {
-      const keyPreview = apiKey.length > 20 ? apiKey.substring(0, 20) + '...' : apiKey;
-      console.log('[OpenDental API] Using API key:', keyPreview);
-    } else {
-      console.warn('[OpenDental API] ⚠️ OPENDENTAL_API_KEY not set!');
-    }
+    console.log(`[OpenDental API] Received request for org ${organizationId}:`, body);
+
+    const connection = await getOpenDentalCredentials(organizationId);
     
     const { functionName, parameters } = body;
 
@@ -291,7 +292,7 @@ export async function POST(req: NextRequest) {
     });
 
     // Check if in mock mode
-    if (isMockMode()) {
+    if (isMockMode(connection)) {
       console.log(`[OpenDental Mock] ${functionName}`, parameters);
       const mockResponse = getMockResponse(functionName, parameters);
       return NextResponse.json(mockResponse);
@@ -373,7 +374,7 @@ export async function POST(req: NextRequest) {
 
     // Check for conflicts before creating/updating appointments
     if (functionName === 'CreateAppointment' || functionName === 'UpdateAppointment') {
-      const conflictCheck = await checkAppointmentConflict(functionName, mappedParameters);
+      const conflictCheck = await checkAppointmentConflict(connection, functionName, mappedParameters);
       if (conflictCheck.hasConflict) {
         console.error('[OpenDental API] ❌ Appointment conflict detected:', conflictCheck.message);
         return NextResponse.json(
@@ -389,7 +390,7 @@ export async function POST(req: NextRequest) {
     
     // Check appointment status before breaking it
     if (functionName === 'BreakAppointment') {
-      const statusCheck = await checkAppointmentStatusBeforeBreak(mappedParameters);
+      const statusCheck = await checkAppointmentStatusBeforeBreak(connection, mappedParameters);
       if (statusCheck.hasError) {
         console.error('[OpenDental API] ❌ Cannot break appointment:', statusCheck.message);
         return NextResponse.json(
@@ -405,7 +406,7 @@ export async function POST(req: NextRequest) {
     
     // Execute real API call
     try {
-      const response = await executeOpenDentalApiCall(endpoint, mappedParameters);
+      const response = await executeOpenDentalApiCall(connection, endpoint, mappedParameters);
       return NextResponse.json(response);
     } catch (error: any) {
       // If BreakAppointment fails due to breakType not being enabled, retry without breakType
@@ -424,7 +425,7 @@ export async function POST(req: NextRequest) {
           
           // Remove breakType from parameters and retry
           const { breakType, ...retryParameters } = mappedParameters;
-          const retryResponse = await executeOpenDentalApiCall(endpoint, retryParameters);
+          const retryResponse = await executeOpenDentalApiCall(connection, endpoint, retryParameters);
           return NextResponse.json(retryResponse);
         }
       }
@@ -461,10 +462,30 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Resolve which organization's OpenDental connection to use
+ */
+async function resolveOrganizationId(req: NextRequest): Promise<string> {
+  const orgIdHeader = req.headers.get('X-Organization-Id');
+  if (orgIdHeader) {
+    // Server-side call (Retell/Twilio WebSocket servers): trusted internal header
+    return orgIdHeader;
+  }
+
+  const phoneHeader = req.headers.get('X-Phone-Number');
+  if (phoneHeader) {
+    return getOrganizationIdFromPhone(phoneHeader);
+  }
+
+  const context = await getCurrentOrganization(req);
+  return context.organizationId;
+}
+
 /**
  * Check for appointment conflicts before creating/updating
  */
 async function checkAppointmentConflict(
+  connection: OpenDentalCredentials,
   functionName: string,
   parameters: Record<string, any>
 ): Promise<{ hasConflict: boolean; message?: string; details?: any }> {
@@ -501,12 +522,12 @@ async function checkAppointmentConflict(
 
     // Get appointments for the same date and operatory
     // Use the same endpoint format as GetAppointments
-    const baseUrl = getOpenDentalBaseUrl();
+    const baseUrl = getOpenDentalBaseUrl(connection);
     const url = `${baseUrl.replace(/\/$/, '')}/appointments?dateStart=${appointmentDateStr}&dateEnd=${appointmentDateStr}&Op=${op}`;
     
     const response = await fetch(url, {
       method: 'GET',
-      headers: getOpenDentalAuthHeader(),
+      headers: getOpenDentalAuthHeader(connection),
     });
 
     if (!response.ok) {
@@ -594,6 +615,7 @@ async function checkAppointmentConflict(
  * Only appointments with AptStatus of 'Scheduled' can be broken
  */
 async function checkAppointmentStatusBeforeBreak(
+  connection: OpenDentalCredentials,
   parameters: Record<string, any>
 ): Promise<{ hasError: boolean; message?: string; details?: any }> {
   const aptNum = parameters.AptNum;
@@ -607,12 +629,12 @@ async function checkAppointmentStatusBeforeBreak(
 
   try {
     // Get the appointment to check its status
-    const baseUrl = getOpenDentalBaseUrl();
+    const baseUrl = getOpenDentalBaseUrl(connection);
     const url = `${baseUrl.replace(/\/$/, '')}/appointments/${aptNum}`;
     
     const response = await fetch(url, {
       method: 'GET',
-      headers: getOpenDentalAuthHeader(),
+      headers: getOpenDentalAuthHeader(connection),
     });
 
     if (!response.ok) {
@@ -649,10 +671,11 @@ async function checkAppointmentStatusBeforeBreak(
  * Execute actual OpenDental API call
  */
 async function executeOpenDentalApiCall(
+  connection: OpenDentalCredentials,
   endpoint: EndpointInfo,
   parameters: Record<string, any>
 ) {
-  const baseUrl = getOpenDentalBaseUrl();
+  const baseUrl = getOpenDentalBaseUrl(connection);
   const pathParams = extractPathParamNames(endpoint.endpoint);
 
   // Strip /api/v1 or /api prefix from endpoint if present (baseUrl already includes /api/v1)
@@ -679,7 +702,7 @@ async function executeOpenDentalApiCall(
   // Build request options
   const requestOptions: RequestInit = {
     method: endpoint.method,
-    headers: getOpenDentalAuthHeader(),
+    headers: getOpenDentalAuthHeader(connection),
   };
 
   // Add body for POST/PUT requests
@@ -691,7 +714,6 @@ async function executeOpenDentalApiCall(
   }
 
   console.log(`[OpenDental API] Calling: ${endpoint.method} ${url}`);
-  console.log(`[OpenDental API] Headers:`, requestOptions.headers);
 
   // Execute with retry logic
   return await retryRequest(async () => {
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPortalSession, PORTAL_SESSION_COOKIE } from '@/app/lib/portal/auth';
+import {
+  cancelPortalAppointment,
+  getRescheduleSlots,
+  reschedulePortalAppointment,
+} from '@/app/lib/portal/account';
+
+const VALID_ACTIONS = ['reschedule', 'cancel'];
+
+/**
+ * PUBLIC API - Patient portal session cookie required
+ * GET  /api/public/portal/appointments/:aptNum?date=YYYY-MM-DD → open times that week
+ * POST /api/public/portal/appointments/:aptNum
+ *      { action: 'cancel' } | { action: 'reschedule', dateTime, providerId, operatoryId }
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ aptNum: string }> }
+) {
+  try {
+    const session = await getPortalSession(req.cookies.get(PORTAL_SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { aptNum } = await params;
+    const date = new URL(req.url).searchParams.get('date') || '';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const result = await getRescheduleSlots(session, Number(aptNum), date);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('[Public API] Error loading portal slots:', error);
+    return NextResponse.json({ error: 'Failed to load available times' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ aptNum: string }> }
+) {
+  try {
+    const session = await getPortalSession(req.cookies.get(PORTAL_SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { aptNum } = await params;
+    const { action, dateTime, providerId, operatoryId } = await req.json();
+
+    if (!VALID_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of: ${VALID_ACTIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const outcome = action === 'cancel'
+      ? await cancelPortalAppointment(session, Number(aptNum))
+      : await reschedulePortalAppointment(session, Number(aptNum), {
+          dateTime: String(dateTime || ''),
+          providerId: Number(providerId),
+          operatoryId: Number(operatoryId),
+        });
+
+    return NextResponse.json(outcome, { status: outcome.success ? 200 : 409 });
+  } catch (error: any) {
+    console.error('[Public API] Error changing portal appointment:', error);
+    return NextResponse.json({ error: 'Failed to update your appointment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPortalOrganization, requestPortalLink } from '@/app/lib/portal/auth';
+
+const SENT_MESSAGE = 'If we have your details on file, a sign-in link is on its way. It expires in 15 minutes.';
+
+/**
+ * PUBLIC API - No authentication required
+ * POST /api/public/portal/link { slug, contact }
+ *
+ * Send a patient portal sign-in link to the phone or email on the patient's
+ * record. The answer is the same whether or not a patient matched.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { slug, contact } = await req.json();
+
+    if (!contact || typeof contact !== 'string') {
+      return NextResponse.json({ error: 'Phone number or email is required' }, { status: 400 });
+    }
+
+    const org = await getPortalOrganization(slug);
+    if (!org) {
+      return NextResponse.json({ error: 'Patient portal not found' }, { status: 404 });
+    }
+
+    await requestPortalLink(org, contact);
+
+    return NextResponse.json({ success: true, message: SENT_MESSAGE });
+  } catch (error: any) {
+    console.error('[Public API] Error sending portal link:', error);
+    return NextResponse.json({ error: 'Failed to send sign-in link' }, { status: 500 });
+  }
+}
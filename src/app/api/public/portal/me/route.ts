@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPortalSession, PORTAL_SESSION_COOKIE } from '@/app/lib/portal/auth';
+import { getPortalOverview, updatePortalContact } from '@/app/lib/portal/account';
+
+/**
+ * PUBLIC API - Patient portal session cookie required
+ * GET   /api/public/portal/me                    → appointments, contact details, treatment plans
+ * PATCH /api/public/portal/me { phone?, email? } → update contact details
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getPortalSession(req.cookies.get(PORTAL_SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const overview = await getPortalOverview(session);
+    return NextResponse.json(overview);
+  } catch (error: any) {
+    console.error('[Public API] Error loading portal:', error);
+    return NextResponse.json({ error: 'Failed to load your account' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await getPortalSession(req.cookies.get(PORTAL_SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { phone, email } = await req.json();
+    const outcome = await updatePortalContact(session, {
+      phone: typeof phone === 'string' ? phone : undefined,
+      email: typeof email === 'string' ? email : undefined,
+    });
+
+    return NextResponse.json(outcome, { status: outcome.success ? 200 : 400 });
+  } catch (error: any) {
+    console.error('[Public API] Error updating portal contact details:', error);
+    return NextResponse.json({ error: 'Failed to update your details' }, { status: 500 });
+  }
+}
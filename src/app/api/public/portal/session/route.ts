@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  PORTAL_SESSION_COOKIE,
+  PORTAL_SESSION_MAX_AGE_SECONDS,
+  redeemPortalLink,
+  revokePortalSession,
+} from '@/app/lib/portal/auth';
+
+/**
+ * PUBLIC API - No authentication required (the link token is the credential)
+ * POST   /api/public/portal/session { token }  → use a sign-in link, set the session cookie
+ * DELETE /api/public/portal/session            → sign out
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { token } = await req.json();
+    const redeemed = await redeemPortalLink(token);
+
+    if (!redeemed) {
+      return NextResponse.json(
+        { error: 'This sign-in link has expired or was already used. Please request a new one.' },
+        { status: 401 }
+      );
+    }
+
+    const res = NextResponse.json({ success: true, slug: redeemed.organizationSlug });
+    res.cookies.set(PORTAL_SESSION_COOKIE, redeemed.sessionToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: PORTAL_SESSION_MAX_AGE_SECONDS,
+    });
+    return res;
+  } catch (error: any) {
+    console.error('[Public API] Error signing in to portal:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    await revokePortalSession(req.cookies.get(PORTAL_SESSION_COOKIE)?.value);
+
+    const res = NextResponse.json({ success: true });
+    res.cookies.delete(PORTAL_SESSION_COOKIE);
+    return res;
+  } catch (error: any) {
+    console.error('[Public API] Error signing out of portal:', error);
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+  }
+}
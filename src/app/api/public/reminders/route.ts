@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseWithOrg } from '@/app/lib/supabaseClient';
+import { parseLocalDateTime } from '@/app/lib/scheduling/intervals';
+import { describeReminderTime } from '@/app/lib/reminders/templates';
+import { applyReminderResponse, getReminderByToken } from '@/app/lib/reminders/reminders';
+
+const VALID_ACTIONS = ['confirm', 'reschedule', 'cancel'];
+
+/**
+ * PUBLIC API - No authentication required (the token is the credential)
+ * GET  /api/public/reminders?token=xxx      → appointment summary
+ * POST /api/public/reminders { token, action: 'confirm' | 'reschedule' | 'cancel' }
+ *
+ * Link sent with appointment reminders
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const token = new URL(req.url).searchParams.get('token') || '';
+    const reminder = await getReminderByToken(token);
+
+    if (!reminder) {
+      return NextResponse.json({ error: 'Reminder not found' }, { status: 404 });
+    }
+
+    const db = await getSupabaseWithOrg(reminder.organization_id);
+    const [{ data: org }, { data: appointment }] = await Promise.all([
+      db.from('organizations').select('name').eq('id', reminder.organization_id).maybeSingle(),
+      db.from('appointments')
+        .select('appointment_datetime, duration_minutes, status, confirmation_status, patients(first_name), providers(first_name, last_name)')
+        .eq('id', reminder.appointment_id)
+        .maybeSingle(),
+    ]);
+
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    const start = parseLocalDateTime(appointment.appointment_datetime);
+    const when = start !== null ? describeReminderTime(start, 'en') : null;
+    const provider = appointment.providers as any;
+
+    return NextResponse.json({
+      organizationName: org?.name || '',
+      patientFirstName: (appointment.patients as any)?.first_name || '',
+      providerName: provider ? `Dr. ${provider.first_name} ${provider.last_name}` : '',
+      slot: when ? `${when.date} at ${when.time}` : appointment.appointment_datetime,
+      lengthMinutes: appointment.duration_minutes,
+      status: appointment.status,
+      confirmationStatus: appointment.confirmation_status,
+      response: reminder.response,
+    });
+  } catch (error: any) {
+    console.error('[Public API] Error loading reminder:', error);
+    return NextResponse.json({ error: 'Failed to load appointment' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { token, action } = await req.json();
+
+    if (!VALID_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of: ${VALID_ACTIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const reminder = await getReminderByToken(token);
+    if (!reminder) {
+      return NextResponse.json({ error: 'Reminder not found' }, { status: 404 });
+    }
+
+    const db = await getSupabaseWithOrg(reminder.organization_id);
+    const outcome = await applyReminderResponse(db, reminder, action);
+
+    return NextResponse.json({
+      success: outcome.success,
+      message: outcome.message,
+    }, { status: outcome.success ? 200 : 409 });
+  } catch (error: any) {
+    console.error('[Public API] Error answering reminder:', error);
+    return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+  }
+}
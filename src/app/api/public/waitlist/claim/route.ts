@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseWithOrg } from '@/app/lib/supabaseClient';
+import { parseLocalDateTime } from '@/app/lib/scheduling/intervals';
+import { describeSlotTime, isOfferExpired } from '@/app/lib/waitlist/matching';
+import { acceptOffer, closeOffer, getOfferByToken } from '@/app/lib/waitlist/offers';
+
+/**
+ * PUBLIC API - No authentication required (the token is the credential)
+ * GET  /api/public/waitlist/claim?token=xxx      → offer summary
+ * POST /api/public/waitlist/claim { token, action: 'accept' | 'decline' }
+ *
+ * Claim link sent with waitlist slot offers
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const token = new URL(req.url).searchParams.get('token') || '';
+    let offer = await getOfferByToken(token);
+
+    if (!offer) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    const db = await getSupabaseWithOrg(offer.organization_id);
+
+    // Expire lazily so the page never shows a claimable stale offer
+    if (offer.status === 'pending' && isOfferExpired(offer)) {
+      await closeOffer(db, offer, 'expired');
+      offer = { ...offer, status: 'expired' };
+    }
+
+    const [{ data: org }, { data: provider }, { data: entry }] = await Promise.all([
+      db.from('organizations').select('name').eq('id', offer.organization_id).maybeSingle(),
+      db.from('providers').select('first_name, last_name').eq('id', offer.provider_id).maybeSingle(),
+      db.from('waitlist_entries').select('patients(first_name)').eq('id', offer.entry_id).maybeSingle(),
+    ]);
+
+    const start = parseLocalDateTime(offer.slot_datetime);
+
+    return NextResponse.json({
+      status: offer.status,
+      organizationName: org?.name || '',
+      patientFirstName: (entry?.patients as any)?.first_name || '',
+      providerName: provider ? `Dr. ${provider.first_name} ${provider.last_name}` : '',
+      slot: start !== null ? describeSlotTime(start) : offer.slot_datetime,
+      lengthMinutes: offer.duration_minutes,
+      expiresAt: offer.expires_at,
+    });
+  } catch (error: any) {
+    console.error('[Public API] Error loading waitlist offer:', error);
+    return NextResponse.json({ error: 'Failed to load offer' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { token, action } = await req.json();
+
+    if (action !== 'accept' && action !== 'decline') {
+      return NextResponse.json({ error: "action must be 'accept' or 'decline'" }, { status: 400 });
+    }
+
+    const offer = await getOfferByToken(token);
+    if (!offer) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    const db = await getSupabaseWithOrg(offer.organization_id);
+    const outcome = action === 'accept'
+      ? await acceptOffer(db, offer)
+      : await closeOffer(db, offer, 'declined');
+
+    return NextResponse.json({
+      success: outcome.success,
+      message: outcome.message,
+      appointmentId: outcome.appointmentId,
+    }, { status: outcome.success ? 200 : 409 });
+  } catch (error: any) {
+    console.error('[Public API] Error claiming waitlist offer:', error);
+    return NextResponse.json({ error: 'Failed to process offer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Appointment Reminder Worker
+ * POST: Send due appointment reminders across all organizations
+ *
+ * Called on a timer by the WebSocket server (src/retell/server.ts) or any
+ * scheduler. Requires Authorization: Bearer <SYNC_WORKER_SECRET>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processAllDueReminders } from '@/app/lib/reminders/reminders';
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.SYNC_WORKER_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', success: false },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await processAllDueReminders();
+    return NextResponse.json({
+      result,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Reminder Worker] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
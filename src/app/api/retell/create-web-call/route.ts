@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { getCredentials } from '@/app/lib/credentialLoader';
 
 /**
  * Create a Retell web call and return access token
@@ -18,30 +18,20 @@ export async function POST(req: NextRequest) {
 
     console.log('[Retell API] Organization:', orgId);
 
-    // Load Retell credentials from database (with fallback to .env)
+    // Load Retell credentials from database (getCredentials falls back to .env)
     let apiKey = process.env.RETELL_API_KEY;
     let agentIdToUse = agent_id || process.env.RETELL_AGENT_ID;
 
     if (orgId) {
-      const supabase = getSupabaseAdmin();
       try {
-        const { data: credentials } = await supabase
-          .from('api_credentials')
-          .select('credential_data')
-          .eq('organization_id', orgId)
-          .eq('service_name', 'retell')
-          .single();
-
-        if (credentials?.credential_data) {
-          const creds = credentials.credential_data;
-          if (creds.api_key) {
-            apiKey = creds.api_key;
-            console.log('[Retell API] Using DB API key for org:', orgId);
-          }
-          if (creds.agent_id && !agent_id) {
-            agentIdToUse = creds.agent_id;
-            console.log('[Retell API] Using DB agent ID:', agentIdToUse);
-          }
+        const creds = await getCredentials(orgId, 'retell');
+        if (creds.api_key) {
+          apiKey = creds.api_key;
+          console.log('[Retell API] Using DB API key for org:', orgId);
+        }
+        if (creds.agent_id && !agent_id) {
+          agentIdToUse = creds.agent_id;
+          console.log('[Retell API] Using DB agent ID:', agentIdToUse);
         }
       } catch (error) {
         console.log('[Retell API] No DB credentials, falling back to .env');
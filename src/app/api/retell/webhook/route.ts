@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/app/lib/supabaseClient';
+import { recordRetellTransferResult } from '@/app/lib/transfers/callTransfer';
 
 // Dynamic import to avoid Next.js bundling issues
 let RetellClient: any = null;
@@ -324,6 +325,9 @@ async function handleCallEnded(call: any) {
       if (call.transfer_destination) {
         console.log(`[Retell Webhook] Call transferred to: ${call.transfer_destination}`);
       }
+
+      // Outcome of a transfer the agent started (transferCall)
+      await recordRetellTransferResult(call.call_id, call.disconnection_reason);
       
       // NOTE: Email notification moved to call_analyzed event
       // This ensures email includes call_analysis (summary, extracted fields, etc.)
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { transcribeAudioBuffer } from '@/app/lib/speechToText';
 
 // Proxy endpoint for OpenAI STT API (for API key security)
 export async function POST(req: NextRequest) {
@@ -13,25 +13,16 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'No audio file provided' }, { status: 400 });
     }
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
 
-    // Convert File to File-like object for OpenAI SDK
-    const fileBlob = await file.arrayBuffer();
-    const fileBuffer = Buffer.from(fileBlob);
-    
-    // Create a File-like object
-    const audioFile = new File([fileBuffer], file.name, { type: file.type });
-
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: model,
-      language: language as any,
+    const text = await transcribeAudioBuffer(fileBuffer, {
+      fileName: file.name,
+      mimeType: file.type,
+      model,
+      language,
     });
 
-    // Log transcription for debugging
-    console.log(`[STT API] Transcribed: "${transcription.text}" (file size: ${file.size} bytes, type: ${file.type})`);
-
-    return NextResponse.json({ text: transcription.text });
+    return NextResponse.json({ text });
   } catch (error: any) {
     console.error('[STT API] Error:', error);
     return NextResponse.json(
@@ -40,14 +31,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-
-
-
-
-
-
-
-
-
-
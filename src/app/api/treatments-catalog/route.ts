@@ -12,6 +12,16 @@ export interface TreatmentCatalogItem {
   requires_surface: boolean;
   is_active?: boolean;
   description?: string;
+  /** Provider needs ANY of these specialty tags (empty = any provider) */
+  required_specialties?: string[];
+  /** Operatory needs ALL of these tags (empty = any room) */
+  required_operatory_tags?: string[];
+}
+
+function normalizeTagList(tags: unknown): string[] | undefined {
+  if (tags === undefined || tags === null) return undefined;
+  const list = Array.isArray(tags) ? tags : String(tags).split(',');
+  return list.map((tag) => String(tag).trim()).filter(Boolean);
 }
 
 /**
@@ -90,6 +100,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         requires_surface: body.requires_surface || false,
         is_active: body.is_active !== false,
         description: body.description,
+        required_specialties: normalizeTagList(body.required_specialties) || [],
+        required_operatory_tags: normalizeTagList(body.required_operatory_tags) || [],
       })
       .select()
       .single();
@@ -148,6 +160,8 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
         requires_surface: body.requires_surface,
         is_active: body.is_active,
         description: body.description,
+        required_specialties: normalizeTagList(body.required_specialties),
+        required_operatory_tags: normalizeTagList(body.required_operatory_tags),
       })
       .eq('id', body.id)
       .eq('organization_id', context.organizationId) // CRITICAL: Prevent updating other org's data
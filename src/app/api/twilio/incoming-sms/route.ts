@@ -14,7 +14,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { callLexi } from '@/app/agentConfigs/embeddedBooking/lexiAgentTwilio';
 import { getOrganizationIdFromPhone } from '@/app/lib/callHelpers';
+import { getChannelConfig, getTextRouting } from '@/app/lib/channelConfigLoader';
 import { getSupabaseWithOrg } from '@/app/lib/supabaseClient';
+import { handleWaitlistReply } from '@/app/lib/waitlist/offers';
+import { handleReminderReply } from '@/app/lib/reminders/reminders';
+import { escalateThread, noteInboundMessage, readEscalation } from '@/app/lib/inbox/handoff';
+import { getAgentBlockReason } from '@/app/lib/billing/entitlements';
 
 export async function POST(req: NextRequest) {
   console.log('\n' + '='.repeat(70));
@@ -121,6 +126,9 @@ export async function POST(req: NextRequest) {
 
     console.log(`[Twilio SMS] 📥 Logged user message to database`);
 
+    // Staff have taken over this thread (claimed or escalated) - Lexi stays quiet
+    const aiPaused = await noteInboundMessage(organizationId, conversation.id);
+
     // Load conversation history from database
     const { data: messages, error: messagesError } = await supabase
       .from('conversation_messages')
@@ -136,9 +144,42 @@ export async function POST(req: NextRequest) {
       content: msg.content,
     })) || [];
 
-    // Process message with Lexi
-    console.log(`[Twilio SMS] 🤖 Processing with Lexi (${isFirstMessage ? 'first' : 'continuing'} message)...`);
-    const response = await callLexi(body, history, isFirstMessage);
+    // "YES 4821" / "NO 4821" answers a waitlist slot offer, "C" / "R" / "X" an
+    // appointment reminder; everything else goes to Lexi
+    const waitlistResponse = await handleWaitlistReply(organizationId, from, body);
+    const reminderResponse = waitlistResponse ? null : await handleReminderReply(organizationId, from, body);
+    // Plan hard limits (expired trial, quota used up) hand the thread to staff
+    const agentBlockReason = waitlistResponse || reminderResponse || aiPaused
+      ? null
+      : await getAgentBlockReason(organizationId);
+    if (waitlistResponse) {
+      console.log(`[Twilio SMS] 📋 Handled as waitlist offer reply`);
+    } else if (reminderResponse) {
+      console.log(`[Twilio SMS] 📅 Handled as appointment reminder reply`);
+    } else if (aiPaused || agentBlockReason) {
+      if (agentBlockReason) {
+        console.log(`[Twilio SMS] 🚫 ${agentBlockReason}, handing thread to staff`);
+        await escalateThread(organizationId, conversation.id, agentBlockReason);
+      } else {
+        console.log(`[Twilio SMS] 🙋 Thread is with staff, not replying`);
+      }
+      return new NextResponse(`<?xml version="1.0" encoding="UTF-8"?>
+<Response></Response>`, {
+        headers: { 'Content-Type': 'text/xml' },
+        status: 200,
+      });
+    } else {
+      console.log(`[Twilio SMS] 🤖 Processing with Lexi (${isFirstMessage ? 'first' : 'continuing'} message)...`);
+    }
+    const historyLength = history.length;
+    // SMS runs on the Twilio channel's text backend (the voice side is realtime)
+    const routing = getTextRouting(await getChannelConfig(organizationId, 'twilio'));
+    const response = waitlistResponse ?? reminderResponse ?? await callLexi(body, history, isFirstMessage, undefined, undefined, routing);
+
+    const escalationReason = readEscalation(history.slice(historyLength));
+    if (escalationReason !== null) {
+      await escalateThread(organizationId, conversation.id, escalationReason);
+    }
 
     // Log assistant response to database
     await supabase
@@ -0,0 +1,36 @@
+/**
+ * Twilio Call Transfer - Dial Status
+ *
+ * <Dial action> of a transfer: runs when the staff leg ends. A taken call
+ * just hangs up; otherwise the next target rings, then voicemail.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildVoicemailTwiml, getTransfer, handleDialResult } from '@/app/lib/transfers/callTransfer';
+
+const twimlResponse = (twiml: string) => new NextResponse(twiml, {
+  headers: { 'Content-Type': 'text/xml' },
+  status: 200,
+});
+
+export async function POST(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const transfer = await getTransfer(searchParams.get('transferId') || '').catch(() => null);
+
+  if (!transfer) {
+    console.warn('[Twilio Transfer] Dial status for unknown transfer');
+    return twimlResponse('<?xml version="1.0" encoding="UTF-8"?>\n<Response><Hangup/></Response>');
+  }
+
+  try {
+    const formData = await req.formData();
+    const attempt = parseInt(searchParams.get('attempt') || '0', 10);
+    const dialStatus = String(formData.get('DialCallStatus') || 'unknown');
+
+    return twimlResponse(await handleDialResult(transfer, attempt, dialStatus));
+  } catch (error: any) {
+    console.error('[Twilio Transfer] Dial status error:', error);
+    // Don't drop the caller: let them leave a message
+    return twimlResponse(buildVoicemailTwiml(transfer));
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Twilio Call Transfer - Voicemail
+ *
+ * <Record action> after nobody took the transfer: stores the recording on the
+ * transfer and the conversation, then ends the call.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTransfer, saveVoicemail } from '@/app/lib/transfers/callTransfer';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const transfer = await getTransfer(searchParams.get('transferId') || '');
+    const formData = await req.formData();
+    const recordingUrl = formData.get('RecordingUrl') as string;
+
+    if (transfer && recordingUrl) {
+      await saveVoicemail(transfer, recordingUrl, parseInt(String(formData.get('RecordingDuration') || '0'), 10));
+    }
+  } catch (error: any) {
+    console.error('[Twilio Transfer] Voicemail error:', error);
+  }
+
+  return new NextResponse(`<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Say>Thank you. We will get back to you as soon as we can. Goodbye.</Say>
+    <Hangup/>
+</Response>`, {
+    headers: { 'Content-Type': 'text/xml' },
+    status: 200,
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * Twilio Call Transfer - Whisper
+ *
+ * <Number url> of a transfer <Dial>: plays the agent's summary of the call to
+ * the staff member who picked up. ?step=accept receives their key press;
+ * pressing 1 connects the caller, anything else (or silence) hangs up so the
+ * next target is tried.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { acceptTransfer, buildWhisperTwiml, getTransfer } from '@/app/lib/transfers/callTransfer';
+
+const twimlResponse = (twiml: string) => new NextResponse(twiml, {
+  headers: { 'Content-Type': 'text/xml' },
+  status: 200,
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const transfer = await getTransfer(searchParams.get('transferId') || '');
+    const attempt = parseInt(searchParams.get('attempt') || '0', 10);
+
+    if (!transfer) {
+      console.warn('[Twilio Transfer] Whisper for unknown transfer');
+      return twimlResponse('<?xml version="1.0" encoding="UTF-8"?>\n<Response><Hangup/></Response>');
+    }
+
+    if (searchParams.get('step') === 'accept') {
+      const formData = await req.formData();
+      return twimlResponse(await acceptTransfer(transfer, attempt, String(formData.get('Digits') || '')));
+    }
+
+    return twimlResponse(buildWhisperTwiml(transfer, attempt));
+  } catch (error: any) {
+    console.error('[Twilio Transfer] Whisper error:', error);
+    return twimlResponse('<?xml version="1.0" encoding="UTF-8"?>\n<Response><Hangup/></Response>');
+  }
+}
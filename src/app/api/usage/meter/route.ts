@@ -0,0 +1,36 @@
+/**
+ * Usage Metering Worker
+ * POST: Meter yesterday's and today's usage into usage_ledger for every
+ *       organization
+ *
+ * Called on a timer by the WebSocket server (src/retell/server.ts) or any
+ * scheduler. Requires Authorization: Bearer <SYNC_WORKER_SECRET>.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { meterAllOrganizations } from '@/app/lib/billing/usageMetering';
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.SYNC_WORKER_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized', success: false },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await meterAllOrganizations();
+    return NextResponse.json({
+      result,
+      success: true,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Usage Worker] Error:', errorMessage);
+    return NextResponse.json({
+      error: errorMessage,
+      success: false,
+    }, { status: 500 });
+  }
+}
@@ -99,9 +99,17 @@ async function handleMessageUpsert(event: EvolutionWebhookEvent): Promise<NextRe
     return NextResponse.json({ status: 'ignored_group' });
   }
 
-  // Only process text messages (for now)
-  if (messageData.messageType !== 'conversation') {
-    console.log(`⏭️ Skipping non-text message: ${messageData.messageType}`);
+  // Text, button and list replies, voice notes (transcribed) and images (kept as attachments)
+  const SUPPORTED_MESSAGE_TYPES = [
+    'conversation',
+    'extendedTextMessage',
+    'buttonsResponseMessage',
+    'listResponseMessage',
+    'audioMessage',
+    'imageMessage',
+  ];
+  if (!SUPPORTED_MESSAGE_TYPES.includes(messageData.messageType)) {
+    console.log(`⏭️ Skipping unsupported message: ${messageData.messageType}`);
     return NextResponse.json({ status: 'ignored_media' });
   }
 
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface AppointmentSummary {
+  organizationName: string;
+  patientFirstName: string;
+  providerName: string;
+  slot: string;
+  lengthMinutes: number;
+  status: string;
+  confirmationStatus: string;
+  response: string | null;
+}
+
+type ReminderAction = 'confirm' | 'reschedule' | 'cancel';
+
+/**
+ * Public page behind the link in appointment reminders
+ */
+export default function AppointmentConfirmPage() {
+  const { token } = useParams<{ token: string }>();
+  const [appointment, setAppointment] = useState<AppointmentSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState<ReminderAction | null>(null);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/public/reminders?token=${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Appointment not found');
+        } else {
+          setAppointment(data);
+        }
+      } catch (err) {
+        console.error('Error loading appointment:', err);
+        setError('Could not load this appointment. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [token]);
+
+  const respond = async (action: ReminderAction) => {
+    setSubmitting(action);
+    try {
+      const response = await fetch('/api/public/reminders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, action }),
+      });
+      const data = await response.json();
+      setResult({ success: !!data.success, message: data.message || data.error || 'Something went wrong' });
+    } catch (err) {
+      console.error('Error answering reminder:', err);
+      setResult({ success: false, message: 'Could not reach the office. Please try again.' });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        {loading ? (
+          <CardContent className="py-12 text-center text-gray-500">Loading...</CardContent>
+        ) : error || !appointment ? (
+          <CardContent className="py-12 text-center text-gray-600">{error || 'Appointment not found'}</CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>{appointment.organizationName || 'Your appointment'}</CardTitle>
+              <CardDescription>
+                {appointment.patientFirstName ? `Hi ${appointment.patientFirstName}, ` : ''}here are the details of your upcoming appointment.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-lg border bg-white p-4">
+                <div className="text-lg font-semibold text-gray-900">{appointment.slot}</div>
+                <div className="text-sm text-gray-600">
+                  {appointment.providerName}
+                  {appointment.lengthMinutes ? ` · ${appointment.lengthMinutes} min` : ''}
+                </div>
+              </div>
+
+              {result ? (
+                <p className={result.success ? 'text-green-700' : 'text-gray-700'}>{result.message}</p>
+              ) : appointment.status !== 'Scheduled' ? (
+                <p className="text-gray-700">This appointment is no longer scheduled.</p>
+              ) : (
+                <>
+                  {appointment.confirmationStatus === 'confirmed' && (
+                    <p className="text-sm text-green-700">You have already confirmed this appointment.</p>
+                  )}
+                  <div className="flex gap-2">
+                    {appointment.confirmationStatus !== 'confirmed' && (
+                      <Button className="flex-1" disabled={submitting !== null} onClick={() => respond('confirm')}>
+                        {submitting === 'confirm' ? 'Confirming...' : 'Confirm'}
+                      </Button>
+                    )}
+                    <Button variant="outline" className="flex-1" disabled={submitting !== null} onClick={() => respond('reschedule')}>
+                      Reschedule
+                    </Button>
+                    <Button variant="outline" className="flex-1 text-red-600" disabled={submitting !== null} onClick={() => respond('cancel')}>
+                      {submitting === 'cancel' ? 'Cancelling...' : 'Cancel'}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
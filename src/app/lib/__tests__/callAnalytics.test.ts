@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Call Analytics Aggregation
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/callAnalytics.test.ts
+ */
+
+import {
+  agentModeForSession,
+  aggregateCallAnalytics,
+  classifyOutcome,
+  previousRange,
+  type AnalyticsConversation,
+} from '../analytics/callAnalytics';
+
+const now = new Date('2026-03-04T12:00:00Z');
+
+const conversation = (overrides: Partial<AnalyticsConversation> = {}): AnalyticsConversation => ({
+  id: 'conv-1',
+  session_id: 'twilio_CA1',
+  channel: 'twilio',
+  direction: 'inbound',
+  from_number: '+15550001111',
+  to_number: '+15559990000',
+  intent: 'book',
+  stage: 'completed',
+  call_status: null,
+  duration_ms: 120000,
+  call_cost: null,
+  transfer_status: null,
+  created_at: '2026-03-02T15:00:00Z',
+  updated_at: '2026-03-02T15:02:00Z',
+  ...overrides,
+});
+
+describe('agentModeForSession', () => {
+  it('maps session prefixes to the agent that handled them', () => {
+    expect(agentModeForSession('twilio_CA1', 'twilio')).toBe('premium');
+    expect(agentModeForSession('standard_CA1', 'twilio')).toBe('standard');
+    expect(agentModeForSession('call_abc', 'retell')).toBe('retell');
+    expect(agentModeForSession('lexi_twilio_SM1', 'sms')).toBe('text');
+    expect(agentModeForSession('whatsapp_1', 'whatsapp')).toBe('text');
+    expect(agentModeForSession('session_1', null)).toBe('web');
+  });
+});
+
+describe('classifyOutcome', () => {
+  it('treats idle unfinished conversations as abandoned after 30 minutes', () => {
+    expect(classifyOutcome(conversation(), now)).toBe('completed');
+    expect(classifyOutcome(conversation({ stage: 'greeting', updated_at: '2026-03-04T11:50:00Z' }), now)).toBe('in_progress');
+    expect(classifyOutcome(conversation({ stage: 'greeting', updated_at: '2026-03-04T11:00:00Z' }), now)).toBe('abandoned');
+  });
+});
+
+describe('previousRange', () => {
+  it('returns the same number of days just before the range', () => {
+    expect(previousRange('2026-03-01', '2026-03-07')).toEqual({ from: '2026-02-22', to: '2026-02-28' });
+    expect(previousRange('2026-03-01', '2026-03-01')).toEqual({ from: '2026-02-28', to: '2026-02-28' });
+  });
+});
+
+describe('aggregateCallAnalytics', () => {
+  const conversations = [
+    conversation({ id: 'a', call_cost: { combined_cost: 40 } }),
+    conversation({ id: 'b', session_id: 'call_x', channel: 'retell', duration_ms: 60000, call_cost: { combined_cost: 20 } }),
+    conversation({ id: 'c', session_id: 'lexi_twilio_SM1', channel: 'sms', duration_ms: null, stage: 'greeting', transfer_status: 'connected', created_at: '2026-03-03T16:00:00Z', updated_at: '2026-03-03T16:01:00Z' }),
+  ];
+  const functionCalls = [
+    { conversation_id: 'a', function_name: 'GetAvailableSlots', error: null },
+    { conversation_id: 'a', function_name: 'CreateAppointment', error: null },
+    { conversation_id: 'b', function_name: 'CreateAppointment', error: 'Slot taken' },
+    { conversation_id: 'c', function_name: 'GetMultiplePatients', error: null },
+  ];
+
+  const report = aggregateCallAnalytics(
+    conversations,
+    functionCalls,
+    { from: '2026-03-01', to: '2026-03-03', timezone: 'America/New_York' },
+    now
+  );
+
+  it('computes conversion, handle time, tool errors and cost per booking', () => {
+    expect(report.totals.conversations).toBe(3);
+    expect(report.totals.bookings).toBe(1);
+    expect(report.totals.conversionRate).toBeCloseTo(1 / 3);
+    expect(report.totals.avgHandleTimeSeconds).toBe(80);
+    expect(report.totals.toolErrorRate).toBe(0.25);
+    expect(report.totals.abandoned).toBe(1);
+    expect(report.totals.transferred).toBe(1);
+    expect(report.totals.costCents).toBe(60);
+    expect(report.totals.costPerBookingCents).toBe(60);
+  });
+
+  it('fills every local day and groups by channel and agent mode', () => {
+    expect(report.byDay.map(day => [day.key, day.conversations])).toEqual([
+      ['2026-03-01', 0],
+      ['2026-03-02', 2],
+      ['2026-03-03', 1],
+    ]);
+    expect(report.byChannel.find(row => row.key === 'retell')?.toolErrors).toBe(1);
+    expect(report.byAgentMode.map(row => row.key).sort()).toEqual(['premium', 'retell', 'text']);
+    expect(report.byPhoneNumber[0]).toMatchObject({ key: '+15559990000', conversations: 3 });
+    expect(report.topToolErrors).toEqual([{ functionName: 'CreateAppointment', errors: 1, calls: 2 }]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Credential Encryption
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/credentialEncryption.test.ts
+ */
+
+import {
+  credentialAad,
+  decrypt,
+  encrypt,
+  generateDataKey,
+  loadMasterKeys,
+  maskCredentials,
+  resolveMaskedValues,
+} from '../credentials/encryption';
+
+const KEY_A = Buffer.alloc(32, 1).toString('base64');
+const KEY_B = Buffer.alloc(32, 2).toString('base64');
+
+describe('encrypt / decrypt', () => {
+  it('round-trips with the same key and owner', () => {
+    const key = generateDataKey();
+    const payload = encrypt(key, Buffer.from('{"api_key":"sk-test"}'), credentialAad('org-1', 'openai'));
+
+    expect(payload).toMatch(/^v1:/);
+    expect(decrypt(key, payload, credentialAad('org-1', 'openai')).toString()).toBe('{"api_key":"sk-test"}');
+  });
+
+  it('rejects ciphertext moved to another organization', () => {
+    const key = generateDataKey();
+    const payload = encrypt(key, Buffer.from('secret'), credentialAad('org-1', 'twilio'));
+
+    let failed = false;
+    try {
+      decrypt(key, payload, credentialAad('org-2', 'twilio'));
+    } catch {
+      failed = true;
+    }
+    expect(failed).toBe(true);
+  });
+});
+
+describe('loadMasterKeys', () => {
+  it('loads the current key and keys being rotated out', () => {
+    const masters = loadMasterKeys({
+      CREDENTIALS_MASTER_KEY: KEY_B,
+      CREDENTIALS_MASTER_KEY_ID: 'k2',
+      CREDENTIALS_PREVIOUS_MASTER_KEYS: `k1:${KEY_A}`,
+    });
+
+    expect(masters.currentId).toBe('k2');
+    expect([...masters.keys.keys()].sort()).toEqual(['k1', 'k2']);
+  });
+
+  it('refuses keys that are not 32 bytes', () => {
+    let message = '';
+    try {
+      loadMasterKeys({ CREDENTIALS_MASTER_KEY: Buffer.alloc(16).toString('base64') });
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    expect(message).toMatch(/32 bytes/);
+  });
+});
+
+describe('masking', () => {
+  it('masks secret fields and leaves the rest readable', () => {
+    expect(maskCredentials({
+      account_sid: 'AC1234567890abcdef',
+      auth_token: 'short',
+      phone_number: '+16195551234',
+      websocket_url: 'wss://example.com/ws',
+    })).toEqual({
+      account_sid: '••••cdef',
+      auth_token: '••••',
+      phone_number: '+16195551234',
+      websocket_url: 'wss://example.com/ws',
+    });
+  });
+
+  it('keeps stored secrets for masked values sent back unchanged', () => {
+    const stored = { api_url: 'https://old.example.com', api_key: 'od-secret-key-9999' };
+    const submitted = { ...maskCredentials(stored), api_url: 'https://new.example.com' };
+
+    expect(resolveMaskedValues(submitted, stored)).toEqual({
+      api_url: 'https://new.example.com',
+      api_key: 'od-secret-key-9999',
+    });
+    expect(resolveMaskedValues({ api_key: 'od-new-key' }, stored)).toEqual({ api_key: 'od-new-key' });
+  });
+});
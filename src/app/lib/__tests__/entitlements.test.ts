@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for plan entitlements and usage metering
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/entitlements.test.ts
+ */
+
+import {
+  buildEntitlements,
+  evaluateSeatLimit,
+  evaluateUsageLimit,
+  getAccountState,
+} from '../billing/entitlements';
+import { getBillingPeriod, reportedTokens, summarizeDayUsage, type MeteredConversation } from '../billing/usageMetering';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+const conversation = (overrides: Partial<MeteredConversation>): MeteredConversation => ({
+  id: 'c1',
+  channel: 'voice',
+  duration_ms: null,
+  llm_token_usage: null,
+  created_at: '2026-03-15T10:00:00Z',
+  updated_at: '2026-03-15T10:00:00Z',
+  ...overrides,
+});
+
+describe('getAccountState', () => {
+  it('should expire trials past trial_ends_at', () => {
+    expect(getAccountState({ status: 'trial', trial_ends_at: '2026-03-20T00:00:00Z' }, NOW)).toBe('trial');
+    expect(getAccountState({ status: 'trial', trial_ends_at: '2026-03-01T00:00:00Z' }, NOW)).toBe('trial_expired');
+    expect(getAccountState({ status: 'suspended', trial_ends_at: null }, NOW)).toBe('suspended');
+    expect(getAccountState({ status: 'active', trial_ends_at: '2026-03-01T00:00:00Z' }, NOW)).toBe('active');
+  });
+
+  it('should fall back to the free plan for unknown plans', () => {
+    const entitlements = buildEntitlements('org-1', {
+      plan: 'legacy',
+      status: 'active',
+      trial_ends_at: null,
+      max_users: 5,
+      max_providers: null,
+      max_whatsapp_instances: 1,
+    }, NOW);
+
+    expect(entitlements.plan.id).toBe('free');
+    expect(entitlements.seatLimits).toEqual({ users: 5, providers: null, whatsapp_instances: 1 });
+  });
+});
+
+describe('limit evaluation', () => {
+  it('should make seats soft near the limit and hard at it', () => {
+    expect(evaluateSeatLimit(3, 10).state).toBe('ok');
+    expect(evaluateSeatLimit(8, 10).state).toBe('soft');
+    expect(evaluateSeatLimit(10, 10).state).toBe('hard');
+    expect(evaluateSeatLimit(50, null)).toEqual({ used: 50, limit: null, ratio: null, state: 'ok', overage: 0 });
+  });
+
+  it('should block metered usage past the quota only without overage', () => {
+    expect(evaluateUsageLimit(450, 500, false).state).toBe('soft');
+    expect(evaluateUsageLimit(500, 500, false)).toMatchObject({ state: 'hard', overage: 0 });
+    expect(evaluateUsageLimit(620, 500, true)).toMatchObject({ state: 'soft', overage: 120 });
+  });
+});
+
+describe('usage metering', () => {
+  it('should use the calendar month in UTC as the billing period', () => {
+    expect(getBillingPeriod(new Date('2026-02-10T08:00:00Z'))).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+  });
+
+  it('should read Retell token usage', () => {
+    expect(reportedTokens({ values: [1200, 1500, 900], average: 1200, num_requests: 3 })).toBe(3600);
+    expect(reportedTokens({ average: 1000, num_requests: 4 })).toBe(4000);
+    expect(reportedTokens(null)).toBeNull();
+  });
+
+  it('should meter minutes, text messages and tokens for a day', () => {
+    const usage = summarizeDayUsage(
+      '2026-03-15',
+      [
+        conversation({ id: 'retell', duration_ms: 90000, llm_token_usage: { values: [500, 700] } }),
+        conversation({ id: 'premium', updated_at: '2026-03-15T10:03:00Z' }),
+        conversation({ id: 'sms', channel: 'sms' }),
+      ],
+      [
+        { conversation_id: 'premium', content: 'x'.repeat(400) },
+        { conversation_id: 'sms', content: 'I need a cleaning next week' },
+        { conversation_id: 'sms', content: 'x'.repeat(72) },
+      ],
+      [
+        { conversation_id: 'sms', parameters: { date: '2026-03-20' }, result: null },
+      ]
+    );
+
+    expect(usage.callMinutes).toBe(4.5);
+    expect(usage.voiceConversations).toBe(2);
+    expect(usage.messages).toBe(2);
+    expect(usage.textConversations).toBe(1);
+    // premium: 400 chars -> 100; sms: 27 + 72 + 21 (tool call) chars -> 30
+    expect(usage.estimatedTokens).toBe(130);
+    expect(usage.llmTokens).toBe(1330);
+  });
+
+  it('should meter messages in a thread that started on an earlier day', () => {
+    const usage = summarizeDayUsage(
+      '2026-03-15',
+      [
+        conversation({ id: 'sms', channel: 'sms', created_at: '2026-01-04T09:00:00Z', updated_at: '2026-03-15T11:00:00Z' }),
+        conversation({ id: 'old-call', duration_ms: 600000, created_at: '2026-03-14T23:50:00Z' }),
+      ],
+      [
+        { conversation_id: 'sms', content: 'x'.repeat(40) },
+        { conversation_id: 'sms', content: 'x'.repeat(40) },
+      ],
+      []
+    );
+
+    expect(usage.messages).toBe(2);
+    expect(usage.textConversations).toBe(1);
+    expect(usage.estimatedTokens).toBe(20);
+    // The call counts on the day it started
+    expect(usage.callMinutes).toBe(0);
+    expect(usage.voiceConversations).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for Feedback Validation and Dataset Export
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/feedbackDataset.test.ts
+ */
+
+import { buildDatasetExample, feedbackLabel, toJsonl } from '../feedback/dataset';
+import { validateFeedback, type ConversationFeedback } from '../feedback/feedback';
+
+const conversation = { id: 'conv-1', session_id: 'twilio_CA123', channel: 'twilio' };
+
+const messages = [
+  { id: 'm1', role: 'user' as const, content: 'I need a cleaning next week', created_at: '2026-03-02T15:00:00Z', sequence_num: 1 },
+  { id: 'm2', role: 'assistant' as const, content: 'I have Tuesday at 9am', created_at: '2026-03-02T15:00:05Z', sequence_num: 2 },
+  { id: 'm3', role: 'user' as const, content: 'Book it', created_at: '2026-03-02T15:00:10Z', sequence_num: 3 },
+  { id: 'm4', role: 'assistant' as const, content: 'You are booked', created_at: '2026-03-02T15:00:15Z', sequence_num: 4 },
+];
+
+const functionCalls = [
+  {
+    id: 'f1',
+    function_name: 'GetAvailableSlots',
+    parameters: { dateStart: '2026-03-09' },
+    result: '[{"DateTimeStart":"2026-03-10 09:00:00"}]',
+    error: null,
+    created_at: '2026-03-02T15:00:03Z',
+  },
+];
+
+const feedback = (overrides: Partial<ConversationFeedback> = {}): ConversationFeedback => ({
+  id: 'fb-1',
+  organization_id: 'org-1',
+  session_id: 'twilio_CA123',
+  conversation_id: 'conv-1',
+  message_id: null,
+  function_call_id: null,
+  rating: null,
+  thumbs_up: null,
+  feedback_text: null,
+  feedback_source: 'staff',
+  failure_tags: [],
+  expected_response: null,
+  submitted_by: 'user-1',
+  submitted_by_email: 'staff@example.com',
+  created_at: '2026-03-03T10:00:00Z',
+  updated_at: '2026-03-03T10:00:00Z',
+  ...overrides,
+});
+
+describe('validateFeedback', () => {
+  it('needs a conversation and something to record', () => {
+    expect(validateFeedback({ rating: 4 })).toMatch(/sessionId or conversationId/);
+    expect(validateFeedback({ sessionId: 's1' })).toMatch(/rating, tags or a comment/);
+    expect(validateFeedback({ sessionId: 's1', rating: 5 })).toBeNull();
+  });
+
+  it('rejects bad ratings, unknown tags and two targets', () => {
+    expect(validateFeedback({ conversationId: 'c', rating: 6 })).toMatch(/between 1 and 5/);
+    expect(validateFeedback({ conversationId: 'c', failureTags: ['made_up'] })).toMatch(/Unknown failure tag/);
+    expect(validateFeedback({ conversationId: 'c', messageId: 'm', functionCallId: 'f', thumbsUp: true })).toMatch(/not both/);
+  });
+});
+
+describe('feedbackLabel', () => {
+  it('treats failure tags as bad, then uses the rating, then thumbs', () => {
+    expect(feedbackLabel({ rating: 5, thumbs_up: true, failure_tags: ['tone'] })).toBe('bad');
+    expect(feedbackLabel({ rating: 4, thumbs_up: null, failure_tags: [] })).toBe('good');
+    expect(feedbackLabel({ rating: 3, thumbs_up: null, failure_tags: [] })).toBe('neutral');
+    expect(feedbackLabel({ rating: null, thumbs_up: false, failure_tags: [] })).toBe('bad');
+  });
+});
+
+describe('buildDatasetExample', () => {
+  it('uses the turns before a rated reply as context', () => {
+    const example = buildDatasetExample(
+      feedback({ message_id: 'm2', thumbs_up: false, failure_tags: ['wrong_slot'], expected_response: 'I have Monday at 9am' }),
+      conversation,
+      messages,
+      functionCalls
+    )!;
+
+    expect(example.target).toBe('message');
+    expect(example.label).toBe('bad');
+    expect(example.context.map(turn => turn.role)).toEqual(['user', 'tool']);
+    expect(example.context[1].name).toBe('GetAvailableSlots');
+    expect(example.output).toEqual({ role: 'assistant', content: 'I have Tuesday at 9am' });
+    expect(example.expected).toBe('I have Monday at 9am');
+  });
+
+  it('exports a rated function call as a tool turn', () => {
+    const example = buildDatasetExample(feedback({ function_call_id: 'f1', thumbs_up: true }), conversation, messages, functionCalls)!;
+    expect(example.target).toBe('function_call');
+    expect(example.context).toHaveLength(1);
+    expect(example.output?.arguments).toEqual({ dateStart: '2026-03-09' });
+  });
+
+  it('uses the whole conversation for call ratings and skips missing targets', () => {
+    const whole = buildDatasetExample(feedback({ rating: 5 }), conversation, messages, functionCalls)!;
+    expect(whole.target).toBe('conversation');
+    expect(whole.context).toHaveLength(5);
+    expect(whole.output).toBeNull();
+
+    expect(buildDatasetExample(feedback({ message_id: 'gone' }), conversation, messages, functionCalls)).toBeNull();
+  });
+});
+
+describe('toJsonl', () => {
+  it('writes one example per line', () => {
+    const example = buildDatasetExample(feedback({ rating: 5 }), conversation, messages, functionCalls)!;
+    const lines = toJsonl([example, { ...example, id: 'fb-2' }]).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).id).toBe('fb-2');
+    expect(toJsonl([])).toBe('');
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for incremental Google Calendar sync against a local HTTP stand-in
+ * of the Google Calendar API (GOOGLE_CALENDAR_API_URL / GOOGLE_OAUTH_TOKEN_URL)
+ * 
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/googleCalendarSync.test.ts
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { GoogleCalendarService } from '../integrations/GoogleCalendarService';
+import { eventToBusyInterval, isCacheWarm, type CalendarSyncState } from '../integrations/GoogleCalendarSync';
+import { parseLocalDateTime } from '../scheduling/intervals';
+
+jest.mock('../credentialLoader', () => ({
+  getGoogleCalendarCredentials: async () => ({
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    refreshToken: 'refresh-token',
+    calendarId: 'primary',
+  }),
+}));
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+}
+
+/** Minimal stand-in for the token endpoint and the Calendar v3 endpoints used by sync */
+function startGoogleStandIn(): Promise<{ server: http.Server; url: string; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://stand-in');
+      let body: any = raw;
+      try { body = raw ? JSON.parse(raw) : null; } catch { /* form-encoded token request */ }
+      requests.push({ method: req.method || 'GET', path: url.pathname, query: url.searchParams, body });
+
+      const send = (status: number, payload: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+
+      if (url.pathname === '/token') {
+        return send(200, { access_token: 'stand-in-token', expires_in: 3600, token_type: 'Bearer' });
+      }
+
+      if (url.pathname === '/calendar/v3/calendars/primary/events' && req.method === 'GET') {
+        const syncToken = url.searchParams.get('syncToken');
+        if (syncToken === 'expired') {
+          return send(410, { error: { code: 410, message: 'Sync token is no longer valid' } });
+        }
+        if (syncToken === 'sync-1') {
+          return send(200, {
+            items: [{ id: 'evt-2', status: 'cancelled' }],
+            nextSyncToken: 'sync-2',
+          });
+        }
+        if (url.searchParams.get('pageToken') === 'page-2') {
+          return send(200, {
+            items: [{ id: 'evt-2', status: 'confirmed', summary: 'Lunch', start: { dateTime: '2026-03-10T12:00:00Z' }, end: { dateTime: '2026-03-10T13:00:00Z' } }],
+            nextSyncToken: 'sync-1',
+          });
+        }
+        return send(200, {
+          items: [{ id: 'evt-1', status: 'confirmed', summary: 'Meeting', start: { dateTime: '2026-03-10T09:00:00Z' }, end: { dateTime: '2026-03-10T10:00:00Z' } }],
+          nextPageToken: 'page-2',
+        });
+      }
+
+      if (url.pathname === '/calendar/v3/calendars/primary/events/watch' && req.method === 'POST') {
+        return send(200, { id: body.id, resourceId: 'resource-1', expiration: String(Date.parse('2026-03-17T00:00:00Z')) });
+      }
+
+      if (url.pathname === '/calendar/v3/channels/stop' && req.method === 'POST') {
+        res.writeHead(204);
+        return res.end();
+      }
+
+      send(404, { error: { code: 404, message: 'Not found' } });
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+describe('Google Calendar incremental sync', () => {
+  let standIn: Awaited<ReturnType<typeof startGoogleStandIn>>;
+
+  beforeAll(async () => {
+    standIn = await startGoogleStandIn();
+    process.env.GOOGLE_CALENDAR_API_URL = `${standIn.url}/calendar/v3`;
+    process.env.GOOGLE_OAUTH_TOKEN_URL = `${standIn.url}/token`;
+  });
+
+  afterAll(done => {
+    delete process.env.GOOGLE_CALENDAR_API_URL;
+    delete process.env.GOOGLE_OAUTH_TOKEN_URL;
+    standIn.server.close(done);
+  });
+
+  beforeEach(() => {
+    standIn.requests.length = 0;
+  });
+
+  describe('listEventChanges', () => {
+    it('should page through the initial listing and return the sync token', async () => {
+      const service = new GoogleCalendarService('org-initial');
+
+      const first = await service.listEventChanges('primary', { timeMin: '2026-03-03T00:00:00Z' });
+      expect(first.items.map(e => e.id)).toEqual(['evt-1']);
+      expect(first.nextSyncToken).toBeUndefined();
+
+      const second = await service.listEventChanges('primary', { timeMin: '2026-03-03T00:00:00Z', pageToken: first.nextPageToken });
+      expect(second.items.map(e => e.id)).toEqual(['evt-2']);
+      expect(second.nextSyncToken).toBe('sync-1');
+
+      const listing = standIn.requests.find(r => r.path.endsWith('/events'))!;
+      expect(listing.query.get('timeMin')).toBe('2026-03-03T00:00:00Z');
+      expect(listing.query.get('singleEvents')).toBe('true');
+      expect(listing.query.get('showDeleted')).toBe('true');
+    });
+
+    it('should send only the sync token on incremental requests', async () => {
+      const service = new GoogleCalendarService('org-incremental');
+      const page = await service.listEventChanges('primary', { syncToken: 'sync-1', timeMin: '2026-03-03T00:00:00Z' });
+
+      expect(page.items).toEqual([{ id: 'evt-2', status: 'cancelled' }]);
+      expect(page.nextSyncToken).toBe('sync-2');
+
+      const listing = standIn.requests.find(r => r.path.endsWith('/events'))!;
+      expect(listing.query.get('syncToken')).toBe('sync-1');
+      // Google rejects timeMin together with syncToken
+      expect(listing.query.has('timeMin')).toBe(false);
+    });
+
+    it('should surface 410 Gone so the caller can fall back to a full sync', async () => {
+      const service = new GoogleCalendarService('org-expired');
+      await expect(service.listEventChanges('primary', { syncToken: 'expired' }))
+        .rejects.toMatchObject({ status: 410 });
+    });
+  });
+
+  describe('watchEvents', () => {
+    it('should register a web_hook channel with the verification token', async () => {
+      const service = new GoogleCalendarService('org-watch');
+      const channel = await service.watchEvents('primary', {
+        id: 'channel-1',
+        address: 'https://app.example.com/api/integrations/google-calendar/webhook',
+        token: 'secret-token',
+        ttlSeconds: 604800,
+      });
+
+      expect(channel).toMatchObject({ id: 'channel-1', resourceId: 'resource-1' });
+      const watch = standIn.requests.find(r => r.path.endsWith('/events/watch'))!;
+      expect(watch.body).toEqual({
+        id: 'channel-1',
+        type: 'web_hook',
+        address: 'https://app.example.com/api/integrations/google-calendar/webhook',
+        token: 'secret-token',
+        params: { ttl: '604800' },
+      });
+    });
+  });
+
+  describe('eventToBusyInterval', () => {
+    it('should convert timed events to org-local wall clock', () => {
+      const interval = eventToBusyInterval(
+        { summary: 'Meeting', start: { dateTime: '2026-03-10T14:00:00Z' }, end: { dateTime: '2026-03-10T15:30:00Z' } },
+        'America/New_York'
+      );
+      expect(interval).toEqual({
+        start: parseLocalDateTime('2026-03-10 10:00'),
+        end: parseLocalDateTime('2026-03-10 11:30'),
+      });
+    });
+
+    it('should block whole days for all-day events', () => {
+      const interval = eventToBusyInterval(
+        { summary: 'Holiday', start: { date: '2026-03-10' }, end: { date: '2026-03-11' } },
+        'America/New_York'
+      );
+      expect(interval).toEqual({
+        start: parseLocalDateTime('2026-03-10 00:00'),
+        end: parseLocalDateTime('2026-03-11 00:00'),
+      });
+    });
+
+    it('should ignore cancelled and free events', () => {
+      const times = { start: { dateTime: '2026-03-10T14:00:00Z' }, end: { dateTime: '2026-03-10T15:00:00Z' } };
+      expect(eventToBusyInterval({ summary: 'x', status: 'cancelled', ...times }, 'UTC')).toBeNull();
+      expect(eventToBusyInterval({ summary: 'x', transparency: 'transparent', ...times }, 'UTC')).toBeNull();
+    });
+  });
+
+  describe('isCacheWarm', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const base: CalendarSyncState = {
+      id: 's1',
+      organization_id: 'org',
+      calendar_id: 'primary',
+      sync_token: 'sync-1',
+      full_synced_at: '2026-03-09T00:00:00Z',
+      last_synced_at: '2026-03-09T00:00:00Z',
+      last_error: null,
+      channel_id: null,
+      channel_resource_id: null,
+      channel_token: null,
+      channel_expires_at: null,
+      last_notification_at: null,
+    };
+
+    it('should trust the cache while a push channel is live', () => {
+      expect(isCacheWarm({ ...base, channel_id: 'c1', channel_expires_at: '2026-03-12T00:00:00Z' }, now)).toBe(true);
+    });
+
+    it('should require a recent sync when there is no channel', () => {
+      expect(isCacheWarm(base, now)).toBe(false);
+      expect(isCacheWarm({ ...base, last_synced_at: '2026-03-10T11:55:00Z' }, now)).toBe(true);
+    });
+
+    it('should be cold before the first full sync', () => {
+      expect(isCacheWarm({ ...base, full_synced_at: null, last_synced_at: '2026-03-10T11:55:00Z' }, now)).toBe(false);
+      expect(isCacheWarm(null, now)).toBe(false);
+    });
+  });
+});
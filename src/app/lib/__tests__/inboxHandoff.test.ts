@@ -0,0 +1,121 @@
+/**
+ * Unit Tests for Inbox Handoff
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/inboxHandoff.test.ts
+ */
+
+import {
+  claimChanges,
+  ESCALATION_TOOL_NAME,
+  escalationChanges,
+  readEscalation,
+  releaseChanges,
+  staffReplyChanges,
+  statusChanges,
+  type ThreadState,
+  type ThreadStatus,
+} from '../inbox/handoff';
+
+const now = new Date('2026-03-10T12:00:00Z');
+const staff = { id: 'user-1', email: 'front@clinic.test' };
+
+const thread = (overrides: Partial<ThreadState>): ThreadState => ({
+  id: 'conv-1',
+  organization_id: 'org',
+  channel: 'sms',
+  from_number: '+15550102030',
+  thread_status: 'open',
+  ai_paused: false,
+  assigned_to: null,
+  assigned_to_email: null,
+  claimed_at: null,
+  escalated_at: null,
+  escalation_reason: null,
+  ...overrides,
+});
+
+const toolOutput = (output: unknown, name = ESCALATION_TOOL_NAME) => ({
+  type: 'function_call_output',
+  call_id: 'call_1',
+  name,
+  output,
+});
+
+describe('Inbox Handoff', () => {
+
+  describe('readEscalation', () => {
+    it('should return the reason Lexi gave when it escalated', () => {
+      const items = [
+        { type: 'message', role: 'assistant', content: 'Let me get someone for you.' },
+        toolOutput(JSON.stringify({ reason: 'Billing dispute' })),
+      ];
+      expect(readEscalation(items)).toBe('Billing dispute');
+      expect(readEscalation([toolOutput({ reason: 'Wants a person' })])).toBe('Wants a person');
+    });
+
+    it('should treat an unreadable escalation as one without a reason', () => {
+      expect(readEscalation([toolOutput('not json')])).toBe('');
+      expect(readEscalation([toolOutput(JSON.stringify({}))])).toBe('');
+    });
+
+    it('should return null when Lexi did not escalate', () => {
+      expect(readEscalation([])).toBeNull();
+      expect(readEscalation([toolOutput(JSON.stringify({ reason: 'x' }), 'book_appointment'), null])).toBeNull();
+    });
+  });
+
+  describe('thread transitions', () => {
+    it('should pause Lexi and assign the thread when staff claim it', () => {
+      expect(claimChanges(staff, now)).toEqual({
+        ai_paused: true,
+        assigned_to: 'user-1',
+        assigned_to_email: 'front@clinic.test',
+        claimed_at: '2026-03-10T12:00:00.000Z',
+      });
+    });
+
+    it('should clear the claim and any escalation on release', () => {
+      expect(releaseChanges()).toEqual({
+        ai_paused: false,
+        assigned_to: null,
+        assigned_to_email: null,
+        claimed_at: null,
+        escalated_at: null,
+        escalation_reason: null,
+      });
+    });
+
+    it('should hand the thread back only when it is resolved', () => {
+      expect(statusChanges('pending')).toEqual({ thread_status: 'pending' });
+      expect(statusChanges('resolved')).toEqual({ thread_status: 'resolved', ...releaseChanges() });
+      expect(() => statusChanges('archived' as ThreadStatus)).toThrow('Invalid status: archived');
+    });
+
+    it('should reopen and pause an escalated thread with a default reason', () => {
+      expect(escalationChanges('', now)).toEqual({
+        ai_paused: true,
+        thread_status: 'open',
+        escalated_at: '2026-03-10T12:00:00.000Z',
+        escalation_reason: 'Patient asked for a person',
+      });
+    });
+
+    it('should leave a replied thread pending and keep an existing claim', () => {
+      expect(staffReplyChanges(thread({}), staff, now)).toEqual({
+        thread_status: 'pending',
+        ai_paused: true,
+        assigned_to: 'user-1',
+        assigned_to_email: 'front@clinic.test',
+        claimed_at: '2026-03-10T12:00:00.000Z',
+      });
+
+      const claimed = thread({ assigned_to: 'user-2', assigned_to_email: 'dr@clinic.test', claimed_at: '2026-03-09T08:00:00.000Z' });
+      expect(staffReplyChanges(claimed, staff, now)).toMatchObject({
+        assigned_to: 'user-2',
+        assigned_to_email: 'dr@clinic.test',
+        claimed_at: '2026-03-09T08:00:00.000Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Scheduling Interval Helpers
+ * 
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/intervals.test.ts
+ */
+
+import {
+  parseLocalDateTime,
+  formatLocalDateTime,
+  findOverlap,
+  coversInterval,
+  mergeIntervals,
+  generateSlotStarts,
+  appointmentToInterval,
+  normalizeGranularity,
+} from '../scheduling/intervals';
+
+describe('Scheduling Intervals', () => {
+
+  describe('parseLocalDateTime', () => {
+    it('should treat stored datetimes as local wall-clock time', () => {
+      const a = parseLocalDateTime('2026-03-10 09:15:00');
+      const b = parseLocalDateTime('2026-03-10T09:15:00Z');
+
+      expect(a).not.toBeNull();
+      expect(a).toBe(b);
+      expect(formatLocalDateTime(a!)).toBe('2026-03-10 09:15:00');
+    });
+
+    it('should return null for invalid input', () => {
+      expect(parseLocalDateTime('tomorrow at 9')).toBeNull();
+      expect(parseLocalDateTime(undefined)).toBeNull();
+    });
+  });
+
+  describe('findOverlap', () => {
+    it('should detect partial overlap with a longer appointment', () => {
+      // 09:00-10:00 appointment blocks a 09:30 slot
+      const busy = [appointmentToInterval('2026-03-10 09:00:00', 60)!];
+      const candidate = appointmentToInterval('2026-03-10 09:30:00', 30)!;
+
+      expect(findOverlap(candidate, busy)).toEqual(busy[0]);
+    });
+
+    it('should allow back-to-back appointments', () => {
+      const busy = [appointmentToInterval('2026-03-10 09:00:00', 45)!];
+      const candidate = appointmentToInterval('2026-03-10 09:45:00', 30)!;
+
+      expect(findOverlap(candidate, busy)).toBeNull();
+    });
+  });
+
+  describe('mergeIntervals', () => {
+    it('should merge overlapping and adjacent intervals', () => {
+      const merged = mergeIntervals([
+        { start: 60, end: 90 },
+        { start: 0, end: 30 },
+        { start: 30, end: 45 },
+        { start: 80, end: 120 },
+      ]);
+
+      expect(merged).toEqual([
+        { start: 0, end: 45 },
+        { start: 60, end: 120 },
+      ]);
+    });
+  });
+
+  describe('generateSlotStarts', () => {
+    it('should align starts to the granularity grid', () => {
+      const start = parseLocalDateTime('2026-03-10 08:05:00')!;
+      const end = parseLocalDateTime('2026-03-10 09:30:00')!;
+
+      const starts = generateSlotStarts({ start, end }, 45, 15).map(formatLocalDateTime);
+
+      expect(starts).toEqual([
+        '2026-03-10 08:15:00',
+        '2026-03-10 08:30:00',
+        '2026-03-10 08:45:00',
+      ]);
+    });
+  });
+
+  describe('coversInterval', () => {
+    it('should need one window that holds the whole interval', () => {
+      const windows = [
+        appointmentToInterval('2026-03-10 08:00:00', 240)!,
+        appointmentToInterval('2026-03-10 13:00:00', 240)!,
+      ];
+
+      expect(coversInterval(windows, appointmentToInterval('2026-03-10 11:00:00', 60)!)).toBe(true);
+      // Runs past the end of the morning window into lunch
+      expect(coversInterval(windows, appointmentToInterval('2026-03-10 11:30:00', 60)!)).toBe(false);
+    });
+
+    it('should treat no windows as off shift', () => {
+      const needed = appointmentToInterval('2026-03-10 09:00:00', 30)!;
+      expect(coversInterval(undefined, needed)).toBe(false);
+      expect(coversInterval([], needed)).toBe(false);
+    });
+  });
+
+  describe('normalizeGranularity', () => {
+    it('should fall back to 30 minutes for unsupported values', () => {
+      expect(normalizeGranularity('15')).toBe(15);
+      expect(normalizeGranularity(7)).toBe(30);
+      expect(normalizeGranularity(null)).toBe(30);
+    });
+  });
+});
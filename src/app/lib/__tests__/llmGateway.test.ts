@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for the LLM Gateway
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/llmGateway.test.ts
+ */
+
+import { fromAnthropicMessage, toAnthropicRequest } from '../llm/anthropicProvider';
+import { createLLMResponse, LLMProviderError, setLLMProvider } from '../llm/gateway';
+import type { LLMProvider, LLMProviderKind, LLMRequest, LLMResponse } from '../llm/types';
+
+const tools: LLMRequest['tools'] = [
+  {
+    type: 'function',
+    name: 'GetMultiplePatients',
+    description: 'Find patients by name or phone number',
+    parameters: { type: 'object', properties: { Phone: { type: 'string' } }, additionalProperties: false },
+  },
+];
+
+describe('toAnthropicRequest', () => {
+  it('moves instructions and system messages into the system prompt', () => {
+    const params = toAnthropicRequest({
+      model: 'claude-3-5-sonnet-20241022',
+      instructions: 'You are Lexi.',
+      input: [
+        { type: 'message', role: 'system', content: 'Office is open 9-5.' },
+        { type: 'message', role: 'user', content: 'Hi' },
+      ],
+    });
+
+    expect(params.system).toBe('You are Lexi.\n\nOffice is open 9-5.');
+    expect(params.messages).toEqual([{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }]);
+  });
+
+  it('turns function calls and outputs into tool_use / tool_result turns', () => {
+    const params = toAnthropicRequest({
+      model: 'claude-3-5-sonnet-20241022',
+      tools,
+      parallel_tool_calls: false,
+      input: [
+        { type: 'message', role: 'user', content: 'My number is 6195551234' },
+        { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Let me look you up.' }] },
+        { type: 'function_call', call_id: 'call_1', name: 'GetMultiplePatients', arguments: '{"Phone":"6195551234"}' },
+        { type: 'function_call_output', call_id: 'call_1', output: '[{"PatNum":7}]' },
+      ],
+    });
+
+    expect(params.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'My number is 6195551234' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me look you up.' },
+          { type: 'tool_use', id: 'call_1', name: 'GetMultiplePatients', input: { Phone: '6195551234' } },
+        ],
+      },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '[{"PatNum":7}]' }] },
+    ]);
+    expect(params.tools?.[0]).toMatchObject({ name: 'GetMultiplePatients', input_schema: tools![0].parameters });
+    expect(params.tool_choice).toEqual({ type: 'auto', disable_parallel_tool_use: true });
+  });
+
+  it('drops unanswered calls and opens with a user turn', () => {
+    const params = toAnthropicRequest({
+      model: 'claude-3-5-sonnet-20241022',
+      input: [
+        { type: 'message', role: 'assistant', content: 'Hello! How can I help?' },
+        { type: 'function_call', call_id: 'call_9', name: 'GetMultiplePatients', arguments: '{}' },
+        { type: 'message', role: 'user', content: 'Book a cleaning' },
+      ],
+    });
+
+    expect(params.messages).toHaveLength(3);
+    expect(params.messages[0].role).toBe('user');
+    expect(params.messages[1]).toEqual({ role: 'assistant', content: [{ type: 'text', text: 'Hello! How can I help?' }] });
+  });
+});
+
+describe('fromAnthropicMessage', () => {
+  it('returns text as output_text and tool_use as function_call items', () => {
+    const response = fromAnthropicMessage({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-3-5-sonnet-20241022',
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 120, output_tokens: 30 },
+      content: [
+        { type: 'text', text: 'Checking.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'GetMultiplePatients', input: { Phone: '6195551234' } },
+      ],
+    } as any);
+
+    expect(response.output).toEqual([
+      { type: 'message', id: 'msg_1', role: 'assistant', content: [{ type: 'output_text', text: 'Checking.' }] },
+      {
+        type: 'function_call',
+        id: 'toolu_1',
+        call_id: 'toolu_1',
+        name: 'GetMultiplePatients',
+        arguments: '{"Phone":"6195551234"}',
+      },
+    ]);
+    expect(response.usage).toEqual({ input_tokens: 120, output_tokens: 30 });
+  });
+});
+
+class FakeProvider implements LLMProvider {
+  models: string[] = [];
+  constructor(public kind: LLMProviderKind, private behavior: 'ok' | 'fail' | 'hang') {}
+
+  createResponse(request: LLMRequest, signal: AbortSignal): Promise<LLMResponse> {
+    this.models.push(request.model);
+    if (this.behavior === 'fail') return Promise.reject(Object.assign(new Error('overloaded'), { status: 529 }));
+    if (this.behavior === 'hang') {
+      return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    }
+    return Promise.resolve({ id: 'r', model: request.model, output: [] });
+  }
+}
+
+describe('createLLMResponse', () => {
+  const request: LLMRequest = { model: 'gpt-4o', input: [{ type: 'message', role: 'user', content: 'Hi' }] };
+
+  it('routes by backend and uses that backend\'s model', async () => {
+    const anthropic = new FakeProvider('anthropic', 'ok');
+    setLLMProvider(anthropic);
+
+    const response = await createLLMResponse(request, { backend: 'anthropic_claude' });
+    expect(response.provider).toBe('anthropic');
+    expect(response.fallback_used).toBe(false);
+    expect(anthropic.models).toEqual(['claude-3-5-sonnet-20241022']);
+  });
+
+  it('falls back to the secondary backend on errors', async () => {
+    setLLMProvider(new FakeProvider('anthropic', 'fail'));
+    const openai = new FakeProvider('openai', 'ok');
+    setLLMProvider(openai);
+
+    const response = await createLLMResponse(request, { backend: 'anthropic_claude', fallbackBackend: 'openai_gpt4o_mini' });
+    expect(response.provider).toBe('openai');
+    expect(response.fallback_used).toBe(true);
+    expect(openai.models).toEqual(['gpt-4o-mini']);
+  });
+
+  it('reports a timeout when there is no fallback', async () => {
+    setLLMProvider(new FakeProvider('openai', 'hang'));
+
+    const error = await createLLMResponse(request, { backend: 'openai_gpt4o', timeoutMs: 10 }).catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.errorType).toBe('timeout');
+  });
+});
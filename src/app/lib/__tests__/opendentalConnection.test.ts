@@ -0,0 +1,58 @@
+/**
+ * Unit Tests for Per-Organization OpenDental Connections
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/opendentalConnection.test.ts
+ */
+
+import type { OpenDentalCredentials } from '../credentialLoader';
+import {
+  checkOpenDentalConnection,
+  getOpenDentalAuthHeader,
+  getOpenDentalBaseUrl,
+} from '../opendentalUtils';
+
+function credentials(overrides: Partial<OpenDentalCredentials> = {}): OpenDentalCredentials {
+  return {
+    apiUrl: 'https://od.practice-a.example/api/v1',
+    apiKey: '',
+    developerKey: 'dev123',
+    customerKey: 'cust456',
+    mockMode: false,
+    ...overrides,
+  };
+}
+
+describe('getOpenDentalAuthHeader', () => {
+  it('builds the ODFHIR header from the developer and customer keys', () => {
+    expect(getOpenDentalAuthHeader(credentials()).Authorization).toBe('ODFHIR dev123/cust456');
+  });
+
+  it('falls back to a saved full authorization value', () => {
+    const legacy = credentials({ developerKey: '', customerKey: '', apiKey: 'ODFHIR old/key' });
+    expect(getOpenDentalAuthHeader(legacy).Authorization).toBe('ODFHIR old/key');
+    expect(getOpenDentalAuthHeader({ ...legacy, apiKey: 'token' }).Authorization).toBe('Bearer token');
+  });
+
+  it('refuses to build a header without keys', () => {
+    let message = '';
+    try {
+      getOpenDentalAuthHeader(credentials({ developerKey: '', customerKey: '' }));
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    expect(message).toMatch(/not configured/);
+  });
+});
+
+describe('checkOpenDentalConnection', () => {
+  it('uses each organization\'s own base URL', () => {
+    expect(getOpenDentalBaseUrl(credentials())).toBe('https://od.practice-a.example/api/v1');
+    expect(getOpenDentalBaseUrl(credentials({ apiUrl: '' }))).toBe('https://api.opendental.com/api/v1');
+  });
+
+  it('reports mock mode and missing keys without calling the API', async () => {
+    expect((await checkOpenDentalConnection(credentials({ mockMode: true }))).status).toBe('mock');
+    expect((await checkOpenDentalConnection(credentials({ customerKey: '' }))).status).toBe('not_configured');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the local OpenDental simulator
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/opendentalSimulator.test.ts
+ */
+
+import { checkOpenDentalConnection, formatOpenDentalDate } from '../opendentalUtils';
+import {
+  SIMULATOR_CUSTOMER_KEY,
+  SIMULATOR_DEVELOPER_KEY,
+  startOpenDentalSimulator,
+  type OpenDentalSimulator,
+} from '../opendentalSimulator/server';
+import { buildSimulatorData } from '../opendentalSimulator/seed';
+
+// A Monday, so the seed schedules start on the first day
+const FROM = new Date(2026, 2, 2, 8, 0, 0);
+
+describe('OpenDental simulator', () => {
+  let simulator: OpenDentalSimulator;
+
+  const call = async (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${simulator.baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `ODFHIR ${SIMULATOR_DEVELOPER_KEY}/${SIMULATOR_CUSTOMER_KEY}`,
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  };
+
+  beforeAll(async () => {
+    simulator = await startOpenDentalSimulator({ data: buildSimulatorData({ from: FROM }) });
+  });
+
+  afterAll(async () => {
+    await simulator.close();
+  });
+
+  beforeEach(() => {
+    simulator.reset();
+    simulator.clearFaults();
+  });
+
+  it('should require the ODFHIR authorization header', async () => {
+    const response = await call('GET', '/providers', undefined, { Authorization: 'ODFHIR wrong/key' });
+    expect(response.status).toBe(401);
+  });
+
+  it('should serve the seed practice in OpenDental shapes', async () => {
+    const providers = await call('GET', '/providers');
+    expect(providers.body.map((p: any) => `${p.FName} ${p.LName}`)).toEqual([
+      'Sarah Pearl', 'Michael Chen', 'Emily Rodriguez', 'David Johnson',
+    ]);
+
+    const patients = await call('GET', '/patients?LName=smi');
+    expect(patients.body).toHaveLength(1);
+    expect(patients.body[0]).toMatchObject({ PatNum: 1, FName: 'John', WirelessPhone: '(555) 123-4567', PatStatus: 'Patient' });
+
+    const ops = await call('GET', '/scheduleops?ScheduleNum=1');
+    expect(ops.body.map((o: any) => o.OperatoryNum)).toEqual([1, 2]);
+  });
+
+  it('should book an appointment and remove it from open slots', async () => {
+    const date = formatOpenDentalDate(FROM);
+    const before = await call('GET', `/appointments/Slots?date=${date}&ProvNum=1&OpNum=1`);
+    expect(before.body).toEqual([{ DateTimeStart: `${date} 09:00:00`, DateTimeEnd: `${date} 17:00:00`, ProvNum: 1, OpNum: 1 }]);
+
+    const created = await call('POST', '/appointments', { PatNum: 2, Op: 1, AptDateTime: `${date} 10:00:00`, Pattern: 'XXXXXX' });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ AptStatus: 'Scheduled', ProvNum: 1, Op: 1 });
+
+    const after = await call('GET', `/appointments/Slots?date=${date}&ProvNum=1&OpNum=1&lengthMinutes=30`);
+    expect(after.body.map((s: any) => [s.DateTimeStart.slice(11), s.DateTimeEnd.slice(11)])).toEqual([
+      ['09:00:00', '10:00:00'],
+      ['10:30:00', '17:00:00'],
+    ]);
+  });
+
+  it('should answer invalid requests with OpenDental error messages', async () => {
+    const missing = await call('POST', '/appointments', { PatNum: 1 });
+    expect(missing).toEqual({ status: 400, body: 'PatNum, Op, and AptDateTime are required.' });
+
+    await call('PUT', '/appointments/1/Break', { sendToUnscheduledList: false });
+    const again = await call('PUT', '/appointments/1/Break', {});
+    expect(again.status).toBe(400);
+    expect(again.body).toMatch(/Only appointments with an AptStatus of Scheduled/);
+
+    expect((await call('GET', '/patients/999')).status).toBe(404);
+  });
+
+  it('should replay writes sent with the same Idempotency-Key', async () => {
+    const body = { LName: 'Nguyen', FName: 'Lan' };
+    const first = await call('POST', '/patients', body, { 'Idempotency-Key': 'create-1' });
+    const second = await call('POST', '/patients', body, { 'Idempotency-Key': 'create-1' });
+
+    expect(second.body.PatNum).toBe(first.body.PatNum);
+    expect(simulator.store.snapshot().patients).toHaveLength(5);
+  });
+
+  it('should inject failures for matching requests', async () => {
+    simulator.addFault({ method: 'GET', path: '/preferences', status: 503, times: 1 });
+
+    const credentials = {
+      apiUrl: simulator.baseUrl,
+      apiKey: '',
+      developerKey: SIMULATOR_DEVELOPER_KEY,
+      customerKey: SIMULATOR_CUSTOMER_KEY,
+      mockMode: false,
+    };
+    expect((await checkOpenDentalConnection(credentials)).status).toBe('error');
+    expect((await checkOpenDentalConnection(credentials)).status).toBe('connected');
+
+    simulator.addFault({ path: '/preferences', dropConnection: true });
+    const dropped = await checkOpenDentalConnection(credentials);
+    expect(dropped.status).toBe('error');
+    expect(dropped.message).toMatch(/Cannot reach/);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit Tests for Patient Duplicate Detection
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/patientDuplicates.test.ts
+ */
+
+import {
+  findDuplicatePairs,
+  nameSimilarity,
+  normalizeBirthdate,
+  normalizeEmail,
+  normalizeName,
+  normalizePatientPhone,
+  scorePatientMatch,
+  type PatientRecord,
+} from '../patients/duplicates';
+
+describe('normalization', () => {
+  it('normalizes names, phones, emails and birthdates', () => {
+    expect(normalizeName('José-Luis ')).toBe('joseluis');
+    expect(normalizePatientPhone('+1 (619) 555-1234')).toBe('6195551234');
+    expect(normalizeEmail(' Jane.Doe+dentist@Gmail.com')).toBe('janedoe@gmail.com');
+    expect(normalizeEmail('jane.doe@clinic.com')).toBe('jane.doe@clinic.com');
+    expect(normalizeBirthdate('1990-1-5T00:00:00Z')).toBe('1990-01-05');
+    expect(normalizeBirthdate('01/05/1990')).toBe('');
+  });
+
+  it('scores close spellings higher than different names', () => {
+    expect(nameSimilarity('catherine', 'katherine')).toBeCloseTo(0.93, 2);
+    expect(nameSimilarity('smith', 'jones')).toBe(0);
+  });
+});
+
+describe('scorePatientMatch', () => {
+  const jane = { firstName: 'Jane', lastName: 'Smith', phone: '6195551234', email: 'jane@example.com', birthdate: '1990-01-15' };
+
+  it('is high confidence for a nickname with the same birthdate and phone', () => {
+    const match = scorePatientMatch(
+      { firstName: 'Robert', lastName: 'Jones', phone: '619-555-0000', birthdate: '1980-03-02' },
+      { firstName: 'Bob', lastName: 'Jones', phone: '+16195550000', birthdate: '1980-03-02' }
+    );
+    expect(match.confidence).toBe('high');
+    expect(match.reasons).toEqual(['nickname', 'same_birthdate', 'same_phone']);
+  });
+
+  it('catches first and last name entered the wrong way round', () => {
+    const match = scorePatientMatch(jane, { ...jane, firstName: 'Smith', lastName: 'Jane' });
+    expect(match.confidence).toBe('high');
+    expect(match.reasons[0]).toBe('swapped_names');
+  });
+
+  it('queues a typo with a day/month swapped birthdate for review', () => {
+    const match = scorePatientMatch(jane, { firstName: 'Jane', lastName: 'Smyth', birthdate: '1990-15-01', email: 'jane@example.com' });
+    expect(match.confidence).toBe('possible');
+  });
+
+  it('does not match family members sharing a phone', () => {
+    const match = scorePatientMatch(jane, { firstName: 'John', lastName: 'Smith', phone: '6195551234', birthdate: '1962-07-30' });
+    expect(match.confidence).toBe('low');
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('pairs records that share a blocking key, older record first', () => {
+    const patients: PatientRecord[] = [
+      { id: 3, first_name: 'Katie', last_name: 'Brown', phone: '6195550101', email: null, date_of_birth: '1995-06-20' },
+      { id: 1, first_name: 'Katherine', last_name: 'Brown', phone: '6195550101', email: null, date_of_birth: '1995-06-20' },
+      { id: 2, first_name: 'Mark', last_name: 'Lee', phone: '8585550199', email: null, date_of_birth: '1970-01-01' },
+    ];
+    const pairs = findDuplicatePairs(patients);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ patientId: 1, duplicatePatientId: 3, confidence: 'high' });
+  });
+});
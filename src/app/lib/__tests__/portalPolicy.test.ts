@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Patient Portal Policy
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/portalPolicy.test.ts
+ */
+
+import { canChangeAppointment, canRescheduleTo, policyFromOrganization, DEFAULT_PORTAL_POLICY } from '../portal/policy';
+import { parseLocalDateTime } from '../scheduling/intervals';
+
+const now = parseLocalDateTime('2025-06-02 09:00:00')!;
+const at = (value: string) => parseLocalDateTime(value)!;
+
+describe('canChangeAppointment', () => {
+  const policy = { ...DEFAULT_PORTAL_POLICY, rescheduleCutoffHours: 24, cancelCutoffHours: 48 };
+
+  it('allows changes outside the cutoff window', () => {
+    expect(canChangeAppointment('reschedule', at('2025-06-04 10:00:00'), now, policy).allowed).toBe(true);
+    expect(canChangeAppointment('cancel', at('2025-06-04 10:00:00'), now, policy).allowed).toBe(true);
+  });
+
+  it('uses a separate cutoff for cancelling', () => {
+    const start = at('2025-06-03 12:00:00'); // 27 hours away
+    expect(canChangeAppointment('reschedule', start, now, policy).allowed).toBe(true);
+
+    const cancel = canChangeAppointment('cancel', start, now, policy);
+    expect(cancel.allowed).toBe(false);
+    expect(cancel.reason).toMatch(/cancelled online up to 2 days before/);
+  });
+
+  it('refuses appointments that already started', () => {
+    expect(canChangeAppointment('cancel', at('2025-06-02 08:30:00'), now, { ...policy, cancelCutoffHours: 0 }).allowed).toBe(false);
+  });
+});
+
+describe('canRescheduleTo', () => {
+  it('keeps new times between the cutoff and the horizon', () => {
+    const policy = { ...DEFAULT_PORTAL_POLICY, rescheduleCutoffHours: 24, rescheduleHorizonDays: 30 };
+    expect(canRescheduleTo(at('2025-06-02 15:00:00'), now, policy).allowed).toBe(false);
+    expect(canRescheduleTo(at('2025-06-10 15:00:00'), now, policy).allowed).toBe(true);
+    expect(canRescheduleTo(at('2025-07-15 15:00:00'), now, policy).allowed).toBe(false);
+  });
+});
+
+describe('policyFromOrganization', () => {
+  it('falls back to defaults for missing columns', () => {
+    expect(policyFromOrganization({ portal_cancel_cutoff_hours: 0 })).toEqual({
+      ...DEFAULT_PORTAL_POLICY,
+      cancelCutoffHours: 0,
+    });
+  });
+});
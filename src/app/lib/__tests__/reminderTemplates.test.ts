@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Appointment Reminder Templates and Replies
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/reminderTemplates.test.ts
+ */
+
+import {
+  parseReminderButton,
+  parseReminderReply,
+  planReminders,
+  reminderButtonId,
+  renderTemplate,
+  replyInstructions,
+  resolveTemplate,
+  type ReminderRule,
+} from '../reminders/templates';
+
+const rule = (id: string, hours: number, channel: ReminderRule['channel'] = 'sms'): ReminderRule => ({
+  id,
+  offset_minutes: hours * 60,
+  channel,
+  request_confirmation: true,
+  is_active: true,
+});
+
+describe('Reminder Templates', () => {
+
+  describe('planReminders', () => {
+    const rules = [rule('48h', 48, 'whatsapp'), rule('2h', 2)];
+
+    it('should send nothing before the first reminder is due', () => {
+      expect(planReminders(rules, 72 * 60, new Set())).toEqual({ send: [], skip: [] });
+    });
+
+    it('should send the 48h reminder once it is due', () => {
+      const plan = planReminders(rules, 47 * 60, new Set());
+      expect(plan.send.map(r => r.id)).toEqual(['48h']);
+      expect(plan.skip).toEqual([]);
+    });
+
+    it('should skip the 48h reminder for a booking made an hour ahead', () => {
+      const plan = planReminders(rules, 60, new Set());
+      expect(plan.send.map(r => r.id)).toEqual(['2h']);
+      expect(plan.skip.map(r => r.id)).toEqual(['48h']);
+    });
+
+    it('should not repeat rules that already ran', () => {
+      expect(planReminders(rules, 60, new Set(['48h', '2h'])).send).toEqual([]);
+    });
+
+    it('should send every channel configured for the same time', () => {
+      const plan = planReminders([rule('sms', 24), rule('email', 24, 'email')], 20 * 60, new Set());
+      expect(plan.send.map(r => r.id).sort()).toEqual(['email', 'sms']);
+    });
+  });
+
+  describe('parseReminderReply', () => {
+    it('should recognize keywords in English and Spanish', () => {
+      expect(parseReminderReply('C')).toBe('confirm');
+      expect(parseReminderReply('confirm!')).toBe('confirm');
+      expect(parseReminderReply('Sí')).toBe('confirm');
+      expect(parseReminderReply('r')).toBe('reschedule');
+      expect(parseReminderReply('Cancelar')).toBe('cancel');
+    });
+
+    it('should leave normal conversation alone', () => {
+      expect(parseReminderReply('Can I come in on Tuesday instead?')).toBeNull();
+      expect(parseReminderReply('')).toBeNull();
+    });
+  });
+
+  describe('WhatsApp buttons', () => {
+    it('should round-trip button ids', () => {
+      expect(parseReminderButton(reminderButtonId(42, 'cancel'))).toEqual({ reminderId: 42, action: 'cancel' });
+      expect(parseReminderButton('btn_0')).toBeNull();
+    });
+  });
+
+  describe('templates', () => {
+    it('should prefer the organization override for the language', () => {
+      const overrides = [
+        { template_key: 'appointment_reminder', channel: null, language: 'es', body: 'Hola {{patient_first_name}}' },
+      ];
+      expect(resolveTemplate(overrides, 'appointment_reminder', 'sms', 'es-MX').body).toBe('Hola {{patient_first_name}}');
+      expect(resolveTemplate(overrides, 'appointment_reminder', 'sms', 'en').body).toContain('this is a reminder');
+    });
+
+    it('should render placeholders, including ones inside values', () => {
+      const text = renderTemplate('Hi {{patient_first_name}}. {{reply_instructions}}', {
+        patient_first_name: 'Ana',
+        reply_instructions: replyInstructions('email', 'en'),
+        link: 'https://example.com/appointments/confirm/abc',
+      });
+      expect(text).toBe('Hi Ana. Confirm, reschedule or cancel here: https://example.com/appointments/confirm/abc');
+    });
+  });
+});
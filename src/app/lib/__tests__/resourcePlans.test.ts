@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Multi-Resource Appointment Plans
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/resourcePlans.test.ts
+ */
+
+import {
+  buildResourcePlan,
+  findResourceConflict,
+  isDefaultResourcePlan,
+  parseResourceRequests,
+  resourcePlanLength,
+  type AppointmentResourceRow,
+} from '../scheduling/resources';
+import { formatLocalDateTime, parseLocalDateTime } from '../scheduling/intervals';
+
+describe('Resource Plans', () => {
+
+  describe('buildResourcePlan', () => {
+    it('should hold the provider and operatory for the whole visit when nothing is requested', () => {
+      const plan = buildResourcePlan(1, 3, 60, []);
+
+      expect(plan).toEqual([
+        { type: 'provider', providerId: 1, operatoryId: null, offsetMinutes: 0, lengthMinutes: 60 },
+        { type: 'operatory', providerId: null, operatoryId: 3, offsetMinutes: 0, lengthMinutes: 60 },
+      ]);
+      expect(isDefaultResourcePlan(plan, 60)).toBe(true);
+    });
+
+    it('should add the booked provider and operatory around an assistant', () => {
+      const plan = buildResourcePlan(1, 3, 60, [{ Type: 'assistant', ProvNum: 7, LengthMinutes: 20 }]);
+
+      expect(plan.map(s => [s.type, s.providerId ?? s.operatoryId, s.offsetMinutes, s.lengthMinutes])).toEqual([
+        ['provider', 1, 0, 60],
+        ['assistant', 7, 0, 20],
+        ['operatory', 3, 0, 60],
+      ]);
+      expect(isDefaultResourcePlan(plan, 60)).toBe(false);
+    });
+
+    it('should still reserve the booked operatory when another room is requested', () => {
+      const plan = buildResourcePlan(1, 3, 60, [{ Type: 'operatory', OpNum: 9, OffsetMinutes: 40 }]);
+      const rooms = plan.filter(s => s.type === 'operatory');
+
+      expect(rooms.map(s => [s.operatoryId, s.offsetMinutes, s.lengthMinutes])).toEqual([
+        [9, 40, 20],
+        [3, 0, 60],
+      ]);
+    });
+
+    it('should let a request shorten the booked provider', () => {
+      const plan = buildResourcePlan(1, 3, 60, [
+        { Type: 'provider', OffsetMinutes: 30, LengthMinutes: 15 },
+        { Type: 'assistant', ProvNum: 7 },
+      ]);
+
+      expect(plan.filter(s => s.type === 'provider')).toEqual([
+        { type: 'provider', providerId: 1, operatoryId: null, offsetMinutes: 30, lengthMinutes: 15 },
+      ]);
+    });
+
+    it('should reject a resource that starts after the visit ends', () => {
+      expect(() => buildResourcePlan(1, 3, 60, [{ Type: 'assistant', ProvNum: 7, OffsetMinutes: 60 }]))
+        .toThrow('after the 60 min visit ends');
+    });
+  });
+
+  describe('resourcePlanLength', () => {
+    it('should run to the end of the latest segment', () => {
+      expect(resourcePlanLength(buildResourcePlan(1, 3, 45, [{ Type: 'assistant', ProvNum: 7, OffsetMinutes: 40, LengthMinutes: 20 }]))).toBe(60);
+      expect(resourcePlanLength([])).toBe(0);
+    });
+  });
+
+  describe('parseResourceRequests', () => {
+    it('should accept a JSON string and require ProvNum for assistants', () => {
+      expect(parseResourceRequests('[{"Type":"Assistant","ProvNum":"7","LengthMinutes":20}]')).toEqual([
+        { Type: 'assistant', ProvNum: 7, LengthMinutes: 20 },
+      ]);
+      expect(parseResourceRequests(undefined)).toEqual([]);
+      expect(() => parseResourceRequests([{ Type: 'assistant' }])).toThrow('assistant requires ProvNum');
+    });
+  });
+
+  describe('findResourceConflict', () => {
+    it('should find an assistant already booked in another appointment', () => {
+      const appointments = [
+        { id: 10, provider_id: 2, operatory_id: 4, appointment_datetime: '2026-03-10 09:00:00', duration_minutes: 60 },
+      ];
+      const resources = new Map<number, AppointmentResourceRow[]>([[10, [
+        { appointment_id: 10, resource_type: 'provider', provider_id: 2, operatory_id: null, offset_minutes: 0, duration_minutes: 60 },
+        { appointment_id: 10, resource_type: 'assistant', provider_id: 7, operatory_id: null, offset_minutes: 30, duration_minutes: 30 },
+        { appointment_id: 10, resource_type: 'operatory', provider_id: null, operatory_id: 4, offset_minutes: 0, duration_minutes: 60 },
+      ]]]);
+      const start = parseLocalDateTime('2026-03-10 09:00:00')!;
+
+      const clash = findResourceConflict(start, buildResourcePlan(1, 3, 60, [{ Type: 'assistant', ProvNum: 7, OffsetMinutes: 40, LengthMinutes: 10 }]), appointments, resources);
+      expect(clash?.appointmentId).toBe(10);
+      expect(clash?.segment.type).toBe('assistant');
+      // The interval is the existing booking it ran into
+      expect(formatLocalDateTime(clash!.interval.start)).toBe('2026-03-10 09:30:00');
+
+      const clear = findResourceConflict(start, buildResourcePlan(1, 3, 60, [{ Type: 'assistant', ProvNum: 7, LengthMinutes: 30 }]), appointments, resources);
+      expect(clear).toBeNull();
+    });
+  });
+});
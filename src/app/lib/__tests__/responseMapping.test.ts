@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for Declarative Response Mapping
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/responseMapping.test.ts
+ */
+
+import {
+  applyFieldRule,
+  applyResponseMapping,
+  convertDate,
+  validateResponseMapping,
+  type ResponseMapping,
+} from '../integrations/ResponseMapping';
+
+const vendorResponse = {
+  meta: { clinic: 'Downtown' },
+  data: {
+    appointments: [
+      {
+        id: '1042',
+        patient: { id: 77, first: 'Ana', last: 'Lopez' },
+        start: '2026-03-10T14:00:00Z',
+        end: '2026-03-10T14:45:00Z',
+        state: 'BOOKED',
+        lines: [{ code: 'D1110' }, { code: 'D0120' }],
+      },
+    ],
+  },
+};
+
+describe('Response Mapping', () => {
+
+  describe('applyResponseMapping', () => {
+    it('should normalize a vendor list into OpenDental-shaped records', () => {
+      const mapping: ResponseMapping = {
+        root: '$.data.appointments',
+        fields: {
+          AptNum: { path: '$.id', type: 'integer' },
+          PatNum: '$.patient.id',
+          AptDateTime: { path: '$.start', date: { timezone: 'America/New_York' } },
+          AptStatus: { path: '$.state', lookup: { booked: 'Scheduled', done: 'Complete' } },
+          Pattern: { compute: 'duration_minutes', args: ['$.start', '$.end'] },
+          PatientName: { template: '{{$.patient.first}} {{$.patient.last}}' },
+          ClinicName: '$$.meta.clinic',
+          ProcCodes: '$.lines[*].code',
+        },
+      };
+
+      expect(applyResponseMapping(mapping, vendorResponse)).toEqual([
+        {
+          AptNum: 1042,
+          PatNum: 77,
+          AptDateTime: '2026-03-10 10:00:00',
+          AptStatus: 'Scheduled',
+          Pattern: 45,
+          PatientName: 'Ana Lopez',
+          ClinicName: 'Downtown',
+          ProcCodes: ['D1110', 'D0120'],
+        },
+      ]);
+    });
+
+    it('should map nested arrays with each', () => {
+      const mapping: ResponseMapping = {
+        root: '$.data.appointments[0]',
+        fields: {
+          procedures: { path: '$.lines', each: { fields: { ProcCode: '$.code' } } },
+        },
+      };
+
+      expect(applyResponseMapping(mapping, vendorResponse)).toEqual({
+        procedures: [{ ProcCode: 'D1110' }, { ProcCode: 'D0120' }],
+      });
+    });
+
+    it('should fall back to defaults and keep unmapped fields when asked', () => {
+      const mapping: ResponseMapping = {
+        keepUnmapped: true,
+        fields: {
+          AptStatus: { path: '$.status', default: 'Scheduled' },
+        },
+      };
+
+      expect(applyResponseMapping(mapping, { id: 5 })).toEqual({ id: 5, AptStatus: 'Scheduled' });
+    });
+  });
+
+  describe('convertDate', () => {
+    it('should keep naive times as wall clock unless a source timezone is given', () => {
+      expect(convertDate('2026-07-01T09:00', { to: 'YYYY-MM-DD HH:mm:ss' })).toBe('2026-07-01 09:00:00');
+      expect(convertDate('2026-07-01 09:00', { to: 'iso', sourceTimezone: 'America/New_York' }))
+        .toBe('2026-07-01T13:00:00.000Z');
+    });
+
+    it('should read epoch seconds and milliseconds', () => {
+      expect(convertDate(1773151200, { to: 'YYYY-MM-DD HH:mm:ss' })).toBe('2026-03-10 14:00:00');
+      expect(convertDate(1773151200000, { to: 'HH:mm', timezone: 'America/New_York' })).toBe('10:00');
+    });
+  });
+
+  describe('applyFieldRule', () => {
+    it('should evaluate custom parameter transforms against the value', () => {
+      expect(applyFieldRule({ compute: 'digits', args: ['$'] }, '(555) 123-4567')).toBe('5551234567');
+      expect(applyFieldRule({ compute: 'concat', args: ['$', ' / ', '$$.LName'] }, 'Ana', { LName: 'Lopez' }))
+        .toBe('Ana / Lopez');
+    });
+  });
+
+  describe('validateResponseMapping', () => {
+    it('should accept a valid mapping', () => {
+      expect(validateResponseMapping({ root: '$.items[*]', fields: { AptNum: '$.id' } })).toEqual([]);
+    });
+
+    it('should reject unknown operations, bad paths and timezones', () => {
+      const errors = validateResponseMapping({
+        fields: {
+          a: { compute: 'eval', args: ['process.exit()'] },
+          b: { path: 'id' },
+          c: { path: '$.start', date: { timezone: 'Mars/Olympus' } },
+        },
+      });
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain('unknown operation "eval"');
+    });
+  });
+});
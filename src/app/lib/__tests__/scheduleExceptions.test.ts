@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for Schedule Exceptions
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/scheduleExceptions.test.ts
+ */
+
+import {
+  expandScheduleExceptions,
+  findBlockingException,
+  isWholeDayBlocked,
+  type ScheduleExceptionRow,
+} from '../scheduling/exceptions';
+import { formatLocalDateTime, parseLocalDateTime } from '../scheduling/intervals';
+
+const exception = (overrides: Partial<ScheduleExceptionRow>): ScheduleExceptionRow => ({
+  id: 1,
+  scope: 'organization',
+  provider_id: null,
+  operatory_id: null,
+  exception_type: 'blocked',
+  title: 'Blocked',
+  start_date: '2026-03-10',
+  end_date: null,
+  start_time: null,
+  end_time: null,
+  recurrence: 'none',
+  recurrence_interval: null,
+  recurrence_days: null,
+  recurrence_until: null,
+  ...overrides,
+});
+
+const interval = (start: string, end: string) => ({
+  start: parseLocalDateTime(start)!,
+  end: parseLocalDateTime(end)!,
+});
+
+describe('Schedule Exceptions', () => {
+
+  describe('expandScheduleExceptions', () => {
+    it('should repeat a weekday lunch break and skip the weekend', () => {
+      // 2026-03-06 is a Friday, 2026-03-09 a Monday
+      const lunch = exception({
+        exception_type: 'lunch',
+        title: 'Lunch',
+        start_date: '2026-03-02',
+        start_time: '12:00',
+        end_time: '13:00',
+        recurrence: 'weekly',
+        recurrence_days: [1, 2, 3, 4, 5],
+      });
+
+      const blocks = expandScheduleExceptions([lunch], '2026-03-06', '2026-03-09');
+
+      expect(blocks.map(b => b.date)).toEqual(['2026-03-06', '2026-03-09']);
+      expect(blocks[0].allDay).toBe(false);
+      expect(formatLocalDateTime(blocks[1].interval.start)).toBe('2026-03-09 12:00:00');
+      expect(formatLocalDateTime(blocks[1].interval.end)).toBe('2026-03-09 13:00:00');
+    });
+
+    it('should stop recurring at recurrence_until', () => {
+      const weekly = exception({
+        start_date: '2026-03-03',
+        recurrence: 'weekly',
+        recurrence_until: '2026-03-10',
+      });
+
+      const blocks = expandScheduleExceptions([weekly], '2026-03-01', '2026-03-31');
+
+      expect(blocks.map(b => b.date)).toEqual(['2026-03-03', '2026-03-10']);
+    });
+
+    it('should block every day of a multi-day vacation for that provider only', () => {
+      const vacation = exception({
+        scope: 'provider',
+        provider_id: 5,
+        exception_type: 'vacation',
+        start_date: '2026-03-10',
+        end_date: '2026-03-12',
+      });
+
+      const blocks = expandScheduleExceptions([vacation], '2026-03-09', '2026-03-13');
+
+      expect(blocks).toHaveLength(3);
+      expect(isWholeDayBlocked(blocks, 5, 1, '2026-03-11')).toBe(true);
+      expect(isWholeDayBlocked(blocks, 6, 1, '2026-03-11')).toBe(false);
+      expect(isWholeDayBlocked(blocks, 5, 1, '2026-03-13')).toBe(false);
+    });
+
+    it('should ignore inactive exceptions', () => {
+      const blocks = expandScheduleExceptions([exception({ is_active: false })], '2026-03-10', '2026-03-10');
+      expect(blocks).toEqual([]);
+    });
+  });
+
+  describe('findBlockingException', () => {
+    it('should block only candidates overlapping the blocked time', () => {
+      const blocks = expandScheduleExceptions(
+        [exception({ scope: 'operatory', operatory_id: 2, start_time: '14:00', end_time: '15:00' })],
+        '2026-03-10',
+        '2026-03-10'
+      );
+
+      expect(findBlockingException(blocks, 5, 2, interval('2026-03-10 14:30:00', '2026-03-10 15:00:00'))?.exceptionId).toBe(1);
+      expect(findBlockingException(blocks, 5, 2, interval('2026-03-10 15:00:00', '2026-03-10 15:30:00'))).toBeNull();
+      expect(findBlockingException(blocks, 5, 3, interval('2026-03-10 14:30:00', '2026-03-10 15:00:00'))).toBeNull();
+    });
+  });
+});
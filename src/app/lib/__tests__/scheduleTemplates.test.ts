@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for Weekly Schedule Templates
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/scheduleTemplates.test.ts
+ */
+
+import {
+  diffTemplateSchedules,
+  expandScheduleTemplate,
+  normalizeTemplateTime,
+  templateWeekIndex,
+  type DesiredSchedule,
+  type ExistingScheduleRow,
+  type ScheduleTemplateBlockRow,
+  type ScheduleTemplateRow,
+} from '../scheduling/templates';
+
+describe('Schedule Templates', () => {
+  const template: ScheduleTemplateRow = {
+    id: 1,
+    organization_id: 'org',
+    provider_id: 5,
+    name: 'A/B weeks',
+    week_cycle: 2,
+    cycle_anchor_date: '2026-03-04',
+    effective_from: '2026-03-01',
+    effective_until: null,
+    horizon_days: 56,
+    last_materialized_through: null,
+    is_active: true,
+  };
+
+  const block = (overrides: Partial<ScheduleTemplateBlockRow>): ScheduleTemplateBlockRow => ({
+    id: 1,
+    template_id: 1,
+    week_index: 0,
+    day_of_week: 1,
+    operatory_id: 1,
+    start_time: '08:00',
+    end_time: '12:00',
+    ...overrides,
+  });
+
+  describe('templateWeekIndex', () => {
+    it('should count Sunday-based weeks from the anchor week', () => {
+      expect(templateWeekIndex(template, '2026-03-01')).toBe(0);
+      expect(templateWeekIndex(template, '2026-03-07')).toBe(0);
+      expect(templateWeekIndex(template, '2026-03-08')).toBe(1);
+      expect(templateWeekIndex(template, '2026-03-15')).toBe(0);
+      expect(templateWeekIndex(template, '2026-02-28')).toBe(1);
+      expect(templateWeekIndex({ ...template, week_cycle: 1 }, '2026-03-08')).toBe(0);
+    });
+  });
+
+  describe('expandScheduleTemplate', () => {
+    it('should alternate operatories on A and B weeks', () => {
+      const desired = expandScheduleTemplate(
+        template,
+        [block({ id: 1, week_index: 0, operatory_id: 1 }), block({ id: 2, week_index: 1, operatory_id: 2, start_time: '9:00' })],
+        '2026-03-02',
+        '2026-03-09'
+      );
+
+      expect(desired).toEqual([
+        { schedule_date: '2026-03-02', operatory_id: 1, start_time: '08:00:00', end_time: '12:00:00', template_block_id: 1 },
+        { schedule_date: '2026-03-09', operatory_id: 2, start_time: '09:00:00', end_time: '12:00:00', template_block_id: 2 },
+      ]);
+    });
+  });
+
+  describe('normalizeTemplateTime', () => {
+    it('should pad times so keys compare consistently', () => {
+      expect(normalizeTemplateTime('9:00')).toBe('09:00:00');
+      expect(normalizeTemplateTime('17:30:00')).toBe('17:30:00');
+    });
+  });
+
+  describe('diffTemplateSchedules', () => {
+    const desired = (date: string, overrides: Partial<DesiredSchedule> = {}): DesiredSchedule => ({
+      schedule_date: date,
+      operatory_id: 1,
+      start_time: '08:00:00',
+      end_time: '12:00:00',
+      template_block_id: 1,
+      ...overrides,
+    });
+
+    const schedule = (overrides: Partial<ExistingScheduleRow>): ExistingScheduleRow => ({
+      id: 100,
+      provider_id: 5,
+      operatory_id: 1,
+      schedule_date: '2026-03-02',
+      start_time: '08:00:00',
+      end_time: '12:00:00',
+      template_id: 1,
+      ...overrides,
+    });
+
+    it('should leave rows that already exist alone and insert the missing ones', () => {
+      const diff = diffTemplateSchedules(
+        template,
+        [desired('2026-03-02'), desired('2026-03-03')],
+        [schedule({ start_time: '08:00', end_time: '12:00' })],
+        []
+      );
+
+      expect(diff.unchanged).toBe(1);
+      expect(diff.toInsert).toEqual([desired('2026-03-03')]);
+      expect(diff.toDelete).toEqual([]);
+      expect(diff.conflicts).toEqual([]);
+    });
+
+    it('should skip rows that overlap another provider in the room or this provider elsewhere', () => {
+      const diff = diffTemplateSchedules(
+        template,
+        [desired('2026-03-02'), desired('2026-03-03')],
+        [
+          schedule({ id: 201, provider_id: 7, template_id: null, start_time: '10:00:00', end_time: '11:00:00' }),
+          schedule({ id: 202, operatory_id: 4, template_id: null, schedule_date: '2026-03-03', start_time: '11:00:00', end_time: '13:00:00' }),
+        ],
+        []
+      );
+
+      expect(diff.toInsert).toEqual([]);
+      expect(diff.conflicts.map(c => [c.type, c.date])).toEqual([
+        ['schedule_overlap', '2026-03-02'],
+        ['schedule_overlap', '2026-03-03'],
+      ]);
+      expect(diff.conflicts[0].message).toMatch(/operatory 1 is already scheduled for provider 7/);
+      expect(diff.conflicts[1].message).toMatch(/existing schedule for this provider/);
+    });
+
+    it('should delete stale rows but keep and report ones with a booking inside', () => {
+      const diff = diffTemplateSchedules(
+        template,
+        [],
+        [
+          schedule({ id: 301, schedule_date: '2026-03-05' }),
+          schedule({ id: 302, schedule_date: '2026-03-06' }),
+        ],
+        [{ id: 9, appointment_datetime: '2026-03-05 09:00:00', duration_minutes: 60 }]
+      );
+
+      expect(diff.toDelete).toEqual([302]);
+      expect(diff.conflicts).toHaveLength(1);
+      expect(diff.conflicts[0]).toMatchObject({ type: 'booked_schedule_kept', date: '2026-03-05', scheduleId: 301, appointmentId: 9 });
+    });
+
+    it('should report bookings left outside the working hours on template dates', () => {
+      const diff = diffTemplateSchedules(
+        template,
+        [desired('2026-03-02'), desired('2026-03-03')],
+        [],
+        [
+          { id: 10, appointment_datetime: '2026-03-02 08:30:00', duration_minutes: 30 },
+          { id: 11, appointment_datetime: '2026-03-03 13:00:00', duration_minutes: 30 },
+          { id: 12, appointment_datetime: '2026-03-04 13:00:00', duration_minutes: 30 },
+        ]
+      );
+
+      expect(diff.toInsert).toHaveLength(2);
+      expect(diff.conflicts.map(c => [c.type, c.appointmentId])).toEqual([
+        ['appointment_outside_template', 11],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for the Shared State Store
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/stateStore.test.ts
+ */
+
+import { MemoryStateStore } from '../state/memoryStateStore';
+import { StateVersionConflictError, updateState } from '../state/stateStore';
+import { mergeSessionUpdates, type BookingSessionState } from '../sessionStateManager';
+
+const TTL = 60_000;
+
+describe('MemoryStateStore', () => {
+  it('versions every write and rejects stale versions', async () => {
+    const store = new MemoryStateStore();
+    const first = await store.set('test', 'a', { count: 1 }, { ttlMs: TTL, expectedVersion: 0 });
+    expect(first.version).toBe(1);
+
+    const second = await store.set('test', 'a', { count: 2 }, { ttlMs: TTL, expectedVersion: 1 });
+    expect(second.version).toBe(2);
+
+    await expect(store.set('test', 'a', { count: 3 }, { ttlMs: TTL, expectedVersion: 1 }))
+      .rejects.toBeInstanceOf(StateVersionConflictError);
+    expect((await store.get<{ count: number }>('test', 'a'))?.value.count).toBe(2);
+  });
+
+  it('hides expired entries and lets a new first write through', async () => {
+    const store = new MemoryStateStore();
+    await store.set('test', 'a', { count: 1 }, { ttlMs: -1 });
+    expect(await store.get('test', 'a')).toBeNull();
+
+    const fresh = await store.set('test', 'a', { count: 5 }, { ttlMs: TTL, expectedVersion: 0 });
+    expect(fresh.version).toBe(1);
+  });
+
+  it('returns copies, not the stored object', async () => {
+    const store = new MemoryStateStore();
+    const value = { items: [1] };
+    await store.set('test', 'a', value, { ttlMs: TTL });
+    value.items.push(2);
+    expect((await store.get<{ items: number[] }>('test', 'a'))?.value.items).toEqual([1]);
+  });
+});
+
+describe('updateState', () => {
+  it('re-applies the change on top of a concurrent write', async () => {
+    const store = new MemoryStateStore();
+    await store.set('test', 'a', { items: ['first'] }, { ttlMs: TTL });
+
+    let raced = false;
+    const result = await updateState<{ items: string[] }>(store, 'test', 'a', current => {
+      if (!raced) {
+        raced = true;
+        // Another instance writes between our read and our write
+        store.set('test', 'a', { items: [...current!.items, 'other'] }, { ttlMs: TTL });
+      }
+      return { items: [...(current?.items || []), 'mine'] };
+    }, TTL);
+
+    expect(result.value.items).toEqual(['first', 'other', 'mine']);
+    expect(result.version).toBe(3);
+  });
+});
+
+describe('mergeSessionUpdates', () => {
+  it('merges each section instead of replacing it', () => {
+    const session: BookingSessionState = {
+      sessionId: 's1',
+      createdAt: 0,
+      lastAccessedAt: 0,
+      patient: { patNum: 7, firstName: 'Ana' },
+      workflow: { patientLookedUp: true },
+    };
+    const merged = mergeSessionUpdates(session, { patient: { phone: '5550100' }, workflow: { slotsQueried: true } });
+    expect(merged.patient).toEqual({ patNum: 7, firstName: 'Ana', phone: '5550100' });
+    expect(merged.workflow).toEqual({ patientLookedUp: true, slotsQueried: true });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Sync Conflict Detection
+ * 
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/syncConflicts.test.ts
+ */
+
+import { decidePull, type SyncRecordVersion } from '../integrations/SyncConflicts';
+
+const baseline: SyncRecordVersion = {
+  id: 'v1',
+  organization_id: 'org',
+  integration_key: 'google_calendar',
+  entity_type: 'appointment',
+  entity_id: 1,
+  external_id: 'evt1',
+  external_etag: '"etag-1"',
+  external_updated_at: '2026-03-01T10:00:00Z',
+  local_updated_at: '2026-03-01T10:00:05Z',
+  synced_at: '2026-03-01T10:00:05Z',
+};
+
+describe('Sync Conflicts', () => {
+
+  describe('decidePull', () => {
+    it('should leave records alone when values already match', () => {
+      const result = decidePull({
+        baseline,
+        externalEtag: '"etag-2"',
+        externalUpdatedAt: '2026-03-02T10:00:00Z',
+        localUpdatedAt: '2026-03-02T09:00:00Z',
+        valuesDiffer: false,
+        strategy: 'manual',
+      });
+      expect(result).toEqual({ decision: 'unchanged', conflict: false });
+    });
+
+    it('should not overwrite a local-only change', () => {
+      const result = decidePull({
+        baseline,
+        externalEtag: '"etag-1"',
+        externalUpdatedAt: baseline.external_updated_at,
+        localUpdatedAt: '2026-03-02T09:00:00Z',
+        valuesDiffer: true,
+        strategy: 'external_wins',
+      });
+      expect(result).toEqual({ decision: 'unchanged', conflict: false });
+    });
+
+    it('should apply an external-only change under any strategy', () => {
+      const result = decidePull({
+        baseline,
+        externalEtag: '"etag-2"',
+        externalUpdatedAt: '2026-03-02T10:00:00Z',
+        localUpdatedAt: baseline.local_updated_at,
+        valuesDiffer: true,
+        strategy: 'local_wins',
+      });
+      expect(result).toEqual({ decision: 'apply_external', conflict: false });
+    });
+
+    it('should apply the configured strategy when both sides changed', () => {
+      const input = {
+        baseline,
+        externalEtag: '"etag-2"',
+        externalUpdatedAt: '2026-03-02T10:00:00Z',
+        localUpdatedAt: '2026-03-02T09:00:00Z',
+        valuesDiffer: true,
+      };
+
+      expect(decidePull({ ...input, strategy: 'external_wins' })).toEqual({ decision: 'apply_external', conflict: true });
+      expect(decidePull({ ...input, strategy: 'local_wins' })).toEqual({ decision: 'keep_local', conflict: true });
+      expect(decidePull({ ...input, strategy: 'manual' })).toEqual({ decision: 'queue_review', conflict: true });
+      // External edit (10:00) is newer than the local one (09:00)
+      expect(decidePull({ ...input, strategy: 'latest_timestamp' })).toEqual({ decision: 'apply_external', conflict: true });
+      expect(decidePull({ ...input, localUpdatedAt: '2026-03-02T11:00:00Z', strategy: 'latest_timestamp' }))
+        .toEqual({ decision: 'keep_local', conflict: true });
+    });
+
+    it('should treat differing values without a baseline as a conflict', () => {
+      const result = decidePull({
+        baseline: null,
+        externalEtag: '"etag-1"',
+        externalUpdatedAt: null,
+        localUpdatedAt: '2026-03-02T09:00:00Z',
+        valuesDiffer: true,
+        strategy: 'manual',
+      });
+      expect(result).toEqual({ decision: 'queue_review', conflict: true });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit Tests for the Sync Outbox
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/syncOutbox.test.ts
+ */
+
+import { backoffDelayMs, buildIdempotencyKey, idempotentEventId, type EnqueueSyncItem } from '../integrations/SyncOutbox';
+
+const item = (overrides: Partial<EnqueueSyncItem>): EnqueueSyncItem => ({
+  organizationId: 'org',
+  integrationKey: 'google_calendar',
+  entityType: 'appointment',
+  entityId: 42,
+  operation: 'create',
+  payload: {},
+  ...overrides,
+});
+
+describe('Sync Outbox', () => {
+
+  describe('backoffDelayMs', () => {
+    it('should double from 30 seconds up to 6 hours', () => {
+      expect(backoffDelayMs(1)).toBe(30 * 1000);
+      expect(backoffDelayMs(2)).toBe(60 * 1000);
+      expect(backoffDelayMs(4)).toBe(4 * 60 * 1000);
+      expect(backoffDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('buildIdempotencyKey', () => {
+    it('should collapse repeated creates but keep every update', () => {
+      expect(buildIdempotencyKey(item({}))).toBe(buildIdempotencyKey(item({})));
+      expect(buildIdempotencyKey(item({ operation: 'update' }))).not.toBe(buildIdempotencyKey(item({ operation: 'update' })));
+    });
+  });
+
+  describe('idempotentEventId', () => {
+    it('should produce a stable Google Calendar event id', () => {
+      const id = idempotentEventId('google_calendar:appointment:42:create');
+      expect(id).toMatch(/^[a-v0-9]{5,1024}$/);
+      expect(idempotentEventId('google_calendar:appointment:42:create')).toBe(id);
+    });
+  });
+});
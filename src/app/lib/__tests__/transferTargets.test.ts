@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for Call Transfer Target Selection
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/transferTargets.test.ts
+ */
+
+import {
+  isTargetAvailable,
+  isWithinDutyWindow,
+  parseTimeOfDay,
+  selectTransferTargets,
+  type TransferTarget,
+} from '../transfers/targets';
+
+/** Local wall-clock minutes, as returned by instantToLocalMinutes */
+const at = (day: number, hours: number, minutes = 0) =>
+  Date.UTC(2026, 0, 4 + day, hours, minutes) / 60000; // 2026-01-04 is a Sunday
+
+const target = (overrides: Partial<TransferTarget> = {}): TransferTarget => ({
+  id: 'front',
+  name: 'Front desk',
+  role: 'front_desk',
+  phone_number: '+15550100001',
+  availability: 'on_duty',
+  days_of_week: [1, 2, 3, 4, 5],
+  start_time: '09:00:00',
+  end_time: '17:00:00',
+  priority: 0,
+  ring_timeout_seconds: 20,
+  is_active: true,
+  ...overrides,
+});
+
+describe('parseTimeOfDay', () => {
+  it('reads HH:MM and HH:MM:SS', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('17:00:00')).toBe(1020);
+  });
+});
+
+describe('isWithinDutyWindow', () => {
+  it('matches weekdays inside the window', () => {
+    expect(isWithinDutyWindow(target(), at(1, 9))).toBe(true);
+    expect(isWithinDutyWindow(target(), at(1, 16, 59))).toBe(true);
+    expect(isWithinDutyWindow(target(), at(1, 17))).toBe(false);
+    expect(isWithinDutyWindow(target(), at(0, 10))).toBe(false);
+  });
+
+  it('runs overnight windows into the next morning', () => {
+    const night = target({ start_time: '18:00', end_time: '08:00', days_of_week: [5] });
+    expect(isWithinDutyWindow(night, at(5, 22))).toBe(true);
+    expect(isWithinDutyWindow(night, at(6, 7, 30))).toBe(true);
+    expect(isWithinDutyWindow(night, at(6, 22))).toBe(false);
+    expect(isWithinDutyWindow(night, at(5, 7))).toBe(false);
+  });
+});
+
+describe('isTargetAvailable', () => {
+  it('inverts the window for off_duty targets', () => {
+    const onCall = target({ role: 'on_call', availability: 'off_duty' });
+    expect(isTargetAvailable(onCall, at(1, 10))).toBe(false);
+    expect(isTargetAvailable(onCall, at(1, 20))).toBe(true);
+    expect(isTargetAvailable(onCall, at(0, 10))).toBe(true);
+  });
+
+  it('skips inactive targets', () => {
+    expect(isTargetAvailable(target({ availability: 'always', is_active: false }), at(1, 10))).toBe(false);
+  });
+});
+
+describe('selectTransferTargets', () => {
+  const targets = [
+    target({ id: 'backup', priority: 2, availability: 'always', role: 'other' }),
+    target({ id: 'front', priority: 1 }),
+    target({ id: 'on-call', priority: 3, role: 'on_call', availability: 'always' }),
+  ];
+
+  it('orders available targets by priority', () => {
+    expect(selectTransferTargets(targets, at(1, 10)).map(t => t.id)).toEqual(['front', 'backup', 'on-call']);
+    expect(selectTransferTargets(targets, at(1, 20)).map(t => t.id)).toEqual(['backup', 'on-call']);
+  });
+
+  it('puts the requested role first', () => {
+    expect(selectTransferTargets(targets, at(1, 10), 'on_call').map(t => t.id)).toEqual(['on-call', 'front', 'backup']);
+  });
+});
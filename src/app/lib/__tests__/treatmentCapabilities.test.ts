@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for Treatment Requirements and Capability Matching
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/treatmentCapabilities.test.ts
+ */
+
+import {
+  filterQualifiedSchedules,
+  operatoryQualifies,
+  providerQualifies,
+  type TreatmentRequirements,
+} from '../scheduling/capabilities';
+import { escapeLikePattern, resolveAppointmentDuration } from '../scheduling/slotSettings';
+
+const ROOT_CANAL: TreatmentRequirements = { specialties: ['Endodontics'], operatoryTags: [] };
+const SURGERY: TreatmentRequirements = { specialties: ['Oral Surgery'], operatoryTags: ['Surgical', 'xray'] };
+
+interface TreatmentFixture {
+  id: number;
+  code: string;
+  name: string;
+  duration: number;
+  required_specialties: string[];
+  required_operatory_tags: string[];
+}
+
+const CATALOG: TreatmentFixture[] = [
+  { id: 1, code: 'EXAM-001', name: 'Comprehensive Exam', duration: 45, required_specialties: [], required_operatory_tags: [] },
+  { id: 2, code: 'EXAM-002', name: 'Exam', duration: 20, required_specialties: [], required_operatory_tags: [] },
+  { id: 3, code: 'ENDO-003', name: 'Root Canal - Molar', duration: 90, required_specialties: ['Endodontics'], required_operatory_tags: [] },
+  { id: 4, code: 'SURG-001', name: '50%_Off Extraction', duration: 60, required_specialties: ['Oral Surgery'], required_operatory_tags: ['Surgical'] },
+];
+
+/**
+ * Just enough of the Supabase query builder for treatments_catalog lookups:
+ * eq on code, ILIKE on name (escaped pattern, no wildcards), order + limit.
+ */
+function fakeCatalogDb(rows: TreatmentFixture[]) {
+  const queries: string[] = [];
+  const db = {
+    from: () => {
+      let matches = [...rows];
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          if (column === 'code') {
+            queries.push(`code=${value}`);
+            matches = matches.filter(row => row.code === value);
+          }
+          return builder;
+        },
+        ilike: (column: string, pattern: string) => {
+          queries.push(`name~${pattern}`);
+          const literal = pattern.replace(/\\([\\%_])/g, '$1');
+          matches = matches.filter(row => row[column as 'name'].toLowerCase() === literal.toLowerCase());
+          return builder;
+        },
+        order: (column: string) => {
+          matches.sort((a, b) => Number(a[column as 'id']) - Number(b[column as 'id']));
+          return builder;
+        },
+        limit: async (count: number) => ({ data: matches.slice(0, count), error: null }),
+      };
+      return builder;
+    },
+  };
+  return { db, queries };
+}
+
+describe('Capability Matching', () => {
+
+  describe('providerQualifies', () => {
+    it('should need one of the required specialties', () => {
+      expect(providerQualifies(['Endodontics'], ROOT_CANAL)).toBe(true);
+      expect(providerQualifies('Orthodontics, endodontics', ROOT_CANAL)).toBe(true);
+      expect(providerQualifies(['Orthodontics'], ROOT_CANAL)).toBe(false);
+      expect(providerQualifies(null, null)).toBe(true);
+    });
+
+    it('should keep a General/Hygiene hygienist off specialist treatments', () => {
+      expect(providerQualifies(['General', 'Hygiene'], ROOT_CANAL)).toBe(false);
+      expect(providerQualifies(['General', 'Hygiene'], { specialties: [], operatoryTags: [] })).toBe(true);
+    });
+
+    it('should treat a provider without tags as a general dentist', () => {
+      expect(providerQualifies([], { specialties: ['General'], operatoryTags: [] })).toBe(true);
+      expect(providerQualifies(null, { specialties: ['general'], operatoryTags: [] })).toBe(true);
+      expect(providerQualifies([], ROOT_CANAL)).toBe(false);
+    });
+  });
+
+  describe('operatoryQualifies', () => {
+    it('should need every required room tag', () => {
+      expect(operatoryQualifies(['surgical', 'XRAY', 'sedation'], SURGERY)).toBe(true);
+      expect(operatoryQualifies(['surgical'], SURGERY)).toBe(false);
+      expect(operatoryQualifies([], ROOT_CANAL)).toBe(true);
+    });
+  });
+
+  describe('filterQualifiedSchedules', () => {
+    it('should keep only provider and room pairs that can do the treatment', () => {
+      const schedules = [
+        { id: 1, providers: { specialty_tags: ['Oral Surgery'] }, operatories: { tags: ['General', 'Surgical', 'Xray'] } },
+        { id: 2, providers: { specialty_tags: ['Oral Surgery'] }, operatories: { tags: ['General'] } },
+        { id: 3, providers: { specialty_tags: ['General', 'Hygiene'] }, operatories: { tags: ['Surgical', 'xray'] } },
+        { id: 4, providers: { specialty_tags: [] }, operatories: { tags: ['Surgical', 'xray'] } },
+      ];
+
+      expect(filterQualifiedSchedules(schedules, SURGERY).map(s => s.id)).toEqual([1]);
+      expect(filterQualifiedSchedules(schedules, { specialties: ['General'], operatoryTags: [] }).map(s => s.id)).toEqual([3, 4]);
+      expect(filterQualifiedSchedules(schedules, { specialties: [], operatoryTags: [] })).toHaveLength(4);
+    });
+  });
+});
+
+describe('resolveAppointmentDuration', () => {
+  it('should prefer the treatment code over the appointment type', async () => {
+    const { db, queries } = fakeCatalogDb(CATALOG);
+    const resolved = await resolveAppointmentDuration(db, { TreatmentCode: 'endo-003', AppointmentType: 'Exam' }, 'org');
+
+    expect(resolved).toMatchObject({ minutes: 90, source: 'treatment_code', treatmentCode: 'ENDO-003' });
+    expect(resolved.requirements).toEqual(ROOT_CANAL);
+    expect(queries).toEqual(['code=ENDO-003']);
+  });
+
+  it('should fall back to the appointment type when the code is unknown', async () => {
+    const { db } = fakeCatalogDb(CATALOG);
+    const resolved = await resolveAppointmentDuration(db, { TreatmentCode: 'NOPE-1', AppointmentType: 'exam' }, 'org');
+
+    expect(resolved).toMatchObject({ minutes: 20, source: 'appointment_type', treatmentName: 'Exam' });
+  });
+
+  it('should match the appointment type exactly, not as a substring', async () => {
+    const { db } = fakeCatalogDb(CATALOG);
+
+    expect((await resolveAppointmentDuration(db, { AppointmentType: 'Canal' }, 'org')).source).toBe('default');
+    expect((await resolveAppointmentDuration(db, { AppointmentType: '50%_Off Extraction' }, 'org')).minutes).toBe(60);
+    expect((await resolveAppointmentDuration(db, { AppointmentType: '5%' }, 'org')).source).toBe('default');
+  });
+
+  it('should use the default length, with no requirements, when nothing matches', async () => {
+    const { db } = fakeCatalogDb(CATALOG);
+    const resolved = await resolveAppointmentDuration(db, { AppointmentType: 'Something else' }, 'org');
+
+    expect(resolved).toEqual({ minutes: 30, source: 'default', requirements: { specialties: [], operatoryTags: [] } });
+  });
+
+  it('should keep an explicit length but still apply the treatment requirements', async () => {
+    const { db } = fakeCatalogDb(CATALOG);
+    const resolved = await resolveAppointmentDuration(db, { lengthMinutes: '120', TreatmentCode: 'SURG-001' }, 'org');
+
+    expect(resolved).toMatchObject({ minutes: 120, source: 'explicit', treatmentCode: 'SURG-001' });
+    expect(resolved.requirements).toEqual({ specialties: ['Oral Surgery'], operatoryTags: ['Surgical'] });
+  });
+
+  it('should escape LIKE wildcards', () => {
+    expect(escapeLikePattern('50%_Off')).toBe('50\\%\\_Off');
+    expect(escapeLikePattern('a\\b')).toBe('a\\\\b');
+  });
+});
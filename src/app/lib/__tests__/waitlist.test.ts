@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Waitlist Matching and Offers
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/waitlist.test.ts
+ */
+
+import {
+  entryFitsSlot,
+  isOfferExpired,
+  parseOfferReply,
+  rankEntries,
+  type FreedSlot,
+  type WaitlistEntryRow,
+} from '../waitlist/matching';
+import { parseLocalDateTime } from '../scheduling/intervals';
+
+const entry = (overrides: Partial<WaitlistEntryRow>): WaitlistEntryRow => ({
+  id: 1,
+  organization_id: 'org',
+  patient_id: 100,
+  preferred_provider_ids: null,
+  preferred_days: null,
+  earliest_time: null,
+  latest_time: null,
+  date_from: null,
+  date_until: null,
+  length_minutes: null,
+  treatment_code: null,
+  appointment_type: null,
+  channel: 'sms',
+  contact_phone: null,
+  priority: 0,
+  status: 'waiting',
+  auto_offer: true,
+  source: 'staff',
+  created_at: '2026-03-01T10:00:00Z',
+  ...overrides,
+});
+
+// Tuesday 2026-03-10, 14:00 for an hour
+const slot: FreedSlot = {
+  providerId: 1,
+  operatoryId: 3,
+  start: parseLocalDateTime('2026-03-10 14:00:00')!,
+  lengthMinutes: 60,
+};
+
+describe('Waitlist', () => {
+
+  describe('rankEntries', () => {
+    it('should offer by priority, then to whoever joined first', () => {
+      const ranked = rankEntries([
+        entry({ id: 1, priority: 0, created_at: '2026-03-01T10:00:00Z' }),
+        entry({ id: 2, priority: 5, created_at: '2026-03-05T10:00:00Z' }),
+        entry({ id: 3, priority: 0, created_at: '2026-02-20T10:00:00Z' }),
+        entry({ id: 4, priority: 5, created_at: '2026-03-02T10:00:00Z' }),
+      ]);
+
+      expect(ranked.map(e => e.id)).toEqual([4, 2, 3, 1]);
+    });
+  });
+
+  describe('entryFitsSlot', () => {
+    it('should match provider, weekday, date range and time window', () => {
+      expect(entryFitsSlot(entry({}), slot, 60)).toBe(true);
+      expect(entryFitsSlot(entry({ preferred_provider_ids: [2] }), slot, 60)).toBe(false);
+      expect(entryFitsSlot(entry({ preferred_days: [1, 3] }), slot, 60)).toBe(false);
+      expect(entryFitsSlot(entry({ preferred_days: [2] }), slot, 60)).toBe(true);
+      expect(entryFitsSlot(entry({ date_until: '2026-03-09' }), slot, 60)).toBe(false);
+      expect(entryFitsSlot(entry({ earliest_time: '08:00', latest_time: '14:30' }), slot, 60)).toBe(false);
+      expect(entryFitsSlot(entry({ earliest_time: '08:00', latest_time: '14:30' }), slot, 30)).toBe(true);
+    });
+
+    it('should not offer a longer visit or give the slot back to whoever freed it', () => {
+      expect(entryFitsSlot(entry({}), slot, 90)).toBe(false);
+      expect(entryFitsSlot(entry({ patient_id: 100 }), { ...slot, releasedByPatientId: 100 }, 60)).toBe(false);
+    });
+  });
+
+  describe('isOfferExpired', () => {
+    it('should expire an offer once expires_at is reached', () => {
+      const now = new Date('2026-03-10T12:00:00Z');
+      expect(isOfferExpired({ expires_at: '2026-03-10T12:30:00Z' }, now)).toBe(false);
+      expect(isOfferExpired({ expires_at: '2026-03-10T12:00:00Z' }, now)).toBe(true);
+      expect(isOfferExpired({ expires_at: '2026-03-10T11:59:00Z' }, now)).toBe(true);
+    });
+  });
+
+  describe('parseOfferReply', () => {
+    it('should read YES / NO with an optional code', () => {
+      expect(parseOfferReply('yes 4821')).toEqual({ accept: true, code: '4821' });
+      expect(parseOfferReply(' No. ')).toEqual({ accept: false, code: undefined });
+      expect(parseOfferReply('Can I come at 3 instead?')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for Interactive WhatsApp Booking
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/whatsappInteractive.test.ts
+ */
+
+import {
+  buildSlotListSections,
+  listedSlots,
+  MAX_LIST_ROWS,
+  parseInteractiveSelection,
+  parseSlotRowId,
+  readToolResults,
+  slotRowId,
+  type OfferedSlot,
+} from '../whatsapp/interactive';
+import type { EvolutionMessageUpsert } from '../evolution/types';
+
+const slot = (dateTime: string, provNum = 3, opNum = 2): OfferedSlot => ({
+  DateTimeStart: dateTime,
+  ProvNum: provNum,
+  OpNum: opNum,
+  LengthMinutes: 30,
+  ProviderName: 'Dr. Lee',
+});
+
+const incoming = (message: EvolutionMessageUpsert['message']): EvolutionMessageUpsert => ({
+  key: { remoteJid: '15550102030@s.whatsapp.net', fromMe: false, id: 'ABC123' },
+  messageType: 'conversation',
+  message,
+  messageTimestamp: 0,
+});
+
+describe('Interactive WhatsApp Booking', () => {
+
+  describe('slot row ids', () => {
+    it('should round-trip the time, provider and operatory', () => {
+      const id = slotRowId(slot('2026-10-21 09:30:00', 7, 4));
+      expect(id).toBe('slot:202610210930:7:4');
+      expect(parseSlotRowId(id)).toEqual({ DateTimeStart: '2026-10-21 09:30:00', ProvNum: 7, OpNum: 4 });
+      expect(parseSlotRowId('btn_0')).toBeNull();
+    });
+  });
+
+  describe('buildSlotListSections', () => {
+    it('should group slots by day and stay within the WhatsApp row limit', () => {
+      const slots = [
+        ...['08', '09', '10', '11', '12', '13', '14'].map(h => slot(`2026-10-21 ${h}:00:00`)),
+        ...['09', '10', '11', '12', '13'].map(h => slot(`2026-10-22 ${h}:00:00`)),
+      ];
+      const sections = buildSlotListSections(slots);
+
+      expect(sections.map(s => s.title)).toEqual(['Wed, Oct 21', 'Thu, Oct 22']);
+      expect(sections[0].rows).toHaveLength(5);
+      expect(sections[0].rows[0]).toEqual({ id: 'slot:202610210800:3:2', title: '8:00 AM', description: 'Dr. Lee' });
+      expect(sections.flatMap(s => s.rows).length).toBeLessThanOrEqual(MAX_LIST_ROWS);
+      expect(listedSlots(slots, sections)[5].DateTimeStart).toBe('2026-10-22 09:00:00');
+    });
+  });
+
+  describe('parseInteractiveSelection', () => {
+    const offered = [slot('2026-10-21 09:30:00'), slot('2026-10-21 10:00:00')];
+
+    it('should read a picked list row', () => {
+      const selection = parseInteractiveSelection(incoming({
+        listResponseMessage: { title: '10:00 AM', singleSelectReply: { selectedRowId: 'slot:202610211000:3:2' } },
+      }), offered);
+      expect(selection).toEqual({ type: 'slot', slot: offered[1] });
+    });
+
+    it('should read the confirmation buttons', () => {
+      expect(parseInteractiveSelection(incoming({
+        buttonsResponseMessage: { selectedButtonId: 'booking:confirm', selectedDisplayText: 'Confirm' },
+      }))).toEqual({ type: 'confirm' });
+      expect(parseInteractiveSelection(incoming({
+        buttonsResponseMessage: { selectedButtonId: 'booking:change' },
+      }))).toEqual({ type: 'change' });
+    });
+
+    it('should accept a number typed against the offered list only', () => {
+      expect(parseInteractiveSelection(incoming({ conversation: '1' }), offered)).toEqual({ type: 'slot', slot: offered[0] });
+      expect(parseInteractiveSelection(incoming({ conversation: '3' }), offered)).toBeNull();
+      expect(parseInteractiveSelection(incoming({ conversation: '1' }))).toBeNull();
+    });
+  });
+
+  describe('readToolResults', () => {
+    it('should pick up the slot search and the booking from the turn', () => {
+      const result = readToolResults([
+        { type: 'function_call', name: 'GetAvailableSlots' },
+        { type: 'function_call_output', name: 'GetAvailableSlots', output: JSON.stringify([slot('2026-10-21 09:30:00')]) },
+        { type: 'function_call_output', name: 'CreateAppointment', output: JSON.stringify({ AptNum: 12, AptDateTime: '2026-10-21 09:30:00' }) },
+        { type: 'function_call_output', name: 'UpdateAppointment', output: JSON.stringify({ error: true, message: 'conflict' }) },
+      ]);
+      expect(result.slots).toHaveLength(1);
+      expect(result.booked?.AptNum).toBe(12);
+    });
+  });
+});
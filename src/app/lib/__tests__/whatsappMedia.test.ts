@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for WhatsApp Media
+ *
+ * Run with: npm test
+ * or: npx jest src/app/lib/__tests__/whatsappMedia.test.ts
+ */
+
+import {
+  applySignedUrls,
+  attachmentStoragePath,
+  buildAttachmentRow,
+  extensionForMimeType,
+  getMediaKind,
+  type DownloadedMedia,
+  type MessageAttachment,
+} from '../whatsapp/media';
+import type { EvolutionMessageUpsert } from '../evolution/types';
+
+const incoming = (message: EvolutionMessageUpsert['message']): EvolutionMessageUpsert => ({
+  key: { remoteJid: '15550102030@s.whatsapp.net', fromMe: false, id: 'ABC123' },
+  messageType: 'conversation',
+  message,
+  messageTimestamp: 0,
+});
+
+const voiceNote: DownloadedMedia = {
+  kind: 'audio',
+  buffer: Buffer.from('opus-data'),
+  mimeType: 'audio/ogg; codecs=opus',
+  fileName: 'ABC123.ogg',
+};
+
+const attachment = (overrides: Partial<MessageAttachment>): MessageAttachment => ({
+  id: 'att-1',
+  conversation_id: 'conv-1',
+  whatsapp_message_id: 'wa-1',
+  patient_id: null,
+  media_type: 'image',
+  mime_type: 'image/jpeg',
+  file_name: 'photo.jpg',
+  size_bytes: 1024,
+  storage_path: 'org/conv-1/ABC123.jpg',
+  caption: null,
+  transcript: null,
+  sender: '15550102030',
+  created_at: '2026-03-10T12:00:00Z',
+  ...overrides,
+});
+
+describe('WhatsApp Media', () => {
+
+  describe('getMediaKind', () => {
+    it('should handle voice notes and images only', () => {
+      expect(getMediaKind(incoming({ audioMessage: { url: 'u', mimetype: 'audio/ogg', ptt: true } }))).toBe('audio');
+      expect(getMediaKind(incoming({ imageMessage: { url: 'u', mimetype: 'image/jpeg', caption: 'my x-ray' } }))).toBe('image');
+      expect(getMediaKind(incoming({ documentMessage: { url: 'u', mimetype: 'application/pdf' } }))).toBeNull();
+      expect(getMediaKind(incoming({ conversation: 'hello' }))).toBeNull();
+    });
+  });
+
+  describe('attachmentStoragePath', () => {
+    it('should key files by org, conversation and a safe message id', () => {
+      expect(attachmentStoragePath('org', 'conv-1', 'ABC/../123', 'audio/ogg; codecs=opus')).toBe('org/conv-1/ABC123.ogg');
+      expect(extensionForMimeType('image/x-Custom+type')).toBe('xcustomtype');
+      expect(extensionForMimeType(null)).toBe('bin');
+    });
+  });
+
+  describe('buildAttachmentRow', () => {
+    it('should record the file against the conversation, patient and sender digits', () => {
+      const row = buildAttachmentRow({
+        organizationId: 'org',
+        conversationId: 'conv-1',
+        whatsappMessageId: 'wa-1',
+        messageId: 'ABC123',
+        sender: '15550102030@s.whatsapp.net',
+        media: voiceNote,
+        transcript: 'Can I move my cleaning?',
+      }, 'org/conv-1/ABC123.ogg', 42);
+
+      expect(row).toEqual({
+        organization_id: 'org',
+        conversation_id: 'conv-1',
+        whatsapp_message_id: 'wa-1',
+        patient_id: 42,
+        channel: 'whatsapp',
+        media_type: 'audio',
+        mime_type: 'audio/ogg; codecs=opus',
+        file_name: 'ABC123.ogg',
+        size_bytes: 9,
+        storage_path: 'org/conv-1/ABC123.ogg',
+        caption: null,
+        transcript: 'Can I move my cleaning?',
+        sender: '15550102030',
+      });
+    });
+
+    it('should store empty captions and transcripts as null', () => {
+      const row = buildAttachmentRow({
+        organizationId: 'org',
+        conversationId: 'conv-1',
+        whatsappMessageId: null,
+        messageId: 'ABC123',
+        sender: '15550102030',
+        media: { ...voiceNote, kind: 'image', caption: '' },
+        transcript: '',
+      }, 'org/conv-1/ABC123.jpg', null);
+
+      expect(row).toMatchObject({ media_type: 'image', caption: null, transcript: null, patient_id: null });
+    });
+  });
+
+  describe('applySignedUrls', () => {
+    it('should match URLs by storage path and leave unsigned files without one', () => {
+      const signed = applySignedUrls(
+        [attachment({ id: 'a', storage_path: 'org/c/1.jpg' }), attachment({ id: 'b', storage_path: 'org/c/2.ogg' })],
+        [{ path: 'org/c/2.ogg', signedUrl: 'https://files/2.ogg?token=t' }, { path: null, signedUrl: '' }]
+      );
+
+      expect(signed.map(a => [a.id, a.url])).toEqual([
+        ['a', null],
+        ['b', 'https://files/2.ogg?token=t'],
+      ]);
+    });
+
+    it('should give every attachment a null URL when signing failed', () => {
+      expect(applySignedUrls([attachment({})], []).map(a => a.url)).toEqual([null]);
+    });
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Call Analytics
+ *
+ * Aggregates conversations and their function calls over a date range, in
+ * the organization's timezone, for the call statistics page. Every metric is
+ * reported for the whole range and per day, channel, phone number and agent
+ * mode:
+ *   conversion      conversations with a successful booking / conversations
+ *   handle time     call duration (Retell) or first to last activity
+ *   tool error rate function calls that returned an error / function calls
+ *   cost per booking  provider cost (Retell call_cost, cents) / booked conversations
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import { getOrganizationSlotSettings } from '../scheduling/slotSettings';
+import { formatLocalDate, instantToLocalMinutes } from '../scheduling/intervals';
+
+export type CallOutcome = 'completed' | 'in_progress' | 'abandoned';
+export type AgentModeGroup = 'premium' | 'standard' | 'retell' | 'text' | 'web';
+
+/** Tools that create an appointment; a call without an error counts as a booking */
+export const BOOKING_FUNCTIONS = ['CreateAppointment', 'bookAppointment'];
+
+/** Same rule as the call list: no activity for this long means the caller gave up */
+const ABANDONED_AFTER_MINUTES = 30;
+const PAGE_SIZE = 1000;
+const ID_CHUNK = 200;
+
+export interface AnalyticsConversation {
+  id: string;
+  session_id: string;
+  channel: string | null;
+  direction: string | null;
+  from_number: string | null;
+  to_number: string | null;
+  intent: string | null;
+  stage: string | null;
+  call_status: string | null;
+  duration_ms: number | null;
+  call_cost: { combined_cost?: number } | null;
+  transfer_status: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AnalyticsFunctionCall {
+  conversation_id: string;
+  function_name: string;
+  error: string | null;
+}
+
+export interface AnalyticsMetrics {
+  conversations: number;
+  completed: number;
+  abandoned: number;
+  inProgress: number;
+  transferred: number;
+  bookedConversations: number;
+  bookings: number;
+  conversionRate: number;             // 0..1
+  avgHandleTimeSeconds: number;
+  toolCalls: number;
+  toolErrors: number;
+  toolErrorRate: number;              // 0..1
+  costCents: number;
+  costedConversations: number;        // conversations with a provider cost
+  costPerBookingCents: number | null;
+}
+
+export interface AnalyticsGroup extends AnalyticsMetrics {
+  key: string;
+}
+
+export interface CallAnalyticsReport {
+  range: { from: string; to: string; timezone: string };
+  totals: AnalyticsMetrics;
+  previous?: AnalyticsMetrics;
+  byDay: AnalyticsGroup[];
+  byChannel: AnalyticsGroup[];
+  byPhoneNumber: AnalyticsGroup[];
+  byAgentMode: AnalyticsGroup[];
+  byIntent: AnalyticsGroup[];
+  topToolErrors: Array<{ functionName: string; errors: number; calls: number }>;
+}
+
+export interface CallAnalyticsFilter {
+  from: string;                       // YYYY-MM-DD, organization timezone
+  to: string;
+  channel?: string;
+  phoneNumber?: string;
+  agentMode?: AgentModeGroup;
+  compare?: boolean;                  // also report the previous period of the same length
+}
+
+/**
+ * Which agent handled the conversation, from the session id prefix each
+ * entry point uses (twilio_ = premium realtime, standard_ = STT/TTS pipeline)
+ */
+export function agentModeForSession(sessionId: string, channel?: string | null): AgentModeGroup {
+  if (sessionId.startsWith('standard_')) return 'standard';
+  if (sessionId.startsWith('retell_') || channel === 'retell') return 'retell';
+  if (sessionId.startsWith('lexi_twilio_') || sessionId.startsWith('whatsapp_')
+    || channel === 'sms' || channel === 'whatsapp') return 'text';
+  if (sessionId.startsWith('twilio_')) return 'premium';
+  return 'web';
+}
+
+export function classifyOutcome(conversation: AnalyticsConversation, now: Date = new Date()): CallOutcome {
+  if (conversation.stage === 'completed'
+    || conversation.call_status === 'ended'
+    || conversation.call_status === 'completed') {
+    return 'completed';
+  }
+  const idleMinutes = (now.getTime() - new Date(conversation.updated_at).getTime()) / 60000;
+  return idleMinutes > ABANDONED_AFTER_MINUTES ? 'abandoned' : 'in_progress';
+}
+
+export function handleTimeSeconds(conversation: AnalyticsConversation): number {
+  if (conversation.duration_ms) return conversation.duration_ms / 1000;
+  const elapsed = new Date(conversation.updated_at).getTime() - new Date(conversation.created_at).getTime();
+  return Math.max(0, elapsed / 1000);
+}
+
+/** The organization's number on the call: the one dialed for inbound, the caller id for outbound */
+function businessNumber(conversation: AnalyticsConversation): string {
+  const number = conversation.direction === 'outbound' ? conversation.from_number : conversation.to_number;
+  return number || 'unknown';
+}
+
+interface Accumulator {
+  conversations: number;
+  completed: number;
+  abandoned: number;
+  inProgress: number;
+  transferred: number;
+  bookedConversations: number;
+  bookings: number;
+  handleTimeSeconds: number;
+  toolCalls: number;
+  toolErrors: number;
+  costCents: number;
+  costedConversations: number;
+}
+
+const emptyAccumulator = (): Accumulator => ({
+  conversations: 0,
+  completed: 0,
+  abandoned: 0,
+  inProgress: 0,
+  transferred: 0,
+  bookedConversations: 0,
+  bookings: 0,
+  handleTimeSeconds: 0,
+  toolCalls: 0,
+  toolErrors: 0,
+  costCents: 0,
+  costedConversations: 0,
+});
+
+function toMetrics(acc: Accumulator): AnalyticsMetrics {
+  const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+  return {
+    conversations: acc.conversations,
+    completed: acc.completed,
+    abandoned: acc.abandoned,
+    inProgress: acc.inProgress,
+    transferred: acc.transferred,
+    bookedConversations: acc.bookedConversations,
+    bookings: acc.bookings,
+    conversionRate: ratio(acc.bookedConversations, acc.conversations),
+    avgHandleTimeSeconds: Math.round(ratio(acc.handleTimeSeconds, acc.conversations)),
+    toolCalls: acc.toolCalls,
+    toolErrors: acc.toolErrors,
+    toolErrorRate: ratio(acc.toolErrors, acc.toolCalls),
+    costCents: Math.round(acc.costCents * 100) / 100,
+    costedConversations: acc.costedConversations,
+    costPerBookingCents: acc.bookedConversations > 0 && acc.costedConversations > 0
+      ? Math.round((acc.costCents / acc.bookedConversations) * 100) / 100
+      : null,
+  };
+}
+
+/**
+ * Pure aggregation over already-loaded rows. Days are labeled in `timezone`
+ * and every day from `from` to `to` is present, including days without calls.
+ */
+export function aggregateCallAnalytics(
+  conversations: AnalyticsConversation[],
+  functionCalls: AnalyticsFunctionCall[],
+  range: { from: string; to: string; timezone: string },
+  now: Date = new Date()
+): Omit<CallAnalyticsReport, 'previous'> {
+  const callsByConversation = new Map<string, AnalyticsFunctionCall[]>();
+  for (const call of functionCalls) {
+    const list = callsByConversation.get(call.conversation_id) || [];
+    list.push(call);
+    callsByConversation.set(call.conversation_id, list);
+  }
+
+  const totals = emptyAccumulator();
+  const groups = {
+    day: new Map<string, Accumulator>(),
+    channel: new Map<string, Accumulator>(),
+    phone: new Map<string, Accumulator>(),
+    mode: new Map<string, Accumulator>(),
+    intent: new Map<string, Accumulator>(),
+  };
+  const toolErrors = new Map<string, { errors: number; calls: number }>();
+
+  for (let day = new Date(`${range.from}T00:00:00Z`); day <= new Date(`${range.to}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+    groups.day.set(day.toISOString().split('T')[0], emptyAccumulator());
+  }
+
+  const bucket = (map: Map<string, Accumulator>, key: string) => {
+    let acc = map.get(key);
+    if (!acc) {
+      acc = emptyAccumulator();
+      map.set(key, acc);
+    }
+    return acc;
+  };
+
+  for (const conversation of conversations) {
+    const calls = callsByConversation.get(conversation.id) || [];
+    const bookings = calls.filter(call => BOOKING_FUNCTIONS.includes(call.function_name) && !call.error).length;
+    const errors = calls.filter(call => call.error).length;
+    const outcome = classifyOutcome(conversation, now);
+    const cost = conversation.call_cost?.combined_cost;
+
+    for (const call of calls) {
+      const stats = toolErrors.get(call.function_name) || { errors: 0, calls: 0 };
+      stats.calls++;
+      if (call.error) stats.errors++;
+      toolErrors.set(call.function_name, stats);
+    }
+
+    const day = formatLocalDate(instantToLocalMinutes(new Date(conversation.created_at), range.timezone));
+    const targets = [
+      totals,
+      bucket(groups.day, day),
+      bucket(groups.channel, conversation.channel || 'voice'),
+      bucket(groups.phone, businessNumber(conversation)),
+      bucket(groups.mode, agentModeForSession(conversation.session_id, conversation.channel)),
+      bucket(groups.intent, conversation.intent || 'unknown'),
+    ];
+
+    for (const acc of targets) {
+      acc.conversations++;
+      if (outcome === 'completed') acc.completed++;
+      else if (outcome === 'abandoned') acc.abandoned++;
+      else acc.inProgress++;
+      if (conversation.transfer_status === 'connected') acc.transferred++;
+      if (bookings > 0) acc.bookedConversations++;
+      acc.bookings += bookings;
+      acc.handleTimeSeconds += handleTimeSeconds(conversation);
+      acc.toolCalls += calls.length;
+      acc.toolErrors += errors;
+      if (typeof cost === 'number') {
+        acc.costCents += cost;
+        acc.costedConversations++;
+      }
+    }
+  }
+
+  const grouped = (map: Map<string, Accumulator>, sortByKey = false): AnalyticsGroup[] => {
+    const rows = [...map.entries()].map(([key, acc]) => ({ key, ...toMetrics(acc) }));
+    return sortByKey
+      ? rows.sort((a, b) => a.key.localeCompare(b.key))
+      : rows.sort((a, b) => b.conversations - a.conversations);
+  };
+
+  return {
+    range,
+    totals: toMetrics(totals),
+    byDay: grouped(groups.day, true).filter(row => row.key >= range.from && row.key <= range.to),
+    byChannel: grouped(groups.channel),
+    byPhoneNumber: grouped(groups.phone),
+    byAgentMode: grouped(groups.mode),
+    byIntent: grouped(groups.intent),
+    topToolErrors: [...toolErrors.entries()]
+      .filter(([, stats]) => stats.errors > 0)
+      .map(([functionName, stats]) => ({ functionName, ...stats }))
+      .sort((a, b) => b.errors - a.errors)
+      .slice(0, 10),
+  };
+}
+
+const CONVERSATION_COLUMNS = 'id, session_id, channel, direction, from_number, to_number, intent, stage, call_status, duration_ms, call_cost, transfer_status, created_at, updated_at';
+
+/**
+ * Conversations created on local dates from..to. The UTC window is padded by
+ * a day on each side and trimmed after converting to the org timezone.
+ */
+async function loadConversations(
+  organizationId: string,
+  filter: CallAnalyticsFilter,
+  timezone: string
+): Promise<AnalyticsConversation[]> {
+  const supabase = getSupabaseAdmin();
+  const start = new Date(`${filter.from}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - 1);
+  const end = new Date(`${filter.to}T23:59:59.999Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  const rows: AnalyticsConversation[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS)
+      .eq('organization_id', organizationId)
+      .gte('created_at', start.toISOString())
+      .lte('created_at', end.toISOString());
+
+    if (filter.channel) query = query.eq('channel', filter.channel);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...((data || []) as AnalyticsConversation[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows.filter(conversation => {
+    const day = formatLocalDate(instantToLocalMinutes(new Date(conversation.created_at), timezone));
+    if (day < filter.from || day > filter.to) return false;
+    if (filter.phoneNumber && businessNumber(conversation) !== filter.phoneNumber) return false;
+    if (filter.agentMode && agentModeForSession(conversation.session_id, conversation.channel) !== filter.agentMode) return false;
+    return true;
+  });
+}
+
+async function loadFunctionCalls(organizationId: string, conversationIds: string[]): Promise<AnalyticsFunctionCall[]> {
+  const supabase = getSupabaseAdmin();
+  const rows: AnalyticsFunctionCall[] = [];
+
+  for (let i = 0; i < conversationIds.length; i += ID_CHUNK) {
+    const chunk = conversationIds.slice(i, i + ID_CHUNK);
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('function_calls')
+        .select('conversation_id, function_name, error')
+        .eq('organization_id', organizationId)
+        .in('conversation_id', chunk)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      rows.push(...((data || []) as AnalyticsFunctionCall[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Same number of days immediately before `from`
+ */
+export function previousRange(from: string, to: string): { from: string; to: string } {
+  const start = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  const previousEnd = new Date(start);
+  previousEnd.setUTCDate(previousEnd.getUTCDate() - 1);
+  const previousStart = new Date(previousEnd);
+  previousStart.setUTCDate(previousStart.getUTCDate() - (days - 1));
+  return {
+    from: previousStart.toISOString().split('T')[0],
+    to: previousEnd.toISOString().split('T')[0],
+  };
+}
+
+export async function getCallAnalytics(
+  organizationId: string,
+  filter: CallAnalyticsFilter
+): Promise<CallAnalyticsReport> {
+  const { timezone } = await getOrganizationSlotSettings(getSupabaseAdmin(), organizationId);
+
+  const load = async (range: CallAnalyticsFilter) => {
+    const conversations = await loadConversations(organizationId, range, timezone);
+    const functionCalls = await loadFunctionCalls(organizationId, conversations.map(c => c.id));
+    return aggregateCallAnalytics(conversations, functionCalls, { from: range.from, to: range.to, timezone });
+  };
+
+  const report: CallAnalyticsReport = await load(filter);
+  if (filter.compare) {
+    report.previous = (await load({ ...filter, ...previousRange(filter.from, filter.to) })).totals;
+  }
+  return report;
+}
@@ -0,0 +1,284 @@
+/**
+ * Plan Entitlements
+ *
+ * What an organization may add and use, from its organizations row:
+ *   plan             monthly quotas for metered usage (PLAN_DEFINITIONS)
+ *   max_users, max_providers, max_whatsapp_instances
+ *                    seat limits (NULL = unlimited)
+ *   status, trial_ends_at
+ *                    a trial past its end date, a suspended or a cancelled
+ *                    organization can't add anything and its agents stop
+ *                    answering text channels
+ *
+ * Limits are soft from SOFT_LIMIT_RATIO of the limit (a warning in settings).
+ * Seat limits are hard at the limit. Metered quotas are hard on plans without
+ * overage (free, and any plan still in its trial); paid plans keep working
+ * and the excess is reported as overage.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import { getBillingPeriod, getPeriodUsage, type BillingPeriod } from './usageMetering';
+import {
+  EntitlementError,
+  type AccountState,
+  type Entitlements,
+  type LimitStatus,
+  type PlanDefinition,
+  type PlanId,
+  type SeatResource,
+  type UsageMetric,
+} from './types';
+
+export const SOFT_LIMIT_RATIO = 0.8;
+
+export const PLAN_DEFINITIONS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: 'free',
+    label: 'Free',
+    quotas: { call_minutes: 100, messages: 500, llm_tokens: 1_000_000 },
+    overageAllowed: false,
+  },
+  starter: {
+    id: 'starter',
+    label: 'Starter',
+    quotas: { call_minutes: 500, messages: 2_500, llm_tokens: 5_000_000 },
+    overageAllowed: true,
+  },
+  professional: {
+    id: 'professional',
+    label: 'Professional',
+    quotas: { call_minutes: 2_000, messages: 10_000, llm_tokens: 20_000_000 },
+    overageAllowed: true,
+  },
+  enterprise: {
+    id: 'enterprise',
+    label: 'Enterprise',
+    quotas: { call_minutes: null, messages: null, llm_tokens: null },
+    overageAllowed: true,
+  },
+};
+
+export const SEAT_LABELS: Record<SeatResource, string> = {
+  users: 'team members',
+  providers: 'providers',
+  whatsapp_instances: 'WhatsApp numbers',
+};
+
+export const METRIC_LABELS: Record<UsageMetric, string> = {
+  call_minutes: 'call minutes',
+  messages: 'messages',
+  llm_tokens: 'AI tokens',
+};
+
+const BLOCKED_STATES: AccountState[] = ['trial_expired', 'suspended', 'cancelled'];
+
+export interface OrganizationPlanRow {
+  plan: string | null;
+  status: string | null;
+  trial_ends_at: string | null;
+  max_users: number | null;
+  max_providers: number | null;
+  max_whatsapp_instances: number | null;
+}
+
+export interface UsageLimits {
+  entitlements: Entitlements;
+  period: BillingPeriod;
+  seats: Record<SeatResource, LimitStatus>;
+  usage: Record<UsageMetric, LimitStatus>;
+  estimatedTokens: number;
+  lastMeteredAt: string | null;
+}
+
+export function getAccountState(org: Pick<OrganizationPlanRow, 'status' | 'trial_ends_at'>, now: Date = new Date()): AccountState {
+  if (org.status === 'suspended' || org.status === 'cancelled') return org.status;
+  if (org.status === 'trial') {
+    return org.trial_ends_at && new Date(org.trial_ends_at) <= now ? 'trial_expired' : 'trial';
+  }
+  return 'active';
+}
+
+export function isAccountBlocked(state: AccountState): boolean {
+  return BLOCKED_STATES.includes(state);
+}
+
+export function buildEntitlements(organizationId: string, org: OrganizationPlanRow, now: Date = new Date()): Entitlements {
+  const plan = PLAN_DEFINITIONS[(org.plan || 'free') as PlanId] || PLAN_DEFINITIONS.free;
+  return {
+    organizationId,
+    plan,
+    accountState: getAccountState(org, now),
+    trialEndsAt: org.trial_ends_at,
+    seatLimits: {
+      users: org.max_users,
+      providers: org.max_providers,
+      whatsapp_instances: org.max_whatsapp_instances,
+    },
+  };
+}
+
+/**
+ * Seats: soft near the limit, hard once it's reached (nothing more can be added)
+ */
+export function evaluateSeatLimit(used: number, limit: number | null): LimitStatus {
+  if (limit === null || limit === undefined) {
+    return { used, limit: null, ratio: null, state: 'ok', overage: 0 };
+  }
+  const ratio = limit > 0 ? used / limit : 1;
+  const state = used >= limit ? 'hard' : ratio >= SOFT_LIMIT_RATIO ? 'soft' : 'ok';
+  return { used, limit, ratio, state, overage: 0 };
+}
+
+/**
+ * Metered usage: past the quota it's overage (soft) when the plan allows it,
+ * otherwise hard
+ */
+export function evaluateUsageLimit(used: number, limit: number | null, overageAllowed: boolean): LimitStatus {
+  if (limit === null || limit === undefined) {
+    return { used, limit: null, ratio: null, state: 'ok', overage: 0 };
+  }
+  const ratio = limit > 0 ? used / limit : 1;
+  if (used >= limit) {
+    return overageAllowed
+      ? { used, limit, ratio, state: 'soft', overage: Math.round((used - limit) * 100) / 100 }
+      : { used, limit, ratio, state: 'hard', overage: 0 };
+  }
+  return { used, limit, ratio, state: ratio >= SOFT_LIMIT_RATIO ? 'soft' : 'ok', overage: 0 };
+}
+
+/** Trials get the plan's quotas but nothing past them */
+function allowsOverage(entitlements: Entitlements): boolean {
+  return entitlements.plan.overageAllowed && entitlements.accountState === 'active';
+}
+
+function accountBlockedMessage(entitlements: Entitlements): string {
+  switch (entitlements.accountState) {
+    case 'trial_expired':
+      return `Your trial ended on ${new Date(entitlements.trialEndsAt as string).toLocaleDateString('en-US', { dateStyle: 'medium' })}. Upgrade your plan to continue.`;
+    case 'suspended':
+      return 'This organization is suspended. Contact support to reactivate it.';
+    default:
+      return 'This organization\'s subscription is cancelled. Contact support to reactivate it.';
+  }
+}
+
+export async function getEntitlements(organizationId: string): Promise<Entitlements> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('organizations')
+    .select('plan, status, trial_ends_at, max_users, max_providers, max_whatsapp_instances')
+    .eq('id', organizationId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to load organization plan: ${error?.message || 'Organization not found'}`);
+  }
+  return buildEntitlements(organizationId, data as OrganizationPlanRow);
+}
+
+/**
+ * How many of a seat resource the organization currently has. Invited
+ * members take a seat until they're removed.
+ */
+export async function countSeats(organizationId: string, resource: SeatResource): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const query = resource === 'users'
+    ? supabase
+        .from('organization_members')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .in('status', ['active', 'invited'])
+    : supabase
+        .from(resource === 'providers' ? 'providers' : 'whatsapp_instances')
+        .select('id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .eq('is_active', true);
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count ${SEAT_LABELS[resource]}: ${error.message}`);
+  }
+  return count || 0;
+}
+
+/**
+ * Throws EntitlementError unless the organization can add one more of `resource`
+ */
+export async function assertCanAddSeat(organizationId: string, resource: SeatResource): Promise<void> {
+  const entitlements = await getEntitlements(organizationId);
+  if (isAccountBlocked(entitlements.accountState)) {
+    throw new EntitlementError('account', accountBlockedMessage(entitlements));
+  }
+
+  const limit = entitlements.seatLimits[resource];
+  if (limit === null) return;
+
+  const used = await countSeats(organizationId, resource);
+  if (evaluateSeatLimit(used, limit).state === 'hard') {
+    throw new EntitlementError(
+      resource,
+      `Your ${entitlements.plan.label} plan allows ${limit} ${SEAT_LABELS[resource]} and you have ${used}. Remove one or upgrade your plan to add more.`
+    );
+  }
+}
+
+/**
+ * Seat and usage limits for the settings page
+ */
+export async function getUsageLimits(organizationId: string): Promise<UsageLimits> {
+  const entitlements = await getEntitlements(organizationId);
+  const period = getBillingPeriod();
+
+  const [users, providers, whatsappInstances, periodUsage] = await Promise.all([
+    countSeats(organizationId, 'users'),
+    countSeats(organizationId, 'providers'),
+    countSeats(organizationId, 'whatsapp_instances'),
+    getPeriodUsage(organizationId, period),
+  ]);
+
+  const overage = allowsOverage(entitlements);
+  const { quotas } = entitlements.plan;
+
+  return {
+    entitlements,
+    period,
+    seats: {
+      users: evaluateSeatLimit(users, entitlements.seatLimits.users),
+      providers: evaluateSeatLimit(providers, entitlements.seatLimits.providers),
+      whatsapp_instances: evaluateSeatLimit(whatsappInstances, entitlements.seatLimits.whatsapp_instances),
+    },
+    usage: {
+      call_minutes: evaluateUsageLimit(periodUsage.totals.call_minutes, quotas.call_minutes, overage),
+      messages: evaluateUsageLimit(periodUsage.totals.messages, quotas.messages, overage),
+      llm_tokens: evaluateUsageLimit(periodUsage.totals.llm_tokens, quotas.llm_tokens, overage),
+    },
+    estimatedTokens: periodUsage.estimatedTokens,
+    lastMeteredAt: periodUsage.lastMeteredAt,
+  };
+}
+
+/**
+ * Whether the agents may answer a text channel: null when they may, otherwise
+ * why not (account blocked or a metered quota hard-limited). Fails open, so a
+ * database hiccup doesn't silence the agents.
+ */
+export async function getAgentBlockReason(organizationId: string): Promise<string | null> {
+  try {
+    const entitlements = await getEntitlements(organizationId);
+    if (isAccountBlocked(entitlements.accountState)) {
+      return accountBlockedMessage(entitlements);
+    }
+    if (allowsOverage(entitlements)) return null;
+
+    const { totals } = await getPeriodUsage(organizationId);
+    const { quotas } = entitlements.plan;
+    for (const metric of Object.keys(quotas) as UsageMetric[]) {
+      if (evaluateUsageLimit(totals[metric], quotas[metric], false).state === 'hard') {
+        return `Monthly ${METRIC_LABELS[metric]} limit of the ${entitlements.plan.label} plan reached`;
+      }
+    }
+    return null;
+  } catch (error: any) {
+    console.error('[Entitlements] Usage check failed:', error.message);
+    return null;
+  }
+}
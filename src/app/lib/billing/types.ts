@@ -0,0 +1,62 @@
+/**
+ * Plan Entitlement & Usage Types
+ */
+
+export type PlanId = 'free' | 'starter' | 'professional' | 'enterprise';
+
+/** Things an organization has a number of (limits from the organizations row) */
+export type SeatResource = 'users' | 'providers' | 'whatsapp_instances';
+
+/** Things metered per billing period into usage_ledger */
+export type UsageMetric = 'call_minutes' | 'messages' | 'llm_tokens';
+
+/**
+ * active/trial: everything allowed within limits
+ * trial_expired, suspended, cancelled: nothing new can be added and the
+ * agents stop answering text channels
+ */
+export type AccountState = 'active' | 'trial' | 'trial_expired' | 'suspended' | 'cancelled';
+
+export interface PlanDefinition {
+  id: PlanId;
+  label: string;
+  /** Monthly quota per metric, null = unlimited */
+  quotas: Record<UsageMetric, number | null>;
+  /** Usage past the quota is billed as overage instead of being blocked */
+  overageAllowed: boolean;
+}
+
+/**
+ * ok    under the soft limit
+ * soft  past the warning threshold, or over quota on a plan with overage
+ * hard  nothing more can be added / used until the limit changes
+ */
+export type LimitState = 'ok' | 'soft' | 'hard';
+
+export interface LimitStatus {
+  used: number;
+  limit: number | null;
+  /** used / limit, null when unlimited */
+  ratio: number | null;
+  state: LimitState;
+  /** Usage past the quota billed as overage (metered limits only) */
+  overage: number;
+}
+
+export interface Entitlements {
+  organizationId: string;
+  plan: PlanDefinition;
+  accountState: AccountState;
+  trialEndsAt: string | null;
+  seatLimits: Record<SeatResource, number | null>;
+}
+
+export class EntitlementError extends Error {
+  constructor(
+    public resource: SeatResource | UsageMetric | 'account',
+    message: string
+  ) {
+    super(message);
+    this.name = 'EntitlementError';
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Usage Metering
+ *
+ * Rebuilds usage_ledger rows (one per organization, metric and UTC day) from
+ * the conversation tables:
+ *   call_minutes  voice conversations: call duration (Retell) or first to last activity
+ *   messages      messages in SMS, WhatsApp and web conversations
+ *   llm_tokens    Retell's llm_token_usage; other conversations are estimated
+ *                 from their messages and function calls (~4 characters a token)
+ *
+ * Days are UTC. Calls and Retell's token usage count on the day the call
+ * started; messages and function calls on the day they were written, since an
+ * SMS or WhatsApp thread stays one conversation for months. Metering a day
+ * again replaces its rows, so the worker can re-meter recent days safely.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import type { UsageMetric } from './types';
+
+export const USAGE_METRICS: UsageMetric[] = ['call_minutes', 'messages', 'llm_tokens'];
+
+const TEXT_CHANNELS = ['sms', 'whatsapp', 'web'];
+const CHARS_PER_TOKEN = 4;
+/** The worker re-meters yesterday as well, for calls that ended (and were reported) after midnight */
+const DEFAULT_LOOKBACK_DAYS = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONVERSATION_COLUMNS = 'id, channel, duration_ms, llm_token_usage, created_at, updated_at';
+const PAGE_SIZE = 1000;
+const ID_CHUNK = 200;
+
+/** Calendar month in UTC, both dates inclusive (YYYY-MM-DD) */
+export interface BillingPeriod {
+  start: string;
+  end: string;
+}
+
+export interface MeteredConversation {
+  id: string;
+  channel: string | null;
+  duration_ms: number | null;
+  llm_token_usage: { values?: number[]; average?: number; num_requests?: number } | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MeteredMessage {
+  conversation_id: string;
+  content: string | null;
+}
+
+export interface MeteredFunctionCall {
+  conversation_id: string;
+  parameters: unknown;
+  result: unknown;
+}
+
+export interface DayUsage {
+  usageDate: string;
+  conversations: number;
+  callMinutes: number;
+  voiceConversations: number;
+  messages: number;
+  textConversations: number;
+  llmTokens: number;
+  /** Part of llmTokens estimated from transcripts */
+  estimatedTokens: number;
+}
+
+export interface MeteringResult {
+  processed: number;
+  failed: number;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getBillingPeriod(now: Date = new Date()): BillingPeriod {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
+  return { start: toDateString(start), end: toDateString(end) };
+}
+
+function isTextConversation(conversation: MeteredConversation): boolean {
+  return TEXT_CHANNELS.includes(conversation.channel || 'voice');
+}
+
+/**
+ * Tokens Retell reported for the call, or null when it reported none
+ */
+export function reportedTokens(usage: MeteredConversation['llm_token_usage']): number | null {
+  if (!usage) return null;
+  if (Array.isArray(usage.values) && usage.values.length > 0) {
+    return usage.values.reduce((sum, value) => sum + (Number(value) || 0), 0);
+  }
+  if (usage.average && usage.num_requests) {
+    return Math.round(usage.average * usage.num_requests);
+  }
+  return null;
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Usage for one day.
+ * @param conversations the conversations that started that day, plus those
+ *   the day's messages and function calls belong to
+ * @param messages conversation_messages written that day
+ * @param functionCalls function_calls made that day
+ */
+export function summarizeDayUsage(
+  usageDate: string,
+  conversations: MeteredConversation[],
+  messages: MeteredMessage[],
+  functionCalls: MeteredFunctionCall[]
+): DayUsage {
+  const usage: DayUsage = {
+    usageDate,
+    conversations: 0,
+    callMinutes: 0,
+    voiceConversations: 0,
+    messages: 0,
+    textConversations: 0,
+    llmTokens: 0,
+    estimatedTokens: 0,
+  };
+
+  const byId = new Map(conversations.map(c => [c.id, c]));
+  const active = new Set<string>();
+  const textActive = new Set<string>();
+  const hasReportedTokens = (conversationId: string) => {
+    const conversation = byId.get(conversationId);
+    return conversation ? reportedTokens(conversation.llm_token_usage) !== null : false;
+  };
+
+  let callMs = 0;
+  for (const conversation of conversations) {
+    if (toDateString(new Date(conversation.created_at)) !== usageDate) continue;
+    active.add(conversation.id);
+
+    if (!isTextConversation(conversation)) {
+      usage.voiceConversations++;
+      callMs += conversation.duration_ms
+        ?? Math.max(0, new Date(conversation.updated_at).getTime() - new Date(conversation.created_at).getTime());
+    }
+    const reported = reportedTokens(conversation.llm_token_usage);
+    if (reported !== null) {
+      usage.llmTokens += reported;
+    }
+  }
+  usage.callMinutes = Math.round((callMs / 60000) * 100) / 100;
+
+  let estimatedChars = 0;
+  for (const message of messages) {
+    active.add(message.conversation_id);
+    const conversation = byId.get(message.conversation_id);
+    if (conversation && isTextConversation(conversation)) {
+      usage.messages++;
+      textActive.add(message.conversation_id);
+    }
+    if (!hasReportedTokens(message.conversation_id)) {
+      estimatedChars += (message.content || '').length;
+    }
+  }
+  for (const call of functionCalls) {
+    active.add(call.conversation_id);
+    if (!hasReportedTokens(call.conversation_id)) {
+      estimatedChars += stringify(call.parameters).length + stringify(call.result).length;
+    }
+  }
+
+  usage.estimatedTokens = Math.ceil(estimatedChars / CHARS_PER_TOKEN);
+  usage.llmTokens += usage.estimatedTokens;
+  usage.conversations = active.size;
+  usage.textConversations = textActive.size;
+
+  return usage;
+}
+
+function dayRange(usageDate: string): { start: string; end: string } {
+  const start = new Date(`${usageDate}T00:00:00Z`);
+  return { start: start.toISOString(), end: new Date(start.getTime() + DAY_MS).toISOString() };
+}
+
+/**
+ * Every row of `table` the organization wrote on a UTC day
+ */
+async function loadDayRows<T>(table: string, columns: string, organizationId: string, usageDate: string): Promise<T[]> {
+  const supabase = getSupabaseAdmin();
+  const { start, end } = dayRange(usageDate);
+
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('organization_id', organizationId)
+      .gte('created_at', start)
+      .lt('created_at', end)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`);
+    }
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function loadConversationsById(ids: string[]): Promise<MeteredConversation[]> {
+  const supabase = getSupabaseAdmin();
+  const rows: MeteredConversation[] = [];
+
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS)
+      .in('id', ids.slice(i, i + ID_CHUNK));
+
+    if (error) {
+      throw new Error(`Failed to load conversations: ${error.message}`);
+    }
+    rows.push(...((data || []) as MeteredConversation[]));
+  }
+  return rows;
+}
+
+/**
+ * Meter one UTC day for an organization and write its ledger rows
+ */
+export async function meterDay(organizationId: string, usageDate: string): Promise<DayUsage> {
+  const [started, messages, functionCalls] = await Promise.all([
+    loadDayRows<MeteredConversation>('conversations', CONVERSATION_COLUMNS, organizationId, usageDate),
+    loadDayRows<MeteredMessage>('conversation_messages', 'conversation_id, content', organizationId, usageDate),
+    loadDayRows<MeteredFunctionCall>('function_calls', 'conversation_id, parameters, result', organizationId, usageDate),
+  ]);
+
+  // Threads that started on an earlier day: needed for their channel and token reporting
+  const known = new Set(started.map(c => c.id));
+  const earlierIds = Array.from(new Set(
+    [...messages, ...functionCalls].map(row => row.conversation_id).filter(id => !known.has(id))
+  ));
+  const conversations = [...started, ...(await loadConversationsById(earlierIds))];
+
+  const usage = summarizeDayUsage(usageDate, conversations, messages, functionCalls);
+  const meteredAt = new Date().toISOString();
+
+  const { error } = await getSupabaseAdmin()
+    .from('usage_ledger')
+    .upsert([
+      {
+        organization_id: organizationId,
+        metric: 'call_minutes',
+        usage_date: usageDate,
+        quantity: usage.callMinutes,
+        conversation_count: usage.voiceConversations,
+        metadata: {},
+        metered_at: meteredAt,
+      },
+      {
+        organization_id: organizationId,
+        metric: 'messages',
+        usage_date: usageDate,
+        quantity: usage.messages,
+        conversation_count: usage.textConversations,
+        metadata: {},
+        metered_at: meteredAt,
+      },
+      {
+        organization_id: organizationId,
+        metric: 'llm_tokens',
+        usage_date: usageDate,
+        quantity: usage.llmTokens,
+        conversation_count: usage.conversations,
+        metadata: { estimated: usage.estimatedTokens },
+        metered_at: meteredAt,
+      },
+    ], { onConflict: 'organization_id,metric,usage_date' });
+
+  if (error) {
+    throw new Error(`Failed to write usage ledger: ${error.message}`);
+  }
+
+  return usage;
+}
+
+/**
+ * Meter every day from `from` through `to` (UTC). Defaults to yesterday and today.
+ */
+export async function meterUsage(
+  organizationId: string,
+  options: { from?: string; to?: string } = {}
+): Promise<DayUsage[]> {
+  const today = toDateString(new Date());
+  const to = options.to ?? today;
+  const from = options.from ?? toDateString(new Date(new Date(`${to}T00:00:00Z`).getTime() - DEFAULT_LOOKBACK_DAYS * DAY_MS));
+
+  const days: DayUsage[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); toDateString(day) <= to; day = new Date(day.getTime() + DAY_MS)) {
+    days.push(await meterDay(organizationId, toDateString(day)));
+  }
+  return days;
+}
+
+/**
+ * Worker entry point: recent days for every organization that isn't cancelled.
+ * One organization failing doesn't stop the others.
+ */
+export async function meterAllOrganizations(): Promise<MeteringResult> {
+  const result: MeteringResult = { processed: 0, failed: 0 };
+
+  const { data: organizations, error } = await getSupabaseAdmin()
+    .from('organizations')
+    .select('id')
+    .neq('status', 'cancelled');
+
+  if (error) {
+    throw new Error(`Failed to load organizations: ${error.message}`);
+  }
+
+  for (const organization of organizations || []) {
+    try {
+      await meterUsage(organization.id);
+      result.processed++;
+    } catch (orgError: any) {
+      console.error(`[Usage Metering] Run failed for organization ${organization.id}:`, orgError.message);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Ledger totals per metric for a billing period
+ */
+export async function getPeriodUsage(
+  organizationId: string,
+  period: BillingPeriod = getBillingPeriod()
+): Promise<{ totals: Record<UsageMetric, number>; estimatedTokens: number; lastMeteredAt: string | null }> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('usage_ledger')
+    .select('metric, quantity, metadata, metered_at')
+    .eq('organization_id', organizationId)
+    .gte('usage_date', period.start)
+    .lte('usage_date', period.end);
+
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+
+  const totals: Record<UsageMetric, number> = { call_minutes: 0, messages: 0, llm_tokens: 0 };
+  let estimatedTokens = 0;
+  let lastMeteredAt: string | null = null;
+  for (const row of data || []) {
+    const metric = row.metric as UsageMetric;
+    totals[metric] += Number(row.quantity) || 0;
+    if (metric === 'llm_tokens') estimatedTokens += Number(row.metadata?.estimated) || 0;
+    if (!lastMeteredAt || row.metered_at > lastMeteredAt) lastMeteredAt = row.metered_at;
+  }
+  totals.call_minutes = Math.round(totals.call_minutes * 100) / 100;
+
+  return { totals, estimatedTokens, lastMeteredAt };
+}
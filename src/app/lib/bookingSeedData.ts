@@ -0,0 +1,98 @@
+/**
+ * Sample Practice Data
+ *
+ * The providers, operatories, schedules, patients and appointments used by
+ * scripts/seed-booking-data.ts and by the local OpenDental simulator, so both
+ * describe the same practice.
+ */
+
+export interface SeedProvider {
+  first_name: string;
+  last_name: string;
+  specialty_tags: string[];
+}
+
+export interface SeedOperatory {
+  name: string;
+  tags: string[];
+}
+
+export interface SeedWorkingHours {
+  day_of_week: number; // 0 = Sunday
+  start_time: string;  // HH:mm:ss
+  end_time: string;
+}
+
+export interface SeedPatient {
+  first_name: string;
+  last_name: string;
+  phone: string;
+  email: string;
+  date_of_birth: string;
+}
+
+export interface SeedAppointment {
+  patient: number;  // index into SEED_PATIENTS
+  provider: number; // index into SEED_PROVIDERS
+  operatory: number; // index into SEED_OPERATORIES
+  daysFromToday: number;
+  hour: number;
+  minute: number;
+  duration_minutes: number;
+  appointment_type: string;
+  notes: string;
+}
+
+export const SEED_PROVIDERS: SeedProvider[] = [
+  { first_name: 'Sarah', last_name: 'Pearl', specialty_tags: ['General', 'Cosmetic'] },
+  { first_name: 'Michael', last_name: 'Chen', specialty_tags: ['Orthodontics'] },
+  { first_name: 'Emily', last_name: 'Rodriguez', specialty_tags: ['General', 'Hygiene'] },
+  { first_name: 'David', last_name: 'Johnson', specialty_tags: ['Oral Surgery'] },
+];
+
+export const SEED_OPERATORIES: SeedOperatory[] = [
+  { name: 'Room 1', tags: ['General', 'Hygiene'] },
+  { name: 'Room 2', tags: ['General'] },
+  { name: 'Room 3', tags: ['Hygiene'] },
+  { name: 'Room 4', tags: ['General', 'Surgical'] },
+  { name: 'Ortho Room', tags: ['Orthodontics'] },
+  { name: 'Room 5', tags: ['General', 'Hygiene'] },
+];
+
+/** Operatories each provider works in (indexes into SEED_OPERATORIES), by provider index */
+export const SEED_PROVIDER_OPERATORIES: number[][] = [
+  [0, 1], // Dr. Pearl - Rooms 1, 2
+  [4],    // Dr. Chen - Ortho Room
+  [2, 5], // Dr. Rodriguez - Rooms 3, 5
+  [3],    // Dr. Johnson - Room 4
+];
+
+/** Every provider works Monday to Friday, 9 to 5 */
+export const SEED_WORKING_HOURS: SeedWorkingHours[] = [1, 2, 3, 4, 5].map(day_of_week => ({
+  day_of_week,
+  start_time: '09:00:00',
+  end_time: '17:00:00',
+}));
+
+export const SEED_PATIENTS: SeedPatient[] = [
+  { first_name: 'John', last_name: 'Smith', phone: '5551234567', email: 'john.smith@example.com', date_of_birth: '1985-05-15' },
+  { first_name: 'Jane', last_name: 'Doe', phone: '5552345678', email: 'jane.doe@example.com', date_of_birth: '1990-08-22' },
+  { first_name: 'Robert', last_name: 'Johnson', phone: '5553456789', email: 'robert.j@example.com', date_of_birth: '1978-12-03' },
+  { first_name: 'Maria', last_name: 'Garcia', phone: '5554567890', email: 'maria.garcia@example.com', date_of_birth: '1992-03-18' },
+];
+
+export const SEED_APPOINTMENTS: SeedAppointment[] = [
+  { patient: 0, provider: 0, operatory: 0, daysFromToday: 1, hour: 10, minute: 0, duration_minutes: 30, appointment_type: 'Cleaning', notes: 'Regular cleaning appointment' },
+  { patient: 1, provider: 0, operatory: 1, daysFromToday: 2, hour: 14, minute: 30, duration_minutes: 30, appointment_type: 'Checkup', notes: 'Annual checkup' },
+  { patient: 2, provider: 1, operatory: 4, daysFromToday: 7, hour: 9, minute: 0, duration_minutes: 30, appointment_type: 'Consultation', notes: 'Braces consultation' },
+];
+
+/**
+ * Local start time of a seed appointment relative to `from`
+ */
+export function seedAppointmentStart(appointment: SeedAppointment, from: Date = new Date()): Date {
+  const start = new Date(from);
+  start.setDate(start.getDate() + appointment.daysFromToday);
+  start.setHours(appointment.hour, appointment.minute, 0, 0);
+  return start;
+}
@@ -8,6 +8,7 @@
  * - Channel-specific settings
  */
 
+import { isTextBackend } from './llm/gateway';
 import { getSupabaseAdmin } from './supabaseClient';
 
 export type ChannelType = 'twilio' | 'retell' | 'whatsapp' | 'web';
@@ -208,6 +209,21 @@ export function isRealtimeBackend(backend: AIBackend): boolean {
   return backend === 'openai_realtime';
 }
 
+/**
+ * Backend for a channel's text (non-realtime) agent and its fallback.
+ * Voice channels run on the realtime backend, so their SMS / supervisor
+ * agent uses settings.text_ai_backend (default GPT-4o).
+ * settings.fallback_ai_backend is tried when the backend errors or times out.
+ */
+export function getTextRouting(config: ChannelConfig): { backend: AIBackend; fallbackBackend?: AIBackend } {
+  const pick = (value: unknown): AIBackend | undefined => (isTextBackend(value) ? value : undefined);
+
+  const backend = pick(config.settings?.text_ai_backend) ?? pick(config.ai_backend) ?? 'openai_gpt4o';
+  const fallbackBackend = pick(config.settings?.fallback_ai_backend);
+
+  return { backend, fallbackBackend: fallbackBackend !== backend ? fallbackBackend : undefined };
+}
+
 /**
  * Clear cache for an organization (call after config updates)
  */
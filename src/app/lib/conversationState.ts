@@ -10,11 +10,14 @@
  * 
  * Uses hybrid storage:
  * - In-memory Map for fast reads during active conversations
+ * - Shared state store (lib/state) so every instance sees the live state;
+ *   call loadState() before reading and flushState() before handing off
  * - Supabase for persistence (async writes, sync reads for admin)
  */
 
 import { db } from './db';
 import { getSupabaseAdmin, getSupabaseWithOrg } from './supabaseClient';
+import { getStateStore, updateState } from './state/stateStore';
 
 // ============================================
 // TYPES
@@ -377,6 +380,14 @@ export function extractIntent(text: string): ConversationState['intent'] {
 // In-memory store for fast reads during active conversations
 const conversationStates = new Map<string, ConversationState>();
 
+// Shared copy in the state store, written through on every change
+const STATE_NAMESPACE = 'conversation';
+const STATE_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Writes per session, chained so they reach the store in order
+const pendingWrites = new Map<string, Promise<void>>();
+
 // Track Supabase conversation IDs for persistence
 const sessionToDbId = new Map<string, string>();
 
@@ -587,6 +598,116 @@ async function persistFunctionCallToSupabase(
   }
 }
 
+// ============================================
+// SHARED STATE (write-through, optimistic concurrency)
+// ============================================
+
+function newConversationState(sessionId: string): ConversationState {
+  return {
+    sessionId,
+    channel: detectChannelFromSessionId(sessionId),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    patient: {},
+    appointment: {},
+    stage: 'greeting',
+    missingRequired: [],
+    messages: [],
+    functionCalls: [],
+  };
+}
+
+/**
+ * Restore Dates after a JSON round trip through the store
+ */
+function reviveState(stored: ConversationState): ConversationState {
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+    messages: (stored.messages || []).map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+    functionCalls: (stored.functionCalls || []).map(c => ({ ...c, timestamp: new Date(c.timestamp) })),
+  };
+}
+
+/**
+ * Queue a change for the shared store. `mutate` is re-applied to the latest
+ * stored state, so it may run more than once (on a version conflict) and
+ * must only depend on its argument and values captured up front.
+ */
+function queueStateWrite(sessionId: string, mutate: (state: ConversationState) => void): Promise<void> {
+  const previous = pendingWrites.get(sessionId) || Promise.resolve();
+  const write = previous
+    .then(async () => {
+      const stored = await updateState<ConversationState>(getStateStore(), STATE_NAMESPACE, sessionId, current => {
+        const state = current ? reviveState(current) : newConversationState(sessionId);
+        mutate(state);
+        return state;
+      }, STATE_TTL_MS);
+
+      // Pick up changes made by other instances unless more local writes are queued
+      if (pendingWrites.get(sessionId) === write && conversationStates.has(sessionId)) {
+        conversationStates.set(sessionId, reviveState(stored.value));
+      }
+    })
+    .catch((err) => console.error('[ConversationState] Shared state write failed:', err))
+    .finally(() => {
+      if (pendingWrites.get(sessionId) === write) pendingWrites.delete(sessionId);
+    });
+
+  pendingWrites.set(sessionId, write);
+  return write;
+}
+
+/**
+ * Apply a change to the local state and write it through to the shared store.
+ * Await it when another instance has to see the change next (e.g. a slot
+ * chosen on the websocket server before the booking API auto-fills it).
+ */
+export function updateConversationState(
+  sessionId: string,
+  mutate: (state: ConversationState) => void
+): Promise<void> {
+  const state = getOrCreateState(sessionId);
+  mutate(state);
+  return queueStateWrite(sessionId, mutate);
+}
+
+/**
+ * Load the latest shared state into the local cache. Call at the start of a
+ * request or turn that may follow writes from another instance.
+ */
+export async function loadState(sessionId: string): Promise<ConversationState> {
+  await flushState(sessionId);
+  try {
+    const stored = await getStateStore().get<ConversationState>(STATE_NAMESPACE, sessionId);
+    if (stored) {
+      conversationStates.set(sessionId, reviveState(stored.value));
+    }
+  } catch (error) {
+    console.error('[ConversationState] Failed to load shared state, using local copy:', error);
+  }
+  return getOrCreateState(sessionId);
+}
+
+/**
+ * Wait until this instance's changes for the session are in the shared store
+ */
+export async function flushState(sessionId: string): Promise<void> {
+  await pendingWrites.get(sessionId);
+}
+
+// Drop local copies idle past the TTL; the shared store expires its own
+const localCleanup = setInterval(() => {
+  const cutoff = Date.now() - STATE_TTL_MS;
+  for (const [sessionId, state] of conversationStates.entries()) {
+    if (state.updatedAt.getTime() < cutoff && !pendingWrites.has(sessionId)) {
+      conversationStates.delete(sessionId);
+    }
+  }
+}, CLEANUP_INTERVAL_MS);
+localCleanup.unref?.();
+
 /**
  * Detect channel from session ID prefix
  */
@@ -603,22 +724,12 @@ function detectChannelFromSessionId(sessionId: string): 'voice' | 'sms' | 'whats
  */
 export function getOrCreateState(sessionId: string): ConversationState {
   if (!conversationStates.has(sessionId)) {
-    const channel = detectChannelFromSessionId(sessionId);
-    
-    const newState: ConversationState = {
-      sessionId,
-      channel,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      patient: {},
-      appointment: {},
-      stage: 'greeting',
-      missingRequired: [],
-      messages: [],
-      functionCalls: [],
-    };
+    const newState = newConversationState(sessionId);
     conversationStates.set(sessionId, newState);
     
+    // Create the shared copy if no other instance has (keeps theirs otherwise)
+    queueStateWrite(sessionId, () => {});
+    
     // Persist to Supabase asynchronously
     persistConversationToSupabase(newState).catch(() => {});
   }
@@ -633,7 +744,6 @@ export function getOrCreateState(sessionId: string): ConversationState {
  */
 export function processMessage(sessionId: string, message: string, role: 'user' | 'assistant' = 'user'): ConversationState {
   const state = getOrCreateState(sessionId);
-  state.updatedAt = new Date();
   
   // Ensure role is never null/undefined
   const safeRole = role || 'user';
@@ -644,70 +754,17 @@ export function processMessage(sessionId: string, message: string, role: 'user'
     timestamp: new Date(),
   };
   
-  // Store message in history (for LLM extraction fallback)
-  state.messages.push(newMessage);
+  // Applied locally now and to the shared copy when the write runs
+  const applyMessage = (target: ConversationState) => {
+    target.updatedAt = new Date();
+    // Store message in history (for LLM extraction fallback)
+    target.messages.push(target === state ? newMessage : { ...newMessage });
+    return role === 'user' ? applyExtractedInfo(target, message) : {};
+  };
   
   // Track what we extract for Supabase
-  const extractedData: Record<string, any> = {};
-  
-  // Only extract from user messages
-  if (role === 'user') {
-    // Extract all possible information from the message
-    const nameInfo = extractPatientName(message);
-    if (nameInfo.firstName) {
-      state.patient.firstName = nameInfo.firstName;
-      extractedData.firstName = nameInfo.firstName;
-    }
-    if (nameInfo.lastName) {
-      state.patient.lastName = nameInfo.lastName;
-      extractedData.lastName = nameInfo.lastName;
-    }
-    
-    const phone = extractPhoneNumber(message);
-    if (phone) {
-      state.patient.phone = phone;
-      extractedData.phone = phone;
-    }
-    
-    const birthdate = extractBirthdate(message);
-    if (birthdate) {
-      state.patient.birthdate = birthdate;
-      extractedData.birthdate = birthdate;
-    }
-    
-    const aptType = extractAppointmentType(message);
-    if (aptType) {
-      state.appointment.type = aptType;
-      extractedData.appointmentType = aptType;
-    }
-    
-    const datePreference = extractDatePreference(message);
-    if (datePreference) {
-      state.appointment.preferredDate = datePreference;
-      extractedData.preferredDate = datePreference;
-    }
-    
-    const timePreference = extractTimePreference(message);
-    if (timePreference) {
-      state.appointment.preferredTime = timePreference;
-      extractedData.preferredTime = timePreference;
-    }
-    
-    const intent = extractIntent(message);
-    if (intent !== 'unknown' || !state.intent) {
-      state.intent = intent;
-      extractedData.intent = intent;
-    }
-    
-    // Check for "new patient" indication
-    if (message.toLowerCase().includes('new patient') || message.toLowerCase().includes("i'm new")) {
-      state.patient.isNewPatient = true;
-      extractedData.isNewPatient = true;
-    }
-    
-    // Update missing required based on intent
-    updateMissingRequired(state);
-  }
+  const extractedData = applyMessage(state);
+  queueStateWrite(sessionId, applyMessage);
   
   // Persist to Supabase asynchronously
   // IMPORTANT: Persist conversation FIRST, then messages (messages need conversation_id)
@@ -719,6 +776,72 @@ export function processMessage(sessionId: string, message: string, role: 'user'
   return state;
 }
 
+/**
+ * Apply what a user message tells us (name, phone, dates, intent) to the state
+ * and return the extracted fields
+ */
+function applyExtractedInfo(state: ConversationState, message: string): Record<string, any> {
+  const extractedData: Record<string, any> = {};
+  
+  // Extract all possible information from the message
+  const nameInfo = extractPatientName(message);
+  if (nameInfo.firstName) {
+    state.patient.firstName = nameInfo.firstName;
+    extractedData.firstName = nameInfo.firstName;
+  }
+  if (nameInfo.lastName) {
+    state.patient.lastName = nameInfo.lastName;
+    extractedData.lastName = nameInfo.lastName;
+  }
+  
+  const phone = extractPhoneNumber(message);
+  if (phone) {
+    state.patient.phone = phone;
+    extractedData.phone = phone;
+  }
+  
+  const birthdate = extractBirthdate(message);
+  if (birthdate) {
+    state.patient.birthdate = birthdate;
+    extractedData.birthdate = birthdate;
+  }
+  
+  const aptType = extractAppointmentType(message);
+  if (aptType) {
+    state.appointment.type = aptType;
+    extractedData.appointmentType = aptType;
+  }
+  
+  const datePreference = extractDatePreference(message);
+  if (datePreference) {
+    state.appointment.preferredDate = datePreference;
+    extractedData.preferredDate = datePreference;
+  }
+  
+  const timePreference = extractTimePreference(message);
+  if (timePreference) {
+    state.appointment.preferredTime = timePreference;
+    extractedData.preferredTime = timePreference;
+  }
+  
+  const intent = extractIntent(message);
+  if (intent !== 'unknown' || !state.intent) {
+    state.intent = intent;
+    extractedData.intent = intent;
+  }
+  
+  // Check for "new patient" indication
+  if (message.toLowerCase().includes('new patient') || message.toLowerCase().includes("i'm new")) {
+    state.patient.isNewPatient = true;
+    extractedData.isNewPatient = true;
+  }
+  
+  // Update missing required based on intent
+  updateMissingRequired(state);
+  
+  return extractedData;
+}
+
 /**
  * Update the list of missing required parameters
  */
@@ -764,14 +887,20 @@ export function recordFunctionCall(
   error?: string,
   autoFilledParams: Record<string, any> = {}
 ): void {
-  const state = getOrCreateState(sessionId);
-  state.functionCalls.push({
-    timestamp: new Date(),
-    functionName,
-    parameters,
-    result,
-    error,
-  });
+  const timestamp = new Date();
+  updateConversationState(sessionId, state => applyFunctionCall(state, { timestamp, functionName, parameters, result, error }));
+  
+  // Persist to Supabase asynchronously
+  persistFunctionCallToSupabase(sessionId, functionName, parameters, result, error, autoFilledParams).catch(() => {});
+  persistConversationToSupabase(getOrCreateState(sessionId)).catch(() => {});
+}
+
+/**
+ * Append a function call and update patient/appointment state from its result
+ */
+function applyFunctionCall(state: ConversationState, call: ConversationState['functionCalls'][number]): void {
+  const { functionName, result, error } = call;
+  state.functionCalls.push({ ...call });
   
   // Update state based on function results
   if (result && !error) {
@@ -810,10 +939,6 @@ export function recordFunctionCall(
   }
   
   state.updatedAt = new Date();
-  
-  // Persist to Supabase asynchronously
-  persistFunctionCallToSupabase(sessionId, functionName, parameters, result, error, autoFilledParams).catch(() => {});
-  persistConversationToSupabase(state).catch(() => {});
 }
 
 /**
@@ -899,6 +1024,10 @@ export function getAutoFilledParameters(
  */
 export function clearState(sessionId: string): void {
   conversationStates.delete(sessionId);
+  const previous = pendingWrites.get(sessionId) || Promise.resolve();
+  previous
+    .then(() => getStateStore().delete(STATE_NAMESPACE, sessionId))
+    .catch((err) => console.error('[ConversationState] Failed to clear shared state:', err));
 }
 
 /**
@@ -925,6 +1054,10 @@ export function addMessage(sessionId: string, role: 'user' | 'assistant' | 'syst
   };
   state.messages.push(newMessage);
   state.updatedAt = new Date();
+  queueStateWrite(sessionId, target => {
+    target.messages.push({ ...newMessage });
+    target.updatedAt = new Date();
+  });
   
   // Persist to Supabase asynchronously
   // IMPORTANT: Persist conversation FIRST, then messages (messages need conversation_id)
@@ -991,6 +1124,7 @@ export function getConversationsByDate(date: string): ConversationState[] {
  */
 export interface ConversationExport {
   sessionId: string;
+  conversationId?: string;  // Database id (not set for in-memory conversations)
   createdAt: string;
   updatedAt: string;
   intent: string;
@@ -1002,12 +1136,14 @@ export interface ConversationExport {
   appointmentDate: string;
   messageCount: number;
   messages: Array<{
+    id?: string;
     role: string;
     content: string;
     timestamp: string;
   }>;
   functionCallCount: number;
   functionCalls: Array<{
+    id?: string;
     timestamp: string;
     functionName: string;
     parameters: Record<string, any>;
@@ -1176,6 +1312,7 @@ export async function getConversationsFromSupabase(date: string, organizationId?
       
       exports.push({
         sessionId: conv.session_id,
+        conversationId: conv.id,
         createdAt: conv.created_at,
         updatedAt: conv.updated_at,
         intent: conv.intent || 'unknown',
@@ -1187,6 +1324,7 @@ export async function getConversationsFromSupabase(date: string, organizationId?
         appointmentDate: conv.appointment_info?.selectedSlot?.dateTime || conv.appointment_info?.preferredDate || '',
         messageCount: messages?.length || 0,
         messages: (messages || []).map((m: any) => ({
+          id: m.id,
           role: m.role,
           content: m.content,
           timestamp: m.created_at,
@@ -1203,6 +1341,7 @@ export async function getConversationsFromSupabase(date: string, organizationId?
             }
           }
           return {
+            id: fc.id,
             timestamp: fc.created_at,
             functionName: fc.function_name,
             parameters: fc.parameters || {},
@@ -1304,6 +1443,7 @@ export async function getAllConversationsFromSupabase(organizationId?: string):
       
       exports.push({
         sessionId: conv.session_id,
+        conversationId: conv.id,
         createdAt: conv.created_at,
         updatedAt: conv.updated_at,
         intent: conv.intent || 'unknown',
@@ -1315,6 +1455,7 @@ export async function getAllConversationsFromSupabase(organizationId?: string):
         appointmentDate: conv.appointment_info?.selectedSlot?.dateTime || conv.appointment_info?.preferredDate || '',
         messageCount: messages?.length || 0,
         messages: (messages || []).map((m: any) => ({
+          id: m.id,
           role: m.role,
           content: m.content,
           timestamp: m.created_at,
@@ -1331,6 +1472,7 @@ export async function getAllConversationsFromSupabase(organizationId?: string):
             }
           }
           return {
+            id: fc.id,
             timestamp: fc.created_at,
             functionName: fc.function_name,
             parameters: fc.parameters || {},
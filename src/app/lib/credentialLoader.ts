@@ -3,9 +3,11 @@
  * 
  * Centralized service for loading API credentials from database
  * Falls back to environment variables if database credentials not available
+ * Secrets are decrypted through the credential vault (see credentials/vault.ts)
  */
 
 import { getSupabaseAdmin } from './supabaseClient';
+import { CREDENTIAL_COLUMNS, openCredentials, type CredentialRow } from './credentials/vault';
 
 export type CredentialType = 'openai' | 'anthropic' | 'twilio' | 'evolution_api' | 'opendental' | 'retell' | 'google_calendar' | 'other';
 
@@ -50,7 +52,7 @@ export async function getCredentials(
     // Try org credential first
     let { data, error } = await supabase
       .from('api_credentials')
-      .select('credentials')
+      .select(CREDENTIAL_COLUMNS)
       .eq('organization_id', organizationId)
       .eq('credential_type', credentialType)
       .eq('is_active', true)
@@ -61,7 +63,7 @@ export async function getCredentials(
     if ((error || !data?.credentials) && !['google_calendar'].includes(credentialType)) {
       const { data: systemData } = await supabase
         .from('api_credentials')
-        .select('credentials')
+        .select(CREDENTIAL_COLUMNS)
         .is('organization_id', null)
         .eq('credential_type', credentialType)
         .eq('is_active', true)
@@ -73,17 +75,18 @@ export async function getCredentials(
     }
 
     if (!error && data?.credentials) {
+      const credentials = await openCredentials(data as CredentialRow, { accessedBy: 'credentialLoader.getCredentials' });
       console.log(`[Credentials] ✅ Loaded ${credentialType} from database for org ${organizationId}`);
       
       // Cache the result
       credentialCache.set(cacheKey, {
-        data: data.credentials as Credentials,
+        data: credentials,
         timestamp: Date.now(),
         organizationId,
         credentialType,
       });
       
-      return data.credentials as Credentials;
+      return credentials;
     }
   } catch (error) {
     console.warn(`[Credentials] Database lookup failed for ${credentialType}, using env vars:`, error);
@@ -125,8 +128,9 @@ function getEnvironmentCredentials(credentialType: CredentialType): Credentials
 
     case 'opendental':
       return {
-        api_url: process.env.OPENDENTAL_API_URL || '',
+        api_url: process.env.OPENDENTAL_API_BASE_URL || process.env.OPENDENTAL_API_URL || '',
         api_key: process.env.OPENDENTAL_API_KEY || '',
+        mock_mode: process.env.OPENDENTAL_MOCK_MODE || '',
       };
 
     case 'retell':
@@ -216,22 +220,36 @@ export async function getEvolutionAPICredentials(organizationId: string): Promis
 }
 
 /**
- * Get OpenDental credentials (convenience function)
+ * OpenDental connection settings for one organization
+ * developerKey/customerKey form the ODFHIR header; apiKey is a complete
+ * Authorization value kept for credentials saved before the keys were split
  */
-export async function getOpenDentalCredentials(organizationId: string): Promise<{
+export interface OpenDentalCredentials {
   apiUrl: string;
   apiKey: string;
-}> {
+  developerKey: string;
+  customerKey: string;
+  mockMode: boolean;
+}
+
+/**
+ * Get OpenDental credentials (convenience function)
+ */
+export async function getOpenDentalCredentials(organizationId: string): Promise<OpenDentalCredentials> {
   const credentials = await getCredentials(organizationId, 'opendental');
   return {
     apiUrl: credentials.api_url || '',
     apiKey: credentials.api_key || '',
+    developerKey: credentials.developer_key || '',
+    customerKey: credentials.customer_key || '',
+    mockMode: credentials.mock_mode === 'true',
   };
 }
 
 /**
  * Get Google Calendar credentials (convenience function)
  * Merges system-level (client_id, client_secret) with org-level (refresh_token, calendar_id)
+ * Cached like getCredentials; clearCredentialCache drops it too
  */
 export async function getGoogleCalendarCredentials(organizationId: string): Promise<{
   clientId: string;
@@ -239,12 +257,43 @@ export async function getGoogleCalendarCredentials(organizationId: string): Prom
   refreshToken: string;
   calendarId: string;
 }> {
+  const cacheKey = `${organizationId}:google_calendar:merged`;
+  const cached = credentialCache.get(cacheKey);
+  let merged: Credentials;
+
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    merged = cached.data;
+  } else {
+    merged = await loadGoogleCalendarCredentials(organizationId);
+    if (Object.keys(merged).length > 0) {
+      credentialCache.set(cacheKey, {
+        data: merged,
+        timestamp: Date.now(),
+        organizationId,
+        credentialType: 'google_calendar',
+      });
+    }
+  }
+
+  return {
+    clientId: merged.client_id || process.env.GOOGLE_CLIENT_ID || '',
+    clientSecret: merged.client_secret || process.env.GOOGLE_CLIENT_SECRET || '',
+    refreshToken: merged.refresh_token || process.env.GOOGLE_REFRESH_TOKEN || '',
+    calendarId: merged.calendar_id || process.env.GOOGLE_CALENDAR_ID || 'primary',
+  };
+}
+
+/**
+ * Google Calendar fields stored in the database, system and org merged
+ * (without environment fallbacks)
+ */
+async function loadGoogleCalendarCredentials(organizationId: string): Promise<Credentials> {
   const supabase = getSupabaseAdmin();
 
   // System-level: client_id, client_secret (shared OAuth app)
   const { data: systemCred } = await supabase
     .from('api_credentials')
-    .select('credentials')
+    .select(CREDENTIAL_COLUMNS)
     .is('organization_id', null)
     .eq('credential_type', 'google_calendar')
     .eq('is_active', true)
@@ -253,22 +302,28 @@ export async function getGoogleCalendarCredentials(organizationId: string): Prom
   // Org-level: refresh_token, calendar_id (per-org OAuth connection)
   const { data: orgCred } = await supabase
     .from('api_credentials')
-    .select('credentials')
+    .select(CREDENTIAL_COLUMNS)
     .eq('organization_id', organizationId)
     .eq('credential_type', 'google_calendar')
     .eq('is_active', true)
     .eq('is_default', true)
     .maybeSingle();
 
-  const system = (systemCred?.credentials as Record<string, string>) || {};
-  const org = (orgCred?.credentials as Record<string, string>) || {};
-
-  return {
-    clientId: system.client_id || org.client_id || process.env.GOOGLE_CLIENT_ID || '',
-    clientSecret: system.client_secret || org.client_secret || process.env.GOOGLE_CLIENT_SECRET || '',
-    refreshToken: org.refresh_token || process.env.GOOGLE_REFRESH_TOKEN || '',
-    calendarId: org.calendar_id || process.env.GOOGLE_CALENDAR_ID || 'primary',
-  };
+  const access = { accessedBy: 'credentialLoader.getGoogleCalendarCredentials' };
+  const system = systemCred ? await openCredentials(systemCred as CredentialRow, access) : {};
+  const org = orgCred ? await openCredentials(orgCred as CredentialRow, access) : {};
+
+  const merged: Credentials = {};
+  const fields: Array<[string, string | undefined]> = [
+    ['client_id', system.client_id || org.client_id],
+    ['client_secret', system.client_secret || org.client_secret],
+    ['refresh_token', org.refresh_token],
+    ['calendar_id', org.calendar_id],
+  ];
+  for (const [field, value] of fields) {
+    if (value) merged[field] = value;
+  }
+  return merged;
 }
 
 /**
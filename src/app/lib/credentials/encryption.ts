@@ -0,0 +1,141 @@
+/**
+ * Credential Encryption Primitives
+ *
+ * AES-256-GCM for both layers of the envelope: the master key (env) wraps
+ * per-organization data keys, and data keys encrypt credential JSON.
+ * Ciphertext format: "v1:<iv>:<auth tag>:<ciphertext>", base64 parts.
+ *
+ * Master keys come from the environment:
+ *   CREDENTIALS_MASTER_KEY           32 random bytes, base64 (openssl rand -base64 32)
+ *   CREDENTIALS_MASTER_KEY_ID        name of that key (default "k1")
+ *   CREDENTIALS_PREVIOUS_MASTER_KEYS "id:base64,id:base64" - keys being rotated out
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/** Prefix of masked secret values; a value starting with it is never a real secret */
+export const MASK_PREFIX = '••••';
+
+export interface MasterKeys {
+  currentId: string;
+  keys: Map<string, Buffer>;
+}
+
+function decodeKey(id: string, value: string): Buffer {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Master key "${id}" must be ${KEY_BYTES} bytes, base64 encoded`);
+  }
+  return key;
+}
+
+/**
+ * Master keys from the environment. Throws when CREDENTIALS_MASTER_KEY is missing.
+ */
+export function loadMasterKeys(env: Record<string, string | undefined> = process.env): MasterKeys {
+  if (!env.CREDENTIALS_MASTER_KEY) {
+    throw new Error('CREDENTIALS_MASTER_KEY is not set');
+  }
+
+  const currentId = env.CREDENTIALS_MASTER_KEY_ID || 'k1';
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (env.CREDENTIALS_PREVIOUS_MASTER_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const id = entry.slice(0, separator).trim();
+    keys.set(id, decodeKey(id, entry.slice(separator + 1)));
+  }
+  keys.set(currentId, decodeKey(currentId, env.CREDENTIALS_MASTER_KEY));
+
+  return { currentId, keys };
+}
+
+export function generateDataKey(): Buffer {
+  return randomBytes(KEY_BYTES);
+}
+
+export function encrypt(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decrypt(key: Buffer, payload: string, aad: string): Buffer {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized ciphertext format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+/**
+ * Additional authenticated data binding ciphertext to its owner, so a
+ * credential copied into another organization's row fails to decrypt
+ */
+export function credentialAad(organizationId: string | null, credentialType: string): string {
+  return `${organizationId || 'system'}:${credentialType}`;
+}
+
+export function dataKeyAad(organizationId: string | null): string {
+  return `data-key:${organizationId || 'system'}`;
+}
+
+// ============================================
+// MASKING
+// ============================================
+
+export function isSecretField(field: string): boolean {
+  return /key|token|secret|password|sid/i.test(field);
+}
+
+export function isMaskedValue(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(MASK_PREFIX);
+}
+
+export function maskValue(value: string): string {
+  if (!value || isMaskedValue(value)) return value;
+  return value.length >= 12 ? `${MASK_PREFIX}${value.slice(-4)}` : MASK_PREFIX;
+}
+
+/**
+ * Credentials safe to return to the browser: secret fields masked, the rest
+ * (URLs, phone numbers, calendar ids) as stored
+ */
+export function maskCredentials(credentials: Record<string, string> | null | undefined): Record<string, string> {
+  const masked: Record<string, string> = {};
+  for (const [field, value] of Object.entries(credentials || {})) {
+    masked[field] = isSecretField(field) && typeof value === 'string' ? maskValue(value) : value;
+  }
+  return masked;
+}
+
+/**
+ * Credentials submitted from an edit form: masked values the user left alone
+ * are replaced by the stored secret they stand for
+ */
+export function resolveMaskedValues(
+  submitted: Record<string, string>,
+  stored: Record<string, string>
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [field, value] of Object.entries(submitted || {})) {
+    if (isMaskedValue(value)) {
+      if (stored[field] !== undefined) resolved[field] = stored[field];
+    } else {
+      resolved[field] = value;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,272 @@
+/**
+ * Credential Vault
+ *
+ * Envelope encryption for api_credentials. Each organization (and the system
+ * credentials, organization_id NULL) has an active data key, stored wrapped
+ * by the master key; credential JSON is encrypted with the data key into
+ * encrypted_credentials and `credentials` keeps only a masked copy.
+ *
+ * Every decryption is written to credential_access_log with the code path
+ * that asked for it (`accessedBy`). Rows written before encryption existed
+ * are still read as plaintext until rotateCredentialKeys() encrypts them.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import {
+  credentialAad,
+  dataKeyAad,
+  decrypt,
+  encrypt,
+  generateDataKey,
+  loadMasterKeys,
+  maskCredentials,
+} from './encryption';
+
+export { isMaskedValue, maskCredentials, resolveMaskedValues } from './encryption';
+
+/** Columns openCredentials() needs */
+export const CREDENTIAL_COLUMNS = 'id, organization_id, credential_type, credentials, encrypted_credentials, data_key_id';
+
+export interface CredentialRow {
+  id: string;
+  organization_id: string | null;
+  credential_type: string;
+  credentials: Record<string, string> | null;
+  encrypted_credentials: string | null;
+  data_key_id: string | null;
+}
+
+export interface CredentialAccess {
+  /** Code path reading the secret, e.g. "credentialLoader.getCredentials" */
+  accessedBy: string;
+  userId?: string | null;
+}
+
+export interface SealedCredentials {
+  credentials: Record<string, string>;
+  encrypted_credentials: string;
+  data_key_id: string;
+}
+
+export interface RotationSummary {
+  organizations: number;
+  credentials: number;
+  retiredKeys: number;
+}
+
+// Unwrapped data keys by id; a data key never changes once written
+const dataKeyCache = new Map<string, Buffer>();
+
+async function loadDataKey(dataKeyId: string): Promise<Buffer> {
+  const cached = dataKeyCache.get(dataKeyId);
+  if (cached) return cached;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('credential_data_keys')
+    .select('id, organization_id, wrapped_key, master_key_id')
+    .eq('id', dataKeyId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to load data key: ${error?.message || 'Not found'}`);
+  }
+
+  const master = loadMasterKeys().keys.get(data.master_key_id);
+  if (!master) {
+    throw new Error(`Master key "${data.master_key_id}" is not configured (needed for data key ${dataKeyId})`);
+  }
+
+  const key = decrypt(master, data.wrapped_key, dataKeyAad(data.organization_id));
+  dataKeyCache.set(dataKeyId, key);
+  return key;
+}
+
+async function findActiveDataKeyId(organizationId: string | null): Promise<string | null> {
+  let query = getSupabaseAdmin()
+    .from('credential_data_keys')
+    .select('id')
+    .eq('status', 'active');
+  query = organizationId ? query.eq('organization_id', organizationId) : query.is('organization_id', null);
+
+  const { data } = await query.maybeSingle();
+  return data?.id || null;
+}
+
+/**
+ * The organization's active data key, created on first use
+ */
+async function getActiveDataKey(organizationId: string | null): Promise<{ id: string; key: Buffer }> {
+  const existingId = await findActiveDataKeyId(organizationId);
+  if (existingId) {
+    return { id: existingId, key: await loadDataKey(existingId) };
+  }
+
+  const masters = loadMasterKeys();
+  const key = generateDataKey();
+  const { data, error } = await getSupabaseAdmin()
+    .from('credential_data_keys')
+    .insert({
+      organization_id: organizationId,
+      wrapped_key: encrypt(masters.keys.get(masters.currentId)!, key, dataKeyAad(organizationId)),
+      master_key_id: masters.currentId,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    // Another request created it first
+    const racedId = await findActiveDataKeyId(organizationId);
+    if (racedId) {
+      return { id: racedId, key: await loadDataKey(racedId) };
+    }
+    throw new Error(`Failed to create data key: ${error?.message || 'No data returned'}`);
+  }
+
+  console.log(`[Credential Vault] 🔑 Created data key for ${organizationId || 'system'}`);
+  dataKeyCache.set(data.id, key);
+  return { id: data.id, key };
+}
+
+/**
+ * Column values for storing `credentials` encrypted
+ */
+export async function sealCredentials(
+  organizationId: string | null,
+  credentialType: string,
+  credentials: Record<string, string>
+): Promise<SealedCredentials> {
+  const dataKey = await getActiveDataKey(organizationId);
+  return {
+    credentials: maskCredentials(credentials),
+    encrypted_credentials: encrypt(
+      dataKey.key,
+      Buffer.from(JSON.stringify(credentials)),
+      credentialAad(organizationId, credentialType)
+    ),
+    data_key_id: dataKey.id,
+  };
+}
+
+async function readPlaintext(row: CredentialRow): Promise<Record<string, string>> {
+  if (!row.encrypted_credentials || !row.data_key_id) {
+    return row.credentials || {};
+  }
+
+  const key = await loadDataKey(row.data_key_id);
+  const plaintext = decrypt(key, row.encrypted_credentials, credentialAad(row.organization_id, row.credential_type));
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+async function logCredentialAccess(row: CredentialRow, action: 'decrypt' | 'rotate', access: CredentialAccess): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('credential_access_log')
+    .insert({
+      organization_id: row.organization_id,
+      credential_id: row.id,
+      credential_type: row.credential_type,
+      action,
+      accessed_by: access.accessedBy,
+      user_id: access.userId ?? null,
+    });
+  if (error) {
+    console.warn('[Credential Vault] Failed to write access log:', error.message);
+  }
+}
+
+/**
+ * Decrypted credentials for a row selected with CREDENTIAL_COLUMNS
+ */
+export async function openCredentials(row: CredentialRow, access: CredentialAccess): Promise<Record<string, string>> {
+  const credentials = await readPlaintext(row);
+  if (row.encrypted_credentials) {
+    await logCredentialAccess(row, 'decrypt', access);
+  }
+  return credentials;
+}
+
+/**
+ * A credential row as the admin API returns it: secrets masked, ciphertext dropped
+ */
+export function toMaskedCredential<T extends { credentials?: Record<string, string> | null; encrypted_credentials?: string | null }>(
+  row: T
+): Omit<T, 'encrypted_credentials' | 'data_key_id'> & { encrypted: boolean } {
+  const masked: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (key !== 'encrypted_credentials' && key !== 'data_key_id') {
+      masked[key] = value;
+    }
+  }
+  masked.credentials = maskCredentials(row.credentials);
+  masked.encrypted = !!row.encrypted_credentials;
+  return masked as Omit<T, 'encrypted_credentials' | 'data_key_id'> & { encrypted: boolean };
+}
+
+/**
+ * Give every organization (or just `organizationId`) a new data key wrapped
+ * by the current master key and re-encrypt its credentials with it. Legacy
+ * plaintext rows are encrypted on the way. Retired keys nothing points at
+ * any more are deleted, so an old master key can be removed afterwards.
+ */
+export async function rotateCredentialKeys(options: { organizationId?: string } = {}): Promise<RotationSummary> {
+  const supabase = getSupabaseAdmin();
+  const access: CredentialAccess = { accessedBy: 'credentialVault.rotateCredentialKeys' };
+
+  let query = supabase.from('api_credentials').select(CREDENTIAL_COLUMNS);
+  if (options.organizationId) query = query.eq('organization_id', options.organizationId);
+  const { data: rows, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load credentials: ${error.message}`);
+  }
+
+  const byOrganization = new Map<string | null, CredentialRow[]>();
+  for (const row of (rows || []) as CredentialRow[]) {
+    const group = byOrganization.get(row.organization_id) || [];
+    group.push(row);
+    byOrganization.set(row.organization_id, group);
+  }
+
+  let rotated = 0;
+  for (const [organizationId, group] of byOrganization) {
+    // Decrypt everything before the old key is retired
+    const plaintexts = await Promise.all(group.map(readPlaintext));
+
+    let retire = supabase
+      .from('credential_data_keys')
+      .update({ status: 'retired', retired_at: new Date().toISOString() })
+      .eq('status', 'active');
+    retire = organizationId ? retire.eq('organization_id', organizationId) : retire.is('organization_id', null);
+    const { error: retireError } = await retire;
+    if (retireError) {
+      throw new Error(`Failed to retire data key: ${retireError.message}`);
+    }
+
+    for (let i = 0; i < group.length; i++) {
+      const row = group[i];
+      const sealed = await sealCredentials(organizationId, row.credential_type, plaintexts[i]);
+      const { error: updateError } = await supabase
+        .from('api_credentials')
+        .update(sealed)
+        .eq('id', row.id);
+      if (updateError) {
+        throw new Error(`Failed to re-encrypt credential ${row.id}: ${updateError.message}`);
+      }
+      await logCredentialAccess(row, 'rotate', access);
+      rotated++;
+    }
+    console.log(`[Credential Vault] 🔄 Re-encrypted ${group.length} credential(s) for ${organizationId || 'system'}`);
+  }
+
+  // Drop retired keys no credential points at any more
+  const { data: inUse } = await supabase.from('api_credentials').select('data_key_id').not('data_key_id', 'is', null);
+  const inUseIds = [...new Set((inUse || []).map((row: { data_key_id: string }) => row.data_key_id))];
+
+  let cleanup = supabase.from('credential_data_keys').delete().eq('status', 'retired');
+  if (inUseIds.length > 0) cleanup = cleanup.not('id', 'in', `(${inUseIds.join(',')})`);
+  const { data: deleted, error: cleanupError } = await cleanup.select('id');
+  if (cleanupError) {
+    console.warn('[Credential Vault] Failed to delete retired data keys:', cleanupError.message);
+  }
+  for (const key of deleted || []) dataKeyCache.delete(key.id);
+
+  return { organizations: byOrganization.size, credentials: rotated, retiredKeys: (deleted || []).length };
+}
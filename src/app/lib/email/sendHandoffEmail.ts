@@ -0,0 +1,68 @@
+/**
+ * Send Handoff Email Notification
+ * Triggered when Lexi hands an SMS / WhatsApp conversation to staff
+ */
+
+import { getResendClient, getDefaultFromEmail, getAppUrl } from './resendClient';
+import { getSupabaseAdmin } from '../supabaseClient';
+
+interface HandoffDetails {
+  conversationId: string;
+  channel: string;
+  contact: string;
+  reason: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Recipients: notification_settings.handoff_recipients, then the call-ended
+ * recipients, then the organization's primary email
+ */
+export async function sendHandoffEmail(organizationId: string, details: HandoffDetails): Promise<void> {
+  const { data: org } = await getSupabaseAdmin()
+    .from('organizations')
+    .select('name, email, notification_settings')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  const settings = org?.notification_settings || {};
+  const handoffRecipients: string[] = settings.handoff_recipients || [];
+  const callEndedRecipients: string[] = settings.call_ended_recipients || [];
+  const recipients = handoffRecipients.length > 0
+    ? handoffRecipients
+    : callEndedRecipients.length > 0 ? callEndedRecipients : [org?.email].filter(Boolean) as string[];
+
+  if (recipients.length === 0) {
+    console.warn('[Email] No recipients for handoff notification');
+    return;
+  }
+
+  const channelLabel = details.channel === 'whatsapp' ? 'WhatsApp' : 'SMS';
+  const inboxUrl = `${getAppUrl()}/admin/booking/messages?channel=${details.channel === 'whatsapp' ? 'whatsapp' : 'sms'}&conversation=${details.conversationId}`;
+
+  const html = `
+    <p>A patient on ${channelLabel} (${escapeHtml(details.contact)}) needs a person.</p>
+    <p><strong>Reason:</strong> ${escapeHtml(details.reason)}</p>
+    <p>The AI assistant has stopped replying to this conversation until someone claims and resolves it.</p>
+    <p><a href="${inboxUrl}">Open the conversation</a></p>
+  `;
+
+  const { error } = await getResendClient().emails.send({
+    from: settings.email_from || getDefaultFromEmail(),
+    to: recipients,
+    subject: `${org?.name || 'Inbox'}: ${channelLabel} conversation needs staff`,
+    html,
+  });
+
+  if (error) {
+    throw new Error(`Email failed: ${error.message}`);
+  }
+  console.log(`[Email] ✅ Handoff notification sent to ${recipients.join(', ')}`);
+}
@@ -15,6 +15,7 @@ import {
   SetWebhookRequest,
   InstanceInfo,
   SendMessageResponse,
+  MediaDownloadResponse,
 } from './types';
 
 export class EvolutionClient {
@@ -361,7 +362,9 @@ export class EvolutionClient {
     sections: Array<{
       title: string;
       rows: Array<{ id: string; title: string; description?: string }>;
-    }>
+    }>,
+    description?: string,
+    footerText?: string
   ): Promise<SendMessageResponse> {
     const formattedNumber = this.formatPhoneNumber(number);
     
@@ -372,6 +375,8 @@ export class EvolutionClient {
         number: formattedNumber,
         listMessage: {
           title,
+          description: description || '',
+          footerText: footerText || '',
           buttonText,
           sections: sections.map((section) => ({
             title: section.title,
@@ -443,6 +448,24 @@ export class EvolutionClient {
     return await this.sendPresence(instanceName, remoteJid, 'composing');
   }
 
+  /**
+   * Download a received media message (voice note, image, document).
+   * WhatsApp media URLs are encrypted, so Evolution decrypts and returns base64.
+   */
+  async getBase64FromMediaMessage(
+    instanceName: string,
+    messageId: string
+  ): Promise<MediaDownloadResponse> {
+    return await this.request<MediaDownloadResponse>(
+      'POST',
+      `/chat/getBase64FromMediaMessage/${instanceName}`,
+      {
+        message: { key: { id: messageId } },
+        convertToMp4: false,
+      }
+    );
+  }
+
   // ==========================================================================
   // PROFILE & CONTACT INFO
   // ==========================================================================
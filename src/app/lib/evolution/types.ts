@@ -25,9 +25,12 @@ export interface EvolutionMessageUpsert {
     fromMe: boolean;
     id: string; // Message ID
   };
-  messageType: 'conversation' | 'imageMessage' | 'documentMessage' | 'audioMessage' | 'videoMessage' | 'stickerMessage' | 'locationMessage' | 'contactMessage';
+  messageType: 'conversation' | 'imageMessage' | 'documentMessage' | 'audioMessage' | 'videoMessage' | 'stickerMessage' | 'locationMessage' | 'contactMessage' | 'extendedTextMessage' | 'buttonsResponseMessage' | 'listResponseMessage';
   message: {
     conversation?: string; // Text message content
+    extendedTextMessage?: { text: string };
+    buttonsResponseMessage?: EvolutionButtonsResponseMessage;
+    listResponseMessage?: EvolutionListResponseMessage;
     imageMessage?: EvolutionImageMessage;
     documentMessage?: EvolutionDocumentMessage;
     audioMessage?: EvolutionAudioMessage;
@@ -38,6 +41,18 @@ export interface EvolutionMessageUpsert {
   status?: 'PENDING' | 'SERVER_ACK' | 'DELIVERY_ACK' | 'READ' | 'PLAYED';
 }
 
+export interface EvolutionButtonsResponseMessage {
+  selectedButtonId: string;
+  selectedDisplayText?: string;
+}
+
+export interface EvolutionListResponseMessage {
+  title?: string; // Selected row title
+  description?: string;
+  listType?: number;
+  singleSelectReply: { selectedRowId: string };
+}
+
 export interface EvolutionImageMessage {
   url: string;
   mimetype: string;
@@ -177,6 +192,14 @@ export interface SendMessageResponse {
   status: string;
 }
 
+export interface MediaDownloadResponse {
+  mediaType?: string;
+  fileName?: string;
+  mimetype?: string;
+  size?: { fileLength?: number };
+  base64: string;
+}
+
 // ============================================================================
 // CLIENT CONFIGURATION
 // ============================================================================
@@ -0,0 +1,212 @@
+/**
+ * Feedback Dataset Export
+ *
+ * Turns rated conversations into labeled examples for prompt tuning and
+ * regression tests. Each feedback row becomes one example: the conversation
+ * up to the rated turn or function call (`context`), what the agent actually
+ * said or called (`output`), the reviewer's correction (`expected`) and a
+ * good / bad / neutral label.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import type { ConversationFeedback, FailureTag } from './feedback';
+
+export type FeedbackLabel = 'good' | 'bad' | 'neutral';
+export type FeedbackTarget = 'conversation' | 'message' | 'function_call';
+
+export interface DatasetTurn {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+  name?: string;            // function name for tool turns
+  arguments?: Record<string, any>;
+  error?: string | null;
+}
+
+export interface DatasetExample {
+  id: string;
+  conversation_id: string;
+  session_id: string;
+  channel: string | null;
+  target: FeedbackTarget;
+  label: FeedbackLabel;
+  rating: number | null;
+  failure_tags: FailureTag[];
+  notes: string | null;
+  context: DatasetTurn[];
+  output: DatasetTurn | null;
+  expected: string | null;
+  source: string | null;
+  rated_at: string;
+}
+
+export interface DatasetFilter {
+  from?: string;            // YYYY-MM-DD
+  to?: string;
+  label?: FeedbackLabel;
+  tag?: string;
+  source?: string;
+}
+
+interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  created_at: string;
+  sequence_num: number;
+}
+
+interface StoredFunctionCall {
+  id: string;
+  function_name: string;
+  parameters: Record<string, any> | null;
+  result: any;
+  error: string | null;
+  created_at: string;
+}
+
+export function feedbackLabel(feedback: Pick<ConversationFeedback, 'rating' | 'thumbs_up' | 'failure_tags'>): FeedbackLabel {
+  if ((feedback.failure_tags || []).length > 0) return 'bad';
+  if (feedback.rating) {
+    if (feedback.rating >= 4) return 'good';
+    if (feedback.rating <= 2) return 'bad';
+    return 'neutral';
+  }
+  if (feedback.thumbs_up === true) return 'good';
+  if (feedback.thumbs_up === false) return 'bad';
+  return 'neutral';
+}
+
+function messageTurn(message: StoredMessage): DatasetTurn {
+  return { role: message.role, content: message.content };
+}
+
+function functionCallTurn(call: StoredFunctionCall): DatasetTurn {
+  return {
+    role: 'tool',
+    name: call.function_name,
+    arguments: call.parameters || {},
+    content: typeof call.result === 'string' ? call.result : JSON.stringify(call.result ?? null),
+    error: call.error,
+  };
+}
+
+/**
+ * Messages and function calls merged in the order they happened
+ */
+function timeline(messages: StoredMessage[], functionCalls: StoredFunctionCall[]) {
+  const entries = [
+    ...messages.map(message => ({ at: message.created_at, id: message.id, turn: messageTurn(message) })),
+    ...functionCalls.map(call => ({ at: call.created_at, id: call.id, turn: functionCallTurn(call) })),
+  ];
+  return entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+export function buildDatasetExample(
+  feedback: ConversationFeedback,
+  conversation: { id: string; session_id: string; channel: string | null },
+  messages: StoredMessage[],
+  functionCalls: StoredFunctionCall[]
+): DatasetExample | null {
+  const entries = timeline(messages, functionCalls);
+  const targetId = feedback.message_id || feedback.function_call_id;
+  const target: FeedbackTarget = feedback.message_id
+    ? 'message'
+    : feedback.function_call_id ? 'function_call' : 'conversation';
+
+  let context = entries.map(entry => entry.turn);
+  let output: DatasetTurn | null = null;
+
+  if (targetId) {
+    const index = entries.findIndex(entry => entry.id === targetId);
+    if (index === -1) return null;
+    context = entries.slice(0, index).map(entry => entry.turn);
+    output = entries[index].turn;
+  }
+
+  return {
+    id: feedback.id,
+    conversation_id: conversation.id,
+    session_id: conversation.session_id,
+    channel: conversation.channel,
+    target,
+    label: feedbackLabel(feedback),
+    rating: feedback.rating,
+    failure_tags: feedback.failure_tags || [],
+    notes: feedback.feedback_text,
+    context,
+    output,
+    expected: feedback.expected_response,
+    source: feedback.feedback_source,
+    rated_at: feedback.updated_at || feedback.created_at,
+  };
+}
+
+export async function exportFeedbackDataset(
+  organizationId: string,
+  filter: DatasetFilter = {}
+): Promise<DatasetExample[]> {
+  const supabase = getSupabaseAdmin();
+
+  let query = supabase
+    .from('conversation_feedback')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .not('conversation_id', 'is', null);
+
+  if (filter.from) query = query.gte('created_at', `${filter.from}T00:00:00.000Z`);
+  if (filter.to) query = query.lte('created_at', `${filter.to}T23:59:59.999Z`);
+  if (filter.tag) query = query.contains('failure_tags', [filter.tag]);
+  if (filter.source) query = query.eq('feedback_source', filter.source);
+
+  const { data: feedback, error } = await query.order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!feedback || feedback.length === 0) {
+    return [];
+  }
+
+  const conversationIds = [...new Set(feedback.map(row => row.conversation_id as string))];
+  const [conversationsResult, messagesResult, callsResult] = await Promise.all([
+    supabase.from('conversations')
+      .select('id, session_id, channel')
+      .eq('organization_id', organizationId)
+      .in('id', conversationIds),
+    supabase.from('conversation_messages')
+      .select('id, conversation_id, role, content, created_at, sequence_num')
+      .eq('organization_id', organizationId)
+      .in('conversation_id', conversationIds)
+      .order('sequence_num', { ascending: true }),
+    supabase.from('function_calls')
+      .select('id, conversation_id, function_name, parameters, result, error, created_at')
+      .eq('organization_id', organizationId)
+      .in('conversation_id', conversationIds)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  const loadError = conversationsResult.error || messagesResult.error || callsResult.error;
+  if (loadError) {
+    throw new Error(loadError.message);
+  }
+
+  const examples: DatasetExample[] = [];
+  for (const row of feedback as ConversationFeedback[]) {
+    const conversation = (conversationsResult.data || []).find(c => c.id === row.conversation_id);
+    if (!conversation) continue;
+
+    const example = buildDatasetExample(
+      row,
+      conversation,
+      (messagesResult.data || []).filter(m => m.conversation_id === row.conversation_id) as StoredMessage[],
+      (callsResult.data || []).filter(c => c.conversation_id === row.conversation_id) as StoredFunctionCall[]
+    );
+    if (example && (!filter.label || example.label === filter.label)) {
+      examples.push(example);
+    }
+  }
+  return examples;
+}
+
+export function toJsonl(examples: DatasetExample[]): string {
+  return examples.map(example => JSON.stringify(example)).join('\n') + (examples.length > 0 ? '\n' : '');
+}
@@ -0,0 +1,257 @@
+/**
+ * Conversation Feedback
+ *
+ * Ratings for a whole conversation, one assistant turn or one function call.
+ * Callers and the agent UI leave quick ratings; staff review calls in the
+ * calls admin, tag why the agent failed and write the response it should have
+ * given. Staff reviews are kept one per reviewer and target so re-rating
+ * updates the existing review.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export type FeedbackSource = 'voice' | 'ui' | 'both' | 'staff';
+export const FEEDBACK_SOURCES: FeedbackSource[] = ['voice', 'ui', 'both', 'staff'];
+
+export const FAILURE_TAGS = {
+  misunderstood_request: 'Misunderstood the request',
+  wrong_information: 'Gave wrong information',
+  wrong_patient: 'Wrong patient',
+  wrong_slot: 'Wrong time, provider or type',
+  tool_error: 'Tool call failed or had wrong arguments',
+  missed_action: 'Did not do what was asked',
+  should_transfer: 'Should have handed to staff',
+  repetitive: 'Repeated itself or was too slow',
+  tone: 'Unnatural or unfriendly',
+  other: 'Other',
+} as const;
+
+export type FailureTag = keyof typeof FAILURE_TAGS;
+
+export interface FeedbackInput {
+  sessionId?: string;
+  conversationId?: string;
+  messageId?: string;
+  functionCallId?: string;
+  rating?: number | null;
+  thumbsUp?: boolean | null;
+  feedbackText?: string;
+  failureTags?: string[];
+  expectedResponse?: string;
+  voiceResponse?: string;
+  source?: FeedbackSource;
+  totalMessages?: number;
+  totalFunctionCalls?: number;
+}
+
+export interface ConversationFeedback {
+  id: string;
+  organization_id: string;
+  session_id: string;
+  conversation_id: string | null;
+  message_id: string | null;
+  function_call_id: string | null;
+  rating: number | null;
+  thumbs_up: boolean | null;
+  feedback_text: string | null;
+  feedback_source: FeedbackSource | null;
+  failure_tags: FailureTag[];
+  expected_response: string | null;
+  submitted_by: string | null;
+  submitted_by_email: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Reviewer {
+  id: string;
+  email: string;
+}
+
+export function validateFeedback(input: FeedbackInput): string | null {
+  if (!input.sessionId && !input.conversationId) {
+    return 'sessionId or conversationId is required';
+  }
+  if (input.messageId && input.functionCallId) {
+    return 'Rate either a message or a function call, not both';
+  }
+  if (input.rating !== undefined && input.rating !== null
+    && (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5)) {
+    return 'rating must be between 1 and 5';
+  }
+  if (input.source && !FEEDBACK_SOURCES.includes(input.source)) {
+    return `source must be one of: ${FEEDBACK_SOURCES.join(', ')}`;
+  }
+  if (input.failureTags !== undefined) {
+    if (!Array.isArray(input.failureTags)) return 'failureTags must be an array';
+    const unknown = input.failureTags.find(tag => !(tag in FAILURE_TAGS));
+    if (unknown) return `Unknown failure tag: ${unknown}`;
+  }
+  const hasRating = (input.rating !== undefined && input.rating !== null)
+    || typeof input.thumbsUp === 'boolean'
+    || (input.failureTags?.length || 0) > 0
+    || !!input.feedbackText?.trim()
+    || !!input.expectedResponse?.trim();
+  if (!hasRating) {
+    return 'Feedback needs a rating, tags or a comment';
+  }
+  return null;
+}
+
+async function findConversation(organizationId: string, input: FeedbackInput) {
+  let query = getSupabaseAdmin()
+    .from('conversations')
+    .select('id, session_id')
+    .eq('organization_id', organizationId);
+
+  query = input.conversationId
+    ? query.eq('id', input.conversationId)
+    : query.eq('session_id', input.sessionId!);
+
+  const { data } = await query.maybeSingle();
+  return data as { id: string; session_id: string } | null;
+}
+
+/**
+ * The rated turn / call must belong to the conversation (and to the org)
+ */
+async function assertTargetInConversation(organizationId: string, conversationId: string, input: FeedbackInput) {
+  const supabase = getSupabaseAdmin();
+
+  if (input.messageId) {
+    const { data } = await supabase
+      .from('conversation_messages')
+      .select('id, role')
+      .eq('id', input.messageId)
+      .eq('conversation_id', conversationId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+    if (!data) throw new Error('Message not found');
+    if (data.role !== 'assistant') throw new Error('Only assistant messages can be rated');
+  }
+
+  if (input.functionCallId) {
+    const { data } = await supabase
+      .from('function_calls')
+      .select('id')
+      .eq('id', input.functionCallId)
+      .eq('conversation_id', conversationId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+    if (!data) throw new Error('Function call not found');
+  }
+}
+
+/**
+ * Save feedback. Feedback for a session that was never persisted (e.g. an
+ * agent UI test session) is kept by session id only; turn / call ratings and
+ * staff reviews need the stored conversation.
+ */
+export async function saveFeedback(
+  organizationId: string,
+  input: FeedbackInput,
+  reviewer?: Reviewer
+): Promise<ConversationFeedback> {
+  const supabase = getSupabaseAdmin();
+  const source = input.source || 'ui';
+  const conversation = await findConversation(organizationId, input);
+
+  const needsConversation = source === 'staff' || input.messageId || input.functionCallId || input.conversationId;
+  if (!conversation && needsConversation) {
+    throw new Error('Conversation not found');
+  }
+  if (conversation) {
+    await assertTargetInConversation(organizationId, conversation.id, input);
+  }
+
+  const failureTags = input.failureTags || [];
+  const row = {
+    organization_id: organizationId,
+    session_id: conversation?.session_id || input.sessionId!,
+    conversation_id: conversation?.id || null,
+    message_id: input.messageId || null,
+    function_call_id: input.functionCallId || null,
+    rating: input.rating ?? null,
+    thumbs_up: typeof input.thumbsUp === 'boolean'
+      ? input.thumbsUp
+      : input.rating ? input.rating >= 4 : failureTags.length > 0 ? false : null,
+    feedback_text: input.feedbackText?.trim() || null,
+    feedback_source: source,
+    failure_tags: failureTags,
+    expected_response: input.expectedResponse?.trim() || null,
+    voice_response: input.voiceResponse || null,
+    total_messages: input.totalMessages ?? null,
+    total_function_calls: input.totalFunctionCalls ?? null,
+    submitted_by: reviewer?.id || null,
+    submitted_by_email: reviewer?.email || null,
+  };
+
+  if (source === 'staff' && reviewer) {
+    let existingQuery = supabase
+      .from('conversation_feedback')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('conversation_id', row.conversation_id)
+      .eq('feedback_source', 'staff')
+      .eq('submitted_by', reviewer.id);
+    existingQuery = row.message_id ? existingQuery.eq('message_id', row.message_id) : existingQuery.is('message_id', null);
+    existingQuery = row.function_call_id
+      ? existingQuery.eq('function_call_id', row.function_call_id)
+      : existingQuery.is('function_call_id', null);
+
+    const { data: existing } = await existingQuery.maybeSingle();
+    if (existing) {
+      const { data, error } = await supabase
+        .from('conversation_feedback')
+        .update(row)
+        .eq('id', existing.id)
+        .select('*')
+        .single();
+      if (error) throw new Error(`Failed to save feedback: ${error.message}`);
+      return data as ConversationFeedback;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('conversation_feedback')
+    .insert(row)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save feedback: ${error.message}`);
+  }
+  return data as ConversationFeedback;
+}
+
+export async function listFeedback(
+  organizationId: string,
+  filter: { conversationId?: string; sessionId?: string }
+): Promise<ConversationFeedback[]> {
+  let query = getSupabaseAdmin()
+    .from('conversation_feedback')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (filter.conversationId) query = query.eq('conversation_id', filter.conversationId);
+  if (filter.sessionId) query = query.eq('session_id', filter.sessionId);
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data || []) as ConversationFeedback[];
+}
+
+export async function deleteFeedback(organizationId: string, feedbackId: string, reviewer: Reviewer): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('conversation_feedback')
+    .delete()
+    .eq('id', feedbackId)
+    .eq('organization_id', organizationId)
+    .eq('submitted_by', reviewer.id);
+
+  if (error) {
+    throw new Error(`Failed to delete feedback: ${error.message}`);
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Human Takeover for Text Conversations
+ *
+ * SMS and WhatsApp conversations are inbox threads. Staff can claim a thread
+ * (Lexi stops answering it), reply through the organization's Twilio number
+ * or Evolution instance, and move it through open / pending / resolved.
+ * Lexi can also hand a thread over itself with the escalate_to_human tool;
+ * staff are emailed and the thread is flagged in the inbox.
+ */
+
+import { sendHandoffEmail } from '../email/sendHandoffEmail';
+import { getEvolutionClient } from '../evolution/EvolutionClient';
+import { sendSms } from '../messaging/outbound';
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export type ThreadStatus = 'open' | 'pending' | 'resolved';
+export const THREAD_STATUSES: ThreadStatus[] = ['open', 'pending', 'resolved'];
+
+export const ESCALATION_TOOL_NAME = 'escalate_to_human';
+
+export interface ThreadState {
+  id: string;
+  organization_id: string;
+  channel: string | null;
+  from_number: string | null;
+  thread_status: ThreadStatus;
+  ai_paused: boolean;
+  assigned_to: string | null;
+  assigned_to_email: string | null;
+  claimed_at: string | null;
+  escalated_at: string | null;
+  escalation_reason: string | null;
+}
+
+const THREAD_COLUMNS = 'id, organization_id, channel, from_number, thread_status, ai_paused, assigned_to, assigned_to_email, claimed_at, escalated_at, escalation_reason';
+
+export async function getThreadState(organizationId: string, conversationId: string): Promise<ThreadState | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('conversations')
+    .select(THREAD_COLUMNS)
+    .eq('id', conversationId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+  return (data as ThreadState) || null;
+}
+
+async function updateThread(
+  organizationId: string,
+  conversationId: string,
+  changes: Record<string, unknown>
+): Promise<ThreadState> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('conversations')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', conversationId)
+    .eq('organization_id', organizationId)
+    .select(THREAD_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update conversation: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Conversation not found');
+  }
+  return data as ThreadState;
+}
+
+/**
+ * Every incoming patient message: a pending or resolved thread needs
+ * attention again, and the thread moves to the top of the inbox.
+ * Returns true while staff own the thread (Lexi stays quiet).
+ */
+export async function noteInboundMessage(organizationId: string, conversationId: string): Promise<boolean> {
+  const thread = await getThreadState(organizationId, conversationId);
+  if (!thread) return false;
+
+  await updateThread(organizationId, conversationId, { thread_status: 'open' });
+  return thread.ai_paused;
+}
+
+type StaffUser = { id: string; email: string };
+
+/**
+ * Staff take the thread: Lexi stops answering it
+ */
+export function claimChanges(user: StaffUser, now: Date = new Date()): Partial<ThreadState> {
+  return {
+    ai_paused: true,
+    assigned_to: user.id,
+    assigned_to_email: user.email,
+    claimed_at: now.toISOString(),
+  };
+}
+
+/**
+ * Hand the thread back to Lexi (clears any escalation)
+ */
+export function releaseChanges(): Partial<ThreadState> {
+  return {
+    ai_paused: false,
+    assigned_to: null,
+    assigned_to_email: null,
+    claimed_at: null,
+    escalated_at: null,
+    escalation_reason: null,
+  };
+}
+
+/**
+ * Resolving also hands the thread back, so the next message gets an answer
+ */
+export function statusChanges(status: ThreadStatus): Partial<ThreadState> {
+  if (!THREAD_STATUSES.includes(status)) {
+    throw new Error(`Invalid status: ${status}`);
+  }
+
+  return status === 'resolved'
+    ? { thread_status: status, ...releaseChanges() }
+    : { thread_status: status };
+}
+
+/**
+ * Escalation flags the thread for staff and pauses Lexi
+ */
+export function escalationChanges(reason: string, now: Date = new Date()): Partial<ThreadState> {
+  return {
+    ai_paused: true,
+    thread_status: 'open',
+    escalated_at: now.toISOString(),
+    escalation_reason: reason || 'Patient asked for a person',
+  };
+}
+
+/**
+ * A staff reply claims the thread (keeping an existing claim) and leaves it
+ * pending until the patient writes back
+ */
+export function staffReplyChanges(thread: ThreadState, user: StaffUser, now: Date = new Date()): Partial<ThreadState> {
+  return {
+    thread_status: 'pending',
+    ai_paused: true,
+    assigned_to: thread.assigned_to || user.id,
+    assigned_to_email: thread.assigned_to_email || user.email,
+    claimed_at: thread.claimed_at || now.toISOString(),
+  };
+}
+
+export async function claimThread(
+  organizationId: string,
+  conversationId: string,
+  user: StaffUser
+): Promise<ThreadState> {
+  return updateThread(organizationId, conversationId, claimChanges(user));
+}
+
+export async function releaseThread(organizationId: string, conversationId: string): Promise<ThreadState> {
+  return updateThread(organizationId, conversationId, releaseChanges());
+}
+
+export async function setThreadStatus(
+  organizationId: string,
+  conversationId: string,
+  status: ThreadStatus
+): Promise<ThreadState> {
+  return updateThread(organizationId, conversationId, statusChanges(status));
+}
+
+/**
+ * Lexi asked for a human: pause the AI, flag the thread and email staff
+ */
+export async function escalateThread(
+  organizationId: string,
+  conversationId: string,
+  reason: string
+): Promise<void> {
+  const thread = await updateThread(organizationId, conversationId, escalationChanges(reason));
+
+  console.log(`[Inbox] Conversation ${conversationId} escalated to staff: ${thread.escalation_reason}`);
+
+  try {
+    await sendHandoffEmail(organizationId, {
+      conversationId,
+      channel: thread.channel || 'sms',
+      contact: thread.from_number || '',
+      reason: thread.escalation_reason || '',
+    });
+  } catch (error: any) {
+    console.error('[Inbox] Failed to notify staff:', error.message);
+  }
+}
+
+/**
+ * The reason Lexi gave, if it called escalate_to_human during its turn
+ * (tool results are appended to the history array it was given)
+ */
+export function readEscalation(items: any[]): string | null {
+  for (const item of items) {
+    if (item?.type !== 'function_call_output' || item.name !== ESCALATION_TOOL_NAME) continue;
+    try {
+      const output = typeof item.output === 'string' ? JSON.parse(item.output) : item.output;
+      return String(output?.reason || '');
+    } catch {
+      return '';
+    }
+  }
+  return null;
+}
+
+/**
+ * Manual reply from staff over the thread's channel. Replying claims the
+ * thread (so Lexi doesn't answer the patient's response) and marks it
+ * pending until the patient writes back.
+ */
+export async function sendStaffReply(
+  organizationId: string,
+  conversationId: string,
+  text: string,
+  user: StaffUser
+): Promise<ThreadState> {
+  const supabase = getSupabaseAdmin();
+  const thread = await getThreadState(organizationId, conversationId);
+  if (!thread) {
+    throw new Error('Conversation not found');
+  }
+
+  const sentBy = { sent_by: user.email, sent_by_user_id: user.id };
+
+  if (thread.channel === 'whatsapp') {
+    const { data: whatsapp } = await supabase
+      .from('whatsapp_conversations')
+      .select('id, remote_jid, whatsapp_instance_id, whatsapp_instances(instance_name)')
+      .eq('conversation_id', conversationId)
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const instanceName = (whatsapp?.whatsapp_instances as any)?.instance_name;
+    if (!whatsapp || !instanceName) {
+      throw new Error('No WhatsApp instance found for this conversation');
+    }
+
+    const result = await getEvolutionClient().sendTextMessage(instanceName, {
+      number: whatsapp.remote_jid,
+      text,
+    });
+
+    await supabase.from('whatsapp_messages').insert({
+      whatsapp_instance_id: whatsapp.whatsapp_instance_id,
+      whatsapp_conversation_id: whatsapp.id,
+      organization_id: organizationId,
+      message_id: result?.key?.id,
+      remote_jid: whatsapp.remote_jid,
+      direction: 'outbound',
+      message_type: 'text',
+      text_content: text,
+      status: 'sent',
+      raw_payload: sentBy,
+      sent_at: new Date().toISOString(),
+    });
+
+    await supabase.from('conversation_messages').insert({
+      conversation_id: conversationId,
+      role: 'assistant',
+      content: text,
+      metadata: { channel: 'whatsapp', ...sentBy },
+    });
+  } else {
+    if (!thread.from_number) {
+      throw new Error('Conversation has no phone number to reply to');
+    }
+
+    const result = await sendSms(organizationId, thread.from_number, text);
+
+    await supabase.from('conversation_messages').insert({
+      conversation_id: conversationId,
+      organization_id: organizationId,
+      role: 'assistant',
+      content: text,
+      timestamp: new Date().toISOString(),
+      metadata: { channel: 'twilio_sms', message_sid: result.messageId, ...sentBy },
+    });
+  }
+
+  console.log(`[Inbox] ${user.email} replied on ${thread.channel} conversation ${conversationId}`);
+
+  return updateThread(organizationId, conversationId, staffReplyChanges(thread, user));
+}
@@ -0,0 +1,190 @@
+/**
+ * Shared Inbox Listing
+ *
+ * SMS and WhatsApp threads in one shape for the admin inbox: thread state
+ * from conversations, messages from conversation_messages (SMS) or
+ * whatsapp_messages (WhatsApp), and attachments with signed URLs.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import { withSignedUrls, type MessageAttachment } from '../whatsapp/media';
+import type { ThreadState, ThreadStatus } from './handoff';
+
+export type InboxChannel = 'sms' | 'whatsapp';
+export type InboxFilter = ThreadStatus | 'escalated' | 'all';
+
+export interface InboxMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  type?: string;
+  sent_by?: string | null;
+  attachments: MessageAttachment[];
+}
+
+export interface InboxThread extends ThreadState {
+  session_id: string | null;
+  contact: string;
+  contact_name: string | null;
+  business_number: string;
+  created_at: string;
+  updated_at: string;
+  messages: InboxMessage[];
+}
+
+const THREAD_LIMIT = 50;
+
+export async function listThreads(
+  organizationId: string,
+  channel: InboxChannel,
+  filter: InboxFilter = 'all'
+): Promise<InboxThread[]> {
+  const supabase = getSupabaseAdmin();
+
+  let query = supabase
+    .from('conversations')
+    .select('id, organization_id, channel, session_id, from_number, to_number, thread_status, ai_paused, assigned_to, assigned_to_email, claimed_at, escalated_at, escalation_reason, created_at, updated_at')
+    .eq('organization_id', organizationId)
+    .eq('channel', channel);
+
+  if (filter === 'escalated') {
+    query = query.not('escalated_at', 'is', null);
+  } else if (filter !== 'all') {
+    query = query.eq('thread_status', filter);
+  }
+
+  const { data: conversations, error } = await query
+    .order('updated_at', { ascending: false })
+    .limit(THREAD_LIMIT);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!conversations || conversations.length === 0) {
+    return [];
+  }
+
+  return channel === 'whatsapp'
+    ? loadWhatsAppThreads(organizationId, conversations)
+    : loadSmsThreads(organizationId, conversations);
+}
+
+async function loadSmsThreads(organizationId: string, conversations: any[]): Promise<InboxThread[]> {
+  const { data: messages, error } = await getSupabaseAdmin()
+    .from('conversation_messages')
+    .select('id, conversation_id, role, content, timestamp, metadata')
+    .eq('organization_id', organizationId)
+    .in('conversation_id', conversations.map(c => c.id))
+    .in('role', ['user', 'assistant'])
+    .order('timestamp', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return conversations.map(conversation => ({
+    ...conversation,
+    contact: conversation.from_number || '',
+    contact_name: null,
+    business_number: conversation.to_number || '',
+    messages: (messages || [])
+      .filter(m => m.conversation_id === conversation.id)
+      .map(m => ({
+        id: m.id,
+        role: m.role,
+        content: m.content || '',
+        timestamp: m.timestamp,
+        sent_by: m.metadata?.sent_by || null,
+        attachments: [],
+      })),
+  }));
+}
+
+async function loadWhatsAppThreads(organizationId: string, conversations: any[]): Promise<InboxThread[]> {
+  const supabase = getSupabaseAdmin();
+  const conversationIds = conversations.map(c => c.id);
+
+  const { data: chats, error } = await supabase
+    .from('whatsapp_conversations')
+    .select('id, conversation_id, remote_jid, contact_name, contact_push_name, whatsapp_instances(instance_name, phone_number)')
+    .eq('organization_id', organizationId)
+    .in('conversation_id', conversationIds);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const chatIds = (chats || []).map(c => c.id);
+  const [messagesResult, attachmentsResult] = await Promise.all([
+    chatIds.length === 0
+      ? Promise.resolve({ data: [] as any[], error: null })
+      : supabase.from('whatsapp_messages')
+        .select('id, whatsapp_conversation_id, direction, message_type, text_content, caption, created_at, sent_by:raw_payload->>sent_by')
+        .eq('organization_id', organizationId)
+        .in('whatsapp_conversation_id', chatIds)
+        .order('created_at', { ascending: true }),
+    supabase.from('message_attachments')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .in('conversation_id', conversationIds),
+  ]);
+
+  if (messagesResult.error || attachmentsResult.error) {
+    throw new Error((messagesResult.error || attachmentsResult.error)!.message);
+  }
+
+  const attachments = await withSignedUrls((attachmentsResult.data || []) as MessageAttachment[]);
+  const attachmentsByMessage = new Map<string, MessageAttachment[]>();
+  for (const attachment of attachments) {
+    if (!attachment.whatsapp_message_id) continue;
+    const list = attachmentsByMessage.get(attachment.whatsapp_message_id) || [];
+    list.push(attachment);
+    attachmentsByMessage.set(attachment.whatsapp_message_id, list);
+  }
+
+  return conversations.map(conversation => {
+    const chat: any = (chats || []).find(c => c.conversation_id === conversation.id);
+    const chatMessages = chat
+      ? (messagesResult.data || []).filter((m: any) => m.whatsapp_conversation_id === chat.id)
+      : [];
+
+    return {
+      ...conversation,
+      contact: String(chat?.remote_jid || conversation.from_number || '').split('@')[0],
+      contact_name: chat?.contact_name || chat?.contact_push_name || null,
+      business_number: chat?.whatsapp_instances?.phone_number || chat?.whatsapp_instances?.instance_name || '',
+      messages: chatMessages.map((m: any) => ({
+        id: m.id,
+        role: m.direction === 'inbound' ? 'user' : 'assistant',
+        content: m.text_content || m.caption || '',
+        timestamp: m.created_at,
+        type: m.message_type,
+        sent_by: m.sent_by || null,
+        attachments: attachmentsByMessage.get(m.id) || [],
+      })),
+    };
+  });
+}
+
+/**
+ * Counts for the inbox badges (open threads, and threads the agent escalated)
+ */
+export async function countThreads(
+  organizationId: string,
+  channel: InboxChannel
+): Promise<{ open: number; escalated: number }> {
+  const supabase = getSupabaseAdmin();
+  const base = () => supabase
+    .from('conversations')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('channel', channel);
+
+  const [open, escalated] = await Promise.all([
+    base().eq('thread_status', 'open'),
+    base().not('escalated_at', 'is', null),
+  ]);
+
+  return { open: open.count || 0, escalated: escalated.count || 0 };
+}
@@ -7,8 +7,11 @@
 
 import { getGoogleCalendarCredentials } from '../credentialLoader';
 
-interface GoogleCalendarEvent {
+export interface GoogleCalendarEvent {
   id?: string;
+  etag?: string;
+  updated?: string;
+  transparency?: 'opaque' | 'transparent';
   summary: string;
   description?: string;
   location?: string;
@@ -59,6 +62,20 @@ interface FreeBusyResponse {
   }>;
 }
 
+/** One page of an incremental (syncToken) or initial event listing */
+export interface EventChangesPage {
+  items: GoogleCalendarEvent[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
+}
+
+/** events.watch push notification channel */
+export interface WatchChannel {
+  id: string;
+  resourceId: string;
+  expiration?: string;
+}
+
 interface TokenResponse {
   access_token: string;
   expires_in: number;
@@ -72,8 +89,9 @@ const tokenCache = new Map<string, { accessToken: string; expiresAt: number }>()
 
 export class GoogleCalendarService {
   private organizationId: string;
-  private baseUrl = 'https://www.googleapis.com/calendar/v3';
-  private oauthUrl = 'https://oauth2.googleapis.com/token';
+  // Overridable so the service can run against a local stand-in of the Google API
+  private baseUrl = process.env.GOOGLE_CALENDAR_API_URL || 'https://www.googleapis.com/calendar/v3';
+  private oauthUrl = process.env.GOOGLE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token';
 
   constructor(organizationId: string) {
     this.organizationId = organizationId;
@@ -228,6 +246,64 @@ export class GoogleCalendarService {
     return items as GoogleCalendarEvent[] & { nextPageToken?: string };
   }
 
+  /**
+   * List changed events for incremental sync.
+   * Without a syncToken this is the initial listing from timeMin; the last page
+   * carries nextSyncToken. With a syncToken only changes since then are returned,
+   * including deletions (status 'cancelled'). Google answers 410 when the token
+   * has expired; callers must then start over without one.
+   */
+  async listEventChanges(
+    calendarId: string = 'primary',
+    options: { syncToken?: string; timeMin?: string; pageToken?: string } = {}
+  ): Promise<EventChangesPage> {
+    // singleEvents must be the same on the initial and every incremental request
+    const params = new URLSearchParams({ singleEvents: 'true', showDeleted: 'true', maxResults: '250' });
+
+    if (options.syncToken) {
+      params.set('syncToken', options.syncToken);
+    } else if (options.timeMin) {
+      params.set('timeMin', options.timeMin);
+    }
+    if (options.pageToken) params.set('pageToken', options.pageToken);
+
+    const result = await this.request<EventChangesPage>(
+      `/calendars/${encodeURIComponent(calendarId)}/events?${params.toString()}`
+    );
+    return {
+      items: result.items || [],
+      nextPageToken: result.nextPageToken,
+      nextSyncToken: result.nextSyncToken,
+    };
+  }
+
+  /**
+   * Register a push notification channel for event changes (events.watch)
+   */
+  async watchEvents(
+    calendarId: string = 'primary',
+    channel: { id: string; address: string; token: string; ttlSeconds?: number }
+  ): Promise<WatchChannel> {
+    return this.request(
+      `/calendars/${encodeURIComponent(calendarId)}/events/watch`,
+      'POST',
+      {
+        id: channel.id,
+        type: 'web_hook',
+        address: channel.address,
+        token: channel.token,
+        ...(channel.ttlSeconds ? { params: { ttl: String(channel.ttlSeconds) } } : {}),
+      }
+    );
+  }
+
+  /**
+   * Stop a push notification channel
+   */
+  async stopChannel(channelId: string, resourceId: string): Promise<void> {
+    await this.request('/channels/stop', 'POST', { id: channelId, resourceId });
+  }
+
   /**
    * Get a specific event
    */
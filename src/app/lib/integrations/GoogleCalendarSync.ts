@@ -0,0 +1,368 @@
+/**
+ * Google Calendar Incremental Sync
+ *
+ * Keeps a per-organization syncToken so each run only lists events that
+ * changed since the last one, registers an events.watch channel so Google
+ * pushes change notifications to /api/integrations/google-calendar/webhook,
+ * and maintains calendar_busy_intervals so slot search reads busy time from
+ * the database instead of calling freeBusy.
+ *
+ * The syncToken is shared: every listing advances it, so changed events must
+ * also be imported into appointments. Go through
+ * SyncManager.syncGoogleCalendarChanges rather than calling
+ * syncCalendarChanges without an onEvents handler.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { getSupabaseAdmin } from '../supabaseClient';
+import { getGoogleCalendarCredentials } from '../credentialLoader';
+import { getAppUrl } from '../email/resendClient';
+import {
+  formatLocalDateTime,
+  instantToLocalMinutes,
+  mergeIntervals,
+  parseLocalDateTime,
+  type TimeInterval,
+} from '../scheduling/intervals';
+import { GoogleCalendarService, type GoogleCalendarEvent } from './GoogleCalendarService';
+
+/** Initial (token-less) listings start this far back */
+const FULL_SYNC_LOOKBACK_DAYS = 7;
+
+/** Without a live push channel the cache is trusted for this long after a sync */
+const CACHE_FRESH_MS = 15 * 60 * 1000;
+
+/** Requested channel lifetime; Google may shorten it */
+const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Renew channels this long before they expire */
+const CHANNEL_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// Syncs running in this process, so concurrent callers share one listing
+const inFlight = new Map<string, Promise<CalendarSyncResult>>();
+
+export const GOOGLE_CALENDAR_WEBHOOK_PATH = '/api/integrations/google-calendar/webhook';
+
+export interface CalendarSyncState {
+  id: string;
+  organization_id: string;
+  calendar_id: string;
+  sync_token: string | null;
+  full_synced_at: string | null;
+  last_synced_at: string | null;
+  last_error: string | null;
+  channel_id: string | null;
+  channel_resource_id: string | null;
+  channel_token: string | null;
+  channel_expires_at: string | null;
+  last_notification_at: string | null;
+}
+
+export interface CalendarSyncResult {
+  full: boolean;
+  changed: number;
+}
+
+/**
+ * Busy wall-clock interval for an event, or null when it doesn't block time
+ * (cancelled, marked "free", or missing times). All-day events block whole days.
+ */
+export function eventToBusyInterval(event: GoogleCalendarEvent, timeZone: string): TimeInterval | null {
+  if (event.status === 'cancelled' || event.transparency === 'transparent') return null;
+
+  let start: number | null = null;
+  let end: number | null = null;
+
+  if (event.start?.dateTime && event.end?.dateTime) {
+    start = instantToLocalMinutes(new Date(event.start.dateTime), timeZone);
+    end = instantToLocalMinutes(new Date(event.end.dateTime), timeZone);
+  } else if (event.start?.date && event.end?.date) {
+    // end.date is exclusive, so midnight-to-midnight covers the event's days
+    start = parseLocalDateTime(`${event.start.date} 00:00`);
+    end = parseLocalDateTime(`${event.end.date} 00:00`);
+  }
+
+  if (start === null || end === null || isNaN(start) || isNaN(end) || end <= start) return null;
+  return { start, end };
+}
+
+/**
+ * Is the busy cache current enough to answer slot searches?
+ * Needs a completed full listing, plus either a live push channel or a recent sync.
+ */
+export function isCacheWarm(state: CalendarSyncState | null, now: Date = new Date()): boolean {
+  if (!state?.full_synced_at || !state.sync_token) return false;
+
+  const channelLive = !!state.channel_id && !!state.channel_expires_at
+    && new Date(state.channel_expires_at).getTime() > now.getTime();
+  const recentlySynced = !!state.last_synced_at
+    && now.getTime() - new Date(state.last_synced_at).getTime() < CACHE_FRESH_MS;
+
+  return channelLive || recentlySynced;
+}
+
+export async function getSyncState(organizationId: string): Promise<CalendarSyncState | null> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('google_calendar_sync_state')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+  return (data as CalendarSyncState) || null;
+}
+
+export async function getSyncStateByChannel(channelId: string): Promise<CalendarSyncState | null> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('google_calendar_sync_state')
+    .select('*')
+    .eq('channel_id', channelId)
+    .maybeSingle();
+  return (data as CalendarSyncState) || null;
+}
+
+async function saveSyncState(organizationId: string, updates: Partial<CalendarSyncState>): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from('google_calendar_sync_state')
+    .upsert({ organization_id: organizationId, ...updates }, { onConflict: 'organization_id' });
+
+  if (error) {
+    console.error('[GoogleCalendarSync] Failed to save sync state:', error.message);
+  }
+}
+
+export async function recordNotification(organizationId: string): Promise<void> {
+  await saveSyncState(organizationId, { last_notification_at: new Date().toISOString() });
+}
+
+async function getOrgTimezone(organizationId: string): Promise<string> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('organizations')
+    .select('timezone')
+    .eq('id', organizationId)
+    .single();
+  return data?.timezone || 'America/New_York';
+}
+
+/**
+ * Upsert busy events and drop cancelled / free ones from the cache
+ */
+async function applyToBusyCache(
+  organizationId: string,
+  calendarId: string,
+  events: GoogleCalendarEvent[],
+  timeZone: string
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const busyRows: Array<Record<string, any>> = [];
+  const freeIds: string[] = [];
+
+  for (const event of events) {
+    if (!event.id) continue;
+    const interval = eventToBusyInterval(event, timeZone);
+    if (interval) {
+      busyRows.push({
+        organization_id: organizationId,
+        calendar_id: calendarId,
+        event_id: event.id,
+        start_local: formatLocalDateTime(interval.start),
+        end_local: formatLocalDateTime(interval.end),
+      });
+    } else {
+      freeIds.push(event.id);
+    }
+  }
+
+  if (busyRows.length > 0) {
+    const { error } = await supabase
+      .from('calendar_busy_intervals')
+      .upsert(busyRows, { onConflict: 'organization_id,calendar_id,event_id' });
+    if (error) {
+      throw new Error(`Failed to update busy cache: ${error.message}`);
+    }
+  }
+
+  if (freeIds.length > 0) {
+    await supabase
+      .from('calendar_busy_intervals')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('calendar_id', calendarId)
+      .in('event_id', freeIds);
+  }
+}
+
+/**
+ * List changed events (all events from the lookback window on a full sync),
+ * update the busy cache and hand each page to onEvents.
+ * Falls back to a full listing when there is no token or Google expired it (410).
+ * A call made while another sync for the organization is running joins it.
+ */
+export function syncCalendarChanges(
+  organizationId: string,
+  options: { full?: boolean; onEvents?: (events: GoogleCalendarEvent[]) => Promise<void> } = {}
+): Promise<CalendarSyncResult> {
+  const running = inFlight.get(organizationId);
+  if (running) return running;
+
+  const sync = runCalendarSync(organizationId, options).finally(() => inFlight.delete(organizationId));
+  inFlight.set(organizationId, sync);
+  return sync;
+}
+
+async function runCalendarSync(
+  organizationId: string,
+  options: { full?: boolean; onEvents?: (events: GoogleCalendarEvent[]) => Promise<void> }
+): Promise<CalendarSyncResult> {
+  const credentials = await getGoogleCalendarCredentials(organizationId);
+  if (!credentials.clientId || !credentials.clientSecret || !credentials.refreshToken) {
+    throw new Error('Google Calendar credentials not configured');
+  }
+
+  const calendarId = credentials.calendarId || 'primary';
+  const state = await getSyncState(organizationId);
+  // A token belongs to one calendar; switching calendars needs a full listing
+  const full = options.full || !state?.sync_token || state.calendar_id !== calendarId;
+
+  const timeZone = await getOrgTimezone(organizationId);
+  const calendarService = new GoogleCalendarService(organizationId);
+  const supabase = getSupabaseAdmin();
+
+  if (full) {
+    await supabase
+      .from('calendar_busy_intervals')
+      .delete()
+      .eq('organization_id', organizationId);
+  }
+
+  let changed = 0;
+  let nextSyncToken: string | undefined;
+  let pageToken: string | undefined;
+
+  try {
+    do {
+      const page = await calendarService.listEventChanges(calendarId, full
+        ? { timeMin: new Date(Date.now() - FULL_SYNC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString(), pageToken }
+        : { syncToken: state!.sync_token!, pageToken });
+
+      await applyToBusyCache(organizationId, calendarId, page.items, timeZone);
+      if (options.onEvents && page.items.length > 0) {
+        await options.onEvents(page.items);
+      }
+
+      changed += page.items.length;
+      pageToken = page.nextPageToken;
+      nextSyncToken = page.nextSyncToken || nextSyncToken;
+    } while (pageToken);
+  } catch (error: any) {
+    if (!full && error?.status === 410) {
+      console.log(`[GoogleCalendarSync] Sync token expired for org ${organizationId}, running full sync`);
+      await saveSyncState(organizationId, { sync_token: null });
+      return runCalendarSync(organizationId, { ...options, full: true });
+    }
+    await saveSyncState(organizationId, {
+      last_error: error?.message || String(error),
+    });
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  await saveSyncState(organizationId, {
+    calendar_id: calendarId,
+    sync_token: nextSyncToken || null,
+    last_synced_at: now,
+    last_error: null,
+    ...(full ? { full_synced_at: now } : {}),
+  });
+
+  console.log(`[GoogleCalendarSync] ${full ? 'Full' : 'Incremental'} sync for org ${organizationId}: ${changed} event(s)`);
+  return { full, changed };
+}
+
+/**
+ * Busy intervals from the cache, or null when the cache isn't warm and the
+ * caller should ask Google directly
+ */
+export async function getCachedBusyIntervals(
+  organizationId: string,
+  dateStart: string,
+  dateEnd: string
+): Promise<TimeInterval[] | null> {
+  const state = await getSyncState(organizationId);
+  if (!isCacheWarm(state)) return null;
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('calendar_busy_intervals')
+    .select('start_local, end_local')
+    .eq('organization_id', organizationId)
+    .eq('calendar_id', state!.calendar_id)
+    .lt('start_local', `${dateEnd} 23:59:59`)
+    .gt('end_local', `${dateStart} 00:00:00`);
+
+  if (error) {
+    console.warn('[GoogleCalendarSync] Busy cache read failed:', error.message);
+    return null;
+  }
+
+  const intervals: TimeInterval[] = [];
+  for (const row of data || []) {
+    const start = parseLocalDateTime(row.start_local);
+    const end = parseLocalDateTime(row.end_local);
+    if (start !== null && end !== null && end > start) {
+      intervals.push({ start, end });
+    }
+  }
+  return mergeIntervals(intervals);
+}
+
+/**
+ * Make sure a push channel is registered and not about to expire.
+ * The old channel is stopped after the new one is in place.
+ */
+export async function ensureWatchChannel(
+  organizationId: string,
+  options: { force?: boolean } = {}
+): Promise<CalendarSyncState | null> {
+  const state = await getSyncState(organizationId);
+  const expiresAt = state?.channel_expires_at ? new Date(state.channel_expires_at).getTime() : 0;
+  if (!options.force && state?.channel_id && expiresAt - Date.now() > CHANNEL_RENEW_BEFORE_MS) {
+    return state;
+  }
+
+  const credentials = await getGoogleCalendarCredentials(organizationId);
+  const calendarId = credentials.calendarId || 'primary';
+  const calendarService = new GoogleCalendarService(organizationId);
+
+  const channelId = randomUUID();
+  const channelToken = randomBytes(24).toString('hex');
+  const channel = await calendarService.watchEvents(calendarId, {
+    id: channelId,
+    address: `${getAppUrl()}${GOOGLE_CALENDAR_WEBHOOK_PATH}`,
+    token: channelToken,
+    ttlSeconds: CHANNEL_TTL_SECONDS,
+  });
+
+  await saveSyncState(organizationId, {
+    calendar_id: calendarId,
+    channel_id: channel.id || channelId,
+    channel_resource_id: channel.resourceId,
+    channel_token: channelToken,
+    channel_expires_at: channel.expiration
+      ? new Date(Number(channel.expiration)).toISOString()
+      : new Date(Date.now() + CHANNEL_TTL_SECONDS * 1000).toISOString(),
+  });
+
+  if (state?.channel_id && state.channel_resource_id) {
+    try {
+      await calendarService.stopChannel(state.channel_id, state.channel_resource_id);
+    } catch (error) {
+      console.warn('[GoogleCalendarSync] Could not stop previous channel:', error);
+    }
+  }
+
+  console.log(`[GoogleCalendarSync] Watch channel ${channelId} registered for org ${organizationId}`);
+  return getSyncState(organizationId);
+}
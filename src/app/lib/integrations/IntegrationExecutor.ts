@@ -8,6 +8,7 @@
 
 import { getSupabaseAdmin } from '../supabaseClient';
 import { getCredentials } from '../credentialLoader';
+import { applyFieldRule, applyResponseMapping, type FieldSpec, type ResponseMapping } from './ResponseMapping';
 
 interface ExternalIntegration {
   id: string;
@@ -67,9 +68,15 @@ export class IntegrationExecutor {
   }
 
   /**
-   * Execute a function call on the external integration
+   * Execute a function call on the external integration.
+   * idempotencyKey is sent as an Idempotency-Key header so the remote side can
+   * de-duplicate retried writes.
    */
-  async execute(functionName: string, parameters: Record<string, any>): Promise<any> {
+  async execute(
+    functionName: string,
+    parameters: Record<string, any>,
+    options: { idempotencyKey?: string } = {}
+  ): Promise<any> {
     console.log(`[IntegrationExecutor] Executing ${functionName} for integration ${this.integrationId}`);
 
     // 1. Load integration config
@@ -96,6 +103,9 @@ export class IntegrationExecutor {
 
     // 7. Load auth config and credentials
     const authHeaders = await this.loadAuthHeaders();
+    if (options.idempotencyKey) {
+      authHeaders['Idempotency-Key'] = options.idempotencyKey;
+    }
 
     // 8. Execute with retry logic
     const response = await this.executeWithRetry(request, authHeaders);
@@ -210,7 +220,8 @@ export class IntegrationExecutor {
         const transformedValue = await this.applyTransform(
           value,
           mapping.transform_type,
-          mapping.transform_config
+          mapping.transform_config,
+          parameters
         );
         result[mapping.external_name] = transformedValue;
       } else {
@@ -228,7 +239,8 @@ export class IntegrationExecutor {
   private async applyTransform(
     value: any,
     transformType: string,
-    config: Record<string, any>
+    config: Record<string, any>,
+    parameters: Record<string, any> = {}
   ): Promise<any> {
     if (value === null || value === undefined) {
       return value;
@@ -252,10 +264,8 @@ export class IntegrationExecutor {
         return value || config.value;
 
       case 'custom':
-        // For custom transforms, config should contain transformation logic
-        // This could be enhanced with a safe eval or predefined functions
-        console.warn('[IntegrationExecutor] Custom transforms not yet implemented');
-        return value;
+        // config is a ResponseMapping field rule: "$" is the value, "$$" the whole object
+        return applyFieldRule(config as FieldSpec, value, parameters);
 
       default:
         return value;
@@ -589,23 +599,61 @@ export class IntegrationExecutor {
   }
 
   /**
-   * Transform response
+   * Transform response (external → internal).
+   * response_transform reshapes the payload (see ResponseMapping), then
+   * response-direction parameter maps rename external fields to internal names.
    */
-  private transformResponse(
+  private async transformResponse(
     endpoint: IntegrationEndpoint,
     response: any,
     mappings: ParameterMap[]
-  ): any {
-    // If response_transform is specified, apply it
-    if (endpoint.response_transform) {
-      // Custom response transformation logic would go here
-      console.warn('[IntegrationExecutor] Custom response transforms not yet implemented');
+  ): Promise<any> {
+    let result = response;
+
+    if (endpoint.response_transform && Object.keys(endpoint.response_transform).length > 0) {
+      try {
+        result = applyResponseMapping(endpoint.response_transform as ResponseMapping, response);
+      } catch (error: any) {
+        throw new Error(`Response mapping failed for ${endpoint.function_name}: ${error.message}`);
+      }
+    }
+
+    const responseMappings = mappings.filter(
+      m => m.direction === 'response' || m.direction === 'both'
+    );
+    if (responseMappings.length === 0) {
+      return result;
     }
 
-    // Apply reverse parameter mappings if needed
-    // This would map external field names back to internal names
-    // For now, return response as-is
-    return response;
+    if (Array.isArray(result)) {
+      return Promise.all(result.map(item => this.mapResponseFields(item, responseMappings)));
+    }
+    return this.mapResponseFields(result, responseMappings);
+  }
+
+  /**
+   * Rename external fields back to internal names. Transforms only run for
+   * 'response' maps; 'both' maps are written for the request side.
+   */
+  private async mapResponseFields(item: any, mappings: ParameterMap[]): Promise<any> {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return item;
+    }
+
+    const result: Record<string, any> = { ...item };
+    for (const mapping of mappings) {
+      if (!(mapping.external_name in item)) continue;
+
+      const value = mapping.direction === 'response'
+        ? await this.applyTransform(item[mapping.external_name], mapping.transform_type, mapping.transform_config, item)
+        : item[mapping.external_name];
+
+      if (mapping.external_name !== mapping.internal_name) {
+        delete result[mapping.external_name];
+      }
+      result[mapping.internal_name] = value;
+    }
+    return result;
   }
 }
 
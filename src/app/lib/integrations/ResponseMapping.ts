@@ -0,0 +1,506 @@
+/**
+ * Response Mapping
+ *
+ * Declarative, side-effect-free mapping language used by IntegrationExecutor to
+ * normalize vendor payloads into our OpenDental-shaped format (AptNum, PatNum, ...).
+ * Stored as integration_endpoints.response_transform, and as transform_config
+ * for parameter maps with transform_type 'custom'. Nothing is evaluated as code.
+ *
+ * Example response_transform:
+ * {
+ *   "root": "$.data.appointments",
+ *   "fields": {
+ *     "AptNum": { "path": "$.id", "type": "integer" },
+ *     "PatNum": "$.patient.id",
+ *     "AptDateTime": { "path": "$.start", "date": { "to": "YYYY-MM-DD HH:mm:ss", "timezone": "America/New_York" } },
+ *     "AptStatus": { "path": "$.state", "lookup": { "booked": "Scheduled", "done": "Complete" }, "default": "Scheduled" },
+ *     "Length": { "compute": "duration_minutes", "args": ["$.start", "$.end"] },
+ *     "ProvName": { "template": "{{$.provider.first}} {{$.provider.last}}" },
+ *     "Procedures": { "path": "$.lines", "each": { "fields": { "ProcCode": "$.code" } } }
+ *   }
+ * }
+ *
+ * Paths: "$" is the current item, "$$" the whole response. Supports ".key",
+ * "['key with spaces']", "[0]", "[-1]" (last) and "[*]" (every element).
+ */
+
+import { formatLocalDateTime, instantToLocalMinutes, parseLocalDateTime } from '../scheduling/intervals';
+
+export type FieldSpec = string | FieldRule;
+
+export interface FieldRule {
+  /** Source: one of path / value / template / compute (defaults to the current item) */
+  path?: string;
+  value?: any;
+  template?: string;
+  compute?: ComputeOperation;
+  args?: any[];
+  /** Map each element of an array source through a nested mapping */
+  each?: ResponseMapping;
+  /** Value lookup table; unmatched values fall through unchanged unless lookupStrict */
+  lookup?: Record<string, any>;
+  lookupStrict?: boolean;
+  date?: DateRule;
+  type?: 'string' | 'number' | 'integer' | 'boolean';
+  default?: any;
+}
+
+export interface DateRule {
+  /** Output format (default 'YYYY-MM-DD HH:mm:ss') */
+  to?: 'YYYY-MM-DD HH:mm:ss' | 'YYYY-MM-DD' | 'HH:mm' | 'HH:mm:ss' | 'iso' | 'epoch_ms';
+  /** Convert instants to wall clock in this timezone */
+  timezone?: string;
+  /** Timezone of naive input values ("2026-03-10 09:00"); without it they're kept as wall clock */
+  sourceTimezone?: string;
+  /** Numeric input unit (default: strings are parsed, numbers are epoch ms) */
+  from?: 'epoch_ms' | 'epoch_s';
+}
+
+export interface ResponseMapping {
+  /** Path to the data inside the response before field mapping */
+  root?: string;
+  fields?: Record<string, FieldSpec>;
+  /** Copy source keys that aren't mapped (default false when fields are given) */
+  keepUnmapped?: boolean;
+}
+
+export const COMPUTE_OPERATIONS = [
+  'concat', 'join', 'coalesce', 'add', 'subtract', 'multiply', 'divide',
+  'duration_minutes', 'count', 'lowercase', 'uppercase', 'trim', 'digits', 'equals', 'not',
+] as const;
+export type ComputeOperation = typeof COMPUTE_OPERATIONS[number];
+
+const DATE_FORMATS = ['YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD', 'HH:mm', 'HH:mm:ss', 'iso', 'epoch_ms'];
+const FIELD_RULE_KEYS = ['path', 'value', 'template', 'compute', 'args', 'each', 'lookup', 'lookupStrict', 'date', 'type', 'default'];
+const MAX_DEPTH = 8;
+
+interface Scope {
+  current: any;
+  root: any;
+}
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+type PathToken = string | number | '*';
+
+function tokenizePath(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  const re = /\.([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\[\*\]|\.\*|\['([^']*)'\]|\["([^"]*)"\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(path)) !== null) {
+    if (match.index !== lastIndex) {
+      throw new Error(`Invalid path "${path}" near "${path.slice(lastIndex)}"`);
+    }
+    if (match[1] !== undefined) tokens.push(match[1]);
+    else if (match[2] !== undefined) tokens.push(Number(match[2]));
+    else if (match[3] !== undefined) tokens.push(match[3]);
+    else if (match[4] !== undefined) tokens.push(match[4]);
+    else tokens.push('*');
+    lastIndex = re.lastIndex;
+  }
+
+  if (lastIndex !== path.length) {
+    throw new Error(`Invalid path "${path}" near "${path.slice(lastIndex)}"`);
+  }
+  return tokens;
+}
+
+function isPath(value: unknown): value is string {
+  return typeof value === 'string' && (value === '$' || value === '$$' || /^\$\$?[.[]/.test(value));
+}
+
+/**
+ * Read a value by path. A "[*]" step maps the rest of the path over every element.
+ */
+export function getPath(path: string, scope: Scope): any {
+  const fromRoot = path.startsWith('$$');
+  const tokens = tokenizePath(path.slice(fromRoot ? 2 : 1));
+  return walk(fromRoot ? scope.root : scope.current, tokens);
+}
+
+function walk(value: any, tokens: PathToken[]): any {
+  if (tokens.length === 0) return value;
+  if (value === null || value === undefined) return undefined;
+
+  const [token, ...rest] = tokens;
+  if (token === '*') {
+    if (!Array.isArray(value)) return undefined;
+    return value.map(item => walk(item, rest));
+  }
+  if (typeof token === 'number') {
+    if (!Array.isArray(value)) return undefined;
+    return walk(value[token < 0 ? value.length + token : token], rest);
+  }
+  return walk(value[token], rest);
+}
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/** Milliseconds offset of a timezone from UTC at a given instant */
+function timezoneOffsetMs(instantMs: number, timeZone: string): number {
+  return instantToLocalMinutes(new Date(instantMs), timeZone) * 60000 - Math.floor(instantMs / 60000) * 60000;
+}
+
+/** Instant (ms) for a wall-clock time in a timezone */
+function localToInstantMs(localMinutes: number, timeZone: string): number {
+  const guess = localMinutes * 60000;
+  const first = guess - timezoneOffsetMs(guess, timeZone);
+  // Second pass settles DST transitions between guess and result
+  return guess - timezoneOffsetMs(first, timeZone);
+}
+
+function hasOffset(value: string): boolean {
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+}
+
+/**
+ * Convert a vendor date into our format. Instants (ISO with offset, epoch) are
+ * rendered as wall clock in rule.timezone; naive values stay wall clock unless
+ * rule.sourceTimezone says where they were recorded.
+ */
+export function convertDate(value: any, rule: DateRule): any {
+  if (value === null || value === undefined || value === '') return value;
+
+  const to = rule.to || 'YYYY-MM-DD HH:mm:ss';
+  let instantMs: number | null = null;
+  let localMinutes: number | null = null;
+
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d{10,13}$/.test(value))) {
+    const n = Number(value);
+    instantMs = rule.from === 'epoch_s' || (rule.from !== 'epoch_ms' && String(value).length === 10) ? n * 1000 : n;
+  } else if (typeof value === 'string' && hasOffset(value)) {
+    instantMs = Date.parse(value);
+  } else if (typeof value === 'string') {
+    const naive = /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? `${value.trim()} 00:00` : value;
+    localMinutes = parseLocalDateTime(naive);
+    if (localMinutes !== null && rule.sourceTimezone) {
+      instantMs = localToInstantMs(localMinutes, rule.sourceTimezone);
+      localMinutes = null;
+    }
+  }
+
+  if (instantMs !== null) {
+    if (isNaN(instantMs)) return value;
+    if (to === 'iso') return new Date(instantMs).toISOString();
+    if (to === 'epoch_ms') return instantMs;
+    localMinutes = rule.timezone
+      ? instantToLocalMinutes(new Date(instantMs), rule.timezone)
+      : Math.floor(instantMs / 60000);
+  }
+
+  if (localMinutes === null) return value;
+
+  const formatted = formatLocalDateTime(localMinutes);
+  switch (to) {
+    case 'YYYY-MM-DD':
+      return formatted.substring(0, 10);
+    case 'HH:mm':
+      return formatted.substring(11, 16);
+    case 'HH:mm:ss':
+      return formatted.substring(11, 19);
+    case 'iso':
+      return rule.timezone
+        ? new Date(localToInstantMs(localMinutes, rule.timezone)).toISOString()
+        : formatted.replace(' ', 'T');
+    case 'epoch_ms':
+      return rule.timezone ? localToInstantMs(localMinutes, rule.timezone) : localMinutes * 60000;
+    default:
+      return formatted;
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function resolveArg(arg: any, scope: Scope, depth: number): any {
+  if (isPath(arg)) return getPath(arg, scope);
+  if (arg && typeof arg === 'object' && !Array.isArray(arg)) return evaluateField(arg, scope, depth + 1);
+  return arg;
+}
+
+function toNumber(value: any): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(n) ? 0 : n;
+}
+
+function compute(operation: ComputeOperation, args: any[]): any {
+  switch (operation) {
+    case 'concat':
+      return args.filter(a => a !== null && a !== undefined).join('');
+    case 'join': {
+      const [list, separator = ', '] = args;
+      return Array.isArray(list) ? list.filter(a => a !== null && a !== undefined && a !== '').join(separator) : list;
+    }
+    case 'coalesce':
+      return args.find(a => a !== null && a !== undefined && a !== '');
+    case 'add':
+      return args.reduce((sum, a) => sum + toNumber(a), 0);
+    case 'subtract':
+      return args.slice(1).reduce((acc, a) => acc - toNumber(a), toNumber(args[0]));
+    case 'multiply':
+      return args.reduce((acc, a) => acc * toNumber(a), 1);
+    case 'divide': {
+      const divisor = toNumber(args[1]);
+      return divisor === 0 ? null : toNumber(args[0]) / divisor;
+    }
+    case 'duration_minutes': {
+      const start = Date.parse(String(args[0] ?? ''));
+      const end = Date.parse(String(args[1] ?? ''));
+      return isNaN(start) || isNaN(end) ? null : Math.round((end - start) / 60000);
+    }
+    case 'count':
+      return Array.isArray(args[0]) ? args[0].length : 0;
+    case 'lowercase':
+      return args[0] === null || args[0] === undefined ? args[0] : String(args[0]).toLowerCase();
+    case 'uppercase':
+      return args[0] === null || args[0] === undefined ? args[0] : String(args[0]).toUpperCase();
+    case 'trim':
+      return args[0] === null || args[0] === undefined ? args[0] : String(args[0]).trim();
+    case 'digits':
+      return args[0] === null || args[0] === undefined ? args[0] : String(args[0]).replace(/\D/g, '');
+    case 'equals':
+      return args.length > 1 && args.every(a => String(a) === String(args[0]));
+    case 'not':
+      return !args[0];
+  }
+}
+
+function castType(value: any, type: FieldRule['type']): any {
+  if (value === null || value === undefined || !type) return value;
+  switch (type) {
+    case 'string':
+      return String(value);
+    case 'number': {
+      const n = typeof value === 'number' ? value : parseFloat(String(value));
+      return isNaN(n) ? null : n;
+    }
+    case 'integer': {
+      const n = typeof value === 'number' ? Math.trunc(value) : parseInt(String(value), 10);
+      return isNaN(n) ? null : n;
+    }
+    case 'boolean':
+      if (typeof value === 'string') return ['true', '1', 'yes', 'y'].includes(value.toLowerCase());
+      return !!value;
+  }
+}
+
+function evaluateField(spec: FieldSpec, scope: Scope, depth: number): any {
+  if (depth > MAX_DEPTH) {
+    throw new Error('Mapping is nested too deeply');
+  }
+  if (typeof spec === 'string') {
+    return isPath(spec) ? getPath(spec, scope) : spec;
+  }
+
+  let value: any;
+  if (spec.path !== undefined) {
+    value = getPath(spec.path, scope);
+  } else if (spec.value !== undefined) {
+    value = spec.value;
+  } else if (spec.template !== undefined) {
+    value = spec.template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, path: string) => {
+      const resolved = getPath(path.startsWith('$') ? path : `$.${path}`, scope);
+      return resolved === null || resolved === undefined ? '' : String(resolved);
+    }).trim();
+  } else if (spec.compute !== undefined) {
+    value = compute(spec.compute, (spec.args || []).map(arg => resolveArg(arg, scope, depth)));
+  } else {
+    value = scope.current;
+  }
+
+  if (spec.each) {
+    const items = Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+    value = items.map(item => mapValue(spec.each!, { current: item, root: scope.root }, depth + 1));
+  }
+
+  if (spec.lookup && value !== null && value !== undefined) {
+    const key = String(value);
+    if (Object.prototype.hasOwnProperty.call(spec.lookup, key)) {
+      value = spec.lookup[key];
+    } else if (Object.prototype.hasOwnProperty.call(spec.lookup, key.toLowerCase())) {
+      value = spec.lookup[key.toLowerCase()];
+    } else if (spec.lookupStrict) {
+      value = undefined;
+    }
+  }
+
+  if (spec.date) {
+    value = Array.isArray(value) ? value.map(v => convertDate(v, spec.date!)) : convertDate(value, spec.date);
+  }
+
+  value = Array.isArray(value) && spec.type ? value.map(v => castType(v, spec.type)) : castType(value, spec.type);
+
+  if ((value === null || value === undefined || value === '') && spec.default !== undefined) {
+    value = spec.default;
+  }
+  return value;
+}
+
+function mapObject(mapping: ResponseMapping, scope: Scope, depth: number): any {
+  const source = scope.current;
+  if (!mapping.fields) return source;
+
+  const keepUnmapped = mapping.keepUnmapped === true;
+  const result: Record<string, any> = keepUnmapped && source && typeof source === 'object' && !Array.isArray(source)
+    ? { ...source }
+    : {};
+
+  for (const [name, spec] of Object.entries(mapping.fields)) {
+    const value = evaluateField(spec, scope, depth);
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+function mapValue(mapping: ResponseMapping, scope: Scope, depth: number): any {
+  const data = mapping.root ? getPath(mapping.root, scope) : scope.current;
+  if (Array.isArray(data)) {
+    return data.map(item => mapObject(mapping, { current: item, root: scope.root }, depth));
+  }
+  if (data === null || data === undefined) {
+    return data;
+  }
+  return mapObject(mapping, { current: data, root: scope.root }, depth);
+}
+
+/**
+ * Apply a response mapping to a vendor payload
+ */
+export function applyResponseMapping(mapping: ResponseMapping, response: any): any {
+  return mapValue(mapping, { current: response, root: response }, 0);
+}
+
+/**
+ * Apply a single field rule to a value (parameter maps with transform_type 'custom').
+ * "$" is the value, "$$" the full parameter object.
+ */
+export function applyFieldRule(rule: FieldSpec, value: any, parameters: Record<string, any> = {}): any {
+  return evaluateField(rule, { current: value, root: parameters }, 0);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validatePath(path: unknown, where: string, errors: string[]): void {
+  if (!isPath(path)) {
+    errors.push(`${where}: "${String(path)}" is not a path (must start with $ or $$)`);
+    return;
+  }
+  try {
+    tokenizePath(path.slice(path.startsWith('$$') ? 2 : 1));
+  } catch (error: any) {
+    errors.push(`${where}: ${error.message}`);
+  }
+}
+
+function validateField(spec: unknown, where: string, errors: string[], depth: number): void {
+  if (typeof spec === 'string') {
+    if (spec.startsWith('$')) validatePath(spec, where, errors);
+    return;
+  }
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    errors.push(`${where}: must be a path string or a rule object`);
+    return;
+  }
+
+  const rule = spec as Record<string, any>;
+  const unknownKeys = Object.keys(rule).filter(k => !FIELD_RULE_KEYS.includes(k));
+  if (unknownKeys.length > 0) {
+    errors.push(`${where}: unknown key(s) ${unknownKeys.join(', ')}`);
+  }
+
+  const sources = ['path', 'value', 'template', 'compute'].filter(k => rule[k] !== undefined);
+  if (sources.length > 1) {
+    errors.push(`${where}: use only one of ${sources.join(', ')}`);
+  }
+  if (rule.path !== undefined) validatePath(rule.path, `${where}.path`, errors);
+  if (rule.template !== undefined && typeof rule.template !== 'string') {
+    errors.push(`${where}.template: must be a string`);
+  }
+  if (rule.compute !== undefined) {
+    if (!COMPUTE_OPERATIONS.includes(rule.compute)) {
+      errors.push(`${where}.compute: unknown operation "${rule.compute}" (allowed: ${COMPUTE_OPERATIONS.join(', ')})`);
+    }
+    if (rule.args !== undefined && !Array.isArray(rule.args)) {
+      errors.push(`${where}.args: must be an array`);
+    }
+    (Array.isArray(rule.args) ? rule.args : []).forEach((arg: unknown, i: number) => {
+      if (arg && typeof arg === 'object' && !Array.isArray(arg)) validateField(arg, `${where}.args[${i}]`, errors, depth + 1);
+      else if (typeof arg === 'string' && arg.startsWith('$')) validatePath(arg, `${where}.args[${i}]`, errors);
+    });
+  }
+  if (rule.lookup !== undefined && (typeof rule.lookup !== 'object' || Array.isArray(rule.lookup) || rule.lookup === null)) {
+    errors.push(`${where}.lookup: must be an object of value → replacement`);
+  }
+  if (rule.date !== undefined) {
+    const date = rule.date as Record<string, any>;
+    if (date.to && !DATE_FORMATS.includes(date.to)) {
+      errors.push(`${where}.date.to: must be one of ${DATE_FORMATS.join(', ')}`);
+    }
+    for (const key of ['timezone', 'sourceTimezone']) {
+      if (date[key]) {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: date[key] });
+        } catch {
+          errors.push(`${where}.date.${key}: unknown timezone "${date[key]}"`);
+        }
+      }
+    }
+  }
+  if (rule.type !== undefined && !['string', 'number', 'integer', 'boolean'].includes(rule.type)) {
+    errors.push(`${where}.type: must be string, number, integer or boolean`);
+  }
+  if (rule.each !== undefined) {
+    validateMappingAt(rule.each, `${where}.each`, errors, depth + 1);
+  }
+}
+
+function validateMappingAt(mapping: unknown, where: string, errors: string[], depth: number): void {
+  if (depth > MAX_DEPTH) {
+    errors.push(`${where}: nested too deeply`);
+    return;
+  }
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    errors.push(`${where}: must be an object`);
+    return;
+  }
+  const m = mapping as Record<string, any>;
+  if (m.root !== undefined) validatePath(m.root, `${where}.root`, errors);
+  if (m.fields !== undefined) {
+    if (!m.fields || typeof m.fields !== 'object' || Array.isArray(m.fields)) {
+      errors.push(`${where}.fields: must be an object`);
+    } else {
+      for (const [name, spec] of Object.entries(m.fields)) {
+        validateField(spec, `${where}.fields.${name}`, errors, depth);
+      }
+    }
+  }
+}
+
+/**
+ * Check a mapping before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateResponseMapping(mapping: unknown): string[] {
+  const errors: string[] = [];
+  validateMappingAt(mapping, 'mapping', errors, 0);
+  return errors;
+}
+
+/**
+ * Check a single field rule (transform_config of a 'custom' parameter map)
+ */
+export function validateFieldRule(rule: unknown): string[] {
+  const errors: string[] = [];
+  validateField(rule, 'rule', errors, 0);
+  return errors;
+}
@@ -0,0 +1,273 @@
+/**
+ * Sync Conflicts
+ *
+ * Conflict detection for bidirectional sync. Each synced record keeps a
+ * baseline in sync_record_versions (external etag + local updated_at at the
+ * last successful sync). A pulled record is a conflict when both sides moved
+ * past that baseline; the integration's conflict_resolution decides the winner,
+ * or for 'manual' the conflict is queued in sync_conflicts for an admin.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import type { OutboxEntityType } from './SyncOutbox';
+
+export type ConflictResolution = 'external_wins' | 'local_wins' | 'manual' | 'latest_timestamp';
+export type ConflictStatus = 'open' | 'resolved' | 'dismissed';
+export type ConflictAction = 'keep_local' | 'keep_external' | 'dismiss';
+
+/** What to do with a pulled record */
+export type PullDecision = 'apply_external' | 'keep_local' | 'queue_review' | 'unchanged';
+
+export interface SyncRecordVersion {
+  id: string;
+  organization_id: string;
+  integration_key: string;
+  entity_type: OutboxEntityType;
+  entity_id: number;
+  external_id: string;
+  external_etag: string | null;
+  external_updated_at: string | null;
+  local_updated_at: string | null;
+  synced_at: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  organization_id: string;
+  sync_config_id: string | null;
+  integration_key: string;
+  entity_type: OutboxEntityType;
+  entity_id: number;
+  external_id: string;
+  local_snapshot: Record<string, any>;
+  external_snapshot: Record<string, any>;
+  external_etag: string | null;
+  external_updated_at: string | null;
+  status: ConflictStatus;
+  resolution: ConflictAction | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VersionRef {
+  organizationId: string;
+  integrationKey: string;
+  entityType: OutboxEntityType;
+  entityId: number;
+}
+
+function toMs(value: string | null | undefined): number {
+  if (!value) return 0;
+  const ms = new Date(value).getTime();
+  return isNaN(ms) ? 0 : ms;
+}
+
+/**
+ * Decide how to handle a pulled record.
+ *
+ * Without a baseline both sides count as changed, so differing values are a
+ * conflict; external_wins (the default) then behaves like the old overwrite.
+ */
+export function decidePull(input: {
+  baseline: SyncRecordVersion | null;
+  externalEtag: string | null;
+  externalUpdatedAt: string | null;
+  localUpdatedAt: string | null;
+  valuesDiffer: boolean;
+  strategy: ConflictResolution;
+}): { decision: PullDecision; conflict: boolean } {
+  const { baseline, strategy } = input;
+
+  if (!input.valuesDiffer) {
+    return { decision: 'unchanged', conflict: false };
+  }
+
+  const externalChanged = !baseline || !input.externalEtag || baseline.external_etag !== input.externalEtag;
+  const localChanged = !baseline || toMs(input.localUpdatedAt) > toMs(baseline.local_updated_at);
+
+  // Only local moved: the outbox pushes it
+  if (!externalChanged) {
+    return { decision: 'unchanged', conflict: false };
+  }
+  if (!localChanged) {
+    return { decision: 'apply_external', conflict: false };
+  }
+
+  switch (strategy) {
+    case 'local_wins':
+      return { decision: 'keep_local', conflict: true };
+    case 'manual':
+      return { decision: 'queue_review', conflict: true };
+    case 'latest_timestamp':
+      return {
+        decision: toMs(input.externalUpdatedAt) > toMs(input.localUpdatedAt) ? 'apply_external' : 'keep_local',
+        conflict: true,
+      };
+    case 'external_wins':
+    default:
+      return { decision: 'apply_external', conflict: true };
+  }
+}
+
+export async function getRecordVersion(ref: VersionRef): Promise<SyncRecordVersion | null> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('sync_record_versions')
+    .select('*')
+    .eq('organization_id', ref.organizationId)
+    .eq('integration_key', ref.integrationKey)
+    .eq('entity_type', ref.entityType)
+    .eq('entity_id', ref.entityId)
+    .maybeSingle();
+  return (data as SyncRecordVersion) || null;
+}
+
+/**
+ * Store the baseline after both sides agree. localUpdatedAt must be read
+ * after the last local write of the sync, or that write looks like a change.
+ */
+export async function recordVersion(
+  ref: VersionRef,
+  version: { externalId: string; externalEtag?: string | null; externalUpdatedAt?: string | null; localUpdatedAt: string | null }
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from('sync_record_versions')
+    .upsert({
+      organization_id: ref.organizationId,
+      integration_key: ref.integrationKey,
+      entity_type: ref.entityType,
+      entity_id: ref.entityId,
+      external_id: version.externalId,
+      external_etag: version.externalEtag || null,
+      external_updated_at: version.externalUpdatedAt || null,
+      local_updated_at: version.localUpdatedAt,
+      synced_at: new Date().toISOString(),
+    }, { onConflict: 'organization_id,integration_key,entity_type,entity_id' });
+
+  if (error) {
+    console.warn('[SyncConflicts] Failed to record version:', error.message);
+  }
+}
+
+export async function deleteRecordVersion(ref: VersionRef): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from('sync_record_versions')
+    .delete()
+    .eq('organization_id', ref.organizationId)
+    .eq('integration_key', ref.integrationKey)
+    .eq('entity_type', ref.entityType)
+    .eq('entity_id', ref.entityId);
+}
+
+/**
+ * Queue a conflict for review, refreshing the snapshots if one is already open
+ */
+export async function queueConflict(conflict: {
+  organizationId: string;
+  syncConfigId: string | null;
+  integrationKey: string;
+  entityType: OutboxEntityType;
+  entityId: number;
+  externalId: string;
+  localSnapshot: Record<string, any>;
+  externalSnapshot: Record<string, any>;
+  externalEtag: string | null;
+  externalUpdatedAt: string | null;
+}): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const fields = {
+    sync_config_id: conflict.syncConfigId,
+    external_id: conflict.externalId,
+    local_snapshot: conflict.localSnapshot,
+    external_snapshot: conflict.externalSnapshot,
+    external_etag: conflict.externalEtag,
+    external_updated_at: conflict.externalUpdatedAt,
+  };
+
+  const { data: existing } = await supabase
+    .from('sync_conflicts')
+    .select('id')
+    .eq('organization_id', conflict.organizationId)
+    .eq('integration_key', conflict.integrationKey)
+    .eq('entity_type', conflict.entityType)
+    .eq('entity_id', conflict.entityId)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  const { error } = existing
+    ? await supabase.from('sync_conflicts').update(fields).eq('id', existing.id)
+    : await supabase.from('sync_conflicts').insert({
+        organization_id: conflict.organizationId,
+        integration_key: conflict.integrationKey,
+        entity_type: conflict.entityType,
+        entity_id: conflict.entityId,
+        ...fields,
+      });
+
+  if (error) {
+    throw new Error(`Failed to queue sync conflict: ${error.message}`);
+  }
+}
+
+export async function getConflict(organizationId: string, conflictId: string): Promise<SyncConflict | null> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('sync_conflicts')
+    .select('*')
+    .eq('id', conflictId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+  return (data as SyncConflict) || null;
+}
+
+export async function listConflicts(
+  organizationId: string,
+  options: { status?: ConflictStatus; limit?: number } = {}
+): Promise<SyncConflict[]> {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('sync_conflicts')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (error) {
+    throw new Error(`Failed to load sync conflicts: ${error.message}`);
+  }
+  return (data || []) as SyncConflict[];
+}
+
+/**
+ * Close an open conflict. Returns false if it was already closed.
+ */
+export async function closeConflict(
+  conflict: SyncConflict,
+  action: ConflictAction,
+  userId: string | null
+): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('sync_conflicts')
+    .update({
+      status: action === 'dismiss' ? 'dismissed' : 'resolved',
+      resolution: action,
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('id', conflict.id)
+    .eq('status', 'open')
+    .select('id')
+    .maybeSingle();
+  return !!data;
+}
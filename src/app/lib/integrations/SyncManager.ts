@@ -14,6 +14,11 @@
  * 
  * Use case: Clinics can use booking system with/without external sync
  * 
+ * External writes go through the sync outbox (SyncOutbox.ts): each push is
+ * stored first, attempted immediately, and retried with backoff on failure
+ * instead of being lost. Dead-lettered items can be replayed from the
+ * integrations page.
+ * 
  * Channel-aware syncing:
  * Each channel (Twilio, Retell, WhatsApp, Web) can be configured to sync
  * with specific integrations. The SyncManager checks both:
@@ -23,8 +28,41 @@
 
 import { getSupabaseAdmin } from '../supabaseClient';
 import { IntegrationExecutor, getIntegrationByProvider } from './IntegrationExecutor';
-import { GoogleCalendarService } from './GoogleCalendarService';
+import { GoogleCalendarService, type GoogleCalendarEvent } from './GoogleCalendarService';
+import {
+  ensureWatchChannel,
+  getSyncState,
+  isCacheWarm,
+  syncCalendarChanges,
+  type CalendarSyncResult,
+} from './GoogleCalendarSync';
 import { getGoogleCalendarCredentials } from '../credentialLoader';
+import { formatLocalDateTime, instantToLocalMinutes, parseLocalDateTime } from '../scheduling/intervals';
+import {
+  claimItem,
+  deferItem,
+  enqueueSyncItem,
+  findDueItems,
+  hasEarlierOpenItem,
+  idempotentEventId,
+  markFailed,
+  markSucceeded,
+  type OutboxEntityType,
+  type OutboxOperation,
+  type SyncOutboxItem,
+  cancelOpenItemsForEntity,
+} from './SyncOutbox';
+import {
+  closeConflict,
+  decidePull,
+  deleteRecordVersion,
+  getConflict,
+  getRecordVersion,
+  queueConflict,
+  recordVersion,
+  type ConflictAction,
+  type VersionRef,
+} from './SyncConflicts';
 
 interface SyncConfig {
   id: string;
@@ -39,6 +77,33 @@ interface SyncConfig {
   conflict_resolution: 'external_wins' | 'local_wins' | 'manual' | 'latest_timestamp';
 }
 
+/** Result counts of importing Google Calendar events */
+export interface GoogleImportCounts {
+  created: number;
+  updated: number;
+  cancelled: number;
+  conflicts: number;
+}
+
+interface GoogleImportContext {
+  config: SyncConfig;
+  strategy: SyncConfig['conflict_resolution'];
+  defaultProviderId: number | null;
+  defaultOperatoryId: number | null;
+  /** Organization timezone; appointment_datetime is wall-clock time there */
+  timezone: string;
+  counts: GoogleImportCounts;
+  pushes: Array<SyncOutboxItem | null>;
+}
+
+/** Appointment fields that Google Calendar owns on pull */
+interface PulledAppointmentFields {
+  appointment_datetime: string;
+  duration_minutes: number;
+  notes: string | null;
+  status: 'Scheduled' | 'Cancelled';
+}
+
 /**
  * Context for channel-aware sync operations
  */
@@ -49,6 +114,17 @@ export interface SyncContext {
   allowedIntegrations?: string[];
 }
 
+/**
+ * Result of processing a batch of outbox items
+ */
+export interface OutboxRunResult {
+  processed: number;
+  succeeded: number;
+  retrying: number;
+  deadLettered: number;
+  deferred: number;
+}
+
 export class SyncManager {
   private organizationId: string;
 
@@ -127,39 +203,15 @@ export class SyncManager {
     // Create local copy first
     const local = await this.createLocalAppointment(data);
 
-    // Sync to OpenDental if enabled
+    // Queue external writes, then attempt them right away (failures retry later)
+    const queued: Array<SyncOutboxItem | null> = [];
     if (hasOpenDentalSync && openDentalConfig!.sync_on_create) {
-      try {
-        const externalResult = await this.syncToExternal(
-          'opendental',
-          'CreateAppointment',
-          this.mapToExternalFormat(local, 'appointment')
-        );
-
-        // Update local record with external ID if provided
-        if (externalResult.AptNum || externalResult.appointmentId) {
-          const externalId = externalResult.AptNum || externalResult.appointmentId;
-          await this.updateLocalAppointmentExternalId(local.id, externalId);
-        }
-
-        console.log('[SyncManager] ✅ Synced to OpenDental successfully');
-      } catch (error) {
-        // Log error but don't fail local creation
-        console.error('[SyncManager] ⚠️ OpenDental sync failed:', error);
-        await this.logSyncError(openDentalConfig!.id, 'create_appointment', error);
-      }
+      queued.push(await this.queueSync(openDentalConfig!, 'opendental', 'appointment', 'create', local));
     }
-
-    // Sync to Google Calendar if enabled
     if (hasGoogleCalendarSync && googleCalendarConfig!.sync_on_create) {
-      try {
-        await this.syncToGoogleCalendar(local, 'create');
-        console.log('[SyncManager] ✅ Synced to Google Calendar successfully');
-      } catch (error) {
-        console.error('[SyncManager] ⚠️ Google Calendar sync failed:', error);
-        await this.logSyncError(googleCalendarConfig!.id, 'create_appointment_gcal', error);
-      }
+      queued.push(await this.queueSync(googleCalendarConfig!, 'google_calendar', 'appointment', 'create', local));
     }
+    await this.flushQueued(queued);
 
     return local;
   }
@@ -186,21 +238,12 @@ export class SyncManager {
 
     // Update local first
     const local = await this.updateLocalAppointment(appointmentId, data);
+    const queued: Array<SyncOutboxItem | null> = [];
 
     // Sync to OpenDental if configured AND allowed
     if (openDentalConfig?.sync_enabled && openDentalConfig.sync_on_update && 
         openDentalConfig.sync_direction !== 'local_only' && openDentalAllowed) {
-      try {
-        await this.syncToExternal(
-          'opendental',
-          'UpdateAppointment',
-          this.mapToExternalFormat(local, 'appointment')
-        );
-        console.log('[SyncManager] ✅ Update synced to OpenDental');
-      } catch (error) {
-        console.error('[SyncManager] ⚠️ OpenDental sync failed:', error);
-        await this.logSyncError(openDentalConfig.id, 'update_appointment', error);
-      }
+      queued.push(await this.queueSync(openDentalConfig, 'opendental', 'appointment', 'update', local));
     } else if (!openDentalAllowed && openDentalConfig?.sync_enabled) {
       console.log(`[SyncManager] OpenDental sync skipped - not allowed for channel ${context?.channel}`);
     }
@@ -208,17 +251,13 @@ export class SyncManager {
     // Sync to Google Calendar if configured AND allowed
     if (googleCalendarConfig?.sync_enabled && googleCalendarConfig.sync_on_update && 
         googleCalendarConfig.sync_direction !== 'local_only' && googleCalendarAllowed) {
-      try {
-        await this.syncToGoogleCalendar(local, 'update');
-        console.log('[SyncManager] ✅ Update synced to Google Calendar');
-      } catch (error) {
-        console.error('[SyncManager] ⚠️ Google Calendar sync failed:', error);
-        await this.logSyncError(googleCalendarConfig.id, 'update_appointment_gcal', error);
-      }
+      queued.push(await this.queueSync(googleCalendarConfig, 'google_calendar', 'appointment', 'update', local));
     } else if (!googleCalendarAllowed && googleCalendarConfig?.sync_enabled) {
       console.log(`[SyncManager] Google Calendar sync skipped - not allowed for channel ${context?.channel}`);
     }
 
+    await this.flushQueued(queued);
+
     return local;
   }
 
@@ -250,15 +289,11 @@ export class SyncManager {
       .eq('organization_id', this.organizationId)
       .single();
 
-    // Sync deletion to Google Calendar BEFORE deleting local (need the event ID)
+    // Queue deletions BEFORE deleting local: the snapshot keeps the event ID / external ID
+    const queued: Array<SyncOutboxItem | null> = [];
     if (googleCalendarConfig?.sync_enabled && googleCalendarConfig.sync_on_delete && 
         appointment?.google_calendar_event_id && googleCalendarAllowed) {
-      try {
-        await this.syncToGoogleCalendar(appointment, 'delete');
-        console.log('[SyncManager] ✅ Deletion synced to Google Calendar');
-      } catch (error) {
-        console.error('[SyncManager] ⚠️ Google Calendar sync failed:', error);
-      }
+      queued.push(await this.queueSync(googleCalendarConfig, 'google_calendar', 'appointment', 'delete', appointment));
     } else if (!googleCalendarAllowed && googleCalendarConfig?.sync_enabled && appointment?.google_calendar_event_id) {
       console.log(`[SyncManager] Google Calendar deletion skipped - not allowed for channel ${context?.channel}`);
     }
@@ -273,21 +308,13 @@ export class SyncManager {
     // Sync deletion to OpenDental if configured AND allowed
     if (openDentalConfig?.sync_enabled && openDentalConfig.sync_on_delete && 
         appointment && openDentalAllowed) {
-      try {
-        // Most APIs use "cancel" or "break" instead of delete
-        await this.syncToExternal(
-          'opendental',
-          'BreakAppointment',
-          { AptNum: appointment.external_id || appointmentId }
-        );
-        console.log('[SyncManager] ✅ Deletion synced to OpenDental');
-      } catch (error) {
-        console.error('[SyncManager] ⚠️ OpenDental sync failed:', error);
-      }
+      queued.push(await this.queueSync(openDentalConfig, 'opendental', 'appointment', 'delete', appointment));
     } else if (!openDentalAllowed && openDentalConfig?.sync_enabled && appointment) {
       console.log(`[SyncManager] OpenDental deletion skipped - not allowed for channel ${context?.channel}`);
     }
 
+    await this.flushQueued(queued);
+
     return { success: true, id: appointmentId };
   }
 
@@ -312,24 +339,7 @@ export class SyncManager {
     // Sync to external if configured AND allowed
     if (syncConfig?.sync_enabled && syncConfig.sync_on_create && 
         syncConfig.sync_direction !== 'local_only' && openDentalAllowed) {
-      try {
-        const externalResult = await this.syncToExternal(
-          'opendental',
-          'CreatePatient',
-          this.mapToExternalFormat(local, 'patient')
-        );
-
-        // Update local with external ID
-        if (externalResult.PatNum || externalResult.patientId) {
-          const externalId = externalResult.PatNum || externalResult.patientId;
-          await this.updateLocalPatientExternalId(local.id, externalId);
-        }
-
-        console.log('[SyncManager] ✅ Patient synced to external');
-      } catch (error) {
-        console.error('[SyncManager] ⚠️ Patient sync failed:', error);
-        await this.logSyncError(syncConfig?.id || '', 'create_patient', error);
-      }
+      await this.flushQueued([await this.queueSync(syncConfig, 'opendental', 'patient', 'create', local)]);
     } else if (!openDentalAllowed && syncConfig?.sync_enabled) {
       console.log(`[SyncManager] Patient sync to OpenDental skipped - not allowed for channel ${context?.channel}`);
     }
@@ -371,7 +381,8 @@ export class SyncManager {
   private async syncToExternal(
     providerKey: string,
     functionName: string,
-    data: any
+    data: any,
+    idempotencyKey?: string
   ): Promise<any> {
     const integration = await getIntegrationByProvider(this.organizationId, providerKey);
     
@@ -380,7 +391,199 @@ export class SyncManager {
     }
 
     const executor = new IntegrationExecutor(integration.id, this.organizationId);
-    return await executor.execute(functionName, data);
+    return await executor.execute(functionName, data, { idempotencyKey });
+  }
+
+  /**
+   * Store an external write in the outbox. Never throws: a queue failure is
+   * logged against the sync config and the local write still succeeds.
+   */
+  private async queueSync(
+    config: SyncConfig,
+    integrationKey: string,
+    entityType: OutboxEntityType,
+    operation: OutboxOperation,
+    record: any
+  ): Promise<SyncOutboxItem | null> {
+    try {
+      return await enqueueSyncItem({
+        organizationId: this.organizationId,
+        syncConfigId: config.id,
+        integrationKey,
+        entityType,
+        entityId: Number(record.id),
+        operation,
+        payload: record,
+      });
+    } catch (error) {
+      console.error(`[SyncManager] ⚠️ Could not queue ${integrationKey} ${operation}:`, error);
+      await this.logSyncError(config.id, `${operation}_${entityType}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Attempt freshly queued items now. When they all go through the external
+   * system is reachable, so also drain a few retries that have come due.
+   */
+  private async flushQueued(items: Array<SyncOutboxItem | null>): Promise<void> {
+    const queued = items.filter((item): item is SyncOutboxItem => item !== null);
+    if (queued.length === 0) return;
+
+    const result = await this.processOutboxItems(queued);
+    if (result.succeeded === result.processed) {
+      try {
+        await this.processOutbox(5);
+      } catch (error) {
+        console.warn('[SyncManager] Could not drain sync outbox:', error);
+      }
+    }
+  }
+
+  /**
+   * Retry due outbox items for this organization
+   */
+  async processOutbox(limit: number = 25): Promise<OutboxRunResult> {
+    const due = await findDueItems(this.organizationId, limit);
+    return this.processOutboxItems(due);
+  }
+
+  /**
+   * Retry due outbox items across all organizations (worker / cron entry point)
+   */
+  static async processAllDueOutboxes(limit: number = 50): Promise<OutboxRunResult> {
+    const due = await findDueItems(null, limit);
+    const byOrganization = new Map<string, SyncOutboxItem[]>();
+    for (const item of due) {
+      byOrganization.set(item.organization_id, [...(byOrganization.get(item.organization_id) || []), item]);
+    }
+
+    const total: OutboxRunResult = { processed: 0, succeeded: 0, retrying: 0, deadLettered: 0, deferred: 0 };
+    for (const [organizationId, items] of byOrganization) {
+      const result = await new SyncManager(organizationId).processOutboxItems(items);
+      total.processed += result.processed;
+      total.succeeded += result.succeeded;
+      total.retrying += result.retrying;
+      total.deadLettered += result.deadLettered;
+      total.deferred += result.deferred;
+    }
+    return total;
+  }
+
+  private async processOutboxItems(items: SyncOutboxItem[]): Promise<OutboxRunResult> {
+    const result: OutboxRunResult = { processed: 0, succeeded: 0, retrying: 0, deadLettered: 0, deferred: 0 };
+
+    for (const candidate of items) {
+      const item = await claimItem(candidate);
+      if (!item) continue;
+
+      // An earlier change to the same record must reach the external system first
+      if (await hasEarlierOpenItem(item)) {
+        await deferItem(item);
+        result.deferred++;
+        continue;
+      }
+
+      result.processed++;
+      try {
+        const externalId = await this.executeOutboxItem(item);
+        await markSucceeded(item, externalId);
+        result.succeeded++;
+        console.log(`[SyncManager] ✅ ${item.integration_key} ${item.operation} ${item.entity_type} ${item.entity_id} synced`);
+      } catch (error) {
+        console.error(`[SyncManager] ⚠️ ${item.integration_key} ${item.operation} ${item.entity_type} ${item.entity_id} failed:`, error);
+        const status = await markFailed(item, error);
+        if (status === 'dead_letter') {
+          result.deadLettered++;
+        } else {
+          result.retrying++;
+        }
+        if (item.sync_config_id) {
+          const suffix = item.integration_key === 'google_calendar' ? '_gcal' : '';
+          await this.logSyncError(item.sync_config_id, `${item.operation}_${item.entity_type}${suffix}`, error);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Perform one outbox item against the external system.
+   * Creates check for an ID from an earlier attempt so a retry never duplicates.
+   */
+  private async executeOutboxItem(item: SyncOutboxItem): Promise<string | null> {
+    // Deletes use the snapshot; creates/updates send the record as it is now
+    const record = item.operation === 'delete'
+      ? item.payload
+      : (await this.loadLocalRecord(item.entity_type, item.entity_id)) || item.payload;
+
+    if (item.integration_key === 'google_calendar') {
+      if (item.entity_type !== 'appointment') {
+        throw new Error('Google Calendar only syncs appointments');
+      }
+      return await this.syncToGoogleCalendar(record, item.operation, item.idempotency_key);
+    }
+
+    if (item.entity_type === 'patient') {
+      if (record.external_id) return String(record.external_id);
+      const externalResult = await this.syncToExternal(
+        item.integration_key,
+        'CreatePatient',
+        this.mapToExternalFormat(record, 'patient'),
+        item.idempotency_key
+      );
+      const externalId = externalResult.PatNum || externalResult.patientId;
+      if (externalId) {
+        await this.updateLocalPatientExternalId(record.id, externalId);
+      }
+      return externalId ? String(externalId) : null;
+    }
+
+    if (item.operation === 'create') {
+      if (record.external_id) return String(record.external_id);
+      const externalResult = await this.syncToExternal(
+        item.integration_key,
+        'CreateAppointment',
+        this.mapToExternalFormat(record, 'appointment'),
+        item.idempotency_key
+      );
+      const externalId = externalResult.AptNum || externalResult.appointmentId;
+      if (externalId) {
+        await this.updateLocalAppointmentExternalId(record.id, externalId);
+      }
+      return externalId ? String(externalId) : null;
+    }
+
+    if (item.operation === 'update') {
+      await this.syncToExternal(
+        item.integration_key,
+        'UpdateAppointment',
+        this.mapToExternalFormat(record, 'appointment'),
+        item.idempotency_key
+      );
+      return record.external_id ? String(record.external_id) : null;
+    }
+
+    // Most APIs use "cancel" or "break" instead of delete
+    await this.syncToExternal(
+      item.integration_key,
+      'BreakAppointment',
+      { AptNum: record.external_id || record.id },
+      item.idempotency_key
+    );
+    return record.external_id ? String(record.external_id) : null;
+  }
+
+  private async loadLocalRecord(entityType: OutboxEntityType, entityId: number): Promise<any | null> {
+    const supabase = getSupabaseAdmin();
+    const { data } = await supabase
+      .from(entityType === 'patient' ? 'patients' : 'appointments')
+      .select('*')
+      .eq('id', entityId)
+      .eq('organization_id', this.organizationId)
+      .maybeSingle();
+    return data || null;
   }
 
   /**
@@ -516,36 +719,126 @@ export class SyncManager {
    * Sync from Google Calendar to local (pull events as appointments)
    * Used when sync_direction is from_external or bidirectional
    * 
-   * @param options - timeMin, timeMax (ISO strings), defaults to last 7 days to next 90 days
-   * @returns { created, updated, cancelled } counts
+   * Incremental by default: only events changed since the last run (syncToken).
+   * Pass timeMin/timeMax to re-read a fixed window instead.
+   * 
+   * @param options - timeMin, timeMax (ISO strings); timeMax defaults to 90 days ahead
+   * @returns { created, updated, cancelled, conflicts } counts
    */
   async syncFromGoogleCalendar(options?: {
     timeMin?: string;
     timeMax?: string;
-  }): Promise<{ created: number; updated: number; cancelled: number; error?: string }> {
+  }): Promise<GoogleImportCounts & { error?: string }> {
     const googleConfig = await this.getSyncConfig('google_calendar');
     if (!googleConfig?.sync_enabled) {
-      return { created: 0, updated: 0, cancelled: 0, error: 'Google Calendar sync not enabled' };
+      return { created: 0, updated: 0, cancelled: 0, conflicts: 0, error: 'Google Calendar sync not enabled' };
     }
     if (googleConfig.sync_direction !== 'from_external' && googleConfig.sync_direction !== 'bidirectional') {
-      return { created: 0, updated: 0, cancelled: 0, error: 'Sync direction must be from_external or bidirectional' };
+      return { created: 0, updated: 0, cancelled: 0, conflicts: 0, error: 'Sync direction must be from_external or bidirectional' };
     }
 
     const credentials = await getGoogleCalendarCredentials(this.organizationId);
     if (!credentials.clientId || !credentials.clientSecret || !credentials.refreshToken) {
-      return { created: 0, updated: 0, cancelled: 0, error: 'Google Calendar credentials not configured' };
+      return { created: 0, updated: 0, cancelled: 0, conflicts: 0, error: 'Google Calendar credentials not configured' };
+    }
+
+    if (!options?.timeMin) {
+      const { created, updated, cancelled, conflicts } = await this.syncGoogleCalendarChanges();
+      return { created, updated, cancelled, conflicts };
     }
 
     const calendarId = credentials.calendarId || 'primary';
-    const now = new Date();
-    const timeMin = options?.timeMin || new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
-    const timeMax = options?.timeMax || new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000).toISOString();
+    const timeMin = options.timeMin;
+    const timeMax = options.timeMax || new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString();
 
     const calendarService = new GoogleCalendarService(this.organizationId);
-    let created = 0;
-    let updated = 0;
-    let cancelled = 0;
+    const context = await this.createGoogleImportContext(googleConfig);
+
+    let nextPageToken: string | undefined;
+    do {
+      const events = await calendarService.listEvents(calendarId, {
+        timeMin,
+        timeMax,
+        maxResults: 250,
+        singleEvents: true,
+        orderBy: 'startTime',
+        pageToken: nextPageToken,
+      });
+
+      await this.importGoogleEvents(events, context);
+
+      nextPageToken = (events as { nextPageToken?: string }).nextPageToken;
+    } while (nextPageToken);
+
+    return this.finishGoogleImport(context);
+  }
+
+  /**
+   * Incremental Google Calendar sync: refresh the busy-interval cache and, when
+   * the sync direction pulls from Google, import changed events as appointments.
+   * Called by the push-notification webhook, the periodic refresh and slot search.
+   */
+  async syncGoogleCalendarChanges(options: { full?: boolean } = {}): Promise<GoogleImportCounts & CalendarSyncResult> {
+    const googleConfig = await this.getSyncConfig('google_calendar');
+    const importing = !!googleConfig?.sync_enabled &&
+      (googleConfig.sync_direction === 'from_external' || googleConfig.sync_direction === 'bidirectional');
+    const context = importing ? await this.createGoogleImportContext(googleConfig!) : null;
+
+    const result = await syncCalendarChanges(this.organizationId, {
+      full: options.full,
+      onEvents: context ? (events) => this.importGoogleEvents(events, context) : undefined,
+    });
+
+    const counts = context
+      ? await this.finishGoogleImport(context)
+      : { created: 0, updated: 0, cancelled: 0, conflicts: 0 };
 
+    try {
+      await ensureWatchChannel(this.organizationId);
+    } catch (error) {
+      console.warn('[SyncManager] Could not register Google Calendar watch channel:', error);
+    }
+
+    return { ...counts, ...result };
+  }
+
+  /**
+   * Keep every connected organization's Google Calendar cache warm (worker entry point).
+   * Renews push channels before they expire; organizations without a live
+   * channel get an incremental sync instead.
+   */
+  static async refreshAllGoogleCalendars(): Promise<{ organizations: number; synced: number; failed: number }> {
+    const supabase = getSupabaseAdmin();
+    const { data: connected } = await supabase
+      .from('api_credentials')
+      .select('organization_id')
+      .eq('credential_type', 'google_calendar')
+      .eq('is_active', true)
+      .not('organization_id', 'is', null);
+
+    const organizationIds = [...new Set((connected || []).map((row: { organization_id: string }) => row.organization_id))];
+    let synced = 0;
+    let failed = 0;
+
+    for (const organizationId of organizationIds) {
+      try {
+        const state = await getSyncState(organizationId);
+        if (isCacheWarm(state) && state?.channel_id) {
+          await ensureWatchChannel(organizationId);
+        } else {
+          await new SyncManager(organizationId).syncGoogleCalendarChanges();
+          synced++;
+        }
+      } catch (error) {
+        console.error(`[SyncManager] Google Calendar refresh failed for org ${organizationId}:`, error);
+        failed++;
+      }
+    }
+
+    return { organizations: organizationIds.length, synced, failed };
+  }
+
+  private async createGoogleImportContext(googleConfig: SyncConfig): Promise<GoogleImportContext> {
     const supabase = getSupabaseAdmin();
 
     // Get default provider and operatory for new appointments
@@ -563,96 +856,279 @@ export class SyncManager {
       .eq('is_active', true)
       .limit(1)
       .maybeSingle();
-    const defaultProviderId = firstProvider?.id ?? null;
-    const defaultOperatoryId = firstOperatory?.id ?? null;
-
-    let nextPageToken: string | undefined;
-    do {
-      const events = await calendarService.listEvents(calendarId, {
-        timeMin,
-        timeMax,
-        maxResults: 250,
-        singleEvents: true,
-        orderBy: 'startTime',
-        pageToken: nextPageToken,
-      });
 
-      for (const gEvent of events) {
-        const eventId = gEvent.id;
-        if (!eventId) continue;
+    const { data: orgData } = await supabase
+      .from('organizations')
+      .select('timezone')
+      .eq('id', this.organizationId)
+      .single();
 
-        const startTime = gEvent.start?.dateTime || gEvent.start?.date;
-        const endTime = gEvent.end?.dateTime || gEvent.end?.date;
-        if (!startTime || !endTime) continue;
+    return {
+      config: googleConfig,
+      strategy: googleConfig.conflict_resolution || 'external_wins',
+      defaultProviderId: firstProvider?.id ?? null,
+      defaultOperatoryId: firstOperatory?.id ?? null,
+      timezone: orgData?.timezone || 'America/New_York',
+      counts: { created: 0, updated: 0, cancelled: 0, conflicts: 0 },
+      pushes: [],
+    };
+  }
 
-        const startDate = new Date(startTime);
-        const endDate = new Date(endTime);
-        const durationMinutes = Math.round((endDate.getTime() - startDate.getTime()) / 60000);
-        const appointmentDatetime = `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}-${String(startDate.getDate()).padStart(2, '0')} ${String(startDate.getHours()).padStart(2, '0')}:${String(startDate.getMinutes()).padStart(2, '0')}:00`;
+  /**
+   * Apply pulled Google events to local appointments, resolving conflicts per
+   * the config's conflict_resolution
+   */
+  private async importGoogleEvents(events: GoogleCalendarEvent[], context: GoogleImportContext): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    const { config: googleConfig, strategy, counts } = context;
+
+    for (const gEvent of events) {
+      const eventId = gEvent.id;
+      if (!eventId) continue;
+
+      const status = gEvent.status === 'cancelled' ? 'Cancelled' : 'Scheduled';
+      const externalVersion = { externalId: eventId, externalEtag: gEvent.etag || null, externalUpdatedAt: gEvent.updated || null };
+
+      const { data: existing } = await supabase
+        .from('appointments')
+        .select('*')
+        .eq('organization_id', this.organizationId)
+        .eq('google_calendar_event_id', eventId)
+        .maybeSingle();
+
+      // Incremental listings return deleted events without times
+      const startTime = gEvent.start?.dateTime || gEvent.start?.date;
+      const endTime = gEvent.end?.dateTime || gEvent.end?.date;
+      if ((!startTime || !endTime) && !(existing && status === 'Cancelled')) continue;
+
+      let appointmentDatetime = '';
+      let durationMinutes = 0;
+      if (startTime && endTime) {
+        // Timed events are instants; all-day events are dates in the practice's own calendar
+        const start = gEvent.start?.dateTime
+          ? instantToLocalMinutes(new Date(startTime), context.timezone)
+          : parseLocalDateTime(`${startTime} 00:00`);
+        const end = gEvent.end?.dateTime
+          ? instantToLocalMinutes(new Date(endTime), context.timezone)
+          : parseLocalDateTime(`${endTime} 00:00`);
+        if (start === null || end === null || isNaN(start) || isNaN(end)) continue;
+        durationMinutes = end - start;
+        appointmentDatetime = formatLocalDateTime(start);
+      }
 
-        const status = gEvent.status === 'cancelled' ? 'Cancelled' : 'Scheduled';
+      if (existing) {
+        // Cancellation only touches status; other fields keep their local values
+        const pulled: PulledAppointmentFields = status === 'Cancelled'
+          ? { ...this.pulledFieldsOf(existing), status: 'Cancelled' }
+          : {
+              appointment_datetime: appointmentDatetime,
+              duration_minutes: durationMinutes,
+              notes: gEvent.summary || gEvent.description || null,
+              status: 'Scheduled',
+            };
+        const ref = this.versionRef('google_calendar', existing.id);
+        const baseline = await getRecordVersion(ref);
+        const { decision, conflict } = decidePull({
+          baseline,
+          externalEtag: externalVersion.externalEtag,
+          externalUpdatedAt: externalVersion.externalUpdatedAt,
+          localUpdatedAt: existing.updated_at,
+          valuesDiffer: this.pulledFieldsDiffer(existing, pulled),
+          strategy,
+        });
+
+        if (conflict) {
+          console.log(`[SyncManager] Conflict on appointment ${existing.id} (${strategy}): ${decision}`);
+        }
 
-        const { data: existing } = await supabase
-          .from('appointments')
-          .select('id, status')
-          .eq('organization_id', this.organizationId)
-          .eq('google_calendar_event_id', eventId)
-          .maybeSingle();
-
-        if (existing) {
-          if (status === 'Cancelled') {
-            await supabase
-              .from('appointments')
-              .update({ status: 'Cancelled', updated_at: new Date().toISOString() })
-              .eq('id', existing.id)
-              .eq('organization_id', this.organizationId);
-            cancelled++;
-          } else {
-            await supabase
-              .from('appointments')
-              .update({
-                appointment_datetime: appointmentDatetime,
-                duration_minutes: durationMinutes,
-                notes: gEvent.summary || gEvent.description || null,
-                status: 'Scheduled',
-                updated_at: new Date().toISOString(),
-              })
-              .eq('id', existing.id)
-              .eq('organization_id', this.organizationId);
-            updated++;
+        if (decision === 'apply_external') {
+          await this.applyPulledAppointment(existing.id, pulled, externalVersion);
+          if (conflict) {
+            // The local change lost; don't push it over the external one later
+            await cancelOpenItemsForEntity(this.organizationId, 'google_calendar', 'appointment', existing.id);
+          }
+          if (status === 'Cancelled') counts.cancelled++; else counts.updated++;
+        } else if (decision === 'keep_local') {
+          // Accept this external version as seen, keeping the local change pending
+          await recordVersion(ref, { ...externalVersion, localUpdatedAt: baseline?.local_updated_at ?? null });
+          if (googleConfig.sync_direction === 'bidirectional') {
+            context.pushes.push(await this.queueSync(googleConfig, 'google_calendar', 'appointment', 'update', existing));
           }
-        } else if (status !== 'Cancelled') {
-          await supabase.from('appointments').insert({
-            organization_id: this.organizationId,
-            patient_id: null,
-            provider_id: defaultProviderId,
-            operatory_id: defaultOperatoryId,
-            appointment_datetime: appointmentDatetime,
-            duration_minutes: durationMinutes || 30,
-            appointment_type: 'Google Calendar',
-            notes: gEvent.summary || gEvent.description || null,
-            status: 'Scheduled',
-            google_calendar_event_id: eventId,
+        } else if (decision === 'queue_review') {
+          await queueConflict({
+            organizationId: this.organizationId,
+            syncConfigId: googleConfig.id,
+            integrationKey: 'google_calendar',
+            entityType: 'appointment',
+            entityId: existing.id,
+            externalId: eventId,
+            localSnapshot: { ...this.pulledFieldsOf(existing), updated_at: existing.updated_at },
+            externalSnapshot: { ...pulled },
+            externalEtag: externalVersion.externalEtag,
+            externalUpdatedAt: externalVersion.externalUpdatedAt,
           });
-          created++;
+          // Hold local pushes until an admin picks a side
+          await cancelOpenItemsForEntity(this.organizationId, 'google_calendar', 'appointment', existing.id);
+          counts.conflicts++;
+        } else if (!baseline || baseline.external_etag !== externalVersion.externalEtag) {
+          // Both sides already agree: (re)establish the baseline
+          if (!this.pulledFieldsDiffer(existing, pulled)) {
+            await recordVersion(ref, { ...externalVersion, localUpdatedAt: existing.updated_at });
+          }
+        }
+      } else if (status !== 'Cancelled') {
+        const { data: inserted } = await supabase.from('appointments').insert({
+          organization_id: this.organizationId,
+          patient_id: null,
+          provider_id: context.defaultProviderId,
+          operatory_id: context.defaultOperatoryId,
+          appointment_datetime: appointmentDatetime,
+          duration_minutes: durationMinutes || 30,
+          appointment_type: 'Google Calendar',
+          notes: gEvent.summary || gEvent.description || null,
+          status: 'Scheduled',
+          google_calendar_event_id: eventId,
+        }).select('id, updated_at').single();
+        if (inserted) {
+          await recordVersion(this.versionRef('google_calendar', inserted.id), { ...externalVersion, localUpdatedAt: inserted.updated_at });
         }
+        counts.created++;
       }
+    }
+  }
 
-      nextPageToken = (events as { nextPageToken?: string }).nextPageToken;
-    } while (nextPageToken);
+  private async finishGoogleImport(context: GoogleImportContext): Promise<GoogleImportCounts> {
+    await this.flushQueued(context.pushes);
 
-    if (googleConfig.id) {
+    if (context.config.id) {
+      const supabase = getSupabaseAdmin();
       await supabase
         .from('integration_sync_configs')
         .update({
           last_sync_status: 'success',
           last_sync_at: new Date().toISOString(),
         })
-        .eq('id', googleConfig.id);
+        .eq('id', context.config.id);
+    }
+
+    const { created, updated, cancelled, conflicts } = context.counts;
+    console.log(`[SyncManager] Google Calendar import: created=${created}, updated=${updated}, cancelled=${cancelled}, conflicts=${conflicts}`);
+    return { ...context.counts };
+  }
+
+  /**
+   * Resolve a queued sync conflict (conflict_resolution = 'manual')
+   *   keep_external: overwrite local with the external values
+   *   keep_local: push the local record to the external system
+   *   dismiss: leave both sides as they are and accept them as the new baseline
+   */
+  async resolveConflict(conflictId: string, action: ConflictAction, userId: string | null = null): Promise<void> {
+    const conflict = await getConflict(this.organizationId, conflictId);
+    if (!conflict || conflict.status !== 'open') {
+      throw new Error(`Sync conflict ${conflictId} not found or already resolved`);
+    }
+    if (conflict.integration_key !== 'google_calendar' || conflict.entity_type !== 'appointment') {
+      throw new Error(`Resolving ${conflict.integration_key} ${conflict.entity_type} conflicts is not supported`);
+    }
+
+    const ref = this.versionRef(conflict.integration_key, conflict.entity_id);
+    const externalVersion = {
+      externalId: conflict.external_id,
+      externalEtag: conflict.external_etag,
+      externalUpdatedAt: conflict.external_updated_at,
+    };
+    const local = await this.loadLocalRecord('appointment', conflict.entity_id);
+
+    if (action === 'keep_external') {
+      if (!local) {
+        throw new Error(`Appointment ${conflict.entity_id} no longer exists`);
+      }
+      await this.applyPulledAppointment(conflict.entity_id, conflict.external_snapshot as PulledAppointmentFields, externalVersion);
+    } else if (action === 'keep_local') {
+      if (!local) {
+        throw new Error(`Appointment ${conflict.entity_id} no longer exists`);
+      }
+      const baseline = await getRecordVersion(ref);
+      await recordVersion(ref, { ...externalVersion, localUpdatedAt: baseline?.local_updated_at ?? null });
+      const googleConfig = await this.getSyncConfig('google_calendar');
+      if (googleConfig) {
+        await this.flushQueued([await this.queueSync(googleConfig, 'google_calendar', 'appointment', 'update', local)]);
+      }
+    } else if (local) {
+      await recordVersion(ref, { ...externalVersion, localUpdatedAt: local.updated_at });
+    }
+
+    await closeConflict(conflict, action, userId);
+  }
+
+  private versionRef(integrationKey: string, entityId: number): VersionRef {
+    return { organizationId: this.organizationId, integrationKey, entityType: 'appointment', entityId };
+  }
+
+  private pulledFieldsOf(appointment: any): PulledAppointmentFields {
+    return {
+      appointment_datetime: appointment.appointment_datetime,
+      duration_minutes: appointment.duration_minutes,
+      notes: appointment.notes ?? null,
+      status: appointment.status,
+    };
+  }
+
+  private pulledFieldsDiffer(appointment: any, pulled: PulledAppointmentFields): boolean {
+    // Stored datetimes may come back as "2026-02-12T16:00:00" or with seconds fractions
+    const minute = (value: any) => String(value || '').replace('T', ' ').substring(0, 16);
+    return minute(appointment.appointment_datetime) !== minute(pulled.appointment_datetime)
+      || Number(appointment.duration_minutes) !== Number(pulled.duration_minutes)
+      || (appointment.notes || null) !== (pulled.notes || null)
+      || appointment.status !== pulled.status;
+  }
+
+  /**
+   * Write external values to the local appointment and record the new baseline
+   */
+  private async applyPulledAppointment(
+    appointmentId: number,
+    pulled: PulledAppointmentFields,
+    externalVersion: { externalId: string; externalEtag: string | null; externalUpdatedAt: string | null }
+  ): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('appointments')
+      .update({
+        appointment_datetime: pulled.appointment_datetime,
+        duration_minutes: pulled.duration_minutes,
+        notes: pulled.notes,
+        status: pulled.status,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', appointmentId)
+      .eq('organization_id', this.organizationId)
+      .select('updated_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to apply external changes to appointment ${appointmentId}: ${error.message}`);
     }
 
-    console.log(`[SyncManager] syncFromGoogleCalendar: created=${created}, updated=${updated}, cancelled=${cancelled}`);
-    return { created, updated, cancelled };
+    await recordVersion(this.versionRef('google_calendar', appointmentId), {
+      ...externalVersion,
+      localUpdatedAt: data.updated_at,
+    });
+  }
+
+  /**
+   * Record the baseline after pushing an appointment. Reads updated_at after
+   * our own writes (e.g. storing the event id) so they don't count as a change.
+   */
+  private async recordPushedVersion(appointmentId: number, event: { id?: string; etag?: string; updated?: string } | null): Promise<void> {
+    if (!event?.id) return;
+    const local = await this.loadLocalRecord('appointment', appointmentId);
+    await recordVersion(this.versionRef('google_calendar', appointmentId), {
+      externalId: event.id,
+      externalEtag: event.etag || null,
+      externalUpdatedAt: event.updated || null,
+      localUpdatedAt: local?.updated_at ?? null,
+    });
   }
 
   /**
@@ -660,15 +1136,16 @@ export class SyncManager {
    */
   private async syncToGoogleCalendar(
     appointment: any, 
-    operation: 'create' | 'update' | 'delete'
-  ): Promise<void> {
+    operation: 'create' | 'update' | 'delete',
+    idempotencyKey?: string
+  ): Promise<string | null> {
     // Get Google Calendar credentials
     const { getGoogleCalendarCredentials } = await import('../credentialLoader');
     const credentials = await getGoogleCalendarCredentials(this.organizationId);
 
     if (!credentials || !credentials.clientId || !credentials.clientSecret || !credentials.refreshToken) {
-      console.log('[SyncManager] Google Calendar credentials not configured, skipping sync');
-      return;
+      // Thrown so the outbox keeps the item for retry once credentials are added
+      throw new Error('Google Calendar credentials not configured');
     }
 
     // Initialize Google Calendar service (loads credentials via organizationId)
@@ -708,8 +1185,17 @@ export class SyncManager {
 
     console.log(`[SyncManager] GCal sync: naive start=${naiveDatetime}, end=${naiveEndDatetime}, tz=${orgTimezone}`);
 
+    let eventId: string | null = appointment.google_calendar_event_id || null;
+
     if (operation === 'create') {
+      if (eventId) {
+        // An earlier attempt already created and recorded the event
+        return eventId;
+      }
+
       const event = await calendarService.createEvent(calendarId, {
+        // Deterministic ID: a retry after a lost response hits 409 instead of duplicating
+        id: idempotencyKey ? idempotentEventId(idempotencyKey) : undefined,
         summary: `Appointment: ${patientName}`,
         description: `Type: ${appointment.appointment_type || 'General'}\nNotes: ${appointment.notes || ''}`,
         start: { dateTime: naiveDatetime, timeZone: orgTimezone },
@@ -722,7 +1208,13 @@ export class SyncManager {
             organizationId: this.organizationId,
           }
         }
+      }).catch(async (error: any) => {
+        if (error?.status === 409 && idempotencyKey) {
+          return calendarService.getEvent(calendarId, idempotentEventId(idempotencyKey));
+        }
+        throw error;
       });
+      eventId = event?.id || null;
 
       // Store Google Calendar event ID in local appointment
       if (event?.id) {
@@ -733,15 +1225,23 @@ export class SyncManager {
           .eq('id', appointment.id)
           .eq('organization_id', this.organizationId);
       }
+      await this.recordPushedVersion(appointment.id, event);
     } else if (operation === 'update' && appointment.google_calendar_event_id) {
-      await calendarService.updateEvent(calendarId, appointment.google_calendar_event_id, {
+      const event = await calendarService.updateEvent(calendarId, appointment.google_calendar_event_id, {
         summary: `Appointment: ${patientName}`,
         description: `Type: ${appointment.appointment_type || 'General'}\nNotes: ${appointment.notes || ''}`,
         start: { dateTime: naiveDatetime, timeZone: orgTimezone },
         end: { dateTime: naiveEndDatetime, timeZone: orgTimezone },
       });
+      await this.recordPushedVersion(appointment.id, event);
     } else if (operation === 'delete' && appointment.google_calendar_event_id) {
-      await calendarService.deleteEvent(calendarId, appointment.google_calendar_event_id);
+      try {
+        await calendarService.deleteEvent(calendarId, appointment.google_calendar_event_id);
+      } catch (error: any) {
+        // Already gone (e.g. a retry after the first delete went through)
+        if (error?.status !== 404 && error?.status !== 410) throw error;
+      }
+      await deleteRecordVersion(this.versionRef('google_calendar', appointment.id));
     }
 
     // Log successful sync
@@ -756,5 +1256,7 @@ export class SyncManager {
         })
         .eq('id', googleCalendarConfig.id);
     }
+
+    return eventId;
   }
 }
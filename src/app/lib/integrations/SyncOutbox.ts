@@ -0,0 +1,360 @@
+/**
+ * Sync Outbox
+ *
+ * Durable queue for SyncManager's external writes. Each OpenDental / Google
+ * Calendar push is stored as a row before it is attempted; failures are
+ * retried with exponential backoff and end in 'dead_letter' after
+ * max_attempts, where an admin can inspect and replay them.
+ *
+ * Items for the same record are processed in order: an update waits until
+ * the earlier create for that appointment has gone through.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export type OutboxStatus = 'pending' | 'processing' | 'succeeded' | 'dead_letter' | 'cancelled';
+export type OutboxOperation = 'create' | 'update' | 'delete';
+export type OutboxEntityType = 'appointment' | 'patient';
+
+export const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'processing', 'succeeded', 'dead_letter', 'cancelled'];
+
+export const DEFAULT_MAX_ATTEMPTS = 8;
+
+/** First retry after 30s, doubling up to 6 hours */
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+/** A worker that crashed mid-item leaves it 'processing'; reclaim after this */
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+export interface SyncOutboxItem {
+  id: string;
+  organization_id: string;
+  sync_config_id: string | null;
+  integration_key: string;
+  entity_type: OutboxEntityType;
+  entity_id: number;
+  operation: OutboxOperation;
+  payload: Record<string, any>;
+  idempotency_key: string;
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  external_id: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueSyncItem {
+  organizationId: string;
+  syncConfigId?: string | null;
+  integrationKey: string;
+  entityType: OutboxEntityType;
+  entityId: number;
+  operation: OutboxOperation;
+  payload: Record<string, any>;
+}
+
+export interface OutboxSummary {
+  pending: number;
+  processing: number;
+  succeeded: number;
+  dead_letter: number;
+  cancelled: number;
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have failed so far
+ */
+export function backoffDelayMs(failedAttempts: number): number {
+  const exponent = Math.max(0, failedAttempts - 1);
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, exponent), MAX_BACKOFF_MS);
+}
+
+/**
+ * Creates are keyed by the record so a double enqueue collapses into one row.
+ * Updates and deletes get a unique key per change.
+ */
+export function buildIdempotencyKey(item: EnqueueSyncItem): string {
+  const base = `${item.integrationKey}:${item.entityType}:${item.entityId}:${item.operation}`;
+  return item.operation === 'create' ? base : `${base}:${randomUUID()}`;
+}
+
+/**
+ * Google Calendar event ids must be 5-1024 chars of base32hex (a-v, 0-9);
+ * a hex digest of the idempotency key satisfies that.
+ */
+export function idempotentEventId(idempotencyKey: string): string {
+  return `asc${createHash('sha1').update(idempotencyKey).digest('hex')}`;
+}
+
+function errorMessage(error: any): string {
+  if (!error) return 'Unknown error';
+  if (typeof error === 'string') return error;
+  const details = error.details
+    ? ` ${typeof error.details === 'string' ? error.details : JSON.stringify(error.details)}`
+    : '';
+  return `${error.message || String(error)}${details}`.substring(0, 2000);
+}
+
+/**
+ * Store an external write before attempting it
+ */
+export async function enqueueSyncItem(item: EnqueueSyncItem): Promise<SyncOutboxItem> {
+  const supabase = getSupabaseAdmin();
+  const idempotencyKey = buildIdempotencyKey(item);
+
+  const { data, error } = await supabase
+    .from('sync_outbox')
+    .upsert({
+      organization_id: item.organizationId,
+      sync_config_id: item.syncConfigId || null,
+      integration_key: item.integrationKey,
+      entity_type: item.entityType,
+      entity_id: item.entityId,
+      operation: item.operation,
+      payload: item.payload,
+      idempotency_key: idempotencyKey,
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+    }, { onConflict: 'organization_id,idempotency_key', ignoreDuplicates: true })
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to queue ${item.integrationKey} ${item.operation}: ${error.message}`);
+  }
+  if (data) return data as SyncOutboxItem;
+
+  // Duplicate create: return the row that already exists
+  const { data: existing, error: existingError } = await supabase
+    .from('sync_outbox')
+    .select('*')
+    .eq('organization_id', item.organizationId)
+    .eq('idempotency_key', idempotencyKey)
+    .single();
+
+  if (existingError || !existing) {
+    throw new Error(`Failed to queue ${item.integrationKey} ${item.operation}: ${existingError?.message || 'No data returned'}`);
+  }
+  return existing as SyncOutboxItem;
+}
+
+/**
+ * Lock a pending (or stale processing) item for this worker.
+ * Returns null when another worker got there first.
+ */
+export async function claimItem(item: SyncOutboxItem): Promise<SyncOutboxItem | null> {
+  const supabase = getSupabaseAdmin();
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS).toISOString();
+
+  let query = supabase
+    .from('sync_outbox')
+    .update({ status: 'processing', locked_at: new Date().toISOString() })
+    .eq('id', item.id);
+
+  query = item.status === 'processing'
+    ? query.eq('status', 'processing').lt('locked_at', staleBefore)
+    : query.eq('status', 'pending');
+
+  const { data } = await query.select().maybeSingle();
+  return (data as SyncOutboxItem) || null;
+}
+
+/**
+ * Due items for an organization (or all organizations), oldest first
+ */
+export async function findDueItems(organizationId: string | null, limit: number): Promise<SyncOutboxItem[]> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date().toISOString();
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS).toISOString();
+
+  let query = supabase
+    .from('sync_outbox')
+    .select('*')
+    .or(`and(status.eq.pending,next_attempt_at.lte.${now}),and(status.eq.processing,locked_at.lt.${staleBefore})`);
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load sync outbox: ${error.message}`);
+  }
+  return (data || []) as SyncOutboxItem[];
+}
+
+/**
+ * Is there an earlier unfinished item for the same record and integration?
+ * Later changes wait for it so they never reach the external system first.
+ */
+export async function hasEarlierOpenItem(item: SyncOutboxItem): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { count } = await supabase
+    .from('sync_outbox')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', item.organization_id)
+    .eq('integration_key', item.integration_key)
+    .eq('entity_type', item.entity_type)
+    .eq('entity_id', item.entity_id)
+    .in('status', ['pending', 'processing'])
+    .lt('created_at', item.created_at);
+
+  return (count || 0) > 0;
+}
+
+export async function markSucceeded(item: SyncOutboxItem, externalId?: string | null): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from('sync_outbox')
+    .update({
+      status: 'succeeded',
+      attempts: item.attempts + 1,
+      locked_at: null,
+      last_error: null,
+      external_id: externalId ? String(externalId) : item.external_id,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', item.id);
+}
+
+/**
+ * Record a failed attempt: schedule a retry or move to dead_letter
+ */
+export async function markFailed(item: SyncOutboxItem, error: any): Promise<OutboxStatus> {
+  const supabase = getSupabaseAdmin();
+  const attempts = item.attempts + 1;
+  const dead = attempts >= item.max_attempts;
+
+  await supabase
+    .from('sync_outbox')
+    .update({
+      status: dead ? 'dead_letter' : 'pending',
+      attempts,
+      locked_at: null,
+      last_error: errorMessage(error),
+      next_attempt_at: new Date(Date.now() + backoffDelayMs(attempts)).toISOString(),
+    })
+    .eq('id', item.id);
+
+  return dead ? 'dead_letter' : 'pending';
+}
+
+/**
+ * Put the item back to wait behind an earlier item for the same record
+ */
+export async function deferItem(item: SyncOutboxItem): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from('sync_outbox')
+    .update({ status: 'pending', locked_at: null, next_attempt_at: new Date(Date.now() + BASE_BACKOFF_MS).toISOString() })
+    .eq('id', item.id);
+}
+
+/**
+ * Admin replay: retry a dead-lettered or pending item now with a fresh attempt budget
+ */
+export async function replayItem(organizationId: string, itemId: string): Promise<SyncOutboxItem> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sync_outbox')
+    .update({ status: 'pending', attempts: 0, locked_at: null, next_attempt_at: new Date().toISOString() })
+    .eq('id', itemId)
+    .eq('organization_id', organizationId)
+    .in('status', ['pending', 'dead_letter', 'cancelled'])
+    .select()
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Outbox item ${itemId} not found or not replayable`);
+  }
+  return data as SyncOutboxItem;
+}
+
+/**
+ * Admin cancel: stop retrying an item
+ */
+export async function cancelItem(organizationId: string, itemId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sync_outbox')
+    .update({ status: 'cancelled', locked_at: null })
+    .eq('id', itemId)
+    .eq('organization_id', organizationId)
+    .in('status', ['pending', 'dead_letter'])
+    .select('id')
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Outbox item ${itemId} not found or not cancellable`);
+  }
+}
+
+/**
+ * Cancel unfinished items for a record, e.g. when a conflict resolution
+ * decides the local change should not be pushed
+ */
+export async function cancelOpenItemsForEntity(
+  organizationId: string,
+  integrationKey: string,
+  entityType: OutboxEntityType,
+  entityId: number
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from('sync_outbox')
+    .update({ status: 'cancelled', locked_at: null, last_error: 'Superseded by conflict resolution' })
+    .eq('organization_id', organizationId)
+    .eq('integration_key', integrationKey)
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .in('status', ['pending', 'dead_letter']);
+}
+
+export async function listOutboxItems(
+  organizationId: string,
+  options: { status?: OutboxStatus[]; limit?: number } = {}
+): Promise<SyncOutboxItem[]> {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('sync_outbox')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (options.status && options.status.length > 0) {
+    query = query.in('status', options.status);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (error) {
+    throw new Error(`Failed to load sync outbox: ${error.message}`);
+  }
+  return (data || []) as SyncOutboxItem[];
+}
+
+export async function getOutboxSummary(organizationId: string): Promise<OutboxSummary> {
+  const supabase = getSupabaseAdmin();
+  const summary: OutboxSummary = { pending: 0, processing: 0, succeeded: 0, dead_letter: 0, cancelled: 0 };
+
+  await Promise.all(OUTBOX_STATUSES.map(async status => {
+    const { count } = await supabase
+      .from('sync_outbox')
+      .select('id', { count: 'exact', head: true })
+      .eq('organization_id', organizationId)
+      .eq('status', status);
+    summary[status] = count || 0;
+  }));
+
+  return summary;
+}
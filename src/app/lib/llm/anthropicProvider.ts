@@ -0,0 +1,159 @@
+/**
+ * Anthropic provider: translates Responses-shaped requests to the Messages
+ * API and the reply back.
+ *
+ * - instructions and system/developer messages become the system prompt
+ * - function_call / function_call_output items become tool_use / tool_result
+ *   blocks; consecutive items for the same role are merged into one turn
+ * - tool_use blocks in the reply become function_call items whose
+ *   `arguments` is a JSON string, exactly as OpenAI returns them
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  LLMProviderError,
+  type LLMContent,
+  type LLMOutputItem,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+} from './types';
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+type AnthropicBlock = Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam | Anthropic.ToolResultBlockParam;
+
+export function contentToText(content: LLMContent | undefined): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map(part => part.text || '').join('');
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Messages API parameters for a Responses-shaped request
+ */
+export function toAnthropicRequest(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+  const system: string[] = request.instructions ? [request.instructions] : [];
+  const messages: Anthropic.MessageParam[] = [];
+
+  // Claude rejects tool calls without results and results without calls
+  const calls = new Set<string>();
+  const outputs = new Set<string>();
+  for (const item of request.input) {
+    if (item.type === 'function_call') calls.add(item.call_id);
+    if (item.type === 'function_call_output') outputs.add(item.call_id);
+  }
+
+  const append = (role: 'user' | 'assistant', block: AnthropicBlock) => {
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      (last.content as AnthropicBlock[]).push(block);
+    } else {
+      messages.push({ role, content: [block] });
+    }
+  };
+
+  for (const item of request.input) {
+    if (item.type === 'function_call') {
+      if (!outputs.has(item.call_id)) continue;
+      append('assistant', { type: 'tool_use', id: item.call_id, name: item.name, input: parseArguments(item.arguments) });
+    } else if (item.type === 'function_call_output') {
+      if (!calls.has(item.call_id)) continue;
+      append('user', { type: 'tool_result', tool_use_id: item.call_id, content: item.output });
+    } else {
+      const text = contentToText(item.content);
+      if (!text.trim()) continue;
+      if (item.role === 'system' || item.role === 'developer') {
+        system.push(text);
+      } else {
+        append(item.role, { type: 'text', text });
+      }
+    }
+  }
+
+  // The conversation has to open with a user turn
+  if (messages.length === 0 || messages[0].role !== 'user') {
+    messages.unshift({ role: 'user', content: '(conversation start)' });
+  }
+
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: request.model,
+    max_tokens: request.max_output_tokens || DEFAULT_MAX_TOKENS,
+    messages,
+  };
+  if (system.length > 0) params.system = system.join('\n\n');
+  if (request.temperature !== undefined) params.temperature = request.temperature;
+
+  if (request.tools && request.tools.length > 0) {
+    params.tools = request.tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: { type: 'object', ...tool.parameters } as Anthropic.Tool.InputSchema,
+    }));
+    if (request.parallel_tool_calls === false) {
+      params.tool_choice = { type: 'auto', disable_parallel_tool_use: true };
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Responses-shaped result for a Messages API reply
+ */
+export function fromAnthropicMessage(message: Anthropic.Message): LLMResponse {
+  const output: LLMOutputItem[] = [];
+  let text: Extract<LLMOutputItem, { type: 'message' }> | null = null;
+
+  for (const block of message.content) {
+    if (block.type === 'text') {
+      if (!text) {
+        text = { type: 'message', id: message.id, role: 'assistant', content: [] };
+        output.push(text);
+      }
+      text.content.push({ type: 'output_text', text: block.text });
+    } else if (block.type === 'tool_use') {
+      output.push({
+        type: 'function_call',
+        id: block.id,
+        call_id: block.id,
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {}),
+      });
+    }
+  }
+
+  return {
+    id: message.id,
+    model: message.model,
+    output,
+    usage: { input_tokens: message.usage.input_tokens, output_tokens: message.usage.output_tokens },
+  };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly kind = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(apiKey: string = process.env.ANTHROPIC_API_KEY || '') {
+    this.client = new Anthropic({ apiKey, maxRetries: 1 });
+  }
+
+  async createResponse(request: LLMRequest, signal: AbortSignal): Promise<LLMResponse> {
+    if (request.text?.format?.type === 'json_schema') {
+      throw new LLMProviderError('Structured output is not supported for Anthropic models', 'anthropic', 'unsupported');
+    }
+
+    const message = await this.client.messages.create(toAnthropicRequest(request), { signal });
+    return fromAnthropicMessage(message);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * LLM Gateway
+ *
+ * One entry point for the text agents (SMS, WhatsApp, supervisor) whatever
+ * vendor the channel is configured for. Callers build OpenAI Responses API
+ * requests and always get a Responses-shaped result back: `message` items
+ * with `output_text` parts and `function_call` items with JSON `arguments`,
+ * so the existing tool-calling loops work unchanged on Claude.
+ *
+ * A request is routed by its channel backend (or, without one, by model
+ * name). When the backend errors or times out and the channel has a fallback
+ * backend, the request is retried once on the fallback.
+ */
+
+import { getModelFromBackend, type AIBackend } from '../channelConfigLoader';
+import { AnthropicProvider } from './anthropicProvider';
+import { OpenAIProvider } from './openaiProvider';
+import {
+  LLMProviderError,
+  type LLMProvider,
+  type LLMProviderKind,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMRouting,
+} from './types';
+
+export { LLMProviderError };
+export type { LLMInputItem, LLMOutputItem, LLMRequest, LLMResponse, LLMRouting } from './types';
+
+const DEFAULT_TIMEOUT_MS = 45_000;
+
+/** Backends that can serve a text request (the realtime backend is voice-only) */
+const TEXT_BACKENDS: AIBackend[] = ['openai_gpt4o', 'openai_gpt4o_mini', 'anthropic_claude'];
+
+export interface GatewayResponse extends LLMResponse {
+  provider: LLMProviderKind;
+  fallback_used: boolean;
+}
+
+export function isTextBackend(value: unknown): value is AIBackend {
+  return typeof value === 'string' && (TEXT_BACKENDS as string[]).includes(value);
+}
+
+export function providerForBackend(backend: AIBackend): LLMProviderKind {
+  return backend === 'anthropic_claude' ? 'anthropic' : 'openai';
+}
+
+export function providerForModel(model: string): LLMProviderKind {
+  return /^claude/i.test(model) ? 'anthropic' : 'openai';
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+const providers = new Map<LLMProviderKind, LLMProvider>();
+
+export function getLLMProvider(kind: LLMProviderKind): LLMProvider {
+  let provider = providers.get(kind);
+  if (!provider) {
+    provider = kind === 'anthropic' ? new AnthropicProvider() : new OpenAIProvider();
+    providers.set(kind, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replace a provider (tests, or a client with per-organization keys)
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.kind, provider);
+}
+
+function toProviderError(error: unknown, kind: LLMProviderKind, timedOut: boolean): LLMProviderError {
+  if (error instanceof LLMProviderError) return error;
+
+  const err = (error || {}) as any;
+  const message = err.message || err.error?.message || 'Unknown error';
+  if (timedOut) {
+    return new LLMProviderError(`${kind} request timed out`, kind, 'timeout', 504);
+  }
+
+  const lower = String(message).toLowerCase();
+  const isQuota =
+    err.status === 429 ||
+    err.code === 'insufficient_quota' ||
+    err.type === 'insufficient_quota' ||
+    err.error?.code === 'insufficient_quota' ||
+    lower.includes('quota') ||
+    lower.includes('insufficient') ||
+    lower.includes('billing') ||
+    lower.includes('rate limit');
+
+  return new LLMProviderError(message, kind, isQuota ? 'quota' : 'unknown', err.status);
+}
+
+async function attempt(kind: LLMProviderKind, request: LLMRequest, timeoutMs: number): Promise<LLMResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await getLLMProvider(kind).createResponse(request, controller.signal);
+  } catch (error) {
+    throw toProviderError(error, kind, controller.signal.aborted);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a Responses-shaped request on the routed backend, falling back once
+ * to `routing.fallbackBackend` on error or timeout
+ */
+export async function createLLMResponse(request: LLMRequest, routing: LLMRouting = {}): Promise<GatewayResponse> {
+  const backend = isTextBackend(routing.backend) ? routing.backend : undefined;
+  const timeoutMs = routing.timeoutMs && routing.timeoutMs > 0 ? routing.timeoutMs : DEFAULT_TIMEOUT_MS;
+
+  const primary = backend ? providerForBackend(backend) : providerForModel(request.model);
+  const primaryRequest = backend ? { ...request, model: getModelFromBackend(backend) } : request;
+
+  try {
+    const response = await attempt(primary, primaryRequest, timeoutMs);
+    return { ...response, provider: primary, fallback_used: false };
+  } catch (error) {
+    const fallback = routing.fallbackBackend;
+    if (!isTextBackend(fallback) || fallback === backend) {
+      throw error;
+    }
+
+    const reason = error instanceof LLMProviderError ? `${error.errorType}: ${error.message}` : String(error);
+    console.warn(`[LLM Gateway] ${primaryRequest.model} failed (${reason}), falling back to ${fallback}`);
+
+    const secondary = providerForBackend(fallback);
+    const response = await attempt(secondary, { ...request, model: getModelFromBackend(fallback) }, timeoutMs);
+    return { ...response, provider: secondary, fallback_used: true };
+  }
+}
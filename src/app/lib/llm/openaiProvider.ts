@@ -0,0 +1,26 @@
+/**
+ * OpenAI provider: the Responses API, which the gateway's request shape
+ * already matches, so requests pass straight through.
+ */
+
+import OpenAI from 'openai';
+import type { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly kind = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(apiKey: string = process.env.OPENAI_API_KEY || '') {
+    this.client = new OpenAI({ apiKey, maxRetries: 1 });
+  }
+
+  async createResponse(request: LLMRequest, signal: AbortSignal): Promise<LLMResponse> {
+    const params = { ...(request as any), stream: false };
+
+    const response = request.text?.format?.type === 'json_schema'
+      ? await this.client.responses.parse(params, { signal })
+      : await this.client.responses.create(params, { signal });
+
+    return response as unknown as LLMResponse;
+  }
+}
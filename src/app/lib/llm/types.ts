@@ -0,0 +1,81 @@
+/**
+ * LLM Gateway Types
+ *
+ * Requests and responses use the OpenAI Responses API shape the agents were
+ * written against; providers for other vendors translate to and from it.
+ */
+
+import type { AIBackend } from '../channelConfigLoader';
+
+export type LLMProviderKind = 'openai' | 'anthropic';
+
+/** Text content as the agents send it: a plain string or Responses content parts */
+export type LLMContent = string | Array<{ type: string; text?: string }>;
+
+export type LLMInputItem =
+  | { type?: 'message'; role: 'system' | 'developer' | 'user' | 'assistant'; content: LLMContent }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string };
+
+export interface LLMFunctionTool {
+  type: 'function';
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+  strict?: boolean;
+}
+
+export interface LLMRequest {
+  model: string;
+  instructions?: string;
+  input: LLMInputItem[];
+  tools?: LLMFunctionTool[];
+  parallel_tool_calls?: boolean;
+  max_output_tokens?: number;
+  temperature?: number;
+  /** Structured output (OpenAI only) */
+  text?: { format?: { type: string; [key: string]: any } };
+}
+
+export type LLMOutputItem =
+  | { type: 'message'; id?: string; role: 'assistant'; content: Array<{ type: 'output_text'; text: string }> }
+  | { type: 'function_call'; id?: string; call_id: string; name: string; arguments: string };
+
+export interface LLMResponse {
+  id: string;
+  model: string;
+  output: LLMOutputItem[];
+  usage?: { input_tokens: number; output_tokens: number };
+  /** Set by the OpenAI provider for structured output requests */
+  output_parsed?: unknown;
+  [key: string]: unknown;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  createResponse(request: LLMRequest, signal: AbortSignal): Promise<LLMResponse>;
+}
+
+/**
+ * Where a request goes: the channel's text backend and what to try when it
+ * errors or times out
+ */
+export interface LLMRouting {
+  backend?: AIBackend;
+  fallbackBackend?: AIBackend;
+  timeoutMs?: number;
+}
+
+export type LLMErrorType = 'quota' | 'timeout' | 'unsupported' | 'unknown';
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderKind,
+    public errorType: LLMErrorType = 'unknown',
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Outbound Patient Messaging
+ *
+ * Sends a message to a patient over the organization's own channels: SMS
+ * through its Twilio number, WhatsApp through its active Evolution API
+ * instance, email through Resend.
+ */
+
+import { getTwilioCredentials } from '../credentialLoader';
+import { getDefaultFromEmail, getResendClient } from '../email/resendClient';
+import { getEvolutionClient } from '../evolution/EvolutionClient';
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export type MessageChannel = 'sms' | 'whatsapp';
+
+export const MESSAGE_CHANNELS: MessageChannel[] = ['sms', 'whatsapp'];
+
+export interface OutboundMessageResult {
+  channel: MessageChannel | 'email';
+  to: string;
+  messageId?: string;
+}
+
+/**
+ * Digits only, so "+1 (555) 010-2030", "15550102030" and a WhatsApp JID compare equal
+ */
+export function normalizePhone(value: string | null | undefined): string {
+  if (!value) return '';
+  return String(value).split('@')[0].replace(/\D/g, '');
+}
+
+/**
+ * Loose phone match: the last 10 digits agree (ignores country code formatting)
+ */
+export function phonesMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizePhone(a);
+  const right = normalizePhone(b);
+  if (!left || !right) return false;
+  return left.slice(-10) === right.slice(-10);
+}
+
+/**
+ * Send an SMS from the organization's Twilio number
+ */
+export async function sendSms(organizationId: string, to: string, body: string): Promise<OutboundMessageResult> {
+  const { accountSid, authToken, phoneNumber } = await getTwilioCredentials(organizationId);
+
+  if (!accountSid || !authToken || !phoneNumber) {
+    throw new Error('Twilio is not configured for this organization (account SID, auth token and phone number are required)');
+  }
+
+  const auth = Buffer.from(`${accountSid}:${authToken}`).toString('base64');
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ To: to, From: phoneNumber, Body: body }).toString(),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Twilio SMS failed (${response.status}): ${data.message || response.statusText}`);
+  }
+
+  return { channel: 'sms', to, messageId: data.sid };
+}
+
+async function getActiveWhatsAppInstance(organizationId: string): Promise<string> {
+  const supabase = getSupabaseAdmin();
+  const { data: instance, error } = await supabase
+    .from('whatsapp_instances')
+    .select('instance_name')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !instance) {
+    throw new Error('No active WhatsApp instance for this organization');
+  }
+  return instance.instance_name;
+}
+
+/**
+ * Send a WhatsApp text through the organization's active Evolution instance
+ */
+export async function sendWhatsAppText(organizationId: string, to: string, text: string): Promise<OutboundMessageResult> {
+  const instanceName = await getActiveWhatsAppInstance(organizationId);
+  const result = await getEvolutionClient().sendTextMessage(instanceName, {
+    number: normalizePhone(to),
+    text,
+  });
+
+  return { channel: 'whatsapp', to, messageId: result?.key?.id };
+}
+
+/**
+ * Send a WhatsApp message with quick-reply buttons. The tapped button's id
+ * comes back on the webhook as buttonsResponseMessage.selectedButtonId.
+ */
+export async function sendWhatsAppButtons(
+  organizationId: string,
+  to: string,
+  text: string,
+  buttons: Array<{ id: string; text: string }>
+): Promise<OutboundMessageResult> {
+  const instanceName = await getActiveWhatsAppInstance(organizationId);
+  const result = await getEvolutionClient().sendButtons(instanceName, normalizePhone(to), text, buttons);
+
+  return { channel: 'whatsapp', to, messageId: result?.key?.id };
+}
+
+/**
+ * Send a patient email through Resend, from the organization's configured sender
+ */
+export async function sendPatientEmail(
+  organizationId: string,
+  to: string,
+  subject: string,
+  html: string
+): Promise<OutboundMessageResult> {
+  if (!to) {
+    throw new Error('No email address to send to');
+  }
+
+  const { data: org } = await getSupabaseAdmin()
+    .from('organizations')
+    .select('notification_settings')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  const { data, error } = await getResendClient().emails.send({
+    from: org?.notification_settings?.email_from || getDefaultFromEmail(),
+    to: [to],
+    subject,
+    html,
+  });
+
+  if (error) {
+    throw new Error(`Email failed: ${error.message}`);
+  }
+  return { channel: 'email', to, messageId: data?.id };
+}
+
+/**
+ * Send over the requested channel
+ */
+export async function sendPatientMessage(
+  organizationId: string,
+  channel: MessageChannel,
+  to: string,
+  text: string
+): Promise<OutboundMessageResult> {
+  if (!to) {
+    throw new Error('No phone number to send to');
+  }
+  return channel === 'whatsapp'
+    ? sendWhatsAppText(organizationId, to, text)
+    : sendSms(organizationId, to, text);
+}
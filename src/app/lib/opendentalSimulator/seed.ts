@@ -0,0 +1,181 @@
+/**
+ * OpenDental Simulator Seed
+ *
+ * Turns the sample practice from bookingSeedData into OpenDental records:
+ * providers and operatories numbered from 1, a provider schedule (with
+ * scheduleops) for every working day in the window, and the seed appointments.
+ */
+
+import {
+  SEED_APPOINTMENTS,
+  SEED_OPERATORIES,
+  SEED_PATIENTS,
+  SEED_PROVIDER_OPERATORIES,
+  SEED_PROVIDERS,
+  SEED_WORKING_HOURS,
+  seedAppointmentStart,
+} from '../bookingSeedData';
+import { formatOpenDentalDate, formatOpenDentalDateTime, formatPhoneNumber } from '../opendentalUtils';
+import type { ODAppointment, ODPatient, ODSchedule, ODScheduleOp, SimulatorData } from './types';
+
+export const NO_DATE = '0001-01-01';
+export const NO_DATETIME = '0001-01-01 00:00:00';
+
+export interface SeedOptions {
+  from?: Date;
+  /** Days of provider schedules to create, starting at `from` */
+  scheduleDays?: number;
+}
+
+/**
+ * Pattern string for a length in minutes (OpenDental uses 5-minute blocks)
+ */
+export function patternForMinutes(minutes: number): string {
+  return 'X'.repeat(Math.max(1, Math.round(minutes / 5)));
+}
+
+export function buildSimulatorData(options: SeedOptions = {}): SimulatorData {
+  const from = options.from ?? new Date();
+  const scheduleDays = options.scheduleDays ?? 28;
+  const stamp = formatOpenDentalDateTime(from);
+
+  const providers = SEED_PROVIDERS.map((provider, index) => ({
+    ProvNum: index + 1,
+    Abbr: `DOC${index + 1}`,
+    LName: provider.last_name,
+    FName: provider.first_name,
+    MI: '',
+    Suffix: 'DDS',
+    FeeSched: 1,
+    Specialty: 0,
+    IsSecondary: 'false',
+    IsHidden: 'false',
+    ProvStatus: 'Active',
+    PreferredName: '',
+    SchedNote: provider.specialty_tags.join(', '),
+    DateTStamp: stamp,
+  }));
+
+  const operatories = SEED_OPERATORIES.map((operatory, index) => {
+    const owner = SEED_PROVIDER_OPERATORIES.findIndex(ops => ops.includes(index));
+    return {
+      OperatoryNum: index + 1,
+      OpName: operatory.name,
+      Abbrev: `OP-${index + 1}`,
+      ItemOrder: index,
+      IsHidden: 'false',
+      ProvDentist: owner >= 0 ? owner + 1 : 0,
+      ProvHygienist: 0,
+      IsHygiene: operatory.tags.length === 1 && operatory.tags[0] === 'Hygiene' ? 'true' : 'false',
+      ClinicNum: 0,
+      SetProspective: 'false',
+      IsWebSched: 'false',
+    };
+  });
+
+  const patients: ODPatient[] = SEED_PATIENTS.map((patient, index) => ({
+    PatNum: index + 1,
+    LName: patient.last_name,
+    FName: patient.first_name,
+    MiddleI: '',
+    Preferred: '',
+    PatStatus: 'Patient',
+    Gender: 'Unknown',
+    Position: 'Single',
+    Birthdate: patient.date_of_birth,
+    SSN: '',
+    Address: '',
+    Address2: '',
+    City: '',
+    State: '',
+    Zip: '',
+    HmPhone: '',
+    WkPhone: '',
+    WirelessPhone: formatPhoneNumber(patient.phone),
+    Guarantor: index + 1,
+    Email: patient.email,
+    PriProv: 1,
+    priProvAbbr: 'DOC1',
+    SecProv: 0,
+    BillingType: 'Standard Account',
+    ChartNumber: '',
+    DateFirstVisit: NO_DATE,
+    ClinicNum: 0,
+    TxtMsgOk: 'Unknown',
+    PreferContactMethod: 'WirelessPh',
+    DateTStamp: stamp,
+    SecDateEntry: formatOpenDentalDate(from),
+  }));
+
+  const schedules: ODSchedule[] = [];
+  const scheduleOps: ODScheduleOp[] = [];
+  for (let offset = 0; offset < scheduleDays; offset++) {
+    const day = new Date(from);
+    day.setDate(day.getDate() + offset);
+    const hours = SEED_WORKING_HOURS.find(h => h.day_of_week === day.getDay());
+    if (!hours) continue;
+
+    SEED_PROVIDER_OPERATORIES.forEach((operatoryIndexes, providerIndex) => {
+      const ScheduleNum = schedules.length + 1;
+      schedules.push({
+        ScheduleNum,
+        SchedDate: formatOpenDentalDate(day),
+        StartTime: hours.start_time,
+        StopTime: hours.end_time,
+        SchedType: 'Provider',
+        ProvNum: providerIndex + 1,
+        BlockoutType: 0,
+        blockoutType: '',
+        Note: '',
+        operatories: operatoryIndexes.map(i => i + 1).join(','),
+        EmployeeNum: 0,
+        DateTStamp: stamp,
+      });
+      for (const operatoryIndex of operatoryIndexes) {
+        scheduleOps.push({ ScheduleOpNum: scheduleOps.length + 1, ScheduleNum, OperatoryNum: operatoryIndex + 1 });
+      }
+    });
+  }
+
+  const appointments: ODAppointment[] = SEED_APPOINTMENTS.map((appointment, index) => ({
+    AptNum: index + 1,
+    PatNum: appointment.patient + 1,
+    AptStatus: 'Scheduled',
+    Pattern: patternForMinutes(appointment.duration_minutes),
+    Confirmed: 0,
+    confirmed: 'Not Called',
+    Op: appointment.operatory + 1,
+    Note: appointment.notes,
+    ProvNum: appointment.provider + 1,
+    provAbbr: `DOC${appointment.provider + 1}`,
+    ProvHyg: 0,
+    AptDateTime: formatOpenDentalDateTime(seedAppointmentStart(appointment, from)),
+    NextAptNum: 0,
+    UnschedStatus: 0,
+    IsNewPatient: 'false',
+    ProcDescript: appointment.appointment_type,
+    ClinicNum: 0,
+    IsHygiene: 'false',
+    DateTStamp: stamp,
+    DateTimeArrived: NO_DATETIME,
+    DateTimeSeated: NO_DATETIME,
+    DateTimeDismissed: NO_DATETIME,
+    AppointmentTypeNum: 0,
+    SecDateTEntry: stamp,
+    Priority: 'Normal',
+  }));
+
+  return {
+    patients,
+    appointments,
+    providers,
+    operatories,
+    schedules,
+    scheduleOps,
+    preferences: [
+      { PrefName: 'PracticeTitle', ValueString: 'Simulated Dental Practice' },
+      { PrefName: 'PracticePhone', ValueString: '6195550100' },
+      { PrefName: 'TimeZone', ValueString: Intl.DateTimeFormat().resolvedOptions().timeZone },
+    ],
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * OpenDental Simulator Server
+ *
+ * Local HTTP stand-in for an OpenDental API v1 server, so /api/opendental,
+ * IntegrationExecutor, SyncManager and the orchestrator can run end-to-end
+ * without a real practice. Point an organization's OpenDental credentials at
+ * it (api_url http://localhost:4020/api/v1 plus the simulator's keys).
+ *
+ * API routes live under /api/v1 and need "Authorization: ODFHIR dev/customer".
+ * Control routes (no auth) under /_simulator:
+ *   GET    /_simulator/state   counts and current faults
+ *   POST   /_simulator/reset   restore the seed data
+ *   PUT    /_simulator/config  { latencyMs?, failureRate?, breakTypesEnabled? }
+ *   POST   /_simulator/faults  add a SimulatorFault
+ *   DELETE /_simulator/faults  clear faults
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenDentalSimulatorStore } from './store';
+import { SimulatorHttpError, type SimulatorData, type SimulatorFault, type SimulatorOptions } from './types';
+
+export const SIMULATOR_DEVELOPER_KEY = 'simulator-developer-key';
+export const SIMULATOR_CUSTOMER_KEY = 'simulator-customer-key';
+const API_PREFIX = '/api/v1';
+
+type Query = Record<string, string | undefined>;
+interface SimulatorConfig {
+  latencyMs: number;
+  failureRate: number;
+  breakTypesEnabled: boolean;
+}
+type Handler = (
+  store: OpenDentalSimulatorStore,
+  match: string[],
+  query: Query,
+  body: any,
+  config: SimulatorConfig
+) => { status: number; body?: unknown };
+
+/** Route table: method, path pattern (after /api/v1), handler */
+const ROUTES: Array<[string, RegExp, Handler]> = [
+  ['GET', /^\/patients$/, (s, _m, q) => ({ status: 200, body: s.getMultiplePatients(q) })],
+  ['GET', /^\/patients\/([^/]+)$/, (s, m) => ({ status: 200, body: s.getSinglePatient(m[1]) })],
+  ['POST', /^\/patients$/, (s, _m, _q, b) => ({ status: 201, body: s.createPatient(b) })],
+  ['PUT', /^\/patients\/([^/]+)$/, (s, m, _q, b) => ({ status: 200, body: s.updatePatient(m[1], b) })],
+
+  ['GET', /^\/appointments$/, (s, _m, q) => ({ status: 200, body: s.getMultipleAppointments(q) })],
+  ['GET', /^\/appointments\/Slots$/i, (s, _m, q) => ({ status: 200, body: s.getAvailableSlots(q) })],
+  ['GET', /^\/appointments\/(\d+)$/, (s, m) => ({ status: 200, body: s.getAppointmentById(m[1]) })],
+  ['POST', /^\/appointments$/, (s, _m, _q, b) => ({ status: 201, body: s.createAppointment(b) })],
+  ['PUT', /^\/appointments\/(\d+)$/, (s, m, _q, b) => ({ status: 200, body: s.updateAppointment(m[1], b) })],
+  ['PUT', /^\/appointments\/(\d+)\/Break$/i, (s, m, _q, b, c) => { s.breakAppointment(m[1], b, c.breakTypesEnabled); return { status: 200 }; }],
+  ['PUT', /^\/appointments\/(\d+)\/Note$/i, (s, m, _q, b) => { s.appendNoteToAppointment(m[1], b); return { status: 200 }; }],
+  ['PUT', /^\/appointments\/(\d+)\/Confirm$/i, (s, m, _q, b) => { s.confirmAppointment(m[1], b); return { status: 200 }; }],
+
+  ['GET', /^\/providers$/, (s, _m, q) => ({ status: 200, body: s.getMultipleProviders(q) })],
+  ['GET', /^\/providers\/([^/]+)$/, (s, m) => ({ status: 200, body: s.getSingleProvider(m[1]) })],
+  ['GET', /^\/operatories$/, (s, _m, q) => ({ status: 200, body: s.getMultipleOperatories(q) })],
+  ['GET', /^\/operatories\/([^/]+)$/, (s, m) => ({ status: 200, body: s.getSingleOperatory(m[1]) })],
+  ['GET', /^\/schedules$/, (s, _m, q) => ({ status: 200, body: s.getMultipleSchedules(q) })],
+  ['GET', /^\/schedules\/([^/]+)$/, (s, m) => ({ status: 200, body: s.getSingleSchedule(m[1]) })],
+  ['GET', /^\/scheduleops$/i, (s, _m, q) => ({ status: 200, body: s.getScheduleOps(q) })],
+  ['GET', /^\/preferences$/, (s, _m, q) => ({ status: 200, body: s.getPreferences(q) })],
+];
+
+export interface OpenDentalSimulator {
+  server: http.Server;
+  /** e.g. http://127.0.0.1:4020 */
+  url: string;
+  /** url + /api/v1, the value for an organization's api_url */
+  baseUrl: string;
+  store: OpenDentalSimulatorStore;
+  addFault(fault: SimulatorFault): void;
+  clearFaults(): void;
+  reset(data?: SimulatorData): void;
+  close(): Promise<void>;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => resolve(raw));
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  // OpenDental answers errors with the explanation as a bare JSON string
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function startOpenDentalSimulator(options: SimulatorOptions = {}): Promise<OpenDentalSimulator> {
+  const store = new OpenDentalSimulatorStore(options.data);
+  const expectedAuth = `ODFHIR ${options.developerKey ?? SIMULATOR_DEVELOPER_KEY}/${options.customerKey ?? SIMULATOR_CUSTOMER_KEY}`;
+  const random = options.random ?? Math.random;
+  const config: SimulatorConfig = {
+    latencyMs: options.latencyMs ?? 0,
+    failureRate: options.failureRate ?? 0,
+    breakTypesEnabled: options.breakTypesEnabled ?? true,
+  };
+  let faults: SimulatorFault[] = [...(options.faults ?? [])];
+  /** Responses to writes already seen, by Idempotency-Key */
+  const idempotentResponses = new Map<string, { status: number; body?: unknown }>();
+
+  const takeFault = (method: string, path: string): SimulatorFault | null => {
+    const fault = faults.find(f =>
+      (!f.method || f.method.toUpperCase() === method) &&
+      path.toLowerCase().startsWith(f.path.toLowerCase())
+    );
+    if (!fault) return null;
+    if (fault.times !== undefined) {
+      fault.times -= 1;
+      if (fault.times <= 0) faults = faults.filter(f => f !== fault);
+    }
+    return fault;
+  };
+
+  const handleControl = async (req: http.IncomingMessage, res: http.ServerResponse, path: string) => {
+    const raw = await readBody(req);
+    const body = raw ? JSON.parse(raw) : {};
+
+    if (path === '/_simulator/state' && req.method === 'GET') {
+      const data = store.snapshot();
+      return send(res, 200, {
+        counts: Object.fromEntries(Object.entries(data).map(([key, rows]) => [key, rows.length])),
+        config,
+        faults,
+      });
+    }
+    if (path === '/_simulator/reset' && req.method === 'POST') {
+      store.reset(options.data);
+      idempotentResponses.clear();
+      return send(res, 200, { reset: true });
+    }
+    if (path === '/_simulator/config' && req.method === 'PUT') {
+      Object.assign(config, body);
+      return send(res, 200, config);
+    }
+    if (path === '/_simulator/faults' && req.method === 'POST') {
+      if (!body.path) return send(res, 400, 'path is required.');
+      faults.push(body);
+      return send(res, 201, faults);
+    }
+    if (path === '/_simulator/faults' && req.method === 'DELETE') {
+      faults = [];
+      return send(res, 200, faults);
+    }
+    send(res, 404, 'Not found.');
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://simulator');
+    const method = (req.method || 'GET').toUpperCase();
+
+    try {
+      if (url.pathname.startsWith('/_simulator/')) {
+        return await handleControl(req, res, url.pathname);
+      }
+
+      if (!url.pathname.startsWith(API_PREFIX)) {
+        return send(res, 404, 'Not found.');
+      }
+      const path = url.pathname.slice(API_PREFIX.length) || '/';
+
+      if (req.headers.authorization !== expectedAuth) {
+        return send(res, 401, 'Invalid Authorization header. Expected ODFHIR {DeveloperKey}/{CustomerKey}.');
+      }
+
+      const fault = takeFault(method, path);
+      const delay = config.latencyMs + (fault?.delayMs ?? 0);
+      if (delay > 0) await sleep(delay);
+
+      if (fault?.dropConnection) {
+        req.socket.destroy();
+        return;
+      }
+      if (fault) {
+        return send(res, fault.status ?? 500, fault.message ?? 'Simulated failure.');
+      }
+      if (config.failureRate > 0 && random() < config.failureRate) {
+        return send(res, 500, 'Simulated failure.');
+      }
+
+      const route = ROUTES.find(([m, pattern]) => m === method && pattern.test(path));
+      if (!route) {
+        return send(res, 404, `${method} ${path} is not implemented by the simulator.`);
+      }
+
+      const raw = await readBody(req);
+      let body: any = {};
+      if (raw) {
+        try {
+          body = JSON.parse(raw);
+        } catch {
+          return send(res, 400, 'Request body is not valid JSON.');
+        }
+      }
+
+      const idempotencyKey = method !== 'GET' ? req.headers['idempotency-key'] : undefined;
+      const replay = typeof idempotencyKey === 'string' ? idempotentResponses.get(idempotencyKey) : undefined;
+      if (replay) {
+        return send(res, replay.status, replay.body);
+      }
+
+      const query = Object.fromEntries(url.searchParams.entries());
+      const match = route[1].exec(path) as RegExpExecArray;
+      const result = route[2](store, [...match], query, body, config);
+      if (typeof idempotencyKey === 'string') idempotentResponses.set(idempotencyKey, result);
+      send(res, result.status, result.body);
+    } catch (error) {
+      if (error instanceof SimulatorHttpError) {
+        return send(res, error.status, error.message);
+      }
+      console.error('[OpenDental Simulator] Error:', error);
+      send(res, 500, error instanceof Error ? error.message : 'Internal Server Error');
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve));
+  const { address, port } = server.address() as AddressInfo;
+  const url = `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+
+  return {
+    server,
+    url,
+    baseUrl: `${url}${API_PREFIX}`,
+    store,
+    addFault: fault => { faults.push({ ...fault }); },
+    clearFaults: () => { faults = []; },
+    reset: data => {
+      store.reset(data ?? options.data);
+      idempotentResponses.clear();
+    },
+    close: () => new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    }),
+  };
+}
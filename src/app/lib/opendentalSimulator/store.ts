@@ -0,0 +1,455 @@
+/**
+ * OpenDental Simulator Store
+ *
+ * In-memory practice data behind the simulator. Methods mirror the OpenDental
+ * API v1 endpoints (named after their registry functions), validate like the
+ * real API and throw SimulatorHttpError with OpenDental's status and message.
+ */
+
+import { formatOpenDentalDate, formatOpenDentalDateTime, formatPhoneNumber, parseOpenDentalDate } from '../opendentalUtils';
+import { buildSimulatorData, NO_DATE, NO_DATETIME, patternForMinutes } from './seed';
+import {
+  SimulatorHttpError,
+  type ODAppointment,
+  type ODPatient,
+  type SimulatorData,
+} from './types';
+
+type Query = Record<string, string | undefined>;
+type Body = Record<string, any>;
+
+/** OpenDental returns at most 100 items per list call; Offset pages through the rest */
+const PAGE_SIZE = 100;
+const BOOKED_STATUSES: ODAppointment['AptStatus'][] = ['Scheduled', 'Complete', 'ASAP'];
+const DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+
+const PATIENT_FIELDS = [
+  'LName', 'FName', 'MiddleI', 'Preferred', 'PatStatus', 'Gender', 'Position', 'Birthdate', 'SSN',
+  'Address', 'Address2', 'City', 'State', 'Zip', 'HmPhone', 'WkPhone', 'WirelessPhone', 'Email',
+  'PriProv', 'SecProv', 'BillingType', 'ChartNumber', 'ClinicNum', 'TxtMsgOk', 'PreferContactMethod',
+] as const;
+
+const APPOINTMENT_STATUSES: ODAppointment['AptStatus'][] = ['Scheduled', 'Complete', 'UnschedList', 'ASAP', 'Broken', 'Planned'];
+
+function parseDateTime(value: string): Date | null {
+  const match = DATETIME_PATTERN.exec(value);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return new Date(y, mo - 1, d, h, mi, s);
+}
+
+function requireInt(value: unknown, name: string): number {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new SimulatorHttpError(400, `${name} is invalid.`);
+  }
+  return parsed;
+}
+
+function page<T>(items: T[], query: Query): T[] {
+  const offset = parseInt(query.Offset || '0', 10) || 0;
+  return items.slice(offset, offset + PAGE_SIZE);
+}
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/** Minutes since midnight for HH:mm:ss */
+function minutesOf(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export class OpenDentalSimulatorStore {
+  private data: SimulatorData;
+
+  constructor(data?: SimulatorData) {
+    this.data = structuredClone(data ?? buildSimulatorData());
+  }
+
+  reset(data?: SimulatorData): void {
+    this.data = structuredClone(data ?? buildSimulatorData());
+  }
+
+  snapshot(): SimulatorData {
+    return structuredClone(this.data);
+  }
+
+  private now(): string {
+    return formatOpenDentalDateTime(new Date());
+  }
+
+  private nextNum<T>(items: T[], key: keyof T): number {
+    return items.reduce((max, item) => Math.max(max, Number(item[key])), 0) + 1;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Patients
+  // ---------------------------------------------------------------------------
+
+  getSinglePatient(patNum: string): ODPatient {
+    const patient = this.data.patients.find(p => p.PatNum === requireInt(patNum, 'PatNum'));
+    if (!patient) throw new SimulatorHttpError(404, 'Patient not found.');
+    return patient;
+  }
+
+  getMultiplePatients(query: Query): ODPatient[] {
+    const starts = (value: string, prefix?: string) => !prefix || value.toLowerCase().startsWith(prefix.toLowerCase());
+    const phone = query.Phone ? digits(query.Phone) : '';
+
+    const matches = this.data.patients.filter(p =>
+      starts(p.LName, query.LName) &&
+      starts(p.FName, query.FName) &&
+      (!query.Birthdate || p.Birthdate === query.Birthdate) &&
+      (!query.ChartNumber || p.ChartNumber === query.ChartNumber) &&
+      (!phone || [p.HmPhone, p.WkPhone, p.WirelessPhone].some(n => n && digits(n).includes(phone))) &&
+      (query.hideInactive !== 'true' || p.PatStatus !== 'Inactive') &&
+      (query.showArchived === 'true' || p.PatStatus !== 'Archived') &&
+      (query.guarOnly !== 'true' || p.Guarantor === p.PatNum)
+    );
+    return page(matches, query);
+  }
+
+  createPatient(body: Body): ODPatient {
+    if (!body.LName || !body.FName) {
+      throw new SimulatorHttpError(400, 'LName and FName are required.');
+    }
+    if (body.Birthdate && !parseOpenDentalDate(body.Birthdate)) {
+      throw new SimulatorHttpError(400, 'Birthdate is not in a valid format. Expected yyyy-MM-dd.');
+    }
+    const priProv = body.PriProv ? requireInt(body.PriProv, 'PriProv') : this.data.providers[0]?.ProvNum ?? 0;
+    const provider = this.data.providers.find(p => p.ProvNum === priProv);
+    if (!provider) throw new SimulatorHttpError(400, 'PriProv is invalid.');
+
+    const PatNum = this.nextNum(this.data.patients, 'PatNum');
+    const stamp = this.now();
+    const patient: ODPatient = {
+      PatNum,
+      LName: '', FName: '', MiddleI: '', Preferred: '',
+      PatStatus: 'Patient', Gender: 'Unknown', Position: 'Single', Birthdate: NO_DATE, SSN: '',
+      Address: '', Address2: '', City: '', State: '', Zip: '',
+      HmPhone: '', WkPhone: '', WirelessPhone: '',
+      Guarantor: PatNum, Email: '',
+      PriProv: priProv, priProvAbbr: provider.Abbr, SecProv: 0,
+      BillingType: 'Standard Account', ChartNumber: '', DateFirstVisit: NO_DATE, ClinicNum: 0,
+      TxtMsgOk: 'Unknown', PreferContactMethod: 'None',
+      DateTStamp: stamp, SecDateEntry: formatOpenDentalDate(new Date()),
+    };
+    this.applyPatientFields(patient, body);
+    this.data.patients.push(patient);
+    return patient;
+  }
+
+  updatePatient(patNum: string, body: Body): ODPatient {
+    const patient = this.getSinglePatient(patNum);
+    this.applyPatientFields(patient, body);
+    patient.DateTStamp = this.now();
+    return patient;
+  }
+
+  private applyPatientFields(patient: ODPatient, body: Body): void {
+    for (const field of PATIENT_FIELDS) {
+      if (body[field] === undefined || body[field] === null) continue;
+      const value = body[field];
+      if (field === 'HmPhone' || field === 'WkPhone' || field === 'WirelessPhone') {
+        (patient as any)[field] = formatPhoneNumber(String(value));
+      } else if (field === 'PriProv' || field === 'SecProv' || field === 'ClinicNum') {
+        (patient as any)[field] = Number(value);
+      } else {
+        (patient as any)[field] = String(value);
+      }
+    }
+    patient.priProvAbbr = this.data.providers.find(p => p.ProvNum === patient.PriProv)?.Abbr ?? '';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Appointments
+  // ---------------------------------------------------------------------------
+
+  getAppointmentById(aptNum: string): ODAppointment {
+    const appointment = this.data.appointments.find(a => a.AptNum === requireInt(aptNum, 'AptNum'));
+    if (!appointment) throw new SimulatorHttpError(404, 'Appointment not found.');
+    return appointment;
+  }
+
+  getMultipleAppointments(query: Query): ODAppointment[] {
+    const dateStart = query.dateStart || query.date;
+    const dateEnd = query.dateEnd || query.date;
+    for (const [name, value] of [['dateStart', dateStart], ['dateEnd', dateEnd]] as const) {
+      if (value && !parseOpenDentalDate(value)) {
+        throw new SimulatorHttpError(400, `${name} is not in a valid format. Expected yyyy-MM-dd.`);
+      }
+    }
+
+    const matches = this.data.appointments
+      .filter(a =>
+        (!query.PatNum || a.PatNum === Number(query.PatNum)) &&
+        (!query.AptStatus || a.AptStatus === query.AptStatus) &&
+        (!query.Op || a.Op === Number(query.Op)) &&
+        (!query.ClinicNum || a.ClinicNum === Number(query.ClinicNum)) &&
+        (!query.DateTStamp || a.DateTStamp >= query.DateTStamp) &&
+        (!dateStart || a.AptDateTime.slice(0, 10) >= dateStart) &&
+        (!dateEnd || a.AptDateTime.slice(0, 10) <= dateEnd)
+      )
+      .sort((a, b) => a.AptDateTime.localeCompare(b.AptDateTime) || a.AptNum - b.AptNum);
+    return page(matches, query);
+  }
+
+  createAppointment(body: Body): ODAppointment {
+    if (!body.PatNum || !body.Op || !body.AptDateTime) {
+      throw new SimulatorHttpError(400, 'PatNum, Op, and AptDateTime are required.');
+    }
+    const patient = this.data.patients.find(p => p.PatNum === requireInt(body.PatNum, 'PatNum'));
+    if (!patient) throw new SimulatorHttpError(400, 'PatNum is invalid.');
+    const operatory = this.data.operatories.find(o => o.OperatoryNum === requireInt(body.Op, 'Op'));
+    if (!operatory) throw new SimulatorHttpError(400, 'Op is invalid.');
+    if (!parseDateTime(String(body.AptDateTime))) {
+      throw new SimulatorHttpError(400, 'AptDateTime is not in a valid format. Expected yyyy-MM-dd HH:mm:ss.');
+    }
+    const status = body.AptStatus ?? 'Scheduled';
+    if (!['Scheduled', 'UnschedList', 'ASAP', 'Planned'].includes(status)) {
+      throw new SimulatorHttpError(400, 'AptStatus is invalid.');
+    }
+    const provNum = body.ProvNum ? requireInt(body.ProvNum, 'ProvNum') : operatory.ProvDentist || patient.PriProv;
+    const provider = this.data.providers.find(p => p.ProvNum === provNum);
+    if (!provider) throw new SimulatorHttpError(400, 'ProvNum is invalid.');
+
+    const stamp = this.now();
+    const appointment: ODAppointment = {
+      AptNum: this.nextNum(this.data.appointments, 'AptNum'),
+      PatNum: patient.PatNum,
+      AptStatus: status,
+      Pattern: this.validPattern(body.Pattern) ?? patternForMinutes(30),
+      Confirmed: 0,
+      confirmed: 'Not Called',
+      Op: operatory.OperatoryNum,
+      Note: body.Note ?? '',
+      ProvNum: provider.ProvNum,
+      provAbbr: provider.Abbr,
+      ProvHyg: body.ProvHyg ? Number(body.ProvHyg) : 0,
+      AptDateTime: String(body.AptDateTime),
+      NextAptNum: 0,
+      UnschedStatus: 0,
+      IsNewPatient: body.IsNewPatient === true || body.IsNewPatient === 'true' ? 'true' : 'false',
+      ProcDescript: '',
+      ClinicNum: body.ClinicNum ? Number(body.ClinicNum) : 0,
+      IsHygiene: body.IsHygiene === true || body.IsHygiene === 'true' ? 'true' : 'false',
+      DateTStamp: stamp,
+      DateTimeArrived: NO_DATETIME,
+      DateTimeSeated: NO_DATETIME,
+      DateTimeDismissed: NO_DATETIME,
+      AppointmentTypeNum: 0,
+      SecDateTEntry: stamp,
+      Priority: 'Normal',
+    };
+    this.data.appointments.push(appointment);
+    return appointment;
+  }
+
+  updateAppointment(aptNum: string, body: Body): ODAppointment {
+    const appointment = this.getAppointmentById(aptNum);
+
+    if (body.AptStatus !== undefined) {
+      if (body.AptStatus === 'Broken') {
+        throw new SimulatorHttpError(400, 'AptStatus cannot be set to Broken. Use Appointments PUT Break instead.');
+      }
+      if (!APPOINTMENT_STATUSES.includes(body.AptStatus)) {
+        throw new SimulatorHttpError(400, 'AptStatus is invalid.');
+      }
+      appointment.AptStatus = body.AptStatus;
+    }
+    if (body.AptDateTime !== undefined) {
+      if (!parseDateTime(String(body.AptDateTime))) {
+        throw new SimulatorHttpError(400, 'AptDateTime is not in a valid format. Expected yyyy-MM-dd HH:mm:ss.');
+      }
+      appointment.AptDateTime = String(body.AptDateTime);
+    }
+    if (body.Op !== undefined) {
+      const op = requireInt(body.Op, 'Op');
+      if (!this.data.operatories.some(o => o.OperatoryNum === op)) throw new SimulatorHttpError(400, 'Op is invalid.');
+      appointment.Op = op;
+    }
+    if (body.ProvNum !== undefined) {
+      const provider = this.data.providers.find(p => p.ProvNum === requireInt(body.ProvNum, 'ProvNum'));
+      if (!provider) throw new SimulatorHttpError(400, 'ProvNum is invalid.');
+      appointment.ProvNum = provider.ProvNum;
+      appointment.provAbbr = provider.Abbr;
+    }
+    if (body.Pattern !== undefined) {
+      const pattern = this.validPattern(body.Pattern);
+      if (!pattern) throw new SimulatorHttpError(400, 'Pattern is invalid.');
+      appointment.Pattern = pattern;
+    }
+    if (body.Note !== undefined) appointment.Note = String(body.Note);
+    if (body.DateTimeArrived !== undefined) appointment.DateTimeArrived = String(body.DateTimeArrived);
+
+    appointment.DateTStamp = this.now();
+    return appointment;
+  }
+
+  breakAppointment(aptNum: string, body: Body, breakTypesEnabled: boolean): void {
+    const appointment = this.getAppointmentById(aptNum);
+    if (appointment.AptStatus !== 'Scheduled') {
+      throw new SimulatorHttpError(400, 'Only appointments with an AptStatus of Scheduled can be broken.');
+    }
+    if (body.breakType !== undefined) {
+      if (!['Missed', 'Cancelled'].includes(body.breakType)) {
+        throw new SimulatorHttpError(400, 'breakType is invalid.');
+      }
+      if (!breakTypesEnabled) {
+        throw new SimulatorHttpError(400, `breakType is invalid. ${body.breakType} is not enabled by the Dental Office.`);
+      }
+    }
+    const toUnscheduledList = body.sendToUnscheduledList === true || body.sendToUnscheduledList === 'true';
+    appointment.AptStatus = toUnscheduledList ? 'UnschedList' : 'Broken';
+    appointment.DateTStamp = this.now();
+  }
+
+  appendNoteToAppointment(aptNum: string, body: Body): void {
+    const appointment = this.getAppointmentById(aptNum);
+    if (!body.Note) throw new SimulatorHttpError(400, 'Note is required.');
+    appointment.Note = appointment.Note ? `${appointment.Note}\r\n${body.Note}` : String(body.Note);
+    appointment.DateTStamp = this.now();
+  }
+
+  confirmAppointment(aptNum: string, body: Body): void {
+    const appointment = this.getAppointmentById(aptNum);
+    if (!body.confirmVal && !body.defNum) {
+      throw new SimulatorHttpError(400, 'confirmVal or defNum is required.');
+    }
+    appointment.confirmed = String(body.confirmVal ?? 'Confirmed');
+    appointment.Confirmed = body.defNum ? Number(body.defNum) : appointment.Confirmed;
+    appointment.DateTStamp = this.now();
+  }
+
+  /**
+   * Open time in provider schedules, per operatory, as OpenDental returns it:
+   * contiguous free ranges at least lengthMinutes long
+   */
+  getAvailableSlots(query: Query): Array<{ DateTimeStart: string; DateTimeEnd: string; ProvNum: number; OpNum: number }> {
+    const today = formatOpenDentalDate(new Date());
+    const dateStart = query.dateStart || query.date || today;
+    const dateEnd = query.dateEnd || query.date || dateStart;
+    if (!parseOpenDentalDate(dateStart) || !parseOpenDentalDate(dateEnd)) {
+      throw new SimulatorHttpError(400, 'Dates must be in yyyy-MM-dd format.');
+    }
+    const lengthMinutes = parseInt(query.lengthMinutes || '0', 10) || 0;
+
+    const slots: Array<{ DateTimeStart: string; DateTimeEnd: string; ProvNum: number; OpNum: number }> = [];
+    const providerSchedules = this.data.schedules.filter(s =>
+      s.SchedType === 'Provider' &&
+      s.SchedDate >= dateStart && s.SchedDate <= dateEnd &&
+      (!query.ProvNum || s.ProvNum === Number(query.ProvNum))
+    );
+
+    for (const schedule of providerSchedules) {
+      const ops = this.data.scheduleOps
+        .filter(so => so.ScheduleNum === schedule.ScheduleNum)
+        .map(so => so.OperatoryNum)
+        .filter(op => !query.OpNum || op === Number(query.OpNum));
+
+      for (const op of ops) {
+        const busy = [
+          ...this.data.appointments
+            .filter(a => a.Op === op && BOOKED_STATUSES.includes(a.AptStatus) && a.AptDateTime.startsWith(schedule.SchedDate))
+            .map(a => {
+              const start = minutesOf(a.AptDateTime.slice(11));
+              return [start, start + a.Pattern.length * 5];
+            }),
+          ...this.data.schedules
+            .filter(s => s.SchedType === 'Blockout' && s.SchedDate === schedule.SchedDate && s.operatories.split(',').map(Number).includes(op))
+            .map(s => [minutesOf(s.StartTime), minutesOf(s.StopTime)]),
+        ].sort((a, b) => a[0] - b[0]);
+
+        let cursor = minutesOf(schedule.StartTime);
+        const stop = minutesOf(schedule.StopTime);
+        for (const [start, end] of [...busy, [stop, stop]]) {
+          const gapEnd = Math.min(start, stop);
+          if (gapEnd - cursor > 0 && gapEnd - cursor >= lengthMinutes) {
+            slots.push({
+              DateTimeStart: `${schedule.SchedDate} ${this.clock(cursor)}`,
+              DateTimeEnd: `${schedule.SchedDate} ${this.clock(gapEnd)}`,
+              ProvNum: schedule.ProvNum,
+              OpNum: op,
+            });
+          }
+          cursor = Math.max(cursor, end);
+        }
+      }
+    }
+
+    return slots.sort((a, b) => a.DateTimeStart.localeCompare(b.DateTimeStart) || a.OpNum - b.OpNum);
+  }
+
+  private clock(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+  }
+
+  private validPattern(pattern: unknown): string | null {
+    return typeof pattern === 'string' && /^[X/]+$/.test(pattern) ? pattern : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Providers, operatories, schedules, preferences
+  // ---------------------------------------------------------------------------
+
+  getSingleProvider(provNum: string) {
+    const provider = this.data.providers.find(p => p.ProvNum === requireInt(provNum, 'ProvNum'));
+    if (!provider) throw new SimulatorHttpError(404, 'Provider not found.');
+    return provider;
+  }
+
+  getMultipleProviders(query: Query) {
+    if (query.DateTStamp && !parseDateTime(query.DateTStamp)) {
+      throw new SimulatorHttpError(400, 'DateTStamp format must be yyyy-MM-dd HH:mm:ss');
+    }
+    return page(this.data.providers.filter(p => !query.DateTStamp || p.DateTStamp >= query.DateTStamp), query);
+  }
+
+  getSingleOperatory(operatoryNum: string) {
+    const operatory = this.data.operatories.find(o => o.OperatoryNum === requireInt(operatoryNum, 'OperatoryNum'));
+    if (!operatory) throw new SimulatorHttpError(404, 'Operatory not found.');
+    return operatory;
+  }
+
+  getMultipleOperatories(query: Query) {
+    return page(this.data.operatories.filter(o => !query.ClinicNum || o.ClinicNum === Number(query.ClinicNum)), query);
+  }
+
+  getSingleSchedule(scheduleNum: string) {
+    const schedule = this.data.schedules.find(s => s.ScheduleNum === requireInt(scheduleNum, 'ScheduleNum'));
+    if (!schedule) throw new SimulatorHttpError(404, 'Schedule not found.');
+    return schedule;
+  }
+
+  getMultipleSchedules(query: Query) {
+    const dateStart = query.dateStart || query.date || formatOpenDentalDate(new Date());
+    const dateEnd = query.dateEnd || query.date || dateStart;
+    if (!parseOpenDentalDate(dateStart) || !parseOpenDentalDate(dateEnd)) {
+      throw new SimulatorHttpError(400, 'Dates must be in yyyy-MM-dd format.');
+    }
+    const matches = this.data.schedules.filter(s =>
+      s.SchedDate >= dateStart && s.SchedDate <= dateEnd &&
+      (!query.SchedType || s.SchedType === query.SchedType) &&
+      (!query.ProvNum || s.ProvNum === Number(query.ProvNum)) &&
+      (!query.EmployeeNum || s.EmployeeNum === Number(query.EmployeeNum)) &&
+      (!query.BlockoutDefNum || s.BlockoutType === Number(query.BlockoutDefNum))
+    );
+    return page(matches, query);
+  }
+
+  getScheduleOps(query: Query) {
+    if (!query.ScheduleNum && !query.OperatoryNum) {
+      throw new SimulatorHttpError(400, 'ScheduleNum or OperatoryNum is required.');
+    }
+    return page(this.data.scheduleOps.filter(so =>
+      (!query.ScheduleNum || so.ScheduleNum === Number(query.ScheduleNum)) &&
+      (!query.OperatoryNum || so.OperatoryNum === Number(query.OperatoryNum))
+    ), query);
+  }
+
+  getPreferences(query: Query) {
+    return page(this.data.preferences.filter(p => !query.PrefName || p.PrefName === query.PrefName), query);
+  }
+}
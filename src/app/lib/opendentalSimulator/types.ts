@@ -0,0 +1,183 @@
+/**
+ * OpenDental Simulator Types
+ *
+ * Record shapes follow the OpenDental API v1 responses (see
+ * src/data/validated_registry.json): PascalCase fields, "true"/"false"
+ * strings for booleans, yyyy-MM-dd dates and yyyy-MM-dd HH:mm:ss timestamps.
+ */
+
+export interface ODPatient {
+  PatNum: number;
+  LName: string;
+  FName: string;
+  MiddleI: string;
+  Preferred: string;
+  PatStatus: string;
+  Gender: string;
+  Position: string;
+  Birthdate: string;
+  SSN: string;
+  Address: string;
+  Address2: string;
+  City: string;
+  State: string;
+  Zip: string;
+  HmPhone: string;
+  WkPhone: string;
+  WirelessPhone: string;
+  Guarantor: number;
+  Email: string;
+  PriProv: number;
+  priProvAbbr: string;
+  SecProv: number;
+  BillingType: string;
+  ChartNumber: string;
+  DateFirstVisit: string;
+  ClinicNum: number;
+  TxtMsgOk: string;
+  PreferContactMethod: string;
+  DateTStamp: string;
+  SecDateEntry: string;
+}
+
+export interface ODAppointment {
+  AptNum: number;
+  PatNum: number;
+  AptStatus: 'Scheduled' | 'Complete' | 'UnschedList' | 'ASAP' | 'Broken' | 'Planned';
+  Pattern: string; // one character per 5 minutes
+  Confirmed: number;
+  confirmed: string;
+  Op: number;
+  Note: string;
+  ProvNum: number;
+  provAbbr: string;
+  ProvHyg: number;
+  AptDateTime: string;
+  NextAptNum: number;
+  UnschedStatus: number;
+  IsNewPatient: string;
+  ProcDescript: string;
+  ClinicNum: number;
+  IsHygiene: string;
+  DateTStamp: string;
+  DateTimeArrived: string;
+  DateTimeSeated: string;
+  DateTimeDismissed: string;
+  AppointmentTypeNum: number;
+  SecDateTEntry: string;
+  Priority: string;
+}
+
+export interface ODProvider {
+  ProvNum: number;
+  Abbr: string;
+  LName: string;
+  FName: string;
+  MI: string;
+  Suffix: string;
+  FeeSched: number;
+  Specialty: number;
+  IsSecondary: string;
+  IsHidden: string;
+  ProvStatus: string;
+  PreferredName: string;
+  SchedNote: string;
+  DateTStamp: string;
+}
+
+export interface ODOperatory {
+  OperatoryNum: number;
+  OpName: string;
+  Abbrev: string;
+  ItemOrder: number;
+  IsHidden: string;
+  ProvDentist: number;
+  ProvHygienist: number;
+  IsHygiene: string;
+  ClinicNum: number;
+  SetProspective: string;
+  IsWebSched: string;
+}
+
+export interface ODSchedule {
+  ScheduleNum: number;
+  SchedDate: string;
+  StartTime: string;
+  StopTime: string;
+  SchedType: 'Practice' | 'Provider' | 'Blockout' | 'Employee';
+  ProvNum: number;
+  BlockoutType: number;
+  blockoutType: string;
+  Note: string;
+  operatories: string; // comma-separated OperatoryNums
+  EmployeeNum: number;
+  DateTStamp: string;
+}
+
+export interface ODScheduleOp {
+  ScheduleOpNum: number;
+  ScheduleNum: number;
+  OperatoryNum: number;
+}
+
+export interface ODPreference {
+  PrefName: string;
+  ValueString: string;
+}
+
+export interface SimulatorData {
+  patients: ODPatient[];
+  appointments: ODAppointment[];
+  providers: ODProvider[];
+  operatories: ODOperatory[];
+  schedules: ODSchedule[];
+  scheduleOps: ODScheduleOp[];
+  preferences: ODPreference[];
+}
+
+/**
+ * Injected failure for requests matching method and path (path after /api/v1,
+ * prefix match). `times` limits how many requests it hits; omit for all.
+ */
+export interface SimulatorFault {
+  method?: string;
+  path: string;
+  /** HTTP status to answer with; ignored when dropConnection is set */
+  status?: number;
+  message?: string;
+  delayMs?: number;
+  /** Destroy the socket instead of answering (network failure) */
+  dropConnection?: boolean;
+  times?: number;
+}
+
+export interface SimulatorOptions {
+  port?: number;
+  host?: string;
+  /** Starting data; defaults to the sample practice from bookingSeedData */
+  data?: SimulatorData;
+  /** Keys callers must send as "ODFHIR {developerKey}/{customerKey}" */
+  developerKey?: string;
+  customerKey?: string;
+  /** Added to every API response */
+  latencyMs?: number;
+  /** Share of API requests (0-1) answered with 500 */
+  failureRate?: number;
+  faults?: SimulatorFault[];
+  /** false answers every Break with a breakType as a practice that has not enabled break types */
+  breakTypesEnabled?: boolean;
+  random?: () => number;
+}
+
+/**
+ * Error answered to the caller with OpenDental's status code and message
+ */
+export class SimulatorHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SimulatorHttpError';
+  }
+}
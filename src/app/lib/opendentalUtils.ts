@@ -2,6 +2,8 @@
  * Utility functions for OpenDental API integration
  */
 
+import type { OpenDentalCredentials } from './credentialLoader';
+
 /**
  * Replace path parameters in endpoint URLs
  * Example: /patients/{id} with {id: 123} -> /patients/123
@@ -98,44 +100,108 @@ export function formatErrorResponse(error: any, context?: string): {
 }
 
 /**
- * Check if running in mock mode
+ * Check if an organization's connection runs in mock mode
  */
-export function isMockMode(): boolean {
-  return process.env.OPENDENTAL_MOCK_MODE === 'true';
+export function isMockMode(credentials: OpenDentalCredentials): boolean {
+  return credentials.mockMode;
 }
 
 /**
- * Get OpenDental API base URL
+ * Get OpenDental API base URL for an organization
  */
-export function getOpenDentalBaseUrl(): string {
-  return process.env.OPENDENTAL_API_BASE_URL || 'https://api.opendental.com/api/v1';
+export function getOpenDentalBaseUrl(credentials: OpenDentalCredentials): string {
+  return credentials.apiUrl || 'https://api.opendental.com/api/v1';
 }
 
 /**
- * Get OpenDental API authentication header
+ * Get OpenDental API authentication header for an organization
  */
-export function getOpenDentalAuthHeader(): Record<string, string> {
-  const apiKey = process.env.OPENDENTAL_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('OPENDENTAL_API_KEY environment variable is not set');
-  }
-  
+export function getOpenDentalAuthHeader(credentials: OpenDentalCredentials): Record<string, string> {
+  const { developerKey, customerKey, apiKey } = credentials;
+
   // OpenDental supports two auth formats:
   // 1. ODFHIR format: "ODFHIR {DeveloperKey}/{CustomerKey}"
   // 2. Bearer token: "Bearer <token>"
-  
-  // If the key already includes the auth type (ODFHIR or Bearer), use it as-is
-  const authValue = apiKey.startsWith('ODFHIR ') || apiKey.startsWith('Bearer ') 
-    ? apiKey 
-    : `Bearer ${apiKey}`;
-  
+  let authValue: string;
+  if (developerKey && customerKey) {
+    authValue = `ODFHIR ${developerKey}/${customerKey}`;
+  } else if (apiKey) {
+    // If the key already includes the auth type (ODFHIR or Bearer), use it as-is
+    authValue = apiKey.startsWith('ODFHIR ') || apiKey.startsWith('Bearer ')
+      ? apiKey
+      : `Bearer ${apiKey}`;
+  } else {
+    throw new Error('OpenDental developer and customer keys are not configured for this organization');
+  }
+
   return {
     'Authorization': authValue,
     'Content-Type': 'application/json',
   };
 }
 
+export interface OpenDentalHealth {
+  status: 'connected' | 'mock' | 'not_configured' | 'error';
+  message: string;
+  baseUrl?: string;
+  latencyMs?: number;
+  checkedAt: string;
+}
+
+/**
+ * Check an organization's OpenDental connection
+ * Calls GET /preferences (read-only) unless the connection is in mock mode
+ */
+export async function checkOpenDentalConnection(
+  credentials: OpenDentalCredentials,
+  timeoutMs: number = 10000
+): Promise<OpenDentalHealth> {
+  const checkedAt = new Date().toISOString();
+
+  if (isMockMode(credentials)) {
+    return { status: 'mock', message: 'Mock mode: calls return sample data', checkedAt };
+  }
+
+  let headers: Record<string, string>;
+  try {
+    headers = getOpenDentalAuthHeader(credentials);
+  } catch (error: any) {
+    return { status: 'not_configured', message: error.message, checkedAt };
+  }
+
+  const baseUrl = getOpenDentalBaseUrl(credentials);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/preferences`, {
+      headers,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const latencyMs = Date.now() - started;
+
+    if (!response.ok) {
+      return {
+        status: 'error',
+        message: `OpenDental API returned ${response.status}: ${response.statusText}`,
+        baseUrl,
+        latencyMs,
+        checkedAt,
+      };
+    }
+
+    return { status: 'connected', message: 'Connected to OpenDental API', baseUrl, latencyMs, checkedAt };
+  } catch (error: any) {
+    return {
+      status: 'error',
+      message: error.name === 'TimeoutError'
+        ? `No response from OpenDental API within ${timeoutMs / 1000}s`
+        : `Cannot reach OpenDental API: ${error.cause?.code || error.message}`,
+      baseUrl,
+      checkedAt,
+    };
+  }
+}
+
 /**
  * Retry logic for API calls
  */
@@ -0,0 +1,502 @@
+/**
+ * Patient Duplicate Detection
+ *
+ * Scores how likely two patient records are the same person from fuzzy name
+ * similarity (nicknames, typos, swapped first/last) and normalized phone,
+ * email and birthdate. A shared phone alone is weak evidence: spouses and
+ * parents call from each other's phones.
+ *
+ * CreatePatient checks here first: a high-confidence match is reused instead
+ * of inserting, possible matches go to the review queue on the patients page
+ * (patient_duplicate_candidates) where staff merge or dismiss them.
+ */
+
+import { normalizePhone } from '../messaging/outbound';
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export type MatchConfidence = 'high' | 'possible' | 'low';
+
+export type MatchReason =
+  | 'same_phone'
+  | 'same_email'
+  | 'same_birthdate'
+  | 'birthdate_day_month_swapped'
+  | 'different_birthdate'
+  | 'same_name'
+  | 'similar_name'
+  | 'nickname'
+  | 'swapped_names';
+
+export interface PatientIdentity {
+  firstName?: string | null;
+  lastName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  birthdate?: string | null;
+}
+
+export interface PatientRecord {
+  id: number;
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+  email: string | null;
+  date_of_birth: string | null;
+  created_at?: string;
+}
+
+export interface PatientMatch {
+  score: number;                // 0..1
+  confidence: MatchConfidence;
+  reasons: MatchReason[];
+}
+
+export interface PatientMatchResult extends PatientMatch {
+  patient: PatientRecord;
+}
+
+export type CandidateStatus = 'pending' | 'dismissed';
+
+export interface DuplicateCandidate {
+  id: string;
+  organization_id: string;
+  patient_id: number;
+  duplicate_patient_id: number;
+  score: number;
+  reasons: MatchReason[];
+  source: 'agent' | 'scan';
+  status: CandidateStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+/** Minimum score for the review queue */
+export const POSSIBLE_MATCH_SCORE = 0.6;
+
+const PATIENT_COLUMNS = 'id, first_name, last_name, phone, email, date_of_birth, created_at';
+
+// Common English nicknames → formal name (both sides are mapped before comparing)
+const NICKNAMES: Record<string, string> = {
+  abby: 'abigail', al: 'albert', alex: 'alexander', andy: 'andrew', ben: 'benjamin',
+  beth: 'elizabeth', bill: 'william', billy: 'william', bob: 'robert', bobby: 'robert',
+  cathy: 'catherine', chris: 'christopher', dan: 'daniel', danny: 'daniel', dave: 'david',
+  debbie: 'deborah', dick: 'richard', ed: 'edward', eddie: 'edward', greg: 'gregory',
+  jim: 'james', jimmy: 'james', jen: 'jennifer', jenny: 'jennifer', joe: 'joseph',
+  johnny: 'john', jon: 'john', kate: 'katherine', katie: 'katherine', kathy: 'katherine',
+  larry: 'lawrence', liz: 'elizabeth', maggie: 'margaret', matt: 'matthew', meg: 'margaret',
+  mike: 'michael', nick: 'nicholas', pam: 'pamela', peggy: 'margaret', rick: 'richard',
+  rob: 'robert', sam: 'samuel', steve: 'steven', stephen: 'steven', sue: 'susan',
+  tom: 'thomas', tommy: 'thomas', tony: 'anthony', vicky: 'victoria', will: 'william',
+};
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/** Lowercase letters only, accents removed: "José-Luis" → "joseluis" */
+export function normalizeName(value: string | null | undefined): string {
+  if (!value) return '';
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+}
+
+/** Last 10 digits, so country code and formatting don't matter */
+export function normalizePatientPhone(value: string | null | undefined): string {
+  return normalizePhone(value).slice(-10);
+}
+
+/** Lowercase, without +tags; Gmail addresses also without dots */
+export function normalizeEmail(value: string | null | undefined): string {
+  if (!value) return '';
+  const [local, domain] = value.trim().toLowerCase().split('@');
+  if (!local || !domain) return '';
+  let user = local.split('+')[0];
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    user = user.replace(/\./g, '');
+  }
+  return `${user}@${domain}`;
+}
+
+/** YYYY-MM-DD from "1990-01-15", "1990-01-15T00:00:00Z" or "1990-01-15 00:00:00" */
+export function normalizeBirthdate(value: string | null | undefined): string {
+  if (!value) return '';
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (!match) return '';
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/** Jaro-Winkler similarity, 0..1 */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function firstNameSimilarity(a: string, b: string): { score: number; nickname: boolean } {
+  const direct = nameSimilarity(a, b);
+  const formalA = NICKNAMES[a] || a;
+  const formalB = NICKNAMES[b] || b;
+  if (direct < 1 && formalA === formalB) {
+    return { score: 1, nickname: true };
+  }
+  return { score: direct, nickname: false };
+}
+
+/**
+ * How likely two identities are the same patient.
+ * high:     birthdate matches, phone or email matches, and the names are close
+ * possible: score >= POSSIBLE_MATCH_SCORE, worth a staff review
+ */
+export function scorePatientMatch(a: PatientIdentity, b: PatientIdentity): PatientMatch {
+  const reasons: MatchReason[] = [];
+
+  const firstA = normalizeName(a.firstName);
+  const firstB = normalizeName(b.firstName);
+  const lastA = normalizeName(a.lastName);
+  const lastB = normalizeName(b.lastName);
+
+  const straightFirst = firstNameSimilarity(firstA, firstB);
+  const straight = (straightFirst.score + nameSimilarity(lastA, lastB)) / 2;
+  const swapped = (nameSimilarity(firstA, lastB) + nameSimilarity(lastA, firstB)) / 2;
+  const nameScore = Math.max(straight, swapped);
+
+  if (nameScore === 1 && straight === 1) {
+    reasons.push(straightFirst.nickname ? 'nickname' : 'same_name');
+  } else if (swapped > straight && swapped >= 0.9) {
+    reasons.push('swapped_names');
+  } else if (nameScore >= 0.85) {
+    reasons.push(straightFirst.nickname ? 'nickname' : 'similar_name');
+  }
+
+  let score = nameScore * 0.45;
+
+  const dobA = normalizeBirthdate(a.birthdate);
+  const dobB = normalizeBirthdate(b.birthdate);
+  let sameBirthdate = false;
+  if (dobA && dobB) {
+    if (dobA === dobB) {
+      sameBirthdate = true;
+      reasons.push('same_birthdate');
+      score += 0.3;
+    } else {
+      const [yearA, monthA, dayA] = dobA.split('-');
+      const [yearB, monthB, dayB] = dobB.split('-');
+      if (yearA === yearB && monthA === dayB && dayA === monthB) {
+        reasons.push('birthdate_day_month_swapped');
+        score += 0.15;
+      } else {
+        reasons.push('different_birthdate');
+        score -= 0.3;
+      }
+    }
+  }
+
+  const phoneA = normalizePatientPhone(a.phone);
+  const samePhone = phoneA.length === 10 && phoneA === normalizePatientPhone(b.phone);
+  if (samePhone) {
+    reasons.push('same_phone');
+    score += 0.15;
+  }
+
+  const emailA = normalizeEmail(a.email);
+  const sameEmail = !!emailA && emailA === normalizeEmail(b.email);
+  if (sameEmail) {
+    reasons.push('same_email');
+    score += 0.2;
+  }
+
+  score = Math.round(Math.min(1, Math.max(0, score)) * 1000) / 1000;
+
+  const confidence: MatchConfidence = sameBirthdate && (samePhone || sameEmail) && nameScore >= 0.85
+    ? 'high'
+    : score >= POSSIBLE_MATCH_SCORE ? 'possible' : 'low';
+
+  return { score, confidence, reasons };
+}
+
+export function toIdentity(patient: PatientRecord): PatientIdentity {
+  return {
+    firstName: patient.first_name,
+    lastName: patient.last_name,
+    phone: patient.phone,
+    email: patient.email,
+    birthdate: patient.date_of_birth,
+  };
+}
+
+// ============================================
+// LOOKUPS
+// ============================================
+
+/**
+ * Existing patients that may be `identity`, best first. Candidates share a
+ * phone, email or birthdate, or the first letters of either name.
+ */
+export async function findPatientMatches(
+  organizationId: string,
+  identity: PatientIdentity,
+  excludePatientId?: number
+): Promise<PatientMatchResult[]> {
+  const filters: string[] = [];
+  const phone = normalizePatientPhone(identity.phone);
+  const email = normalizeEmail(identity.email);
+  const birthdate = normalizeBirthdate(identity.birthdate);
+  const lastPrefix = normalizeName(identity.lastName).slice(0, 3);
+  const firstPrefix = normalizeName(identity.firstName).slice(0, 3);
+
+  if (phone) filters.push(`phone.ilike.%${phone}`);
+  if (email) filters.push(`email.ilike.${email.split('@')[0].slice(0, 3)}%`);
+  if (birthdate) filters.push(`date_of_birth.eq.${birthdate}`);
+  if (lastPrefix) filters.push(`last_name.ilike.${lastPrefix}%`, `first_name.ilike.${lastPrefix}%`);
+  if (firstPrefix) filters.push(`first_name.ilike.${firstPrefix}%`, `last_name.ilike.${firstPrefix}%`);
+  if (filters.length === 0) return [];
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('patients')
+    .select(PATIENT_COLUMNS)
+    .eq('organization_id', organizationId)
+    .or(filters.join(','))
+    .limit(500);
+
+  if (error) {
+    throw new Error(`Failed to search for duplicate patients: ${error.message}`);
+  }
+
+  return ((data || []) as PatientRecord[])
+    .filter(patient => patient.id !== excludePatientId)
+    .map(patient => ({ patient, ...scorePatientMatch(identity, toIdentity(patient)) }))
+    .filter(match => match.confidence !== 'low')
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Blocking keys: records are only compared when they share one, which keeps
+ * a full scan well under n² for real patient lists
+ */
+function blockingKeys(patient: PatientRecord): string[] {
+  const keys: string[] = [];
+  const phone = normalizePatientPhone(patient.phone);
+  const email = normalizeEmail(patient.email);
+  const birthdate = normalizeBirthdate(patient.date_of_birth);
+  const last = normalizeName(patient.last_name);
+  const first = normalizeName(patient.first_name);
+  if (phone.length === 10) keys.push(`p:${phone}`);
+  if (email) keys.push(`e:${email}`);
+  if (birthdate) keys.push(`d:${birthdate}`);
+  if (last && first) {
+    keys.push(`n:${last.slice(0, 3)}:${first[0]}`);
+    keys.push(`n:${first.slice(0, 3)}:${last[0]}`); // swapped first/last
+  }
+  return keys;
+}
+
+/**
+ * Pairs of possible duplicates among `patients` (pure; used by the scan)
+ */
+export function findDuplicatePairs(
+  patients: PatientRecord[]
+): Array<{ patientId: number; duplicatePatientId: number } & PatientMatch> {
+  const blocks = new Map<string, PatientRecord[]>();
+  for (const patient of patients) {
+    for (const key of blockingKeys(patient)) {
+      const block = blocks.get(key) || [];
+      block.push(patient);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: Array<{ patientId: number; duplicatePatientId: number } & PatientMatch> = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [older, newer] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const pairKey = `${older.id}:${newer.id}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = scorePatientMatch(toIdentity(older), toIdentity(newer));
+        if (match.confidence !== 'low') {
+          pairs.push({ patientId: older.id, duplicatePatientId: newer.id, ...match });
+        }
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+}
+
+// ============================================
+// REVIEW QUEUE
+// ============================================
+
+/**
+ * Queue a pair for review. The lower id is stored as patient_id; a pair
+ * staff already dismissed stays dismissed.
+ */
+export async function recordDuplicateCandidate(
+  organizationId: string,
+  patientId: number,
+  otherPatientId: number,
+  match: PatientMatch,
+  source: DuplicateCandidate['source']
+): Promise<void> {
+  const [first, second] = patientId < otherPatientId ? [patientId, otherPatientId] : [otherPatientId, patientId];
+  const { error } = await getSupabaseAdmin()
+    .from('patient_duplicate_candidates')
+    .upsert({
+      organization_id: organizationId,
+      patient_id: first,
+      duplicate_patient_id: second,
+      score: match.score,
+      reasons: match.reasons,
+      source,
+    }, { onConflict: 'organization_id,patient_id,duplicate_patient_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to queue duplicate candidate: ${error.message}`);
+  }
+}
+
+/**
+ * Compare every patient in the organization and queue new possible duplicates
+ */
+export async function scanForDuplicates(organizationId: string): Promise<{ patients: number; candidates: number }> {
+  const supabase = getSupabaseAdmin();
+  const patients: PatientRecord[] = [];
+  const pageSize = 1000;
+
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('patients')
+      .select(PATIENT_COLUMNS)
+      .eq('organization_id', organizationId)
+      .order('id', { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to load patients: ${error.message}`);
+    }
+    patients.push(...((data || []) as PatientRecord[]));
+    if (!data || data.length < pageSize) break;
+  }
+
+  const pairs = findDuplicatePairs(patients);
+  for (const pair of pairs) {
+    await recordDuplicateCandidate(organizationId, pair.patientId, pair.duplicatePatientId, pair, 'scan');
+  }
+  return { patients: patients.length, candidates: pairs.length };
+}
+
+export async function listDuplicateCandidates(
+  organizationId: string
+): Promise<Array<DuplicateCandidate & { patient: PatientRecord | null; duplicate: PatientRecord | null }>> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('patient_duplicate_candidates')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('status', 'pending')
+    .order('score', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    throw new Error(`Failed to load duplicate candidates: ${error.message}`);
+  }
+
+  const candidates = (data || []) as DuplicateCandidate[];
+  const ids = [...new Set(candidates.flatMap(c => [c.patient_id, c.duplicate_patient_id]))];
+  const patients = new Map<number, PatientRecord>();
+  if (ids.length > 0) {
+    const { data: rows, error: patientsError } = await supabase
+      .from('patients')
+      .select(PATIENT_COLUMNS)
+      .eq('organization_id', organizationId)
+      .in('id', ids);
+
+    if (patientsError) {
+      throw new Error(`Failed to load patients: ${patientsError.message}`);
+    }
+    for (const row of (rows || []) as PatientRecord[]) {
+      patients.set(row.id, row);
+    }
+  }
+
+  return candidates.map(candidate => ({
+    ...candidate,
+    patient: patients.get(candidate.patient_id) || null,
+    duplicate: patients.get(candidate.duplicate_patient_id) || null,
+  }));
+}
+
+export async function dismissDuplicateCandidate(
+  organizationId: string,
+  candidateId: string,
+  reviewerId: string
+): Promise<void> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('patient_duplicate_candidates')
+    .update({ status: 'dismissed', reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+    .eq('id', candidateId)
+    .eq('organization_id', organizationId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to dismiss duplicate candidate: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Duplicate candidate not found');
+  }
+}
+
+export async function getDuplicateCandidate(
+  organizationId: string,
+  candidateId: string
+): Promise<DuplicateCandidate | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('patient_duplicate_candidates')
+    .select('*')
+    .eq('id', candidateId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+  return (data as DuplicateCandidate) || null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Patient Merge and Undo
+ *
+ * Merging keeps one record (the survivor) and removes the duplicate:
+ * 1. Every row pointing at the duplicate is re-pointed to the survivor
+ *    (appointments, treatment plans, waitlist entries, attachments, and the
+ *    patNum recorded on conversations)
+ * 2. Fields the survivor is missing (email, phone, birthdate...) are copied over
+ * 3. The duplicate is deleted
+ *
+ * The audit row in patient_merges holds the deleted record, the survivor as
+ * it was and the re-pointed row ids, so undoMerge can put everything back.
+ * Both run in one transaction in the merge_patients and undo_patient_merge
+ * database functions (migration 084), so a failure changes nothing.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export type MergedTable =
+  | 'appointments'
+  | 'treatment_plans'
+  | 'waitlist_entries'
+  | 'message_attachments'
+  | 'conversations';
+
+export type MovedRows = Partial<Record<MergedTable, Array<string | number>>>;
+
+export interface MergeActor {
+  id: string;
+  email?: string;
+}
+
+export interface PatientMerge {
+  id: string;
+  organization_id: string;
+  surviving_patient_id: number;
+  merged_patient_id: number;
+  merged_patient: Record<string, unknown>;
+  surviving_patient_before: Record<string, unknown>;
+  moved: MovedRows;
+  score: number | null;
+  merged_by: string | null;
+  merged_by_email: string | null;
+  undone_at: string | null;
+  undone_by: string | null;
+  undone_by_email: string | null;
+  created_at: string;
+}
+
+/**
+ * Merge `duplicateId` into `survivorId`. Returns the audit record.
+ */
+export async function mergePatients(
+  organizationId: string,
+  survivorId: number,
+  duplicateId: number,
+  actor: MergeActor,
+  score?: number
+): Promise<PatientMerge> {
+  if (survivorId === duplicateId) {
+    throw new Error('Cannot merge a patient into itself');
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc('merge_patients', {
+    p_organization_id: organizationId,
+    p_survivor_id: survivorId,
+    p_duplicate_id: duplicateId,
+    p_actor_id: actor.id,
+    p_actor_email: actor.email || null,
+    p_score: score ?? null,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to merge patients: ${error?.message || 'No data returned'}`);
+  }
+
+  console.log(`[Patient Merge] Merged patient ${duplicateId} into ${survivorId} (${actor.email || actor.id})`);
+  return data as PatientMerge;
+}
+
+/**
+ * Restore the merged patient with its original id and move its rows back.
+ * Fields copied onto the survivor are cleared again unless staff have
+ * changed them since.
+ */
+export async function undoMerge(organizationId: string, mergeId: string, actor: MergeActor): Promise<PatientMerge> {
+  const { data, error } = await getSupabaseAdmin().rpc('undo_patient_merge', {
+    p_organization_id: organizationId,
+    p_merge_id: mergeId,
+    p_actor_id: actor.id,
+    p_actor_email: actor.email || null,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to undo patient merge: ${error?.message || 'No data returned'}`);
+  }
+
+  const undone = data as PatientMerge;
+  console.log(`[Patient Merge] Undid merge ${mergeId}: restored patient ${undone.merged_patient_id}`);
+  return undone;
+}
+
+export async function listMerges(organizationId: string, limit = 20): Promise<PatientMerge[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('patient_merges')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load patient merges: ${error.message}`);
+  }
+  return (data || []) as PatientMerge[];
+}
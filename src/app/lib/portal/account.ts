@@ -0,0 +1,333 @@
+/**
+ * Patient Portal Account
+ *
+ * What a signed-in patient can see and do: upcoming appointments, moving or
+ * cancelling them within the organization's cutoff windows, contact details
+ * and approved treatment plans. Changes go through the same booking
+ * functions the agent uses (GetAvailableSlots, UpdateAppointment,
+ * BreakAppointment), so conflict checks and waitlist hand-off still apply.
+ */
+
+import { getSupabaseWithOrg } from '../supabaseClient';
+import { formatLocalDate, instantToLocalMinutes, MINUTES_PER_DAY, parseLocalDateTime } from '../scheduling/intervals';
+import { canChangeAppointment, canRescheduleTo, policyFromOrganization, type PortalPolicy } from './policy';
+import type { PortalSession } from './auth';
+
+export interface PortalAppointment {
+  aptNum: number;
+  dateTime: string;
+  lengthMinutes: number;
+  providerName: string;
+  description: string;
+  canReschedule: boolean;
+  canCancel: boolean;
+  /** Why the appointment can't be changed online, if it can't */
+  lockedReason?: string;
+}
+
+export interface PortalTreatmentPlan {
+  id: string;
+  createdAt: string;
+  totalPrice: number;
+  totalDuration: number;
+  treatments: Array<{ toothFdi: string; treatmentName: string; price: number; status: string }>;
+}
+
+export interface PortalOverview {
+  organization: { name: string; slug: string };
+  patient: { firstName: string; lastName: string; phone: string; email: string };
+  policy: PortalPolicy;
+  appointments: PortalAppointment[];
+  treatmentPlans: PortalTreatmentPlan[];
+}
+
+export interface PortalSlot {
+  dateTime: string;
+  providerId: number;
+  operatoryId: number;
+  providerName: string;
+}
+
+export interface PortalOutcome {
+  success: boolean;
+  /** Shown to the patient */
+  message: string;
+}
+
+const SLOT_SEARCH_DAYS = 7;
+const MAX_SLOTS = 60;
+
+interface PortalContext {
+  db: any;
+  policy: PortalPolicy;
+  organization: { name: string; slug: string };
+  /** Current org-local wall-clock minutes */
+  now: number;
+}
+
+async function loadContext(session: PortalSession): Promise<PortalContext> {
+  const db = await getSupabaseWithOrg(session.organizationId);
+  const { data: org, error } = await db
+    .from('organizations')
+    .select('name, slug, timezone, portal_reschedule_cutoff_hours, portal_cancel_cutoff_hours, portal_reschedule_horizon_days')
+    .eq('id', session.organizationId)
+    .single();
+
+  if (error || !org) {
+    throw new Error(`Failed to load organization: ${error?.message || 'Not found'}`);
+  }
+
+  return {
+    db,
+    policy: policyFromOrganization(org),
+    organization: { name: org.name, slug: org.slug },
+    now: instantToLocalMinutes(new Date(), org.timezone || 'America/New_York'),
+  };
+}
+
+/**
+ * The patient's own scheduled appointment, or null
+ */
+async function loadOwnAppointment(ctx: PortalContext, session: PortalSession, aptNum: number): Promise<any | null> {
+  const { data } = await ctx.db
+    .from('appointments')
+    .select('id, patient_id, appointment_datetime, duration_minutes, treatment_code, status')
+    .eq('id', aptNum)
+    .eq('organization_id', session.organizationId)
+    .eq('patient_id', session.patientId)
+    .maybeSingle();
+
+  return data && data.status === 'Scheduled' ? data : null;
+}
+
+export async function getPortalOverview(session: PortalSession): Promise<PortalOverview> {
+  const ctx = await loadContext(session);
+  const { GetAppointments } = await import('@/app/api/booking/functions/appointments');
+
+  const [{ data: patient, error: patientError }, appointments, { data: plans, error: plansError }] = await Promise.all([
+    ctx.db
+      .from('patients')
+      .select('first_name, last_name, phone, email')
+      .eq('id', session.patientId)
+      .eq('organization_id', session.organizationId)
+      .single(),
+    GetAppointments(
+      { PatNum: session.patientId, DateStart: formatLocalDate(ctx.now), status: 'Scheduled' },
+      ctx.db,
+      session.organizationId
+    ),
+    ctx.db
+      .from('treatment_plans')
+      .select('id, created_at, total_price, total_duration, treatment_plan_items (*)')
+      .eq('organization_id', session.organizationId)
+      .eq('patient_id', String(session.patientId))
+      .eq('status', 'approved')
+      .order('created_at', { ascending: false }),
+  ]);
+
+  if (patientError || !patient) {
+    throw new Error(`Failed to load patient: ${patientError?.message || 'Not found'}`);
+  }
+  if (plansError) {
+    throw new Error(`Failed to load treatment plans: ${plansError.message}`);
+  }
+
+  const upcoming: PortalAppointment[] = [];
+  for (const apt of appointments) {
+    const start = parseLocalDateTime(apt.AptDateTime);
+    if (start === null || start <= ctx.now) continue;
+
+    const reschedule = canChangeAppointment('reschedule', start, ctx.now, ctx.policy);
+    const cancel = canChangeAppointment('cancel', start, ctx.now, ctx.policy);
+    upcoming.push({
+      aptNum: apt.AptNum,
+      dateTime: apt.AptDateTime,
+      lengthMinutes: apt.LengthMinutes,
+      providerName: apt.ProviderName,
+      description: apt.Note,
+      canReschedule: reschedule.allowed,
+      canCancel: cancel.allowed,
+      lockedReason: reschedule.reason || cancel.reason,
+    });
+  }
+
+  return {
+    organization: ctx.organization,
+    patient: {
+      firstName: patient.first_name,
+      lastName: patient.last_name,
+      phone: patient.phone || '',
+      email: patient.email || '',
+    },
+    policy: ctx.policy,
+    appointments: upcoming,
+    treatmentPlans: (plans || []).map((plan: any) => ({
+      id: plan.id,
+      createdAt: plan.created_at,
+      totalPrice: Number(plan.total_price),
+      totalDuration: plan.total_duration,
+      treatments: (plan.treatment_plan_items || []).map((item: any) => ({
+        toothFdi: item.tooth_fdi,
+        treatmentName: item.treatment_name,
+        price: Number(item.price),
+        status: item.status,
+      })),
+    })),
+  };
+}
+
+/**
+ * Update the patient's phone and/or email
+ */
+export async function updatePortalContact(
+  session: PortalSession,
+  updates: { phone?: string; email?: string }
+): Promise<PortalOutcome> {
+  const params: Record<string, any> = { PatNum: session.patientId };
+
+  if (updates.phone !== undefined) {
+    if (updates.phone.replace(/\D/g, '').length !== 10) {
+      return { success: false, message: 'Please enter a 10-digit phone number.' };
+    }
+    params.WirelessPhone = updates.phone;
+  }
+  if (updates.email !== undefined) {
+    const email = updates.email.trim();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return { success: false, message: 'Please enter a valid email address.' };
+    }
+    params.Email = email;
+  }
+
+  const db = await getSupabaseWithOrg(session.organizationId);
+  const { UpdatePatient } = await import('@/app/api/booking/functions/patients');
+  await UpdatePatient(params, db, session.organizationId);
+
+  console.log(`[Portal] Patient ${session.patientId} updated their contact details`);
+  return { success: true, message: 'Your contact details were updated.' };
+}
+
+export async function cancelPortalAppointment(session: PortalSession, aptNum: number): Promise<PortalOutcome> {
+  const ctx = await loadContext(session);
+  const appointment = await loadOwnAppointment(ctx, session, aptNum);
+  if (!appointment) {
+    return { success: false, message: 'This appointment is no longer scheduled.' };
+  }
+
+  const start = parseLocalDateTime(appointment.appointment_datetime);
+  const decision = canChangeAppointment('cancel', start ?? ctx.now, ctx.now, ctx.policy);
+  if (!decision.allowed) {
+    return { success: false, message: decision.reason || 'This appointment can no longer be cancelled online.' };
+  }
+
+  try {
+    const { BreakAppointment } = await import('@/app/api/booking/functions/appointments');
+    await BreakAppointment({ AptNum: appointment.id, sendToUnscheduledList: false }, ctx.db, session.organizationId);
+  } catch (error: any) {
+    console.warn(`[Portal] Cancelling appointment ${appointment.id} failed:`, error.message);
+    return { success: false, message: 'Sorry, we could not cancel this appointment. Please call the office.' };
+  }
+
+  console.log(`[Portal] Patient ${session.patientId} cancelled appointment ${appointment.id}`);
+  return { success: true, message: 'Your appointment was cancelled.' };
+}
+
+async function findSlots(ctx: PortalContext, session: PortalSession, appointment: any, dateStart: string): Promise<PortalSlot[]> {
+  const start = parseLocalDateTime(`${dateStart} 00:00:00`);
+  if (start === null) return [];
+
+  const { GetAvailableSlots } = await import('@/app/api/booking/functions/appointments');
+  const slots = await GetAvailableSlots({
+    dateStart,
+    dateEnd: formatLocalDate(start + (SLOT_SEARCH_DAYS - 1) * MINUTES_PER_DAY),
+    lengthMinutes: appointment.duration_minutes || undefined,
+    TreatmentCode: appointment.treatment_code || undefined,
+  }, ctx.db, session.organizationId);
+
+  return slots
+    .filter((slot: any) => {
+      const slotStart = parseLocalDateTime(slot.DateTimeStart);
+      return slotStart !== null && canRescheduleTo(slotStart, ctx.now, ctx.policy).allowed;
+    })
+    .map((slot: any) => ({
+      dateTime: slot.DateTimeStart,
+      providerId: slot.ProvNum,
+      operatoryId: slot.OpNum,
+      providerName: slot.ProviderName || '',
+    }));
+}
+
+/**
+ * Open times for the week starting `dateStart` (YYYY-MM-DD) the appointment can move to
+ */
+export async function getRescheduleSlots(
+  session: PortalSession,
+  aptNum: number,
+  dateStart: string
+): Promise<{ slots: PortalSlot[]; message?: string }> {
+  const ctx = await loadContext(session);
+  const appointment = await loadOwnAppointment(ctx, session, aptNum);
+  if (!appointment) {
+    return { slots: [], message: 'This appointment is no longer scheduled.' };
+  }
+
+  const decision = canChangeAppointment('reschedule', parseLocalDateTime(appointment.appointment_datetime) ?? ctx.now, ctx.now, ctx.policy);
+  if (!decision.allowed) {
+    return { slots: [], message: decision.reason };
+  }
+
+  const slots = await findSlots(ctx, session, appointment, dateStart);
+  return { slots: slots.slice(0, MAX_SLOTS) };
+}
+
+/**
+ * Move the appointment to one of the slots offered by getRescheduleSlots
+ */
+export async function reschedulePortalAppointment(
+  session: PortalSession,
+  aptNum: number,
+  slot: { dateTime: string; providerId: number; operatoryId: number }
+): Promise<PortalOutcome> {
+  const ctx = await loadContext(session);
+  const appointment = await loadOwnAppointment(ctx, session, aptNum);
+  if (!appointment) {
+    return { success: false, message: 'This appointment is no longer scheduled.' };
+  }
+
+  const decision = canChangeAppointment('reschedule', parseLocalDateTime(appointment.appointment_datetime) ?? ctx.now, ctx.now, ctx.policy);
+  if (!decision.allowed) {
+    return { success: false, message: decision.reason || 'This appointment can no longer be rescheduled online.' };
+  }
+
+  const newStart = parseLocalDateTime(slot.dateTime);
+  if (newStart === null) {
+    return { success: false, message: 'Please pick one of the available times.' };
+  }
+
+  // Only times the slot search would offer right now
+  const open = await findSlots(ctx, session, appointment, formatLocalDate(newStart));
+  const chosen = open.find(candidate =>
+    candidate.dateTime === slot.dateTime &&
+    candidate.providerId === slot.providerId &&
+    candidate.operatoryId === slot.operatoryId
+  );
+  if (!chosen) {
+    return { success: false, message: 'Sorry, that time is no longer available. Please pick another.' };
+  }
+
+  try {
+    const { UpdateAppointment } = await import('@/app/api/booking/functions/appointments');
+    await UpdateAppointment({
+      AptNum: appointment.id,
+      AptDateTime: chosen.dateTime,
+      ProvNum: chosen.providerId,
+      Op: chosen.operatoryId,
+    }, ctx.db, session.organizationId);
+  } catch (error: any) {
+    console.warn(`[Portal] Rescheduling appointment ${appointment.id} failed:`, error.message);
+    return { success: false, message: 'Sorry, that time is no longer available. Please pick another.' };
+  }
+
+  console.log(`[Portal] Patient ${session.patientId} moved appointment ${appointment.id} to ${chosen.dateTime}`);
+  return { success: true, message: 'Your appointment was rescheduled.' };
+}
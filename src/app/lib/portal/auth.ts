@@ -0,0 +1,236 @@
+/**
+ * Patient Portal Sign-In
+ *
+ * A patient asks for a link with the phone or email on their record. Each
+ * matching patient gets a one-time link (SMS to the phone, email to the
+ * email); opening it creates a portal session held in an httpOnly cookie.
+ * Tokens are random and only their SHA-256 hash is stored.
+ *
+ * Requests never reveal whether a patient exists: the caller always gets the
+ * same answer.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getAppUrl } from '../email/resendClient';
+import { normalizePhone, sendPatientEmail, sendSms } from '../messaging/outbound';
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export const PORTAL_SESSION_COOKIE = 'portal_session';
+
+const LINK_TTL_MS = 15 * 60 * 1000;             // 15 minutes
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;     // 12 hours
+const MAX_LINKS_PER_WINDOW = 3;                 // per patient per LINK_TTL_MS
+const MAX_PATIENTS_PER_REQUEST = 5;             // family members sharing a phone
+
+export const PORTAL_SESSION_MAX_AGE_SECONDS = SESSION_TTL_MS / 1000;
+
+export interface PortalOrganization {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface PortalSession {
+  id: string;
+  organizationId: string;
+  patientId: number;
+  expiresAt: string;
+}
+
+export function hashPortalToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isPortalToken(token: string | null | undefined): token is string {
+  return !!token && /^[a-f0-9]{64}$/i.test(token);
+}
+
+export function portalLoginUrl(token: string): string {
+  return `${getAppUrl().replace(/\/$/, '')}/portal/login/${token}`;
+}
+
+/**
+ * Active organization with the portal turned on
+ */
+export async function getPortalOrganization(slug: string): Promise<PortalOrganization | null> {
+  if (!slug) return null;
+
+  const { data } = await getSupabaseAdmin()
+    .from('organizations')
+    .select('id, name, slug, status, portal_enabled')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (!data || data.status !== 'active' || !data.portal_enabled) return null;
+  return { id: data.id, name: data.name, slug: data.slug };
+}
+
+async function recentLinkCount(organizationId: string, patientId: number): Promise<number> {
+  const { count } = await getSupabaseAdmin()
+    .from('patient_portal_links')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('patient_id', patientId)
+    .gte('created_at', new Date(Date.now() - LINK_TTL_MS).toISOString());
+  return count || 0;
+}
+
+/**
+ * Send sign-in links to every patient whose phone or email matches `contact`.
+ * Returns how many links were sent (for logging only, never shown to the caller).
+ */
+export async function requestPortalLink(org: PortalOrganization, contact: string): Promise<number> {
+  const value = (contact || '').trim();
+  const isEmail = value.includes('@');
+  const phone = normalizePhone(value).slice(-10);
+  if (!isEmail && phone.length !== 10) return 0;
+
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('patients')
+    .select('id, first_name, phone, email')
+    .eq('organization_id', org.id)
+    .limit(MAX_PATIENTS_PER_REQUEST);
+  // Case-insensitive exact email match: escape ilike wildcards in user input
+  query = isEmail
+    ? query.ilike('email', value.replace(/[\\%_]/g, char => `\\${char}`))
+    : query.ilike('phone', `%${phone}`);
+
+  const { data: patients, error } = await query;
+  if (error) {
+    throw new Error(`Failed to look up patients: ${error.message}`);
+  }
+
+  let sent = 0;
+  for (const patient of patients || []) {
+    if (await recentLinkCount(org.id, patient.id) >= MAX_LINKS_PER_WINDOW) {
+      console.warn(`[Portal] Link limit reached for patient ${patient.id}`);
+      continue;
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const channel = isEmail ? 'email' : 'sms';
+    const sentTo = isEmail ? patient.email : patient.phone;
+
+    const { error: insertError } = await supabase
+      .from('patient_portal_links')
+      .insert({
+        organization_id: org.id,
+        patient_id: patient.id,
+        token_hash: hashPortalToken(token),
+        channel,
+        sent_to: sentTo,
+        expires_at: new Date(Date.now() + LINK_TTL_MS).toISOString(),
+      });
+    if (insertError) {
+      throw new Error(`Failed to create portal link: ${insertError.message}`);
+    }
+
+    const url = portalLoginUrl(token);
+    try {
+      if (channel === 'email') {
+        await sendPatientEmail(
+          org.id,
+          sentTo,
+          `Your ${org.name} sign-in link`,
+          `<p>Hi ${patient.first_name},</p>` +
+          `<p><a href="${url}">Sign in to ${org.name}</a> to see and manage your appointments.</p>` +
+          `<p>The link works once and expires in 15 minutes. If you didn't ask for it, you can ignore this email.</p>`
+        );
+      } else {
+        await sendSms(
+          org.id,
+          sentTo,
+          `${org.name}: Hi ${patient.first_name}, sign in to manage your appointments: ${url} (expires in 15 minutes)`
+        );
+      }
+      sent++;
+    } catch (sendError) {
+      console.error(`[Portal] Failed to send link to patient ${patient.id}:`, sendError);
+    }
+  }
+
+  console.log(`[Portal] ${sent} sign-in link(s) sent for org ${org.id} (${isEmail ? 'email' : 'sms'})`);
+  return sent;
+}
+
+/**
+ * Use a sign-in link. Returns the new session token and the org slug to
+ * redirect to, or null when the link is unknown, used or expired.
+ */
+export async function redeemPortalLink(
+  token: string
+): Promise<{ sessionToken: string; session: PortalSession; organizationSlug: string } | null> {
+  if (!isPortalToken(token)) return null;
+
+  const supabase = getSupabaseAdmin();
+  const now = new Date().toISOString();
+
+  // Claim the link atomically so it can only be used once
+  const { data: link } = await supabase
+    .from('patient_portal_links')
+    .update({ used_at: now })
+    .eq('token_hash', hashPortalToken(token))
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('id, organization_id, patient_id, organizations(slug)')
+    .maybeSingle();
+
+  if (!link) return null;
+
+  const sessionToken = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+  const { data: session, error } = await supabase
+    .from('patient_portal_sessions')
+    .insert({
+      organization_id: link.organization_id,
+      patient_id: link.patient_id,
+      link_id: link.id,
+      token_hash: hashPortalToken(sessionToken),
+      expires_at: expiresAt,
+    })
+    .select('id')
+    .single();
+
+  if (error || !session) {
+    throw new Error(`Failed to create portal session: ${error?.message || 'No data returned'}`);
+  }
+
+  return {
+    sessionToken,
+    session: { id: session.id, organizationId: link.organization_id, patientId: link.patient_id, expiresAt },
+    organizationSlug: (link.organizations as any)?.slug || '',
+  };
+}
+
+/**
+ * Session for a cookie value, or null when missing, expired or signed out
+ */
+export async function getPortalSession(sessionToken: string | null | undefined): Promise<PortalSession | null> {
+  if (!isPortalToken(sessionToken)) return null;
+
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('patient_portal_sessions')
+    .select('id, organization_id, patient_id, expires_at, revoked_at')
+    .eq('token_hash', hashPortalToken(sessionToken))
+    .maybeSingle();
+
+  if (!data || data.revoked_at || new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  await supabase
+    .from('patient_portal_sessions')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  return { id: data.id, organizationId: data.organization_id, patientId: data.patient_id, expiresAt: data.expires_at };
+}
+
+export async function revokePortalSession(sessionToken: string | null | undefined): Promise<void> {
+  if (!isPortalToken(sessionToken)) return;
+
+  await getSupabaseAdmin()
+    .from('patient_portal_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('token_hash', hashPortalToken(sessionToken));
+}
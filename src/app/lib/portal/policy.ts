@@ -0,0 +1,78 @@
+/**
+ * Patient Portal Policy
+ *
+ * How close to an appointment patients may still change it online. Times are
+ * org-local wall-clock minutes (see scheduling/intervals), like
+ * appointments.appointment_datetime.
+ */
+
+import { MINUTES_PER_DAY } from '../scheduling/intervals';
+
+export type PortalAction = 'reschedule' | 'cancel';
+
+export interface PortalPolicy {
+  rescheduleCutoffHours: number;
+  cancelCutoffHours: number;
+  rescheduleHorizonDays: number;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  /** Shown to the patient when not allowed */
+  reason?: string;
+}
+
+export const DEFAULT_PORTAL_POLICY: PortalPolicy = {
+  rescheduleCutoffHours: 24,
+  cancelCutoffHours: 24,
+  rescheduleHorizonDays: 90,
+};
+
+export function policyFromOrganization(org: Record<string, any> | null | undefined): PortalPolicy {
+  return {
+    rescheduleCutoffHours: org?.portal_reschedule_cutoff_hours ?? DEFAULT_PORTAL_POLICY.rescheduleCutoffHours,
+    cancelCutoffHours: org?.portal_cancel_cutoff_hours ?? DEFAULT_PORTAL_POLICY.cancelCutoffHours,
+    rescheduleHorizonDays: org?.portal_reschedule_horizon_days ?? DEFAULT_PORTAL_POLICY.rescheduleHorizonDays,
+  };
+}
+
+function describeHours(hours: number): string {
+  if (hours % 24 === 0 && hours >= 48) return `${hours / 24} days`;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+/**
+ * Whether the patient may still reschedule / cancel an appointment starting at `appointmentStart`
+ */
+export function canChangeAppointment(
+  action: PortalAction,
+  appointmentStart: number,
+  now: number,
+  policy: PortalPolicy
+): PolicyDecision {
+  if (appointmentStart <= now) {
+    return { allowed: false, reason: 'This appointment has already started.' };
+  }
+
+  const cutoffHours = action === 'cancel' ? policy.cancelCutoffHours : policy.rescheduleCutoffHours;
+  if (appointmentStart - now < cutoffHours * 60) {
+    return {
+      allowed: false,
+      reason: `Appointments can only be ${action === 'cancel' ? 'cancelled' : 'rescheduled'} online up to ${describeHours(cutoffHours)} before. Please call the office.`,
+    };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Whether `newStart` is a time the appointment may be moved to online
+ */
+export function canRescheduleTo(newStart: number, now: number, policy: PortalPolicy): PolicyDecision {
+  if (newStart - now < policy.rescheduleCutoffHours * 60) {
+    return { allowed: false, reason: `Please pick a time at least ${describeHours(policy.rescheduleCutoffHours)} from now.` };
+  }
+  if (newStart - now > policy.rescheduleHorizonDays * MINUTES_PER_DAY) {
+    return { allowed: false, reason: `Please pick a time within the next ${policy.rescheduleHorizonDays} days.` };
+  }
+  return { allowed: true };
+}
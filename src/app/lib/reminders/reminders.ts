@@ -0,0 +1,458 @@
+/**
+ * Appointment Reminders
+ *
+ * Sends configured reminders (reminder_rules, e.g. 48h and 2h before) for
+ * upcoming scheduled appointments over SMS, WhatsApp (with Confirm /
+ * Reschedule / Cancel buttons) or email, using the organization's templates in
+ * the patient's language. Each rule runs at most once per appointment.
+ *
+ * The patient's answer arrives through the incoming-SMS and WhatsApp webhooks
+ * (or the link in the message) and updates the appointment: confirm and
+ * reschedule set confirmation_status, cancel goes through BreakAppointment so
+ * the slot is offered to the waitlist.
+ */
+
+import { randomBytes } from 'crypto';
+import { getAppUrl } from '../email/resendClient';
+import { getSupabaseAdmin, getSupabaseWithOrg } from '../supabaseClient';
+import {
+  phonesMatch,
+  sendPatientEmail,
+  sendSms,
+  sendWhatsAppButtons,
+  sendWhatsAppText,
+  type OutboundMessageResult,
+} from '../messaging/outbound';
+import { formatLocalDateTime, instantToLocalMinutes, parseLocalDateTime } from '../scheduling/intervals';
+import { getOrganizationSlotSettings } from '../scheduling/slotSettings';
+import {
+  BUTTON_LABELS,
+  describeReminderTime,
+  normalizeLanguage,
+  parseReminderButton,
+  parseReminderReply,
+  planReminders,
+  reminderButtonId,
+  renderTemplate,
+  replyInstructions,
+  resolveTemplate,
+  type ReminderAction,
+  type ReminderChannel,
+  type ReminderRule,
+  type TemplateKey,
+} from './templates';
+
+export type ReminderStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+export type ReminderResponse = 'confirmed' | 'reschedule' | 'cancelled';
+
+export interface AppointmentReminderRow {
+  id: number;
+  organization_id: string;
+  appointment_id: number;
+  rule_id: string | null;
+  appointment_datetime: string;
+  channel: ReminderChannel;
+  recipient: string | null;
+  language: string;
+  token: string;
+  status: ReminderStatus;
+  sent_at: string | null;
+  message_id: string | null;
+  error: string | null;
+  response: ReminderResponse | null;
+  responded_at: string | null;
+  created_at: string;
+}
+
+export interface ReminderRunResult {
+  processed: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ReminderOutcome {
+  success: boolean;
+  /** Text sent back / shown to the patient */
+  message: string;
+}
+
+interface OrganizationMessaging {
+  name: string;
+  timezone: string;
+  defaultLanguage: string;
+  templates: any[];
+}
+
+/** Replies are matched to reminders sent within this window */
+const REPLY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RESPONSE_FOR_ACTION: Record<ReminderAction, ReminderResponse> = {
+  confirm: 'confirmed',
+  reschedule: 'reschedule',
+  cancel: 'cancelled',
+};
+
+const TEMPLATE_FOR_ACTION: Record<ReminderAction, TemplateKey> = {
+  confirm: 'reminder_confirmed',
+  reschedule: 'reminder_reschedule',
+  cancel: 'reminder_cancelled',
+};
+
+export function reminderUrl(token: string): string {
+  return `${getAppUrl().replace(/\/$/, '')}/appointments/confirm/${token}`;
+}
+
+function newToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+async function loadOrganizationMessaging(db: any, organizationId: string): Promise<OrganizationMessaging> {
+  const { timezone } = await getOrganizationSlotSettings(db, organizationId);
+  const [{ data: org }, { data: templates }] = await Promise.all([
+    db.from('organizations').select('name, default_language').eq('id', organizationId).maybeSingle(),
+    db.from('message_templates').select('*').eq('organization_id', organizationId),
+  ]);
+
+  return {
+    name: org?.name || 'Your dental office',
+    timezone,
+    defaultLanguage: normalizeLanguage(org?.default_language),
+    templates: templates || [],
+  };
+}
+
+function appointmentVars(org: OrganizationMessaging, appointment: any, language: string): Record<string, string> {
+  const start = parseLocalDateTime(appointment.appointment_datetime);
+  const { date, time } = start !== null
+    ? describeReminderTime(start, language)
+    : { date: String(appointment.appointment_datetime), time: '' };
+  const provider = appointment.providers;
+
+  return {
+    organization_name: org.name,
+    patient_first_name: appointment.patients?.first_name || '',
+    provider_name: provider ? `Dr. ${provider.last_name || provider.first_name}` : '',
+    date,
+    time,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+async function deliverReminder(
+  organizationId: string,
+  org: OrganizationMessaging,
+  reminder: AppointmentReminderRow,
+  rule: ReminderRule,
+  appointment: any
+): Promise<OutboundMessageResult> {
+  const askToConfirm = rule.request_confirmation && appointment.confirmation_status !== 'confirmed';
+  const template = resolveTemplate(org.templates, 'appointment_reminder', rule.channel, reminder.language);
+  const vars = {
+    ...appointmentVars(org, appointment, reminder.language),
+    reply_instructions: askToConfirm ? replyInstructions(rule.channel, reminder.language) : '',
+    link: reminderUrl(reminder.token),
+  };
+  const text = renderTemplate(template.body, vars);
+  const to = reminder.recipient || '';
+
+  switch (rule.channel) {
+    case 'whatsapp': {
+      if (!askToConfirm) return sendWhatsAppText(organizationId, to, text);
+      const labels = BUTTON_LABELS[reminder.language] || BUTTON_LABELS.en;
+      return sendWhatsAppButtons(organizationId, to, text, (['confirm', 'reschedule', 'cancel'] as ReminderAction[]).map(action => ({
+        id: reminderButtonId(reminder.id, action),
+        text: labels[action],
+      })));
+    }
+    case 'email': {
+      const subject = renderTemplate(template.subject || '{{organization_name}}', vars);
+      const html = escapeHtml(text)
+        .replace(escapeHtml(vars.link), `<a href="${escapeHtml(vars.link)}">${escapeHtml(vars.link)}</a>`)
+        .replace(/\n/g, '<br>');
+      return sendPatientEmail(organizationId, to, subject, `<p>${html}</p>`);
+    }
+    default:
+      return sendSms(organizationId, to, text);
+  }
+}
+
+/**
+ * Create the reminder row first (unique per appointment, rule and appointment
+ * time) so two workers can't both send it. Returns null when it already exists.
+ */
+async function insertReminder(
+  db: any,
+  organizationId: string,
+  appointment: any,
+  rule: ReminderRule,
+  language: string,
+  status: ReminderStatus,
+  error?: string
+): Promise<AppointmentReminderRow | null> {
+  const patient = appointment.patients || {};
+  const recipient = rule.channel === 'email' ? patient.email : patient.phone;
+
+  const { data } = await db
+    .from('appointment_reminders')
+    .upsert({
+      organization_id: organizationId,
+      appointment_id: appointment.id,
+      rule_id: rule.id,
+      appointment_datetime: appointment.appointment_datetime,
+      channel: rule.channel,
+      recipient: recipient || null,
+      language,
+      token: newToken(),
+      status,
+      error: error || null,
+    }, { onConflict: 'appointment_id,rule_id,appointment_datetime', ignoreDuplicates: true })
+    .select()
+    .maybeSingle();
+
+  return data || null;
+}
+
+/**
+ * Send the reminders that are due for one organization
+ */
+export async function processDueReminders(organizationId: string): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { processed: 0, sent: 0, failed: 0, skipped: 0 };
+  const db = await getSupabaseWithOrg(organizationId);
+
+  const { data: rules, error: rulesError } = await db
+    .from('reminder_rules')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true);
+
+  if (rulesError) {
+    throw new Error(`Failed to load reminder rules: ${rulesError.message}`);
+  }
+  if (!rules || rules.length === 0) return result;
+
+  const org = await loadOrganizationMessaging(db, organizationId);
+  const now = instantToLocalMinutes(new Date(), org.timezone);
+  const horizon = Math.max(...rules.map((rule: ReminderRule) => rule.offset_minutes));
+
+  const { data: appointments, error } = await db
+    .from('appointments')
+    .select('*, patients(first_name, last_name, phone, email, preferred_language), providers(first_name, last_name)')
+    .eq('organization_id', organizationId)
+    .eq('status', 'Scheduled')
+    .gt('appointment_datetime', formatLocalDateTime(now))
+    .lte('appointment_datetime', formatLocalDateTime(now + horizon))
+    .order('appointment_datetime', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load upcoming appointments: ${error.message}`);
+  }
+  if (!appointments || appointments.length === 0) return result;
+
+  const { data: existing } = await db
+    .from('appointment_reminders')
+    .select('appointment_id, rule_id, appointment_datetime')
+    .eq('organization_id', organizationId)
+    .in('appointment_id', appointments.map((apt: any) => apt.id));
+
+  // Only reminders for the current time count; a rescheduled appointment starts over
+  const currentTimes = new Map<number, number | null>(
+    appointments.map((apt: any) => [apt.id, parseLocalDateTime(apt.appointment_datetime)])
+  );
+  const handled = new Map<number, Set<string>>();
+  for (const row of existing || []) {
+    if (parseLocalDateTime(row.appointment_datetime) !== currentTimes.get(row.appointment_id)) continue;
+    if (!handled.has(row.appointment_id)) handled.set(row.appointment_id, new Set());
+    if (row.rule_id) handled.get(row.appointment_id)!.add(row.rule_id);
+  }
+
+  for (const appointment of appointments) {
+    const start = parseLocalDateTime(appointment.appointment_datetime);
+    if (start === null) continue;
+
+    const plan = planReminders(rules, start - now, handled.get(appointment.id) || new Set());
+    const language = normalizeLanguage(appointment.patients?.preferred_language || org.defaultLanguage);
+
+    for (const rule of plan.skip) {
+      if (await insertReminder(db, organizationId, appointment, rule, language, 'skipped', 'A later reminder was due')) {
+        result.skipped++;
+      }
+    }
+
+    for (const rule of plan.send) {
+      const reminder = await insertReminder(db, organizationId, appointment, rule, language, 'pending');
+      if (!reminder) continue;
+      result.processed++;
+
+      if (!reminder.recipient) {
+        await db.from('appointment_reminders')
+          .update({ status: 'skipped', error: `Patient has no ${rule.channel === 'email' ? 'email address' : 'phone number'}` })
+          .eq('id', reminder.id);
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const sent = await deliverReminder(organizationId, org, reminder, rule, appointment);
+        await db.from('appointment_reminders')
+          .update({ status: 'sent', sent_at: new Date().toISOString(), message_id: sent.messageId || null })
+          .eq('id', reminder.id);
+        result.sent++;
+      } catch (sendError: any) {
+        console.warn(`[Reminders] Could not send ${rule.channel} reminder for appointment ${appointment.id}:`, sendError.message);
+        await db.from('appointment_reminders')
+          .update({ status: 'failed', error: sendError.message })
+          .eq('id', reminder.id);
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Worker entry point: every organization with an active reminder rule.
+ * One organization failing doesn't stop the others.
+ */
+export async function processAllDueReminders(): Promise<ReminderRunResult> {
+  const total: ReminderRunResult = { processed: 0, sent: 0, failed: 0, skipped: 0 };
+
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('reminder_rules')
+    .select('organization_id')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new Error(`Failed to load reminder rules: ${error.message}`);
+  }
+
+  const organizationIds = Array.from(new Set<string>((rows || []).map((row: any) => row.organization_id)));
+  for (const organizationId of organizationIds) {
+    try {
+      const result = await processDueReminders(organizationId);
+      total.processed += result.processed;
+      total.sent += result.sent;
+      total.failed += result.failed;
+      total.skipped += result.skipped;
+    } catch (orgError: any) {
+      console.error(`[Reminders] Run failed for organization ${organizationId}:`, orgError.message);
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Apply the patient's answer to the reminded appointment
+ */
+export async function applyReminderResponse(
+  db: any,
+  reminder: AppointmentReminderRow,
+  action: ReminderAction
+): Promise<ReminderOutcome> {
+  const { data: appointment } = await db
+    .from('appointments')
+    .select('*, patients(first_name), providers(first_name, last_name)')
+    .eq('id', reminder.appointment_id)
+    .eq('organization_id', reminder.organization_id)
+    .maybeSingle();
+
+  if (!appointment || appointment.status !== 'Scheduled') {
+    return { success: false, message: 'This appointment is no longer scheduled. Reply any time if you would like to book again.' };
+  }
+
+  const org = await loadOrganizationMessaging(db, reminder.organization_id);
+
+  if (action === 'cancel') {
+    try {
+      const { BreakAppointment } = await import('@/app/api/booking/functions/appointments');
+      await BreakAppointment({ AptNum: appointment.id, sendToUnscheduledList: false }, db, reminder.organization_id);
+    } catch (error: any) {
+      console.warn(`[Reminders] Cancelling appointment ${appointment.id} failed:`, error.message);
+      return { success: false, message: 'Sorry, we could not cancel this appointment. Please call the office.' };
+    }
+  } else {
+    const { error } = await db
+      .from('appointments')
+      .update(action === 'confirm'
+        ? { confirmation_status: 'confirmed', confirmed_at: new Date().toISOString() }
+        : { confirmation_status: 'reschedule_requested' })
+      .eq('id', appointment.id)
+      .eq('organization_id', reminder.organization_id);
+
+    if (error) {
+      throw new Error(`Failed to update appointment ${appointment.id}: ${error.message}`);
+    }
+  }
+
+  await db.from('appointment_reminders')
+    .update({ response: RESPONSE_FOR_ACTION[action], responded_at: new Date().toISOString() })
+    .eq('id', reminder.id);
+
+  console.log(`[Reminders] Appointment ${appointment.id}: patient chose ${action} via ${reminder.channel}`);
+
+  const template = resolveTemplate(org.templates, TEMPLATE_FOR_ACTION[action], reminder.channel, reminder.language);
+  return {
+    success: true,
+    message: renderTemplate(template.body, appointmentVars(org, appointment, reminder.language)),
+  };
+}
+
+/**
+ * Look up a reminder by the token in its link (public page, no org context yet)
+ */
+export async function getReminderByToken(token: string): Promise<AppointmentReminderRow | null> {
+  if (!token || !/^[a-f0-9]{16,64}$/i.test(token)) return null;
+
+  const { data } = await getSupabaseAdmin()
+    .from('appointment_reminders')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+  return data || null;
+}
+
+/**
+ * Handle an inbound answer to a reminder: a WhatsApp button tap (buttonId) or
+ * a keyword such as "C" / "confirm" / "X". Returns the text to send back, or
+ * null when the message isn't a reminder answer and should go to the agent.
+ */
+export async function handleReminderReply(
+  organizationId: string,
+  from: string,
+  text: string,
+  buttonId?: string | null
+): Promise<string | null> {
+  const button = parseReminderButton(buttonId);
+  const action = button?.action || parseReminderReply(text);
+  if (!action) return null;
+
+  const db = await getSupabaseWithOrg(organizationId);
+
+  let query = db
+    .from('appointment_reminders')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('status', 'sent')
+    .in('channel', ['sms', 'whatsapp']);
+
+  query = button
+    ? query.eq('id', button.reminderId)
+    : query.gte('sent_at', new Date(Date.now() - REPLY_WINDOW_MS).toISOString());
+
+  const { data: reminders, error } = await query.order('sent_at', { ascending: false });
+  if (error || !reminders) return null;
+
+  // Most recent reminder sent to this number that the patient can still answer
+  const reminder = reminders.find((row: AppointmentReminderRow) =>
+    phonesMatch(row.recipient, from) && (button || row.response === null)
+  );
+  if (!reminder) return null;
+
+  const outcome = await applyReminderResponse(db, reminder, action);
+  return outcome.message;
+}
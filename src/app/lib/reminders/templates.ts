@@ -0,0 +1,187 @@
+/**
+ * Reminder Templates and Reply Parsing
+ *
+ * Pure helpers for appointment reminders: built-in message texts per language
+ * (organizations override them in message_templates), rendering, picking which
+ * reminder rule is due, and reading the patient's answer from an SMS keyword
+ * or a WhatsApp button id.
+ */
+
+export type ReminderChannel = 'sms' | 'whatsapp' | 'email';
+export type ReminderAction = 'confirm' | 'reschedule' | 'cancel';
+
+export const REMINDER_CHANNELS: ReminderChannel[] = ['sms', 'whatsapp', 'email'];
+export const SUPPORTED_LANGUAGES = ['en', 'es'] as const;
+export const DEFAULT_LANGUAGE = 'en';
+
+export const TEMPLATE_KEYS = [
+  'appointment_reminder',
+  'reminder_confirmed',
+  'reminder_reschedule',
+  'reminder_cancelled',
+] as const;
+export type TemplateKey = typeof TEMPLATE_KEYS[number];
+
+export interface MessageTemplate {
+  subject?: string | null;
+  body: string;
+}
+
+export interface ReminderRule {
+  id: string;
+  offset_minutes: number;
+  channel: ReminderChannel;
+  request_confirmation: boolean;
+  is_active: boolean;
+}
+
+/**
+ * Placeholders: {{patient_first_name}}, {{organization_name}}, {{date}}, {{time}},
+ * {{provider_name}}, {{reply_instructions}}, {{link}}
+ */
+export const DEFAULT_TEMPLATES: Record<string, Record<TemplateKey, MessageTemplate>> = {
+  en: {
+    appointment_reminder: {
+      subject: 'Reminder: your appointment on {{date}}',
+      body: '{{organization_name}}: Hi {{patient_first_name}}, this is a reminder of your appointment on {{date}} at {{time}}. {{reply_instructions}}',
+    },
+    reminder_confirmed: { body: 'Thanks {{patient_first_name}}, your appointment on {{date}} at {{time}} is confirmed. See you then!' },
+    reminder_reschedule: { body: "No problem, let's find a better time. Which day and time would work for you?" },
+    reminder_cancelled: { body: 'Your appointment on {{date}} at {{time}} has been cancelled. Reply any time if you would like to book again.' },
+  },
+  es: {
+    appointment_reminder: {
+      subject: 'Recordatorio: su cita del {{date}}',
+      body: '{{organization_name}}: Hola {{patient_first_name}}, le recordamos su cita el {{date}} a las {{time}}. {{reply_instructions}}',
+    },
+    reminder_confirmed: { body: 'Gracias {{patient_first_name}}, su cita del {{date}} a las {{time}} está confirmada. ¡Le esperamos!' },
+    reminder_reschedule: { body: 'Sin problema, busquemos otro horario. ¿Qué día y hora le vienen bien?' },
+    reminder_cancelled: { body: 'Su cita del {{date}} a las {{time}} ha sido cancelada. Escríbanos cuando quiera reservar de nuevo.' },
+  },
+};
+
+const REPLY_INSTRUCTIONS: Record<string, Record<ReminderChannel, string>> = {
+  en: {
+    sms: 'Reply C to confirm, R to reschedule or X to cancel.',
+    whatsapp: 'Please confirm below.',
+    email: 'Confirm, reschedule or cancel here: {{link}}',
+  },
+  es: {
+    sms: 'Responda C para confirmar, R para cambiar la cita o X para cancelar.',
+    whatsapp: 'Por favor confirme abajo.',
+    email: 'Confirme, cambie o cancele aquí: {{link}}',
+  },
+};
+
+export const BUTTON_LABELS: Record<string, Record<ReminderAction, string>> = {
+  en: { confirm: 'Confirm', reschedule: 'Reschedule', cancel: 'Cancel' },
+  es: { confirm: 'Confirmar', reschedule: 'Cambiar', cancel: 'Cancelar' },
+};
+
+const ACTION_WORDS: Record<ReminderAction, string[]> = {
+  confirm: ['C', 'CONFIRM', 'CONFIRMED', 'YES', 'Y', 'OK', 'CONFIRMAR', 'CONFIRMO', 'SI', 'SÍ'],
+  reschedule: ['R', 'RESCHEDULE', 'CHANGE', 'REPROGRAMAR', 'CAMBIAR'],
+  cancel: ['X', 'CANCEL', 'CANCELAR'],
+};
+
+const BUTTON_PREFIX = 'reminder';
+
+export function normalizeLanguage(language: string | null | undefined): string {
+  const base = String(language || '').toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base) ? base : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Org override for (key, channel, language), then a channel-less override,
+ * then the built-in text for the language, then English
+ */
+export function resolveTemplate(
+  overrides: Array<{ template_key: string; channel: string | null; language: string; subject?: string | null; body: string }>,
+  key: TemplateKey,
+  channel: ReminderChannel,
+  language: string
+): MessageTemplate {
+  const lang = normalizeLanguage(language);
+  const match = overrides.find(t => t.template_key === key && t.channel === channel && t.language === lang)
+    || overrides.find(t => t.template_key === key && !t.channel && t.language === lang);
+  if (match) return { subject: match.subject, body: match.body };
+  return (DEFAULT_TEMPLATES[lang] || DEFAULT_TEMPLATES[DEFAULT_LANGUAGE])[key];
+}
+
+export function replyInstructions(channel: ReminderChannel, language: string): string {
+  return (REPLY_INSTRUCTIONS[normalizeLanguage(language)] || REPLY_INSTRUCTIONS[DEFAULT_LANGUAGE])[channel];
+}
+
+/**
+ * Fill {{placeholders}}; unknown ones render empty. Values may themselves
+ * contain placeholders (reply_instructions carries {{link}}), so two passes.
+ */
+export function renderTemplate(text: string, vars: Record<string, string | number | null | undefined>): string {
+  const fill = (input: string) => input.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = vars[name];
+    return value === null || value === undefined ? '' : String(value);
+  });
+  return fill(fill(text)).replace(/[ \t]+/g, ' ').trim();
+}
+
+/**
+ * "Tue, Oct 21" and "2:30 PM" for a wall-clock minute value, in the patient's language
+ */
+export function describeReminderTime(minutes: number, language: string): { date: string; time: string } {
+  const date = new Date(minutes * 60000);
+  const locale = normalizeLanguage(language) === 'es' ? 'es-ES' : 'en-US';
+  return {
+    date: date.toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    time: date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' }),
+  };
+}
+
+/**
+ * Which rules to send now for one appointment. A rule is due once its offset
+ * has been reached and it hasn't run yet. Only the due rules closest to the
+ * appointment are sent (one per channel); earlier ones are skipped, so a
+ * booking made two hours ahead doesn't also get the 48-hour reminder.
+ */
+export function planReminders(
+  rules: ReminderRule[],
+  minutesUntilAppointment: number,
+  handledRuleIds: Set<string>
+): { send: ReminderRule[]; skip: ReminderRule[] } {
+  if (minutesUntilAppointment <= 0) return { send: [], skip: [] };
+
+  const due = rules
+    .filter(rule => rule.is_active && !handledRuleIds.has(rule.id) && minutesUntilAppointment <= rule.offset_minutes)
+    .sort((a, b) => a.offset_minutes - b.offset_minutes);
+
+  if (due.length === 0) return { send: [], skip: [] };
+
+  const closest = due[0].offset_minutes;
+  return {
+    send: due.filter(rule => rule.offset_minutes === closest),
+    skip: due.filter(rule => rule.offset_minutes !== closest),
+  };
+}
+
+export function reminderButtonId(reminderId: number, action: ReminderAction): string {
+  return `${BUTTON_PREFIX}:${reminderId}:${action}`;
+}
+
+export function parseReminderButton(buttonId: string | null | undefined): { reminderId: number; action: ReminderAction } | null {
+  const match = new RegExp(`^${BUTTON_PREFIX}:(\\d+):(confirm|reschedule|cancel)$`).exec(String(buttonId || ''));
+  if (!match) return null;
+  return { reminderId: Number(match[1]), action: match[2] as ReminderAction };
+}
+
+/**
+ * Recognize "C", "confirm", "cancelar" etc. (also a tapped button's label).
+ * Anything else returns null so the message goes to the normal conversation flow.
+ */
+export function parseReminderReply(text: string | null | undefined): ReminderAction | null {
+  const word = String(text || '').trim().replace(/[\s.!,]+$/, '').toUpperCase();
+  if (!word || /\s/.test(word)) return null;
+
+  for (const action of Object.keys(ACTION_WORDS) as ReminderAction[]) {
+    if (ACTION_WORDS[action].includes(word)) return action;
+  }
+  return null;
+}
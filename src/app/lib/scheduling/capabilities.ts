@@ -0,0 +1,68 @@
+/**
+ * Treatment Capability Matching
+ *
+ * Treatments in treatments_catalog may require a provider specialty
+ * (providers.specialty_tags, ANY match) and operatory capabilities
+ * (operatories.tags, ALL must match). Tags compare case-insensitively.
+ */
+
+export interface TreatmentRequirements {
+  /** Provider needs at least one of these specialty tags */
+  specialties: string[];
+  /** Operatory needs every one of these tags */
+  operatoryTags: string[];
+}
+
+export const NO_REQUIREMENTS: TreatmentRequirements = { specialties: [], operatoryTags: [] };
+
+function normalizeTags(tags: unknown): string[] {
+  if (!tags) return [];
+  const list = Array.isArray(tags) ? tags : String(tags).split(',');
+  return list.map(tag => String(tag).trim().toLowerCase()).filter(Boolean);
+}
+
+export function hasRequirements(requirements?: TreatmentRequirements | null): boolean {
+  return !!requirements && (requirements.specialties.length > 0 || requirements.operatoryTags.length > 0);
+}
+
+export function providerQualifies(specialtyTags: unknown, requirements?: TreatmentRequirements | null): boolean {
+  if (!requirements || requirements.specialties.length === 0) return true;
+  // Untagged providers are general dentists, as GetProviders shows them
+  const tags = normalizeTags(specialtyTags);
+  if (tags.length === 0) tags.push('general');
+  return normalizeTags(requirements.specialties).some(required => tags.includes(required));
+}
+
+export function operatoryQualifies(operatoryTags: unknown, requirements?: TreatmentRequirements | null): boolean {
+  if (!requirements || requirements.operatoryTags.length === 0) return true;
+  const tags = normalizeTags(operatoryTags);
+  return normalizeTags(requirements.operatoryTags).every(required => tags.includes(required));
+}
+
+/**
+ * Keep schedules whose provider and operatory satisfy the treatment requirements.
+ * Expects schedules selected with providers(specialty_tags) and operatories(tags).
+ */
+export function filterQualifiedSchedules<T extends {
+  providers?: { specialty_tags?: unknown } | null;
+  operatories?: { tags?: unknown } | null;
+}>(schedules: T[], requirements: TreatmentRequirements): T[] {
+  return schedules.filter(s =>
+    providerQualifies(s.providers?.specialty_tags, requirements) &&
+    operatoryQualifies(s.operatories?.tags, requirements)
+  );
+}
+
+/**
+ * Human-readable summary, e.g. "a provider with Endodontics or General and a room tagged Surgical"
+ */
+export function describeRequirements(requirements: TreatmentRequirements): string {
+  const parts: string[] = [];
+  if (requirements.specialties.length > 0) {
+    parts.push(`a provider with specialty ${requirements.specialties.join(' or ')}`);
+  }
+  if (requirements.operatoryTags.length > 0) {
+    parts.push(`a room tagged ${requirements.operatoryTags.join(' and ')}`);
+  }
+  return parts.join(' and ');
+}
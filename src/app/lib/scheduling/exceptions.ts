@@ -0,0 +1,284 @@
+/**
+ * Schedule Exceptions
+ *
+ * Expands rows from `schedule_exceptions` (holidays, vacations, lunch breaks,
+ * blocked time, operatory maintenance) into concrete blocked intervals for a
+ * date range, and answers "is this provider/operatory blocked at this time?".
+ *
+ * Intervals use the same wall-clock minute scale as ./intervals.
+ */
+
+import {
+  parseLocalDateAndTime,
+  formatLocalDate,
+  intervalsOverlap,
+  type TimeInterval,
+} from './intervals';
+
+export const EXCEPTION_SCOPES = ['organization', 'provider', 'operatory'] as const;
+export type ExceptionScope = typeof EXCEPTION_SCOPES[number];
+
+export const EXCEPTION_TYPES = ['holiday', 'vacation', 'lunch', 'blocked', 'maintenance'] as const;
+export type ExceptionType = typeof EXCEPTION_TYPES[number];
+
+export const EXCEPTION_RECURRENCES = ['none', 'daily', 'weekly', 'monthly', 'yearly'] as const;
+export type ExceptionRecurrence = typeof EXCEPTION_RECURRENCES[number];
+
+/** Row shape of the schedule_exceptions table */
+export interface ScheduleExceptionRow {
+  id: number;
+  organization_id?: string;
+  scope: ExceptionScope;
+  provider_id: number | null;
+  operatory_id: number | null;
+  exception_type: ExceptionType;
+  title: string;
+  start_date: string;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  recurrence: ExceptionRecurrence;
+  recurrence_interval: number | null;
+  recurrence_days: number[] | null;
+  recurrence_until: string | null;
+  is_active?: boolean;
+}
+
+/** One concrete occurrence of an exception on a specific date */
+export interface ExceptionBlock {
+  exceptionId: number;
+  date: string;
+  interval: TimeInterval;
+  allDay: boolean;
+  scope: ExceptionScope;
+  providerId: number | null;
+  operatoryId: number | null;
+  type: ExceptionType;
+  title: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Wall-clock day number (days since 1970-01-01) for a YYYY-MM-DD string */
+function toDayNumber(date: string): number | null {
+  const minutes = parseLocalDateAndTime(String(date).slice(0, 10), '00:00');
+  return minutes === null ? null : Math.floor(minutes / MINUTES_PER_DAY);
+}
+
+function dayToDate(day: number): Date {
+  return new Date(day * MINUTES_PER_DAY * 60000);
+}
+
+/**
+ * Does a recurrence rule produce an occurrence that STARTS on `anchorDay`?
+ */
+function occurrenceStartsOn(row: ScheduleExceptionRow, startDay: number, anchorDay: number): boolean {
+  if (anchorDay < startDay) return false;
+
+  const interval = Math.max(1, row.recurrence_interval || 1);
+  const start = dayToDate(startDay);
+  const anchor = dayToDate(anchorDay);
+
+  switch (row.recurrence) {
+    case 'daily':
+      return (anchorDay - startDay) % interval === 0;
+
+    case 'weekly': {
+      const days = row.recurrence_days && row.recurrence_days.length > 0
+        ? row.recurrence_days
+        : [start.getUTCDay()];
+      if (!days.includes(anchor.getUTCDay())) return false;
+      // Compare Sunday-based week numbers so "every 2 weeks" lines up with the start week
+      const startWeek = Math.floor((startDay - start.getUTCDay()) / 7);
+      const anchorWeek = Math.floor((anchorDay - anchor.getUTCDay()) / 7);
+      return (anchorWeek - startWeek) % interval === 0;
+    }
+
+    case 'monthly': {
+      if (anchor.getUTCDate() !== start.getUTCDate()) return false;
+      const months = (anchor.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        (anchor.getUTCMonth() - start.getUTCMonth());
+      return months % interval === 0;
+    }
+
+    case 'yearly': {
+      if (anchor.getUTCMonth() !== start.getUTCMonth() || anchor.getUTCDate() !== start.getUTCDate()) {
+        return false;
+      }
+      return (anchor.getUTCFullYear() - start.getUTCFullYear()) % interval === 0;
+    }
+
+    default:
+      return anchorDay === startDay;
+  }
+}
+
+/**
+ * Is the exception in effect on the given day?
+ * Non-recurring exceptions cover start_date..end_date. Recurring exceptions
+ * repeat a span of (end_date - start_date + 1) days, stopping at recurrence_until.
+ */
+function coversDay(row: ScheduleExceptionRow, day: number): boolean {
+  const startDay = toDayNumber(row.start_date);
+  if (startDay === null || day < startDay) return false;
+
+  const endDay = row.end_date ? toDayNumber(row.end_date) : startDay;
+  const spanDays = Math.max(1, (endDay ?? startDay) - startDay + 1);
+
+  if (!row.recurrence || row.recurrence === 'none') {
+    return day < startDay + spanDays;
+  }
+
+  const untilDay = row.recurrence_until ? toDayNumber(row.recurrence_until) : null;
+
+  for (let offset = 0; offset < spanDays; offset++) {
+    const anchorDay = day - offset;
+    if (untilDay !== null && anchorDay > untilDay) continue;
+    if (occurrenceStartsOn(row, startDay, anchorDay)) return true;
+  }
+  return false;
+}
+
+/**
+ * Expand exception rows into concrete blocks between dateStart and dateEnd (inclusive)
+ */
+export function expandScheduleExceptions(
+  rows: ScheduleExceptionRow[],
+  dateStart: string,
+  dateEnd: string
+): ExceptionBlock[] {
+  const firstDay = toDayNumber(dateStart);
+  const lastDay = toDayNumber(dateEnd);
+  if (firstDay === null || lastDay === null || lastDay < firstDay) return [];
+
+  const blocks: ExceptionBlock[] = [];
+
+  for (const row of rows) {
+    if (row.is_active === false) continue;
+
+    const allDay = !row.start_time || !row.end_time;
+
+    for (let day = firstDay; day <= lastDay; day++) {
+      if (!coversDay(row, day)) continue;
+
+      const date = formatLocalDate(day * MINUTES_PER_DAY);
+      const dayStart = day * MINUTES_PER_DAY;
+      const interval: TimeInterval = allDay
+        ? { start: dayStart, end: dayStart + MINUTES_PER_DAY }
+        : {
+            start: parseLocalDateAndTime(date, row.start_time as string) ?? dayStart,
+            end: parseLocalDateAndTime(date, row.end_time as string) ?? dayStart + MINUTES_PER_DAY,
+          };
+
+      blocks.push({
+        exceptionId: row.id,
+        date,
+        interval,
+        allDay,
+        scope: row.scope,
+        providerId: row.provider_id,
+        operatoryId: row.operatory_id,
+        type: row.exception_type,
+        title: row.title,
+      });
+    }
+  }
+
+  return blocks.sort((a, b) => a.interval.start - b.interval.start);
+}
+
+/**
+ * Does this block apply to a provider working in an operatory?
+ * Org-wide blocks apply to everyone; provider/operatory blocks match by id.
+ */
+export function exceptionAppliesTo(
+  block: ExceptionBlock,
+  providerId?: number | string | null,
+  operatoryId?: number | string | null
+): boolean {
+  switch (block.scope) {
+    case 'organization':
+      return true;
+    case 'provider':
+      return providerId !== undefined && providerId !== null && Number(block.providerId) === Number(providerId);
+    case 'operatory':
+      return operatoryId !== undefined && operatoryId !== null && Number(block.operatoryId) === Number(operatoryId);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Blocked intervals for one provider/operatory pair
+ */
+export function blockedIntervalsFor(
+  blocks: ExceptionBlock[],
+  providerId?: number | string | null,
+  operatoryId?: number | string | null
+): TimeInterval[] {
+  return blocks
+    .filter(block => exceptionAppliesTo(block, providerId, operatoryId))
+    .map(block => block.interval);
+}
+
+/**
+ * First exception that blocks the candidate interval for this provider/operatory, if any
+ */
+export function findBlockingException(
+  blocks: ExceptionBlock[],
+  providerId: number | string | null | undefined,
+  operatoryId: number | string | null | undefined,
+  candidate: TimeInterval
+): ExceptionBlock | null {
+  for (const block of blocks) {
+    if (exceptionAppliesTo(block, providerId, operatoryId) && intervalsOverlap(candidate, block.interval)) {
+      return block;
+    }
+  }
+  return null;
+}
+
+/**
+ * True when the date is covered by an all-day block for this provider/operatory
+ */
+export function isWholeDayBlocked(
+  blocks: ExceptionBlock[],
+  providerId: number | string | null | undefined,
+  operatoryId: number | string | null | undefined,
+  date: string
+): boolean {
+  return blocks.some(block =>
+    block.allDay && block.date === date && exceptionAppliesTo(block, providerId, operatoryId)
+  );
+}
+
+/**
+ * Load active exceptions for an organization and expand them for a date range.
+ * Throws when they can't be loaded: callers must not treat blocked time as
+ * bookable because the lookup failed.
+ */
+export async function loadScheduleExceptionBlocks(
+  db: any,
+  organizationId: string | undefined,
+  dateStart: string,
+  dateEnd: string
+): Promise<ExceptionBlock[]> {
+  let query = db
+    .from('schedule_exceptions')
+    .select('*')
+    .eq('is_active', true)
+    .lte('start_date', dateEnd);
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load schedule exceptions: ${error.message}`);
+  }
+
+  return expandScheduleExceptions(data || [], dateStart, dateEnd);
+}
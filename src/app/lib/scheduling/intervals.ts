@@ -0,0 +1,174 @@
+/**
+ * Scheduling Interval Helpers
+ *
+ * All booking math is done on "wall-clock minutes": the number of minutes since
+ * 1970-01-01 00:00 of the organization's LOCAL calendar, with no timezone applied.
+ * Appointments and schedules are stored as local `YYYY-MM-DD HH:mm:ss` strings,
+ * so this keeps slot search, conflict checks and Google free/busy on one scale.
+ */
+
+export interface TimeInterval {
+  /** Inclusive start (wall-clock minutes) */
+  start: number;
+  /** Exclusive end (wall-clock minutes) */
+  end: number;
+}
+
+/** Slot granularities an organization may choose (minutes) */
+export const SLOT_GRANULARITIES = [5, 10, 15, 20, 30] as const;
+export type SlotGranularity = typeof SLOT_GRANULARITIES[number];
+
+export const DEFAULT_SLOT_GRANULARITY: SlotGranularity = 30;
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Coerce any value to a supported granularity (falls back to 30)
+ */
+export function normalizeGranularity(value: unknown): SlotGranularity {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : Number(value);
+  return (SLOT_GRANULARITIES as readonly number[]).includes(parsed)
+    ? (parsed as SlotGranularity)
+    : DEFAULT_SLOT_GRANULARITY;
+}
+
+/**
+ * Parse a local datetime string into wall-clock minutes.
+ * Accepts "YYYY-MM-DD HH:mm[:ss]" or "YYYY-MM-DDTHH:mm[:ss]" and ignores any
+ * timezone suffix ("Z", "+00:00") because stored values are already local.
+ */
+export function parseLocalDateTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, y, m, d, h, min] = match.map(Number);
+  if ([y, m, d, h, min].some(n => isNaN(n))) return null;
+
+  return Math.floor(Date.UTC(y, m - 1, d, h, min) / 60000);
+}
+
+/**
+ * Convert a date ("YYYY-MM-DD") and time ("HH:mm[:ss]") pair into wall-clock minutes
+ */
+export function parseLocalDateAndTime(date: string, time: string): number | null {
+  return parseLocalDateTime(`${date} ${time}`);
+}
+
+/**
+ * Format wall-clock minutes back to "YYYY-MM-DD HH:mm:ss"
+ */
+export function formatLocalDateTime(minutes: number): string {
+  const d = new Date(minutes * 60000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:00`;
+}
+
+/**
+ * Format wall-clock minutes as "YYYY-MM-DD"
+ */
+export function formatLocalDate(minutes: number): string {
+  return formatLocalDateTime(minutes).split(' ')[0];
+}
+
+/**
+ * Convert a real instant (e.g. a Google free/busy UTC timestamp) into wall-clock
+ * minutes in the given IANA timezone
+ */
+export function instantToLocalMinutes(instant: Date, timeZone: string): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', hour12: false,
+  });
+  const parts = formatter.formatToParts(instant);
+  const get = (type: string): number => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  // Intl renders midnight as "24" with hour12: false in some runtimes
+  const hour = get('hour') % 24;
+  return Math.floor(Date.UTC(get('year'), get('month') - 1, get('day'), hour, get('minute')) / 60000);
+}
+
+/**
+ * Half-open overlap test: [a.start, a.end) intersects [b.start, b.end)
+ */
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Return the first busy interval that overlaps the candidate, if any
+ */
+export function findOverlap(candidate: TimeInterval, busy: TimeInterval[]): TimeInterval | null {
+  for (const interval of busy) {
+    if (intervalsOverlap(candidate, interval)) {
+      return interval;
+    }
+  }
+  return null;
+}
+
+/**
+ * True when one window holds the whole interval. No windows (nobody on
+ * shift) covers nothing.
+ */
+export function coversInterval(windows: TimeInterval[] | undefined, needed: TimeInterval): boolean {
+  return (windows || []).some(w => w.start <= needed.start && needed.end <= w.end);
+}
+
+/**
+ * Sort and merge overlapping/adjacent intervals
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(i => i.end > i.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the busy interval for a stored appointment row
+ */
+export function appointmentToInterval(
+  appointmentDatetime: string | null | undefined,
+  durationMinutes: number | null | undefined
+): TimeInterval | null {
+  const start = parseLocalDateTime(appointmentDatetime);
+  if (start === null) return null;
+  return { start, end: start + (durationMinutes || DEFAULT_APPOINTMENT_MINUTES) };
+}
+
+/**
+ * Enumerate candidate slot starts inside a working window.
+ * Starts are aligned to the granularity grid (e.g. :00/:15/:30/:45) and every
+ * slot must end at or before the window end.
+ */
+export function generateSlotStarts(
+  window: TimeInterval,
+  lengthMinutes: number,
+  granularity: number
+): number[] {
+  const starts: number[] = [];
+  const step = granularity > 0 ? granularity : DEFAULT_SLOT_GRANULARITY;
+  const dayStart = Math.floor(window.start / MINUTES_PER_DAY) * MINUTES_PER_DAY;
+  let start = dayStart + Math.ceil((window.start - dayStart) / step) * step;
+
+  while (start + lengthMinutes <= window.end) {
+    starts.push(start);
+    start += step;
+  }
+  return starts;
+}
@@ -0,0 +1,349 @@
+/**
+ * Appointment Resources
+ *
+ * An appointment occupies one or more resources (provider, assistant,
+ * operatory), each for its own part of the visit. Offsets and lengths are in
+ * minutes from the appointment start. Appointments without rows in
+ * appointment_resources occupy provider_id and operatory_id for the full length.
+ */
+
+import {
+  appointmentToInterval,
+  DEFAULT_APPOINTMENT_MINUTES,
+  findOverlap,
+  type TimeInterval,
+} from './intervals';
+
+export const RESOURCE_TYPES = ['provider', 'assistant', 'operatory'] as const;
+export type ResourceType = typeof RESOURCE_TYPES[number];
+
+export interface ResourceSegment {
+  type: ResourceType;
+  /** providers.id for provider/assistant segments */
+  providerId: number | null;
+  /** operatories.id for operatory segments */
+  operatoryId: number | null;
+  offsetMinutes: number;
+  lengthMinutes: number;
+}
+
+/** Resource request as passed to the booking functions (OpenDental-style keys) */
+export interface ResourceRequest {
+  Type: ResourceType;
+  ProvNum?: number | null;
+  OpNum?: number | null;
+  OffsetMinutes?: number;
+  LengthMinutes?: number;
+}
+
+export interface AppointmentResourceRow {
+  appointment_id: number;
+  resource_type: ResourceType;
+  provider_id: number | null;
+  operatory_id: number | null;
+  offset_minutes: number;
+  duration_minutes: number;
+}
+
+export interface ResourceConflict {
+  segment: ResourceSegment;
+  appointmentId: number;
+  interval: TimeInterval;
+}
+
+/**
+ * Validate the Resources parameter. Accepts an array or its JSON string.
+ * Returns [] when nothing was requested.
+ */
+export function parseResourceRequests(value: unknown): ResourceRequest[] {
+  if (value === undefined || value === null || value === '') return [];
+
+  let list: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      throw new Error('Resources must be an array of { Type, ProvNum?, OpNum?, OffsetMinutes?, LengthMinutes? }');
+    }
+  }
+  if (!Array.isArray(list)) {
+    throw new Error('Resources must be an array of { Type, ProvNum?, OpNum?, OffsetMinutes?, LengthMinutes? }');
+  }
+
+  return list.map((raw: any, index: number) => {
+    const type = String(raw?.Type || raw?.type || '').toLowerCase() as ResourceType;
+    if (!RESOURCE_TYPES.includes(type)) {
+      throw new Error(`Resources[${index}].Type must be one of: ${RESOURCE_TYPES.join(', ')}`);
+    }
+
+    const provNum = raw.ProvNum ?? raw.providerId;
+    const opNum = raw.OpNum ?? raw.Op ?? raw.operatoryId;
+    const offset = raw.OffsetMinutes ?? raw.offsetMinutes;
+    const length = raw.LengthMinutes ?? raw.lengthMinutes;
+
+    const request: ResourceRequest = { Type: type };
+    if (provNum !== undefined && provNum !== null && provNum !== '') request.ProvNum = parseInt(String(provNum), 10);
+    if (opNum !== undefined && opNum !== null && opNum !== '') request.OpNum = parseInt(String(opNum), 10);
+    if (offset !== undefined && offset !== null && offset !== '') request.OffsetMinutes = parseInt(String(offset), 10);
+    if (length !== undefined && length !== null && length !== '') request.LengthMinutes = parseInt(String(length), 10);
+
+    if (type === 'assistant' && !request.ProvNum) {
+      throw new Error(`Resources[${index}]: assistant requires ProvNum`);
+    }
+    if (request.OffsetMinutes !== undefined && (isNaN(request.OffsetMinutes) || request.OffsetMinutes < 0)) {
+      throw new Error(`Resources[${index}].OffsetMinutes must be 0 or more`);
+    }
+    if (request.LengthMinutes !== undefined && (isNaN(request.LengthMinutes) || request.LengthMinutes <= 0)) {
+      throw new Error(`Resources[${index}].LengthMinutes must be greater than 0`);
+    }
+    return request;
+  });
+}
+
+/**
+ * Single-resource plan: provider and operatory for the whole visit
+ */
+export function defaultResourcePlan(
+  providerId: number | null,
+  operatoryId: number | null,
+  lengthMinutes: number
+): ResourceSegment[] {
+  const segments: ResourceSegment[] = [];
+  if (providerId) {
+    segments.push({ type: 'provider', providerId, operatoryId: null, offsetMinutes: 0, lengthMinutes });
+  }
+  if (operatoryId) {
+    segments.push({ type: 'operatory', providerId: null, operatoryId, offsetMinutes: 0, lengthMinutes });
+  }
+  return segments;
+}
+
+/**
+ * Turn resource requests into segments for a booking on provider/operatory.
+ * - provider requests without ProvNum mean the booked provider
+ * - operatory requests without OpNum mean the booked operatory
+ * - the booked provider and operatory cover the whole visit unless a request
+ *   says otherwise; other providers or rooms are held in addition to them
+ * - a missing LengthMinutes runs to the end of the visit
+ */
+export function buildResourcePlan(
+  providerId: number,
+  operatoryId: number,
+  lengthMinutes: number,
+  requests: ResourceRequest[]
+): ResourceSegment[] {
+  if (requests.length === 0) {
+    return defaultResourcePlan(providerId, operatoryId, lengthMinutes);
+  }
+
+  const segments: ResourceSegment[] = requests.map(request => {
+    const offsetMinutes = request.OffsetMinutes ?? 0;
+    const length = request.LengthMinutes ?? Math.max(lengthMinutes - offsetMinutes, 0);
+    if (length <= 0) {
+      throw new Error(`${request.Type} resource starts at +${offsetMinutes} min, after the ${lengthMinutes} min visit ends`);
+    }
+
+    if (request.Type === 'operatory') {
+      return {
+        type: 'operatory',
+        providerId: null,
+        operatoryId: request.OpNum || operatoryId,
+        offsetMinutes,
+        lengthMinutes: length,
+      };
+    }
+    return {
+      type: request.Type,
+      providerId: request.ProvNum || providerId,
+      operatoryId: null,
+      offsetMinutes,
+      lengthMinutes: length,
+    };
+  });
+
+  if (!segments.some(s => s.type === 'provider' && s.providerId === providerId)) {
+    segments.unshift({ type: 'provider', providerId, operatoryId: null, offsetMinutes: 0, lengthMinutes });
+  }
+  if (!segments.some(s => s.type === 'operatory' && s.operatoryId === operatoryId)) {
+    segments.push({ type: 'operatory', providerId: null, operatoryId, offsetMinutes: 0, lengthMinutes });
+  }
+
+  return segments;
+}
+
+/**
+ * Total visit length covered by the segments
+ */
+export function resourcePlanLength(segments: ResourceSegment[]): number {
+  return segments.reduce((max, s) => Math.max(max, s.offsetMinutes + s.lengthMinutes), 0);
+}
+
+/**
+ * True when the plan is just the booked provider + operatory for the whole visit
+ */
+export function isDefaultResourcePlan(segments: ResourceSegment[], lengthMinutes: number): boolean {
+  return segments.length === 2 &&
+    segments.every(s => s.type !== 'assistant' && s.offsetMinutes === 0 && s.lengthMinutes === lengthMinutes);
+}
+
+export function segmentInterval(start: number, segment: ResourceSegment): TimeInterval {
+  const from = start + segment.offsetMinutes;
+  return { start: from, end: from + segment.lengthMinutes };
+}
+
+export function rowToSegment(row: AppointmentResourceRow): ResourceSegment {
+  return {
+    type: row.resource_type,
+    providerId: row.provider_id,
+    operatoryId: row.operatory_id,
+    offsetMinutes: row.offset_minutes || 0,
+    lengthMinutes: row.duration_minutes,
+  };
+}
+
+export function segmentToRow(
+  segment: ResourceSegment,
+  appointmentId: number,
+  organizationId: string
+): AppointmentResourceRow & { organization_id: string } {
+  return {
+    organization_id: organizationId,
+    appointment_id: appointmentId,
+    resource_type: segment.type,
+    provider_id: segment.type === 'operatory' ? null : segment.providerId,
+    operatory_id: segment.type === 'operatory' ? segment.operatoryId : null,
+    offset_minutes: segment.offsetMinutes,
+    duration_minutes: segment.lengthMinutes,
+  };
+}
+
+/**
+ * Segments an existing appointment occupies (stored rows or the implicit pair)
+ */
+export function segmentsForAppointment(
+  apt: { id: number; provider_id: number | null; operatory_id: number | null; duration_minutes?: number | null },
+  resourcesByAppointment: Map<number, AppointmentResourceRow[]>
+): ResourceSegment[] {
+  const rows = resourcesByAppointment.get(apt.id);
+  if (rows && rows.length > 0) {
+    return rows.map(rowToSegment);
+  }
+  return defaultResourcePlan(apt.provider_id, apt.operatory_id, apt.duration_minutes || DEFAULT_APPOINTMENT_MINUTES);
+}
+
+/**
+ * OpenDental-style output for API responses
+ */
+export function formatResources(segments: ResourceSegment[]): Array<Record<string, any>> {
+  return segments.map(s => ({
+    Type: s.type,
+    ProvNum: s.type === 'operatory' ? null : s.providerId,
+    OpNum: s.type === 'operatory' ? s.operatoryId : null,
+    OffsetMinutes: s.offsetMinutes,
+    LengthMinutes: s.lengthMinutes,
+  }));
+}
+
+/**
+ * Busy intervals per provider (providers and assistants) and per operatory
+ */
+export function buildResourceBusy(
+  appointments: any[],
+  resourcesByAppointment: Map<number, AppointmentResourceRow[]>
+): { providerBusy: Map<number, TimeInterval[]>; operatoryBusy: Map<number, TimeInterval[]> } {
+  const providerBusy = new Map<number, TimeInterval[]>();
+  const operatoryBusy = new Map<number, TimeInterval[]>();
+
+  for (const apt of appointments) {
+    const visit = appointmentToInterval(apt.appointment_datetime, apt.duration_minutes);
+    if (!visit) continue;
+
+    for (const segment of segmentsForAppointment(apt, resourcesByAppointment)) {
+      const interval = segmentInterval(visit.start, segment);
+      if (segment.type === 'operatory' && segment.operatoryId) {
+        if (!operatoryBusy.has(segment.operatoryId)) operatoryBusy.set(segment.operatoryId, []);
+        operatoryBusy.get(segment.operatoryId)!.push(interval);
+      } else if (segment.providerId) {
+        if (!providerBusy.has(segment.providerId)) providerBusy.set(segment.providerId, []);
+        providerBusy.get(segment.providerId)!.push(interval);
+      }
+    }
+  }
+
+  return { providerBusy, operatoryBusy };
+}
+
+/**
+ * First segment of the requested plan that collides with an existing appointment
+ */
+export function findResourceConflict(
+  start: number,
+  segments: ResourceSegment[],
+  appointments: any[],
+  resourcesByAppointment: Map<number, AppointmentResourceRow[]>
+): ResourceConflict | null {
+  for (const apt of appointments) {
+    const visit = appointmentToInterval(apt.appointment_datetime, apt.duration_minutes);
+    if (!visit) continue;
+
+    const existing = segmentsForAppointment(apt, resourcesByAppointment);
+    for (const segment of segments) {
+      const requested = segmentInterval(start, segment);
+      const sameResource = existing.filter(other =>
+        segment.type === 'operatory'
+          ? other.type === 'operatory' && other.operatoryId === segment.operatoryId
+          : other.type !== 'operatory' && other.providerId === segment.providerId
+      );
+      const overlap = findOverlap(requested, sameResource.map(other => segmentInterval(visit.start, other)));
+      if (overlap) {
+        return { segment, appointmentId: apt.id, interval: overlap };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Human-readable resource name for messages ("Assistant 4", "Operatory 2")
+ */
+export function describeSegment(segment: ResourceSegment): string {
+  if (segment.type === 'operatory') return `Operatory ${segment.operatoryId}`;
+  return `${segment.type === 'assistant' ? 'Assistant' : 'Provider'} ${segment.providerId}`;
+}
+
+/**
+ * Load stored resource rows for a set of appointments.
+ * Throws when they can't be loaded: falling back to the implicit
+ * provider + operatory pair would ignore assistants and extra rooms.
+ */
+export async function loadAppointmentResources(
+  db: any,
+  organizationId: string | undefined,
+  appointmentIds: number[]
+): Promise<Map<number, AppointmentResourceRow[]>> {
+  const byAppointment = new Map<number, AppointmentResourceRow[]>();
+  if (appointmentIds.length === 0) return byAppointment;
+
+  let query = db
+    .from('appointment_resources')
+    .select('appointment_id, resource_type, provider_id, operatory_id, offset_minutes, duration_minutes')
+    .in('appointment_id', appointmentIds);
+
+  // CRITICAL: Filter by organization for multi-tenancy
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query.order('offset_minutes');
+
+  if (error) {
+    throw new Error(`Failed to load appointment resources: ${error.message}`);
+  }
+
+  for (const row of (data || []) as AppointmentResourceRow[]) {
+    if (!byAppointment.has(row.appointment_id)) byAppointment.set(row.appointment_id, []);
+    byAppointment.get(row.appointment_id)!.push(row);
+  }
+
+  return byAppointment;
+}
@@ -0,0 +1,162 @@
+/**
+ * Slot Settings
+ *
+ * Resolves the per-organization slot granularity and the length of an
+ * appointment from the treatments catalog (by code or by appointment type name),
+ * along with the treatment's provider/operatory requirements.
+ */
+
+import {
+  normalizeGranularity,
+  DEFAULT_APPOINTMENT_MINUTES,
+  type SlotGranularity,
+} from './intervals';
+import { NO_REQUIREMENTS, type TreatmentRequirements } from './capabilities';
+
+export interface OrganizationSlotSettings {
+  granularity: SlotGranularity;
+  timezone: string;
+}
+
+export interface DurationSource {
+  /** Explicit length requested by the caller */
+  lengthMinutes?: number | string;
+  /** treatments_catalog.code (e.g. "ENDO-003") */
+  TreatmentCode?: string;
+  /** Appointment type, matched to treatments_catalog.name (exact, case-insensitive) */
+  AppointmentType?: string;
+}
+
+export interface ResolvedDuration {
+  minutes: number;
+  source: 'explicit' | 'treatment_code' | 'appointment_type' | 'default';
+  treatmentCode?: string;
+  treatmentName?: string;
+  /** Provider specialty / operatory tags the matched treatment needs */
+  requirements: TreatmentRequirements;
+}
+
+const TREATMENT_COLUMNS = 'code, name, duration, required_specialties, required_operatory_tags';
+
+/**
+ * Load slot granularity + timezone for an organization.
+ * Missing org or column falls back to 30 minutes / America/New_York.
+ */
+export async function getOrganizationSlotSettings(
+  db: any,
+  organizationId?: string
+): Promise<OrganizationSlotSettings> {
+  const fallback: OrganizationSlotSettings = {
+    granularity: normalizeGranularity(undefined),
+    timezone: 'America/New_York',
+  };
+
+  if (!organizationId) return fallback;
+
+  try {
+    const { data, error } = await db
+      .from('organizations')
+      .select('timezone, slot_granularity_minutes')
+      .eq('id', organizationId)
+      .single();
+
+    if (error || !data) return fallback;
+
+    return {
+      granularity: normalizeGranularity(data.slot_granularity_minutes),
+      timezone: data.timezone || fallback.timezone,
+    };
+  } catch (error) {
+    console.warn('[SlotSettings] Failed to load organization slot settings:', error);
+    return fallback;
+  }
+}
+
+/**
+ * Escape % and _ so an ILIKE pattern matches the text literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Work out how long an appointment should be and what it requires.
+ * Priority: explicit lengthMinutes → TreatmentCode → AppointmentType (exact treatment
+ * name, case-insensitive) → 30 min default.
+ * The treatment is still looked up when the length is explicit so requirements apply.
+ */
+export async function resolveAppointmentDuration(
+  db: any,
+  source: DurationSource,
+  organizationId?: string
+): Promise<ResolvedDuration> {
+  const explicit = source.lengthMinutes !== undefined && source.lengthMinutes !== null
+    ? parseInt(String(source.lengthMinutes), 10)
+    : NaN;
+  const hasExplicit = !isNaN(explicit) && explicit > 0;
+
+  let treatment: any = null;
+  let matchedBy: ResolvedDuration['source'] = 'default';
+
+  try {
+    if (source.TreatmentCode) {
+      let query = db
+        .from('treatments_catalog')
+        .select(TREATMENT_COLUMNS)
+        .eq('code', String(source.TreatmentCode).toUpperCase())
+        .eq('is_active', true);
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+      const { data } = await query.limit(1);
+      treatment = data?.[0] || null;
+      matchedBy = 'treatment_code';
+    }
+
+    if (!treatment && source.AppointmentType) {
+      let query = db
+        .from('treatments_catalog')
+        .select(TREATMENT_COLUMNS)
+        .ilike('name', escapeLikePattern(String(source.AppointmentType).trim()))
+        .eq('is_active', true);
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId);
+      }
+      const { data } = await query.order('id').limit(1);
+      treatment = data?.[0] || null;
+      matchedBy = 'appointment_type';
+    }
+  } catch (error) {
+    console.warn('[SlotSettings] Treatment lookup failed, using default:', error);
+    treatment = null;
+  }
+
+  const requirements: TreatmentRequirements = treatment
+    ? {
+        specialties: treatment.required_specialties || [],
+        operatoryTags: treatment.required_operatory_tags || [],
+      }
+    : NO_REQUIREMENTS;
+
+  if (hasExplicit) {
+    return {
+      minutes: explicit,
+      source: 'explicit',
+      treatmentCode: treatment?.code,
+      treatmentName: treatment?.name,
+      requirements,
+    };
+  }
+
+  if (treatment?.duration) {
+    return {
+      minutes: treatment.duration,
+      source: matchedBy,
+      treatmentCode: treatment.code,
+      treatmentName: treatment.name,
+      requirements,
+    };
+  }
+
+  return { minutes: DEFAULT_APPOINTMENT_MINUTES, source: 'default', requirements };
+}
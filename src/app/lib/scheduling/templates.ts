@@ -0,0 +1,497 @@
+/**
+ * Weekly Schedule Templates
+ *
+ * Turns a provider's named weekly template (optionally alternating A/B weeks)
+ * into dated provider_schedules rows on a rolling horizon.
+ *
+ * Materialization is a diff against rows previously generated by the same
+ * template (provider_schedules.template_id):
+ * - missing rows are inserted (unless they overlap another schedule)
+ * - stale rows are removed only when no appointment is booked inside them
+ * - anything that can't be applied is returned as a conflict, never overwritten
+ *
+ * Only dates from "today" (org timezone) forward are touched.
+ */
+
+import {
+  parseLocalDateAndTime,
+  appointmentToInterval,
+  intervalsOverlap,
+  instantToLocalMinutes,
+  formatLocalDate,
+  formatLocalDateTime,
+  type TimeInterval,
+} from './intervals';
+import { getOrganizationSlotSettings } from './slotSettings';
+import { loadScheduleExceptionBlocks, isWholeDayBlocked } from './exceptions';
+
+export interface ScheduleTemplateRow {
+  id: number;
+  organization_id: string;
+  provider_id: number;
+  name: string;
+  week_cycle: number;
+  cycle_anchor_date: string;
+  effective_from: string;
+  effective_until: string | null;
+  horizon_days: number;
+  last_materialized_through: string | null;
+  is_active: boolean;
+}
+
+export interface ScheduleTemplateBlockRow {
+  id: number;
+  template_id: number;
+  week_index: number;
+  day_of_week: number;
+  operatory_id: number;
+  start_time: string;
+  end_time: string;
+}
+
+/** A dated schedule the template wants to exist */
+export interface DesiredSchedule {
+  schedule_date: string;
+  operatory_id: number;
+  start_time: string;
+  end_time: string;
+  template_block_id: number;
+}
+
+export type TemplateConflictType =
+  | 'schedule_overlap'
+  | 'booked_schedule_kept'
+  | 'appointment_outside_template';
+
+export interface TemplateConflict {
+  type: TemplateConflictType;
+  date: string;
+  message: string;
+  scheduleId?: number;
+  appointmentId?: number;
+}
+
+export interface MaterializeResult {
+  templateId: number;
+  templateName: string;
+  rangeStart: string;
+  rangeEnd: string;
+  created: number;
+  removed: number;
+  unchanged: number;
+  skippedExceptionDays: string[];
+  conflicts: TemplateConflict[];
+}
+
+/** The provider_schedules columns the materialization diff looks at */
+export interface ExistingScheduleRow {
+  id: number;
+  provider_id: number;
+  operatory_id: number;
+  schedule_date: string;
+  start_time: string;
+  end_time: string;
+  template_id: number | null;
+}
+
+export interface TemplateScheduleDiff {
+  toDelete: number[];
+  toInsert: DesiredSchedule[];
+  unchanged: number;
+  conflicts: TemplateConflict[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+function toDayNumber(date: string): number | null {
+  const minutes = parseLocalDateAndTime(String(date).slice(0, 10), '00:00');
+  return minutes === null ? null : Math.floor(minutes / MINUTES_PER_DAY);
+}
+
+function dayToDate(day: number): string {
+  return formatLocalDate(day * MINUTES_PER_DAY);
+}
+
+/** "9:00" / "09:00:00" -> "09:00:00" so keys compare consistently */
+export function normalizeTemplateTime(time: string): string {
+  const [h = '0', m = '00', s = '00'] = String(time).split(':');
+  return `${h.padStart(2, '0')}:${m.padStart(2, '0')}:${s.padStart(2, '0')}`;
+}
+
+function scheduleKey(date: string, operatoryId: number, start: string, end: string): string {
+  return `${date}|${operatoryId}|${normalizeTemplateTime(start)}|${normalizeTemplateTime(end)}`;
+}
+
+/**
+ * Which week of the cycle (0-based) a date falls in.
+ * Weeks are Sunday-based; week 0 contains cycle_anchor_date.
+ */
+export function templateWeekIndex(template: Pick<ScheduleTemplateRow, 'week_cycle' | 'cycle_anchor_date'>, date: string): number {
+  const cycle = Math.max(1, template.week_cycle || 1);
+  if (cycle === 1) return 0;
+
+  const anchorDay = toDayNumber(template.cycle_anchor_date);
+  const day = toDayNumber(date);
+  if (anchorDay === null || day === null) return 0;
+
+  // 1970-01-01 was a Thursday; shift so weeks start on Sunday
+  const weekOf = (d: number) => Math.floor((d + 4) / 7);
+  const diff = weekOf(day) - weekOf(anchorDay);
+  return ((diff % cycle) + cycle) % cycle;
+}
+
+/**
+ * Expand a template into the dated schedules it wants between two dates (inclusive)
+ */
+export function expandScheduleTemplate(
+  template: ScheduleTemplateRow,
+  blocks: ScheduleTemplateBlockRow[],
+  dateStart: string,
+  dateEnd: string
+): DesiredSchedule[] {
+  const firstDay = toDayNumber(dateStart);
+  const lastDay = toDayNumber(dateEnd);
+  if (firstDay === null || lastDay === null) return [];
+
+  const desired: DesiredSchedule[] = [];
+
+  for (let day = firstDay; day <= lastDay; day++) {
+    const date = dayToDate(day);
+    const dayOfWeek = new Date(day * MINUTES_PER_DAY * 60000).getUTCDay();
+    const weekIndex = templateWeekIndex(template, date);
+
+    for (const block of blocks) {
+      if (block.day_of_week !== dayOfWeek || (block.week_index || 0) !== weekIndex) continue;
+      desired.push({
+        schedule_date: date,
+        operatory_id: block.operatory_id,
+        start_time: normalizeTemplateTime(block.start_time),
+        end_time: normalizeTemplateTime(block.end_time),
+        template_block_id: block.id,
+      });
+    }
+  }
+
+  return desired;
+}
+
+function windowOf(date: string, start: string, end: string): TimeInterval | null {
+  const s = parseLocalDateAndTime(date, start);
+  const e = parseLocalDateAndTime(date, end);
+  return s === null || e === null ? null : { start: s, end: e };
+}
+
+/**
+ * Today's date in the organization's timezone
+ */
+export async function getOrganizationToday(db: any, organizationId: string): Promise<string> {
+  const { timezone } = await getOrganizationSlotSettings(db, organizationId);
+  return formatLocalDate(instantToLocalMinutes(new Date(), timezone || DEFAULT_TIMEZONE));
+}
+
+/**
+ * Work out what materializing a template changes, without touching the database:
+ * which generated rows to delete, which desired rows to insert, and what
+ * can't be applied. existingSchedules are every schedule in range for the
+ * provider or the template's rooms; appointments are the provider's booked ones.
+ */
+export function diffTemplateSchedules(
+  template: Pick<ScheduleTemplateRow, 'id' | 'provider_id'>,
+  desired: DesiredSchedule[],
+  existingSchedules: ExistingScheduleRow[],
+  appointments: Array<{ id: number; appointment_datetime: string; duration_minutes: number | null }>
+): TemplateScheduleDiff {
+  const diff: TemplateScheduleDiff = { toDelete: [], toInsert: [], unchanged: 0, conflicts: [] };
+
+  const appointmentIntervals = appointments
+    .map((apt: any) => ({ apt, interval: appointmentToInterval(apt.appointment_datetime, apt.duration_minutes) }))
+    .filter((entry: any) => entry.interval !== null) as Array<{ apt: any; interval: TimeInterval }>;
+
+  const ownRows = existingSchedules.filter((s: any) => s.template_id === template.id);
+  const otherRows = existingSchedules.filter((s: any) => s.template_id !== template.id);
+  const desiredKeys = new Set(desired.map(d => scheduleKey(d.schedule_date, d.operatory_id, d.start_time, d.end_time)));
+
+  // 1. Remove stale generated rows that have nothing booked inside them
+  const keptRows: any[] = [];
+  for (const row of ownRows) {
+    const key = scheduleKey(row.schedule_date, row.operatory_id, row.start_time, row.end_time);
+    if (desiredKeys.has(key)) {
+      keptRows.push(row);
+      diff.unchanged++;
+      continue;
+    }
+
+    const window = windowOf(row.schedule_date, row.start_time, row.end_time);
+    const booked = window
+      ? appointmentIntervals.find(entry => intervalsOverlap(entry.interval, window))
+      : undefined;
+
+    if (booked) {
+      keptRows.push(row);
+      diff.conflicts.push({
+        type: 'booked_schedule_kept',
+        date: row.schedule_date,
+        scheduleId: row.id,
+        appointmentId: booked.apt.id,
+        message: `Kept ${row.schedule_date} ${row.start_time}-${row.end_time}: appointment ${booked.apt.id} is booked at ${formatLocalDateTime(booked.interval.start)}`,
+      });
+    } else {
+      diff.toDelete.push(row.id);
+    }
+  }
+
+  // 2. Insert missing rows that don't collide with anything that stays
+  const ownKeys = new Set(keptRows.map(r => scheduleKey(r.schedule_date, r.operatory_id, r.start_time, r.end_time)));
+  const finalWindows: Array<{ window: TimeInterval; providerId: number; operatoryId: number }> = [];
+  for (const row of [...keptRows, ...otherRows]) {
+    const window = windowOf(row.schedule_date, row.start_time, row.end_time);
+    if (window) finalWindows.push({ window, providerId: row.provider_id, operatoryId: row.operatory_id });
+  }
+
+  for (const row of desired) {
+    if (ownKeys.has(scheduleKey(row.schedule_date, row.operatory_id, row.start_time, row.end_time))) continue;
+
+    const window = windowOf(row.schedule_date, row.start_time, row.end_time);
+    if (!window) continue;
+
+    // Same rules as checkScheduleConflicts: one provider per room, one room per provider
+    const clash = finalWindows.find(existing =>
+      intervalsOverlap(existing.window, window) &&
+      (existing.operatoryId === row.operatory_id || existing.providerId === template.provider_id)
+    );
+
+    if (clash) {
+      diff.conflicts.push({
+        type: 'schedule_overlap',
+        date: row.schedule_date,
+        message: clash.operatoryId === row.operatory_id && clash.providerId !== template.provider_id
+          ? `Skipped ${row.schedule_date} ${row.start_time}-${row.end_time}: operatory ${row.operatory_id} is already scheduled for provider ${clash.providerId}`
+          : `Skipped ${row.schedule_date} ${row.start_time}-${row.end_time}: overlaps an existing schedule for this provider`,
+      });
+      continue;
+    }
+
+    finalWindows.push({ window, providerId: template.provider_id, operatoryId: row.operatory_id });
+    diff.toInsert.push(row);
+  }
+
+  // 3. Report booked appointments that no longer sit inside any working block
+  // (only on dates this template generates or used to generate)
+  const templateDates = new Set([
+    ...desired.map(d => d.schedule_date),
+    ...ownRows.map((r: any) => r.schedule_date),
+  ]);
+  const providerWindows = finalWindows.filter(w => w.providerId === template.provider_id).map(w => w.window);
+  for (const { apt, interval } of appointmentIntervals) {
+    if (!templateDates.has(formatLocalDate(interval.start))) continue;
+    const covered = providerWindows.some(w => w.start <= interval.start && interval.end <= w.end);
+    if (!covered) {
+      diff.conflicts.push({
+        type: 'appointment_outside_template',
+        date: formatLocalDate(interval.start),
+        appointmentId: apt.id,
+        message: `Appointment ${apt.id} at ${formatLocalDateTime(interval.start)} is outside the provider's working hours`,
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Sync one template's future dated schedules with its current definition
+ */
+export async function materializeScheduleTemplate(
+  db: any,
+  organizationId: string,
+  templateId: number,
+  options: { today?: string; horizonDays?: number } = {}
+): Promise<MaterializeResult> {
+  const { data: template, error: templateError } = await db
+    .from('schedule_templates')
+    .select('*')
+    .eq('id', templateId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (templateError || !template) {
+    throw new Error(`Schedule template ${templateId} not found`);
+  }
+
+  const { data: blocks, error: blocksError } = await db
+    .from('schedule_template_blocks')
+    .select('*')
+    .eq('template_id', templateId)
+    .eq('organization_id', organizationId);
+
+  if (blocksError) {
+    throw new Error(`Failed to load template blocks: ${blocksError.message}`);
+  }
+
+  const today = options.today || await getOrganizationToday(db, organizationId);
+  const horizonDays = options.horizonDays || template.horizon_days || 28;
+
+  const todayDay = toDayNumber(today) as number;
+  const horizonEndDay = todayDay + horizonDays - 1;
+  const rangeStart = dayToDate(todayDay);
+  const rangeEnd = dayToDate(horizonEndDay);
+
+  // Generate only inside the effective window; rows outside it (or for an
+  // inactive template) are treated as stale and cleaned up like any other edit
+  const generateStartDay = Math.max(todayDay, toDayNumber(template.effective_from) ?? todayDay);
+  const untilDay = template.effective_until ? toDayNumber(template.effective_until) : null;
+  const generateEndDay = template.is_active === false
+    ? generateStartDay - 1
+    : (untilDay !== null ? Math.min(horizonEndDay, untilDay) : horizonEndDay);
+
+  const result: MaterializeResult = {
+    templateId: template.id,
+    templateName: template.name,
+    rangeStart,
+    rangeEnd,
+    created: 0,
+    removed: 0,
+    unchanged: 0,
+    skippedExceptionDays: [],
+    conflicts: [],
+  };
+
+  // Desired rows, minus days the provider/room is off all day (holidays, vacations)
+  const exceptionBlocks = await loadScheduleExceptionBlocks(db, organizationId, rangeStart, rangeEnd);
+  const desired = generateEndDay >= generateStartDay
+    ? expandScheduleTemplate(template, blocks || [], dayToDate(generateStartDay), dayToDate(generateEndDay)).filter(row => {
+        if (isWholeDayBlocked(exceptionBlocks, template.provider_id, row.operatory_id, row.schedule_date)) {
+          if (!result.skippedExceptionDays.includes(row.schedule_date)) {
+            result.skippedExceptionDays.push(row.schedule_date);
+          }
+          return false;
+        }
+        return true;
+      })
+    : [];
+
+  // Every schedule in range that involves this provider, or a room the template uses
+  const operatoryIds = Array.from(new Set((blocks || []).map((b: ScheduleTemplateBlockRow) => b.operatory_id)));
+  let scheduleQuery = db
+    .from('provider_schedules')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .gte('schedule_date', rangeStart)
+    .lte('schedule_date', rangeEnd);
+  scheduleQuery = operatoryIds.length > 0
+    ? scheduleQuery.or(`provider_id.eq.${template.provider_id},operatory_id.in.(${operatoryIds.join(',')})`)
+    : scheduleQuery.eq('provider_id', template.provider_id);
+
+  const { data: existingSchedules, error: scheduleError } = await scheduleQuery;
+  if (scheduleError) {
+    throw new Error(`Failed to load schedules: ${scheduleError.message}`);
+  }
+
+  const { data: appointments, error: aptError } = await db
+    .from('appointments')
+    .select('id, appointment_datetime, duration_minutes, operatory_id, provider_id')
+    .eq('organization_id', organizationId)
+    .eq('provider_id', template.provider_id)
+    .in('status', ['Scheduled'])
+    .gte('appointment_datetime', `${rangeStart} 00:00:00`)
+    .lte('appointment_datetime', `${rangeEnd} 23:59:59`);
+
+  if (aptError) {
+    throw new Error(`Failed to load appointments: ${aptError.message}`);
+  }
+
+  const diff = diffTemplateSchedules(template, desired, existingSchedules || [], appointments || []);
+  result.unchanged = diff.unchanged;
+  result.conflicts.push(...diff.conflicts);
+
+  if (diff.toDelete.length > 0) {
+    const { error } = await db
+      .from('provider_schedules')
+      .delete()
+      .in('id', diff.toDelete)
+      .eq('organization_id', organizationId);
+    if (error) {
+      throw new Error(`Failed to remove outdated schedules: ${error.message}`);
+    }
+    result.removed = diff.toDelete.length;
+  }
+
+  if (diff.toInsert.length > 0) {
+    const inserts = diff.toInsert.map(row => ({
+      organization_id: organizationId,
+      provider_id: template.provider_id,
+      operatory_id: row.operatory_id,
+      schedule_date: row.schedule_date,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      is_active: true,
+      template_id: template.id,
+      template_block_id: row.template_block_id,
+    }));
+
+    // A concurrent run may have inserted the same rows since we read; skip those
+    const { data: created, error } = await db
+      .from('provider_schedules')
+      .upsert(inserts, {
+        onConflict: 'template_id,schedule_date,operatory_id,start_time,end_time',
+        ignoreDuplicates: true,
+      })
+      .select('id');
+    if (error) {
+      throw new Error(`Failed to create schedules: ${error.message}`);
+    }
+    result.created = (created || []).length;
+  }
+
+  await db
+    .from('schedule_templates')
+    .update({ last_materialized_through: rangeEnd })
+    .eq('id', template.id)
+    .eq('organization_id', organizationId);
+
+  console.log(
+    `[ScheduleTemplates] "${template.name}" ${rangeStart}..${rangeEnd}: ` +
+    `${result.created} created, ${result.removed} removed, ${result.unchanged} unchanged, ${result.conflicts.length} conflicts`
+  );
+
+  return result;
+}
+
+/**
+ * Top up every active template whose generated rows don't reach the rolling horizon.
+ * Called lazily before slot searches so schedules never silently run out.
+ * Failures are logged and never block the caller.
+ */
+export async function ensureTemplatesMaterialized(db: any, organizationId?: string): Promise<void> {
+  if (!organizationId) return;
+
+  try {
+    const { data: templates, error } = await db
+      .from('schedule_templates')
+      .select('id, horizon_days, last_materialized_through')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true);
+
+    if (error || !templates || templates.length === 0) return;
+
+    const today = await getOrganizationToday(db, organizationId);
+    const todayDay = toDayNumber(today) as number;
+
+    for (const template of templates) {
+      const targetDay = todayDay + (template.horizon_days || 28) - 1;
+      const throughDay = template.last_materialized_through
+        ? toDayNumber(template.last_materialized_through)
+        : null;
+      if (throughDay !== null && throughDay >= targetDay) continue;
+
+      try {
+        await materializeScheduleTemplate(db, organizationId, template.id, { today });
+      } catch (err) {
+        console.warn(`[ScheduleTemplates] Rolling materialization failed for template ${template.id}:`, err);
+      }
+    }
+  } catch (error) {
+    console.warn('[ScheduleTemplates] Rolling materialization skipped:', error);
+  }
+}
@@ -7,10 +7,12 @@
  * Key Features:
  * - Stores patient info, appointment details, selected slots
  * - Automatic expiration after inactivity
- * - Thread-safe operations
+ * - Shared across instances through the state store, with versioned writes
  * - Generic enough for any booking workflow
  */
 
+import { getStateStore, updateState, type StateStore } from './state/stateStore';
+
 // ============================================
 // SESSION STATE INTERFACE
 // ============================================
@@ -74,137 +76,102 @@ export interface BookingSessionState {
 // SESSION STORE
 // ============================================
 
+const SESSION_NAMESPACE = 'booking_session';
+
+/**
+ * Apply a partial update, merging each section instead of replacing it
+ */
+export function mergeSessionUpdates(
+  session: BookingSessionState,
+  updates: Partial<BookingSessionState>
+): BookingSessionState {
+  return {
+    ...session,
+    patient: updates.patient ? { ...session.patient, ...updates.patient } : session.patient,
+    appointment: updates.appointment ? { ...session.appointment, ...updates.appointment } : session.appointment,
+    slots: updates.slots ? { ...session.slots, ...updates.slots } : session.slots,
+    workflow: updates.workflow ? { ...session.workflow, ...updates.workflow } : session.workflow,
+    customData: updates.customData ? { ...session.customData, ...updates.customData } : session.customData,
+  };
+}
+
+/**
+ * Sessions live in the shared state store (see lib/state), so the booking
+ * route and the websocket server see the same session. Every write renews
+ * the TTL.
+ */
 class SessionStateStore {
-  private sessions: Map<string, BookingSessionState> = new Map();
   private readonly SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
-  private readonly CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
-  
-  constructor() {
-    // Auto-cleanup expired sessions
-    setInterval(() => this.cleanupExpiredSessions(), this.CLEANUP_INTERVAL_MS);
+
+  constructor(private store: StateStore) {}
+
+  private newSession(sessionId: string, organizationId?: string, callId?: string): BookingSessionState {
+    const now = Date.now();
+    return {
+      sessionId,
+      organizationId,
+      callId,
+      createdAt: now,
+      lastAccessedAt: now,
+      patient: {},
+      appointment: {},
+      slots: {},
+      workflow: {},
+      customData: {},
+    };
   }
-  
+
   /**
    * Get or create session state
    */
-  getOrCreate(sessionId: string, organizationId?: string, callId?: string): BookingSessionState {
-    const now = Date.now();
-    let session = this.sessions.get(sessionId);
-    
-    if (!session) {
-      // Create new session
-      session = {
-        sessionId,
-        organizationId,
-        callId,
-        createdAt: now,
-        lastAccessedAt: now,
-        patient: {},
-        appointment: {},
-        slots: {},
-        workflow: {},
-        customData: {},
-      };
-      this.sessions.set(sessionId, session);
-      console.log(`[Session Manager] ✅ Created new session: ${sessionId}`);
-    } else {
+  async getOrCreate(sessionId: string, organizationId?: string, callId?: string): Promise<BookingSessionState> {
+    let created = false;
+    const { value } = await updateState<BookingSessionState>(this.store, SESSION_NAMESPACE, sessionId, current => {
+      created = !current;
+      if (!current) return this.newSession(sessionId, organizationId, callId);
       // Update last accessed time
-      session.lastAccessedAt = now;
+      return { ...current, lastAccessedAt: Date.now() };
+    }, this.SESSION_TIMEOUT_MS);
+
+    if (created) {
+      console.log(`[Session Manager] ✅ Created new session: ${sessionId}`);
     }
-    
-    return session;
+    return value;
   }
-  
+
   /**
-   * Get existing session (returns undefined if not found)
+   * Get existing session (returns undefined if not found or expired)
    */
-  get(sessionId: string): BookingSessionState | undefined {
-    const session = this.sessions.get(sessionId);
-    if (session) {
-      session.lastAccessedAt = Date.now();
-    }
-    return session;
+  async get(sessionId: string): Promise<BookingSessionState | undefined> {
+    const stored = await this.store.get<BookingSessionState>(SESSION_NAMESPACE, sessionId);
+    return stored?.value;
   }
-  
+
   /**
-   * Update session state (partial update)
+   * Update session state (partial update). Creates the session when another
+   * instance hasn't yet, so tool results are never dropped.
    */
-  update(sessionId: string, updates: Partial<BookingSessionState>): void {
-    const session = this.sessions.get(sessionId);
-    if (session) {
-      // Deep merge
-      if (updates.patient) {
-        session.patient = { ...session.patient, ...updates.patient };
-      }
-      if (updates.appointment) {
-        session.appointment = { ...session.appointment, ...updates.appointment };
-      }
-      if (updates.slots) {
-        session.slots = { ...session.slots, ...updates.slots };
-      }
-      if (updates.workflow) {
-        session.workflow = { ...session.workflow, ...updates.workflow };
-      }
-      if (updates.customData) {
-        session.customData = { ...session.customData, ...updates.customData };
-      }
-      
-      session.lastAccessedAt = Date.now();
-      console.log(`[Session Manager] 📝 Updated session: ${sessionId}`);
-    } else {
-      console.warn(`[Session Manager] ⚠️ Attempted to update non-existent session: ${sessionId}`);
-    }
+  async update(sessionId: string, updates: Partial<BookingSessionState>): Promise<void> {
+    await updateState<BookingSessionState>(this.store, SESSION_NAMESPACE, sessionId, current => ({
+      ...mergeSessionUpdates(current || this.newSession(sessionId, updates.organizationId, updates.callId), updates),
+      lastAccessedAt: Date.now(),
+    }), this.SESSION_TIMEOUT_MS);
+    console.log(`[Session Manager] 📝 Updated session: ${sessionId}`);
   }
-  
+
   /**
    * Delete session
    */
-  delete(sessionId: string): void {
-    const deleted = this.sessions.delete(sessionId);
-    if (deleted) {
-      console.log(`[Session Manager] 🗑️  Deleted session: ${sessionId}`);
-    }
+  async delete(sessionId: string): Promise<void> {
+    await this.store.delete(SESSION_NAMESPACE, sessionId);
+    console.log(`[Session Manager] 🗑️  Deleted session: ${sessionId}`);
   }
-  
-  /**
-   * Clear all sessions (for testing/debugging)
-   */
-  clear(): void {
-    this.sessions.clear();
-    console.log('[Session Manager] 🧹 Cleared all sessions');
-  }
-  
-  /**
-   * Get session count
-   */
-  getCount(): number {
-    return this.sessions.size;
-  }
-  
-  /**
-   * Cleanup expired sessions
-   */
-  private cleanupExpiredSessions(): void {
-    const now = Date.now();
-    let cleanedCount = 0;
-    
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (now - session.lastAccessedAt > this.SESSION_TIMEOUT_MS) {
-        this.sessions.delete(sessionId);
-        cleanedCount++;
-      }
-    }
-    
-    if (cleanedCount > 0) {
-      console.log(`[Session Manager] 🧹 Cleaned up ${cleanedCount} expired sessions`);
-    }
-  }
-  
+
   /**
    * Export session state as a context string for LLM
    */
-  exportAsContext(sessionId: string): string {
-    const session = this.get(sessionId);
+  async exportAsContext(sessionId: string): Promise<string> {
+    const session = await this.get(sessionId);
     if (!session) {
       return 'No session state available.';
     }
@@ -264,7 +231,7 @@ let sessionStore: SessionStateStore | null = null;
 
 export function getSessionStore(): SessionStateStore {
   if (!sessionStore) {
-    sessionStore = new SessionStateStore();
+    sessionStore = new SessionStateStore(getStateStore());
     console.log('[Session Manager] 🚀 Initialized session store');
   }
   return sessionStore;
@@ -277,34 +244,34 @@ export function getSessionStore(): SessionStateStore {
 /**
  * Get or create session state
  */
-export function getOrCreateSession(sessionId: string, organizationId?: string, callId?: string): BookingSessionState {
+export function getOrCreateSession(sessionId: string, organizationId?: string, callId?: string): Promise<BookingSessionState> {
   return getSessionStore().getOrCreate(sessionId, organizationId, callId);
 }
 
 /**
  * Get session state
  */
-export function getSession(sessionId: string): BookingSessionState | undefined {
+export function getSession(sessionId: string): Promise<BookingSessionState | undefined> {
   return getSessionStore().get(sessionId);
 }
 
 /**
  * Update session state
  */
-export function updateSession(sessionId: string, updates: Partial<BookingSessionState>): void {
-  getSessionStore().update(sessionId, updates);
+export function updateSession(sessionId: string, updates: Partial<BookingSessionState>): Promise<void> {
+  return getSessionStore().update(sessionId, updates);
 }
 
 /**
  * Delete session
  */
-export function deleteSession(sessionId: string): void {
-  getSessionStore().delete(sessionId);
+export function deleteSession(sessionId: string): Promise<void> {
+  return getSessionStore().delete(sessionId);
 }
 
 /**
  * Export session as LLM context
  */
-export function getSessionContext(sessionId: string): string {
+export function getSessionContext(sessionId: string): Promise<string> {
   return getSessionStore().exportAsContext(sessionId);
 }
@@ -0,0 +1,35 @@
+/**
+ * Server-side speech-to-text (OpenAI Whisper)
+ *
+ * Shared by the /api/stt proxy (browser recordings) and the WhatsApp handler
+ * (voice notes). Client code should keep using transcribeAudio() in
+ * sttTtsUtils, which posts to /api/stt.
+ */
+
+import OpenAI from 'openai';
+
+export interface TranscribeOptions {
+  fileName: string;
+  mimeType: string;
+  model?: string;
+  /** ISO-639-1 code; omit to let Whisper detect the language */
+  language?: string;
+  /** Defaults to OPENAI_API_KEY */
+  apiKey?: string;
+}
+
+export async function transcribeAudioBuffer(audio: Buffer, options: TranscribeOptions): Promise<string> {
+  const openai = new OpenAI({ apiKey: options.apiKey || process.env.OPENAI_API_KEY });
+
+  const audioFile = new File([new Uint8Array(audio)], options.fileName, { type: options.mimeType });
+
+  const transcription = await openai.audio.transcriptions.create({
+    file: audioFile,
+    model: options.model || 'whisper-1',
+    ...(options.language ? { language: options.language } : {}),
+  });
+
+  console.log(`[STT] Transcribed: "${transcription.text}" (file size: ${audio.length} bytes, type: ${options.mimeType})`);
+
+  return transcription.text;
+}
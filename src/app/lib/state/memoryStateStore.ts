@@ -0,0 +1,73 @@
+/**
+ * In-process state store. Values are copied on read and write so callers see
+ * the same semantics as the Postgres store. Not shared between instances.
+ */
+
+import { StateVersionConflictError, type SetStateOptions, type StateStore, type StoredState } from './types';
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+interface MemoryEntry {
+  json: string;
+  version: number;
+  expiresAt: number;
+}
+
+export class MemoryStateStore implements StateStore {
+  readonly kind = 'memory' as const;
+  private entries: Map<string, MemoryEntry> = new Map();
+
+  constructor() {
+    // Auto-cleanup expired entries; don't keep the process alive for it
+    const timer = setInterval(() => this.cleanupExpired(), CLEANUP_INTERVAL_MS);
+    timer.unref?.();
+  }
+
+  private live(namespace: string, key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(`${namespace}:${key}`);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(`${namespace}:${key}`);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<StoredState<T> | null> {
+    const entry = this.live(namespace, key);
+    if (!entry) return null;
+    return { value: JSON.parse(entry.json) as T, version: entry.version, expiresAt: entry.expiresAt };
+  }
+
+  async set<T>(namespace: string, key: string, value: T, options: SetStateOptions): Promise<StoredState<T>> {
+    const currentVersion = this.live(namespace, key)?.version ?? 0;
+    if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+      throw new StateVersionConflictError(namespace, key, options.expectedVersion);
+    }
+
+    const entry: MemoryEntry = {
+      json: JSON.stringify(value),
+      version: currentVersion + 1,
+      expiresAt: Date.now() + options.ttlMs,
+    };
+    this.entries.set(`${namespace}:${key}`, entry);
+    return { value: JSON.parse(entry.json) as T, version: entry.version, expiresAt: entry.expiresAt };
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entries.delete(`${namespace}:${key}`);
+  }
+
+  private cleanupExpired(): void {
+    const now = Date.now();
+    let cleanedCount = 0;
+    for (const [id, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(id);
+        cleanedCount++;
+      }
+    }
+    if (cleanedCount > 0) {
+      console.log(`[State Store] 🧹 Cleaned up ${cleanedCount} expired entries`);
+    }
+  }
+}
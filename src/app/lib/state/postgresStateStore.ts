@@ -0,0 +1,124 @@
+/**
+ * Postgres state store (shared_state table, migration 078). Shared by every
+ * instance that talks to the same Supabase project.
+ *
+ * Versions are checked in the UPDATE's WHERE clause, so a write that read an
+ * old version matches no row and becomes a StateVersionConflictError. A first
+ * write relies on the primary key: a concurrent insert fails with 23505.
+ */
+
+import { getSupabaseAdmin } from '../supabaseClient';
+import { StateVersionConflictError, type SetStateOptions, type StateStore, type StoredState } from './types';
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const UNIQUE_VIOLATION = '23505';
+
+interface SharedStateRow {
+  value: unknown;
+  version: number;
+  expires_at: string;
+}
+
+export class PostgresStateStore implements StateStore {
+  readonly kind = 'postgres' as const;
+
+  constructor() {
+    // Expired rows are ignored on read; this only reclaims space
+    const timer = setInterval(() => {
+      this.cleanupExpired().catch(error => console.error('[State Store] Cleanup failed:', error));
+    }, CLEANUP_INTERVAL_MS);
+    timer.unref?.();
+  }
+
+  /** Row as stored, expired or not */
+  private async getRow(namespace: string, key: string): Promise<SharedStateRow | null> {
+    const { data, error } = await getSupabaseAdmin()
+      .from('shared_state')
+      .select('value, version, expires_at')
+      .eq('namespace', namespace)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read state ${namespace}/${key}: ${error.message}`);
+    }
+    return data as SharedStateRow | null;
+  }
+
+  async get<T>(namespace: string, key: string): Promise<StoredState<T> | null> {
+    const row = await this.getRow(namespace, key);
+    if (!row) return null;
+    const expiresAt = new Date(row.expires_at).getTime();
+    if (expiresAt <= Date.now()) return null;
+    return { value: row.value as T, version: row.version, expiresAt };
+  }
+
+  async set<T>(namespace: string, key: string, value: T, options: SetStateOptions): Promise<StoredState<T>> {
+    const row = await this.getRow(namespace, key);
+    const now = Date.now();
+    const live = row && new Date(row.expires_at).getTime() > now ? row : null;
+    const currentVersion = live?.version ?? 0;
+
+    if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+      throw new StateVersionConflictError(namespace, key, options.expectedVersion);
+    }
+
+    const expiresAt = now + options.ttlMs;
+    const supabase = getSupabaseAdmin();
+
+    if (!row) {
+      const { error } = await supabase
+        .from('shared_state')
+        .insert({ namespace, key, value, version: 1, expires_at: new Date(expiresAt).toISOString() });
+
+      if (error) {
+        if (error.code === UNIQUE_VIOLATION) {
+          throw new StateVersionConflictError(namespace, key, options.expectedVersion ?? 0);
+        }
+        throw new Error(`Failed to write state ${namespace}/${key}: ${error.message}`);
+      }
+      return { value, version: 1, expiresAt };
+    }
+
+    // Existing row (live or expired): only replace the exact version we read
+    const version = row.version + 1;
+    const { data, error } = await supabase
+      .from('shared_state')
+      .update({ value, version, expires_at: new Date(expiresAt).toISOString(), updated_at: new Date(now).toISOString() })
+      .eq('namespace', namespace)
+      .eq('key', key)
+      .eq('version', row.version)
+      .select('version');
+
+    if (error) {
+      throw new Error(`Failed to write state ${namespace}/${key}: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new StateVersionConflictError(namespace, key, options.expectedVersion ?? row.version);
+    }
+    return { value, version, expiresAt };
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('shared_state')
+      .delete()
+      .eq('namespace', namespace)
+      .eq('key', key);
+
+    if (error) {
+      throw new Error(`Failed to delete state ${namespace}/${key}: ${error.message}`);
+    }
+  }
+
+  private async cleanupExpired(): Promise<void> {
+    const { error } = await getSupabaseAdmin()
+      .from('shared_state')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
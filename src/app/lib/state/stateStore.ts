@@ -0,0 +1,77 @@
+/**
+ * Shared State Store
+ *
+ * Per-session state (selected slot, patient, call history) that must survive
+ * a redeploy and be visible to every instance: the Next.js app and the
+ * Retell/Twilio websocket server run on separate machines.
+ *
+ * Entries are versioned. A write names the version it read and fails with
+ * StateVersionConflictError when another instance wrote first; updateState()
+ * re-reads and re-applies the change. Entries expire after their TTL.
+ *
+ * Backend is picked by STATE_STORE: "postgres" (shared_state table) or
+ * "memory" (single process, the default for local development).
+ */
+
+import { MemoryStateStore } from './memoryStateStore';
+import { PostgresStateStore } from './postgresStateStore';
+import { StateVersionConflictError, type StateStore, type StoredState } from './types';
+
+export { StateVersionConflictError };
+export type { SetStateOptions, StateStore, StoredState } from './types';
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Read-modify-write with optimistic concurrency. `mutate` gets the current
+ * value (null when missing or expired) and may run more than once.
+ */
+export async function updateState<T>(
+  store: StateStore,
+  namespace: string,
+  key: string,
+  mutate: (current: T | null) => T,
+  ttlMs: number
+): Promise<StoredState<T>> {
+  for (let attempt = 1; ; attempt++) {
+    const current = await store.get<T>(namespace, key);
+    const next = mutate(current ? current.value : null);
+    try {
+      return await store.set(namespace, key, next, { ttlMs, expectedVersion: current?.version ?? 0 });
+    } catch (error) {
+      if (!(error instanceof StateVersionConflictError) || attempt >= MAX_UPDATE_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`[State Store] Version conflict on ${namespace}/${key}, retrying (${attempt})`);
+    }
+  }
+}
+
+// ============================================
+// SINGLETON INSTANCE
+// ============================================
+
+let stateStore: StateStore | null = null;
+
+export function getStateStore(): StateStore {
+  if (!stateStore) {
+    const kind = (process.env.STATE_STORE || 'memory').toLowerCase();
+    if (kind === 'postgres') {
+      stateStore = new PostgresStateStore();
+    } else {
+      if (kind !== 'memory') {
+        console.warn(`[State Store] Unknown STATE_STORE "${kind}", using memory`);
+      }
+      stateStore = new MemoryStateStore();
+    }
+    console.log(`[State Store] 🚀 Using ${stateStore.kind} state store`);
+  }
+  return stateStore;
+}
+
+/**
+ * Replace the store (tests, or a custom backend such as Redis)
+ */
+export function setStateStore(store: StateStore): void {
+  stateStore = store;
+}
@@ -0,0 +1,33 @@
+/**
+ * Shared State Store Types
+ */
+
+export interface StoredState<T> {
+  value: T;
+  version: number;      // 1 on first write, +1 on every write
+  expiresAt: number;    // epoch ms
+}
+
+export interface SetStateOptions {
+  ttlMs: number;
+  /** Version the caller read; 0 means the entry must not exist yet. Omit to overwrite. */
+  expectedVersion?: number;
+}
+
+export interface StateStore {
+  readonly kind: 'memory' | 'postgres';
+  get<T>(namespace: string, key: string): Promise<StoredState<T> | null>;
+  set<T>(namespace: string, key: string, value: T, options: SetStateOptions): Promise<StoredState<T>>;
+  delete(namespace: string, key: string): Promise<void>;
+}
+
+export class StateVersionConflictError extends Error {
+  constructor(
+    public namespace: string,
+    public key: string,
+    public expectedVersion: number
+  ) {
+    super(`State ${namespace}/${key} changed since version ${expectedVersion}`);
+    this.name = 'StateVersionConflictError';
+  }
+}
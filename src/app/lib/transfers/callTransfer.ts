@@ -0,0 +1,364 @@
+/**
+ * Live Call Transfer
+ *
+ * The voice agent's transferCall tool hands the caller to a person:
+ * 1. requestCallTransfer picks the organization's on-duty targets (front desk,
+ *    on-call dentist, ...) and records a call_transfers row
+ * 2. Twilio calls are redirected to <Dial> TwiML once the agent has finished
+ *    speaking. Each target hears a whispered summary and presses 1 to accept;
+ *    unanswered targets roll over to the next one, then to voicemail.
+ * 3. Retell calls are handed to Retell's own transfer (transfer_number); the
+ *    call_ended webhook reports whether it connected. Retell has no whisper
+ *    or voicemail step for custom LLM transfers.
+ * The outcome is kept on the call_transfers row and on the conversation.
+ */
+
+import { getTwilioCredentials } from '../credentialLoader';
+import { getAppUrl } from '../email/resendClient';
+import { instantToLocalMinutes } from '../scheduling/intervals';
+import { getOrganizationSlotSettings } from '../scheduling/slotSettings';
+import { getSupabaseAdmin } from '../supabaseClient';
+import { selectTransferTargets, TRANSFER_ROLES, type TransferRole, type TransferTarget } from './targets';
+
+export type TransferProvider = 'twilio' | 'retell';
+export type TransferStatus = 'initiated' | 'ringing' | 'connected' | 'no_answer' | 'voicemail' | 'failed';
+
+export const TRANSFER_TOOL_NAME = 'transferCall';
+
+export interface CallTransfer {
+  id: string;
+  organization_id: string;
+  conversation_id: string | null;
+  provider: TransferProvider;
+  call_id: string;
+  reason: string | null;
+  summary: string | null;
+  destination: TransferRole | null;
+  target_ids: string[];
+  attempt: number;
+  status: TransferStatus;
+  connected_target_id: string | null;
+  connected_number: string | null;
+}
+
+export interface TransferRequest {
+  organizationId: string;
+  provider: TransferProvider;
+  callId: string;
+  reason?: string;
+  summary?: string;
+  destination?: string;
+}
+
+export interface TransferPlan {
+  transfer: CallTransfer;
+  targets: TransferTarget[];
+}
+
+const VOICEMAIL_MAX_SECONDS = 120;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function transferUrl(route: string, params: Record<string, string | number>): string {
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+  return escapeXml(`${getAppUrl()}/api/twilio/${route}?${query.toString()}`);
+}
+
+async function loadTargets(organizationId: string, ids?: string[]): Promise<TransferTarget[]> {
+  let query = getSupabaseAdmin()
+    .from('call_transfer_targets')
+    .select('*')
+    .eq('organization_id', organizationId);
+  if (ids) {
+    if (ids.length === 0) return [];
+    query = query.in('id', ids);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load transfer targets: ${error.message}`);
+  }
+
+  const targets = (data || []) as TransferTarget[];
+  // Keep the ring order that was chosen when the transfer started
+  return ids ? ids.map(id => targets.find(t => t.id === id)).filter(Boolean) as TransferTarget[] : targets;
+}
+
+export async function getTransfer(transferId: string): Promise<CallTransfer | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('call_transfers')
+    .select('*')
+    .eq('id', transferId)
+    .maybeSingle();
+  return (data as CallTransfer) || null;
+}
+
+/**
+ * Choose who to ring and record the transfer. Targets may be empty (nobody on
+ * duty); Twilio calls then go straight to voicemail.
+ */
+export async function requestCallTransfer(request: TransferRequest): Promise<TransferPlan> {
+  const supabase = getSupabaseAdmin();
+  const destination = (TRANSFER_ROLES as string[]).includes(request.destination || '')
+    ? request.destination as TransferRole
+    : null;
+
+  const { timezone } = await getOrganizationSlotSettings(supabase, request.organizationId);
+  const targets = selectTransferTargets(
+    await loadTargets(request.organizationId),
+    instantToLocalMinutes(new Date(), timezone),
+    destination
+  );
+
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('organization_id', request.organizationId)
+    .eq('call_id', request.callId)
+    .limit(1)
+    .maybeSingle();
+
+  const { data: transfer, error } = await supabase
+    .from('call_transfers')
+    .insert({
+      organization_id: request.organizationId,
+      conversation_id: conversation?.id || null,
+      provider: request.provider,
+      call_id: request.callId,
+      reason: request.reason || null,
+      summary: request.summary || null,
+      destination,
+      target_ids: targets.map(t => t.id),
+    })
+    .select('*')
+    .single();
+
+  if (error || !transfer) {
+    throw new Error(`Failed to record call transfer: ${error?.message || 'no row returned'}`);
+  }
+
+  if (conversation?.id) {
+    await supabase
+      .from('conversations')
+      .update({ transfer_status: 'initiated' })
+      .eq('id', conversation.id);
+  }
+
+  console.log(`[Call Transfer] ${request.provider} call ${request.callId}: ${targets.length} target(s) available (${request.reason || 'no reason'})`);
+  return { transfer: transfer as CallTransfer, targets };
+}
+
+/**
+ * What the agent should say, returned as the transferCall tool output
+ */
+export function transferToolOutput(plan: TransferPlan): Record<string, unknown> {
+  const first = plan.targets[0];
+
+  if (first) {
+    return {
+      transferring: true,
+      target: first.name,
+      message: `Tell the caller you are connecting them to ${first.name} now and to please stay on the line. Do not say anything else after that.`,
+    };
+  }
+  if (plan.transfer.provider === 'twilio') {
+    return {
+      transferring: true,
+      voicemail: true,
+      message: 'Nobody is available to take the call right now. Tell the caller you will put them through to voicemail so they can leave a message for the team. Do not say anything else after that.',
+    };
+  }
+  return {
+    transferring: false,
+    message: 'Nobody is available to take the call right now. Apologize, offer to take a message or to help with anything else.',
+  };
+}
+
+/**
+ * Update the transfer and mirror its status onto the conversation
+ */
+export async function recordTransferOutcome(
+  transfer: CallTransfer,
+  status: TransferStatus,
+  changes: Record<string, unknown> = {}
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const final = status !== 'initiated' && status !== 'ringing';
+
+  const { error } = await supabase
+    .from('call_transfers')
+    .update({ ...changes, status, ...(final ? { completed_at: new Date().toISOString() } : {}) })
+    .eq('id', transfer.id);
+
+  if (error) {
+    console.error('[Call Transfer] Failed to update transfer:', error.message);
+  }
+
+  if (transfer.conversation_id) {
+    await supabase
+      .from('conversations')
+      .update({
+        transfer_status: status,
+        ...(status === 'connected' && changes.connected_number ? { transfer_destination: changes.connected_number } : {}),
+      })
+      .eq('id', transfer.conversation_id);
+  }
+
+  console.log(`[Call Transfer] ${transfer.id}: ${status}`);
+}
+
+// ============================================
+// TWILIO
+// ============================================
+
+export function buildDialTwiml(transfer: CallTransfer, target: TransferTarget, attempt: number): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Dial timeout="${target.ring_timeout_seconds || 20}" action="${transferUrl('transfer-status', { transferId: transfer.id, attempt })}" method="POST">
+        <Number url="${transferUrl('transfer-whisper', { transferId: transfer.id, attempt })}" method="POST">${escapeXml(target.phone_number)}</Number>
+    </Dial>
+</Response>`;
+}
+
+export function buildVoicemailTwiml(transfer: CallTransfer): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Say>Sorry, no one is available to take your call right now. Please leave a message after the tone and we will call you back.</Say>
+    <Record maxLength="${VOICEMAIL_MAX_SECONDS}" playBeep="true" action="${transferUrl('transfer-voicemail', { transferId: transfer.id })}" method="POST" />
+    <Say>We did not receive a message. Goodbye.</Say>
+    <Hangup/>
+</Response>`;
+}
+
+/**
+ * Played to the staff member before the caller is connected
+ */
+export function buildWhisperTwiml(transfer: CallTransfer, attempt: number): string {
+  const summary = transfer.summary || transfer.reason || 'A caller asked to speak with someone.';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Gather numDigits="1" timeout="8" action="${transferUrl('transfer-whisper', { transferId: transfer.id, attempt, step: 'accept' })}" method="POST">
+        <Say>Call transfer from the virtual receptionist. ${escapeXml(summary)}. Press 1 to take the call.</Say>
+    </Gather>
+    <Hangup/>
+</Response>`;
+}
+
+/**
+ * Staff pressed a key after the whisper: 1 connects the caller
+ */
+export async function acceptTransfer(transfer: CallTransfer, attempt: number, digits: string): Promise<string> {
+  if (digits !== '1') {
+    return '<?xml version="1.0" encoding="UTF-8"?>\n<Response><Hangup/></Response>';
+  }
+
+  const [target] = await loadTargets(transfer.organization_id, [transfer.target_ids[attempt]]);
+  await recordTransferOutcome(transfer, 'connected', {
+    attempt,
+    connected_target_id: target?.id || null,
+    connected_number: target?.phone_number || null,
+  });
+  return '<?xml version="1.0" encoding="UTF-8"?>\n<Response><Say>Connecting you now.</Say></Response>';
+}
+
+/**
+ * <Dial> finished: the call was taken (hang up when it ends), or ring the
+ * next target, or fall back to voicemail
+ */
+export async function handleDialResult(transfer: CallTransfer, attempt: number, dialStatus: string): Promise<string> {
+  if (transfer.status === 'connected' && transfer.attempt === attempt) {
+    return '<?xml version="1.0" encoding="UTF-8"?>\n<Response><Hangup/></Response>';
+  }
+
+  console.log(`[Call Transfer] ${transfer.id}: attempt ${attempt + 1} not taken (${dialStatus})`);
+
+  const next = attempt + 1;
+  const [target] = await loadTargets(transfer.organization_id, transfer.target_ids.slice(next, next + 1));
+  if (target) {
+    await recordTransferOutcome(transfer, 'ringing', { attempt: next });
+    return buildDialTwiml(transfer, target, next);
+  }
+
+  await recordTransferOutcome(transfer, 'no_answer');
+  return buildVoicemailTwiml(transfer);
+}
+
+export async function saveVoicemail(transfer: CallTransfer, recordingUrl: string, durationSeconds: number): Promise<void> {
+  await recordTransferOutcome(transfer, 'voicemail', {
+    voicemail_url: recordingUrl,
+    voicemail_duration_seconds: durationSeconds,
+  });
+}
+
+/**
+ * Take the live call off the media stream and start ringing (or voicemail)
+ */
+export async function connectTwilioTransfer(plan: TransferPlan): Promise<void> {
+  const { transfer, targets } = plan;
+  const { accountSid, authToken } = await getTwilioCredentials(transfer.organization_id);
+
+  if (!accountSid || !authToken) {
+    await recordTransferOutcome(transfer, 'failed');
+    throw new Error('Twilio is not configured for this organization');
+  }
+
+  const twiml = targets[0] ? buildDialTwiml(transfer, targets[0], 0) : buildVoicemailTwiml(transfer);
+  const auth = Buffer.from(`${accountSid}:${authToken}`).toString('base64');
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Calls/${transfer.call_id}.json`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ Twiml: twiml }).toString(),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    await recordTransferOutcome(transfer, 'failed');
+    throw new Error(`Twilio call update failed (${response.status}): ${data.message || response.statusText}`);
+  }
+
+  if (targets[0]) {
+    await recordTransferOutcome(transfer, 'ringing');
+  }
+}
+
+// ============================================
+// RETELL
+// ============================================
+
+/**
+ * call_ended webhook: Retell reports how its transfer ended in disconnection_reason
+ */
+export async function recordRetellTransferResult(callId: string, disconnectionReason?: string): Promise<void> {
+  const { data } = await getSupabaseAdmin()
+    .from('call_transfers')
+    .select('*')
+    .eq('call_id', callId)
+    .eq('provider', 'retell')
+    .in('status', ['initiated', 'ringing'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const transfer = data as CallTransfer | null;
+  if (!transfer) return;
+
+  if (disconnectionReason === 'call_transfer' || disconnectionReason === 'transfer_bridged') {
+    const [target] = await loadTargets(transfer.organization_id, transfer.target_ids.slice(0, 1));
+    await recordTransferOutcome(transfer, 'connected', {
+      connected_target_id: target?.id || null,
+      connected_number: target?.phone_number || null,
+    });
+  } else {
+    await recordTransferOutcome(transfer, disconnectionReason === 'transfer_cancelled' ? 'no_answer' : 'failed');
+  }
+}
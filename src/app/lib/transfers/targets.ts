@@ -0,0 +1,88 @@
+/**
+ * Call Transfer Targets
+ *
+ * Pure selection logic: which of an organization's transfer targets can take
+ * a call right now, and in what order they ring. Times are wall-clock minutes
+ * in the organization's timezone (see scheduling/intervals.ts).
+ */
+
+export type TransferRole = 'front_desk' | 'on_call' | 'other';
+export type TargetAvailability = 'always' | 'on_duty' | 'off_duty';
+
+export const TRANSFER_ROLES: TransferRole[] = ['front_desk', 'on_call', 'other'];
+
+export interface TransferTarget {
+  id: string;
+  name: string;
+  role: TransferRole;
+  phone_number: string;
+  availability: TargetAvailability;
+  days_of_week: number[];
+  start_time: string;            // "09:00" or "09:00:00"
+  end_time: string;
+  priority: number;
+  ring_timeout_seconds: number;
+  is_active: boolean;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * "09:30" / "09:30:00" → 570
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = String(value || '0:0').split(':').map(part => parseInt(part, 10) || 0);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Inside the target's days / start-end window. A window that ends before it
+ * starts runs overnight and belongs to the day it started.
+ */
+export function isWithinDutyWindow(target: TransferTarget, localMinutes: number): boolean {
+  const minuteOfDay = ((localMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const day = new Date(localMinutes * 60000).getUTCDay();
+  const previousDay = (day + 6) % 7;
+  const start = parseTimeOfDay(target.start_time);
+  const end = parseTimeOfDay(target.end_time);
+  const days = target.days_of_week || [];
+
+  if (start < end) {
+    return days.includes(day) && minuteOfDay >= start && minuteOfDay < end;
+  }
+  return (days.includes(day) && minuteOfDay >= start) || (days.includes(previousDay) && minuteOfDay < end);
+}
+
+export function isTargetAvailable(target: TransferTarget, localMinutes: number): boolean {
+  if (!target.is_active || !target.phone_number) return false;
+
+  switch (target.availability) {
+    case 'always':
+      return true;
+    case 'off_duty':
+      return !isWithinDutyWindow(target, localMinutes);
+    default:
+      return isWithinDutyWindow(target, localMinutes);
+  }
+}
+
+/**
+ * Targets to ring, in order: the requested role first (e.g. on_call for an
+ * emergency), then everyone else who is available, each by priority.
+ */
+export function selectTransferTargets(
+  targets: TransferTarget[],
+  localMinutes: number,
+  destination?: TransferRole | null
+): TransferTarget[] {
+  const available = targets
+    .filter(target => isTargetAvailable(target, localMinutes))
+    .sort((a, b) => a.priority - b.priority);
+
+  if (!destination) return available;
+
+  return [
+    ...available.filter(target => target.role === destination),
+    ...available.filter(target => target.role !== destination),
+  ];
+}
@@ -0,0 +1,161 @@
+/**
+ * Waitlist Matching
+ *
+ * Pure helpers deciding which waitlist entries can take a freed slot and in
+ * what order they are offered it. Times are wall-clock minutes (see
+ * scheduling/intervals.ts); preferred_days use 0 = Sunday.
+ */
+
+import { randomInt } from 'crypto';
+import {
+  MINUTES_PER_DAY,
+  formatLocalDate,
+  type TimeInterval,
+} from '../scheduling/intervals';
+
+export const WAITLIST_STATUSES = ['waiting', 'offered', 'booked', 'cancelled', 'expired'] as const;
+export type WaitlistStatus = typeof WAITLIST_STATUSES[number];
+
+export const OFFER_STATUSES = ['pending', 'accepted', 'declined', 'expired', 'unavailable', 'failed'] as const;
+export type OfferStatus = typeof OFFER_STATUSES[number];
+
+export const DEFAULT_OFFER_MINUTES = 30;
+
+export interface WaitlistEntryRow {
+  id: number;
+  organization_id: string;
+  patient_id: number;
+  preferred_provider_ids: number[] | null;
+  preferred_days: number[] | null;
+  earliest_time: string | null;
+  latest_time: string | null;
+  date_from: string | null;
+  date_until: string | null;
+  length_minutes: number | null;
+  treatment_code: string | null;
+  appointment_type: string | null;
+  channel: 'sms' | 'whatsapp';
+  contact_phone: string | null;
+  priority: number;
+  status: WaitlistStatus;
+  auto_offer: boolean;
+  source: 'agent' | 'staff' | 'unscheduled';
+  created_at: string;
+}
+
+/** A slot that just opened up */
+export interface FreedSlot {
+  providerId: number;
+  operatoryId: number;
+  /** Wall-clock start in minutes */
+  start: number;
+  /** How long the slot is free for */
+  lengthMinutes: number;
+  /** The appointment that was broken / deleted */
+  sourceAppointmentId?: number;
+  /** The patient who gave the slot up (never offered it back) */
+  releasedByPatientId?: number;
+}
+
+/**
+ * "HH:MM" or "HH:MM:SS" to minutes after midnight
+ */
+export function timeToMinutes(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(String(value).trim());
+  if (!match) return null;
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes >= 0 && minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+/**
+ * 0 = Sunday … 6 = Saturday for a wall-clock minute value
+ */
+export function dayOfWeek(minutes: number): number {
+  return new Date(minutes * 60000).getUTCDay();
+}
+
+/**
+ * Does the entry's preference window accept this appointment?
+ * lengthMinutes is how long the entry's visit takes, not the freed slot.
+ */
+export function entryFitsSlot(entry: WaitlistEntryRow, slot: FreedSlot, lengthMinutes: number): boolean {
+  if (lengthMinutes > slot.lengthMinutes) return false;
+  if (slot.releasedByPatientId && entry.patient_id === slot.releasedByPatientId) return false;
+
+  const providers = entry.preferred_provider_ids || [];
+  if (providers.length > 0 && !providers.includes(slot.providerId)) return false;
+
+  const days = entry.preferred_days || [];
+  if (days.length > 0 && !days.includes(dayOfWeek(slot.start))) return false;
+
+  const date = formatLocalDate(slot.start);
+  if (entry.date_from && date < entry.date_from) return false;
+  if (entry.date_until && date > entry.date_until) return false;
+
+  const dayStart = Math.floor(slot.start / MINUTES_PER_DAY) * MINUTES_PER_DAY;
+  const visit: TimeInterval = { start: slot.start - dayStart, end: slot.start - dayStart + lengthMinutes };
+  const earliest = timeToMinutes(entry.earliest_time);
+  const latest = timeToMinutes(entry.latest_time);
+  if (earliest !== null && visit.start < earliest) return false;
+  if (latest !== null && visit.end > latest) return false;
+
+  return true;
+}
+
+/**
+ * Offer order: highest priority first, then whoever joined the list first
+ */
+export function rankEntries<T extends Pick<WaitlistEntryRow, 'priority' | 'created_at'>>(entries: T[]): T[] {
+  return [...entries].sort((a, b) =>
+    (b.priority || 0) - (a.priority || 0) ||
+    String(a.created_at).localeCompare(String(b.created_at))
+  );
+}
+
+/**
+ * An offer can no longer be accepted once expires_at has passed
+ */
+export function isOfferExpired(offer: { expires_at: string }, now: Date = new Date()): boolean {
+  return new Date(offer.expires_at).getTime() <= now.getTime();
+}
+
+/**
+ * Four-digit code the patient can text back with YES / NO
+ */
+export function generateReplyCode(): string {
+  return String(randomInt(1000, 10000));
+}
+
+export interface OfferReply {
+  accept: boolean;
+  code?: string;
+}
+
+const ACCEPT_WORDS = ['YES', 'Y', 'ACCEPT', 'BOOK', 'CLAIM'];
+const DECLINE_WORDS = ['NO', 'N', 'DECLINE', 'PASS'];
+
+/**
+ * Recognize "YES", "yes 4821", "NO 4821" etc. Anything else returns null
+ * so the message goes to the normal conversation flow.
+ */
+export function parseOfferReply(text: string | null | undefined): OfferReply | null {
+  const match = /^\s*([a-z]+)[\s,.!]*(\d{4})?[\s.!]*$/i.exec(String(text || ''));
+  if (!match) return null;
+
+  const word = match[1].toUpperCase();
+  const code = match[2];
+  if (ACCEPT_WORDS.includes(word)) return { accept: true, code };
+  if (DECLINE_WORDS.includes(word)) return { accept: false, code };
+  return null;
+}
+
+/**
+ * "Tue, Oct 21 at 2:30 PM" for a wall-clock minute value
+ */
+export function describeSlotTime(minutes: number): string {
+  const date = new Date(minutes * 60000);
+  const day = date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+  return `${day} at ${time}`;
+}
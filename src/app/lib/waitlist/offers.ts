@@ -0,0 +1,567 @@
+/**
+ * Waitlist Offers
+ *
+ * A freed slot is offered to one matching waitlist entry at a time over the
+ * entry's channel (SMS or WhatsApp). The patient claims it through the link or
+ * by replying "YES <code>"; a decline or an expired offer passes the slot on
+ * to the next entry. Accepting books through CreateAppointment, so the usual
+ * conflict checks and SyncManager.createAppointment apply.
+ */
+
+import { randomBytes } from 'crypto';
+import { getAppUrl } from '../email/resendClient';
+import { getSupabaseAdmin, getSupabaseWithOrg } from '../supabaseClient';
+import { phonesMatch, sendPatientMessage } from '../messaging/outbound';
+import {
+  appointmentToInterval,
+  findOverlap,
+  formatLocalDate,
+  formatLocalDateTime,
+  instantToLocalMinutes,
+  parseLocalDateTime,
+  type TimeInterval,
+} from '../scheduling/intervals';
+import { getOrganizationSlotSettings, resolveAppointmentDuration, type ResolvedDuration } from '../scheduling/slotSettings';
+import { operatoryQualifies, providerQualifies } from '../scheduling/capabilities';
+import {
+  DEFAULT_OFFER_MINUTES,
+  describeSlotTime,
+  entryFitsSlot,
+  generateReplyCode,
+  isOfferExpired,
+  parseOfferReply,
+  rankEntries,
+  type FreedSlot,
+  type OfferStatus,
+  type WaitlistEntryRow,
+} from './matching';
+
+export interface WaitlistOfferRow {
+  id: number;
+  organization_id: string;
+  entry_id: number;
+  source_appointment_id: number | null;
+  provider_id: number;
+  operatory_id: number;
+  slot_datetime: string;
+  slot_minutes: number;
+  duration_minutes: number;
+  token: string;
+  reply_code: string;
+  channel: 'sms' | 'whatsapp';
+  status: OfferStatus;
+  expires_at: string;
+  sent_at: string | null;
+  responded_at: string | null;
+  appointment_id: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface OfferOutcome {
+  success: boolean;
+  /** Text shown / sent back to the patient */
+  message: string;
+  appointmentId?: number;
+  /** Offer sent to the next entry after a decline / expiry */
+  nextOffer?: WaitlistOfferRow | null;
+}
+
+export interface WaitlistProcessResult {
+  expiredOffers: number;
+  expiredEntries: number;
+  newOffers: number;
+}
+
+interface OfferSettings {
+  windowMinutes: number;
+  organizationName: string;
+  timezone: string;
+}
+
+async function loadOfferSettings(db: any, organizationId: string): Promise<OfferSettings> {
+  const { timezone } = await getOrganizationSlotSettings(db, organizationId);
+  const { data } = await db
+    .from('organizations')
+    .select('name, waitlist_offer_minutes')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  return {
+    windowMinutes: data?.waitlist_offer_minutes || DEFAULT_OFFER_MINUTES,
+    organizationName: data?.name || 'Your dental office',
+    timezone,
+  };
+}
+
+export function claimUrl(token: string): string {
+  return `${getAppUrl().replace(/\/$/, '')}/waitlist/claim/${token}`;
+}
+
+function offerSlot(offer: WaitlistOfferRow): FreedSlot | null {
+  const start = parseLocalDateTime(offer.slot_datetime);
+  if (start === null) return null;
+  return {
+    providerId: offer.provider_id,
+    operatoryId: offer.operatory_id,
+    start,
+    lengthMinutes: offer.slot_minutes,
+    sourceAppointmentId: offer.source_appointment_id || undefined,
+  };
+}
+
+/**
+ * Lightweight re-check before offering: nothing scheduled on the provider or
+ * chair over the slot. CreateAppointment does the full check on acceptance.
+ * A failed lookup counts as taken, so nobody is texted a slot that may be gone.
+ */
+async function isSlotOpen(db: any, organizationId: string, slot: FreedSlot): Promise<boolean> {
+  const date = formatLocalDate(slot.start);
+  const { data, error } = await db
+    .from('appointments')
+    .select('appointment_datetime, duration_minutes')
+    .eq('organization_id', organizationId)
+    .eq('status', 'Scheduled')
+    .or(`provider_id.eq.${slot.providerId},operatory_id.eq.${slot.operatoryId}`)
+    .gte('appointment_datetime', `${date} 00:00:00`)
+    .lte('appointment_datetime', `${date} 23:59:59`);
+
+  if (error) {
+    console.warn('[Waitlist] Could not re-check slot, not offering it this run:', error.message);
+    return false;
+  }
+
+  const busy = (data || [])
+    .map((apt: any) => appointmentToInterval(apt.appointment_datetime, apt.duration_minutes))
+    .filter((interval: TimeInterval | null): interval is TimeInterval => interval !== null);
+  return !findOverlap({ start: slot.start, end: slot.start + slot.lengthMinutes }, busy);
+}
+
+function buildOfferMessage(
+  settings: OfferSettings,
+  patientName: string,
+  providerName: string,
+  slotStart: number,
+  token: string,
+  replyCode: string
+): string {
+  return [
+    `${settings.organizationName}: Hi ${patientName}, an earlier appointment just opened up on ${describeSlotTime(slotStart)}${providerName ? ` with ${providerName}` : ''}.`,
+    `Claim it at ${claimUrl(token)} or reply YES ${replyCode}. Reply NO ${replyCode} to pass.`,
+    `This offer expires in ${settings.windowMinutes} minutes.`,
+  ].join(' ');
+}
+
+/**
+ * Offer a slot to the next waitlist entry that fits it and hasn't been offered it yet.
+ * Returns the pending offer, or null when nobody on the list can take the slot.
+ */
+export async function offerSlotToNextEntry(
+  db: any,
+  organizationId: string,
+  slot: FreedSlot
+): Promise<WaitlistOfferRow | null> {
+  const settings = await loadOfferSettings(db, organizationId);
+  if (slot.start <= instantToLocalMinutes(new Date(), settings.timezone)) {
+    return null;
+  }
+
+  if (!(await isSlotOpen(db, organizationId, slot))) {
+    console.log(`[Waitlist] Slot ${formatLocalDateTime(slot.start)} is no longer open`);
+    return null;
+  }
+
+  const slotDatetime = formatLocalDateTime(slot.start);
+
+  // Each entry is offered a given slot at most once
+  const { data: previous } = await db
+    .from('waitlist_offers')
+    .select('entry_id')
+    .eq('organization_id', organizationId)
+    .eq('provider_id', slot.providerId)
+    .eq('slot_datetime', slotDatetime);
+  const tried = new Set<number>((previous || []).map((row: any) => row.entry_id));
+
+  const { data: entries, error } = await db
+    .from('waitlist_entries')
+    .select('*, patients(first_name, last_name, phone)')
+    .eq('organization_id', organizationId)
+    .eq('status', 'waiting')
+    .eq('auto_offer', true);
+
+  if (error) {
+    throw new Error(`Failed to load waitlist: ${error.message}`);
+  }
+  if (!entries || entries.length === 0) return null;
+
+  const [{ data: provider }, { data: operatory }] = await Promise.all([
+    db.from('providers').select('first_name, last_name, specialty_tags').eq('id', slot.providerId).maybeSingle(),
+    db.from('operatories').select('tags').eq('id', slot.operatoryId).maybeSingle(),
+  ]);
+  const providerName = provider ? `Dr. ${provider.last_name || provider.first_name}` : '';
+
+  // Entries asking for the same treatment resolve the same way
+  const resolvedCache = new Map<string, ResolvedDuration>();
+
+  for (const entry of rankEntries(entries as (WaitlistEntryRow & { patients?: any })[])) {
+    if (tried.has(entry.id)) continue;
+
+    const key = `${entry.length_minutes || ''}|${entry.treatment_code || ''}|${entry.appointment_type || ''}`;
+    let resolved = resolvedCache.get(key);
+    if (!resolved) {
+      resolved = await resolveAppointmentDuration(db, {
+        lengthMinutes: entry.length_minutes ?? undefined,
+        TreatmentCode: entry.treatment_code ?? undefined,
+        AppointmentType: entry.appointment_type ?? undefined,
+      }, organizationId);
+      resolvedCache.set(key, resolved);
+    }
+
+    if (!entryFitsSlot(entry, slot, resolved.minutes)) continue;
+    if (!providerQualifies(provider?.specialty_tags, resolved.requirements)) continue;
+    if (!operatoryQualifies(operatory?.tags, resolved.requirements)) continue;
+
+    const phone = entry.contact_phone || entry.patients?.phone;
+    if (!phone) continue;
+
+    const offer = await createAndSendOffer(db, organizationId, settings, entry, slot, resolved.minutes, phone, providerName);
+    if (offer.status === 'pending') {
+      return offer;
+    }
+    tried.add(entry.id);
+  }
+
+  return null;
+}
+
+async function createAndSendOffer(
+  db: any,
+  organizationId: string,
+  settings: OfferSettings,
+  entry: WaitlistEntryRow & { patients?: any },
+  slot: FreedSlot,
+  durationMinutes: number,
+  phone: string,
+  providerName: string
+): Promise<WaitlistOfferRow> {
+  const token = randomBytes(24).toString('hex');
+  const replyCode = generateReplyCode();
+
+  const { data: offer, error } = await db
+    .from('waitlist_offers')
+    .insert({
+      organization_id: organizationId,
+      entry_id: entry.id,
+      source_appointment_id: slot.sourceAppointmentId || null,
+      provider_id: slot.providerId,
+      operatory_id: slot.operatoryId,
+      slot_datetime: formatLocalDateTime(slot.start),
+      slot_minutes: slot.lengthMinutes,
+      duration_minutes: durationMinutes,
+      token,
+      reply_code: replyCode,
+      channel: entry.channel,
+      status: 'pending',
+      expires_at: new Date(Date.now() + settings.windowMinutes * 60000).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error || !offer) {
+    throw new Error(`Failed to create waitlist offer: ${error?.message || 'No data returned'}`);
+  }
+
+  await setEntryStatus(db, entry.id, 'offered');
+
+  try {
+    const text = buildOfferMessage(settings, entry.patients?.first_name || 'there', providerName, slot.start, token, replyCode);
+    await sendPatientMessage(organizationId, entry.channel, phone, text);
+
+    const sentAt = new Date().toISOString();
+    await db.from('waitlist_offers').update({ sent_at: sentAt }).eq('id', offer.id);
+    console.log(`[Waitlist] Offered ${formatLocalDateTime(slot.start)} to entry ${entry.id} via ${entry.channel}`);
+    return { ...offer, sent_at: sentAt };
+  } catch (sendError: any) {
+    console.warn(`[Waitlist] Could not send offer to entry ${entry.id}:`, sendError.message);
+    await db.from('waitlist_offers').update({ status: 'failed', error: sendError.message }).eq('id', offer.id);
+    await setEntryStatus(db, entry.id, 'waiting');
+    return { ...offer, status: 'failed', error: sendError.message };
+  }
+}
+
+async function setEntryStatus(db: any, entryId: number, status: string, extra: Record<string, any> = {}): Promise<void> {
+  const { error } = await db
+    .from('waitlist_entries')
+    .update({ status, ...extra })
+    .eq('id', entryId);
+  if (error) {
+    console.warn(`[Waitlist] Failed to set entry ${entryId} to ${status}:`, error.message);
+  }
+}
+
+/**
+ * A slot was freed by BreakAppointment / DeleteAppointment: start the offer chain.
+ */
+export async function releaseSlotToWaitlist(
+  db: any,
+  organizationId: string,
+  slot: FreedSlot
+): Promise<WaitlistOfferRow | null> {
+  const offer = await offerSlotToNextEntry(db, organizationId, slot);
+  if (!offer) {
+    console.log(`[Waitlist] No waitlist match for ${formatLocalDateTime(slot.start)}`);
+  }
+  return offer;
+}
+
+/**
+ * Close a pending offer without booking and pass the slot on.
+ * The entry goes back to waiting unless it has been cancelled meanwhile.
+ */
+export async function closeOffer(
+  db: any,
+  offer: WaitlistOfferRow,
+  status: 'declined' | 'expired'
+): Promise<OfferOutcome> {
+  const { data: closed } = await db
+    .from('waitlist_offers')
+    .update({ status, responded_at: status === 'declined' ? new Date().toISOString() : null })
+    .eq('id', offer.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (!closed) {
+    return { success: false, message: 'This offer is no longer open.' };
+  }
+
+  const { data: entry } = await db
+    .from('waitlist_entries')
+    .select('status')
+    .eq('id', offer.entry_id)
+    .maybeSingle();
+  if (entry?.status === 'offered') {
+    await setEntryStatus(db, offer.entry_id, 'waiting');
+  }
+
+  let nextOffer: WaitlistOfferRow | null = null;
+  const slot = offerSlot(offer);
+  if (slot) {
+    try {
+      nextOffer = await offerSlotToNextEntry(db, offer.organization_id, slot);
+    } catch (error: any) {
+      console.warn('[Waitlist] Could not pass slot to the next entry:', error.message);
+    }
+  }
+
+  return {
+    success: true,
+    message: status === 'declined'
+      ? "No problem, we've passed on that slot. You're still on the waitlist."
+      : 'This offer has expired.',
+    nextOffer,
+  };
+}
+
+/**
+ * Book the offered slot for the entry's patient. Only the first acceptance wins.
+ */
+export async function acceptOffer(db: any, offer: WaitlistOfferRow): Promise<OfferOutcome> {
+  if (offer.status !== 'pending') {
+    return { success: false, message: 'This offer is no longer open.' };
+  }
+  if (isOfferExpired(offer)) {
+    await closeOffer(db, offer, 'expired');
+    return { success: false, message: 'Sorry, this offer has expired.' };
+  }
+
+  // Claim first so a second click / reply can't book twice
+  const { data: claimed } = await db
+    .from('waitlist_offers')
+    .update({ status: 'accepted', responded_at: new Date().toISOString() })
+    .eq('id', offer.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (!claimed) {
+    return { success: false, message: 'This offer is no longer open.' };
+  }
+
+  const { data: entry, error: entryError } = await db
+    .from('waitlist_entries')
+    .select('*')
+    .eq('id', offer.entry_id)
+    .single();
+
+  if (entryError || !entry || entry.status === 'cancelled') {
+    await db.from('waitlist_offers').update({ status: 'unavailable', error: 'Waitlist entry was removed' }).eq('id', offer.id);
+    return { success: false, message: 'This offer is no longer open.' };
+  }
+
+  const start = parseLocalDateTime(offer.slot_datetime);
+
+  try {
+    const { CreateAppointment } = await import('@/app/api/booking/functions/appointments');
+    const appointment = await CreateAppointment({
+      PatNum: entry.patient_id,
+      AptDateTime: start !== null ? formatLocalDateTime(start) : offer.slot_datetime,
+      ProvNum: offer.provider_id,
+      Op: offer.operatory_id,
+      lengthMinutes: offer.duration_minutes,
+      TreatmentCode: entry.treatment_code || undefined,
+      AppointmentType: entry.appointment_type || undefined,
+      organization_id: offer.organization_id,
+      __syncContext: { channel: 'waitlist' },
+    }, db);
+
+    await db.from('waitlist_offers').update({ appointment_id: appointment.AptNum }).eq('id', offer.id);
+    await setEntryStatus(db, entry.id, 'booked', { booked_appointment_id: appointment.AptNum });
+
+    return {
+      success: true,
+      message: `You're booked for ${start !== null ? describeSlotTime(start) : offer.slot_datetime}. See you then!`,
+      appointmentId: appointment.AptNum,
+    };
+  } catch (error: any) {
+    console.warn(`[Waitlist] Booking offer ${offer.id} failed:`, error.message);
+    await db.from('waitlist_offers').update({ status: 'unavailable', error: error.message }).eq('id', offer.id);
+    await setEntryStatus(db, entry.id, 'waiting');
+    return {
+      success: false,
+      message: "Sorry, that slot was just taken. You're still on the waitlist and we'll let you know about the next opening.",
+    };
+  }
+}
+
+/**
+ * Expire overdue offers (passing their slots on) and entries past date_until.
+ * Runs from the waitlist worker, and lazily from the waitlist page and claim flow.
+ */
+export async function processWaitlist(db: any, organizationId: string): Promise<WaitlistProcessResult> {
+  const result: WaitlistProcessResult = { expiredOffers: 0, expiredEntries: 0, newOffers: 0 };
+
+  const { data: overdue, error } = await db
+    .from('waitlist_offers')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('status', 'pending')
+    .lt('expires_at', new Date().toISOString())
+    .order('expires_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load waitlist offers: ${error.message}`);
+  }
+
+  for (const offer of overdue || []) {
+    const outcome = await closeOffer(db, offer, 'expired');
+    if (!outcome.success) continue;
+    result.expiredOffers++;
+    if (outcome.nextOffer) result.newOffers++;
+  }
+
+  const { timezone } = await getOrganizationSlotSettings(db, organizationId);
+  const today = formatLocalDate(instantToLocalMinutes(new Date(), timezone));
+  const { data: stale } = await db
+    .from('waitlist_entries')
+    .update({ status: 'expired' })
+    .eq('organization_id', organizationId)
+    .eq('status', 'waiting')
+    .lt('date_until', today)
+    .select('id');
+  result.expiredEntries = stale?.length || 0;
+
+  return result;
+}
+
+/**
+ * Worker entry point: every organization with a pending offer or a waiting
+ * entry. One organization failing doesn't stop the others.
+ */
+export async function processAllWaitlists(): Promise<WaitlistProcessResult> {
+  const total: WaitlistProcessResult = { expiredOffers: 0, expiredEntries: 0, newOffers: 0 };
+  const supabase = getSupabaseAdmin();
+
+  const [{ data: offers, error: offersError }, { data: entries, error: entriesError }] = await Promise.all([
+    supabase.from('waitlist_offers').select('organization_id').eq('status', 'pending'),
+    supabase.from('waitlist_entries').select('organization_id').eq('status', 'waiting'),
+  ]);
+
+  if (offersError || entriesError) {
+    throw new Error(`Failed to load waitlists: ${(offersError || entriesError)?.message}`);
+  }
+
+  const organizationIds = Array.from(new Set<string>(
+    [...(offers || []), ...(entries || [])].map((row: any) => row.organization_id)
+  ));
+  for (const organizationId of organizationIds) {
+    try {
+      const db = await getSupabaseWithOrg(organizationId);
+      const result = await processWaitlist(db, organizationId);
+      total.expiredOffers += result.expiredOffers;
+      total.expiredEntries += result.expiredEntries;
+      total.newOffers += result.newOffers;
+    } catch (orgError: any) {
+      console.error(`[Waitlist] Run failed for organization ${organizationId}:`, orgError.message);
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Look up an offer by its claim token (public claim page, no org context yet)
+ */
+export async function getOfferByToken(token: string): Promise<WaitlistOfferRow | null> {
+  if (!token || !/^[a-f0-9]{16,64}$/i.test(token)) return null;
+
+  const { data } = await getSupabaseAdmin()
+    .from('waitlist_offers')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+  return data || null;
+}
+
+/**
+ * Handle an inbound "YES 4821" / "NO" reply. Returns the text to send back, or
+ * null when the message isn't a waitlist reply and should go to the agent.
+ */
+export async function handleWaitlistReply(
+  organizationId: string,
+  from: string,
+  text: string
+): Promise<string | null> {
+  const reply = parseOfferReply(text);
+  if (!reply) return null;
+
+  const db = await getSupabaseWithOrg(organizationId);
+  const { data: offers, error } = await db
+    .from('waitlist_offers')
+    .select('*, waitlist_entries(contact_phone, patients(phone))')
+    .eq('organization_id', organizationId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error || !offers) return null;
+
+  const mine = offers.filter((offer: any) =>
+    phonesMatch(offer.waitlist_entries?.contact_phone || offer.waitlist_entries?.patients?.phone, from)
+  );
+  if (mine.length === 0) return null;
+
+  const offer = reply.code
+    ? mine.find((candidate: any) => candidate.reply_code === reply.code)
+    : mine.length === 1 ? mine[0] : null;
+
+  if (!offer) {
+    return reply.code
+      ? `We couldn't find an open offer with code ${reply.code}.`
+      : `You have more than one open offer. Please reply YES or NO followed by the code, e.g. YES ${mine[0].reply_code}.`;
+  }
+
+  const outcome = reply.accept
+    ? await acceptOffer(db, offer)
+    : await closeOffer(db, offer, 'declined');
+  return outcome.message;
+}
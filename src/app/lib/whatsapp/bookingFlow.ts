@@ -0,0 +1,91 @@
+/**
+ * WhatsApp Tap-to-Book State
+ *
+ * Remembers, per WhatsApp conversation, the slots last offered as a list and
+ * the slot the patient picked (whatsapp_conversations.metadata.booking), and
+ * books the picked slot once the patient taps Confirm.
+ */
+
+import { getSupabaseAdmin, getSupabaseWithOrg } from '../supabaseClient';
+import { findPatientIdByPhone } from './media';
+import type { BookedAppointment, OfferedSlot } from './interactive';
+
+export interface BookingFlowState {
+  slots: OfferedSlot[];
+  selected: OfferedSlot | null;
+}
+
+const EMPTY_STATE: BookingFlowState = { slots: [], selected: null };
+
+export async function getBookingFlowState(whatsappConversationId: string): Promise<BookingFlowState> {
+  const { data } = await getSupabaseAdmin()
+    .from('whatsapp_conversations')
+    .select('metadata')
+    .eq('id', whatsappConversationId)
+    .maybeSingle();
+
+  const booking = data?.metadata?.booking;
+  return {
+    slots: Array.isArray(booking?.slots) ? booking.slots : [],
+    selected: booking?.selected || null,
+  };
+}
+
+/**
+ * Merge into the stored state (other metadata keys are kept)
+ */
+export async function saveBookingFlowState(
+  whatsappConversationId: string,
+  update: Partial<BookingFlowState>
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('whatsapp_conversations')
+    .select('metadata')
+    .eq('id', whatsappConversationId)
+    .maybeSingle();
+
+  const metadata = data?.metadata || {};
+  const booking = { ...EMPTY_STATE, ...(metadata.booking || {}), ...update };
+
+  const { error } = await supabase
+    .from('whatsapp_conversations')
+    .update({ metadata: { ...metadata, booking } })
+    .eq('id', whatsappConversationId);
+
+  if (error) {
+    console.error('[WhatsApp Booking] Failed to save state:', error.message);
+  }
+}
+
+export async function clearBookingFlowState(whatsappConversationId: string): Promise<void> {
+  await saveBookingFlowState(whatsappConversationId, EMPTY_STATE);
+}
+
+/**
+ * Book the picked slot for the patient whose phone matches the sender.
+ * Returns null when the patient isn't known yet (the agent then collects
+ * their details and books); booking errors (e.g. the slot was just taken) throw.
+ */
+export async function bookSelectedSlot(
+  organizationId: string,
+  remoteJid: string,
+  slot: OfferedSlot
+): Promise<BookedAppointment | null> {
+  const patientId = await findPatientIdByPhone(organizationId, remoteJid);
+  if (!patientId) return null;
+
+  const db = await getSupabaseWithOrg(organizationId);
+  const { CreateAppointment } = await import('@/app/api/booking/functions/appointments');
+  const result = await CreateAppointment({
+    PatNum: patientId,
+    AptDateTime: slot.DateTimeStart,
+    ProvNum: slot.ProvNum,
+    Op: slot.OpNum,
+    lengthMinutes: slot.LengthMinutes,
+    organization_id: organizationId,
+  }, db);
+
+  console.log(`[WhatsApp Booking] Booked appointment ${result.AptNum} for patient ${patientId} at ${slot.DateTimeStart}`);
+  return result as BookedAppointment;
+}
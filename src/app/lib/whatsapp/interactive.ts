@@ -0,0 +1,194 @@
+/**
+ * Interactive WhatsApp Booking
+ *
+ * Pure helpers for booking with taps: available slots become a list message,
+ * a picked slot is confirmed with buttons, and the patient's tap (or the
+ * number they typed against the text fallback) is read back into a
+ * structured selection. Slots and bookings are taken from the tool results
+ * of the agent's turn, so the agent still decides what to offer.
+ */
+
+import type { EvolutionMessageUpsert } from '../evolution/types';
+import { describeReminderTime } from '../reminders/templates';
+import { parseLocalDateTime } from '../scheduling/intervals';
+
+/** WhatsApp allows at most 10 rows in a list message */
+export const MAX_LIST_ROWS = 10;
+const MAX_ROWS_PER_DAY = 5;
+
+export const BOOKING_BUTTONS = {
+  confirm: 'booking:confirm',
+  change: 'booking:change',
+} as const;
+
+/** A slot as returned by GetAvailableSlots */
+export interface OfferedSlot {
+  DateTimeStart: string;
+  ProvNum: number;
+  OpNum: number;
+  LengthMinutes?: number;
+  ProviderName?: string;
+}
+
+/** An appointment as returned by CreateAppointment / UpdateAppointment */
+export interface BookedAppointment {
+  AptNum: number;
+  AptDateTime: string;
+  ProvNum?: number;
+  Op?: number;
+  Note?: string;
+  LengthMinutes?: number;
+}
+
+export type InteractiveSelection =
+  | { type: 'slot'; slot: OfferedSlot }
+  | { type: 'confirm' }
+  | { type: 'change' };
+
+export interface ListSection {
+  title: string;
+  rows: Array<{ id: string; title: string; description?: string }>;
+}
+
+/**
+ * Row id carrying everything needed to book: slot:<YYYYMMDDHHmm>:<ProvNum>:<OpNum>
+ */
+export function slotRowId(slot: OfferedSlot): string {
+  const stamp = slot.DateTimeStart.replace(/\D/g, '').slice(0, 12);
+  return `slot:${stamp}:${slot.ProvNum}:${slot.OpNum}`;
+}
+
+export function parseSlotRowId(rowId: string | null | undefined): Pick<OfferedSlot, 'DateTimeStart' | 'ProvNum' | 'OpNum'> | null {
+  const match = /^slot:(\d{4})(\d{2})(\d{2})(\d{2})(\d{2}):(\d+):(\d+)$/.exec(String(rowId || ''));
+  if (!match) return null;
+  const [, y, mo, d, h, mi, prov, op] = match;
+  return {
+    DateTimeStart: `${y}-${mo}-${d} ${h}:${mi}:00`,
+    ProvNum: Number(prov),
+    OpNum: Number(op),
+  };
+}
+
+/**
+ * "Tue, Oct 21" / "9:30 AM" for a slot or appointment start
+ */
+export function describeSlot(dateTime: string, language = 'en'): { date: string; time: string } {
+  const minutes = parseLocalDateTime(dateTime);
+  if (minutes === null) return { date: dateTime, time: '' };
+  return describeReminderTime(minutes, language);
+}
+
+/**
+ * Group slots by day for a list message. Days are capped so one busy
+ * morning doesn't crowd out the rest of the week.
+ */
+export function buildSlotListSections(slots: OfferedSlot[], language = 'en'): ListSection[] {
+  const sections: ListSection[] = [];
+  let total = 0;
+
+  for (const slot of slots) {
+    if (total >= MAX_LIST_ROWS) break;
+
+    const { date, time } = describeSlot(slot.DateTimeStart, language);
+    let section = sections.find(s => s.title === date);
+    if (!section) {
+      section = { title: date, rows: [] };
+      sections.push(section);
+    }
+    if (section.rows.length >= MAX_ROWS_PER_DAY) continue;
+
+    section.rows.push({ id: slotRowId(slot), title: time, description: slot.ProviderName || undefined });
+    total++;
+  }
+
+  return sections;
+}
+
+/**
+ * The slots actually shown in a list, in display order (for numbered replies)
+ */
+export function listedSlots(slots: OfferedSlot[], sections: ListSection[]): OfferedSlot[] {
+  const ids = sections.flatMap(section => section.rows.map(row => row.id));
+  return ids
+    .map(id => slots.find(slot => slotRowId(slot) === id))
+    .filter((slot): slot is OfferedSlot => Boolean(slot));
+}
+
+/**
+ * Read a list/button tap (or "2" typed against the numbered fallback) into a selection
+ */
+export function parseInteractiveSelection(
+  messageData: EvolutionMessageUpsert,
+  offeredSlots: OfferedSlot[] = []
+): InteractiveSelection | null {
+  const message = messageData.message;
+  if (!message) return null;
+
+  const rowId = message.listResponseMessage?.singleSelectReply?.selectedRowId;
+  if (rowId) {
+    const parsed = parseSlotRowId(rowId);
+    if (!parsed) return null;
+    const offered = offeredSlots.find(slot => slotRowId(slot) === rowId);
+    return { type: 'slot', slot: offered || parsed };
+  }
+
+  const buttonId = message.buttonsResponseMessage?.selectedButtonId;
+  if (buttonId === BOOKING_BUTTONS.confirm) return { type: 'confirm' };
+  if (buttonId === BOOKING_BUTTONS.change) return { type: 'change' };
+
+  const text = (message.conversation || message.extendedTextMessage?.text || '').trim();
+  if (offeredSlots.length > 0 && /^\d{1,2}$/.test(text)) {
+    const slot = offeredSlots[Number(text) - 1];
+    if (slot) return { type: 'slot', slot };
+  }
+
+  return null;
+}
+
+/**
+ * Self-contained request for the agent when a tap can't be handled directly
+ */
+export function selectionPrompt(selection: InteractiveSelection, slot?: OfferedSlot | null): string {
+  if (selection.type === 'change') {
+    return "I'd like a different time.";
+  }
+
+  const target = selection.type === 'slot' ? selection.slot : slot;
+  if (!target) {
+    return selection.type === 'confirm' ? 'Yes, please book it.' : "I'd like a different time.";
+  }
+
+  const { date, time } = describeSlot(target.DateTimeStart);
+  return `I'd like to book ${date} at ${time}` +
+    `${target.ProviderName ? ` with ${target.ProviderName}` : ''} ` +
+    `(AptDateTime ${target.DateTimeStart}, ProvNum ${target.ProvNum}, Op ${target.OpNum}).`;
+}
+
+/**
+ * Tool outputs the agent produced this turn: the last slot search and the
+ * last booking / reschedule, if any
+ */
+export function readToolResults(items: any[]): { slots: OfferedSlot[] | null; booked: BookedAppointment | null } {
+  let slots: OfferedSlot[] | null = null;
+  let booked: BookedAppointment | null = null;
+
+  for (const item of items) {
+    if (item?.type !== 'function_call_output') continue;
+
+    let output: any;
+    try {
+      output = typeof item.output === 'string' ? JSON.parse(item.output) : item.output;
+    } catch {
+      continue;
+    }
+    if (!output || output.error) continue;
+
+    if (item.name === 'GetAvailableSlots' && Array.isArray(output)) {
+      slots = output.filter(slot => slot?.DateTimeStart && slot.ProvNum && slot.OpNum);
+    } else if ((item.name === 'CreateAppointment' || item.name === 'UpdateAppointment') && output.AptNum && output.AptDateTime) {
+      booked = output as BookedAppointment;
+    }
+  }
+
+  return { slots, booked };
+}
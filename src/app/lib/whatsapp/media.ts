@@ -0,0 +1,245 @@
+/**
+ * WhatsApp Media (voice notes and images)
+ *
+ * Downloads media a patient sent through Evolution API, keeps the file in the
+ * private message-attachments bucket and records it in message_attachments,
+ * linked to the conversation and, when the phone matches, the patient.
+ * Voice notes are transcribed so the agent can answer them like text.
+ */
+
+import { getOpenAIKey } from '../credentialLoader';
+import { getEvolutionClient } from '../evolution/EvolutionClient';
+import { EvolutionMessageUpsert } from '../evolution/types';
+import { normalizePhone, phonesMatch } from '../messaging/outbound';
+import { transcribeAudioBuffer } from '../speechToText';
+import { getSupabaseAdmin } from '../supabaseClient';
+
+export type MediaKind = 'audio' | 'image';
+
+export const ATTACHMENTS_BUCKET = 'message-attachments';
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/amr': 'amr',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+export interface DownloadedMedia {
+  kind: MediaKind;
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+  caption?: string;
+}
+
+export interface MessageAttachment {
+  id: string;
+  conversation_id: string | null;
+  whatsapp_message_id: string | null;
+  patient_id: number | null;
+  media_type: MediaKind;
+  mime_type: string | null;
+  file_name: string | null;
+  size_bytes: number | null;
+  storage_path: string;
+  caption: string | null;
+  transcript: string | null;
+  sender: string | null;
+  created_at: string;
+  /** Signed download URL, added when listing for the admin */
+  url?: string | null;
+}
+
+export interface SaveAttachmentParams {
+  organizationId: string;
+  conversationId: string;
+  whatsappMessageId: string | null;
+  messageId: string;
+  sender: string;
+  media: DownloadedMedia;
+  transcript?: string | null;
+}
+
+/**
+ * Voice note / audio file or image; anything else isn't handled as media
+ */
+export function getMediaKind(messageData: EvolutionMessageUpsert): MediaKind | null {
+  if (messageData.message?.audioMessage) return 'audio';
+  if (messageData.message?.imageMessage) return 'image';
+  return null;
+}
+
+/**
+ * "audio/ogg; codecs=opus" -> "ogg"
+ */
+export function extensionForMimeType(mimeType: string | null | undefined): string {
+  const base = String(mimeType || '').split(';')[0].trim().toLowerCase();
+  return EXTENSIONS[base] || base.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin';
+}
+
+/**
+ * Object key: <org>/<conversation>/<message id>.<ext>
+ */
+export function attachmentStoragePath(
+  organizationId: string,
+  conversationId: string,
+  messageId: string,
+  mimeType: string | null | undefined
+): string {
+  const safeId = messageId.replace(/[^A-Za-z0-9_-]/g, '') || `${Date.now()}`;
+  return `${organizationId}/${conversationId}/${safeId}.${extensionForMimeType(mimeType)}`;
+}
+
+/**
+ * Fetch the decrypted file for a received media message
+ */
+export async function downloadWhatsAppMedia(
+  instanceName: string,
+  messageData: EvolutionMessageUpsert
+): Promise<DownloadedMedia | null> {
+  const kind = getMediaKind(messageData);
+  if (!kind) return null;
+
+  const details = kind === 'audio' ? messageData.message?.audioMessage : messageData.message?.imageMessage;
+  const media = await getEvolutionClient().getBase64FromMediaMessage(instanceName, messageData.key.id);
+  if (!media?.base64) {
+    throw new Error(`Evolution API returned no data for ${kind} message ${messageData.key.id}`);
+  }
+
+  const mimeType = media.mimetype || details?.mimetype || (kind === 'audio' ? 'audio/ogg' : 'image/jpeg');
+  return {
+    kind,
+    buffer: Buffer.from(media.base64, 'base64'),
+    mimeType,
+    fileName: media.fileName || `${messageData.key.id}.${extensionForMimeType(mimeType)}`,
+    caption: messageData.message?.imageMessage?.caption || undefined,
+  };
+}
+
+/**
+ * Transcribe a voice note with the organization's OpenAI key.
+ * No language is passed so Whisper detects it (patients write in several).
+ */
+export async function transcribeVoiceNote(organizationId: string, media: DownloadedMedia): Promise<string> {
+  const apiKey = await getOpenAIKey(organizationId);
+  const text = await transcribeAudioBuffer(media.buffer, {
+    // Whisper picks the decoder from the extension; WhatsApp voice notes are opus in ogg
+    fileName: `voice-note.${extensionForMimeType(media.mimeType)}`,
+    mimeType: media.mimeType.split(';')[0],
+    apiKey,
+  });
+  return text.trim();
+}
+
+/**
+ * Patient whose phone matches the sender, if exactly one does
+ */
+export async function findPatientIdByPhone(organizationId: string, phone: string): Promise<number | null> {
+  const digits = normalizePhone(phone);
+  if (digits.length < 7) return null;
+
+  const { data } = await getSupabaseAdmin()
+    .from('patients')
+    .select('id, phone')
+    .eq('organization_id', organizationId)
+    .ilike('phone', `%${digits.slice(-4)}%`)
+    .limit(50);
+
+  const matches = (data || []).filter((row: { phone: string | null }) => phonesMatch(row.phone, phone));
+  return matches.length === 1 ? matches[0].id : null;
+}
+
+/**
+ * message_attachments row for a stored file
+ */
+export function buildAttachmentRow(params: SaveAttachmentParams, storagePath: string, patientId: number | null) {
+  const { organizationId, conversationId, whatsappMessageId, sender, media, transcript } = params;
+  return {
+    organization_id: organizationId,
+    conversation_id: conversationId,
+    whatsapp_message_id: whatsappMessageId,
+    patient_id: patientId,
+    channel: 'whatsapp',
+    media_type: media.kind,
+    mime_type: media.mimeType,
+    file_name: media.fileName,
+    size_bytes: media.buffer.length,
+    storage_path: storagePath,
+    caption: media.caption || null,
+    transcript: transcript || null,
+    sender: normalizePhone(sender),
+  };
+}
+
+/**
+ * Upload the file and record it against the conversation (and patient)
+ */
+export async function saveAttachment(params: SaveAttachmentParams): Promise<MessageAttachment | null> {
+  const { organizationId, conversationId, messageId, sender, media } = params;
+  const supabase = getSupabaseAdmin();
+  const storagePath = attachmentStoragePath(organizationId, conversationId, messageId, media.mimeType);
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(storagePath, media.buffer, { contentType: media.mimeType, upsert: true });
+
+  if (uploadError) {
+    console.error('[WhatsApp Media] Upload failed:', uploadError.message);
+    return null;
+  }
+
+  const patientId = await findPatientIdByPhone(organizationId, sender);
+
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .insert(buildAttachmentRow(params, storagePath, patientId))
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[WhatsApp Media] Failed to record attachment:', error.message);
+    return null;
+  }
+
+  console.log(`[WhatsApp Media] Stored ${media.kind} ${storagePath}${patientId ? ` for patient ${patientId}` : ''}`);
+  return data as MessageAttachment;
+}
+
+/**
+ * Add short-lived download URLs (the bucket is private)
+ */
+export async function withSignedUrls(attachments: MessageAttachment[]): Promise<MessageAttachment[]> {
+  if (attachments.length === 0) return attachments;
+
+  const { data, error } = await getSupabaseAdmin().storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(attachments.map(a => a.storage_path), SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('[WhatsApp Media] Failed to sign attachment URLs:', error.message);
+    return applySignedUrls(attachments, []);
+  }
+
+  return applySignedUrls(attachments, data || []);
+}
+
+/**
+ * Match signed URLs back to attachments by storage path; unsigned ones get url null
+ */
+export function applySignedUrls(
+  attachments: MessageAttachment[],
+  signed: Array<{ path: string | null; signedUrl: string }>
+): MessageAttachment[] {
+  const urls = new Map(signed.map(item => [item.path, item.signedUrl]));
+  return attachments.map(a => ({ ...a, url: urls.get(a.storage_path) || null }));
+}
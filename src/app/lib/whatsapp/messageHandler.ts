@@ -15,7 +15,39 @@ import { getEvolutionClient } from '../evolution/EvolutionClient';
 import { EvolutionMessageUpsert } from '../evolution/types';
 import { callLexiWhatsApp, generateLexiInstructions } from '@/app/agentConfigs/embeddedBooking/lexiAgentWhatsApp';
 import { getOrganizationInstructions } from '../agentMode';
-import { getChannelConfig, getModelFromBackend, type ChannelConfig } from '../channelConfigLoader';
+import { getChannelConfig, getModelFromBackend, getTextRouting, type ChannelConfig } from '../channelConfigLoader';
+import { handleWaitlistReply } from '../waitlist/offers';
+import { handleReminderReply } from '../reminders/reminders';
+import { escalateThread, noteInboundMessage, readEscalation } from '../inbox/handoff';
+import { getAgentBlockReason } from '../billing/entitlements';
+import {
+  bookSelectedSlot,
+  clearBookingFlowState,
+  getBookingFlowState,
+  saveBookingFlowState,
+  type BookingFlowState,
+} from './bookingFlow';
+import { formatAppointmentCard, formatButtons, formatConfirmation } from './formatters';
+import {
+  BOOKING_BUTTONS,
+  buildSlotListSections,
+  describeSlot,
+  listedSlots,
+  parseInteractiveSelection,
+  readToolResults,
+  selectionPrompt,
+  slotRowId,
+  type BookedAppointment,
+  type InteractiveSelection,
+  type OfferedSlot,
+} from './interactive';
+import {
+  downloadWhatsAppMedia,
+  getMediaKind,
+  saveAttachment,
+  transcribeVoiceNote,
+  type MediaKind,
+} from './media';
 
 // ============================================================================
 // TYPES
@@ -69,26 +101,95 @@ export class WhatsAppMessageHandler {
         return { success: true }; // Silently ignore
       }
 
-      // Extract message text
-      const messageText = this.extractMessageText(messageData);
+      // Voice notes and images are handled below; other media is still skipped
+      const mediaKind = getMediaKind(messageData);
+      const text = mediaKind ? null : this.extractMessageText(messageData);
       
+      if (!mediaKind && !text) {
+        console.log('⏭️ Skipping unsupported message');
+        return { success: true };
+      }
+
+      // Show typing indicator
+      await this.evolutionClient.sendTyping(instanceName, remoteJid);
+
+      // Media is stored (with transcript / attachment) while it's read
+      const messageText = mediaKind
+        ? await this.receiveMedia(context, messageData, mediaKind)
+        : text;
+
       if (!messageText) {
-        console.log('⏭️ Skipping non-text message');
-        return { success: true }; // Skip media messages for now
+        return { success: true };
       }
 
+      if (!mediaKind) {
+        // Store incoming message
+        await this.storeMessage(context, messageData, 'inbound', messageText);
+      }
+
+      // Staff have taken over this thread (claimed or escalated)
+      const aiPaused = await noteInboundMessage(organizationId, conversationId);
+
       console.log(`📨 Processing WhatsApp message: "${messageText.substring(0, 50)}..."`);
       console.log(`📋 Using AI backend: ${channelConfig.ai_backend}`);
       console.log(`📋 Data integrations: ${channelConfig.data_integrations.join(', ') || 'none'}`);
 
-      // Show typing indicator
-      await this.evolutionClient.sendTyping(instanceName, remoteJid);
+      // "YES 4821" / "NO 4821" answers a waitlist slot offer
+      const waitlistResponse = await handleWaitlistReply(organizationId, remoteJid, messageText);
+      if (waitlistResponse) {
+        await this.evolutionClient.sendTextMessage(instanceName, {
+          number: remoteJid,
+          text: waitlistResponse,
+        });
+        await this.storeMessage(context, null, 'outbound', waitlistResponse);
+        return { success: true, response: waitlistResponse };
+      }
 
-      // Store incoming message
-      await this.storeMessage(context, messageData, 'inbound', messageText);
+      // Confirm / Reschedule / Cancel button (or keyword) answering an appointment reminder
+      const reminderResponse = await handleReminderReply(
+        organizationId,
+        remoteJid,
+        messageText,
+        messageData.message?.buttonsResponseMessage?.selectedButtonId
+      );
+      if (reminderResponse) {
+        await this.evolutionClient.sendTextMessage(instanceName, {
+          number: remoteJid,
+          text: reminderResponse,
+        });
+        await this.storeMessage(context, null, 'outbound', reminderResponse);
+        return { success: true, response: reminderResponse };
+      }
+
+      if (aiPaused) {
+        console.log(`🙋 Conversation ${conversationId} is with staff, not replying`);
+        return { success: true };
+      }
+
+      // Plan hard limits (expired trial, quota used up) hand the thread to staff
+      const agentBlockReason = await getAgentBlockReason(organizationId);
+      if (agentBlockReason) {
+        console.log(`🚫 ${agentBlockReason}, handing conversation ${conversationId} to staff`);
+        await escalateThread(organizationId, conversationId, agentBlockReason);
+        return { success: true };
+      }
+
+      // Tapped slot / Confirm / Other times (or a number typed against the slot list)
+      const flowState = await getBookingFlowState(context.whatsappConversationId);
+      const selection = parseInteractiveSelection(messageData, flowState.slots);
+      let agentMessage = messageText;
+      if (selection) {
+        const selectionResponse = await this.handleBookingSelection(context, selection, flowState);
+        if (selectionResponse) {
+          return { success: true, response: selectionResponse };
+        }
+        // Not handled directly (e.g. new patient): the agent takes it from here
+        agentMessage = selectionPrompt(selection, flowState.selected);
+      }
 
       // Get conversation history
       const history = await this.getConversationHistory(conversationId);
+      const historyLength = history.length;
 
       // Check if this is the first message
       const isFirstMessage = history.length === 0;
@@ -96,28 +197,44 @@ export class WhatsAppMessageHandler {
       // Get organization-specific instructions (with channel config override)
       const instructions = channelConfig.instructions || await this.getInstructions(organizationId);
 
-      // Get the model to use based on channel config
-      const model = getModelFromBackend(channelConfig.ai_backend);
+      // Get the model to use based on channel config (and what to fall back to)
+      const routing = getTextRouting(channelConfig);
+      const model = getModelFromBackend(routing.backend);
 
       // Generate AI response using Lexi with custom instructions and model
       const aiResponse = await callLexiWhatsApp(
-        messageText,
+        agentMessage,
         history,
         isFirstMessage,
         instructions,
         model, // Pass the configured model
-        channelConfig.data_integrations // Pass enabled data integrations
+        channelConfig.data_integrations, // Pass enabled data integrations
+        routing
       );
 
-      // Send response via WhatsApp
-      if (aiResponse) {
-        await this.evolutionClient.sendTextMessage(instanceName, {
-          number: remoteJid,
-          text: aiResponse,
-        });
+      // Send response via WhatsApp: slots the agent looked up become a list,
+      // an appointment it booked becomes a card (tool results are appended to history)
+      const escalationReason = readEscalation(history.slice(historyLength));
+      if (escalationReason !== null) {
+        await escalateThread(organizationId, conversationId, escalationReason);
+      }
 
-        // Store outgoing message
-        await this.storeMessage(context, null, 'outbound', aiResponse);
+      if (aiResponse) {
+        const { slots, booked } = readToolResults(history.slice(historyLength));
+
+        if (booked) {
+          await this.sendText(context, aiResponse);
+          await this.sendAppointmentCard(context, booked);
+          await clearBookingFlowState(context.whatsappConversationId);
+        } else if (slots && slots.length > 0) {
+          await this.sendSlotList(context, aiResponse, slots);
+        } else {
+          await this.sendText(context, aiResponse);
+          if (flowState.slots.length > 0 || flowState.selected) {
+            // The conversation moved on; a bare number no longer picks from the old list
+            await clearBookingFlowState(context.whatsappConversationId);
+          }
+        }
       }
 
       return {
@@ -144,6 +261,138 @@ export class WhatsAppMessageHandler {
     }
   }
 
+  /**
+   * Answer a tap on the slot list or the confirmation buttons without the
+   * agent where possible. Returns the reply sent, or null to hand over to the agent.
+   */
+  private async handleBookingSelection(
+    context: WhatsAppMessageContext,
+    selection: InteractiveSelection,
+    state: BookingFlowState
+  ): Promise<string | null> {
+    const { organizationId, remoteJid, whatsappConversationId } = context;
+
+    if (selection.type === 'slot') {
+      const slot = selection.slot;
+      const { date, time } = describeSlot(slot.DateTimeStart);
+      const text = `Book ${date} at ${time}${slot.ProviderName ? ` with ${slot.ProviderName}` : ''}?`;
+
+      await saveBookingFlowState(whatsappConversationId, { selected: slot });
+      await this.sendButtons(context, text, [
+        { id: BOOKING_BUTTONS.confirm, text: 'Confirm' },
+        { id: BOOKING_BUTTONS.change, text: 'Other times' },
+      ]);
+      return text;
+    }
+
+    if (selection.type === 'change') {
+      const selectedId = state.selected ? slotRowId(state.selected) : null;
+      const others = state.slots.filter(slot => slotRowId(slot) !== selectedId);
+      if (others.length === 0) return null;
+
+      const text = 'Here are the other available times:';
+      await this.sendSlotList(context, text, others);
+      return text;
+    }
+
+    // Confirm
+    if (!state.selected) return null;
+
+    let booked: BookedAppointment | null;
+    try {
+      booked = await bookSelectedSlot(organizationId, remoteJid, state.selected);
+    } catch (error: any) {
+      // Usually the slot was taken in the meantime; the agent looks for another
+      console.warn(`[WhatsApp Booking] Could not book ${state.selected.DateTimeStart}: ${error.message}`);
+      await clearBookingFlowState(whatsappConversationId);
+      return null;
+    }
+    if (!booked) return null;
+
+    await clearBookingFlowState(whatsappConversationId);
+    return await this.sendAppointmentCard(context, booked, state.selected);
+  }
+
+  /**
+   * Send and store a plain text reply
+   */
+  private async sendText(context: WhatsAppMessageContext, text: string): Promise<void> {
+    await this.evolutionClient.sendTextMessage(context.instanceName, {
+      number: context.remoteJid,
+      text,
+    });
+    await this.storeMessage(context, null, 'outbound', text);
+  }
+
+  /**
+   * Reply buttons, falling back to a numbered text list where the
+   * WhatsApp connection doesn't support interactive messages
+   */
+  private async sendButtons(
+    context: WhatsAppMessageContext,
+    text: string,
+    buttons: Array<{ id: string; text: string }>
+  ): Promise<void> {
+    try {
+      await this.evolutionClient.sendButtons(context.instanceName, context.remoteJid, text, buttons);
+      await this.storeMessage(context, null, 'outbound', `${text}\n${buttons.map(b => `[${b.text}]`).join(' ')}`);
+    } catch (error) {
+      console.warn('[WhatsApp] Buttons not delivered, sending text instead:', error);
+      await this.sendText(context, formatButtons(text, buttons));
+    }
+  }
+
+  /**
+   * Offer slots as a list message and remember them for the patient's pick
+   */
+  private async sendSlotList(context: WhatsAppMessageContext, text: string, slots: OfferedSlot[]): Promise<void> {
+    const sections = buildSlotListSections(slots);
+    const offered = listedSlots(slots, sections);
+    const numbered = formatButtons(text, offered.map(slot => {
+      const { date, time } = describeSlot(slot.DateTimeStart);
+      return { id: '', text: `${date} at ${time}${slot.ProviderName ? ` (${slot.ProviderName})` : ''}` };
+    }));
+
+    try {
+      await this.evolutionClient.sendList(
+        context.instanceName,
+        context.remoteJid,
+        'Available times',
+        'Choose a time',
+        sections,
+        text
+      );
+      await this.storeMessage(context, null, 'outbound', numbered);
+    } catch (error) {
+      console.warn('[WhatsApp] List not delivered, sending numbered times instead:', error);
+      await this.sendText(context, numbered);
+    }
+
+    await saveBookingFlowState(context.whatsappConversationId, { slots: offered, selected: null });
+  }
+
+  /**
+   * Appointment card for a booking (or reschedule)
+   */
+  private async sendAppointmentCard(
+    context: WhatsAppMessageContext,
+    appointment: BookedAppointment,
+    slot?: OfferedSlot
+  ): Promise<string> {
+    const { date, time } = describeSlot(appointment.AptDateTime);
+    const card = formatConfirmation('booked', formatAppointmentCard({
+      id: String(appointment.AptNum),
+      date,
+      time,
+      provider: slot?.ProviderName,
+      service: appointment.Note || undefined,
+      duration: appointment.LengthMinutes || slot?.LengthMinutes,
+    }));
+
+    await this.sendText(context, card);
+    return card;
+  }
+
   /**
    * Get organization-specific instructions for WhatsApp
    */
@@ -165,6 +414,61 @@ export class WhatsAppMessageHandler {
     }
   }
 
+  /**
+   * Download a voice note or image, keep it as an attachment and store the
+   * incoming message. Returns the text the agent should answer: the voice
+   * note's transcript, or a note that a photo was sent (plus its caption).
+   * Returns null when the voice note couldn't be read (the patient is asked to type).
+   */
+  private async receiveMedia(
+    context: WhatsAppMessageContext,
+    messageData: EvolutionMessageUpsert,
+    kind: MediaKind
+  ): Promise<string | null> {
+    const { instanceName, organizationId, remoteJid, conversationId } = context;
+
+    let media: Awaited<ReturnType<typeof downloadWhatsAppMedia>> = null;
+    let transcript: string | null = null;
+    try {
+      media = await downloadWhatsAppMedia(instanceName, messageData);
+      if (media && kind === 'audio') {
+        transcript = await transcribeVoiceNote(organizationId, media);
+      }
+    } catch (error) {
+      console.error(`❌ Error reading WhatsApp ${kind} message:`, error);
+    }
+
+    if (kind === 'audio' && !transcript) {
+      const reply = "Sorry, I couldn't understand that voice message. Could you type your message instead?";
+      await this.storeMessage(context, messageData, 'inbound', '[Voice message]', { type: 'audio' });
+      await this.evolutionClient.sendTextMessage(instanceName, { number: remoteJid, text: reply });
+      await this.storeMessage(context, null, 'outbound', reply);
+      return null;
+    }
+
+    const caption = messageData.message?.imageMessage?.caption?.trim() || null;
+    const text = transcript || (caption ? `[Sent a photo] ${caption}` : '[Sent a photo]');
+
+    const whatsappMessageId = await this.storeMessage(context, messageData, 'inbound', text, {
+      type: kind,
+      caption,
+    });
+
+    if (media) {
+      await saveAttachment({
+        organizationId,
+        conversationId,
+        whatsappMessageId,
+        messageId: messageData.key.id,
+        sender: remoteJid,
+        media,
+        transcript,
+      });
+    }
+
+    return text;
+  }
+
   /**
    * Extract text from WhatsApp message
    */
@@ -177,6 +481,20 @@ export class WhatsAppMessageHandler {
     if (message.conversation) {
       return message.conversation;
     }
+
+    if (message.extendedTextMessage?.text) {
+      return message.extendedTextMessage.text;
+    }
+
+    // Tapped quick-reply button: the label is the text, the id is read separately
+    if (message.buttonsResponseMessage) {
+      return message.buttonsResponseMessage.selectedDisplayText || message.buttonsResponseMessage.selectedButtonId;
+    }
+
+    // Picked list row: same, the row id is read separately
+    if (message.listResponseMessage) {
+      return message.listResponseMessage.title || message.listResponseMessage.singleSelectReply?.selectedRowId || null;
+    }
     
     // Extended text message (with formatting, links, etc.)
     if (message.imageMessage?.caption) {
@@ -201,8 +519,9 @@ export class WhatsAppMessageHandler {
     context: WhatsAppMessageContext,
     messageData: EvolutionMessageUpsert | null,
     direction: 'inbound' | 'outbound',
-    textContent: string
-  ): Promise<void> {
+    textContent: string,
+    media?: { type: MediaKind; caption?: string | null }
+  ): Promise<string | null> {
     try {
       const { data: message, error } = await this.supabase
         .from('whatsapp_messages')
@@ -213,8 +532,9 @@ export class WhatsAppMessageHandler {
           message_id: messageData?.key?.id,
           remote_jid: context.remoteJid,
           direction,
-          message_type: 'text',
+          message_type: media?.type || 'text',
           text_content: textContent,
+          caption: media?.caption || null,
           status: direction === 'outbound' ? 'sent' : 'read',
           raw_payload: messageData || {},
           sent_at: new Date().toISOString(),
@@ -232,10 +552,14 @@ export class WhatsAppMessageHandler {
       await this.storeInConversationMessages(
         context.conversationId,
         direction === 'inbound' ? 'user' : 'assistant',
-        textContent
+        textContent,
+        media?.type
       );
+
+      return message?.id || null;
     } catch (error) {
       console.error('❌ Error in storeMessage:', error);
+      return null;
     }
   }
 
@@ -245,7 +569,8 @@ export class WhatsAppMessageHandler {
   private async storeInConversationMessages(
     conversationId: string,
     role: 'user' | 'assistant',
-    content: string
+    content: string,
+    mediaType?: MediaKind
   ): Promise<void> {
     try {
       const { error } = await this.supabase
@@ -256,6 +581,7 @@ export class WhatsAppMessageHandler {
           content,
           metadata: {
             channel: 'whatsapp',
+            ...(mediaType ? { media_type: mediaType } : {}),
           },
         });
 
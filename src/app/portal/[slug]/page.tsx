@@ -0,0 +1,411 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface PortalAppointment {
+  aptNum: number;
+  dateTime: string;
+  lengthMinutes: number;
+  providerName: string;
+  description: string;
+  canReschedule: boolean;
+  canCancel: boolean;
+  lockedReason?: string;
+}
+
+interface PortalTreatmentPlan {
+  id: string;
+  createdAt: string;
+  totalPrice: number;
+  totalDuration: number;
+  treatments: Array<{ toothFdi: string; treatmentName: string; price: number; status: string }>;
+}
+
+interface PortalOverview {
+  organization: { name: string; slug: string };
+  patient: { firstName: string; lastName: string; phone: string; email: string };
+  appointments: PortalAppointment[];
+  treatmentPlans: PortalTreatmentPlan[];
+}
+
+interface PortalSlot {
+  dateTime: string;
+  providerId: number;
+  operatoryId: number;
+  providerName: string;
+}
+
+/** "YYYY-MM-DD HH:mm:ss" is office wall-clock time: show it as-is */
+function formatWhen(dateTime: string): string {
+  const date = new Date(dateTime.replace(' ', 'T'));
+  return date.toLocaleString([], { weekday: 'long', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function formatTime(dateTime: string): string {
+  return new Date(dateTime.replace(' ', 'T')).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function todayString(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Public patient portal: sign in with a magic link, then manage appointments,
+ * contact details and view approved treatment plans
+ */
+export default function PatientPortalPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const [overview, setOverview] = useState<PortalOverview | null>(null);
+  const [organizationName, setOrganizationName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [notice, setNotice] = useState<{ success: boolean; message: string } | null>(null);
+
+  // Sign-in form
+  const [contact, setContact] = useState('');
+  const [sending, setSending] = useState(false);
+
+  // Rescheduling
+  const [reschedulingId, setReschedulingId] = useState<number | null>(null);
+  const [slotDate, setSlotDate] = useState(todayString());
+  const [slots, setSlots] = useState<PortalSlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [slotsMessage, setSlotsMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Contact details
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+
+  const loadOverview = useCallback(async () => {
+    try {
+      const response = await fetch('/api/public/portal/me');
+      if (response.status === 401) {
+        setOverview(null);
+        const org = await fetch(`/api/public/org-lookup?slug=${encodeURIComponent(slug)}`).then(res => res.json());
+        setOrganizationName(org.name || '');
+        return;
+      }
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setOverview(data);
+      setOrganizationName(data.organization.name);
+      setPhone(data.patient.phone);
+      setEmail(data.patient.email);
+    } catch (err) {
+      console.error('Error loading portal:', err);
+      setNotice({ success: false, message: 'Could not load your account. Please try again.' });
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const requestLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/public/portal/link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slug, contact }),
+      });
+      const data = await response.json();
+      setNotice({ success: response.ok, message: data.message || data.error || 'Something went wrong' });
+    } catch (err) {
+      console.error('Error requesting sign-in link:', err);
+      setNotice({ success: false, message: 'Could not reach the office. Please try again.' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch('/api/public/portal/session', { method: 'DELETE' });
+    setOverview(null);
+    setNotice(null);
+  };
+
+  const loadSlots = async (aptNum: number, date: string) => {
+    setSlotsLoading(true);
+    setSlotsMessage('');
+    setSlots([]);
+    try {
+      const response = await fetch(`/api/public/portal/appointments/${aptNum}?date=${date}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setSlots(data.slots || []);
+      setSlotsMessage(data.message || (data.slots?.length ? '' : 'No open times that week. Try a later date.'));
+    } catch (err) {
+      console.error('Error loading times:', err);
+      setSlotsMessage('Could not load available times.');
+    } finally {
+      setSlotsLoading(false);
+    }
+  };
+
+  const startReschedule = (aptNum: number) => {
+    setReschedulingId(aptNum);
+    setNotice(null);
+    loadSlots(aptNum, slotDate);
+  };
+
+  const changeAppointment = async (aptNum: number, body: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/public/portal/appointments/${aptNum}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      setNotice({ success: !!data.success, message: data.message || data.error || 'Something went wrong' });
+      if (data.success) {
+        setReschedulingId(null);
+        await loadOverview();
+      }
+    } catch (err) {
+      console.error('Error updating appointment:', err);
+      setNotice({ success: false, message: 'Could not reach the office. Please try again.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancelAppointment = (appointment: PortalAppointment) => {
+    if (!confirm(`Cancel your appointment on ${formatWhen(appointment.dateTime)}?`)) return;
+    changeAppointment(appointment.aptNum, { action: 'cancel' });
+  };
+
+  const saveContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const response = await fetch('/api/public/portal/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone, email }),
+      });
+      const data = await response.json();
+      setNotice({ success: !!data.success, message: data.message || data.error || 'Something went wrong' });
+    } catch (err) {
+      console.error('Error saving contact details:', err);
+      setNotice({ success: false, message: 'Could not save your details. Please try again.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>{organizationName || 'Patient portal'}</CardTitle>
+            <CardDescription>
+              Enter the mobile number or email we have on file and we will send you a sign-in link.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={requestLink} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact">Mobile number or email</Label>
+                <Input
+                  id="contact"
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  placeholder="(619) 555-1234 or you@example.com"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={sending}>
+                {sending ? 'Sending...' : 'Send me a sign-in link'}
+              </Button>
+              {notice && (
+                <p className={notice.success ? 'text-sm text-green-700' : 'text-sm text-red-600'}>{notice.message}</p>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="mx-auto max-w-2xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{overview.organization.name}</h1>
+            <p className="text-gray-600">Hi {overview.patient.firstName}</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={signOut}>Sign out</Button>
+        </div>
+
+        {notice && (
+          <div className={`rounded-lg border p-3 text-sm ${notice.success ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-700'}`}>
+            {notice.message}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upcoming appointments</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {overview.appointments.length === 0 ? (
+              <p className="text-gray-500">You have no upcoming appointments.</p>
+            ) : overview.appointments.map((appointment) => (
+              <div key={appointment.aptNum} className="rounded-lg border bg-white p-4 space-y-3">
+                <div>
+                  <div className="font-semibold text-gray-900">{formatWhen(appointment.dateTime)}</div>
+                  <div className="text-sm text-gray-600">
+                    {appointment.providerName} · {appointment.lengthMinutes} min
+                    {appointment.description ? ` · ${appointment.description}` : ''}
+                  </div>
+                </div>
+
+                {appointment.canReschedule || appointment.canCancel ? (
+                  <div className="flex gap-2">
+                    {appointment.canReschedule && (
+                      <Button size="sm" variant="outline" disabled={busy} onClick={() => startReschedule(appointment.aptNum)}>
+                        Reschedule
+                      </Button>
+                    )}
+                    {appointment.canCancel && (
+                      <Button size="sm" variant="outline" disabled={busy} onClick={() => cancelAppointment(appointment)}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">{appointment.lockedReason}</p>
+                )}
+
+                {reschedulingId === appointment.aptNum && (
+                  <div className="border-t pt-3 space-y-3">
+                    <div className="flex items-end gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor={`date-${appointment.aptNum}`}>Week starting</Label>
+                        <Input
+                          id={`date-${appointment.aptNum}`}
+                          type="date"
+                          value={slotDate}
+                          min={todayString()}
+                          onChange={(e) => {
+                            setSlotDate(e.target.value);
+                            if (e.target.value) loadSlots(appointment.aptNum, e.target.value);
+                          }}
+                        />
+                      </div>
+                      <Button size="sm" variant="ghost" onClick={() => setReschedulingId(null)}>Close</Button>
+                    </div>
+                    {slotsLoading ? (
+                      <p className="text-sm text-gray-500">Finding open times...</p>
+                    ) : slots.length > 0 ? (
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {slots.map((slot) => (
+                          <Button
+                            key={`${slot.dateTime}-${slot.providerId}-${slot.operatoryId}`}
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            className="h-auto flex-col py-2"
+                            onClick={() => changeAppointment(appointment.aptNum, {
+                              action: 'reschedule',
+                              dateTime: slot.dateTime,
+                              providerId: slot.providerId,
+                              operatoryId: slot.operatoryId,
+                            })}
+                          >
+                            <span>{new Date(slot.dateTime.replace(' ', 'T')).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}</span>
+                            <span className="font-semibold">{formatTime(slot.dateTime)}</span>
+                            <span className="text-xs text-gray-500">{slot.providerName}</span>
+                          </Button>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">{slotsMessage}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Contact details</CardTitle>
+            <CardDescription>Where we send reminders and sign-in links.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={saveContact} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Mobile number</Label>
+                  <Input id="phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+                </div>
+              </div>
+              <Button type="submit" disabled={busy}>Save</Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {overview.treatmentPlans.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Treatment plans</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {overview.treatmentPlans.map((plan) => (
+                <div key={plan.id} className="rounded-lg border bg-white p-4">
+                  <div className="flex justify-between text-sm text-gray-600 mb-2">
+                    <span>Approved plan · {new Date(plan.createdAt).toLocaleDateString()}</span>
+                    <span>{plan.totalDuration} min</span>
+                  </div>
+                  <ul className="divide-y text-sm">
+                    {plan.treatments.map((treatment, index) => (
+                      <li key={index} className="flex justify-between py-1">
+                        <span>
+                          {treatment.treatmentName}
+                          {treatment.toothFdi ? <span className="text-gray-500"> · tooth {treatment.toothFdi}</span> : null}
+                        </span>
+                        <span>${treatment.price.toFixed(2)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-between border-t pt-2 mt-2 font-semibold">
+                    <span>Total</span>
+                    <span>${plan.totalPrice.toFixed(2)}</span>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
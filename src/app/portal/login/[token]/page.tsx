@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+
+/**
+ * Public page behind the patient portal magic link: trades the link for a
+ * session cookie and opens the portal
+ */
+export default function PortalLoginPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const signIn = async () => {
+      try {
+        const response = await fetch('/api/public/portal/session', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'This sign-in link is not valid.');
+          return;
+        }
+        router.replace(`/portal/${data.slug}`);
+      } catch (err) {
+        console.error('Error signing in:', err);
+        setError('Could not sign you in. Please try again.');
+      }
+    };
+    signIn();
+  }, [token, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardContent className="py-12 text-center text-gray-600">
+          {error || 'Signing you in...'}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
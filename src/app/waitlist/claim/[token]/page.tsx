@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface OfferSummary {
+  status: string;
+  organizationName: string;
+  patientFirstName: string;
+  providerName: string;
+  slot: string;
+  lengthMinutes: number;
+  expiresAt: string;
+}
+
+const CLOSED_MESSAGES: Record<string, string> = {
+  accepted: 'This slot has already been claimed.',
+  declined: 'You passed on this slot. You are still on the waitlist.',
+  expired: 'This offer has expired. You are still on the waitlist and we will text you about the next opening.',
+  unavailable: 'Sorry, this slot is no longer available.',
+  failed: 'Sorry, this slot is no longer available.',
+};
+
+/**
+ * Public page behind the claim link in waitlist offer messages
+ */
+export default function WaitlistClaimPage() {
+  const { token } = useParams<{ token: string }>();
+  const [offer, setOffer] = useState<OfferSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/public/waitlist/claim?token=${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Offer not found');
+        } else {
+          setOffer(data);
+        }
+      } catch (err) {
+        console.error('Error loading offer:', err);
+        setError('Could not load this offer. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [token]);
+
+  const respond = async (action: 'accept' | 'decline') => {
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/public/waitlist/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, action }),
+      });
+      const data = await response.json();
+      setResult({ success: !!data.success, message: data.message || data.error || 'Something went wrong' });
+    } catch (err) {
+      console.error('Error responding to offer:', err);
+      setResult({ success: false, message: 'Could not reach the office. Please try again.' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        {loading ? (
+          <CardContent className="py-12 text-center text-gray-500">Loading...</CardContent>
+        ) : error || !offer ? (
+          <CardContent className="py-12 text-center text-gray-600">{error || 'Offer not found'}</CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>{offer.organizationName || 'Earlier appointment available'}</CardTitle>
+              <CardDescription>
+                {offer.patientFirstName ? `Hi ${offer.patientFirstName}, ` : ''}an earlier appointment opened up for you.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-lg border bg-white p-4">
+                <div className="text-lg font-semibold text-gray-900">{offer.slot}</div>
+                <div className="text-sm text-gray-600">
+                  {offer.providerName}
+                  {offer.lengthMinutes ? ` · ${offer.lengthMinutes} min` : ''}
+                </div>
+              </div>
+
+              {result ? (
+                <p className={result.success ? 'text-green-700' : 'text-gray-700'}>{result.message}</p>
+              ) : offer.status !== 'pending' ? (
+                <p className="text-gray-700">{CLOSED_MESSAGES[offer.status] || 'This offer is no longer open.'}</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-500">
+                    Offer open until {new Date(offer.expiresAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.
+                    First to claim gets the slot.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button className="flex-1" disabled={submitting} onClick={() => respond('accept')}>
+                      {submitting ? 'Booking...' : 'Book this time'}
+                    </Button>
+                    <Button variant="outline" className="flex-1" disabled={submitting} onClick={() => respond('decline')}>
+                      No thanks
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -29,6 +29,7 @@ if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
 // - TWILIO_AUTH_TOKEN: Your Twilio auth token (optional)
 // - NEXTJS_BASE_URL (optional): Base URL for Next.js API routes (defaults to http://localhost:3000)
 // - RETELL_WEBSOCKET_PORT (optional): Port for WebSocket server (defaults to 8080)
+// - SYNC_WORKER_SECRET (optional): Enables the integration worker timers below
 
 const PORT = parseInt(process.env.RETELL_WEBSOCKET_PORT || process.env.PORT || '8080', 10);
 
@@ -58,6 +59,42 @@ server.listen(PORT, '0.0.0.0', () => {
   console.log(`[WebSocket Server] Ready to accept connections`);
 });
 
+// Background integration workers. This server is long-running, unlike the
+// Next.js app, so it drives them:
+// - retry failed OpenDental / Google Calendar writes (sync outbox) every minute
+// - renew Google Calendar push channels / refresh stale busy caches every 10 minutes
+// - send due appointment reminders every 5 minutes
+// - pass expired waitlist offers on to the next patient every 2 minutes
+// - meter recent usage (call minutes, messages, AI tokens) into usage_ledger every 15 minutes
+const SYNC_WORKER_INTERVAL_MS = 60 * 1000;
+const CALENDAR_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+const WAITLIST_INTERVAL_MS = 2 * 60 * 1000;
+const USAGE_METERING_INTERVAL_MS = 15 * 60 * 1000;
+if (process.env.SYNC_WORKER_SECRET) {
+  const baseUrl = process.env.NEXTJS_BASE_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  const runWorker = async (name: string, routePath: string) => {
+    try {
+      const response = await fetch(`${baseUrl}${routePath}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${process.env.SYNC_WORKER_SECRET}` },
+      });
+      const data = await response.json();
+      if (data.result?.processed || data.result?.synced || data.result?.failed || data.result?.sent || data.result?.expiredOffers) {
+        console.log(`[WebSocket Server] ${name} run:`, data.result);
+      }
+    } catch (error) {
+      console.error(`[WebSocket Server] ${name} run failed:`, error);
+    }
+  };
+  setInterval(() => runWorker('Sync outbox', '/api/integrations/sync-outbox'), SYNC_WORKER_INTERVAL_MS);
+  setInterval(() => runWorker('Google Calendar refresh', '/api/integrations/google-calendar/refresh'), CALENDAR_REFRESH_INTERVAL_MS);
+  setInterval(() => runWorker('Appointment reminders', '/api/reminders/process'), REMINDER_INTERVAL_MS);
+  setInterval(() => runWorker('Waitlist offers', '/api/waitlist/process'), WAITLIST_INTERVAL_MS);
+  setInterval(() => runWorker('Usage metering', '/api/usage/meter'), USAGE_METERING_INTERVAL_MS);
+  console.log('[WebSocket Server] Integration workers enabled');
+}
+
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   console.log('[Retell WebSocket Server] SIGTERM received, shutting down gracefully');
@@ -2,6 +2,7 @@ import express from 'express';
 import expressWs from 'express-ws';
 import WebSocket from 'ws';
 import http from 'http';
+import { getStateStore, updateState } from '../app/lib/state/stateStore';
 
 // Base URL for Next.js API routes (defaults to localhost:3000 for local dev)
 const NEXTJS_BASE_URL = process.env.NEXTJS_BASE_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
@@ -114,6 +115,7 @@ interface RetellResponse {
   content?: string;
   content_complete?: boolean;
   end_call?: boolean;
+  transfer_number?: string; // Retell transfers the call after speaking content
   stop_current_utterance?: boolean; // For agent_interrupt - stop current speech
   config?: {
     auto_reconnect?: boolean;
@@ -122,6 +124,12 @@ interface RetellResponse {
   timestamp?: number; // For ping_pong responses
 }
 
+interface LLMResult {
+  text: string;
+  shouldEndCall: boolean;
+  transferNumber?: string; // Set when the agent called transferCall and someone is on duty
+}
+
 // Create Express app and HTTP server explicitly
 const app = express();
 const server = http.createServer(app);
@@ -214,7 +222,7 @@ async function processWithWorkflowAPI(
   userMessage: string,
   callId: string,
   conversationHistory: any[]
-): Promise<{ text: string; shouldEndCall: boolean }> {
+): Promise<LLMResult> {
   try {
     console.log(`[Retell WS] 🔄 Processing via Workflow API for call ${callId}:`, userMessage);
     
@@ -261,7 +269,7 @@ async function processWithWorkflowAPI(
       role: 'assistant',
       content: result.response,
     });
-    callHistoryMap.set(callId, workingHistory);
+    saveCallState(callId, { history: workingHistory });
     
     return {
       text: result.response,
@@ -285,11 +293,12 @@ async function processWithLLMLegacy(
   callId: string,
   conversationHistory: any[],
   organizationId?: string
-): Promise<{ text: string; shouldEndCall: boolean }> {
+): Promise<LLMResult> {
   try {
     // Dynamic import to avoid bundling issues when USE_WORKFLOW_ENGINE is true
     // Use embeddedBooking config (internal database) - same as web chat and Twilio
     const { callGreetingAgent } = await import('../app/agentConfigs/embeddedBooking/greetingAgentSTT');
+    const { lexiTransferTool } = await import('../app/agentConfigs/embeddedBooking/lexiAgentTwilio');
     
     console.log(`[Retell WS] Processing message for call ${callId} (org: ${organizationId || 'default'}):`, userMessage);
     
@@ -308,14 +317,29 @@ async function processWithLLMLegacy(
     
     // Call our existing greeting agent with organization context and sessionId
     const sessionId = `retell_${callId}`;
+    const historyLength = workingHistory.length;
     const response = await callGreetingAgent(
       userMessage,
       workingHistory,
       isFirstMessage,
       undefined,
       organizationId,
-      sessionId
+      sessionId,
+      [lexiTransferTool]
     );
+
+    // transferCall picked who to ring; Retell performs the transfer itself
+    const transferOutput = workingHistory
+      .slice(historyLength)
+      .find(item => item.type === 'function_call_output' && item.name === 'transferCall');
+    let transferNumber: string | undefined;
+    if (transferOutput) {
+      try {
+        transferNumber = JSON.parse(transferOutput.output).transferNumber || undefined;
+      } catch {
+        transferNumber = undefined;
+      }
+    }
     
     // Add assistant response to working history
     const assistantMessageItem = {
@@ -326,11 +350,12 @@ async function processWithLLMLegacy(
     workingHistory.push(assistantMessageItem);
     
     // Store FULL history including function calls
-    callHistoryMap.set(callId, workingHistory);
+    saveCallState(callId, { history: workingHistory });
     
     return {
       text: response,
       shouldEndCall: false,
+      transferNumber,
     };
   } catch (error: any) {
     console.error(`[Retell WS] Error processing message for call ${callId}:`, error);
@@ -350,7 +375,7 @@ async function processWithLLM(
   callId: string,
   conversationHistory: any[],
   organizationId?: string
-): Promise<{ text: string; shouldEndCall: boolean }> {
+): Promise<LLMResult> {
   if (USE_WORKFLOW_ENGINE) {
     return processWithWorkflowAPI(userMessage, callId, conversationHistory);
   } else {
@@ -361,6 +386,46 @@ async function processWithLLM(
 // Store organization ID per call for channel config lookup
 const callOrgMap = new Map<string, string>();
 
+// History and org per call are also kept in the shared state store, so a
+// Retell reconnect that lands on another machine (e.g. after a redeploy)
+// picks the call back up
+const RETELL_CALL_NAMESPACE = 'retell_call';
+const RETELL_CALL_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+interface RetellCallState {
+  history: any[];
+  organizationId?: string;
+}
+
+function saveCallState(callId: string, changes: Partial<RetellCallState>): Promise<void> {
+  if (changes.history) callHistoryMap.set(callId, changes.history);
+  if (changes.organizationId) callOrgMap.set(callId, changes.organizationId);
+
+  return updateState<RetellCallState>(
+    getStateStore(),
+    RETELL_CALL_NAMESPACE,
+    callId,
+    current => ({ history: [], ...current, ...changes }),
+    RETELL_CALL_TTL_MS
+  )
+    .then(() => undefined)
+    .catch((error) => console.error(`[Retell WS] Failed to save shared state for call ${callId}:`, error));
+}
+
+async function loadCallState(callId: string): Promise<void> {
+  if (callHistoryMap.has(callId)) return;
+  try {
+    const stored = await getStateStore().get<RetellCallState>(RETELL_CALL_NAMESPACE, callId);
+    if (stored) {
+      callHistoryMap.set(callId, stored.value.history || []);
+      if (stored.value.organizationId) callOrgMap.set(callId, stored.value.organizationId);
+      console.log(`[Retell WS] Restored ${stored.value.history?.length || 0} history items for call ${callId}`);
+    }
+  } catch (error) {
+    console.error(`[Retell WS] Failed to load shared state for call ${callId}:`, error);
+  }
+}
+
 // Organization slug to ID mapping
 // TODO: Move this to database or environment variables for production
 const ORG_SLUG_MAP: Record<string, string> = {
@@ -398,6 +463,7 @@ expressWsInstance.app.ws('/llm-websocket/:org_slug_or_call_id/:call_id?', async
   
   // Initialize WebSocket properties
   ws.callId = callId;
+  await loadCallState(callId);
   ws.conversationHistory = callHistoryMap.get(callId) || [];
   ws.isFirstMessage = ws.conversationHistory.length === 0;
   
@@ -422,7 +488,7 @@ expressWsInstance.app.ws('/llm-websocket/:org_slug_or_call_id/:call_id?', async
     }
     
     if (orgId) {
-      callOrgMap.set(callId, orgId);
+      saveCallState(callId, { organizationId: orgId });
       channelConfig = await getRetellChannelConfig(orgId);
       
       console.log(`[Retell WS] Channel config loaded for call ${callId}:`, {
@@ -525,7 +591,7 @@ expressWsInstance.app.ws('/llm-websocket/:org_slug_or_call_id/:call_id?', async
             content: fallbackGreeting,
           }
         ];
-        callHistoryMap.set(callId, fallbackHistory);
+        saveCallState(callId, { history: fallbackHistory });
         ws.conversationHistory = fallbackHistory;
         ws.isFirstMessage = false;
         
@@ -638,7 +704,7 @@ expressWsInstance.app.ws('/llm-websocket/:org_slug_or_call_id/:call_id?', async
               ws.conversationHistory || [],
               orgIdForCall
             ),
-            new Promise<{ text: string; shouldEndCall: boolean }>((_, reject) => 
+            new Promise<LLMResult>((_, reject) => 
               setTimeout(() => reject(new Error('LLM processing timeout')), 25000) // 25s max timeout
             )
           ])
@@ -665,8 +731,12 @@ expressWsInstance.app.ws('/llm-websocket/:org_slug_or_call_id/:call_id?', async
                 response_id: responseId,
                 content: aiResponse.text,
                 content_complete: true, // Final response is complete
-                end_call: aiResponse.shouldEndCall || false
+                end_call: aiResponse.shouldEndCall || false,
+                ...(aiResponse.transferNumber ? { transfer_number: aiResponse.transferNumber } : {}),
               };
+              if (aiResponse.transferNumber) {
+                console.log(`[Retell WS] 📞 Transferring call ${callId} to ${aiResponse.transferNumber}`);
+              }
               
               ws.send(JSON.stringify(response));
               console.log(`[Retell WS] ✅ Sent final response for call ${callId}, response_id: ${responseId}`);
@@ -791,7 +861,7 @@ app.post('/api/send-text', (req, res) => {
     // STEP 2: Process with our LLM in background
     Promise.race([
       processWithLLM(userMessage, call_id, ws.conversationHistory || []),
-      new Promise<{ text: string; shouldEndCall: boolean }>((_, reject) =>
+      new Promise<LLMResult>((_, reject) =>
         setTimeout(() => reject(new Error('LLM processing timeout')), 25000)
       )
     ])
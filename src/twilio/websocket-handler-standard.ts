@@ -13,16 +13,27 @@
 
 import WebSocket from 'ws';
 import { callSupervisor } from '@/app/agentConfigs/embeddedBooking/supervisorAgent';
+import { lexiTransferTool } from '@/app/agentConfigs/embeddedBooking/lexiAgentTwilio';
 import { dentalOfficeInfo } from '@/app/agentConfigs/openDental/dentalOfficeData';
 import { 
   processMessage, 
   addMessage, 
   recordFunctionCall,
-  getOrCreateState,
+  loadState,
+  flushState,
+  updateConversationState,
   extractTimePreference,
 } from '@/app/lib/conversationState';
 import { getCachedDefaultOrganizationId } from '@/app/lib/callHelpers';
-import { getChannelConfig } from '@/app/lib/channelConfigLoader';
+import { getChannelConfig, getTextRouting } from '@/app/lib/channelConfigLoader';
+import type { LLMRouting } from '@/app/lib/llm/types';
+import {
+  connectTwilioTransfer,
+  requestCallTransfer,
+  transferToolOutput,
+  TRANSFER_TOOL_NAME,
+  type TransferPlan,
+} from '@/app/lib/transfers/callTransfer';
 
 interface TwilioMessage {
   event: string;
@@ -81,6 +92,7 @@ const lexiTools = [
       required: ['relevantContextFromLastUserMessage'],
     },
   },
+  lexiTransferTool,
 ];
 
 // ============================================
@@ -237,6 +249,9 @@ interface ConnectionState {
     slotsQueried?: boolean;
     appointmentCreated?: boolean;
   };
+  // Live transfer waiting for Lexi to finish telling the caller
+  pendingTransfer: TransferPlan | null;
+  transferFallbackTimer: NodeJS.Timeout | null;
 }
 
 /**
@@ -264,6 +279,7 @@ async function handleTwilioConnectionStandard(
   let receptionistInstructionsToUse = lexiChatInstructions; // Default hardcoded
   let supervisorInstructionsToUse: string | undefined = undefined;
   let dataIntegrations: string[] = [];
+  let supervisorRouting: LLMRouting | undefined = undefined;
   const modelName = 'gpt-4o-mini-realtime-preview-2024-12-17'; // Default for standard mode
   let configLoaded = false;
   
@@ -292,6 +308,9 @@ async function handleTwilioConnectionStandard(
         
         // Store data integrations
         dataIntegrations = channelConfig.data_integrations || [];
+
+        // The supervisor is a text agent: channel text backend + fallback
+        supervisorRouting = getTextRouting(channelConfig);
         
         // Log channel config
         console.log(`[Standard WS] 📋 Channel config: backend=${channelConfig.ai_backend}, integrations=${dataIntegrations.join(',') || 'none'}`);
@@ -333,8 +352,70 @@ async function handleTwilioConnectionStandard(
     audioQueue: [],
     conversationHistory: [],
     bookingState: {},
+    pendingTransfer: null,
+    transferFallbackTimer: null,
   };
 
+  // transferCall: record the transfer and tell Lexi what to say; the call is
+  // redirected to the staff <Dial> once that line has been spoken
+  async function handleTransferCall(toolCallId: string, args: any) {
+    console.log('[Standard WS] 🙋 Transfer requested:', args.reason);
+    let output: Record<string, unknown>;
+
+    try {
+      if (!state.callSid) {
+        throw new Error('No call SID for this call');
+      }
+      state.pendingTransfer = await requestCallTransfer({
+        organizationId,
+        provider: 'twilio',
+        callId: state.callSid,
+        reason: args.reason,
+        summary: args.summary,
+        destination: args.destination,
+      });
+      output = transferToolOutput(state.pendingTransfer);
+    } catch (error: unknown) {
+      console.error('[Standard WS] ❌ Transfer error:', error);
+      state.pendingTransfer = null;
+      output = {
+        transferring: false,
+        message: 'The transfer could not be started. Apologize and offer to take a message instead.',
+      };
+    }
+
+    if (state.callSid) {
+      recordFunctionCall(`standard_${state.callSid}`, TRANSFER_TOOL_NAME, args, output, undefined, {});
+    }
+
+    state.openaiWs!.send(JSON.stringify({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: toolCallId,
+        output: JSON.stringify(output),
+      },
+    }));
+    state.openaiWs!.send(JSON.stringify({ type: 'response.create' }));
+  }
+
+  async function completeTransfer() {
+    if (state.transferFallbackTimer) {
+      clearTimeout(state.transferFallbackTimer);
+      state.transferFallbackTimer = null;
+    }
+    if (!state.pendingTransfer) return;
+
+    const plan = state.pendingTransfer;
+    state.pendingTransfer = null;
+    try {
+      await connectTwilioTransfer(plan);
+      console.log('[Standard WS] 📞 Call handed to transfer TwiML');
+    } catch (error) {
+      console.error('[Standard WS] ❌ Failed to transfer call:', error);
+    }
+  }
+
   // Create OpenAI Realtime WebSocket (gpt-4o-mini for chat)
   const openaiApiKey = process.env.OPENAI_API_KEY;
   if (!openaiApiKey) {
@@ -453,6 +534,20 @@ async function handleTwilioConnectionStandard(
           }
         }
 
+        if (response.type === 'response.function_call_arguments.done' && response.name === TRANSFER_TOOL_NAME) {
+          await handleTransferCall(response.call_id, JSON.parse(response.arguments || '{}'));
+        }
+
+        // Lexi finished its "connecting you now" line: ask Twilio to tell us
+        // when that audio has played (mark echo), then redirect the call
+        if (response.type === 'response.done' && state.pendingTransfer &&
+            (response.response?.output || []).some((item: any) => item.type === 'message')) {
+          if (twilioWs.readyState === WebSocket.OPEN && state.streamSid) {
+            twilioWs.send(JSON.stringify({ event: 'mark', streamSid: state.streamSid, mark: { name: 'transfer' } }));
+          }
+          state.transferFallbackTimer = setTimeout(completeTransfer, 15000);
+        }
+
         // Handle getNextResponseFromSupervisor tool call
         if (response.type === 'response.function_call_arguments.done') {
           if (response.name === 'getNextResponseFromSupervisor') {
@@ -472,12 +567,13 @@ async function handleTwilioConnectionStandard(
                   
                   // CRITICAL: Sync to ConversationState so booking API can auto-fill
                   if (state.callSid) {
-                    const convState = getOrCreateState(`standard_${state.callSid}`);
-                    convState.appointment.selectedSlot = {
-                      dateTime: matchedSlot.AptDateTime,
-                      provNum: matchedSlot.ProvNum,
-                      opNum: matchedSlot.Op
-                    };
+                    await updateConversationState(`standard_${state.callSid}`, convState => {
+                      convState.appointment.selectedSlot = {
+                        dateTime: matchedSlot.AptDateTime,
+                        provNum: matchedSlot.ProvNum,
+                        opNum: matchedSlot.Op
+                      };
+                    });
                     console.log('[Standard WS] 🔄 Synced selectedSlot to ConversationState');
                   }
                 }
@@ -511,13 +607,19 @@ async function handleTwilioConnectionStandard(
                 console.log('[Standard WS] 📋 Including booking state:', stateContext.length, 'items');
               }
 
+              // The booking API (possibly on another instance) auto-fills from the shared state
+              if (state.callSid) {
+                await flushState(`standard_${state.callSid}`);
+              }
+
               // Call supervisor agent (gpt-4o)
               const result = await callSupervisor(
                 state.conversationHistory,
                 context,
                 `standard_${state.callSid}`,
                 supervisorInstructionsToUse,
-                organizationId  // Pass org ID for booking API authentication
+                organizationId,  // Pass org ID for booking API authentication
+                supervisorRouting
               );
 
               console.log('[Standard WS] Supervisor response received');
@@ -542,10 +644,11 @@ async function handleTwilioConnectionStandard(
                   
                   // CRITICAL: Sync to ConversationState so booking API can auto-fill
                   if (state.callSid) {
-                    const convState = getOrCreateState(`standard_${state.callSid}`);
-                    convState.patient.patNum = createResult.PatNum;
-                    convState.patient.firstName = createResult.FName;
-                    convState.patient.lastName = createResult.LName;
+                    await updateConversationState(`standard_${state.callSid}`, convState => {
+                      convState.patient.patNum = createResult.PatNum;
+                      convState.patient.firstName = createResult.FName;
+                      convState.patient.lastName = createResult.LName;
+                    });
                     console.log('[Standard WS] 🔄 Synced PatNum to ConversationState');
                   }
                 }
@@ -564,11 +667,13 @@ async function handleTwilioConnectionStandard(
                   
                   // CRITICAL: Sync to ConversationState so booking API can auto-fill
                   if (state.callSid) {
-                    const convState = getOrCreateState(`standard_${state.callSid}`);
-                    convState.patient.patNum = patients[0].PatNum;
-                    convState.patient.firstName = patients[0].FName;
-                    convState.patient.lastName = patients[0].LName;
-                    convState.patient.phone = patients[0].WirelessPhone;
+                    const patient = patients[0];
+                    await updateConversationState(`standard_${state.callSid}`, convState => {
+                      convState.patient.patNum = patient.PatNum;
+                      convState.patient.firstName = patient.FName;
+                      convState.patient.lastName = patient.LName;
+                      convState.patient.phone = patient.WirelessPhone;
+                    });
                     console.log('[Standard WS] 🔄 Synced patient info to ConversationState');
                   }
                 }
@@ -591,12 +696,13 @@ async function handleTwilioConnectionStandard(
                     
                     // CRITICAL: Sync to ConversationState so booking API can auto-fill
                     if (state.callSid) {
-                      const convState = getOrCreateState(`standard_${state.callSid}`);
-                      convState.appointment.selectedSlot = {
-                        dateTime: selectedSlot.AptDateTime,
-                        provNum: selectedSlot.ProvNum,
-                        opNum: selectedSlot.Op
-                      };
+                      await updateConversationState(`standard_${state.callSid}`, convState => {
+                        convState.appointment.selectedSlot = {
+                          dateTime: selectedSlot.AptDateTime,
+                          provNum: selectedSlot.ProvNum,
+                          opNum: selectedSlot.Op
+                        };
+                      });
                       console.log('[Standard WS] 🔄 Synced selectedSlot to ConversationState');
                     }
                   }
@@ -812,8 +918,10 @@ async function handleTwilioConnectionStandard(
           
           // Initialize conversation state
           if (state.callSid) {
-            const convState = getOrCreateState(`standard_${state.callSid}`);
-            convState.intent = 'unknown';
+            await loadState(`standard_${state.callSid}`);
+            updateConversationState(`standard_${state.callSid}`, convState => {
+              if (!convState.intent) convState.intent = 'unknown';
+            });
             console.log('[Standard WS] 📊 Conversation state initialized');
             
             // Create conversation record in database
@@ -873,9 +981,16 @@ async function handleTwilioConnectionStandard(
           }
           break;
 
+        case 'mark':
+          if (msg.mark?.name === 'transfer') {
+            await completeTransfer();
+          }
+          break;
+
         case 'stop':
           console.log('[Standard WS] 📴 Call stopped');
           clearInterval(keepAlive);
+          if (state.transferFallbackTimer) clearTimeout(state.transferFallbackTimer);
           if (state.openaiWs) state.openaiWs.close();
           break;
       }
@@ -1,12 +1,22 @@
 import WebSocket from 'ws';
 // Audio conversion removed - OpenAI supports g711_ulaw natively!
-import { generateLexiInstructions, lexiTools, executeLexiTool } from '@/app/agentConfigs/embeddedBooking/lexiAgentTwilio';
+import { generateLexiInstructions, lexiTools, lexiTransferTool, executeLexiTool } from '@/app/agentConfigs/embeddedBooking/lexiAgentTwilio';
+// Live transfer to staff
+import {
+  connectTwilioTransfer,
+  requestCallTransfer,
+  transferToolOutput,
+  TRANSFER_TOOL_NAME,
+  type TransferPlan,
+} from '@/app/lib/transfers/callTransfer';
 // Conversation state for transcript logging
 import { 
   processMessage, 
   addMessage, 
   recordFunctionCall,
-  getOrCreateState 
+  loadState,
+  flushState,
+  updateConversationState
 } from '@/app/lib/conversationState';
 // Organization-specific instructions
 import { getOrganizationInstructions } from '@/app/lib/agentMode';
@@ -75,6 +85,10 @@ async function handleTwilioConnection(
   let dataIntegrations: string[] = [];
   let configLoaded = false;
 
+  // Transfer waiting for the agent to finish telling the caller
+  let pendingTransfer: TransferPlan | null = null;
+  let transferFallbackTimer: NodeJS.Timeout | null = null;
+
   // Check OpenAI API key early
   const openaiApiKey = process.env.OPENAI_API_KEY;
   if (!openaiApiKey) {
@@ -184,7 +198,7 @@ async function handleTwilioConnection(
             prefix_padding_ms: 300,
             silence_duration_ms: 500, // Increased from 200ms to let user finish speaking
           },
-          tools: lexiTools.map(tool => ({
+          tools: [...lexiTools, lexiTransferTool].map(tool => ({
             type: 'function',
             name: tool.name,
             description: tool.description,
@@ -253,11 +267,17 @@ async function handleTwilioConnection(
           }
         }
 
-        if (response.type === 'response.function_call_arguments.done') {
+        if (response.type === 'response.function_call_arguments.done' && response.name === TRANSFER_TOOL_NAME) {
+          await handleTransferCall(response.call_id, JSON.parse(response.arguments || '{}'));
+        } else if (response.type === 'response.function_call_arguments.done') {
           console.log('[Twilio WS] 🔧 Function call:', response.name);
           
           try {
             const args = JSON.parse(response.arguments);
+            // The booking API (possibly on another instance) auto-fills from the shared state
+            if (callSid) {
+              await flushState(`twilio_${callSid}`);
+            }
             const result = await executeLexiTool(
               response.name,
               args,
@@ -319,6 +339,16 @@ async function handleTwilioConnection(
           }
         }
 
+        // The agent finished its "connecting you now" line: ask Twilio to tell us
+        // when that audio has played (mark echo), then redirect the call
+        if (response.type === 'response.done' && pendingTransfer &&
+            (response.response?.output || []).some((item: any) => item.type === 'message')) {
+          if (twilioWs.readyState === WebSocket.OPEN && streamSid) {
+            twilioWs.send(JSON.stringify({ event: 'mark', streamSid, mark: { name: 'transfer' } }));
+          }
+          transferFallbackTimer = setTimeout(completeTransfer, 15000);
+        }
+
         // Speech start/stop logging removed - too verbose
 
         // ============================================
@@ -361,6 +391,66 @@ async function handleTwilioConnection(
     });
   } // End of setupOpenAIHandlers
 
+  // transferCall: record the transfer and tell the agent what to say; the call
+  // is redirected to the staff <Dial> once that line has been spoken
+  async function handleTransferCall(toolCallId: string, args: any) {
+    console.log('[Twilio WS] 🙋 Transfer requested:', args.reason);
+    let output: Record<string, unknown>;
+
+    try {
+      if (!callSid) {
+        throw new Error('No call SID for this call');
+      }
+      pendingTransfer = await requestCallTransfer({
+        organizationId,
+        provider: 'twilio',
+        callId: callSid,
+        reason: args.reason,
+        summary: args.summary,
+        destination: args.destination,
+      });
+      output = transferToolOutput(pendingTransfer);
+    } catch (error: any) {
+      console.error('[Twilio WS] ❌ Transfer error:', error);
+      pendingTransfer = null;
+      output = {
+        transferring: false,
+        message: 'The transfer could not be started. Apologize and offer to take a message instead.',
+      };
+    }
+
+    if (callSid) {
+      recordFunctionCall(`twilio_${callSid}`, TRANSFER_TOOL_NAME, args, output, undefined, {});
+    }
+
+    openaiWs!.send(JSON.stringify({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: toolCallId,
+        output: JSON.stringify(output),
+      },
+    }));
+    openaiWs!.send(JSON.stringify({ type: 'response.create' }));
+  }
+
+  async function completeTransfer() {
+    if (transferFallbackTimer) {
+      clearTimeout(transferFallbackTimer);
+      transferFallbackTimer = null;
+    }
+    if (!pendingTransfer) return;
+
+    const plan = pendingTransfer;
+    pendingTransfer = null;
+    try {
+      await connectTwilioTransfer(plan);
+      console.log('[Twilio WS] 📞 Call handed to transfer TwiML');
+    } catch (error) {
+      console.error('[Twilio WS] ❌ Failed to transfer call:', error);
+    }
+  }
+
   // Keep-alive for Twilio (send mark every 20s)
   const keepAlive = setInterval(() => {
     if (twilioWs.readyState === WebSocket.OPEN) {
@@ -418,8 +508,10 @@ async function handleTwilioConnection(
           
           // Initialize conversation state for this call (creates DB entry)
           if (callSid) {
-            const state = getOrCreateState(`twilio_${callSid}`);
-            state.intent = 'unknown'; // Will be detected from conversation
+            await loadState(`twilio_${callSid}`);
+            updateConversationState(`twilio_${callSid}`, state => {
+              if (!state.intent) state.intent = 'unknown'; // Will be detected from conversation
+            });
             console.log('[Twilio WS] 📊 Conversation state initialized:', `twilio_${callSid}`);
             
             // Create conversation record in database with admin client
@@ -481,9 +573,16 @@ async function handleTwilioConnection(
           }
           break;
 
+        case 'mark':
+          if (msg.mark?.name === 'transfer') {
+            await completeTransfer();
+          }
+          break;
+
         case 'stop':
           console.log('[Twilio WS] 📴 Call stopped');
           clearInterval(keepAlive);
+          if (transferFallbackTimer) clearTimeout(transferFallbackTimer);
           if (openaiWs) openaiWs.close();
           break;
       }
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- MIGRATION 064: Slot Granularity
+-- ============================================================================
+-- Per-organization grid used by GetAvailableSlots (5/10/15/20/30 minutes).
+-- Appointment length comes from treatments_catalog.duration (by code or type).
+-- ============================================================================
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS slot_granularity_minutes INTEGER DEFAULT 30;
+
+ALTER TABLE organizations
+  DROP CONSTRAINT IF EXISTS organizations_slot_granularity_check;
+
+ALTER TABLE organizations
+  ADD CONSTRAINT organizations_slot_granularity_check
+  CHECK (slot_granularity_minutes IN (5, 10, 15, 20, 30));
+
+-- Remember which catalog treatment an appointment was booked for
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS treatment_code VARCHAR(20);
+
+-- Overlap checks query appointments by org + day
+CREATE INDEX IF NOT EXISTS idx_appointments_org_datetime
+  ON appointments(organization_id, appointment_datetime)
+  WHERE status = 'Scheduled';
+
+COMMENT ON COLUMN organizations.slot_granularity_minutes IS 'Slot grid for availability search: 5, 10, 15, 20 or 30 minutes';
+COMMENT ON COLUMN appointments.treatment_code IS 'treatments_catalog.code used to size the appointment (optional)';
@@ -0,0 +1,82 @@
+-- ============================================================================
+-- MIGRATION 065: Schedule Exceptions
+-- ============================================================================
+-- Negative availability on top of provider_schedules: holidays, vacations,
+-- lunch breaks, blocked time and operatory maintenance.
+--
+-- Scope:
+--   organization -> blocks every provider and operatory (clinic closed)
+--   provider     -> blocks one provider in any operatory
+--   operatory    -> blocks one operatory for any provider
+--
+-- Recurrence:
+--   none    -> every day from start_date to end_date
+--   daily   -> every recurrence_interval days from start_date
+--   weekly  -> on recurrence_days (0=Sunday..6=Saturday) every recurrence_interval weeks
+--   monthly -> on the day-of-month of start_date
+--   yearly  -> on the month/day of start_date (e.g. Christmas)
+-- Recurring exceptions stop at recurrence_until (NULL = forever).
+-- NULL start_time/end_time means the whole day is blocked.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS schedule_exceptions (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  scope VARCHAR(20) NOT NULL DEFAULT 'organization'
+    CHECK (scope IN ('organization', 'provider', 'operatory')),
+  provider_id INTEGER REFERENCES providers(id) ON DELETE CASCADE,
+  operatory_id INTEGER REFERENCES operatories(id) ON DELETE CASCADE,
+  exception_type VARCHAR(20) NOT NULL DEFAULT 'blocked'
+    CHECK (exception_type IN ('holiday', 'vacation', 'lunch', 'blocked', 'maintenance')),
+  title VARCHAR(200) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  start_time TIME,
+  end_time TIME,
+  recurrence VARCHAR(20) NOT NULL DEFAULT 'none'
+    CHECK (recurrence IN ('none', 'daily', 'weekly', 'monthly', 'yearly')),
+  recurrence_interval INTEGER NOT NULL DEFAULT 1 CHECK (recurrence_interval >= 1),
+  recurrence_days INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+  recurrence_until DATE,
+  notes TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT schedule_exceptions_scope_target CHECK (
+    (scope = 'organization') OR
+    (scope = 'provider' AND provider_id IS NOT NULL) OR
+    (scope = 'operatory' AND operatory_id IS NOT NULL)
+  ),
+  CONSTRAINT schedule_exceptions_time_range CHECK (
+    (start_time IS NULL AND end_time IS NULL) OR
+    (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  ),
+  CONSTRAINT schedule_exceptions_date_range CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_exceptions_org_id ON schedule_exceptions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_exceptions_dates
+  ON schedule_exceptions(organization_id, start_date, end_date)
+  WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_schedule_exceptions_provider ON schedule_exceptions(provider_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_exceptions_operatory ON schedule_exceptions(operatory_id);
+
+DROP TRIGGER IF EXISTS update_schedule_exceptions_updated_at ON schedule_exceptions;
+CREATE TRIGGER update_schedule_exceptions_updated_at
+  BEFORE UPDATE ON schedule_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Same isolation model as provider_schedules
+ALTER TABLE schedule_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS schedule_exceptions_isolation_policy ON schedule_exceptions;
+CREATE POLICY schedule_exceptions_isolation_policy ON schedule_exceptions
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE schedule_exceptions IS 'Holidays, vacations, lunch breaks and blocked time that remove availability from provider_schedules';
+COMMENT ON COLUMN schedule_exceptions.scope IS 'organization (clinic-wide), provider or operatory';
+COMMENT ON COLUMN schedule_exceptions.recurrence_days IS 'Weekdays for weekly recurrence (0=Sunday..6=Saturday)';
+COMMENT ON COLUMN schedule_exceptions.start_time IS 'NULL together with end_time = all-day block';
@@ -0,0 +1,87 @@
+-- ============================================================================
+-- MIGRATION 066: Recurring Weekly Schedule Templates
+-- ============================================================================
+-- Named weekly templates per provider (e.g. "Dr. Pearl - Standard Week") that
+-- are materialized into dated provider_schedules rows on a rolling horizon.
+--
+-- week_cycle = 1 -> same every week
+-- week_cycle = 2 -> alternating weeks (week_index 0 = "Week A", 1 = "Week B")
+-- Week A is the week (Sunday-based) containing cycle_anchor_date.
+--
+-- Materialized rows keep template_id/template_block_id so template edits can
+-- replace future, unbooked dates without touching manually created schedules.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS schedule_templates (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  provider_id INTEGER NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  week_cycle INTEGER NOT NULL DEFAULT 1 CHECK (week_cycle BETWEEN 1 AND 4),
+  cycle_anchor_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  effective_until DATE,
+  horizon_days INTEGER NOT NULL DEFAULT 28 CHECK (horizon_days BETWEEN 1 AND 180),
+  last_materialized_through DATE,
+  notes TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT schedule_templates_effective_range CHECK (effective_until IS NULL OR effective_until >= effective_from)
+);
+
+CREATE TABLE IF NOT EXISTS schedule_template_blocks (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  template_id INTEGER NOT NULL REFERENCES schedule_templates(id) ON DELETE CASCADE,
+  week_index INTEGER NOT NULL DEFAULT 0 CHECK (week_index BETWEEN 0 AND 3),
+  day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6), -- 0=Sunday ... 6=Saturday
+  operatory_id INTEGER NOT NULL REFERENCES operatories(id) ON DELETE CASCADE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT schedule_template_blocks_time_range CHECK (end_time > start_time)
+);
+
+-- Link generated schedules back to their template
+ALTER TABLE provider_schedules
+  ADD COLUMN IF NOT EXISTS template_id INTEGER REFERENCES schedule_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE provider_schedules
+  ADD COLUMN IF NOT EXISTS template_block_id INTEGER REFERENCES schedule_template_blocks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_schedule_templates_org_id ON schedule_templates(organization_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_templates_provider ON schedule_templates(provider_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_template_blocks_template ON schedule_template_blocks(template_id);
+CREATE INDEX IF NOT EXISTS idx_provider_schedules_template
+  ON provider_schedules(template_id, schedule_date)
+  WHERE template_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_schedule_templates_updated_at ON schedule_templates;
+CREATE TRIGGER update_schedule_templates_updated_at
+  BEFORE UPDATE ON schedule_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Same isolation model as provider_schedules
+ALTER TABLE schedule_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_template_blocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS schedule_templates_isolation_policy ON schedule_templates;
+CREATE POLICY schedule_templates_isolation_policy ON schedule_templates
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+DROP POLICY IF EXISTS schedule_template_blocks_isolation_policy ON schedule_template_blocks;
+CREATE POLICY schedule_template_blocks_isolation_policy ON schedule_template_blocks
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE schedule_templates IS 'Named weekly working patterns per provider, materialized into provider_schedules on a rolling horizon';
+COMMENT ON COLUMN schedule_templates.week_cycle IS '1 = every week, 2 = alternating weeks (A/B), up to 4';
+COMMENT ON COLUMN schedule_templates.cycle_anchor_date IS 'Any date in the first week of the cycle (week_index 0)';
+COMMENT ON COLUMN schedule_templates.horizon_days IS 'How many days ahead dated schedules are kept generated';
+COMMENT ON COLUMN schedule_templates.last_materialized_through IS 'Last date provider_schedules rows were generated for';
+COMMENT ON COLUMN provider_schedules.template_id IS 'Template that generated this row (NULL = created manually)';
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- MIGRATION 067: Treatment Requirements (provider specialty / room capability)
+-- ============================================================================
+-- Treatments can declare who may perform them and which room they need:
+--   required_specialties     -> provider needs ANY of these providers.specialty_tags
+--   required_operatory_tags  -> operatory needs ALL of these operatories.tags
+-- Empty arrays mean "no requirement". GetAvailableSlots and CreateAppointment
+-- only use provider/operatory pairs that satisfy both.
+-- ============================================================================
+
+ALTER TABLE treatments_catalog
+  ADD COLUMN IF NOT EXISTS required_specialties TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+ALTER TABLE treatments_catalog
+  ADD COLUMN IF NOT EXISTS required_operatory_tags TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+-- Sensible defaults for the seeded catalog: specialist work stays with dentists
+-- tagged for it. 'General' is deliberately not accepted: nearly every provider,
+-- hygienists included, carries it. Room capabilities are left empty until each
+-- clinic tags its rooms.
+UPDATE treatments_catalog
+  SET required_specialties = ARRAY['Endodontics']
+  WHERE category = 'endodontic' AND required_specialties = ARRAY[]::TEXT[];
+
+UPDATE treatments_catalog
+  SET required_specialties = ARRAY['Oral Surgery']
+  WHERE category = 'surgical' AND required_specialties = ARRAY[]::TEXT[];
+
+UPDATE treatments_catalog
+  SET required_specialties = ARRAY['Periodontics']
+  WHERE code IN ('PERIO-003', 'PERIO-004') AND required_specialties = ARRAY[]::TEXT[];
+
+COMMENT ON COLUMN treatments_catalog.required_specialties IS 'Provider must have at least one of these specialty_tags (empty = any provider)';
+COMMENT ON COLUMN treatments_catalog.required_operatory_tags IS 'Operatory must have all of these tags, e.g. {Surgical} (empty = any room)';
@@ -0,0 +1,55 @@
+-- ============================================================================
+-- MIGRATION 068: Appointment Resources
+-- ============================================================================
+-- An appointment can occupy several resources, each for part of the visit:
+--   provider  -> the treating dentist (usually appointments.provider_id)
+--   assistant -> hygienist / assistant (a row in providers)
+--   operatory -> a chair; several rows allow two chairs in sequence
+--
+-- offset_minutes is measured from appointments.appointment_datetime and
+-- appointments.duration_minutes spans the whole visit.
+-- Appointments without rows here keep the single-resource behaviour:
+-- provider_id and operatory_id are both busy for the full duration.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS appointment_resources (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  resource_type VARCHAR(20) NOT NULL
+    CHECK (resource_type IN ('provider', 'assistant', 'operatory')),
+  provider_id INTEGER REFERENCES providers(id) ON DELETE CASCADE,
+  operatory_id INTEGER REFERENCES operatories(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL DEFAULT 0 CHECK (offset_minutes >= 0),
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT appointment_resources_target CHECK (
+    (resource_type IN ('provider', 'assistant') AND provider_id IS NOT NULL) OR
+    (resource_type = 'operatory' AND operatory_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_resources_org_id ON appointment_resources(organization_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_resources_appointment ON appointment_resources(appointment_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_resources_provider ON appointment_resources(provider_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_resources_operatory ON appointment_resources(operatory_id);
+
+DROP TRIGGER IF EXISTS update_appointment_resources_updated_at ON appointment_resources;
+CREATE TRIGGER update_appointment_resources_updated_at
+  BEFORE UPDATE ON appointment_resources
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Same isolation model as appointments
+ALTER TABLE appointment_resources ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS appointment_resources_isolation_policy ON appointment_resources;
+CREATE POLICY appointment_resources_isolation_policy ON appointment_resources
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE appointment_resources IS 'Providers, assistants and operatories an appointment occupies, each with its own offset and length';
+COMMENT ON COLUMN appointment_resources.offset_minutes IS 'Minutes after appointments.appointment_datetime when this resource is needed';
+COMMENT ON COLUMN appointment_resources.duration_minutes IS 'How long this resource is needed';
@@ -0,0 +1,123 @@
+-- ============================================================================
+-- MIGRATION 069: Waitlist and Early-Slot Offers
+-- ============================================================================
+-- waitlist_entries: patients who want an earlier appointment, with preferred
+--   providers, weekdays and a time window. Broken appointments sent to the
+--   unscheduled list also land here (source = 'unscheduled', auto_offer = false).
+--
+-- waitlist_offers: one row per slot offered to one entry. When a slot frees up
+--   the best matching entry gets an offer over SMS/WhatsApp with a claim link
+--   and a reply code. Declined/expired offers move on to the next entry.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+
+  -- Preferences (empty / NULL = any)
+  preferred_provider_ids INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[],
+  preferred_days INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[],
+  earliest_time TIME,
+  latest_time TIME,
+  date_from DATE,
+  date_until DATE,
+
+  -- What the patient needs booked
+  length_minutes INTEGER CHECK (length_minutes IS NULL OR length_minutes > 0),
+  treatment_code VARCHAR(50),
+  appointment_type VARCHAR(100),
+
+  -- How to reach them
+  channel VARCHAR(20) NOT NULL DEFAULT 'sms' CHECK (channel IN ('sms', 'whatsapp')),
+  contact_phone VARCHAR(50),
+
+  priority INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'cancelled', 'expired')),
+  auto_offer BOOLEAN NOT NULL DEFAULT true,
+  source VARCHAR(20) NOT NULL DEFAULT 'staff' CHECK (source IN ('agent', 'staff', 'unscheduled')),
+  original_appointment_id INTEGER REFERENCES appointments(id) ON DELETE SET NULL,
+  booked_appointment_id INTEGER REFERENCES appointments(id) ON DELETE SET NULL,
+  notes TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_org_id ON waitlist_entries(organization_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(organization_id, status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_patient ON waitlist_entries(patient_id);
+
+DROP TRIGGER IF EXISTS update_waitlist_entries_updated_at ON waitlist_entries;
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  entry_id INTEGER NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  source_appointment_id INTEGER REFERENCES appointments(id) ON DELETE SET NULL,
+
+  -- The freed slot (same wall-clock format as appointments.appointment_datetime)
+  provider_id INTEGER NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  operatory_id INTEGER NOT NULL REFERENCES operatories(id) ON DELETE CASCADE,
+  slot_datetime TIMESTAMP NOT NULL,
+  slot_minutes INTEGER NOT NULL CHECK (slot_minutes > 0),
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+
+  token VARCHAR(64) NOT NULL UNIQUE,
+  reply_code VARCHAR(10) NOT NULL,
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('sms', 'whatsapp')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'unavailable', 'failed')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  appointment_id INTEGER REFERENCES appointments(id) ON DELETE SET NULL,
+  error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_org_id ON waitlist_offers(organization_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_entry ON waitlist_offers(entry_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_pending ON waitlist_offers(organization_id, status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_slot ON waitlist_offers(organization_id, provider_id, slot_datetime);
+
+DROP TRIGGER IF EXISTS update_waitlist_offers_updated_at ON waitlist_offers;
+CREATE TRIGGER update_waitlist_offers_updated_at
+  BEFORE UPDATE ON waitlist_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- How long a patient has to claim an offered slot
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS waitlist_offer_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (waitlist_offer_minutes BETWEEN 5 AND 1440);
+
+-- Same isolation model as appointments
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS waitlist_entries_isolation_policy ON waitlist_entries;
+CREATE POLICY waitlist_entries_isolation_policy ON waitlist_entries
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+DROP POLICY IF EXISTS waitlist_offers_isolation_policy ON waitlist_offers;
+CREATE POLICY waitlist_offers_isolation_policy ON waitlist_offers
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE waitlist_entries IS 'Patients waiting for an earlier slot, and the unscheduled list of broken appointments';
+COMMENT ON COLUMN waitlist_entries.preferred_days IS 'Weekdays 0-6 (0 = Sunday); empty means any day';
+COMMENT ON COLUMN waitlist_entries.auto_offer IS 'Send freed slots to this patient automatically';
+COMMENT ON TABLE waitlist_offers IS 'Freed slots offered to waitlist entries, claimed by link or reply keyword';
+COMMENT ON COLUMN waitlist_offers.slot_minutes IS 'How long the freed slot is open (passed on if this offer is declined)';
+COMMENT ON COLUMN waitlist_offers.duration_minutes IS 'Length of the appointment booked for this entry';
+COMMENT ON COLUMN waitlist_offers.reply_code IS 'Code the patient can text back, e.g. "YES 4821"';
+COMMENT ON COLUMN organizations.waitlist_offer_minutes IS 'Minutes a waitlist offer stays open before moving to the next patient';
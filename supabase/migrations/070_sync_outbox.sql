@@ -0,0 +1,62 @@
+-- ============================================================================
+-- MIGRATION 070: Sync Outbox
+-- ============================================================================
+-- One row per external write (OpenDental / Google Calendar) that SyncManager
+-- needs to make. Rows are attempted right away and, on failure, retried with
+-- exponential backoff until they succeed or reach max_attempts (dead_letter).
+--
+-- idempotency_key is stable across retries of the same row: it becomes the
+-- Google Calendar event id on create and the Idempotency-Key header for
+-- IntegrationExecutor calls, so a retry never creates a duplicate.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sync_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  sync_config_id UUID REFERENCES integration_sync_configs(id) ON DELETE SET NULL,
+
+  integration_key TEXT NOT NULL,                -- 'opendental', 'google_calendar'
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('appointment', 'patient')),
+  entity_id INTEGER NOT NULL,                   -- local id (row may be gone for deletes)
+  operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+  payload JSONB NOT NULL DEFAULT '{}'::JSONB,   -- local row snapshot at enqueue time
+  idempotency_key TEXT NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'succeeded', 'dead_letter', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  external_id TEXT,
+  completed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(organization_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_outbox_org ON sync_outbox(organization_id);
+CREATE INDEX IF NOT EXISTS idx_sync_outbox_due ON sync_outbox(status, next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_sync_outbox_entity ON sync_outbox(organization_id, integration_key, entity_type, entity_id);
+
+DROP TRIGGER IF EXISTS trg_sync_outbox_updated_at ON sync_outbox;
+CREATE TRIGGER trg_sync_outbox_updated_at
+  BEFORE UPDATE ON sync_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE sync_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sync_outbox_isolation_policy ON sync_outbox;
+CREATE POLICY sync_outbox_isolation_policy ON sync_outbox
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE sync_outbox IS 'Durable queue of external sync writes with retry, idempotency and dead-letter state';
+COMMENT ON COLUMN sync_outbox.idempotency_key IS 'Stable per item; reused on every retry so external systems can de-duplicate';
+COMMENT ON COLUMN sync_outbox.next_attempt_at IS 'Earliest time the worker may retry a pending item';
+COMMENT ON COLUMN sync_outbox.locked_at IS 'Set while a worker is processing; stale locks are reclaimed';
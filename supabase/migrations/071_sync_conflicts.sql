@@ -0,0 +1,90 @@
+-- ============================================================================
+-- MIGRATION 071: Sync Conflicts
+-- ============================================================================
+-- Per-record version tracking for bidirectional sync, plus a review queue for
+-- conflicts when an integration's conflict_resolution is 'manual'.
+--
+-- sync_record_versions stores the baseline agreed at the last successful sync:
+-- the external etag and the local updated_at. On the next pull a record has
+-- "changed externally" when the etag differs and "changed locally" when
+-- updated_at moved past the baseline; both at once is a conflict.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sync_record_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  integration_key TEXT NOT NULL,                -- 'google_calendar', 'opendental'
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('appointment', 'patient')),
+  entity_id INTEGER NOT NULL,
+  external_id TEXT NOT NULL,
+  external_etag TEXT,
+  external_updated_at TIMESTAMPTZ,
+  local_updated_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(organization_id, integration_key, entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_record_versions_org ON sync_record_versions(organization_id);
+
+DROP TRIGGER IF EXISTS trg_sync_record_versions_updated_at ON sync_record_versions;
+CREATE TRIGGER trg_sync_record_versions_updated_at
+  BEFORE UPDATE ON sync_record_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE sync_record_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sync_record_versions_isolation_policy ON sync_record_versions;
+CREATE POLICY sync_record_versions_isolation_policy ON sync_record_versions
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  sync_config_id UUID REFERENCES integration_sync_configs(id) ON DELETE SET NULL,
+  integration_key TEXT NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('appointment', 'patient')),
+  entity_id INTEGER NOT NULL,
+  external_id TEXT NOT NULL,
+
+  local_snapshot JSONB NOT NULL DEFAULT '{}'::JSONB,
+  external_snapshot JSONB NOT NULL DEFAULT '{}'::JSONB,  -- external values mapped to local fields
+  external_etag TEXT,
+  external_updated_at TIMESTAMPTZ,
+
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution TEXT CHECK (resolution IN ('keep_local', 'keep_external', 'dismiss')),
+  resolved_by UUID,
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_org_status ON sync_conflicts(organization_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_conflicts_one_open
+  ON sync_conflicts(organization_id, integration_key, entity_type, entity_id)
+  WHERE status = 'open';
+
+DROP TRIGGER IF EXISTS trg_sync_conflicts_updated_at ON sync_conflicts;
+CREATE TRIGGER trg_sync_conflicts_updated_at
+  BEFORE UPDATE ON sync_conflicts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sync_conflicts_isolation_policy ON sync_conflicts;
+CREATE POLICY sync_conflicts_isolation_policy ON sync_conflicts
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE sync_record_versions IS 'Baseline (external etag + local updated_at) from the last successful sync of each record';
+COMMENT ON TABLE sync_conflicts IS 'Records changed on both sides since the last sync, awaiting admin review (conflict_resolution = manual)';
+COMMENT ON COLUMN sync_conflicts.external_snapshot IS 'External values mapped onto local column names';
@@ -0,0 +1,79 @@
+-- ============================================================================
+-- MIGRATION 072: Incremental Google Calendar Sync
+-- ============================================================================
+-- google_calendar_sync_state: one row per organization holding the Google
+-- syncToken for incremental event listing and the events.watch push channel.
+--
+-- calendar_busy_intervals: local cache of busy Google events, kept warm by
+-- incremental syncs (triggered by push notifications) so GetAvailableSlots
+-- doesn't call freeBusy on every availability query. Times are wall-clock in
+-- the organization's timezone, like appointments.appointment_datetime.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS google_calendar_sync_state (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+  calendar_id TEXT NOT NULL DEFAULT 'primary',
+
+  sync_token TEXT,                      -- nextSyncToken from the last listing
+  full_synced_at TIMESTAMPTZ,           -- last full (token-less) listing
+  last_synced_at TIMESTAMPTZ,           -- last successful full or incremental listing
+  last_error TEXT,
+
+  channel_id TEXT UNIQUE,               -- events.watch channel
+  channel_resource_id TEXT,
+  channel_token TEXT,                   -- echoed in X-Goog-Channel-Token, verified by the webhook
+  channel_expires_at TIMESTAMPTZ,
+  last_notification_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trg_google_calendar_sync_state_updated_at ON google_calendar_sync_state;
+CREATE TRIGGER trg_google_calendar_sync_state_updated_at
+  BEFORE UPDATE ON google_calendar_sync_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE google_calendar_sync_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS google_calendar_sync_state_isolation_policy ON google_calendar_sync_state;
+CREATE POLICY google_calendar_sync_state_isolation_policy ON google_calendar_sync_state
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+CREATE TABLE IF NOT EXISTS calendar_busy_intervals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  calendar_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  start_local TIMESTAMP NOT NULL,
+  end_local TIMESTAMP NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(organization_id, calendar_id, event_id),
+  CHECK (end_local > start_local)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_busy_intervals_range
+  ON calendar_busy_intervals(organization_id, start_local, end_local);
+
+DROP TRIGGER IF EXISTS trg_calendar_busy_intervals_updated_at ON calendar_busy_intervals;
+CREATE TRIGGER trg_calendar_busy_intervals_updated_at
+  BEFORE UPDATE ON calendar_busy_intervals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE calendar_busy_intervals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS calendar_busy_intervals_isolation_policy ON calendar_busy_intervals;
+CREATE POLICY calendar_busy_intervals_isolation_policy ON calendar_busy_intervals
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE google_calendar_sync_state IS 'Per-org Google Calendar syncToken and events.watch channel';
+COMMENT ON TABLE calendar_busy_intervals IS 'Cached busy Google Calendar events (org-local wall clock) for slot search';
+COMMENT ON COLUMN google_calendar_sync_state.sync_token IS 'Cleared when Google answers 410 Gone; the next sync is a full listing';
@@ -0,0 +1,133 @@
+-- ============================================================================
+-- MIGRATION 073: Appointment Reminders and Confirmations
+-- ============================================================================
+-- reminder_rules: when and how to remind patients of upcoming appointments,
+--   e.g. 48h before by WhatsApp and 2h before by SMS. One row per offset and
+--   channel.
+--
+-- message_templates: per-organization, per-language overrides of the built-in
+--   patient message texts (reminder, confirmation replies). A template with
+--   channel NULL applies to every channel.
+--
+-- appointment_reminders: one row per rule per appointment, so a reminder is
+--   sent at most once. Patients answer by SMS keyword, WhatsApp button or the
+--   link in the message; the answer updates the appointment.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS reminder_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  offset_minutes INTEGER NOT NULL CHECK (offset_minutes BETWEEN 15 AND 20160),
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('sms', 'whatsapp', 'email')),
+  request_confirmation BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(organization_id, offset_minutes, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_rules_org_id ON reminder_rules(organization_id);
+
+DROP TRIGGER IF EXISTS update_reminder_rules_updated_at ON reminder_rules;
+CREATE TRIGGER update_reminder_rules_updated_at
+  BEFORE UPDATE ON reminder_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS message_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  template_key VARCHAR(50) NOT NULL,   -- 'appointment_reminder', 'reminder_confirmed', ...
+  channel VARCHAR(20) CHECK (channel IS NULL OR channel IN ('sms', 'whatsapp', 'email')),
+  language VARCHAR(10) NOT NULL DEFAULT 'en',
+  subject TEXT,                        -- email only
+  body TEXT NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_templates_unique
+  ON message_templates(organization_id, template_key, COALESCE(channel, ''), language);
+
+DROP TRIGGER IF EXISTS update_message_templates_updated_at ON message_templates;
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id SERIAL PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES reminder_rules(id) ON DELETE SET NULL,
+
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('sms', 'whatsapp', 'email')),
+  recipient VARCHAR(255),
+  language VARCHAR(10) NOT NULL DEFAULT 'en',
+  token VARCHAR(64) NOT NULL UNIQUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  message_id TEXT,
+  error TEXT,
+
+  response VARCHAR(20) CHECK (response IS NULL OR response IN ('confirmed', 'reschedule', 'cancelled')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(appointment_id, rule_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_org_id ON appointment_reminders(organization_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_appointment ON appointment_reminders(appointment_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_sent ON appointment_reminders(organization_id, status, sent_at);
+
+DROP TRIGGER IF EXISTS update_appointment_reminders_updated_at ON appointment_reminders;
+CREATE TRIGGER update_appointment_reminders_updated_at
+  BEFORE UPDATE ON appointment_reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Confirmation is tracked next to status (which stays Scheduled until the visit)
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS confirmation_status VARCHAR(30) NOT NULL DEFAULT 'unconfirmed'
+    CHECK (confirmation_status IN ('unconfirmed', 'confirmed', 'reschedule_requested')),
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- Message language: the patient's if known, otherwise the organization's
+ALTER TABLE patients ADD COLUMN IF NOT EXISTS preferred_language VARCHAR(10);
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS default_language VARCHAR(10) NOT NULL DEFAULT 'en';
+
+-- Same isolation model as appointments
+ALTER TABLE reminder_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS reminder_rules_isolation_policy ON reminder_rules;
+CREATE POLICY reminder_rules_isolation_policy ON reminder_rules
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+DROP POLICY IF EXISTS message_templates_isolation_policy ON message_templates;
+CREATE POLICY message_templates_isolation_policy ON message_templates
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+DROP POLICY IF EXISTS appointment_reminders_isolation_policy ON appointment_reminders;
+CREATE POLICY appointment_reminders_isolation_policy ON appointment_reminders
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE reminder_rules IS 'Reminder schedule per organization: minutes before the appointment and channel';
+COMMENT ON TABLE message_templates IS 'Organization overrides of patient message texts, per language and optionally per channel';
+COMMENT ON TABLE appointment_reminders IS 'Reminders sent for appointments and the patient''s answer';
+COMMENT ON COLUMN appointment_reminders.token IS 'Credential for the confirm/cancel link in the message';
+COMMENT ON COLUMN appointments.confirmation_status IS 'Patient answer to reminders; cancelling sets status instead';
+COMMENT ON COLUMN patients.preferred_language IS 'Language for patient messages (e.g. en, es); falls back to organizations.default_language';
@@ -0,0 +1,51 @@
+-- ============================================================================
+-- MIGRATION 074: Message Attachments (WhatsApp voice notes and images)
+-- ============================================================================
+-- message_attachments: media a patient sent us, e.g. a voice note or a photo
+--   of an insurance card. The file lives in the private "message-attachments"
+--   storage bucket; the row links it to the conversation, the WhatsApp
+--   message and (when the sender's phone matches) the patient record.
+--   Voice notes also keep their transcript, which is what the agent answered.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  whatsapp_message_id UUID REFERENCES whatsapp_messages(id) ON DELETE CASCADE,
+  patient_id INTEGER REFERENCES patients(id) ON DELETE SET NULL,
+
+  channel VARCHAR(20) NOT NULL DEFAULT 'whatsapp',
+  media_type VARCHAR(20) NOT NULL CHECK (media_type IN ('audio', 'image')),
+  mime_type VARCHAR(100),
+  file_name TEXT,
+  size_bytes INTEGER,
+  storage_path TEXT NOT NULL,           -- object key in the message-attachments bucket
+
+  caption TEXT,
+  transcript TEXT,                      -- voice notes only
+  sender TEXT,                          -- phone / WhatsApp JID it came from
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_org_id ON message_attachments(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_attachments_conversation ON message_attachments(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message ON message_attachments(whatsapp_message_id);
+CREATE INDEX IF NOT EXISTS idx_message_attachments_patient ON message_attachments(patient_id) WHERE patient_id IS NOT NULL;
+
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS message_attachments_isolation_policy ON message_attachments;
+CREATE POLICY message_attachments_isolation_policy ON message_attachments
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+-- Private bucket: files are served to the admin through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('message-attachments', 'message-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE message_attachments IS 'Media received from patients (voice notes, images) with storage location and transcript';
+COMMENT ON COLUMN message_attachments.storage_path IS 'Object key in the message-attachments storage bucket: <org>/<conversation>/<message>.<ext>';
+COMMENT ON COLUMN message_attachments.patient_id IS 'Patient whose phone matched the sender, if any';
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- MIGRATION 075: Human Takeover for SMS and WhatsApp Conversations
+-- ============================================================================
+-- Text conversations become inbox threads:
+--   thread_status  open -> pending (waiting on the patient) -> resolved;
+--                  a new patient message reopens a resolved thread
+--   ai_paused      set when staff claim the thread or the agent escalates;
+--                  Lexi stays quiet until the thread is released or resolved
+--   assigned_to    staff member who claimed it (auth user id and email)
+--   escalated_at / escalation_reason  the agent asked for a human
+-- Manual replies are logged in conversation_messages with metadata.sent_by.
+-- ============================================================================
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS thread_status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (thread_status IN ('open', 'pending', 'resolved')),
+  ADD COLUMN IF NOT EXISTS ai_paused BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS assigned_to UUID,             -- auth user id of the staff member
+  ADD COLUMN IF NOT EXISTS assigned_to_email TEXT,
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS escalation_reason TEXT;
+
+-- WhatsApp threads are created by get_or_create_whatsapp_conversation, which
+-- leaves channel at its default; mark them so the inbox can filter by channel
+UPDATE conversations
+SET channel = 'whatsapp'
+WHERE id IN (SELECT conversation_id FROM whatsapp_conversations WHERE conversation_id IS NOT NULL)
+  AND channel IS DISTINCT FROM 'whatsapp';
+
+CREATE OR REPLACE FUNCTION set_whatsapp_conversation_channel()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations SET channel = 'whatsapp'
+  WHERE id = NEW.conversation_id AND channel IS DISTINCT FROM 'whatsapp';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_whatsapp_conversation_channel ON whatsapp_conversations;
+CREATE TRIGGER set_whatsapp_conversation_channel
+  AFTER INSERT ON whatsapp_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_whatsapp_conversation_channel();
+
+CREATE INDEX IF NOT EXISTS idx_conversations_inbox
+  ON conversations(organization_id, thread_status, updated_at DESC)
+  WHERE channel IN ('sms', 'whatsapp');
+
+CREATE INDEX IF NOT EXISTS idx_conversations_escalated
+  ON conversations(organization_id, escalated_at DESC)
+  WHERE escalated_at IS NOT NULL;
+
+COMMENT ON COLUMN conversations.thread_status IS 'Inbox state for text threads: open, pending (waiting on patient), resolved';
+COMMENT ON COLUMN conversations.ai_paused IS 'True while staff handle the thread; the AI does not answer';
+COMMENT ON COLUMN conversations.assigned_to IS 'Staff member who claimed the thread';
+COMMENT ON COLUMN conversations.escalation_reason IS 'Why the AI handed the thread to staff';
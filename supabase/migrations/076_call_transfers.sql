@@ -0,0 +1,100 @@
+-- ============================================================================
+-- MIGRATION 076: Live Call Transfer to Staff
+-- ============================================================================
+-- call_transfer_targets: who the voice agent can hand a caller to, per
+--   organization (front desk, on-call dentist, ...). Each target has its own
+--   hours: always, during its on-duty window, or only outside it (e.g. the
+--   on-call dentist after hours). Targets are tried in priority order.
+-- call_transfers: one row per transfer the agent started, with the summary
+--   whispered to staff and the outcome (connected, no answer -> voicemail).
+-- conversations.transfer_status: latest transfer outcome for the call list.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS call_transfer_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  name VARCHAR(100) NOT NULL,
+  role VARCHAR(20) NOT NULL DEFAULT 'front_desk'
+    CHECK (role IN ('front_desk', 'on_call', 'other')),
+  phone_number VARCHAR(30) NOT NULL,
+
+  -- On-duty window in the organization's timezone
+  availability VARCHAR(20) NOT NULL DEFAULT 'on_duty'
+    CHECK (availability IN ('always', 'on_duty', 'off_duty')),
+  days_of_week INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}',  -- 0 = Sunday
+  start_time TIME NOT NULL DEFAULT '09:00',
+  end_time TIME NOT NULL DEFAULT '17:00',
+
+  priority INTEGER NOT NULL DEFAULT 0,                   -- lower rings first
+  ring_timeout_seconds INTEGER NOT NULL DEFAULT 20,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_transfer_targets_org ON call_transfer_targets(organization_id, priority);
+
+CREATE TABLE IF NOT EXISTS call_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+
+  provider VARCHAR(20) NOT NULL CHECK (provider IN ('twilio', 'retell')),
+  call_id TEXT NOT NULL,                                 -- Twilio CallSid / Retell call_id
+  reason TEXT,
+  summary TEXT,                                          -- whispered to staff before connecting
+  destination VARCHAR(20),                               -- requested role, if any
+
+  target_ids UUID[] NOT NULL DEFAULT '{}',               -- targets in the order they're tried
+  attempt INTEGER NOT NULL DEFAULT 0,
+  connected_target_id UUID REFERENCES call_transfer_targets(id) ON DELETE SET NULL,
+  connected_number VARCHAR(30),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'initiated'
+    CHECK (status IN ('initiated', 'ringing', 'connected', 'no_answer', 'voicemail', 'failed')),
+  voicemail_url TEXT,
+  voicemail_duration_seconds INTEGER,
+
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_transfers_org ON call_transfers(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_call_transfers_call ON call_transfers(call_id);
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS transfer_status VARCHAR(20);
+
+DROP TRIGGER IF EXISTS trg_call_transfer_targets_updated_at ON call_transfer_targets;
+CREATE TRIGGER trg_call_transfer_targets_updated_at
+  BEFORE UPDATE ON call_transfer_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trg_call_transfers_updated_at ON call_transfers;
+CREATE TRIGGER trg_call_transfers_updated_at
+  BEFORE UPDATE ON call_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE call_transfer_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS call_transfer_targets_isolation_policy ON call_transfer_targets;
+CREATE POLICY call_transfer_targets_isolation_policy ON call_transfer_targets
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+DROP POLICY IF EXISTS call_transfers_isolation_policy ON call_transfers;
+CREATE POLICY call_transfers_isolation_policy ON call_transfers
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE call_transfer_targets IS 'Numbers the voice agent can transfer callers to, with on-duty hours';
+COMMENT ON COLUMN call_transfer_targets.availability IS 'always, on_duty (inside days/start/end) or off_duty (outside them, e.g. on-call after hours)';
+COMMENT ON TABLE call_transfers IS 'Live call transfers started by the voice agent and their outcome';
+COMMENT ON COLUMN call_transfers.target_ids IS 'Targets in ring order; attempt indexes into it';
+COMMENT ON COLUMN conversations.transfer_status IS 'Outcome of the latest live transfer on this call';
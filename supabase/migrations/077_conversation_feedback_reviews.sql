@@ -0,0 +1,56 @@
+-- ============================================================================
+-- MIGRATION 077: Conversation Feedback and Staff Reviews
+-- ============================================================================
+-- conversation_feedback (from the learning-system migration) becomes
+-- organization scoped and can point at:
+--   the whole conversation            message_id / function_call_id NULL
+--   one assistant turn                message_id
+--   one function call                 function_call_id
+-- Staff reviews (feedback_source = 'staff') add failure tags and, for a turn,
+-- the response the agent should have given. One review per staff member and
+-- target; callers and the agent UI can leave any number of ratings.
+-- ============================================================================
+
+ALTER TABLE conversation_feedback
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS message_id UUID REFERENCES conversation_messages(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS function_call_id UUID REFERENCES function_calls(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS failure_tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS expected_response TEXT,        -- what the agent should have said / done
+  ADD COLUMN IF NOT EXISTS submitted_by UUID,             -- auth user id of the reviewer
+  ADD COLUMN IF NOT EXISTS submitted_by_email TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE conversation_feedback
+  DROP CONSTRAINT IF EXISTS conversation_feedback_feedback_source_check;
+ALTER TABLE conversation_feedback
+  ADD CONSTRAINT conversation_feedback_feedback_source_check
+    CHECK (feedback_source IN ('voice', 'ui', 'both', 'staff'));
+
+ALTER TABLE conversation_feedback
+  DROP CONSTRAINT IF EXISTS conversation_feedback_single_target;
+ALTER TABLE conversation_feedback
+  ADD CONSTRAINT conversation_feedback_single_target
+    CHECK (message_id IS NULL OR function_call_id IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_feedback_org ON conversation_feedback(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversation_feedback_conversation ON conversation_feedback(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_conversation_feedback_tags ON conversation_feedback USING GIN(failure_tags);
+
+DROP TRIGGER IF EXISTS trg_conversation_feedback_updated_at ON conversation_feedback;
+CREATE TRIGGER trg_conversation_feedback_updated_at
+  BEFORE UPDATE ON conversation_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE conversation_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS conversation_feedback_isolation_policy ON conversation_feedback;
+CREATE POLICY conversation_feedback_isolation_policy ON conversation_feedback
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON COLUMN conversation_feedback.message_id IS 'Assistant turn being rated; NULL with function_call_id NULL rates the whole conversation';
+COMMENT ON COLUMN conversation_feedback.failure_tags IS 'Why the agent failed (see lib/feedback/feedback.ts FAILURE_TAGS)';
+COMMENT ON COLUMN conversation_feedback.expected_response IS 'Reviewer correction, exported as the label in the feedback dataset';
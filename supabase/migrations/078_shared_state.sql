@@ -0,0 +1,43 @@
+-- ============================================================================
+-- MIGRATION 078: Shared Session State
+-- ============================================================================
+-- Key/value store behind src/app/lib/state (STATE_STORE=postgres). Holds
+-- in-call state (conversation state, booking session, Retell call history)
+-- so the Next.js app and the websocket server see the same data and a
+-- redeploy mid-call doesn't lose it.
+--   version     optimistic concurrency: writers update WHERE version = read
+--   expires_at  TTL; expired rows are ignored on read and swept periodically
+-- Keys are session ids, not organization scoped: server-side access only.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS shared_state (
+  namespace TEXT NOT NULL,                 -- conversation, booking_session, retell_call
+  key TEXT NOT NULL,                       -- usually the session id
+  value JSONB NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (namespace, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_state_expires ON shared_state(expires_at);
+
+DROP TRIGGER IF EXISTS trg_shared_state_updated_at ON shared_state;
+CREATE TRIGGER trg_shared_state_updated_at
+  BEFORE UPDATE ON shared_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE shared_state ENABLE ROW LEVEL SECURITY;
+
+-- Service role only
+DROP POLICY IF EXISTS shared_state_service_role_policy ON shared_state;
+CREATE POLICY shared_state_service_role_policy ON shared_state
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE shared_state IS 'Versioned, expiring session state shared by all app and websocket server instances';
+COMMENT ON COLUMN shared_state.version IS 'Incremented on every write; writes that read an older version are rejected';
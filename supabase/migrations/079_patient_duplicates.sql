@@ -0,0 +1,83 @@
+-- ============================================================================
+-- MIGRATION 079: Patient Duplicate Review and Merges
+-- ============================================================================
+-- patient_duplicate_candidates: pairs that may be the same person, found by
+--   CreatePatient (source = 'agent') or a full scan from the patients page
+--   (source = 'scan'). Staff merge or dismiss them; a dismissed pair is not
+--   queued again. The lower patient id is always patient_id.
+--
+-- patient_merges: audit trail of merges. Keeps a snapshot of the deleted
+--   record, the survivor before it was filled in, and the ids of every row
+--   re-pointed to the survivor, so a merge can be undone.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS patient_duplicate_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  duplicate_patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  score NUMERIC(4, 3) NOT NULL,
+  reasons TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  source VARCHAR(20) NOT NULL DEFAULT 'scan' CHECK (source IN ('agent', 'scan')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  reviewed_by UUID,                         -- auth user id of the reviewer
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (patient_id < duplicate_patient_id),
+  UNIQUE (organization_id, patient_id, duplicate_patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_duplicate_candidates_queue
+  ON patient_duplicate_candidates(organization_id, status, score DESC);
+CREATE INDEX IF NOT EXISTS idx_patient_duplicate_candidates_duplicate
+  ON patient_duplicate_candidates(duplicate_patient_id);
+
+DROP TRIGGER IF EXISTS update_patient_duplicate_candidates_updated_at ON patient_duplicate_candidates;
+CREATE TRIGGER update_patient_duplicate_candidates_updated_at
+  BEFORE UPDATE ON patient_duplicate_candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS patient_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Not foreign keys: the merged patient is deleted, and restored on undo
+  surviving_patient_id INTEGER NOT NULL,
+  merged_patient_id INTEGER NOT NULL,
+  merged_patient JSONB NOT NULL,            -- full row of the deleted record
+  surviving_patient_before JSONB NOT NULL,  -- survivor before missing fields were copied over
+  moved JSONB NOT NULL DEFAULT '{}',        -- { appointments: [ids], treatment_plans: [ids], ... }
+  score NUMERIC(4, 3),
+  merged_by UUID,                           -- auth user id
+  merged_by_email VARCHAR(255),
+  undone_at TIMESTAMP WITH TIME ZONE,
+  undone_by UUID,
+  undone_by_email VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_merges_org
+  ON patient_merges(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_patient_merges_surviving
+  ON patient_merges(organization_id, surviving_patient_id);
+
+-- Same isolation model as patients
+ALTER TABLE patient_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_merges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS patient_duplicate_candidates_isolation_policy ON patient_duplicate_candidates;
+CREATE POLICY patient_duplicate_candidates_isolation_policy ON patient_duplicate_candidates
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+DROP POLICY IF EXISTS patient_merges_isolation_policy ON patient_merges;
+CREATE POLICY patient_merges_isolation_policy ON patient_merges
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE patient_duplicate_candidates IS 'Possible duplicate patient pairs awaiting staff review';
+COMMENT ON COLUMN patient_duplicate_candidates.score IS 'Match score 0-1 from lib/patients/duplicates';
+COMMENT ON COLUMN patient_duplicate_candidates.reasons IS 'Evidence, e.g. same_birthdate, same_phone, nickname';
+COMMENT ON TABLE patient_merges IS 'Audit trail of patient merges, with everything needed to undo one';
+COMMENT ON COLUMN patient_merges.moved IS 'Ids of rows re-pointed from the merged patient to the survivor, per table';
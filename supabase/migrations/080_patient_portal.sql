@@ -0,0 +1,73 @@
+-- ============================================================================
+-- MIGRATION 080: Patient Self-Service Portal
+-- ============================================================================
+-- Patients sign in at /portal/<org slug> with a one-time magic link sent by
+-- SMS or email to the phone/email on their patients record.
+--
+-- patient_portal_links:    one-time sign-in links (short-lived, single use)
+-- patient_portal_sessions: the browser session a used link turns into
+-- Only SHA-256 hashes of link and session tokens are stored.
+--
+-- organizations.portal_*: whether the portal is on, and how close to the
+--   appointment patients may still reschedule or cancel online.
+-- ============================================================================
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS portal_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS portal_reschedule_cutoff_hours INTEGER NOT NULL DEFAULT 24
+    CHECK (portal_reschedule_cutoff_hours BETWEEN 0 AND 720),
+  ADD COLUMN IF NOT EXISTS portal_cancel_cutoff_hours INTEGER NOT NULL DEFAULT 24
+    CHECK (portal_cancel_cutoff_hours BETWEEN 0 AND 720),
+  ADD COLUMN IF NOT EXISTS portal_reschedule_horizon_days INTEGER NOT NULL DEFAULT 90
+    CHECK (portal_reschedule_horizon_days BETWEEN 1 AND 365);
+
+CREATE TABLE IF NOT EXISTS patient_portal_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('sms', 'email')),
+  sent_to VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_portal_links_patient
+  ON patient_portal_links(organization_id, patient_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS patient_portal_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  patient_id INTEGER NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  link_id UUID REFERENCES patient_portal_links(id) ON DELETE SET NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_portal_sessions_patient
+  ON patient_portal_sessions(organization_id, patient_id);
+
+-- Same isolation model as patients; the public portal API uses the service role
+ALTER TABLE patient_portal_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_portal_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS patient_portal_links_isolation_policy ON patient_portal_links;
+CREATE POLICY patient_portal_links_isolation_policy ON patient_portal_links
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+DROP POLICY IF EXISTS patient_portal_sessions_isolation_policy ON patient_portal_sessions;
+CREATE POLICY patient_portal_sessions_isolation_policy ON patient_portal_sessions
+  FOR ALL
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE patient_portal_links IS 'One-time magic sign-in links for the patient portal';
+COMMENT ON TABLE patient_portal_sessions IS 'Patient portal browser sessions created from a used magic link';
+COMMENT ON COLUMN organizations.portal_enabled IS 'Patients can sign in to the self-service portal';
+COMMENT ON COLUMN organizations.portal_reschedule_cutoff_hours IS 'Online rescheduling closes this many hours before the appointment';
+COMMENT ON COLUMN organizations.portal_cancel_cutoff_hours IS 'Online cancelling closes this many hours before the appointment';
+COMMENT ON COLUMN organizations.portal_reschedule_horizon_days IS 'How far ahead patients can move an appointment online';
@@ -0,0 +1,68 @@
+-- ============================================================================
+-- MIGRATION 081: Credential Envelope Encryption
+-- ============================================================================
+-- api_credentials secrets are encrypted in the application (AES-256-GCM):
+--
+-- credential_data_keys:  one active data key per organization (NULL = system
+--   credentials), stored wrapped by the master key from CREDENTIALS_MASTER_KEY.
+--   master_key_id records which master key wrapped it, so keys can be rotated.
+-- api_credentials.encrypted_credentials: the credentials JSON encrypted with
+--   the organization's data key. Once a row is encrypted, `credentials` only
+--   holds a masked copy (secret values replaced by ••••last4) for display.
+--   Rows with encrypted_credentials NULL are legacy plaintext until the
+--   rotation command (npm run credentials:rotate) encrypts them.
+-- credential_access_log: every decryption (and rotation), with the code path
+--   that asked for it.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS credential_data_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  master_key_id VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  retired_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One active key per organization; system keys (NULL org) share one slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credential_data_keys_active
+  ON credential_data_keys (COALESCE(organization_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE status = 'active';
+
+ALTER TABLE api_credentials
+  ADD COLUMN IF NOT EXISTS encrypted_credentials TEXT,
+  ADD COLUMN IF NOT EXISTS data_key_id UUID REFERENCES credential_data_keys(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_api_credentials_data_key ON api_credentials(data_key_id);
+
+CREATE TABLE IF NOT EXISTS credential_access_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  credential_id UUID,
+  credential_type VARCHAR(50) NOT NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('decrypt', 'rotate')),
+  accessed_by VARCHAR(200) NOT NULL,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credential_access_log_org
+  ON credential_access_log(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credential_access_log_credential
+  ON credential_access_log(credential_id, created_at DESC);
+
+-- Data keys are only ever read with the service role
+ALTER TABLE credential_data_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credential_access_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS credential_access_log_isolation_policy ON credential_access_log;
+CREATE POLICY credential_access_log_isolation_policy ON credential_access_log
+  FOR SELECT
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE credential_data_keys IS 'Per-organization data keys for api_credentials, wrapped by the application master key';
+COMMENT ON COLUMN credential_data_keys.master_key_id IS 'Id of the master key (CREDENTIALS_MASTER_KEY_ID) that wrapped this data key';
+COMMENT ON COLUMN api_credentials.encrypted_credentials IS 'AES-256-GCM encrypted credentials JSON; credentials then holds a masked copy';
+COMMENT ON COLUMN api_credentials.data_key_id IS 'Data key that encrypted encrypted_credentials';
+COMMENT ON TABLE credential_access_log IS 'Audit trail of credential decryption by code path';
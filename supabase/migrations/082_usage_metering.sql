@@ -0,0 +1,44 @@
+-- ============================================================================
+-- MIGRATION 082: Usage Metering
+-- ============================================================================
+-- usage_ledger: metered usage per organization, metric and UTC day, rebuilt
+--   from conversations, conversation_messages and function_calls by the
+--   metering worker (/api/usage/meter). Re-metering a day overwrites its row,
+--   so the ledger can always be recalculated from the source tables.
+--
+--   call_minutes  voice conversation duration (duration_ms / 60000)
+--   messages      messages in SMS, WhatsApp and web conversations
+--   llm_tokens    Retell's reported token usage; other conversations are
+--                 estimated from their transcript and tool calls (the
+--                 estimated part is kept in metadata.estimated)
+--
+-- Plan quotas live in the application (lib/billing/entitlements.ts); the
+-- seat limits stay on organizations (max_users, max_providers,
+-- max_whatsapp_instances, NULL = unlimited).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  metric VARCHAR(30) NOT NULL CHECK (metric IN ('call_minutes', 'messages', 'llm_tokens')),
+  usage_date DATE NOT NULL,
+  quantity NUMERIC(14, 2) NOT NULL DEFAULT 0,
+  conversation_count INTEGER NOT NULL DEFAULT 0,
+  metadata JSONB DEFAULT '{}'::JSONB,
+  metered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (organization_id, metric, usage_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_org_date
+  ON usage_ledger(organization_id, usage_date DESC);
+
+ALTER TABLE usage_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS usage_ledger_isolation_policy ON usage_ledger;
+CREATE POLICY usage_ledger_isolation_policy ON usage_ledger
+  FOR SELECT
+  USING (organization_id = get_current_organization_id());
+
+COMMENT ON TABLE usage_ledger IS 'Metered usage per organization, metric and UTC day, rebuilt from conversations by the metering worker';
+COMMENT ON COLUMN usage_ledger.quantity IS 'Minutes, messages or tokens for the day';
+COMMENT ON COLUMN usage_ledger.metadata IS 'Metering detail, e.g. { "estimated": 1200 } tokens estimated from transcripts';
@@ -0,0 +1,32 @@
+-- ============================================================================
+-- MIGRATION 083: Reminders Per Appointment Time
+-- ============================================================================
+-- appointment_reminders was unique per (appointment, rule), so once a reminder
+-- had been sent or skipped, rescheduling the appointment left the new time
+-- without reminders. Each row now records the appointment time it was for,
+-- and the key includes it: a new time gets its own reminders while the rows
+-- (and replies) for the old time stay as history.
+-- ============================================================================
+
+ALTER TABLE appointment_reminders
+  ADD COLUMN IF NOT EXISTS appointment_datetime TIMESTAMP;
+
+UPDATE appointment_reminders r
+SET appointment_datetime = a.appointment_datetime
+FROM appointments a
+WHERE a.id = r.appointment_id
+  AND r.appointment_datetime IS NULL;
+
+ALTER TABLE appointment_reminders
+  ALTER COLUMN appointment_datetime SET NOT NULL;
+
+ALTER TABLE appointment_reminders
+  DROP CONSTRAINT IF EXISTS appointment_reminders_appointment_id_rule_id_key;
+
+ALTER TABLE appointment_reminders
+  DROP CONSTRAINT IF EXISTS appointment_reminders_appointment_rule_time_key;
+ALTER TABLE appointment_reminders
+  ADD CONSTRAINT appointment_reminders_appointment_rule_time_key
+  UNIQUE (appointment_id, rule_id, appointment_datetime);
+
+COMMENT ON COLUMN appointment_reminders.appointment_datetime IS 'Appointment time the reminder was for; a rescheduled appointment gets new reminders';
@@ -0,0 +1,197 @@
+-- ============================================================================
+-- MIGRATION 084: Patient Merge Functions
+-- ============================================================================
+-- Merging and undoing a merge touch several tables (the audit row, every row
+-- pointing at the patient, the survivor's fields and the patient itself).
+-- Done as separate requests, a failure halfway left patients half merged.
+-- merge_patients and undo_patient_merge run the whole thing in one
+-- transaction and are called from lib/patients/merge.ts via rpc.
+--
+-- Rows re-pointed to the survivor:
+--   appointments, waitlist_entries, message_attachments  patient_id (integer)
+--   treatment_plans                                      patient_id (text PatNum)
+--   conversations                                        patient_info->>'patNum'
+-- Survivor fields filled from the duplicate when empty:
+--   phone, email, date_of_birth, preferred_language
+-- ============================================================================
+
+-- Point the listed rows at p_to_patient_id
+CREATE OR REPLACE FUNCTION repoint_merged_rows(
+  p_organization_id UUID,
+  p_moved JSONB,
+  p_to_patient_id INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['appointments', 'waitlist_entries', 'message_attachments'] LOOP
+    EXECUTE format(
+      'UPDATE %I SET patient_id = $1
+       WHERE organization_id = $2
+         AND id::text IN (SELECT jsonb_array_elements_text($3))',
+      v_table
+    )
+    USING p_to_patient_id, p_organization_id, COALESCE(p_moved->v_table, '[]'::jsonb);
+  END LOOP;
+
+  UPDATE treatment_plans
+  SET patient_id = p_to_patient_id::text
+  WHERE organization_id = p_organization_id
+    AND id::text IN (SELECT jsonb_array_elements_text(COALESCE(p_moved->'treatment_plans', '[]'::jsonb)));
+
+  UPDATE conversations
+  SET patient_info = jsonb_set(COALESCE(patient_info, '{}'::jsonb), '{patNum}', to_jsonb(p_to_patient_id))
+  WHERE organization_id = p_organization_id
+    AND id::text IN (SELECT jsonb_array_elements_text(COALESCE(p_moved->'conversations', '[]'::jsonb)));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge p_duplicate_id into p_survivor_id and return the audit row
+CREATE OR REPLACE FUNCTION merge_patients(
+  p_organization_id UUID,
+  p_survivor_id INTEGER,
+  p_duplicate_id INTEGER,
+  p_actor_id UUID,
+  p_actor_email VARCHAR DEFAULT NULL,
+  p_score NUMERIC DEFAULT NULL
+)
+RETURNS patient_merges AS $$
+DECLARE
+  v_survivor patients%ROWTYPE;
+  v_duplicate patients%ROWTYPE;
+  v_moved JSONB := '{}'::jsonb;
+  v_ids JSONB;
+  v_table TEXT;
+  v_merge patient_merges%ROWTYPE;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a patient into itself';
+  END IF;
+
+  -- Lock both records so a concurrent merge of either waits for this one
+  SELECT * INTO v_survivor FROM patients
+  WHERE id = p_survivor_id AND organization_id = p_organization_id
+  FOR UPDATE;
+  SELECT * INTO v_duplicate FROM patients
+  WHERE id = p_duplicate_id AND organization_id = p_organization_id
+  FOR UPDATE;
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['appointments', 'waitlist_entries', 'message_attachments'] LOOP
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(id), ''[]''::jsonb) FROM %I
+       WHERE organization_id = $1 AND patient_id = $2',
+      v_table
+    )
+    INTO v_ids
+    USING p_organization_id, p_duplicate_id;
+    v_moved := v_moved || jsonb_build_object(v_table, v_ids);
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(id), '[]'::jsonb) INTO v_ids
+  FROM treatment_plans
+  WHERE organization_id = p_organization_id AND patient_id = p_duplicate_id::text;
+  v_moved := v_moved || jsonb_build_object('treatment_plans', v_ids);
+
+  SELECT COALESCE(jsonb_agg(id), '[]'::jsonb) INTO v_ids
+  FROM conversations
+  WHERE organization_id = p_organization_id AND patient_info->>'patNum' = p_duplicate_id::text;
+  v_moved := v_moved || jsonb_build_object('conversations', v_ids);
+
+  INSERT INTO patient_merges (
+    organization_id, surviving_patient_id, merged_patient_id, merged_patient,
+    surviving_patient_before, moved, score, merged_by, merged_by_email
+  )
+  VALUES (
+    p_organization_id, p_survivor_id, p_duplicate_id, to_jsonb(v_duplicate),
+    to_jsonb(v_survivor), v_moved, p_score, p_actor_id, p_actor_email
+  )
+  RETURNING * INTO v_merge;
+
+  PERFORM repoint_merged_rows(p_organization_id, v_moved, p_survivor_id);
+
+  UPDATE patients SET
+    phone = CASE WHEN COALESCE(phone, '') = '' AND COALESCE(v_duplicate.phone, '') <> ''
+      THEN v_duplicate.phone ELSE phone END,
+    email = CASE WHEN COALESCE(email, '') = '' AND COALESCE(v_duplicate.email, '') <> ''
+      THEN v_duplicate.email ELSE email END,
+    date_of_birth = COALESCE(date_of_birth, v_duplicate.date_of_birth),
+    preferred_language = CASE WHEN COALESCE(preferred_language, '') = '' AND COALESCE(v_duplicate.preferred_language, '') <> ''
+      THEN v_duplicate.preferred_language ELSE preferred_language END
+  WHERE id = p_survivor_id AND organization_id = p_organization_id;
+
+  -- Anything still pointing at the duplicate cascades (e.g. its review queue rows)
+  DELETE FROM patients
+  WHERE id = p_duplicate_id AND organization_id = p_organization_id;
+
+  RETURN v_merge;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Restore the merged patient, move its rows back and clear the fields copied
+-- onto the survivor unless staff have changed them since
+CREATE OR REPLACE FUNCTION undo_patient_merge(
+  p_organization_id UUID,
+  p_merge_id UUID,
+  p_actor_id UUID,
+  p_actor_email VARCHAR DEFAULT NULL
+)
+RETURNS patient_merges AS $$
+DECLARE
+  v_merge patient_merges%ROWTYPE;
+  v_merged patients%ROWTYPE;
+  v_before patients%ROWTYPE;
+BEGIN
+  SELECT * INTO v_merge FROM patient_merges
+  WHERE id = p_merge_id AND organization_id = p_organization_id
+  FOR UPDATE;
+  IF v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Merge was already undone';
+  END IF;
+
+  PERFORM 1 FROM patients
+  WHERE id = v_merge.surviving_patient_id AND organization_id = p_organization_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surviving patient no longer exists';
+  END IF;
+
+  v_merged := jsonb_populate_record(NULL::patients, v_merge.merged_patient);
+  v_before := jsonb_populate_record(NULL::patients, v_merge.surviving_patient_before);
+
+  INSERT INTO patients SELECT v_merged.*;
+
+  PERFORM repoint_merged_rows(p_organization_id, v_merge.moved, v_merge.merged_patient_id);
+
+  UPDATE patients SET
+    phone = CASE WHEN COALESCE(v_before.phone, '') = '' AND COALESCE(v_merged.phone, '') <> ''
+        AND phone IS NOT DISTINCT FROM v_merged.phone
+      THEN v_before.phone ELSE phone END,
+    email = CASE WHEN COALESCE(v_before.email, '') = '' AND COALESCE(v_merged.email, '') <> ''
+        AND email IS NOT DISTINCT FROM v_merged.email
+      THEN v_before.email ELSE email END,
+    date_of_birth = CASE WHEN v_before.date_of_birth IS NULL AND v_merged.date_of_birth IS NOT NULL
+        AND date_of_birth IS NOT DISTINCT FROM v_merged.date_of_birth
+      THEN NULL ELSE date_of_birth END,
+    preferred_language = CASE WHEN COALESCE(v_before.preferred_language, '') = '' AND COALESCE(v_merged.preferred_language, '') <> ''
+        AND preferred_language IS NOT DISTINCT FROM v_merged.preferred_language
+      THEN v_before.preferred_language ELSE preferred_language END
+  WHERE id = v_merge.surviving_patient_id AND organization_id = p_organization_id;
+
+  UPDATE patient_merges
+  SET undone_at = NOW(), undone_by = p_actor_id, undone_by_email = p_actor_email
+  WHERE id = p_merge_id
+  RETURNING * INTO v_merge;
+
+  RETURN v_merge;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION merge_patients IS 'Merge a duplicate patient into the survivor in one transaction; returns the patient_merges row';
+COMMENT ON FUNCTION undo_patient_merge IS 'Undo a patient merge in one transaction; returns the updated patient_merges row';
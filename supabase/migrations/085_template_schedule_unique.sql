@@ -0,0 +1,29 @@
+-- ============================================================================
+-- MIGRATION 085: Unique Template Schedules
+-- ============================================================================
+-- Template materialization runs lazily before slot searches, so two requests
+-- can materialize the same template at once. Both saw the row as missing and
+-- both inserted it, leaving duplicate provider_schedules rows. A generated row
+-- is now unique per template, date, room and time, and materialization
+-- inserts with ON CONFLICT DO NOTHING.
+--
+-- Manually created schedules have template_id NULL and are never equal to
+-- each other under the index, so they are not affected.
+-- ============================================================================
+
+-- Drop duplicates left by earlier concurrent runs, keeping the oldest row
+DELETE FROM provider_schedules ps
+USING provider_schedules keep
+WHERE ps.template_id IS NOT NULL
+  AND keep.template_id = ps.template_id
+  AND keep.schedule_date = ps.schedule_date
+  AND keep.operatory_id = ps.operatory_id
+  AND keep.start_time = ps.start_time
+  AND keep.end_time = ps.end_time
+  AND keep.id < ps.id;
+
+-- Not partial: PostgREST upserts can only target a plain unique index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_schedules_template_slot
+  ON provider_schedules(template_id, schedule_date, operatory_id, start_time, end_time);
+
+COMMENT ON INDEX idx_provider_schedules_template_slot IS 'One generated schedule per template, date, operatory and time; manual rows (template_id NULL) are not constrained';